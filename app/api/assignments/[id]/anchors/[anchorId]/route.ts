@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+
+// DELETE - Unpin an anchor; gradings from now on leave it out
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; anchorId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id, anchorId } = await params
+    const supabase = createAdminClient()
+    const { data: anchor } = await supabase
+      .from('grading_anchors')
+      .select('id, teacher_id')
+      .eq('id', anchorId)
+      .eq('assignment_id', id)
+      .maybeSingle()
+    if (!anchor) return NextResponse.json({ error: 'Anchor not found' }, { status: 404 })
+    if (anchor.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const { error } = await supabase.from('grading_anchors').delete().eq('id', anchorId)
+    if (error) return NextResponse.json({ error: 'Failed to remove anchor' }, { status: 500 })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Anchor DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import {
+  MAX_ANCHORS_PER_ASSIGNMENT,
+  MAX_ANCHOR_ANSWER_LEN,
+  MAX_ANCHOR_RATIONALE_LEN,
+} from '@/lib/grading/calibration'
+
+const ANCHOR_COLUMNS =
+  'id, question_number, answer, marks_awarded, marks_possible, rationale, source_submission_id, calibration_id, created_at'
+
+// GET - The moderated answers pinned on the assignment; every grading of it
+// includes them in the prompt.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: assignment } = await supabase
+      .from('assignments').select('id, teacher_id').eq('id', id).maybeSingle()
+    if (!assignment) return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    if (assignment.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const { data: anchors, error } = await supabase
+      .from('grading_anchors')
+      .select(ANCHOR_COLUMNS)
+      .eq('assignment_id', id)
+      .order('created_at')
+    if (error) return NextResponse.json({ error: 'Failed to fetch anchors' }, { status: 500 })
+    return NextResponse.json({ anchors: anchors ?? [] })
+  } catch (error) {
+    console.error('Anchors GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Pin a moderated answer. Body { question_number, answer,
+// marks_awarded, marks_possible, rationale?, source_submission_id?,
+// calibration_id? }.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: assignment } = await supabase
+      .from('assignments').select('id, teacher_id').eq('id', id).maybeSingle()
+    if (!assignment) return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    if (assignment.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const body = await request.json()
+    const question = typeof body.question_number === 'string' ? body.question_number.trim() : ''
+    const answer = typeof body.answer === 'string' ? body.answer.trim() : ''
+    const rationale = typeof body.rationale === 'string' ? body.rationale.trim() : ''
+    const marksAwarded = Number(body.marks_awarded)
+    const marksPossible = Number(body.marks_possible)
+    if (!question) return NextResponse.json({ error: 'Question is required' }, { status: 400 })
+    if (!answer) return NextResponse.json({ error: 'Paste the answer being moderated' }, { status: 400 })
+    if (answer.length > MAX_ANCHOR_ANSWER_LEN) {
+      return NextResponse.json({ error: `Answer must be at most ${MAX_ANCHOR_ANSWER_LEN} characters` }, { status: 400 })
+    }
+    if (rationale.length > MAX_ANCHOR_RATIONALE_LEN) {
+      return NextResponse.json({ error: `Reason must be at most ${MAX_ANCHOR_RATIONALE_LEN} characters` }, { status: 400 })
+    }
+    if (!Number.isFinite(marksPossible) || marksPossible <= 0 || !Number.isFinite(marksAwarded) ||
+        marksAwarded < 0 || marksAwarded > marksPossible) {
+      return NextResponse.json({ error: 'Marks must be between 0 and the marks available' }, { status: 400 })
+    }
+
+    const { count } = await supabase
+      .from('grading_anchors')
+      .select('id', { count: 'exact', head: true })
+      .eq('assignment_id', id)
+    if ((count ?? 0) >= MAX_ANCHORS_PER_ASSIGNMENT) {
+      return NextResponse.json(
+        { error: `An assignment can have at most ${MAX_ANCHORS_PER_ASSIGNMENT} anchors — remove one first` },
+        { status: 409 }
+      )
+    }
+
+    const { data: anchor, error } = await supabase
+      .from('grading_anchors')
+      .insert({
+        assignment_id: id,
+        teacher_id: user.id,
+        question_number: question,
+        answer,
+        marks_awarded: marksAwarded,
+        marks_possible: marksPossible,
+        rationale: rationale || null,
+        source_submission_id: typeof body.source_submission_id === 'string' ? body.source_submission_id : null,
+        calibration_id: typeof body.calibration_id === 'string' ? body.calibration_id : null,
+      })
+      .select(ANCHOR_COLUMNS)
+      .single()
+    if (error || !anchor) {
+      console.error('Error pinning anchor:', error)
+      return NextResponse.json({ error: 'Failed to pin anchor' }, { status: 500 })
+    }
+    return NextResponse.json({ anchor }, { status: 201 })
+  } catch (error) {
+    console.error('Anchors POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
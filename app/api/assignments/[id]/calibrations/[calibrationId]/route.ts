@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { questionSpreads, type CalibrationRun } from '@/lib/grading/calibration'
+
+// GET - A calibration's report: each question's spread across runs (worst
+// first, flagged over the threshold), the runs themselves for pinning an
+// anchor from, and the students the submissions belong to.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; calibrationId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id, calibrationId } = await params
+    const supabase = createAdminClient()
+    const { data: calibration } = await supabase
+      .from('grading_calibrations')
+      .select('id, assignment_id, teacher_id, mode, submission_ids, runs_per_submission, spread_threshold, status, runs, total_runs, error, created_at, finished_at')
+      .eq('id', calibrationId)
+      .eq('assignment_id', id)
+      .maybeSingle()
+    if (!calibration) return NextResponse.json({ error: 'Calibration not found' }, { status: 404 })
+    if (calibration.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const runs = (calibration.runs ?? []) as CalibrationRun[]
+    const threshold = Number(calibration.spread_threshold)
+
+    const { data: submissions } = calibration.submission_ids.length > 0
+      ? await supabase.from('assignment_submissions').select('id, student_id').in('id', calibration.submission_ids)
+      : { data: [] }
+    const { data: profiles } = (submissions ?? []).length > 0
+      ? await supabase
+        .from('user_profiles')
+        .select('id, email, first_name, last_name')
+        .in('id', (submissions ?? []).map(s => s.student_id))
+      : { data: [] }
+    const profileMap = new Map((profiles ?? []).map(p => [p.id, p]))
+
+    return NextResponse.json({
+      calibration: {
+        id: calibration.id,
+        mode: calibration.mode,
+        runs_per_submission: calibration.runs_per_submission,
+        spread_threshold: threshold,
+        status: calibration.status,
+        completed_runs: runs.length,
+        total_runs: calibration.total_runs,
+        error: calibration.error,
+        created_at: calibration.created_at,
+        finished_at: calibration.finished_at,
+      },
+      students: Object.fromEntries((submissions ?? []).map(s => {
+        const p = profileMap.get(s.student_id)
+        const name = p ? [p.first_name, p.last_name].filter(Boolean).join(' ') || p.email : 'Unknown student'
+        return [s.id, name]
+      })),
+      questions: questionSpreads(runs, threshold),
+      runs,
+    })
+  } catch (error) {
+    console.error('Calibration GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { validateCalibrationSettings } from '@/lib/grading/calibration'
+import { enqueueCalibration } from '@/lib/jobs/handlers'
+
+// GET - The assignment's calibrations, newest first, with progress counts.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: assignment } = await supabase
+      .from('assignments').select('id, teacher_id').eq('id', id).maybeSingle()
+    if (!assignment) return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    if (assignment.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const { data: calibrations, error } = await supabase
+      .from('grading_calibrations')
+      .select('id, mode, submission_ids, sample_size, runs_per_submission, spread_threshold, status, runs, total_runs, error, created_at, finished_at')
+      .eq('assignment_id', id)
+      .order('created_at', { ascending: false })
+      .limit(20)
+    if (error) return NextResponse.json({ error: 'Failed to fetch calibrations' }, { status: 500 })
+
+    return NextResponse.json({
+      calibrations: (calibrations ?? []).map(({ runs, ...c }) => ({
+        ...c,
+        completed_runs: Array.isArray(runs) ? runs.length : 0,
+      })),
+    })
+  } catch (error) {
+    console.error('Calibrations GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Start a calibration. Body { mode: 'sample' | 'repeat',
+// submission_ids?, sample_size?, runs?, threshold? }. Re-grading runs in a
+// background job; GET .../calibrations/[calibrationId] has the report.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: assignment } = await supabase
+      .from('assignments').select('id, teacher_id, title, mark_scheme_url, rubric').eq('id', id).maybeSingle()
+    if (!assignment) return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    if (assignment.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    if (!assignment.mark_scheme_url && !assignment.rubric) {
+      return NextResponse.json({ error: 'Add a mark scheme or rubric to this assignment first' }, { status: 400 })
+    }
+
+    const validation = validateCalibrationSettings(await request.json())
+    if (!validation.ok) return NextResponse.json({ error: validation.error }, { status: 400 })
+    const settings = validation.settings
+
+    if (settings.submissionIds.length > 0) {
+      const { data: found } = await supabase
+        .from('assignment_submissions')
+        .select('id')
+        .eq('assignment_id', id)
+        .in('id', settings.submissionIds)
+      if ((found ?? []).length !== settings.submissionIds.length) {
+        return NextResponse.json({ error: 'Submission not found on this assignment' }, { status: 400 })
+      }
+    }
+
+    const { data: calibration, error: insertError } = await supabase
+      .from('grading_calibrations')
+      .insert({
+        assignment_id: id,
+        teacher_id: user.id,
+        mode: settings.mode,
+        submission_ids: settings.submissionIds,
+        sample_size: settings.sampleSize,
+        runs_per_submission: settings.runs,
+        spread_threshold: settings.threshold,
+      })
+      .select('id, status')
+      .single()
+    if (insertError || !calibration) {
+      console.error('Error creating calibration:', insertError)
+      return NextResponse.json({ error: 'Failed to start calibration' }, { status: 500 })
+    }
+
+    await enqueueCalibration(supabase, { calibrationId: calibration.id, teacherId: user.id, title: assignment.title })
+    return NextResponse.json({ calibration }, { status: 201 })
+  } catch (error) {
+    console.error('Calibrations POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { validateExemplar } from '@/lib/grading/exemplars'
+
+const EXEMPLAR_COLUMNS = 'id, label, file_urls, marks, created_at, updated_at'
+
+// PUT - Replace an exemplar's label, script or marks; same body as POST.
+// Gradings already done keep the exemplar labels they were given.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; exemplarId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id, exemplarId } = await params
+    const supabase = createAdminClient()
+    const { data: existing } = await supabase
+      .from('assignment_exemplars')
+      .select('id, teacher_id, label')
+      .eq('assignment_id', id)
+    const current = (existing ?? []).find(e => e.id === exemplarId)
+    if (!current) return NextResponse.json({ error: 'Exemplar not found' }, { status: 404 })
+    if (current.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const checked = validateExemplar(await request.json())
+    if (!checked.ok) return NextResponse.json({ error: checked.error }, { status: 400 })
+    const label = checked.exemplar.label
+    if ((existing ?? []).some(e => e.id !== exemplarId && e.label.toLowerCase() === label.toLowerCase())) {
+      return NextResponse.json({ error: `There is already an exemplar called "${label}"` }, { status: 409 })
+    }
+
+    const { data: exemplar, error } = await supabase
+      .from('assignment_exemplars')
+      .update({
+        label,
+        file_urls: checked.exemplar.files,
+        marks: checked.exemplar.marks,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', exemplarId)
+      .select(EXEMPLAR_COLUMNS)
+      .single()
+    if (error || !exemplar) return NextResponse.json({ error: 'Failed to update exemplar' }, { status: 500 })
+    return NextResponse.json({ exemplar })
+  } catch (error) {
+    console.error('Exemplar PUT error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// DELETE - Detach an exemplar; gradings from now on leave it out
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; exemplarId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id, exemplarId } = await params
+    const supabase = createAdminClient()
+    const { data: exemplar } = await supabase
+      .from('assignment_exemplars')
+      .select('id, teacher_id')
+      .eq('id', exemplarId)
+      .eq('assignment_id', id)
+      .maybeSingle()
+    if (!exemplar) return NextResponse.json({ error: 'Exemplar not found' }, { status: 404 })
+    if (exemplar.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const { error } = await supabase.from('assignment_exemplars').delete().eq('id', exemplarId)
+    if (error) return NextResponse.json({ error: 'Failed to remove exemplar' }, { status: 500 })
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Exemplar DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
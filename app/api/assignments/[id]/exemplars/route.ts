@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { MAX_EXEMPLARS_PER_ASSIGNMENT, validateExemplar } from '@/lib/grading/exemplars'
+
+const EXEMPLAR_COLUMNS = 'id, label, file_urls, marks, created_at, updated_at'
+
+// GET - The teacher-marked scripts attached to the assignment; every grading
+// of it is shown them as worked examples.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: assignment } = await supabase
+      .from('assignments').select('id, teacher_id').eq('id', id).maybeSingle()
+    if (!assignment) return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    if (assignment.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const { data: exemplars, error } = await supabase
+      .from('assignment_exemplars')
+      .select(EXEMPLAR_COLUMNS)
+      .eq('assignment_id', id)
+      .order('created_at')
+    if (error) return NextResponse.json({ error: 'Failed to fetch exemplars' }, { status: 500 })
+    return NextResponse.json({ exemplars: exemplars ?? [] })
+  } catch (error) {
+    console.error('Exemplars GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Attach a marked script. Body { label, files: [{ url, name?, type? }],
+// marks: [{ question, marks_awarded, marks_possible, comment? }] }.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: assignment } = await supabase
+      .from('assignments').select('id, teacher_id').eq('id', id).maybeSingle()
+    if (!assignment) return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    if (assignment.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const checked = validateExemplar(await request.json())
+    if (!checked.ok) return NextResponse.json({ error: checked.error }, { status: 400 })
+
+    const { data: existing } = await supabase
+      .from('assignment_exemplars')
+      .select('label')
+      .eq('assignment_id', id)
+    if ((existing ?? []).length >= MAX_EXEMPLARS_PER_ASSIGNMENT) {
+      return NextResponse.json(
+        { error: `An assignment can have at most ${MAX_EXEMPLARS_PER_ASSIGNMENT} exemplars — remove one first` },
+        { status: 409 }
+      )
+    }
+    if ((existing ?? []).some(e => e.label.toLowerCase() === checked.exemplar.label.toLowerCase())) {
+      return NextResponse.json({ error: `There is already an exemplar called "${checked.exemplar.label}"` }, { status: 409 })
+    }
+
+    const { data: exemplar, error } = await supabase
+      .from('assignment_exemplars')
+      .insert({
+        assignment_id: id,
+        teacher_id: user.id,
+        label: checked.exemplar.label,
+        file_urls: checked.exemplar.files,
+        marks: checked.exemplar.marks,
+      })
+      .select(EXEMPLAR_COLUMNS)
+      .single()
+    if (error || !exemplar) {
+      console.error('Error attaching exemplar:', error)
+      return NextResponse.json({ error: 'Failed to attach exemplar' }, { status: 500 })
+    }
+    return NextResponse.json({ exemplar }, { status: 201 })
+  } catch (error) {
+    console.error('Exemplars POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
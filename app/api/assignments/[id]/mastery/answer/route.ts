@@ -4,6 +4,7 @@ import { ClaudeService } from '@/lib/claude-api'
 import { applyAnswer, isAttemptComplete } from '@/lib/mastery/engine'
 import { getRollups, loadMasteryContext, type AttemptRow } from '@/lib/mastery/rounds'
 import { finalizeAttempt } from '@/lib/mastery/finalize'
+import { gradeAnswer, type GradableQuestion, type PartResult, type SubmittedAnswer } from '@/lib/mastery/grading'
 
 export const maxDuration = 60 // short-answer grading calls Claude
 
@@ -14,11 +15,13 @@ const DAILY_SA_GRADING_CAP = 150
 
 interface AnswerBody {
   response_id?: string
-  answer?: { index?: number; value?: boolean; text?: string }
+  answer?: SubmittedAnswer
 }
 
-// POST - Grade one answer. MC/TF are checked deterministically against the
-// frozen snapshot; short answers are AI-graded. Updates the response row, the
+// POST - Grade one answer. Every type except short answer is checked
+// deterministically against the frozen snapshot (numeric, multi-select,
+// ordering, matching and multi-part earn partial credit in `score`); short
+// answers are AI-graded. Updates the response row, the
 // concept rollup, and bank counters; finalizes the attempt when the last
 // concept resolves.
 export async function POST(
@@ -63,29 +66,25 @@ export async function POST(
       return NextResponse.json({ error: 'This quiz is already complete' }, { status: 409 })
     }
 
-    const snapshot = response.question_snapshot as {
-      type: 'multiple_choice' | 'true_false' | 'short_answer'
+    const snapshot = response.question_snapshot as GradableQuestion & {
       question_text: string
-      options: string[] | null
-      correct_answer: Record<string, unknown>
       explanation: string | null
+      difficulty?: number
     }
 
     // Grade
     let isCorrect = false
     let score: number | null = null
     let aiFeedback: string | null = null
-
-    if (snapshot.type === 'multiple_choice') {
-      if (typeof body.answer.index !== 'number') {
-        return NextResponse.json({ error: 'Pick an option' }, { status: 400 })
-      }
-      isCorrect = body.answer.index === snapshot.correct_answer.index
-    } else if (snapshot.type === 'true_false') {
-      if (typeof body.answer.value !== 'boolean') {
-        return NextResponse.json({ error: 'Pick true or false' }, { status: 400 })
-      }
-      isCorrect = body.answer.value === snapshot.correct_answer.value
+    let partResults: PartResult[] | null = null
+
+    if (snapshot.type !== 'short_answer') {
+      const graded = gradeAnswer(snapshot, body.answer)
+      if (!graded.ok) return NextResponse.json({ error: graded.error }, { status: 400 })
+      isCorrect = graded.is_correct
+      score = graded.score
+      aiFeedback = graded.feedback
+      partResults = graded.part_results ?? null
     } else {
       const text = typeof body.answer.text === 'string' ? body.answer.text.trim() : ''
       if (!text) return NextResponse.json({ error: 'Write an answer first' }, { status: 400 })
@@ -99,6 +98,7 @@ export async function POST(
         .from('mastery_responses')
         .select('id, mastery_attempts!inner(student_id)', { count: 'exact', head: true })
         .eq('mastery_attempts.student_id', user.id)
+        .eq('question_snapshot->>type', 'short_answer') // auto-graded types score too
         .not('score', 'is', null)
         .gte('answered_at', todayStart.toISOString())
       if ((gradedToday ?? 0) >= DAILY_SA_GRADING_CAP) {
@@ -157,13 +157,20 @@ export async function POST(
     if (!rollup) {
       return NextResponse.json({ error: 'Concept state missing' }, { status: 500 })
     }
-    const next = applyAnswer(rollup, isCorrect, context.config)
+    const next = applyAnswer(rollup, isCorrect, context.config, {
+      type: snapshot.type,
+      difficulty: snapshot.difficulty ?? 2,
+    })
     await supabase
       .from('mastery_attempt_concepts')
       .update({
         answered_count: next.answered_count,
         correct_count: next.correct_count,
         recent_results: next.recent_results,
+        recent_difficulties: next.recent_difficulties,
+        current_streak: next.current_streak,
+        p_known: next.p_known,
+        short_answer_correct: next.short_answer_correct,
         status: next.status,
         mastered_at: next.status === 'mastered' && rollup.status !== 'mastered'
           ? new Date().toISOString()
@@ -198,6 +205,7 @@ export async function POST(
       is_correct: isCorrect,
       score,
       feedback: aiFeedback,
+      part_results: partResults,
       explanation: snapshot.explanation,
       // Safe to reveal post-answer; this question won't be re-served while others remain
       correct_answer: snapshot.correct_answer,
@@ -206,6 +214,10 @@ export async function POST(
         answered_count: next.answered_count,
         correct_count: next.correct_count,
         recent_results: next.recent_results,
+        recent_difficulties: next.recent_difficulties,
+        current_streak: next.current_streak,
+        p_known: next.p_known,
+        short_answer_correct: next.short_answer_correct,
         status: next.status,
       },
       attempt_complete: finalScore !== null,
@@ -33,7 +33,10 @@ async function attemptStatePayload(
       due_at: context.assignment.due_at,
     },
     config: {
+      mastery_rule: context.config.mastery_rule,
       mastery_threshold: context.config.mastery_threshold,
+      streak_length: context.config.streak_length,
+      bkt_threshold: context.config.bkt_threshold,
       min_questions: context.config.min_questions,
       window_size: context.config.window_size,
       questions_per_round: context.config.questions_per_round,
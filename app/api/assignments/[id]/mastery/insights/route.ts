@@ -8,7 +8,8 @@ import {
 } from '@/lib/mastery/analytics'
 
 // GET - Teacher analytics for a mastery quiz: per-concept and per-question
-// rollups (% correct, avg time, distractor distribution, short-answer samples).
+// rollups (% correct, avg time, distractor distribution, short-answer samples),
+// plus the prerequisite edges between the assignment's concepts.
 // Built from answered mastery_responses; scoped to this one assignment.
 export async function GET(
   request: NextRequest,
@@ -46,6 +47,7 @@ export async function GET(
           totalStudents: 0,
         })),
         questions: [],
+        prerequisites: context.prerequisites,
       })
     }
 
@@ -66,7 +68,7 @@ export async function GET(
       context.concepts.map((c) => ({ id: c.id, name: c.name })),
     )
 
-    return NextResponse.json(result)
+    return NextResponse.json({ ...result, prerequisites: context.prerequisites })
   } catch (error) {
     console.error('Mastery insights error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
 import { loadMasteryContext } from '@/lib/mastery/rounds'
+import {
+  describeAnswer,
+  describeCorrectAnswer,
+  type GradableQuestion,
+  type SubmittedAnswer,
+} from '@/lib/mastery/grading'
 
 const MAX_REASONABLE_TIME_SEC = 600
 
@@ -14,33 +20,6 @@ function timeSec(served: string | null, answered: string | null): number | null
   return Math.round(sec)
 }
 
-type Snapshot = {
-  type: 'multiple_choice' | 'true_false' | 'short_answer'
-  question_text: string
-  options: string[] | null
-  correct_answer: Record<string, unknown>
-}
-
-function labelFor(
-  snap: Snapshot,
-  value: { index?: number; value?: boolean; text?: string } | null,
-): string {
-  if (!value) return '—'
-  if (snap.type === 'multiple_choice' && typeof value.index === 'number')
-    return snap.options?.[value.index] ?? `Option ${value.index + 1}`
-  if (snap.type === 'true_false' && typeof value.value === 'boolean') return value.value ? 'True' : 'False'
-  if (snap.type === 'short_answer') return value.text ?? '—'
-  return '—'
-}
-
-function correctLabel(snap: Snapshot): string {
-  if (snap.type === 'multiple_choice' && typeof snap.correct_answer.index === 'number')
-    return snap.options?.[snap.correct_answer.index as number] ?? `Option ${(snap.correct_answer.index as number) + 1}`
-  if (snap.type === 'true_false') return snap.correct_answer.value ? 'True' : 'False'
-  if (snap.type === 'short_answer') return String(snap.correct_answer.sample_answer ?? '')
-  return ''
-}
-
 // GET - One student's mastery attempt in detail: total time on questions and
 // every answered question (their answer, correctness, per-question time, feedback).
 export async function GET(
@@ -87,15 +66,15 @@ export async function GET(
 
     let totalTimeSec = 0
     const responses = (rows ?? []).map((r) => {
-      const snap = r.question_snapshot as Snapshot
+      const snap = r.question_snapshot as GradableQuestion & { question_text: string }
       const t = timeSec(r.served_at, r.answered_at)
       if (t !== null) totalTimeSec += t
       return {
         concept_name: conceptName.get(r.concept_id) ?? 'Concept',
         type: snap.type,
         question_text: snap.question_text,
-        their_answer: labelFor(snap, r.answer as { index?: number; value?: boolean; text?: string } | null),
-        correct_answer: correctLabel(snap),
+        their_answer: describeAnswer(snap, r.answer as SubmittedAnswer | null),
+        correct_answer: describeCorrectAnswer(snap),
         is_correct: r.is_correct === true,
         score: typeof r.score === 'number' ? r.score : null,
         ai_feedback: r.ai_feedback ?? null,
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { releaseSubmissions } from '@/lib/grading/review-queue'
+
+// POST - Teacher releases reviewed work to students. Body { submission_ids? }
+// limits it to some submissions; without it every submission awaiting review
+// is released. Submissions with questions still pending review are skipped
+// and returned as blocked.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const body = await request.json().catch(() => ({}))
+    const supabase = createAdminClient()
+
+    const { data: assignment } = await supabase
+      .from('assignments').select('id, teacher_id').eq('id', id).maybeSingle()
+    if (!assignment) return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    if (assignment.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const requested = body?.submission_ids
+    if (requested !== undefined && (!Array.isArray(requested) || requested.some(s => typeof s !== 'string'))) {
+      return NextResponse.json({ error: 'submission_ids must be an array of ids' }, { status: 400 })
+    }
+
+    let query = supabase
+      .from('assignment_submissions')
+      .select('id')
+      .eq('assignment_id', id)
+      .eq('status', 'pending_review')
+    if (requested) query = query.in('id', requested as string[])
+    const { data: candidates, error } = await query
+    if (error) {
+      console.error('Error fetching submissions to release:', error)
+      return NextResponse.json({ error: 'Failed to fetch submissions' }, { status: 500 })
+    }
+
+    const { released, blocked } = await releaseSubmissions(supabase, (candidates ?? []).map(s => s.id))
+    return NextResponse.json({ released, blocked })
+  } catch (error) {
+    console.error('Release submissions error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
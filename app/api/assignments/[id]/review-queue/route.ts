@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import type { GradeBreakdownItem } from '@/lib/grading/structured-output'
+
+// GET - Teacher's review queue for one assignment: every graded submission
+// not yet released, with each question's marks, feedback, the grader's
+// evidence and confidence, and its review status (null when it wasn't
+// flagged). Ordered by student name so the teacher can work down the class.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+
+    const { data: assignment } = await supabase
+      .from('assignments').select('id, teacher_id, title').eq('id', id).maybeSingle()
+    if (!assignment) return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
+    if (assignment.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const { data: submissions, error } = await supabase
+      .from('assignment_submissions')
+      .select('id, student_id, class_id, grading_result_id, file_urls, submitted_at')
+      .eq('assignment_id', id)
+      .eq('status', 'pending_review')
+      .not('grading_result_id', 'is', null)
+    if (error) {
+      console.error('Error fetching review queue:', error)
+      return NextResponse.json({ error: 'Failed to fetch review queue' }, { status: 500 })
+    }
+    if (!submissions || submissions.length === 0) {
+      return NextResponse.json({ assignment: { id: assignment.id, title: assignment.title }, submissions: [] })
+    }
+
+    const studentIds = Array.from(new Set(submissions.map(s => s.student_id)))
+    const resultIds = submissions.map(s => s.grading_result_id as string)
+    const [profilesRes, resultsRes, reviewsRes] = await Promise.all([
+      supabase.from('user_profiles').select('id, email, first_name, last_name').in('id', studentIds),
+      supabase
+        .from('grading_results')
+        .select('id, total_marks, total_possible_marks, percentage, grade, grade_breakdown')
+        .in('id', resultIds),
+      supabase
+        .from('grading_question_reviews')
+        .select('grading_result_id, question_number, status')
+        .in('grading_result_id', resultIds),
+    ])
+
+    const profileMap = new Map((profilesRes.data ?? []).map(p => [p.id, p]))
+    const resultMap = new Map((resultsRes.data ?? []).map(r => [r.id, r]))
+    const reviewMap = new Map(
+      (reviewsRes.data ?? []).map(r => [`${r.grading_result_id}:${r.question_number}`, r.status as string])
+    )
+
+    const queue = submissions.flatMap(s => {
+      const result = resultMap.get(s.grading_result_id as string)
+      if (!result) return []
+      const breakdown = (result.grade_breakdown as GradeBreakdownItem[] | null) ?? []
+      const questions = breakdown.map(q => ({
+        ...q,
+        review_status: reviewMap.get(`${result.id}:${q.questionNumber}`) ?? null,
+      }))
+      return [{
+        id: s.id,
+        student: profileMap.get(s.student_id) ?? null,
+        class_id: s.class_id,
+        file_urls: s.file_urls,
+        submitted_at: s.submitted_at,
+        grading_result: {
+          id: result.id,
+          total_marks: result.total_marks,
+          total_possible_marks: result.total_possible_marks,
+          percentage: result.percentage,
+          grade: result.grade,
+        },
+        questions,
+        pending_count: questions.filter(q => q.review_status === 'pending').length,
+      }]
+    })
+
+    const sortKey = (q: (typeof queue)[number]) =>
+      `${q.student?.last_name ?? ''} ${q.student?.first_name ?? ''} ${q.student?.email ?? ''}`.toLowerCase()
+    queue.sort((a, b) => sortKey(a).localeCompare(sortKey(b)))
+
+    return NextResponse.json({ assignment: { id: assignment.id, title: assignment.title }, submissions: queue })
+  } catch (error) {
+    console.error('Get review queue error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { sanitizeGradeScheme } from '@/lib/grading/grade-schemes'
+import { recomputeGrades } from '@/lib/grading/apply-grade-scheme'
+import { validateRubric } from '@/lib/grading/rubric'
 
 const MAX_TITLE_LEN = 200
 
@@ -21,7 +24,7 @@ export async function GET(
 
     const { data: assignment, error } = await supabase
       .from('assignments')
-      .select('id, teacher_id, type, title, description, due_at, mark_scheme_url, mark_scheme_text, grading_instructions, total_possible_marks, is_published, auto_grade, students_can_see_grade, students_can_see_report, created_at, updated_at')
+      .select('id, teacher_id, type, title, description, due_at, mark_scheme_url, mark_scheme_text, grading_instructions, total_possible_marks, grade_scheme, rubric, is_published, auto_grade, students_can_see_grade, students_can_see_report, created_at, updated_at')
       .eq('id', id)
       .maybeSingle()
 
@@ -60,6 +63,8 @@ export async function GET(
         .eq('assignment_id', id)
         .eq('student_id', user.id)
         .maybeSingle()
+      // The report stays hidden until the teacher releases it
+      if (submission && submission.status !== 'graded') submission.grading_result_id = null
 
       return NextResponse.json({
         assignment: studentSafe,
@@ -139,8 +144,9 @@ export async function GET(
 
 // PATCH - Teacher edits an assignment. Body may include:
 // title, description, due_at, mark_scheme_url, mark_scheme_text,
-// grading_instructions, total_possible_marks, is_published, class_ids.
-// If class_ids is provided we replace the link set wholesale.
+// grading_instructions, total_possible_marks, grade_scheme, rubric,
+// is_published, class_ids. If class_ids is provided we replace the link set
+// wholesale.
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -185,6 +191,23 @@ export async function PATCH(
       else if (typeof v === 'number' && Number.isFinite(v) && v >= 0) updates.total_possible_marks = Math.round(v)
       else return NextResponse.json({ error: 'Invalid total_possible_marks' }, { status: 400 })
     }
+    if ('grade_scheme' in body) {
+      // null: each class's own scheme applies
+      const scheme = body.grade_scheme === null ? null : sanitizeGradeScheme(body.grade_scheme)
+      if (body.grade_scheme !== null && !scheme) {
+        return NextResponse.json({ error: 'Invalid grade_scheme' }, { status: 400 })
+      }
+      updates.grade_scheme = scheme
+    }
+    if ('rubric' in body) {
+      // null: graded per question against the mark scheme
+      if (body.rubric === null) updates.rubric = null
+      else {
+        const checked = validateRubric(body.rubric)
+        if (!checked.ok) return NextResponse.json({ error: `Invalid rubric: ${checked.error}` }, { status: 400 })
+        updates.rubric = checked.rubric
+      }
+    }
     if ('is_published' in body) {
       if (typeof body.is_published !== 'boolean') {
         return NextResponse.json({ error: 'is_published must be boolean' }, { status: 400 })
@@ -206,7 +229,7 @@ export async function PATCH(
         .from('assignments')
         .update(updates)
         .eq('id', id)
-        .select('id, title, description, due_at, mark_scheme_url, mark_scheme_text, grading_instructions, total_possible_marks, is_published, auto_grade, students_can_see_grade, students_can_see_report, created_at, updated_at')
+        .select('id, title, description, due_at, mark_scheme_url, mark_scheme_text, grading_instructions, total_possible_marks, grade_scheme, rubric, is_published, auto_grade, students_can_see_grade, students_can_see_report, created_at, updated_at')
         .single()
       if (updateError || !u) {
         console.error('Error updating assignment:', updateError)
@@ -215,6 +238,17 @@ export async function PATCH(
       updatedAssignment = { ...assignment, ...u }
     }
 
+    // Set when the scheme is saved but existing grades couldn't be moved to it
+    let warning: string | undefined
+    if ('grade_scheme' in updates) {
+      try {
+        await recomputeGrades(supabase, { assignmentId: id })
+      } catch (recomputeError) {
+        console.error('Error recomputing grades for assignment:', recomputeError)
+        warning = 'The grade scheme was saved, but existing grades could not be updated to it. Save it again to retry.'
+      }
+    }
+
     // Replace class links wholesale if class_ids provided
     if (Array.isArray(body.class_ids)) {
       const newIds = body.class_ids.filter((x: unknown) => typeof x === 'string') as string[]
@@ -241,7 +275,7 @@ export async function PATCH(
       }
     }
 
-    return NextResponse.json({ assignment: updatedAssignment })
+    return NextResponse.json({ assignment: updatedAssignment, ...(warning ? { warning } : {}) })
   } catch (error) {
     console.error('Update assignment error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { pendingReviewCounts } from '@/lib/grading/review-queue'
 
 // GET - Teacher fetches all submissions for one of their assignments,
-// joined with the student profile.
+// joined with the student profile and how many questions await review.
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -40,7 +41,7 @@ export async function GET(
     const gradingIds = submissions.map(s => s.grading_result_id).filter(Boolean) as string[]
     const classIds = Array.from(new Set(submissions.map(s => s.class_id)))
 
-    const [profilesRes, gradingRes, classesRes] = await Promise.all([
+    const [profilesRes, gradingRes, classesRes, pendingCounts] = await Promise.all([
       supabase.from('user_profiles').select('id, email, first_name, last_name').in('id', studentIds),
       gradingIds.length
         ? supabase.from('grading_results').select('id, total_marks, total_possible_marks, percentage, grade').in('id', gradingIds)
@@ -48,6 +49,7 @@ export async function GET(
       classIds.length
         ? supabase.from('classes').select('id, name, period').in('id', classIds)
         : Promise.resolve({ data: [] as Array<{ id: string; name: string; period: string | null }> }),
+      pendingReviewCounts(supabase, submissions.map(s => s.id)),
     ])
 
     const profileMap = new Map((profilesRes.data ?? []).map(p => [p.id, p]))
@@ -59,6 +61,7 @@ export async function GET(
       student: profileMap.get(s.student_id) ?? null,
       grading_result: s.grading_result_id ? (gradingMap.get(s.grading_result_id) ?? null) : null,
       class: classMap.get(s.class_id) ?? null,
+      pending_review_count: pendingCounts.get(s.id) ?? 0,
     }))
 
     return NextResponse.json({ submissions: result })
@@ -1,6 +1,6 @@
-import { NextRequest, NextResponse, after } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
-import { gradeSubmission } from '@/lib/submission-grading'
+import { enqueueSubmissionGrading } from '@/lib/jobs/handlers'
 
 interface SubmitBody {
   files?: Array<{ url: string; name?: string; type?: string }>
@@ -13,7 +13,7 @@ const MAX_COMMENT_LEN = 2000
 // POST - Student submits files for an assignment.
 // Files must already be uploaded (e.g. to Cloudinary via /api/upload-to-cloudinary).
 // Resubmissions overwrite the previous file_urls; status resets to 'submitted'.
-// If the assignment has a mark_scheme_url, auto-grading fires after the response.
+// If the assignment has a mark_scheme_url or a rubric, auto-grading is queued as a background job.
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -39,7 +39,7 @@ export async function POST(
     // Verify assignment exists + is published; fetch grading settings for auto-grade check
     const { data: assignment } = await supabase
       .from('assignments')
-      .select('id, type, due_at, is_published, mark_scheme_url, auto_grade')
+      .select('id, teacher_id, title, type, due_at, is_published, mark_scheme_url, rubric, auto_grade')
       .eq('id', assignmentId)
       .maybeSingle()
     if (!assignment) return NextResponse.json({ error: 'Assignment not found' }, { status: 404 })
@@ -150,27 +150,23 @@ export async function POST(
       submissionData = created
     }
 
-    // Auto-grade when a mark scheme is present AND the teacher opted in.
-    if (assignment.auto_grade && assignment.mark_scheme_url) {
+    // Auto-grade when a mark scheme or rubric is present AND the teacher opted in.
+    if (assignment.auto_grade && (assignment.mark_scheme_url || assignment.rubric)) {
       await supabase
         .from('assignment_submissions')
         .update({ status: 'grading' })
         .eq('id', submissionId)
       submissionData = { ...submissionData, status: 'grading' }
 
-      after(async () => {
-        try {
-          await gradeSubmission(submissionId)
-        } catch (err) {
-          console.error('Auto-grade failed for submission', submissionId, err)
-          await createAdminClient()
-            .from('assignment_submissions')
-            .update({
-              status: 'failed',
-              grading_error: err instanceof Error ? err.message : 'Unknown error',
-            })
-            .eq('id', submissionId)
-        }
+      const { data: profile } = await supabase
+        .from('user_profiles').select('first_name, last_name, email').eq('id', user.id).maybeSingle()
+      const studentName = profile
+        ? [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email
+        : 'student'
+      await enqueueSubmissionGrading(supabase, {
+        submissionId,
+        teacherId: assignment.teacher_id,
+        label: `${assignment.title} — ${studentName}`,
       })
     }
 
@@ -1,5 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { MASTERY_RULES } from '@/lib/mastery/engine'
+import { QUESTION_TYPES } from '@/lib/types/question-bank'
+import { sanitizeGradeScheme } from '@/lib/grading/grade-schemes'
+import { validateRubric } from '@/lib/grading/rubric'
 
 const MAX_TITLE_LEN = 200
 
@@ -11,12 +15,19 @@ interface CreateBody {
   mark_scheme_text?: string | null
   grading_instructions?: string | null
   total_possible_marks?: number | null
+  // null / absent: each class's own scheme applies
+  grade_scheme?: unknown
+  // null / absent: graded per question against the mark scheme
+  rubric?: unknown
   class_ids?: string[]
   is_published?: boolean
   type?: 'file_upload' | 'mastery_quiz'
   mastery?: {
     concept_ids?: string[]
+    mastery_rule?: string
     mastery_threshold?: number
+    streak_length?: number
+    bkt_threshold?: number
     questions_per_round?: number
     window_size?: number
     min_questions?: number
@@ -146,6 +157,18 @@ export async function POST(request: NextRequest) {
       dueAt = d.toISOString()
     }
 
+    const gradeScheme = body.grade_scheme == null ? null : sanitizeGradeScheme(body.grade_scheme)
+    if (body.grade_scheme != null && !gradeScheme) {
+      return NextResponse.json({ error: 'Invalid grade_scheme' }, { status: 400 })
+    }
+
+    let rubric = null
+    if (body.rubric != null && body.type !== 'mastery_quiz') {
+      const checked = validateRubric(body.rubric)
+      if (!checked.ok) return NextResponse.json({ error: `Invalid rubric: ${checked.error}` }, { status: 400 })
+      rubric = checked.rubric
+    }
+
     const supabase = createAdminClient()
 
     const { data: profile } = await supabase
@@ -219,9 +242,11 @@ export async function POST(request: NextRequest) {
         grading_instructions: type === 'file_upload' ? body.grading_instructions ?? null : null,
         // Mastery score = mastered concepts / total concepts
         total_possible_marks: type === 'mastery_quiz' ? conceptIds.length : body.total_possible_marks ?? null,
+        grade_scheme: gradeScheme,
+        rubric,
         is_published: body.is_published ?? true,
       })
-      .select('id, type, title, description, due_at, mark_scheme_url, mark_scheme_text, grading_instructions, total_possible_marks, is_published, created_at, updated_at')
+      .select('id, type, title, description, due_at, mark_scheme_url, mark_scheme_text, grading_instructions, total_possible_marks, grade_scheme, rubric, is_published, created_at, updated_at')
       .single()
 
     if (insertError || !created) {
@@ -241,18 +266,26 @@ export async function POST(request: NextRequest) {
         const n = Number(v)
         return Number.isFinite(n) ? Math.min(hi, Math.max(lo, Math.round(n * 100) / 100)) : dflt
       }
+      const masteryRule = MASTERY_RULES.find(r => r === m.mastery_rule) ?? 'rolling_window'
       const allowedTypes = Array.isArray(m.allowed_types)
-        ? m.allowed_types.filter(t => ['multiple_choice', 'true_false', 'short_answer'].includes(t))
+        ? m.allowed_types.filter(t => (QUESTION_TYPES as string[]).includes(t))
         : []
+      // The rule is unreachable without short answers in the mix
+      if (masteryRule === 'short_answer_required' && !allowedTypes.includes('short_answer')) {
+        allowedTypes.push('short_answer')
+      }
 
       const { error: configError } = await supabase.from('assignment_mastery_config').insert({
         assignment_id: created.id,
+        mastery_rule: masteryRule,
         mastery_threshold: clamp(m.mastery_threshold, 0.5, 1, 0.8),
+        streak_length: clamp(m.streak_length, 2, 15, 5),
+        bkt_threshold: clamp(m.bkt_threshold, 0.5, 0.99, 0.95),
         window_size: clamp(m.window_size, 3, 10, 5),
         min_questions: clamp(m.min_questions, 1, 10, 3),
         max_questions_per_concept: clamp(m.max_questions_per_concept, 5, 50, 15),
         questions_per_round: clamp(m.questions_per_round, 1, 15, 5),
-        allowed_types: allowedTypes.length > 0 ? allowedTypes : ['multiple_choice', 'true_false', 'short_answer'],
+        allowed_types: allowedTypes.length > 0 ? allowedTypes : QUESTION_TYPES,
         allow_ai_fallback: m.allow_ai_fallback ?? true,
       })
       if (configError) {
@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { finalizeExpiredAttempts } from '@/lib/practice-test-attempts'
+import { pickCountedSubmission } from '@/lib/practice-test-scoring'
+import { DuplicatePolicy } from '@/lib/types/practice-test'
 
 // GET - Teacher fetches a gradebook matrix for a class: active roster,
 // published assignments, and one submission row per (student, assignment) pair.
+// Practice tests linked to the class come alongside, one score per (student,
+// test) picked by the test's duplicate policy.
 // Returns normalized arrays; the client composes cells.
 export async function GET(
   request: NextRequest,
@@ -153,11 +158,70 @@ export async function GET(
       }
     })
 
+    // Practice tests linked to this class, scored from identity-verified submissions
+    const { data: ptRows, error: ptErr } = await supabase
+      .from('practice_tests')
+      .select('id, title, duplicate_policy, created_at')
+      .eq('class_id', id)
+      .order('created_at', { ascending: true })
+    if (ptErr) {
+      return NextResponse.json({ error: 'Failed to fetch practice tests' }, { status: 500 })
+    }
+    const practiceTests = ptRows ?? []
+
+    const practiceTestScores: Array<{
+      practice_test_id: string
+      student_id: string
+      submission_id: string
+      score: number
+      possible: number
+      percentage: number | null
+      submitted_at: string
+      attempts: number
+    }> = []
+    if (practiceTests.length > 0 && studentIds.length > 0) {
+      for (const t of practiceTests) await finalizeExpiredAttempts(t.id)
+
+      const { data: ptSubs, error: ptSubsErr } = await supabase
+        .from('practice_test_submissions')
+        .select('id, practice_test_id, student_id, score_total, score_max, submitted_at')
+        .in('practice_test_id', practiceTests.map(t => t.id))
+        .in('student_id', studentIds)
+      if (ptSubsErr) {
+        return NextResponse.json({ error: 'Failed to fetch practice test submissions' }, { status: 500 })
+      }
+
+      const grouped = new Map<string, NonNullable<typeof ptSubs>>()
+      for (const sub of ptSubs ?? []) {
+        const key = `${sub.practice_test_id}:${sub.student_id}`
+        grouped.set(key, [...(grouped.get(key) ?? []), sub])
+      }
+      const policyOf = new Map(practiceTests.map(t => [t.id, t.duplicate_policy as DuplicatePolicy]))
+      for (const subs of grouped.values()) {
+        const counted = pickCountedSubmission(subs, policyOf.get(subs[0].practice_test_id) ?? 'best')
+        if (!counted) continue
+        const score = Number(counted.score_total)
+        const possible = Number(counted.score_max)
+        practiceTestScores.push({
+          practice_test_id: counted.practice_test_id,
+          student_id: counted.student_id,
+          submission_id: counted.id,
+          score,
+          possible,
+          percentage: possible > 0 ? Math.round((score / possible) * 1000) / 10 : null,
+          submitted_at: counted.submitted_at,
+          attempts: subs.length,
+        })
+      }
+    }
+
     return NextResponse.json({
       class: { id: cls.id, name: cls.name, color: cls.color, period: cls.period, subject: cls.subject },
       students,
       assignments,
       submissions,
+      practice_tests: practiceTests,
+      practice_test_scores: practiceTestScores,
     })
   } catch (error) {
     console.error('Gradebook error:', error)
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
 import { isClassColorToken, resolveClassColor } from '@/lib/class-colors'
+import { sanitizeGradeScheme } from '@/lib/grading/grade-schemes'
+import { recomputeGrades } from '@/lib/grading/apply-grade-scheme'
 
 const MAX_NAME_LEN = 100
 const MAX_PERIOD_LEN = 50
@@ -27,7 +29,7 @@ export async function GET(
 
     const { data: cls, error } = await supabase
       .from('classes')
-      .select('id, teacher_id, name, period, subject, color, enrollment_code, is_archived, created_at, updated_at')
+      .select('id, teacher_id, name, period, subject, color, grade_scheme, enrollment_code, is_archived, created_at, updated_at')
       .eq('id', id)
       .maybeSingle()
 
@@ -125,6 +127,14 @@ export async function PATCH(
       }
       updates.is_archived = body.is_archived
     }
+    if ('grade_scheme' in body) {
+      // null: back to US letter grades
+      const scheme = body.grade_scheme === null ? null : sanitizeGradeScheme(body.grade_scheme)
+      if (body.grade_scheme !== null && !scheme) {
+        return NextResponse.json({ error: 'Invalid grade_scheme' }, { status: 400 })
+      }
+      updates.grade_scheme = scheme
+    }
     let teacherColorUpdate: string | null | undefined = undefined
     if ('color' in body) {
       if (body.color === null) {
@@ -179,6 +189,8 @@ export async function PATCH(
       updates.color = teacherColorUpdate
     }
 
+    // Set when the scheme is saved but existing grades couldn't be moved to it
+    let warning: string | undefined
     if (Object.keys(updates).length > 0) {
       const { error: updateError } = await supabase
         .from('classes')
@@ -188,6 +200,14 @@ export async function PATCH(
         console.error('Error updating class:', updateError)
         return NextResponse.json({ error: 'Failed to update class' }, { status: 500 })
       }
+      if ('grade_scheme' in updates) {
+        try {
+          await recomputeGrades(supabase, { classId: id })
+        } catch (recomputeError) {
+          console.error('Error recomputing grades for class:', recomputeError)
+          warning = 'The grade scheme was saved, but existing grades could not be updated to it. Save it again to retry.'
+        }
+      }
     }
 
     // Student override (only the enrolled student themselves)
@@ -209,11 +229,11 @@ export async function PATCH(
 
     const { data: refreshed } = await supabase
       .from('classes')
-      .select('id, name, period, subject, color, enrollment_code, is_archived, created_at, updated_at')
+      .select('id, name, period, subject, color, grade_scheme, enrollment_code, is_archived, created_at, updated_at')
       .eq('id', id)
       .single()
 
-    return NextResponse.json({ class: refreshed })
+    return NextResponse.json({ class: refreshed, ...(warning ? { warning } : {}) })
   } catch (error) {
     console.error('Update class error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
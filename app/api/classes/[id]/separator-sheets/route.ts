@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+import { loadRoster } from '@/lib/grading/batch-grading'
+import { studentCode } from '@/lib/grading/batch-split'
+import { renderSeparatorSheetsPdf } from '@/lib/pdf/documents'
+
+// GET - Printable separator sheets for batch grading, one per active student
+// sorted by last name. ?title= adds the exam title to each sheet.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: cls } = await supabase
+      .from('classes')
+      .select('id, teacher_id, name')
+      .eq('id', id)
+      .maybeSingle()
+    if (!cls) return NextResponse.json({ error: 'Class not found' }, { status: 404 })
+    if (cls.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const roster = await loadRoster(supabase, id)
+    if (roster.length === 0) {
+      return NextResponse.json({ error: 'No students are enrolled in this class' }, { status: 400 })
+    }
+
+    const students = roster
+      .map(s => ({
+        sortKey: `${s.lastName ?? ''} ${s.firstName ?? ''} ${s.email}`.trim().toLowerCase(),
+        name: [s.firstName, s.lastName].filter(Boolean).join(' ') || s.email,
+        code: studentCode(s.studentId),
+      }))
+      .sort((a, b) => a.sortKey.localeCompare(b.sortKey))
+
+    const title = new URL(request.url).searchParams.get('title')?.trim() || undefined
+    const pdf = await renderSeparatorSheetsPdf({ className: cls.name, examTitle: title, students })
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="separator-sheets.pdf"`,
+        'Content-Length': pdf.length.toString(),
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Separator sheets GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
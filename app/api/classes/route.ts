@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { sanitizeGradeScheme } from '@/lib/grading/grade-schemes'
 
 const MAX_NAME_LEN = 100
 const MAX_PERIOD_LEN = 50
@@ -108,6 +109,8 @@ export async function POST(request: NextRequest) {
     const name = typeof body?.name === 'string' ? body.name.trim() : ''
     const period = typeof body?.period === 'string' ? body.period.trim() : null
     const subject = typeof body?.subject === 'string' ? body.subject.trim() : null
+    // null / absent: US letter grades
+    const gradeScheme = body?.grade_scheme == null ? null : sanitizeGradeScheme(body.grade_scheme)
 
     if (!name) {
       return NextResponse.json({ error: 'Class name is required' }, { status: 400 })
@@ -121,6 +124,9 @@ export async function POST(request: NextRequest) {
     if (subject && subject.length > MAX_SUBJECT_LEN) {
       return NextResponse.json({ error: `Subject must be ${MAX_SUBJECT_LEN} chars or fewer` }, { status: 400 })
     }
+    if (body?.grade_scheme != null && !gradeScheme) {
+      return NextResponse.json({ error: 'Invalid grade_scheme' }, { status: 400 })
+    }
 
     const supabase = createAdminClient()
 
@@ -152,9 +158,10 @@ export async function POST(request: NextRequest) {
         name,
         period: period || null,
         subject: subject || null,
+        grade_scheme: gradeScheme,
         enrollment_code: codeData
       })
-      .select('id, name, period, subject, enrollment_code, is_archived, created_at, updated_at')
+      .select('id, name, period, subject, grade_scheme, enrollment_code, is_archived, created_at, updated_at')
       .single()
 
     if (insertError) {
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+import { findCycle, type PrerequisiteEdge } from '@/lib/mastery/prerequisites'
+
+// PUT - Replace a concept's prerequisites. Body: { prerequisite_ids: string[] }.
+// Every prerequisite must be one of the teacher's concepts; 409 when the new
+// edges would close a cycle anywhere in the teacher's graph.
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const { id } = await params
+    const body = await request.json()
+    if (!Array.isArray(body.prerequisite_ids) || body.prerequisite_ids.some((p: unknown) => typeof p !== 'string')) {
+      return NextResponse.json({ error: 'prerequisite_ids must be an array of concept ids' }, { status: 400 })
+    }
+    const prerequisiteIds = [...new Set(body.prerequisite_ids as string[])]
+    if (prerequisiteIds.includes(id)) {
+      return NextResponse.json({ error: 'A concept cannot be its own prerequisite' }, { status: 400 })
+    }
+
+    const supabase = createAdminClient()
+
+    const { data: concepts } = await supabase
+      .from('concepts')
+      .select('id, name')
+      .eq('teacher_id', user.id)
+    const names = new Map((concepts ?? []).map(c => [c.id, c.name as string]))
+    if (!names.has(id)) {
+      return NextResponse.json({ error: 'Concept not found' }, { status: 404 })
+    }
+    if (prerequisiteIds.some(p => !names.has(p))) {
+      return NextResponse.json({ error: 'Prerequisite concept not found' }, { status: 404 })
+    }
+
+    const { data: existing, error: edgesError } = await supabase
+      .from('concept_prerequisites')
+      .select('concept_id, prerequisite_id')
+      .eq('teacher_id', user.id)
+    if (edgesError) {
+      return NextResponse.json({ error: 'Failed to load prerequisites' }, { status: 500 })
+    }
+
+    const proposed: PrerequisiteEdge[] = [
+      ...(existing ?? []).filter(e => e.concept_id !== id),
+      ...prerequisiteIds.map(prerequisite_id => ({ concept_id: id, prerequisite_id })),
+    ]
+    const cycle = findCycle(proposed)
+    if (cycle) {
+      return NextResponse.json(
+        {
+          error: `That would create a prerequisite loop: ${cycle.map(c => names.get(c) ?? c).join(' → ')}`,
+          cycle,
+        },
+        { status: 409 }
+      )
+    }
+
+    const { error: deleteError } = await supabase
+      .from('concept_prerequisites')
+      .delete()
+      .eq('concept_id', id)
+    if (deleteError) {
+      return NextResponse.json({ error: 'Failed to update prerequisites' }, { status: 500 })
+    }
+
+    if (prerequisiteIds.length > 0) {
+      const { error: insertError } = await supabase
+        .from('concept_prerequisites')
+        .insert(prerequisiteIds.map(prerequisite_id => ({
+          concept_id: id,
+          prerequisite_id,
+          teacher_id: user.id,
+        })))
+      if (insertError) {
+        return NextResponse.json({ error: 'Failed to update prerequisites' }, { status: 500 })
+      }
+    }
+
+    return NextResponse.json({ prerequisite_ids: prerequisiteIds })
+  } catch (error) {
+    console.error('Concept prerequisites PUT error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
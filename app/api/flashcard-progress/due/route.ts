@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+
+// Cross-guide review queue backing the dashboard's "Cards due" strip.
+// Only cards the student has reviewed at least once are scheduled; unseen
+// cards surface inside each guide's review mode instead.
+
+const MAX_GUIDES = 20
+
+interface DueGuide {
+  study_guide_id: string
+  title: string
+  subject: string
+  due_count: number
+  oldest_due_at: string
+}
+
+// GET - Cards due now, grouped by guide (most overdue guide first)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const supabase = createAdminClient()
+    const now = new Date().toISOString()
+
+    const { data: dueRows, error } = await supabase
+      .from('flashcard_progress')
+      .select('study_guide_id, card_id, due_at')
+      .eq('user_id', user.id)
+      .lte('due_at', now)
+      .order('due_at', { ascending: true })
+    if (error) {
+      console.error('flashcard due queue error:', error)
+      return NextResponse.json({ error: 'Failed to load review queue' }, { status: 500 })
+    }
+
+    const byGuide = new Map<string, { due_count: number; oldest_due_at: string }>()
+    for (const row of dueRows ?? []) {
+      const entry = byGuide.get(row.study_guide_id)
+      if (entry) entry.due_count++
+      else byGuide.set(row.study_guide_id, { due_count: 1, oldest_due_at: row.due_at })
+    }
+
+    const guideIds = [...byGuide.keys()].slice(0, MAX_GUIDES)
+    const { data: guideRows } = guideIds.length
+      ? await supabase
+          .from('study_guides')
+          .select('id, title, subject')
+          .in('id', guideIds)
+      : { data: [] as Array<{ id: string; title: string; subject: string }> }
+
+    const guides: DueGuide[] = (guideRows ?? [])
+      .map(g => ({
+        study_guide_id: g.id,
+        title: g.title,
+        subject: g.subject,
+        ...byGuide.get(g.id)!,
+      }))
+      .sort((a, b) => a.oldest_due_at.localeCompare(b.oldest_due_at))
+
+    return NextResponse.json({
+      total: guides.reduce((sum, g) => sum + g.due_count, 0),
+      guides,
+    })
+  } catch (error) {
+    console.error('Flashcard due queue error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
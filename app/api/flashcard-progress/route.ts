@@ -1,5 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
+import {
+  REVIEW_RATINGS,
+  newCardSchedule,
+  scheduleReview,
+  statusForRating,
+  type CardSchedule,
+  type ReviewRating,
+} from '@/lib/flashcards/scheduler'
 
 // Create Supabase client with auth token for RLS
 function createAuthenticatedClient(token: string) {
@@ -19,7 +27,7 @@ function createAuthenticatedClient(token: string) {
 interface FlashcardProgressRequest {
   studyGuideId: string
   cardId: string
-  status: 'mastered' | 'difficult'
+  rating: ReviewRating
   userId?: string
 }
 
@@ -66,7 +74,7 @@ export async function GET(request: NextRequest) {
     // Fetch all progress for this user and study guide
     const { data, error } = await supabase
       .from('flashcard_progress')
-      .select('card_id, status')
+      .select('card_id, status, ease, interval_days, repetitions, lapses, due_at, last_reviewed_at')
       .eq('user_id', user.id)
       .eq('study_guide_id', studyGuideId)
 
@@ -78,13 +86,22 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Transform to object format: { card_id: status }
+    // Transform to object format: { card_id: status } plus each card's schedule
     const progress: Record<string, 'mastered' | 'difficult'> = {}
+    const schedules: Record<string, CardSchedule> = {}
     data?.forEach(item => {
       progress[item.card_id] = item.status
+      schedules[item.card_id] = {
+        ease: Number(item.ease),
+        interval_days: item.interval_days,
+        repetitions: item.repetitions,
+        lapses: item.lapses,
+        due_at: item.due_at,
+        last_reviewed_at: item.last_reviewed_at,
+      }
     })
 
-    return NextResponse.json({ progress })
+    return NextResponse.json({ progress, schedules })
 
   } catch (error) {
     console.error('Get flashcard progress error:', error)
@@ -95,7 +112,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST - Save/update flashcard progress
+// POST - Grade one card (Again/Hard/Good/Easy), reschedule it, and log the review
 export async function POST(request: NextRequest) {
   try {
     const body: FlashcardProgressRequest = await request.json()
@@ -123,20 +140,35 @@ export async function POST(request: NextRequest) {
 
     const userId = user.id
 
-    if (!body.studyGuideId || !body.cardId || !body.status) {
+    if (!body.studyGuideId || !body.cardId || !body.rating) {
       return NextResponse.json(
-        { error: 'Study guide ID, card ID, and status are required' },
+        { error: 'Study guide ID, card ID, and rating are required' },
         { status: 400 }
       )
     }
 
-    if (!['mastered', 'difficult'].includes(body.status)) {
+    if (!REVIEW_RATINGS.includes(body.rating)) {
       return NextResponse.json(
-        { error: 'Status must be "mastered" or "difficult"' },
+        { error: 'Rating must be "again", "hard", "good" or "easy"' },
         { status: 400 }
       )
     }
 
+    // Current schedule (absent = new card)
+    const { data: existing } = await supabase
+      .from('flashcard_progress')
+      .select('ease, interval_days, repetitions, lapses, due_at, last_reviewed_at')
+      .eq('user_id', userId)
+      .eq('study_guide_id', body.studyGuideId)
+      .eq('card_id', body.cardId)
+      .maybeSingle()
+
+    const current: CardSchedule = existing
+      ? { ...existing, ease: Number(existing.ease) }
+      : newCardSchedule()
+    const now = new Date()
+    const next = scheduleReview(current, body.rating, now)
+
     // Upsert the progress (insert or update)
     const { error } = await supabase
       .from('flashcard_progress')
@@ -144,8 +176,9 @@ export async function POST(request: NextRequest) {
         user_id: userId,
         study_guide_id: body.studyGuideId,
         card_id: body.cardId,
-        status: body.status,
-        updated_at: new Date().toISOString()
+        status: statusForRating(body.rating),
+        ...next,
+        updated_at: now.toISOString()
       }, {
         onConflict: 'user_id,study_guide_id,card_id'
       })
@@ -159,7 +192,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    return NextResponse.json({ success: true })
+    // Review history (best-effort; the schedule above is what matters)
+    await supabase.from('flashcard_reviews').insert({
+      user_id: userId,
+      study_guide_id: body.studyGuideId,
+      card_id: body.cardId,
+      rating: body.rating,
+      ease: next.ease,
+      interval_days: next.interval_days,
+      previous_interval_days: current.interval_days,
+      reviewed_at: now.toISOString()
+    })
+
+    return NextResponse.json({ success: true, schedule: next })
 
   } catch (error: any) {
     console.error('Save flashcard progress error:', error)
@@ -205,12 +250,19 @@ export async function DELETE(request: NextRequest) {
       )
     }
 
-    // Delete all progress for this user and study guide
-    const { error } = await supabase
-      .from('flashcard_progress')
-      .delete()
-      .eq('user_id', user.id)
-      .eq('study_guide_id', studyGuideId)
+    // Delete all progress (and review history) for this user and study guide
+    const [{ error }] = await Promise.all([
+      supabase
+        .from('flashcard_progress')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('study_guide_id', studyGuideId),
+      supabase
+        .from('flashcard_reviews')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('study_guide_id', studyGuideId),
+    ])
 
     if (error) {
       console.error('Error resetting flashcard progress:', error)
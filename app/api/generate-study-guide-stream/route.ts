@@ -1,151 +1,100 @@
 import { NextRequest } from 'next/server'
-import { ClaudeService } from '@/lib/claude-api'
-import { FileProcessor } from '@/lib/file-processing'
 import { StudyGuideRequest } from '@/types'
-import { createRouteHandlerClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { studyGuideRequestError } from '@/lib/study-guide-generation'
+import { enqueueJob, type JobRow } from '@/lib/jobs/queue'
 
+export const maxDuration = 300
+
+const POLL_MS = 1000
+
+// POST - Generate a study guide as a background job and stream its progress
+// as server-sent events (progress, content, complete, error). Generation
+// carries on in the worker if the client goes away; the guide is saved to the
+// signed-in user's account either way.
 export async function POST(request: NextRequest) {
   const encoder = new TextEncoder()
-  const startTime = Date.now()
-
-  // Get authenticated user (if any)
   const user = await getAuthenticatedUser(request)
-  const supabase = createRouteHandlerClient(request)
+  const supabase = createAdminClient()
 
   const stream = new ReadableStream({
     async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode('data: ' + JSON.stringify(event) + '\n\n'))
+      }
+
       try {
-        console.log('🚀 Study guide streaming generation started')
         const body: StudyGuideRequest = await request.json()
-
-        // Validate request - now also accepts directContent
-        const hasCloudinaryFiles = body.cloudinaryFiles && body.cloudinaryFiles.length > 0
-        const hasDirectContent = body.directContent && body.directContent.length > 0
-        const hasLegacyFiles = body.files && body.files.length > 0
-
-        if (!hasCloudinaryFiles && !hasDirectContent && !hasLegacyFiles) {
-          controller.enqueue(encoder.encode('data: ' + JSON.stringify({ type: 'error', message: 'No files provided' }) + '\n\n'))
+        const invalid = studyGuideRequestError(body)
+        if (invalid) {
+          send({ type: 'error', message: invalid })
           controller.close()
           return
         }
 
-        if (!body.studyGuideName || !body.subject || !body.gradeLevel || !body.format) {
-          controller.enqueue(encoder.encode('data: ' + JSON.stringify({ type: 'error', message: 'Missing required fields' }) + '\n\n'))
-          controller.close()
-          return
-        }
-
-        // Send progress update
-        controller.enqueue(encoder.encode('data: ' + JSON.stringify({ type: 'progress', message: 'Processing your materials...' }) + '\n\n'))
-
-        // Process files from multiple sources
-        let allContent: Array<{ name: string; content: string }> = []
-
-        // 1. Process Cloudinary files (fetched and text-extracted server-side)
-        if (hasCloudinaryFiles && body.cloudinaryFiles) {
-          controller.enqueue(encoder.encode('data: ' + JSON.stringify({ type: 'progress', message: 'Loading your files...' }) + '\n\n'))
-          const processedFiles = await Promise.all(
-            body.cloudinaryFiles.map(async (cloudinaryFile) => {
-              return await FileProcessor.processFileFromUrl(cloudinaryFile.url, cloudinaryFile.filename)
-            })
-          )
-          allContent.push(...processedFiles.map(f => ({ name: f.name, content: f.content })))
-        }
-
-        // 2. Add directly processed content (already extracted client-side, bypassed Cloudinary)
-        if (hasDirectContent && body.directContent) {
-          console.log('Adding direct content:', body.directContent.map((c) => c.name))
-          allContent.push(...body.directContent)
-        }
-
-        // 3. Handle legacy files format (if any)
-        if (hasLegacyFiles && !hasCloudinaryFiles && !hasDirectContent) {
-          allContent.push(...body.files!.map((f: { name: string; content: string }) => ({ name: f.name, content: f.content })))
-        }
-
-        // Combine all content
-        const combinedContent = allContent
-          .map(file => `--- ${file.name} ---\n${file.content}`)
-          .join('\n\n')
-
-        controller.enqueue(encoder.encode('data: ' + JSON.stringify({ type: 'progress', message: 'Creating your study guide...' }) + '\n\n'))
-
-        // Generate with streaming
-        const claudeService = new ClaudeService()
-        let fullContent = ''
-        let usage: any = null
-
-        const streamGenerator = claudeService.generateStudyGuideStream({
-          content: combinedContent,
-          subject: body.subject,
-          gradeLevel: body.gradeLevel,
-          format: body.format,
-          topicFocus: body.topicFocus,
-          difficultyLevel: body.difficultyLevel,
-          additionalInstructions: body.additionalInstructions
+        const { job } = await enqueueJob(supabase, {
+          kind: 'generate_study_guide',
+          payload: { request: body },
+          userId: user?.id ?? null,
+          label: `Study guide: ${body.studyGuideName}`,
         })
-
-        for await (const chunk of streamGenerator) {
-          if (typeof chunk === 'string') {
-            fullContent += chunk
-            // Send content chunk
-            controller.enqueue(encoder.encode('data: ' + JSON.stringify({ type: 'content', chunk }) + '\n\n'))
-          } else {
-            // Final result with usage
-            usage = chunk.usage
+        send({ type: 'progress', message: 'Waiting for a free slot...' })
+
+        // Tail the job row, passing on new progress and the text streamed so far
+        let sentMessage = ''
+        let sentLength = 0
+        let attempt = 0
+        while (!request.signal.aborted) {
+          await new Promise(resolve => setTimeout(resolve, POLL_MS))
+          const { data } = await supabase
+            .from('jobs')
+            .select('status, attempts, progress, result, last_error')
+            .eq('id', job.id)
+            .single()
+          const current = data as Pick<JobRow, 'status' | 'attempts' | 'progress' | 'result' | 'last_error'> | null
+          if (!current) throw new Error('Generation job disappeared')
+          if (current.attempts > 1 && current.attempts !== attempt) {
+            // A later attempt after an error: its text starts over
+            send({ type: 'progress', message: 'Retrying after an error...' })
+            sentMessage = ''
+            sentLength = 0
           }
-        }
-
-        controller.enqueue(encoder.encode('data: ' + JSON.stringify({ type: 'progress', message: 'Saving to database...' }) + '\n\n'))
+          attempt = current.attempts
 
-        // Save to Supabase
-        const { data: savedGuide, error: supabaseError } = await supabase
-          .from('study_guides')
-          .insert({
-            title: body.studyGuideName,
-            subject: body.subject,
-            grade_level: body.gradeLevel,
-            format: body.format,
-            content: fullContent,
-            topic_focus: body.topicFocus,
-            difficulty_level: body.difficultyLevel,
-            additional_instructions: body.additionalInstructions,
-            file_count: (body.cloudinaryFiles?.length || 0) + (body.directContent?.length || 0) + (body.files?.length || 0),
-            token_usage: usage,
-            user_id: body.userId || user?.id || null  // Use passed userId, fallback to cookie auth
-          })
-          .select()
-          .single()
+          const message = typeof current.progress?.message === 'string' ? current.progress.message : ''
+          const content = typeof current.progress?.content === 'string' ? current.progress.content : ''
+          if (message && message !== sentMessage) {
+            send({ type: 'progress', message })
+            sentMessage = message
+          }
+          if (content.length > sentLength) {
+            send({ type: 'content', chunk: content.slice(sentLength) })
+            sentLength = content.length
+          }
 
-        if (supabaseError || !savedGuide) {
-          controller.enqueue(encoder.encode('data: ' + JSON.stringify({ type: 'error', message: `Failed to save: ${supabaseError?.message}` }) + '\n\n'))
-          controller.close()
-          return
+          if (current.status === 'succeeded') {
+            const result = current.result ?? {}
+            send({
+              type: 'complete',
+              studyGuideUrl: `/study-guide/${result.studyGuideId}`,
+              id: result.studyGuideId,
+              title: result.title,
+              format: result.format,
+            })
+            break
+          }
+          if (current.status === 'failed' || current.status === 'cancelled') {
+            send({ type: 'error', message: current.last_error ?? 'Failed to generate study guide' })
+            break
+          }
         }
-
-        const totalTime = Date.now() - startTime
-        console.log(`🎉 Streaming generation completed in ${totalTime}ms`)
-
-        // Send completion with study guide URL
-        controller.enqueue(encoder.encode('data: ' + JSON.stringify({
-          type: 'complete',
-          studyGuideUrl: `/study-guide/${savedGuide.id}`,
-          id: savedGuide.id,
-          title: savedGuide.title,
-          format: savedGuide.format
-        }) + '\n\n'))
-
         controller.close()
-
       } catch (error) {
         console.error('❌ Streaming generation error:', error)
-        controller.enqueue(encoder.encode('data: ' + JSON.stringify({
-          type: 'error',
-          message: error instanceof Error ? error.message : 'Failed to generate study guide'
-        }) + '\n\n'))
+        send({ type: 'error', message: error instanceof Error ? error.message : 'Failed to generate study guide' })
         controller.close()
       }
-    }
+    },
   })
 
   return new Response(stream, {
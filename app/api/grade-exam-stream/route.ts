@@ -1,185 +1,18 @@
 import { NextRequest } from 'next/server'
 import { ClaudeService } from '@/lib/claude-api'
 import { getAuthenticatedUser, createAdminClient } from '@/lib/supabase-server'
+import { gradeFor } from '@/lib/grading/grade-schemes'
+import {
+  gradingTotals,
+  overallConfidence,
+  renderGradingMarkdown,
+  toGradeBreakdown,
+} from '@/lib/grading/structured-output'
 
 // Vercel config for longer timeout and larger body size (for image uploads)
 export const maxDuration = 300 // 5 minutes (requires Vercel Pro for >60s)
 export const dynamic = 'force-dynamic'
 
-// Helper to normalize question numbers for deduplication
-function normalizeQuestionNumber(qNum: string): string {
-  // Normalize for comparison but KEEP section prefixes to distinguish
-  // Section A "2a" from Section C "2a"
-  return qNum
-    .toLowerCase()
-    .replace(/^question\s*/i, '')  // Remove "Question" prefix
-    .replace(/^q\.?\s*/i, '')       // Remove "Q" or "Q." prefix
-    .replace(/\s+/g, '')            // Remove all whitespace for comparison
-    .replace(/\(/g, '(')
-    .replace(/\)/g, ')')
-    // Keep section prefixes like "sectiona", "sectionb", "sectionc" intact
-}
-
-// Parse the mark scheme summary from Claude's response
-function parseMarkSchemeSummary(content: string): { questions: Array<{num: string, marks: number}>, total: number } | null {
-  const match = content.match(/\[MARK SCHEME SUMMARY\]([\s\S]*?)\[END SUMMARY\]/i)
-  if (!match) return null
-
-  const summaryText = match[1]
-  const questions: Array<{num: string, marks: number}> = []
-
-  // Parse entries like "1a(2)" or "Section A 2b(5)" - supports various formats
-  // Match patterns: "1a(2)", "1(a)(3)", "Section A 2b(5)", "2 (4)", etc.
-  const entryPattern = /([A-Za-z0-9\s()]+?)\s*\((\d+)\)/g
-  let entry
-  while ((entry = entryPattern.exec(summaryText)) !== null) {
-    const questionNum = entry[1].trim()
-    const marks = parseInt(entry[2])
-    // Skip if it looks like "Total" or other non-question entries
-    if (!/total|marks|summary/i.test(questionNum) && marks > 0) {
-      questions.push({ num: questionNum, marks })
-    }
-  }
-
-  const totalMatch = summaryText.match(/Total:\s*(\d+)/i)
-  const total = totalMatch ? parseInt(totalMatch[1]) : questions.reduce((s, q) => s + q.marks, 0)
-
-  return { questions, total }
-}
-
-// Find questions that were expected but not graded
-function findMissingQuestions(
-  expected: Array<{num: string, marks: number}>,
-  graded: Array<{questionNumber: string, marksPossible: number}>
-): Array<{num: string, marks: number}> {
-  const normalizedGraded = new Set(graded.map(q => normalizeQuestionNumber(q.questionNumber)))
-  return expected.filter(q => !normalizedGraded.has(normalizeQuestionNumber(q.num)))
-}
-
-// Filter out questions that weren't in the mark scheme (phantom questions)
-function filterToMarkSchemeQuestions(
-  graded: Array<{questionNumber: string, marksAwarded: number, marksPossible: number, explanation: string}>,
-  expected: Array<{num: string, marks: number}>
-): Array<{questionNumber: string, marksAwarded: number, marksPossible: number, explanation: string}> {
-  const normalizedExpected = new Set(expected.map(q => normalizeQuestionNumber(q.num)))
-
-  return graded.filter(q => {
-    const normalized = normalizeQuestionNumber(q.questionNumber)
-    // Check if this question matches any expected question
-    if (normalizedExpected.has(normalized)) return true
-
-    // Also check partial matches for complex question numbers
-    // e.g., "Section B 1a(i)" should match "1a(i)" if section prefix differs
-    for (const exp of expected) {
-      const expNorm = normalizeQuestionNumber(exp.num)
-      // Check if one contains the other (for section prefix variations)
-      if (normalized.includes(expNorm) || expNorm.includes(normalized)) {
-        return true
-      }
-    }
-
-    console.log(`⚠️ Filtering out unexpected question: "${q.questionNumber}" (not in mark scheme summary)`)
-    return false
-  })
-}
-
-// Helper to parse the grading response into structured breakdown
-function parseGradingResponse(content: string) {
-  const breakdown: Array<{
-    questionNumber: string
-    marksAwarded: number
-    marksPossible: number
-    explanation: string
-  }> = []
-
-  // Remove markdown formatting for easier parsing
-  const cleanContent = content.replace(/\*\*/g, '')
-
-  // Highly flexible pattern that captures ANY question-like entry with marks
-  // Matches: "Question X", "Section A 1(a)", "1a", "1(a)(i)", "Part A 1", "Option 1", etc. followed by Mark: X/Y
-  // The lookahead handles many boundary patterns for versatility across different exam formats:
-  // - "Question X" (standard)
-  // - "Section [A-Z]" (UK A-level style)
-  // - "Part [A-Z0-9]" (some US exams)
-  // - "Option [0-9]" (choice questions)
-  // - "[number][letter], Mark:" (bare numbered questions like "2b, Mark:")
-  // - Standard endings: Total, Percentage, Grade, Feedback, Strengths, Areas
-  // NOTE: The pattern `\d+[a-z]?\s*[),:]+\s*Mark` requires punctuation (comma, colon, or paren) before "Mark"
-  // to avoid false matches on phrases like "Lost 3 marks" which would truncate feedback
-  const questionPattern = /(?:Question\s+)?([A-Za-z0-9\s()]+?)[,:\s]+Mark[s]?[:\s]*(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)\s*[-–—:]?\s*(.*?)(?=(?:Question\s+\S)|(?:Section\s+[A-Z])|(?:Part\s+[A-Z0-9])|(?:Option\s+[0-9])|(?:\d+[a-z]?\s*[),:]+\s*Mark)|Total[:\s]|Percentage[:\s]|Grade[:\s]|Feedback\s*:|Strengths\s*:|Areas\s*:|$)/gis
-
-  const seenQuestions = new Set<string>()
-  const results: Array<{
-    questionNumber: string
-    marksAwarded: number
-    marksPossible: number
-    explanation: string
-    index: number
-  }> = []
-
-  let match
-  while ((match = questionPattern.exec(cleanContent)) !== null) {
-    const rawQuestionNum = match[1].trim()
-
-    // Validate question number format:
-    // - Should be short (real question numbers are < 50 chars to allow "Section C Option 2(a)")
-    // - Should not contain instruction-like phrases
-    // - Should start with digit, letter, or "Section"
-    if (rawQuestionNum.length > 50 ||
-        /according|scheme|grading|instruct|evaluat|systematic|shows|correct|identified|explained/i.test(rawQuestionNum) ||
-        !/^(\d|[a-z]|section|part|option)/i.test(rawQuestionNum)) continue
-
-    // Additional validation: must look like a question identifier
-    // Should contain at least one digit or be a section reference
-    if (!/\d/.test(rawQuestionNum) && !/^section/i.test(rawQuestionNum)) continue
-
-    const normalizedNum = normalizeQuestionNumber(rawQuestionNum)
-
-    // Skip duplicates
-    if (seenQuestions.has(normalizedNum)) continue
-    seenQuestions.add(normalizedNum)
-
-    results.push({
-      questionNumber: rawQuestionNum,
-      marksAwarded: parseFloat(match[2]),
-      marksPossible: parseFloat(match[3]),
-      explanation: match[4].trim().replace(/\n+/g, ' ').replace(/\s+/g, ' ').substring(0, 2000),
-      index: match.index
-    })
-  }
-
-  // Sort by index to maintain order in which they appeared
-  results.sort((a, b) => a.index - b.index)
-
-  // Add to breakdown without the index
-  for (const r of results) {
-    breakdown.push({
-      questionNumber: r.questionNumber,
-      marksAwarded: r.marksAwarded,
-      marksPossible: r.marksPossible,
-      explanation: r.explanation
-    })
-  }
-
-  // NOTE: Questions are kept in the order Claude outputs them (mark scheme order)
-  // No sorting - chronological order as they appear on the test/mark scheme
-
-  // Always calculate totals from the breakdown (more accurate than Claude's Total line)
-  const totalMarks = breakdown.reduce((sum, q) => sum + q.marksAwarded, 0)
-  const totalPossible = breakdown.reduce((sum, q) => sum + q.marksPossible, 0)
-
-  // Always calculate grade from percentage (American scale)
-  // Don't trust Claude's grade - it might use different scales (e.g., "E" which isn't American)
-  const percentage = totalPossible > 0 ? (totalMarks / totalPossible) * 100 : 0
-  let grade = 'F'
-  if (percentage >= 90) grade = 'A'
-  else if (percentage >= 80) grade = 'B'
-  else if (percentage >= 70) grade = 'C'
-  else if (percentage >= 60) grade = 'D'
-
-  return { breakdown, totalMarks, totalPossible, grade }
-}
-
 export async function POST(request: NextRequest) {
   const encoder = new TextEncoder()
   const startTime = Date.now()
@@ -258,6 +91,15 @@ export async function POST(request: NextRequest) {
           return
         }
 
+        if (!isTeacher) {
+          controller.enqueue(encoder.encode('data: ' + JSON.stringify({
+            type: 'error',
+            message: 'Streaming not available for student grading'
+          }) + '\n\n'))
+          controller.close()
+          return
+        }
+
         // Send progress update
         controller.enqueue(encoder.encode('data: ' + JSON.stringify({
           type: 'progress',
@@ -291,121 +133,46 @@ export async function POST(request: NextRequest) {
           message: 'Grading exam...'
         }) + '\n\n'))
 
-        // Generate grading with streaming
+        // The grading comes back as validated JSON (repaired by the model when
+        // it doesn't validate), the same as every other grading path; the
+        // stream carries progress while that happens, then the result.
         const claudeService = new ClaudeService()
-        let fullContent = ''
-
-        const streamGenerator = isTeacher
-          ? claudeService.gradeExamWithImagesStream({
-              markSchemeText: '',
-              studentExamText: '',
-              markSchemeFiles: markSchemeBuffers,
-              studentExamFiles: studentExamBuffers,
-              additionalComments: additionalComments || undefined
-            })
-          : null
-
-        if (!streamGenerator) {
-          // For non-teachers, use the non-streaming student grading
+        const { grading, usage } = await claudeService.gradeExamWithImages({
+          markSchemeText: '',
+          studentExamText: '',
+          markSchemeFiles: markSchemeBuffers,
+          studentExamFiles: studentExamBuffers,
+          additionalComments: additionalComments || undefined
+        })
+
+        if (grading.status === 'unreadable') {
+          console.error('Grader could not read the exam:', grading.unreadable_reason)
           controller.enqueue(encoder.encode('data: ' + JSON.stringify({
             type: 'error',
-            message: 'Streaming not available for student grading'
+            message: 'The exam could not be read. Please make sure the files are clear and readable, and try again.'
           }) + '\n\n'))
           controller.close()
           return
         }
 
-        for await (const chunk of streamGenerator) {
-          fullContent += chunk
-          // Send content chunk
-          controller.enqueue(encoder.encode('data: ' + JSON.stringify({
-            type: 'content',
-            chunk
-          }) + '\n\n'))
-        }
-
-        // Parse the grading response
-        let { breakdown, totalMarks, totalPossible, grade } = parseGradingResponse(fullContent)
-
-        // Check for missing questions using the mark scheme summary
-        const markSchemeSummary = parseMarkSchemeSummary(fullContent)
-        if (markSchemeSummary) {
-          // First, filter out any "phantom" questions not in the mark scheme
-          const originalCount = breakdown.length
-          breakdown = filterToMarkSchemeQuestions(breakdown, markSchemeSummary.questions)
-          if (breakdown.length < originalCount) {
-            console.log(`🔍 Filtered out ${originalCount - breakdown.length} phantom question(s) not in mark scheme`)
-            // Recalculate totals after filtering
-            totalMarks = breakdown.reduce((sum, q) => sum + q.marksAwarded, 0)
-            totalPossible = breakdown.reduce((sum, q) => sum + q.marksPossible, 0)
-          }
+        // Marks and totals come straight from the validated structure
+        const breakdown = toGradeBreakdown(grading)
+        const { totalMarks, totalPossibleMarks: totalPossible } = gradingTotals(grading)
+        const fullContent = renderGradingMarkdown(grading)
 
-          const missingQuestions = findMissingQuestions(markSchemeSummary.questions, breakdown)
-
-          if (missingQuestions.length > 0) {
-            console.log(`⚠️ Missing ${missingQuestions.length} questions, making follow-up call...`)
-            controller.enqueue(encoder.encode('data: ' + JSON.stringify({
-              type: 'progress',
-              message: `Grading ${missingQuestions.length} additional question${missingQuestions.length > 1 ? 's' : ''}...`
-            }) + '\n\n'))
-
-            // Make follow-up call to grade missing questions
-            try {
-              const followUpResult = await claudeService.gradeMissingQuestions({
-                markSchemeFiles: markSchemeBuffers,
-                studentExamFiles: studentExamBuffers,
-                missingQuestions: missingQuestions.map(q => `${q.num}(${q.marks})`),
-                additionalComments: additionalComments || undefined
-              })
-
-              if (followUpResult.content) {
-                // Stream the follow-up content
-                controller.enqueue(encoder.encode('data: ' + JSON.stringify({
-                  type: 'content',
-                  chunk: '\n\n--- Additional Questions ---\n\n' + followUpResult.content
-                }) + '\n\n'))
-
-                fullContent += '\n\n--- Additional Questions ---\n\n' + followUpResult.content
-
-                // Parse the follow-up response and merge
-                const followUpParsed = parseGradingResponse(followUpResult.content)
-                if (followUpParsed.breakdown.length > 0) {
-                  // Add new questions to breakdown (avoiding duplicates)
-                  const existingNormalized = new Set(breakdown.map(q => normalizeQuestionNumber(q.questionNumber)))
-                  for (const item of followUpParsed.breakdown) {
-                    if (!existingNormalized.has(normalizeQuestionNumber(item.questionNumber))) {
-                      breakdown.push(item)
-                    }
-                  }
-
-                  // Recalculate totals
-                  totalMarks = breakdown.reduce((sum, q) => sum + q.marksAwarded, 0)
-                  totalPossible = breakdown.reduce((sum, q) => sum + q.marksPossible, 0)
-                  const newPercentage = totalPossible > 0 ? (totalMarks / totalPossible) * 100 : 0
-                  grade = 'F'
-                  if (newPercentage >= 90) grade = 'A'
-                  else if (newPercentage >= 80) grade = 'B'
-                  else if (newPercentage >= 70) grade = 'C'
-                  else if (newPercentage >= 60) grade = 'D'
-
-                  console.log(`✅ Added ${followUpParsed.breakdown.length} missing questions. New total: ${totalMarks}/${totalPossible}`)
-                }
-              }
-            } catch (followUpError) {
-              console.error('Follow-up grading failed:', followUpError)
-              // Continue with what we have
-            }
-          }
-        } else {
-          console.log('⚠️ No mark scheme summary found in response - cannot verify completeness')
-        }
+        controller.enqueue(encoder.encode('data: ' + JSON.stringify({
+          type: 'content',
+          chunk: fullContent
+        }) + '\n\n'))
 
         controller.enqueue(encoder.encode('data: ' + JSON.stringify({
           type: 'progress',
           message: 'Saving results...'
         }) + '\n\n'))
 
+        // Standalone gradings use US letter grades
         const percentage = totalPossible > 0 ? (totalMarks / totalPossible) * 100 : 0
+        const grade = gradeFor(percentage)
 
         // Determine student name: use metadata if provided, otherwise extract from original filename
         let studentName = 'Student'
@@ -437,6 +204,9 @@ export async function POST(request: NextRequest) {
             grade: grade,
             content: fullContent,
             grade_breakdown: breakdown,
+            structured_output: grading,
+            confidence: overallConfidence(grading),
+            token_usage: usage,
             additional_comments: additionalComments || null,
             class_name: className || null,
             class_period: classPeriod || null,
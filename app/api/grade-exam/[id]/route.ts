@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createRouteHandlerClient, getAuthenticatedUser, createAdminClient } from '@/lib/supabase-server'
+import { gradeSchemeForResult } from '@/lib/grading/apply-grade-scheme'
+import { gradeFor } from '@/lib/grading/grade-schemes'
+import { logReportEdit } from '@/lib/grading/review-queue'
 
 interface GradeBreakdownItem {
   questionNumber: string
@@ -65,7 +68,7 @@ export async function PATCH(
     // Verify user owns this grading result
     const { data: gradingResult, error: fetchError } = await supabase
       .from('grading_results')
-      .select('user_id')
+      .select('user_id, grade_breakdown')
       .eq('id', id)
       .single()
 
@@ -111,12 +114,8 @@ export async function PATCH(
     const totalPossibleMarks = gradeBreakdown.reduce((sum, item) => sum + item.marksPossible, 0)
     const percentage = totalPossibleMarks > 0 ? (totalMarks / totalPossibleMarks) * 100 : 0
 
-    // Calculate letter grade (American grading scale)
-    let grade = 'F'
-    if (percentage >= 90) grade = 'A'
-    else if (percentage >= 80) grade = 'B'
-    else if (percentage >= 70) grade = 'C'
-    else if (percentage >= 60) grade = 'D'
+    // Grade on the scheme of the assignment and class this result belongs to
+    const grade = gradeFor(percentage, await gradeSchemeForResult(createAdminClient(), id))
 
     // Update database
     const { error: updateError } = await supabase
@@ -139,6 +138,13 @@ export async function PATCH(
       )
     }
 
+    await logReportEdit(createAdminClient(), {
+      gradingResultId: id,
+      teacherId: userId,
+      before: (gradingResult.grade_breakdown as GradeBreakdownItem[] | null) ?? [],
+      after: gradeBreakdown,
+    })
+
     return NextResponse.json({
       success: true,
       data: {
@@ -187,6 +193,24 @@ export async function GET(
     const url = new URL(request.url)
     const requestUserId = url.searchParams.get('userId')
 
+    // A submission's marks are the teacher's alone until they release them
+    if (gradingResult.assignment_submission_id) {
+      const { data: submission } = await supabase
+        .from('assignment_submissions')
+        .select('status')
+        .eq('id', gradingResult.assignment_submission_id)
+        .maybeSingle()
+      if (submission && submission.status !== 'graded') {
+        const user = await getAuthenticatedUser(request)
+        if (user?.id !== gradingResult.user_id) {
+          return NextResponse.json(
+            { success: false, error: 'Grading result not found' },
+            { status: 404 }
+          )
+        }
+      }
+    }
+
     return NextResponse.json({
       success: true,
       data: {
@@ -200,6 +224,7 @@ export async function GET(
         grade: gradingResult.grade,
         content: gradingResult.content,
         gradeBreakdown: gradingResult.grade_breakdown,
+        rubric: gradingResult.rubric ?? null,
         additionalComments: gradingResult.additional_comments,
         pdfUrl: gradingResult.pdf_url,
         createdAt: gradingResult.created_at,
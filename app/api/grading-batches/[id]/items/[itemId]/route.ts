@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+import { assignBatchItem, loadRoster } from '@/lib/grading/batch-grading'
+import { enqueueBatchGrading } from '@/lib/jobs/handlers'
+
+// PATCH - Fix one paper. Body { student_id } gives it to an enrolled student
+// (null to unassign); { retry: true } queues a failed paper to grade again.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; itemId: string }> }
+) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const { id, itemId } = await params
+    const supabase = createAdminClient()
+    const { data: batch } = await supabase
+      .from('grading_batches')
+      .select('id, teacher_id, class_id, title, status')
+      .eq('id', id)
+      .maybeSingle()
+    if (!batch) return NextResponse.json({ error: 'Batch not found' }, { status: 404 })
+    if (batch.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const { data: item } = await supabase
+      .from('grading_batch_items')
+      .select('id, status')
+      .eq('id', itemId)
+      .eq('batch_id', id)
+      .maybeSingle()
+    if (!item) return NextResponse.json({ error: 'Paper not found' }, { status: 404 })
+
+    const body = await request.json()
+
+    if (body.retry === true) {
+      if (item.status !== 'failed') {
+        return NextResponse.json({ error: 'Only failed papers can be retried' }, { status: 409 })
+      }
+      await supabase
+        .from('grading_batch_items')
+        .update({ status: 'queued', error: null, started_at: null, finished_at: null })
+        .eq('id', itemId)
+      await supabase
+        .from('grading_batches')
+        .update({ status: 'grading', updated_at: new Date().toISOString() })
+        .eq('id', id)
+      await enqueueBatchGrading(supabase, { batchId: id, teacherId: user.id, title: batch.title })
+      return NextResponse.json({ success: true })
+    }
+
+    if (!('student_id' in body)) return NextResponse.json({ error: 'Nothing to update' }, { status: 400 })
+    const studentId = body.student_id === null ? null : String(body.student_id)
+
+    if (studentId) {
+      const roster = await loadRoster(supabase, batch.class_id)
+      if (!roster.some(s => s.studentId === studentId)) {
+        return NextResponse.json({ error: 'Student is not enrolled in this class' }, { status: 400 })
+      }
+      const { data: taken } = await supabase
+        .from('grading_batch_items')
+        .select('position')
+        .eq('batch_id', id)
+        .eq('student_id', studentId)
+        .neq('id', itemId)
+        .maybeSingle()
+      if (taken) {
+        return NextResponse.json(
+          { error: `That student is already matched to paper ${taken.position} — unassign it first` },
+          { status: 409 }
+        )
+      }
+    }
+
+    await assignBatchItem(supabase, itemId, studentId)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Grading batch item PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
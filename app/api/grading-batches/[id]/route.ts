@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+import { loadRoster } from '@/lib/grading/batch-grading'
+import { enqueueBatchGrading } from '@/lib/jobs/handlers'
+
+// GET - The progress board: the batch, its papers in scan order with their
+// grading results, and the class roster for fixing matches. A batch still in
+// progress gets its job queued again if it has none (e.g. the enqueue after
+// a retry failed); enqueueing is a no-op while one is queued or running.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: batch } = await supabase
+      .from('grading_batches')
+      .select('id, teacher_id, class_id, title, split_mode, pages_per_student, scan_url, scan_filename, mark_scheme_filename, page_count, status, error, created_at')
+      .eq('id', id)
+      .maybeSingle()
+    if (!batch) return NextResponse.json({ error: 'Batch not found' }, { status: 404 })
+    if (batch.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    if (batch.status === 'splitting' || batch.status === 'grading') {
+      await enqueueBatchGrading(supabase, { batchId: id, teacherId: user.id, title: batch.title })
+    }
+
+    const [itemsRes, classRes, roster] = await Promise.all([
+      supabase
+        .from('grading_batch_items')
+        .select('id, position, start_page, end_page, detected_name, detected_code, student_id, match_method, match_confidence, status, error, grading_result_id')
+        .eq('batch_id', id)
+        .order('position'),
+      supabase.from('classes').select('id, name, period').eq('id', batch.class_id).maybeSingle(),
+      loadRoster(supabase, batch.class_id),
+    ])
+    if (itemsRes.error) return NextResponse.json({ error: 'Failed to fetch papers' }, { status: 500 })
+    const items = itemsRes.data ?? []
+
+    const resultIds = items.map(i => i.grading_result_id).filter((r): r is string => !!r)
+    const { data: results } = resultIds.length > 0
+      ? await supabase
+        .from('grading_results')
+        .select('id, total_marks, total_possible_marks, percentage, grade')
+        .in('id', resultIds)
+      : { data: [] }
+    const resultMap = new Map((results ?? []).map(r => [r.id, r]))
+
+    return NextResponse.json({
+      batch: {
+        id: batch.id,
+        class_id: batch.class_id,
+        title: batch.title,
+        split_mode: batch.split_mode,
+        pages_per_student: batch.pages_per_student,
+        scan_url: batch.scan_url,
+        scan_filename: batch.scan_filename,
+        mark_scheme_filename: batch.mark_scheme_filename,
+        page_count: batch.page_count,
+        status: batch.status,
+        error: batch.error,
+        created_at: batch.created_at,
+      },
+      class: classRes.data ?? null,
+      items: items.map(i => ({
+        ...i,
+        grading_result: i.grading_result_id ? resultMap.get(i.grading_result_id) ?? null : null,
+      })),
+      roster: roster
+        .map(s => ({ id: s.studentId, first_name: s.firstName, last_name: s.lastName, email: s.email }))
+        .sort((a, b) => (a.last_name ?? a.email).localeCompare(b.last_name ?? b.email)),
+    })
+  } catch (error) {
+    console.error('Grading batch GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+import { BATCH_SPLIT_MODES, type BatchSplitMode } from '@/lib/grading/batch-split'
+import { enqueueBatchGrading } from '@/lib/jobs/handlers'
+
+const MAX_TITLE_LEN = 200
+const MAX_PAGES_PER_STUDENT = 100
+
+// GET - The teacher's recent batches, newest first, with paper counts
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const supabase = createAdminClient()
+    const { data: batches, error: batchesError } = await supabase
+      .from('grading_batches')
+      .select('id, class_id, title, split_mode, status, error, page_count, created_at')
+      .eq('teacher_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(20)
+    if (batchesError) return NextResponse.json({ error: 'Failed to fetch batches' }, { status: 500 })
+    if (!batches || batches.length === 0) return NextResponse.json({ batches: [] })
+
+    const [itemsRes, classesRes] = await Promise.all([
+      supabase
+        .from('grading_batch_items')
+        .select('batch_id, status')
+        .in('batch_id', batches.map(b => b.id)),
+      supabase
+        .from('classes')
+        .select('id, name')
+        .in('id', [...new Set(batches.map(b => b.class_id))]),
+    ])
+
+    const counts = new Map<string, { total: number; graded: number }>()
+    for (const item of itemsRes.data ?? []) {
+      const c = counts.get(item.batch_id) ?? { total: 0, graded: 0 }
+      c.total++
+      if (item.status === 'graded') c.graded++
+      counts.set(item.batch_id, c)
+    }
+    const classNames = new Map((classesRes.data ?? []).map(c => [c.id, c.name]))
+
+    return NextResponse.json({
+      batches: batches.map(b => ({
+        ...b,
+        class_name: classNames.get(b.class_id) ?? null,
+        paper_count: counts.get(b.id)?.total ?? 0,
+        graded_count: counts.get(b.id)?.graded ?? 0,
+      })),
+    })
+  } catch (error) {
+    console.error('Grading batches GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Start a batch from an uploaded scan. Body { class_id, title,
+// scan_url, scan_filename?, split_mode, pages_per_student?, mark_scheme_url?,
+// mark_scheme_filename?, additional_comments? }. Splitting and grading run in
+// a background job; the progress board polls GET /api/grading-batches/[id].
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const body = await request.json()
+    const title = typeof body.title === 'string' ? body.title.trim() : ''
+    if (!title) return NextResponse.json({ error: 'Exam title is required' }, { status: 400 })
+    if (title.length > MAX_TITLE_LEN) return NextResponse.json({ error: 'Exam title too long' }, { status: 400 })
+    if (typeof body.scan_url !== 'string' || !body.scan_url) {
+      return NextResponse.json({ error: 'Upload the scanned PDF first' }, { status: 400 })
+    }
+    if (!BATCH_SPLIT_MODES.includes(body.split_mode)) {
+      return NextResponse.json({ error: 'Invalid split mode' }, { status: 400 })
+    }
+    const splitMode = body.split_mode as BatchSplitMode
+
+    let pagesPerStudent: number | null = null
+    if (splitMode === 'fixed') {
+      pagesPerStudent = Number(body.pages_per_student)
+      if (!Number.isInteger(pagesPerStudent) || pagesPerStudent < 1 || pagesPerStudent > MAX_PAGES_PER_STUDENT) {
+        return NextResponse.json({ error: 'Pages per student must be a whole number from 1 to 100' }, { status: 400 })
+      }
+    }
+
+    const supabase = createAdminClient()
+    const { data: cls } = await supabase
+      .from('classes')
+      .select('id, teacher_id')
+      .eq('id', body.class_id ?? '')
+      .maybeSingle()
+    if (!cls) return NextResponse.json({ error: 'Class not found' }, { status: 404 })
+    if (cls.teacher_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const { data: batch, error: insertError } = await supabase
+      .from('grading_batches')
+      .insert({
+        teacher_id: user.id,
+        class_id: cls.id,
+        title,
+        split_mode: splitMode,
+        pages_per_student: pagesPerStudent,
+        scan_url: body.scan_url,
+        scan_filename: typeof body.scan_filename === 'string' ? body.scan_filename : null,
+        mark_scheme_url: typeof body.mark_scheme_url === 'string' && body.mark_scheme_url ? body.mark_scheme_url : null,
+        mark_scheme_filename: typeof body.mark_scheme_filename === 'string' ? body.mark_scheme_filename : null,
+        additional_comments: typeof body.additional_comments === 'string' && body.additional_comments.trim()
+          ? body.additional_comments.trim()
+          : null,
+      })
+      .select('id, status')
+      .single()
+    if (insertError || !batch) {
+      console.error('Error creating grading batch:', insertError)
+      return NextResponse.json({ error: 'Failed to start batch' }, { status: 500 })
+    }
+
+    await enqueueBatchGrading(supabase, { batchId: batch.id, teacherId: user.id, title })
+
+    return NextResponse.json({ batch }, { status: 201 })
+  } catch (error) {
+    console.error('Grading batches POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { JOB_HANDLERS } from '@/lib/jobs/handlers'
+import { cancelJob, type JobRow } from '@/lib/jobs/queue'
+
+// POST - Cancel a job. A queued job is cancelled at once; a running one is
+// asked to stop and its worker marks it cancelled (status stays 'running'
+// in the response until then).
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: job } = await supabase.from('jobs').select('*').eq('id', id).maybeSingle()
+    if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    if (job.user_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const status = await cancelJob(supabase, id)
+    if (!status) return NextResponse.json({ error: 'This job has already finished' }, { status: 409 })
+
+    // No worker will see a queued job again, so put its work's status right here
+    if (status === 'cancelled') {
+      const row = job as JobRow
+      await JOB_HANDLERS[row.kind].onGiveUp?.({ supabase, job: row }, 'cancelled', 'Cancelled')
+    }
+    return NextResponse.json({ success: true, status })
+  } catch (error) {
+    console.error('Job cancel error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
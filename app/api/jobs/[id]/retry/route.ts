@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { JOB_HANDLERS } from '@/lib/jobs/handlers'
+import { retryJob } from '@/lib/jobs/queue'
+
+// POST - Queue a failed or cancelled job again with a fresh set of attempts
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: job } = await supabase.from('jobs').select('id, user_id').eq('id', id).maybeSingle()
+    if (!job) return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    if (job.user_id !== user.id) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const retried = await retryJob(supabase, id)
+    if (!retried.ok) return NextResponse.json({ error: retried.error }, { status: 409 })
+    await JOB_HANDLERS[retried.job.kind].onRetry?.({ supabase, job: retried.job })
+    return NextResponse.json({ success: true, status: retried.job.status })
+  } catch (error) {
+    console.error('Job retry error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { JOB_LIST_COLUMNS, type JobStatus } from '@/lib/jobs/queue'
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled']
+
+// GET - The user's background jobs, newest first. ?status=queued,running
+// narrows to those statuses.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const statusParam = request.nextUrl.searchParams.get('status')
+    const statuses = statusParam ? statusParam.split(',') : []
+    if (statuses.some(s => !JOB_STATUSES.includes(s as JobStatus))) {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+    }
+
+    const supabase = createAdminClient()
+    let query = supabase
+      .from('jobs')
+      .select(JOB_LIST_COLUMNS)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(100)
+    if (statuses.length > 0) query = query.in('status', statuses)
+
+    const { data: jobs, error } = await query
+    if (error) return NextResponse.json({ error: 'Failed to fetch jobs' }, { status: 500 })
+    return NextResponse.json({ jobs: jobs ?? [] })
+  } catch (error) {
+    console.error('Jobs GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -41,7 +41,8 @@ export async function GET(request: NextRequest) {
         total_marks,
         total_possible_marks,
         percentage,
-        grade
+        grade,
+        assignment_submission_id
       `)
       .eq('student_user_id', user.id)
       .order('created_at', { ascending: false })
@@ -54,8 +55,25 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    // Reports of assignment submissions stay hidden until the teacher releases them
+    const submissionIds = (reports || [])
+      .map(r => r.assignment_submission_id)
+      .filter((sid): sid is string => !!sid)
+    let releasedIds = new Set<string>()
+    if (submissionIds.length > 0) {
+      const { data: released } = await supabase
+        .from('assignment_submissions')
+        .select('id')
+        .in('id', submissionIds)
+        .eq('status', 'graded')
+      releasedIds = new Set((released || []).map(s => s.id))
+    }
+    const visibleReports = (reports || []).filter(
+      r => !r.assignment_submission_id || releasedIds.has(r.assignment_submission_id)
+    )
+
     // Get teacher profiles for display
-    const teacherIds = [...new Set((reports || []).map(r => r.user_id))]
+    const teacherIds = [...new Set(visibleReports.map(r => r.user_id))]
 
     let teacherProfiles: Record<string, { first_name?: string; last_name?: string; email: string }> = {}
 
@@ -71,7 +89,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Combine reports with teacher info
-    const reportsWithTeachers = (reports || []).map(report => ({
+    const reportsWithTeachers = visibleReports.map(report => ({
       ...report,
       teacher: teacherProfiles[report.user_id] || { email: 'Unknown Teacher' }
     }))
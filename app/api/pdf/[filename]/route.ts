@@ -1,98 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { getPdfStorage } from '@/lib/pdf-storage/storage'
+import { checkPdfAccess, loadOrRegeneratePdf } from '@/lib/pdf-storage/access'
+import { pdfKeyFromFilename, pdfUrlSecret, verifyPdfSignature } from '@/lib/pdf-storage/signed-url'
 
-// In-memory storage for PDFs (in production, you'd use a database or cloud storage)
-const pdfStorage = new Map<string, Buffer>()
-
+// GET - Download a stored PDF. Either a valid signed link (?expires=&sig=,
+// see /api/pdf/[filename]/signed-url) or a signed-in owning teacher/student.
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ filename: string }> }
 ) {
   try {
     const { filename } = await params
-    
-    // Validate filename to prevent directory traversal attacks
-    if (!filename || filename.includes('..') || filename.includes('/') || filename.includes('\\')) {
+
+    // Only plain "<key>.pdf" names — no paths, no traversal
+    const key = pdfKeyFromFilename(filename)
+    if (!key) {
       return NextResponse.json({ error: 'Invalid filename' }, { status: 400 })
     }
-    
-    // Ensure it's a PDF file
-    if (!filename.endsWith('.pdf')) {
-      return NextResponse.json({ error: 'File must be a PDF' }, { status: 400 })
+
+    const supabase = createAdminClient()
+
+    const url = new URL(request.url)
+    const signed = verifyPdfSignature(key, url.searchParams.get('expires'), url.searchParams.get('sig'), pdfUrlSecret())
+    if (!signed) {
+      const user = await getAuthenticatedUser(request)
+      if (!user) {
+        return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+      }
+      const access = await checkPdfAccess(supabase, key, user.id)
+      if (access === 'not_found') {
+        return NextResponse.json({ error: 'PDF not found' }, { status: 404 })
+      }
+      if (access === 'forbidden') {
+        return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+      }
     }
-    
-    // Extract study guide ID from filename
-    const studyGuideId = filename.replace('.pdf', '')
-    
-    // Check if PDF exists in memory storage
-    const pdfBuffer = pdfStorage.get(studyGuideId)
-    
-    console.log('PDF request for:', studyGuideId)
-    console.log('PDF found in storage:', !!pdfBuffer)
-    console.log('Storage size:', pdfStorage.size)
-    
+
+    const pdfBuffer = await loadOrRegeneratePdf(supabase, getPdfStorage(), key)
     if (!pdfBuffer) {
-      // Log all available keys for debugging
-      const availableKeys = Array.from(pdfStorage.keys())
-      console.log('Available PDF keys in storage:', availableKeys)
-      console.log('Looking for key:', studyGuideId)
-      console.log('Key match:', availableKeys.includes(studyGuideId))
-      
-      return NextResponse.json({ 
-        error: 'PDF not found in storage',
-        debug: {
-          requestedKey: studyGuideId,
-          availableKeys: availableKeys,
-          storageSize: pdfStorage.size
-        }
-      }, { status: 404 })
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 })
     }
-    
-    // Return the PDF with proper headers
-    return new NextResponse(pdfBuffer, {
+
+    return new NextResponse(new Uint8Array(pdfBuffer), {
       status: 200,
       headers: {
         'Content-Type': 'application/pdf',
         'Content-Disposition': `attachment; filename="${filename}"`,
         'Content-Length': pdfBuffer.length.toString(),
-        'Cache-Control': 'public, max-age=3600', // Cache for 1 hour
+        // Access-checked content: never in shared caches
+        'Cache-Control': 'private, max-age=3600',
       },
     })
-    
   } catch (error) {
     console.error('PDF serving error:', error)
     return NextResponse.json({ error: 'Failed to serve PDF' }, { status: 500 })
   }
 }
-
-// Function to store PDF in memory (called from generate-study-guide)
-export function storePDF(studyGuideId: string, pdfBuffer: Buffer) {
-  if (!studyGuideId || !pdfBuffer) {
-    console.error('❌ Invalid storage request:', {
-      studyGuideId: studyGuideId,
-      hasBuffer: !!pdfBuffer,
-      bufferLength: pdfBuffer?.length || 0
-    })
-    throw new Error('Invalid PDF storage parameters')
-  }
-  
-  console.log('📦 Storing PDF:', {
-    key: studyGuideId,
-    size: pdfBuffer.length,
-    isBuffer: Buffer.isBuffer(pdfBuffer)
-  })
-  
-  pdfStorage.set(studyGuideId, pdfBuffer)
-  
-  // Verify it was stored
-  const stored = pdfStorage.get(studyGuideId)
-  if (!stored) {
-    console.error('❌ Failed to store PDF - not found after storage attempt')
-    throw new Error('Failed to store PDF in memory')
-  }
-  
-  console.log('✅ PDF stored successfully:', {
-    key: studyGuideId,
-    storageSize: pdfStorage.size,
-    storedSize: stored.length
-  })
-}
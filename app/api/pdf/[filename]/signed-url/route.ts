@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { checkPdfAccess } from '@/lib/pdf-storage/access'
+import { pdfKeyFromFilename, pdfUrlSecret, signPdfUrl } from '@/lib/pdf-storage/signed-url'
+
+// GET - An expiring download link for a PDF the caller may open, usable
+// without a session (emails, another device) until it expires.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ filename: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) {
+      return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+    }
+
+    const { filename } = await params
+    const key = pdfKeyFromFilename(filename)
+    if (!key) {
+      return NextResponse.json({ error: 'Invalid filename' }, { status: 400 })
+    }
+
+    const access = await checkPdfAccess(createAdminClient(), key, user.id)
+    if (access === 'not_found') {
+      return NextResponse.json({ error: 'PDF not found' }, { status: 404 })
+    }
+    if (access === 'forbidden') {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const { url, expiresAt } = signPdfUrl(key, pdfUrlSecret())
+    return NextResponse.json({ url, expires_at: expiresAt })
+  } catch (error) {
+    console.error('Sign PDF URL error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
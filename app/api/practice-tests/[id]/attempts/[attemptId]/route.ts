@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { normalizeAnswerKey } from '@/lib/practice-test-scoring'
+import { buildAnswerTimeline } from '@/lib/practice-test-timing'
+
+// GET — One student's attempt with the timeline of every answer change, and
+// the correct answers so the teacher can see right-to-wrong switches.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; attemptId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id, attemptId } = await params
+    const supabase = createAdminClient()
+    const { data: test } = await supabase
+      .from('practice_tests')
+      .select('id, teacher_id, answer_key')
+      .eq('id', id)
+      .single()
+    if (!test) return NextResponse.json({ error: 'Practice test not found' }, { status: 404 })
+    if (test.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Not your practice test' }, { status: 403 })
+    }
+
+    const { data: attempt } = await supabase
+      .from('practice_test_attempts')
+      .select('id, student_name, started_at, deadline_at, last_saved_at, submitted_at, auto_submitted')
+      .eq('id', attemptId)
+      .eq('practice_test_id', id)
+      .maybeSingle()
+    if (!attempt) return NextResponse.json({ error: 'Attempt not found' }, { status: 404 })
+
+    const { data: events, error: eventsError } = await supabase
+      .from('practice_test_answer_events')
+      .select('question_number, answer, changed_at')
+      .eq('attempt_id', attemptId)
+      .order('changed_at', { ascending: true })
+    if (eventsError) {
+      console.error('Error fetching answer events:', eventsError)
+      return NextResponse.json({ error: 'Failed to fetch timeline' }, { status: 500 })
+    }
+
+    const correctAnswers: Record<string, string> = {}
+    for (const [qNum, entry] of Object.entries(normalizeAnswerKey(test.answer_key))) {
+      correctAnswers[qNum] = entry.answer
+    }
+
+    return NextResponse.json({
+      attempt,
+      timeline: buildAnswerTimeline(events ?? [], attempt.started_at),
+      correct_answers: correctAnswers,
+    })
+  } catch (error) {
+    console.error('Practice test attempt error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
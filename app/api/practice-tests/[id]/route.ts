@@ -1,21 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
-import { AnswerKey } from '@/lib/types/practice-test'
-import { isAnswerLetter, isBigIdea } from '@/lib/practice-test-scoring'
+import { ANSWER_LETTERS, AnswerKey, MAX_CHOICES, MIN_CHOICES, Taxonomy } from '@/lib/types/practice-test'
+import { MAX_TIME_LIMIT_MINUTES } from '@/lib/practice-test-timing'
+import {
+  isDuplicatePolicy,
+  isValidChoiceCount,
+  normalizeAnswerKey,
+  resolveTaxonomy,
+  sanitizeTaxonomy,
+} from '@/lib/practice-test-scoring'
 
 const MAX_TITLE_LEN = 200
+const TEST_COLUMNS = 'id, teacher_id, title, description, answer_key, questions_content, taxonomy, choice_count, wrong_answer_penalty, time_limit_minutes, class_id, duplicate_policy, share_token, results_share_token, is_active, created_at, updated_at'
 
-function sanitizeAnswerKey(input: unknown): AnswerKey | null {
+// Drops entries whose answer is past the test's last choice or whose category
+// isn't in its taxonomy (e.g. one the teacher just removed).
+function sanitizeAnswerKey(input: unknown, taxonomy: Taxonomy, choiceCount: number): AnswerKey | null {
   if (!input || typeof input !== 'object') return null
+  const categoryIds = new Set(taxonomy.categories.map(c => c.id))
+  const letters = ANSWER_LETTERS.slice(0, choiceCount)
   const out: AnswerKey = {}
-  for (const [k, v] of Object.entries(input as Record<string, unknown>)) {
-    const qNum = Number(k)
-    if (!Number.isInteger(qNum) || qNum < 1) continue
-    if (!v || typeof v !== 'object') continue
-    const entry = v as Record<string, unknown>
-    if (!isAnswerLetter(entry.answer)) continue
-    if (!isBigIdea(entry.bigIdea)) continue
-    out[String(qNum)] = { answer: entry.answer, bigIdea: entry.bigIdea }
+  for (const [qNum, entry] of Object.entries(normalizeAnswerKey(input))) {
+    if (!letters.includes(entry.answer)) continue
+    if (!categoryIds.has(entry.category)) continue
+    out[qNum] = entry
   }
   return out
 }
@@ -24,7 +32,7 @@ async function getOwnedTest(userId: string, testId: string) {
   const supabase = createAdminClient()
   const { data, error } = await supabase
     .from('practice_tests')
-    .select('id, teacher_id, title, description, answer_key, questions_content, share_token, results_share_token, is_active, created_at, updated_at')
+    .select(TEST_COLUMNS)
     .eq('id', testId)
     .single()
   if (error || !data) return { error: 'Practice test not found', status: 404 as const }
@@ -75,8 +83,58 @@ export async function PATCH(
     if ('is_active' in body) {
       update.is_active = Boolean(body.is_active)
     }
+    if ('taxonomy' in body) {
+      const taxonomy = sanitizeTaxonomy(body.taxonomy)
+      if (!taxonomy) return NextResponse.json({ error: 'taxonomy needs a name and a categories list' }, { status: 400 })
+      update.taxonomy = taxonomy
+    }
+    if ('choice_count' in body) {
+      if (!isValidChoiceCount(body.choice_count)) {
+        return NextResponse.json({ error: `choice_count must be between ${MIN_CHOICES} and ${MAX_CHOICES}` }, { status: 400 })
+      }
+      update.choice_count = body.choice_count
+    }
+    if ('wrong_answer_penalty' in body) {
+      const penalty = body.wrong_answer_penalty
+      if (typeof penalty !== 'number' || !Number.isFinite(penalty) || penalty < 0 || penalty > 1) {
+        return NextResponse.json({ error: 'wrong_answer_penalty must be between 0 and 1' }, { status: 400 })
+      }
+      update.wrong_answer_penalty = penalty
+    }
+    if ('time_limit_minutes' in body) {
+      // Changes apply to attempts started afterwards; running ones keep their deadline
+      const limit = body.time_limit_minutes
+      if (limit !== null && (typeof limit !== 'number' || !Number.isInteger(limit) || limit < 1 || limit > MAX_TIME_LIMIT_MINUTES)) {
+        return NextResponse.json({ error: `time_limit_minutes must be 1–${MAX_TIME_LIMIT_MINUTES}, or null for untimed` }, { status: 400 })
+      }
+      update.time_limit_minutes = limit
+    }
+    if ('class_id' in body) {
+      // Linking to a class restricts the test to its signed-in, enrolled students
+      const classId = body.class_id
+      if (classId !== null) {
+        if (typeof classId !== 'string') return NextResponse.json({ error: 'class_id must be a class id or null' }, { status: 400 })
+        const { data: cls } = await createAdminClient()
+          .from('classes')
+          .select('id')
+          .eq('id', classId)
+          .eq('teacher_id', user.id)
+          .maybeSingle()
+        if (!cls) return NextResponse.json({ error: 'Class not found' }, { status: 404 })
+      }
+      update.class_id = classId
+    }
+    if ('duplicate_policy' in body) {
+      if (!isDuplicatePolicy(body.duplicate_policy)) {
+        return NextResponse.json({ error: 'duplicate_policy must be first, best or latest' }, { status: 400 })
+      }
+      update.duplicate_policy = body.duplicate_policy
+    }
     if ('answer_key' in body) {
-      const cleaned = sanitizeAnswerKey(body.answer_key)
+      // Checked against the taxonomy and choice count as they'll be after this update
+      const taxonomy = (update.taxonomy as Taxonomy | undefined) ?? resolveTaxonomy(owned.test.taxonomy)
+      const choiceCount = (update.choice_count as number | undefined) ?? owned.test.choice_count
+      const cleaned = sanitizeAnswerKey(body.answer_key, taxonomy, choiceCount)
       if (cleaned === null) return NextResponse.json({ error: 'Invalid answer_key shape' }, { status: 400 })
       update.answer_key = cleaned
     }
@@ -98,7 +156,7 @@ export async function PATCH(
       .update(update)
       .eq('id', id)
       .eq('teacher_id', user.id)
-      .select('id, title, description, answer_key, questions_content, share_token, results_share_token, is_active, created_at, updated_at')
+      .select(TEST_COLUMNS)
       .single()
 
     if (error || !data) {
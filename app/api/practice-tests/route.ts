@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { randomBytes } from 'crypto'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { TAXONOMY_PRESETS, TaxonomyPreset } from '@/lib/types/practice-test'
+import { resolveTaxonomy } from '@/lib/practice-test-scoring'
 
 const MAX_TITLE_LEN = 200
 
@@ -20,7 +22,7 @@ export async function GET(request: NextRequest) {
 
     const { data: tests, error } = await supabase
       .from('practice_tests')
-      .select('id, title, description, share_token, results_share_token, is_active, answer_key, created_at, updated_at')
+      .select('id, title, description, share_token, results_share_token, is_active, answer_key, taxonomy, created_at, updated_at')
       .eq('teacher_id', user.id)
       .order('created_at', { ascending: false })
 
@@ -60,6 +62,7 @@ export async function GET(request: NextRequest) {
         results_share_token: t.results_share_token,
         is_active: t.is_active,
         question_count: answerKeyCount,
+        taxonomy_name: resolveTaxonomy(t.taxonomy).name,
         submission_count: s?.count ?? 0,
         avg_score_pct: s && s.count > 0 ? s.totalPct / s.count : null,
         created_at: t.created_at,
@@ -88,6 +91,10 @@ export async function POST(request: NextRequest) {
     if (title.length > MAX_TITLE_LEN) return NextResponse.json({ error: 'Title too long' }, { status: 400 })
 
     const description = typeof body.description === 'string' ? body.description : null
+    // Starting categories; the teacher can edit them afterwards
+    const preset: TaxonomyPreset = typeof body.taxonomy_preset === 'string' && Object.hasOwn(TAXONOMY_PRESETS, body.taxonomy_preset)
+      ? body.taxonomy_preset as TaxonomyPreset
+      : 'ap_chem_big_ideas'
 
     const supabase = createAdminClient()
 
@@ -103,6 +110,7 @@ export async function POST(request: NextRequest) {
         teacher_id: user.id,
         title,
         description,
+        taxonomy: TAXONOMY_PRESETS[preset],
         share_token: newToken(),
         results_share_token: newToken(),
       })
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { finalizeAttempt, findAttempt, saveChanges } from '@/lib/practice-test-attempts'
+import { isPastDeadline, sanitizeChanges } from '@/lib/practice-test-timing'
+
+// Public: save the answer changes made since the last save:
+// { resumeToken, changes: [{ q, answer, at }], clientNow }. POST so the take
+// page can flush with navigator.sendBeacon as the tab closes. Once the time
+// is up this submits the attempt and returns the result instead.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ shareToken: string }> }
+) {
+  try {
+    const { shareToken } = await params
+    const body = await request.json().catch(() => ({}))
+    if (typeof body.resumeToken !== 'string') {
+      return NextResponse.json({ error: 'resumeToken is required' }, { status: 400 })
+    }
+
+    const attempt = await findAttempt(shareToken, body.resumeToken)
+    if (!attempt) return NextResponse.json({ error: 'Attempt not found' }, { status: 404 })
+    if (attempt.submitted_at) {
+      return NextResponse.json({ error: 'This attempt has already been submitted' }, { status: 409 })
+    }
+
+    const clientNow = typeof body.clientNow === 'number' ? body.clientNow : Date.now()
+    const saved = await saveChanges(attempt, sanitizeChanges(body.changes), clientNow)
+    if ('error' in saved) return NextResponse.json({ error: saved.error }, { status: 500 })
+
+    if (isPastDeadline(attempt.deadline_at, new Date())) {
+      const result = await finalizeAttempt(attempt.id)
+      if (!result) return NextResponse.json({ error: 'Failed to submit your answers' }, { status: 500 })
+      return NextResponse.json({ submitted: result })
+    }
+
+    return NextResponse.json({
+      savedAt: saved.attempt.last_saved_at,
+      serverNow: new Date().toISOString(),
+      dropped: saved.dropped,
+    })
+  } catch (error) {
+    console.error('Public autosave error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -15,7 +15,7 @@ export async function GET(
     const { data, error } = await supabase
       .from('practice_tests')
       // NOTE: do NOT select answer_key here. Project subset only.
-      .select('id, title, description, questions_content, is_active, answer_key')
+      .select('id, title, description, questions_content, is_active, answer_key, time_limit_minutes, class_id')
       .eq('share_token', shareToken)
       .maybeSingle()
     if (error || !data) return NextResponse.json({ error: 'Not found' }, { status: 404 })
@@ -32,6 +32,8 @@ export async function GET(
       questions_content: data.questions_content,
       is_active: data.is_active,
       question_count: questionCount,
+      time_limit_minutes: data.time_limit_minutes,
+      class_linked: !!data.class_id,
     }
     return NextResponse.json(payload)
   } catch (error) {
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import {
+  ATTEMPT_COLUMNS,
+  finalizeAttempt,
+  findAttempt,
+  findEnrolledStudent,
+  findOpenAttemptForStudent,
+  newResumeToken,
+  toSession,
+} from '@/lib/practice-test-attempts'
+import { deadlineFor, isPastDeadline } from '@/lib/practice-test-timing'
+
+const MAX_NAME_LEN = 80
+
+// Public: start an attempt ({ studentName }) or pick one back up after a
+// reload or dropped connection ({ resumeToken }). The server's clock starts
+// here; an attempt whose time has run out comes back already submitted.
+// Class-linked tests ignore studentName: the student must be signed in and
+// enrolled, and starting again resumes their open attempt on any device.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ shareToken: string }> }
+) {
+  try {
+    const { shareToken } = await params
+    if (!shareToken) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+
+    const body = await request.json().catch(() => ({}))
+
+    if (typeof body.resumeToken === 'string') {
+      const attempt = await findAttempt(shareToken, body.resumeToken)
+      if (!attempt) return NextResponse.json({ error: 'Attempt not found' }, { status: 404 })
+      // A shared computer may hold another student's class-linked attempt
+      if (attempt.student_id) {
+        const user = await getAuthenticatedUser(request)
+        if (user?.id !== attempt.student_id) {
+          return NextResponse.json({ error: 'Attempt not found' }, { status: 404 })
+        }
+      }
+
+      if (attempt.submitted_at || isPastDeadline(attempt.deadline_at, new Date())) {
+        const result = await finalizeAttempt(attempt.id)
+        if (!result) return NextResponse.json({ error: 'Failed to load your submission' }, { status: 500 })
+        return NextResponse.json({ studentName: attempt.student_name, submitted: result })
+      }
+      return NextResponse.json({ session: toSession(attempt, new Date()) })
+    }
+
+    const supabase = createAdminClient()
+    const { data: test, error: lookupError } = await supabase
+      .from('practice_tests')
+      .select('id, is_active, time_limit_minutes, class_id, duplicate_policy')
+      .eq('share_token', shareToken)
+      .maybeSingle()
+    if (lookupError || !test) return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    if (!test.is_active) return NextResponse.json({ error: 'This practice test is not currently accepting responses' }, { status: 410 })
+
+    let studentName: string
+    let studentId: string | null = null
+    if (test.class_id) {
+      const user = await getAuthenticatedUser(request)
+      if (!user) {
+        return NextResponse.json({ error: 'Sign in to your student account to take this practice test' }, { status: 401 })
+      }
+      const student = await findEnrolledStudent(user.id, test.class_id)
+      if (!student) {
+        return NextResponse.json({ error: 'This practice test is only open to students in its class' }, { status: 403 })
+      }
+      studentName = student.studentName
+      studentId = student.studentId
+
+      const open = await findOpenAttemptForStudent(test.id, studentId)
+      if (open) {
+        if (!isPastDeadline(open.deadline_at, new Date())) {
+          return NextResponse.json({ session: toSession(open, new Date()) })
+        }
+        await finalizeAttempt(open.id)
+      }
+
+      if (test.duplicate_policy === 'first') {
+        const { data: first } = await supabase
+          .from('practice_test_submissions')
+          .select('attempt_id')
+          .eq('practice_test_id', test.id)
+          .eq('student_id', studentId)
+          .order('submitted_at', { ascending: true })
+          .limit(1)
+          .maybeSingle()
+        if (first?.attempt_id) {
+          const result = await finalizeAttempt(first.attempt_id)
+          if (!result) return NextResponse.json({ error: 'Failed to load your submission' }, { status: 500 })
+          return NextResponse.json({ studentName, submitted: result })
+        }
+      }
+    } else {
+      studentName = typeof body.studentName === 'string' ? body.studentName.trim() : ''
+      if (!studentName) return NextResponse.json({ error: 'Please enter your name before starting' }, { status: 400 })
+      if (studentName.length > MAX_NAME_LEN) return NextResponse.json({ error: 'Name too long' }, { status: 400 })
+    }
+
+    const startedAt = new Date()
+    const deadline = deadlineFor(startedAt, test.time_limit_minutes)
+    const { data: attempt, error: insertError } = await supabase
+      .from('practice_test_attempts')
+      .insert({
+        practice_test_id: test.id,
+        student_name: studentName,
+        student_id: studentId,
+        resume_token: newResumeToken(),
+        started_at: startedAt.toISOString(),
+        deadline_at: deadline ? deadline.toISOString() : null,
+      })
+      .select(ATTEMPT_COLUMNS)
+      .single()
+    if (insertError || !attempt) {
+      console.error('Error starting practice test attempt:', insertError)
+      return NextResponse.json({ error: 'Failed to start the practice test' }, { status: 500 })
+    }
+
+    return NextResponse.json({ session: toSession(attempt, startedAt) }, { status: 201 })
+  } catch (error) {
+    console.error('Public start error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
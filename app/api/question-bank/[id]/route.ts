@@ -1,24 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient } from '@/lib/supabase-server'
 import { requireTeacher } from '@/lib/api-auth'
-import { validateQuestionInput, type QuestionRecord } from '@/lib/types/question-bank'
-
-// Fields captured in review-event snapshots (content, not counters)
-function snapshot(q: QuestionRecord) {
-  return {
-    type: q.type,
-    question_text: q.question_text,
-    options: q.options,
-    correct_answer: q.correct_answer,
-    explanation: q.explanation,
-    difficulty: q.difficulty,
-    status: q.status,
-  }
-}
+import { validateQuestionInput } from '@/lib/types/question-bank'
+import { CONTENT_FIELDS, contentSnapshot, sameContent } from '@/lib/mastery/versions'
 
 // PATCH - Edit a question and/or change its review status.
 // Status transitions on a 'suggested' question (approve/decline), and any
 // content edit, are recorded in question_review_events as tuning signal.
+// A change to the content also bumps the question's version.
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -42,8 +31,7 @@ export async function PATCH(
     const body = await request.json()
     const updates: Record<string, unknown> = {}
 
-    const contentFields = ['question_text', 'options', 'correct_answer', 'explanation', 'difficulty'] as const
-    for (const field of contentFields) {
+    for (const field of CONTENT_FIELDS) {
       if (field in body) updates[field] = body[field]
     }
 
@@ -76,6 +64,9 @@ export async function PATCH(
       return NextResponse.json({ error: validationError }, { status: 400 })
     }
 
+    const contentChanged = !sameContent(existing, merged)
+    if (contentChanged) updates.version = existing.version + 1
+
     const { data: updated, error: updateError } = await supabase
       .from('question_bank_questions')
       .update(updates)
@@ -87,17 +78,19 @@ export async function PATCH(
       return NextResponse.json({ error: 'Failed to update question' }, { status: 500 })
     }
 
-    // Record the review signal: explicit approve/decline of a suggestion, or
-    // a content edit (which counts as 'edit' — the richest signal of all).
-    const contentEdited = contentFields.some(f => f in body)
-    const action = statusChange ?? (contentEdited ? 'edit' : null)
+    // Record the review signal: a content edit (which counts as 'edit' — the
+    // richest signal of all, and the one version history is built from, even
+    // when the same save approves the suggestion; the snapshot keeps the new
+    // status), or else an explicit approve/decline of a suggestion.
+    const action = contentChanged ? 'edit' : statusChange
     if (action) {
       await supabase.from('question_review_events').insert({
         question_id: id,
         teacher_id: user.id,
         action,
-        before_snapshot: snapshot(existing),
-        after_snapshot: snapshot(updated),
+        before_snapshot: contentSnapshot(existing),
+        after_snapshot: contentSnapshot(updated),
+        version: updated.version,
       })
     }
 
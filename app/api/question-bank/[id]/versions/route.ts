@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+import { validateQuestionInput, type CorrectAnswer } from '@/lib/types/question-bank'
+import { buildVersionHistory, contentSnapshot, sameContent, type ReviewEvent } from '@/lib/mastery/versions'
+
+// GET - The question's version history, oldest first, rebuilt from
+// question_review_events.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const { id } = await params
+    const supabase = createAdminClient()
+
+    const { data: question } = await supabase
+      .from('question_bank_questions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+    if (!question || question.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+    }
+
+    const { data: events, error: eventsError } = await supabase
+      .from('question_review_events')
+      .select('id, action, before_snapshot, after_snapshot, version, created_at')
+      .eq('question_id', id)
+      .order('created_at', { ascending: true })
+    if (eventsError) {
+      return NextResponse.json({ error: 'Failed to fetch history' }, { status: 500 })
+    }
+
+    return NextResponse.json({ versions: buildVersionHistory((events ?? []) as ReviewEvent[], question) })
+  } catch (error) {
+    console.error('Question versions GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Restore an earlier version: { version }. The old content becomes a
+// new version (history is never rewritten), logged as a 'restore' event.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const { id } = await params
+    const { version } = (await request.json()) as { version?: number }
+    if (typeof version !== 'number') {
+      return NextResponse.json({ error: 'version is required' }, { status: 400 })
+    }
+
+    const supabase = createAdminClient()
+
+    const { data: existing } = await supabase
+      .from('question_bank_questions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle()
+    if (!existing || existing.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+    }
+
+    const { data: events } = await supabase
+      .from('question_review_events')
+      .select('id, action, before_snapshot, after_snapshot, version, created_at')
+      .eq('question_id', id)
+      .order('created_at', { ascending: true })
+
+    const target = buildVersionHistory((events ?? []) as ReviewEvent[], existing).find(v => v.version === version)
+    if (!target) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 })
+    }
+    if (sameContent(target.content, existing)) {
+      return NextResponse.json({ error: 'That version is already the current content' }, { status: 400 })
+    }
+
+    // The bank's rules may have tightened since; don't restore something invalid
+    const validationError = validateQuestionInput({
+      concept_id: existing.concept_id,
+      ...target.content,
+      correct_answer: target.content.correct_answer as CorrectAnswer,
+    })
+    if (validationError) {
+      return NextResponse.json({ error: `Can't restore version ${version}: ${validationError}` }, { status: 400 })
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from('question_bank_questions')
+      .update({
+        type: target.content.type,
+        question_text: target.content.question_text,
+        options: target.content.options,
+        correct_answer: target.content.correct_answer,
+        explanation: target.content.explanation,
+        difficulty: target.content.difficulty,
+        version: existing.version + 1,
+      })
+      .eq('id', id)
+      .select()
+      .single()
+
+    if (updateError) {
+      return NextResponse.json({ error: 'Failed to restore version' }, { status: 500 })
+    }
+
+    await supabase.from('question_review_events').insert({
+      question_id: id,
+      teacher_id: user.id,
+      action: 'restore',
+      before_snapshot: contentSnapshot(existing),
+      after_snapshot: contentSnapshot(updated),
+      version: updated.version,
+    })
+
+    return NextResponse.json({ question: updated })
+  } catch (error) {
+    console.error('Question restore error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+import { calibrateTeacherBank } from '@/lib/mastery/calibration'
+
+export const maxDuration = 60 // refits from full history; large banks take a while
+
+// POST - Recalibrate the teacher's whole bank: IRT difficulty/discrimination
+// per question (with outlier flags) and ability per student per concept.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const supabase = createAdminClient()
+    const summary = await calibrateTeacherBank(supabase, user.id)
+
+    return NextResponse.json(summary)
+  } catch (error) {
+    console.error('Question bank calibration error:', error)
+    return NextResponse.json({ error: 'Calibration failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+import { exportQuestions, INTERCHANGE_FORMATS, type InterchangeFormat } from '@/lib/interchange'
+
+// GET - Download approved questions as QTI 2.1 / GIFT / Moodle XML.
+// ?format= (required), ?concept_id= (optional; whole bank when absent).
+// Questions the format can't express are left out and counted in the
+// X-Export-Skipped header so the UI can say so.
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const { searchParams } = request.nextUrl
+    const format = searchParams.get('format') as InterchangeFormat | null
+    if (!format || !Object.hasOwn(INTERCHANGE_FORMATS, format)) {
+      return NextResponse.json({ error: 'format must be qti, gift or moodle_xml' }, { status: 400 })
+    }
+
+    const supabase = createAdminClient()
+    const conceptId = searchParams.get('concept_id')
+    let fileStem = 'question-bank'
+
+    if (conceptId) {
+      const { data: concept } = await supabase
+        .from('concepts')
+        .select('id, teacher_id, name')
+        .eq('id', conceptId)
+        .maybeSingle()
+      if (!concept || concept.teacher_id !== user.id) {
+        return NextResponse.json({ error: 'Concept not found' }, { status: 404 })
+      }
+      fileStem = concept.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'concept'
+    }
+
+    let query = supabase
+      .from('question_bank_questions')
+      .select('type, question_text, options, correct_answer, explanation, difficulty')
+      .eq('teacher_id', user.id)
+      .eq('status', 'approved')
+      .order('created_at', { ascending: true })
+    if (conceptId) query = query.eq('concept_id', conceptId)
+
+    const { data: questions, error: qError } = await query
+    if (qError) {
+      return NextResponse.json({ error: 'Failed to fetch questions' }, { status: 500 })
+    }
+    if (!questions?.length) {
+      return NextResponse.json({ error: 'No approved questions to export' }, { status: 404 })
+    }
+
+    const { body, skipped } = exportQuestions(format, questions)
+    const { extension, mime } = INTERCHANGE_FORMATS[format]
+
+    return new NextResponse(typeof body === 'string' ? body : new Uint8Array(body), {
+      status: 200,
+      headers: {
+        'Content-Type': mime,
+        'Content-Disposition': `attachment; filename="${fileStem}.${extension}"`,
+        'X-Export-Skipped': String(skipped.length),
+      },
+    })
+  } catch (error) {
+    console.error('Question bank export error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
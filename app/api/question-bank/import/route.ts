@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+import { OPTION_TYPES } from '@/lib/types/question-bank'
+import {
+  detectFormat,
+  INTERCHANGE_FORMATS,
+  parseImport,
+  validateCandidate,
+  type InterchangeFormat,
+  type PortableQuestion,
+} from '@/lib/interchange'
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024
+const MAX_ITEMS = 500
+
+interface ImportBody {
+  concept_id?: string
+  questions?: PortableQuestion[]
+}
+
+// POST - Two steps, told apart by content type:
+//   multipart/form-data (file, format?) → preview: every item in the file,
+//     mapped and validated, nothing saved
+//   application/json { concept_id, questions } → save the items the teacher
+//     kept from the preview (re-validated; source='imported', status='approved')
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file') as File | null
+      if (!file) {
+        return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+      }
+      if (file.size > MAX_FILE_BYTES) {
+        return NextResponse.json({ error: 'File must be less than 5MB' }, { status: 400 })
+      }
+
+      const bytes = new Uint8Array(await file.arrayBuffer())
+      const requested = formData.get('format') as InterchangeFormat | null
+      const format = requested && Object.hasOwn(INTERCHANGE_FORMATS, requested) ? requested : detectFormat(file.name, bytes)
+      if (!format) {
+        return NextResponse.json({ error: 'Unrecognised file — upload a QTI zip, GIFT .txt or Moodle XML file' }, { status: 400 })
+      }
+
+      let items
+      try {
+        items = parseImport(format, bytes)
+      } catch (err) {
+        return NextResponse.json({ error: `Couldn't read the file: ${(err as Error).message}` }, { status: 422 })
+      }
+      if (items.length > MAX_ITEMS) {
+        return NextResponse.json({ error: `Files are limited to ${MAX_ITEMS} questions` }, { status: 400 })
+      }
+
+      return NextResponse.json({ format, items })
+    }
+
+    const body = (await request.json()) as ImportBody
+    const questions = Array.isArray(body.questions) ? body.questions : []
+    if (!body.concept_id || questions.length === 0) {
+      return NextResponse.json({ error: 'concept_id and at least one question are required' }, { status: 400 })
+    }
+    if (questions.length > MAX_ITEMS) {
+      return NextResponse.json({ error: `Imports are limited to ${MAX_ITEMS} questions` }, { status: 400 })
+    }
+
+    // The preview already validated these, but the client sent them back
+    for (const [i, question] of questions.entries()) {
+      const checked = validateCandidate({ ref: `Question ${i + 1}`, question, error: null })
+      if (checked.error) {
+        return NextResponse.json({ error: `${checked.ref}: ${checked.error}` }, { status: 400 })
+      }
+    }
+
+    const supabase = createAdminClient()
+
+    const { data: concept } = await supabase
+      .from('concepts')
+      .select('id, teacher_id')
+      .eq('id', body.concept_id)
+      .maybeSingle()
+    if (!concept || concept.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Concept not found' }, { status: 404 })
+    }
+
+    const rows = questions.map(q => ({
+      teacher_id: user.id,
+      concept_id: concept.id,
+      type: q.type,
+      question_text: q.question_text.trim(),
+      options: OPTION_TYPES.includes(q.type) ? q.options : null,
+      correct_answer: q.correct_answer,
+      explanation: q.explanation?.trim() || null,
+      difficulty: [1, 2, 3].includes(q.difficulty as number) ? q.difficulty : 2,
+      source: 'imported',
+      status: 'approved',
+    }))
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('question_bank_questions')
+      .insert(rows)
+      .select('id')
+
+    if (insertError) {
+      return NextResponse.json({ error: 'Failed to import questions' }, { status: 500 })
+    }
+
+    return NextResponse.json({ imported: inserted?.length ?? 0 }, { status: 201 })
+  } catch (error) {
+    console.error('Question bank import error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
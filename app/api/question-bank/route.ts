@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient } from '@/lib/supabase-server'
 import { requireTeacher } from '@/lib/api-auth'
-import { validateQuestionInput, type QuestionInput } from '@/lib/types/question-bank'
+import { OPTION_TYPES, validateQuestionInput, type QuestionInput } from '@/lib/types/question-bank'
 
 // GET - List the teacher's questions. Filters: ?concept_id=, ?status=, ?source=
 export async function GET(request: NextRequest) {
@@ -71,7 +71,7 @@ export async function POST(request: NextRequest) {
         concept_id: body.concept_id,
         type: body.type,
         question_text: body.question_text.trim(),
-        options: body.type === 'multiple_choice' ? body.options : null,
+        options: OPTION_TYPES.includes(body.type) ? body.options : null,
         correct_answer: body.correct_answer,
         explanation: body.explanation?.trim() || null,
         difficulty,
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient } from '@/lib/supabase-server'
 import { requireTeacher } from '@/lib/api-auth'
-import { generateMasteryQuestions } from '@/lib/mastery/ai'
+import { AI_QUESTION_TYPES, generateMasteryQuestions } from '@/lib/mastery/ai'
 import type { QuestionType } from '@/lib/types/question-bank'
 
 export const maxDuration = 120 // one Claude call per concept
@@ -12,7 +12,7 @@ interface SuggestBody {
   allowed_types?: QuestionType[]
 }
 
-const VALID_TYPES: QuestionType[] = ['multiple_choice', 'true_false', 'short_answer']
+const VALID_TYPES: QuestionType[] = [...AI_QUESTION_TYPES]
 
 // POST - Generate AI question suggestions for one or more concepts.
 // Inserted as status='suggested' — nothing reaches students until the teacher
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+
+// DELETE - Remove a saved rubric. Assignments that used it keep their copy.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: rubric } = await supabase
+      .from('rubrics')
+      .select('id, teacher_id')
+      .eq('id', id)
+      .maybeSingle()
+    if (!rubric || rubric.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Rubric not found' }, { status: 404 })
+    }
+
+    const { error: deleteError } = await supabase.from('rubrics').delete().eq('id', id)
+    if (deleteError) return NextResponse.json({ error: 'Failed to delete rubric' }, { status: 500 })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Rubric DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
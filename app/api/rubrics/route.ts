@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient } from '@/lib/supabase-server'
+import { requireTeacher } from '@/lib/api-auth'
+import { sanitizeRubric, validateRubric } from '@/lib/grading/rubric'
+
+const MAX_NAME_LEN = 120
+
+// GET - Rubrics the teacher can reuse: their saved rubrics, then the rubrics
+// on their assignments (newest first), so one can be copied into another
+// assignment without saving it first.
+export async function GET(request: NextRequest) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const supabase = createAdminClient()
+    const [savedRes, assignmentsRes] = await Promise.all([
+      supabase
+        .from('rubrics')
+        .select('id, name, rubric, updated_at')
+        .eq('teacher_id', user.id)
+        .order('updated_at', { ascending: false }),
+      supabase
+        .from('assignments')
+        .select('id, title, rubric, updated_at')
+        .eq('teacher_id', user.id)
+        .not('rubric', 'is', null)
+        .order('updated_at', { ascending: false })
+        .limit(50),
+    ])
+    if (savedRes.error || assignmentsRes.error) {
+      return NextResponse.json({ error: 'Failed to fetch rubrics' }, { status: 500 })
+    }
+
+    const saved = (savedRes.data ?? []).flatMap(r => {
+      const rubric = sanitizeRubric(r.rubric)
+      return rubric ? [{ id: r.id, name: r.name, rubric, source: 'saved' as const }] : []
+    })
+    const fromAssignments = (assignmentsRes.data ?? []).flatMap(a => {
+      const rubric = sanitizeRubric(a.rubric)
+      return rubric ? [{ id: a.id, name: a.title, rubric, source: 'assignment' as const }] : []
+    })
+
+    return NextResponse.json({ rubrics: [...saved, ...fromAssignments] })
+  } catch (error) {
+    console.error('Rubrics GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Save a rubric to the teacher's library. Body { name, rubric }.
+export async function POST(request: NextRequest) {
+  try {
+    const { user, error } = await requireTeacher(request)
+    if (error) return error
+
+    const body = await request.json()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+    if (!name) return NextResponse.json({ error: 'Rubric name is required' }, { status: 400 })
+    if (name.length > MAX_NAME_LEN) return NextResponse.json({ error: 'Rubric name too long' }, { status: 400 })
+
+    const checked = validateRubric(body.rubric)
+    if (!checked.ok) return NextResponse.json({ error: `Invalid rubric: ${checked.error}` }, { status: 400 })
+
+    const supabase = createAdminClient()
+    const { data: created, error: insertError } = await supabase
+      .from('rubrics')
+      .insert({ teacher_id: user.id, name, rubric: checked.rubric })
+      .select('id, name, rubric, updated_at')
+      .single()
+    if (insertError || !created) {
+      console.error('Error saving rubric:', insertError)
+      return NextResponse.json({ error: 'Failed to save rubric' }, { status: 500 })
+    }
+
+    return NextResponse.json({ rubric: { ...created, source: 'saved' } }, { status: 201 })
+  } catch (error) {
+    console.error('Rubrics POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { latestRevisionId } from '@/lib/revisions/store'
 
 // GET - fetch class IDs this guide is currently assigned to (teacher/owner only)
 export async function GET(
@@ -73,15 +74,19 @@ export async function POST(
       return NextResponse.json({ error: 'You do not own all specified classes' }, { status: 403 })
     }
 
+    // New assignments see the guide as it is now; classes that already have
+    // it keep the version they were given until the teacher pushes an update
+    const revisionId = await latestRevisionId(supabase, id)
     const rows = classIds.map(class_id => ({
       study_guide_id: id,
       class_id,
       assigned_by: user.id,
+      revision_id: revisionId,
     }))
 
     const { error } = await supabase
       .from('study_guide_assignments')
-      .upsert(rows, { onConflict: 'study_guide_id,class_id' })
+      .upsert(rows, { onConflict: 'study_guide_id,class_id', ignoreDuplicates: true })
 
     if (error) {
       console.error('Assign error:', error)
@@ -94,6 +99,53 @@ export async function POST(
   }
 }
 
+// PATCH - push the guide's latest revision to classes it's assigned to:
+// { classIds? } (default: every class)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const body = await request.json().catch(() => ({}))
+    const classIds: string[] | null = Array.isArray(body?.classIds) ? body.classIds : null
+
+    const supabase = createAdminClient()
+
+    const { data: guide } = await supabase
+      .from('study_guides')
+      .select('user_id')
+      .eq('id', id)
+      .single()
+
+    if (!guide) return NextResponse.json({ error: 'Study guide not found' }, { status: 404 })
+    if (guide.user_id !== user.id) return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+
+    const revisionId = await latestRevisionId(supabase, id)
+    if (!revisionId) return NextResponse.json({ error: 'This guide has no saved versions to push' }, { status: 400 })
+
+    let query = supabase
+      .from('study_guide_assignments')
+      .update({ revision_id: revisionId })
+      .eq('study_guide_id', id)
+    if (classIds) query = query.in('class_id', classIds)
+
+    const { data, error } = await query.select('class_id')
+
+    if (error) {
+      console.error('Push update error:', error)
+      return NextResponse.json({ error: 'Failed to push update' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, revisionId, classIds: (data ?? []).map(r => r.class_id) })
+  } catch {
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
 // DELETE - unassign guide from a single class (?class_id=X)
 export async function DELETE(
   request: NextRequest,
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+
+// DELETE - Remove a co-editor. The owner can remove anyone; a co-editor can
+// remove themselves.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; userId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id, userId } = await params
+    const supabase = createAdminClient()
+    const { data: guide } = await supabase
+      .from('study_guides').select('id, user_id').eq('id', id).maybeSingle()
+    if (!guide) return NextResponse.json({ error: 'Study guide not found' }, { status: 404 })
+    if (guide.user_id !== user.id && userId !== user.id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const { data: removed, error } = await supabase
+      .from('study_guide_collaborators')
+      .delete()
+      .eq('study_guide_id', id)
+      .eq('user_id', userId)
+      .select('id')
+    if (error) {
+      console.error('Error removing co-editor:', error)
+      return NextResponse.json({ error: 'Failed to remove co-editor' }, { status: 500 })
+    }
+    if (!removed?.length) return NextResponse.json({ error: 'Co-editor not found' }, { status: 404 })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Collaborators DELETE error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
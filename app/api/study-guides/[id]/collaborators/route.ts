@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { guideRole, profileName } from '@/lib/collab/access'
+import { EmailService } from '@/lib/email-service'
+
+const PROFILE_COLUMNS = 'id, email, display_name, first_name, last_name'
+
+// GET - The guide's owner and co-editors, for anyone who can edit it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: guide } = await supabase
+      .from('study_guides').select('id, user_id').eq('id', id).maybeSingle()
+    if (!guide) return NextResponse.json({ error: 'Study guide not found' }, { status: 404 })
+    const role = await guideRole(supabase, id, user.id)
+    if (!role) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const { data: rows, error } = await supabase
+      .from('study_guide_collaborators')
+      .select('user_id, created_at')
+      .eq('study_guide_id', id)
+      .order('created_at')
+    if (error) return NextResponse.json({ error: 'Failed to fetch co-editors' }, { status: 500 })
+
+    const { data: profiles } = await supabase
+      .from('user_profiles')
+      .select(PROFILE_COLUMNS)
+      .in('id', [guide.user_id, ...(rows ?? []).map(r => r.user_id)])
+    const byId = new Map((profiles ?? []).map(p => [p.id, p]))
+    const person = (userId: string) => ({
+      userId,
+      name: profileName(byId.get(userId) ?? null),
+      email: byId.get(userId)?.email ?? null,
+    })
+
+    return NextResponse.json({
+      role,
+      owner: person(guide.user_id),
+      collaborators: (rows ?? []).map(r => ({ ...person(r.user_id), addedAt: r.created_at })),
+    })
+  } catch (error) {
+    console.error('Collaborators GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// POST - Invite a teacher to co-edit the guide. Body { email }. Owner only;
+// the teacher needs an account, and is emailed a link to the editor.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: guide } = await supabase
+      .from('study_guides').select('id, user_id, title').eq('id', id).maybeSingle()
+    if (!guide) return NextResponse.json({ error: 'Study guide not found' }, { status: 404 })
+    if (guide.user_id !== user.id) {
+      return NextResponse.json({ error: 'Only the guide owner can invite co-editors' }, { status: 403 })
+    }
+
+    const { email } = await request.json() as { email?: unknown }
+    const address = typeof email === 'string' ? email.trim().toLowerCase() : ''
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+      return NextResponse.json({ error: 'Enter a valid email address' }, { status: 400 })
+    }
+
+    const { data: invitee } = await supabase
+      .from('user_profiles')
+      .select(`${PROFILE_COLUMNS}, user_type`)
+      .eq('email', address)
+      .maybeSingle()
+    if (!invitee) {
+      return NextResponse.json({ error: `No CasanovaStudy account uses ${address} — ask them to sign up first` }, { status: 404 })
+    }
+    if (invitee.id === user.id) {
+      return NextResponse.json({ error: 'You already own this guide' }, { status: 400 })
+    }
+    if (invitee.user_type !== 'teacher') {
+      return NextResponse.json({ error: 'Only teachers can co-edit guides' }, { status: 400 })
+    }
+
+    const { data: existing } = await supabase
+      .from('study_guide_collaborators')
+      .select('id')
+      .eq('study_guide_id', id)
+      .eq('user_id', invitee.id)
+      .maybeSingle()
+    if (existing) {
+      return NextResponse.json({ error: `${profileName(invitee)} can already edit this guide` }, { status: 409 })
+    }
+
+    const { data: row, error } = await supabase
+      .from('study_guide_collaborators')
+      .insert({ study_guide_id: id, user_id: invitee.id, invited_by: user.id })
+      .select('user_id, created_at')
+      .single()
+    if (error || !row) {
+      console.error('Error adding co-editor:', error)
+      return NextResponse.json({ error: 'Failed to add co-editor' }, { status: 500 })
+    }
+
+    const { data: inviter } = await supabase
+      .from('user_profiles').select(PROFILE_COLUMNS).eq('id', user.id).maybeSingle()
+    const emailed = await new EmailService().sendGuideInvite({
+      to: address,
+      inviterName: profileName(inviter ?? { email: user.email }),
+      guideTitle: guide.title,
+      editUrl: `${request.nextUrl.origin}/create-guide?edit=${id}`,
+    })
+
+    return NextResponse.json({
+      collaborator: { userId: row.user_id, name: profileName(invitee), email: invitee.email, addedAt: row.created_at },
+      emailed,
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Collaborators POST error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
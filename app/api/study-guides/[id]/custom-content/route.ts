@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createRouteHandlerClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { createAdminClient, createRouteHandlerClient, getAuthenticatedUser } from '@/lib/supabase-server'
 import { CustomGuideContent } from '@/lib/types/custom-guide'
+import { guideRole } from '@/lib/collab/access'
+import { recordRevision } from '@/lib/revisions/store'
 
 export async function PUT(
   request: NextRequest,
@@ -10,22 +12,20 @@ export async function PUT(
     const { id } = await params
 
     const body = await request.json()
-    const { title, subject, gradeLevel, className, customContent, userId: bodyUserId } = body as {
+    const { title, subject, gradeLevel, className, customContent, draft } = body as {
       title?: string
       subject?: string
       gradeLevel?: string
       className?: string
       customContent: CustomGuideContent
-      userId?: string
+      // Autosave: store as the guide's draft and leave the guide itself alone
+      draft?: boolean
     }
 
-    // Get userId from request body or fall back to cookie auth
-    let userId: string | null = bodyUserId || null
-
-    if (!userId) {
-      const cookieUser = await getAuthenticatedUser(request)
-      userId = cookieUser?.id || null
-    }
+    // Drafts and co-editor access go through the service role, so the
+    // caller must be the signed-in user rather than an id they send
+    const cookieUser = await getAuthenticatedUser(request)
+    const userId = cookieUser?.id || null
 
     if (!userId) {
       return NextResponse.json(
@@ -44,7 +44,7 @@ export async function PUT(
 
     const supabase = createRouteHandlerClient(request)
 
-    // First verify the user owns this study guide
+    // First verify the user owns or co-edits this study guide
     const { data: guide, error: fetchError } = await supabase
       .from('study_guides')
       .select('user_id, format')
@@ -58,13 +58,35 @@ export async function PUT(
       )
     }
 
-    if (guide.user_id !== userId) {
+    if (guide.user_id !== userId && !(await guideRole(createAdminClient(), id, userId))) {
       return NextResponse.json(
         { error: 'You do not have permission to edit this study guide' },
         { status: 403 }
       )
     }
 
+    if (draft) {
+      const savedAt = new Date().toISOString()
+      const { error: draftError } = await createAdminClient()
+        .from('study_guide_drafts')
+        .upsert({
+          study_guide_id: id,
+          user_id: userId,
+          content: { title, subject, gradeLevel, className, customContent },
+          saved_at: savedAt
+        }, { onConflict: 'study_guide_id,user_id' })
+
+      if (draftError) {
+        console.error('Error saving draft:', draftError)
+        return NextResponse.json(
+          { error: 'Failed to save draft' },
+          { status: 500 }
+        )
+      }
+
+      return NextResponse.json({ success: true, draftSavedAt: savedAt })
+    }
+
     // Build update object
     const updates: Record<string, unknown> = {
       custom_content: customContent,
@@ -87,13 +109,17 @@ export async function PUT(
       updates.class_name = className || null
     }
 
-    // Update the study guide
-    const { error: updateError } = await supabase
+    // Update the study guide. Co-editors have no UPDATE policy of their own
+    // (it would let them change any column), so the checked save goes
+    // through the service role and only touches the fields above.
+    const { data: saved, error: updateError } = await createAdminClient()
       .from('study_guides')
       .update(updates)
       .eq('id', id)
+      .select('title, subject, grade_level, class_name')
+      .single()
 
-    if (updateError) {
+    if (updateError || !saved) {
       console.error('Error updating custom guide:', updateError)
       return NextResponse.json(
         { error: 'Failed to update study guide' },
@@ -101,9 +127,31 @@ export async function PUT(
       )
     }
 
+    // The guide now holds everything this editor's draft did
+    await createAdminClient()
+      .from('study_guide_drafts')
+      .delete()
+      .eq('study_guide_id', id)
+      .eq('user_id', userId)
+
+    // Keep this save in the guide's history. The guide is saved either way.
+    let revision: number | null = null
+    try {
+      revision = (await recordRevision(createAdminClient(), id, userId, {
+        title: saved.title,
+        subject: saved.subject,
+        gradeLevel: saved.grade_level,
+        className: saved.class_name,
+        customContent
+      })).number
+    } catch (revisionError) {
+      console.error('Error recording revision:', revisionError)
+    }
+
     return NextResponse.json({
       success: true,
       studyGuideId: id,
+      revision,
       studyGuideUrl: `/study-guide/${id}`
     })
 
@@ -124,14 +172,8 @@ export async function GET(
   try {
     const { id } = await params
 
-    // Get userId from query param or fall back to cookie auth
-    const { searchParams } = new URL(request.url)
-    let userId: string | null = searchParams.get('userId')
-
-    if (!userId) {
-      const cookieUser = await getAuthenticatedUser(request)
-      userId = cookieUser?.id || null
-    }
+    const cookieUser = await getAuthenticatedUser(request)
+    const userId = cookieUser?.id || null
 
     if (!userId) {
       return NextResponse.json(
@@ -156,14 +198,23 @@ export async function GET(
       )
     }
 
-    // Verify ownership
-    if (guide.user_id !== userId) {
+    // Verify the user owns or co-edits it
+    const role = guide.user_id === userId ? 'owner' : await guideRole(createAdminClient(), id, userId)
+    if (!role) {
       return NextResponse.json(
         { error: 'You do not have permission to edit this study guide' },
         { status: 403 }
       )
     }
 
+    // An autosaved draft left behind when this editor closed without saving
+    const { data: draft } = await createAdminClient()
+      .from('study_guide_drafts')
+      .select('content, saved_at')
+      .eq('study_guide_id', id)
+      .eq('user_id', userId)
+      .maybeSingle()
+
     return NextResponse.json({
       id: guide.id,
       title: guide.title,
@@ -171,7 +222,9 @@ export async function GET(
       gradeLevel: guide.grade_level,
       className: guide.class_name,
       format: guide.format,
-      customContent: guide.custom_content
+      customContent: guide.custom_content,
+      role,
+      draft: draft ? { ...draft.content, savedAt: draft.saved_at } : null
     })
 
   } catch (error) {
@@ -182,3 +235,47 @@ export async function GET(
     )
   }
 }
+
+// DELETE - Discard the caller's autosaved draft of the guide
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+
+    const cookieUser = await getAuthenticatedUser(request)
+    const userId = cookieUser?.id || null
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Each editor's draft is their own, so this only ever discards the caller's
+    const { error } = await createAdminClient()
+      .from('study_guide_drafts')
+      .delete()
+      .eq('study_guide_id', id)
+      .eq('user_id', userId)
+
+    if (error) {
+      console.error('Error discarding draft:', error)
+      return NextResponse.json(
+        { error: 'Failed to discard draft' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Discard draft error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { guideRole } from '@/lib/collab/access'
+import { recordRevision, revisionSnapshot, type GuideRevisionRecord } from '@/lib/revisions/store'
+
+// POST - Start a new guide from a revision: { title? }. The new guide belongs
+// to whoever forked it and starts its own history; the original is untouched.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id, revisionId } = await params
+    const supabase = createAdminClient()
+    if (!(await guideRole(supabase, id, user.id))) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const { data: revision } = await supabase
+      .from('study_guide_revisions')
+      .select('*')
+      .eq('id', revisionId)
+      .eq('study_guide_id', id)
+      .maybeSingle()
+    if (!revision) return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+
+    const body = await request.json().catch(() => ({})) as { title?: unknown }
+    const snapshot = revisionSnapshot(revision as GuideRevisionRecord)
+    const title = (typeof body.title === 'string' && body.title.trim()) || `${snapshot.title} (copy)`
+
+    const { data: guide, error } = await supabase
+      .from('study_guides')
+      .insert({
+        user_id: user.id,
+        title,
+        subject: snapshot.subject,
+        grade_level: snapshot.gradeLevel,
+        format: 'custom',
+        content: `Custom study guide: ${title}`,
+        custom_content: snapshot.customContent,
+        class_name: snapshot.className,
+        file_count: 0
+      })
+      .select('id')
+      .single()
+
+    if (error || !guide) {
+      console.error('Error forking revision:', error)
+      return NextResponse.json({ error: 'Failed to create study guide' }, { status: 500 })
+    }
+
+    try {
+      await recordRevision(supabase, guide.id, user.id, { ...snapshot, title })
+    } catch (revisionError) {
+      console.error('Error recording revision:', revisionError)
+    }
+
+    return NextResponse.json({
+      success: true,
+      studyGuideId: guide.id,
+      editUrl: `/create-guide?edit=${guide.id}`
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Revision fork error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
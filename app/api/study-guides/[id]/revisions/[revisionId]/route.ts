@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { guideRole } from '@/lib/collab/access'
+import { revisionSnapshot, type GuideRevisionRecord } from '@/lib/revisions/store'
+
+const MAX_NAME_LENGTH = 100
+
+// GET - One revision with its content, for comparing or restoring it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id, revisionId } = await params
+    const supabase = createAdminClient()
+    if (!(await guideRole(supabase, id, user.id))) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const { data: revision } = await supabase
+      .from('study_guide_revisions')
+      .select('*')
+      .eq('id', revisionId)
+      .eq('study_guide_id', id)
+      .maybeSingle()
+    if (!revision) return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+
+    return NextResponse.json({
+      id: revision.id,
+      number: revision.number,
+      name: revision.name,
+      snapshot: revisionSnapshot(revision as GuideRevisionRecord),
+    })
+  } catch (error) {
+    console.error('Revision GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+// PATCH - Name a revision, e.g. "Fall 2026 version": { name }. An empty name clears it.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; revisionId: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id, revisionId } = await params
+    const supabase = createAdminClient()
+    if (!(await guideRole(supabase, id, user.id))) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    const { name } = await request.json() as { name?: unknown }
+    if (name !== null && typeof name !== 'string') {
+      return NextResponse.json({ error: 'name must be a string' }, { status: 400 })
+    }
+    const trimmed = name?.trim() || null
+    if (trimmed && trimmed.length > MAX_NAME_LENGTH) {
+      return NextResponse.json({ error: `Names can be at most ${MAX_NAME_LENGTH} characters` }, { status: 400 })
+    }
+
+    const { data: updated, error } = await supabase
+      .from('study_guide_revisions')
+      .update({ name: trimmed })
+      .eq('id', revisionId)
+      .eq('study_guide_id', id)
+      .select('id, name')
+    if (error) {
+      console.error('Error naming revision:', error)
+      return NextResponse.json({ error: 'Failed to name revision' }, { status: 500 })
+    }
+    if (!updated?.length) return NextResponse.json({ error: 'Revision not found' }, { status: 404 })
+
+    return NextResponse.json({ revision: updated[0] })
+  } catch (error) {
+    console.error('Revision PATCH error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { guideRole, profileName } from '@/lib/collab/access'
+
+// GET - The guide's revisions, newest first, without their content, and (for
+// the owner) which revision each class it's assigned to sees.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const supabase = createAdminClient()
+    const { data: guide } = await supabase
+      .from('study_guides').select('id, user_id').eq('id', id).maybeSingle()
+    if (!guide) return NextResponse.json({ error: 'Study guide not found' }, { status: 404 })
+    const role = await guideRole(supabase, id, user.id)
+    if (!role) return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+
+    const { data: rows, error } = await supabase
+      .from('study_guide_revisions')
+      .select('id, number, name, title, created_by, created_at')
+      .eq('study_guide_id', id)
+      .order('number', { ascending: false })
+    if (error) return NextResponse.json({ error: 'Failed to fetch revisions' }, { status: 500 })
+
+    const authorIds = [...new Set((rows ?? []).flatMap(r => (r.created_by ? [r.created_by] : [])))]
+    const { data: profiles } = authorIds.length
+      ? await supabase.from('user_profiles').select('id, email, display_name, first_name, last_name').in('id', authorIds)
+      : { data: [] }
+    const byId = new Map((profiles ?? []).map(p => [p.id, p]))
+
+    let classes: Array<{ classId: string; name: string; revisionId: string | null }> = []
+    if (role === 'owner') {
+      const { data: assignments } = await supabase
+        .from('study_guide_assignments')
+        .select('class_id, revision_id, classes ( name )')
+        .eq('study_guide_id', id)
+      classes = (assignments ?? []).map(a => ({
+        classId: a.class_id,
+        name: (a.classes as unknown as { name: string } | null)?.name ?? 'Class',
+        revisionId: a.revision_id,
+      }))
+    }
+
+    return NextResponse.json({
+      role,
+      revisions: (rows ?? []).map(r => ({
+        id: r.id,
+        number: r.number,
+        name: r.name,
+        title: r.title,
+        createdAt: r.created_at,
+        author: r.created_by ? profileName(byId.get(r.created_by) ?? null) : null,
+      })),
+      classes,
+    })
+  } catch (error) {
+    console.error('Revisions GET error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createRouteHandlerClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { createAdminClient, createRouteHandlerClient, getAuthenticatedUser } from '@/lib/supabase-server'
 import { CustomGuideContent } from '@/lib/types/custom-guide'
+import { recordRevision } from '@/lib/revisions/store'
 
 export async function POST(request: NextRequest) {
   try {
@@ -60,7 +61,7 @@ export async function POST(request: NextRequest) {
         class_name: className || null,
         file_count: 0
       })
-      .select('id')
+      .select('id, title, subject, grade_level, class_name')
       .single()
 
     if (error) {
@@ -71,6 +72,19 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Revision 1 of the guide's history
+    try {
+      await recordRevision(createAdminClient(), guide.id, userId, {
+        title: guide.title,
+        subject: guide.subject,
+        gradeLevel: guide.grade_level,
+        className: guide.class_name,
+        customContent
+      })
+    } catch (revisionError) {
+      console.error('Error recording revision:', revisionError)
+    }
+
     return NextResponse.json({
       success: true,
       studyGuideId: guide.id,
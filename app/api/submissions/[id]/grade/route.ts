@@ -1,12 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
-import { gradeSubmission } from '@/lib/submission-grading'
-
-export const maxDuration = 300
+import { enqueueSubmissionGrading } from '@/lib/jobs/handlers'
 
 // POST - Teacher manually triggers (or re-triggers) AI grading for a submission.
-// Loads files from Cloudinary URLs and internally calls /api/grade-exam, then
-// links the resulting grading_result back to the submission.
+// Grading runs in a background job (see gradeSubmission); responds 202 with
+// the job id and the submission shows 'grading' until it finishes.
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -20,29 +18,40 @@ export async function POST(
 
     const { data: submission } = await supabase
       .from('assignment_submissions')
-      .select('id, assignment_id')
+      .select('id, assignment_id, student_id, file_urls')
       .eq('id', id)
       .maybeSingle()
     if (!submission) return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
 
     const { data: assignment } = await supabase
-      .from('assignments').select('teacher_id').eq('id', submission.assignment_id).maybeSingle()
+      .from('assignments').select('teacher_id, title, mark_scheme_url, rubric').eq('id', submission.assignment_id).maybeSingle()
     if (!assignment || assignment.teacher_id !== user.id) {
       return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
     }
 
-    try {
-      const { gradingResultId } = await gradeSubmission(id)
-      return NextResponse.json({ success: true, grading_result_id: gradingResultId })
-    } catch (gradingError) {
-      console.error('Grading error:', gradingError)
-      const message = gradingError instanceof Error ? gradingError.message : 'Grading failed'
-      await supabase
-        .from('assignment_submissions')
-        .update({ status: 'failed', grading_error: message })
-        .eq('id', id)
-      return NextResponse.json({ error: message }, { status: 500 })
+    if (!assignment.mark_scheme_url && !assignment.rubric) {
+      return NextResponse.json({ error: 'Assignment has no mark scheme or rubric — add one before grading' }, { status: 400 })
+    }
+    if (!Array.isArray(submission.file_urls) || submission.file_urls.length === 0) {
+      return NextResponse.json({ error: 'Submission has no files' }, { status: 400 })
     }
+
+    const { data: student } = await supabase
+      .from('user_profiles').select('first_name, last_name, email').eq('id', submission.student_id).maybeSingle()
+    const studentName = student
+      ? [student.first_name, student.last_name].filter(Boolean).join(' ') || student.email
+      : 'student'
+
+    await supabase
+      .from('assignment_submissions')
+      .update({ status: 'grading', grading_error: null })
+      .eq('id', id)
+    const { job } = await enqueueSubmissionGrading(supabase, {
+      submissionId: id,
+      teacherId: user.id,
+      label: `${assignment.title} — ${studentName}`,
+    })
+    return NextResponse.json({ success: true, job_id: job.id }, { status: 202 })
   } catch (error) {
     console.error('Grade submission error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
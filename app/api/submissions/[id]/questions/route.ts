@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { reviewQuestion } from '@/lib/grading/review-queue'
+
+// PATCH - Teacher reviews one question of a graded submission.
+// Body { question_number, marks_awarded?, feedback? }: leave both out to
+// accept the grader's mark, send either to adjust it. Every review is logged
+// to grading_overrides with the marks and feedback before and after.
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const user = await getAuthenticatedUser(request)
+    if (!user) return NextResponse.json({ error: 'You must be logged in' }, { status: 401 })
+
+    const { id } = await params
+    const body = await request.json()
+    const supabase = createAdminClient()
+
+    const { data: submission } = await supabase
+      .from('assignment_submissions')
+      .select('id, assignment_id')
+      .eq('id', id)
+      .maybeSingle()
+    if (!submission) return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+
+    const { data: assignment } = await supabase
+      .from('assignments').select('teacher_id').eq('id', submission.assignment_id).maybeSingle()
+    if (!assignment || assignment.teacher_id !== user.id) {
+      return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
+    }
+
+    if (typeof body.question_number !== 'string' || !body.question_number) {
+      return NextResponse.json({ error: 'question_number is required' }, { status: 400 })
+    }
+    if (body.marks_awarded != null && typeof body.marks_awarded !== 'number') {
+      return NextResponse.json({ error: 'marks_awarded must be a number' }, { status: 400 })
+    }
+    if (body.feedback != null && typeof body.feedback !== 'string') {
+      return NextResponse.json({ error: 'feedback must be a string' }, { status: 400 })
+    }
+
+    const result = await reviewQuestion(supabase, {
+      submissionId: id,
+      questionNumber: body.question_number,
+      teacherId: user.id,
+      change: { marksAwarded: body.marks_awarded ?? undefined, explanation: body.feedback ?? undefined },
+    })
+    if (!result.ok) return NextResponse.json({ error: result.error }, { status: result.status })
+
+    return NextResponse.json({
+      action: result.action,
+      question: result.question,
+      grading_result: {
+        total_marks: result.totals.totalMarks,
+        total_possible_marks: result.totals.totalPossibleMarks,
+        percentage: result.totals.percentage,
+        grade: result.totals.grade,
+      },
+      pending_count: result.pendingCount,
+    })
+  } catch (error) {
+    console.error('Review question error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createAdminClient, getAuthenticatedUser } from '@/lib/supabase-server'
+import { linkResultsToStudents, pendingReviewCounts } from '@/lib/grading/review-queue'
 
 // GET - Fetch one submission. Visible to the submitting student or the
-// owning assignment's teacher. Includes the linked grading_result (if any).
+// owning assignment's teacher. Includes the linked grading_result (if any);
+// students only get it once the teacher has released it (status 'graded').
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -16,7 +18,7 @@ export async function GET(
 
     const { data: submission, error } = await supabase
       .from('assignment_submissions')
-      .select('id, assignment_id, student_id, class_id, file_urls, student_comment, submitted_at, status, is_late, grading_result_id, grading_error, updated_at')
+      .select('id, assignment_id, student_id, class_id, file_urls, student_comment, submitted_at, status, is_late, grading_result_id, grading_error, released_at, updated_at')
       .eq('id', id)
       .maybeSingle()
     if (error) return NextResponse.json({ error: 'Failed to fetch submission' }, { status: 500 })
@@ -42,6 +44,9 @@ export async function GET(
       return NextResponse.json({ error: 'Not authorized' }, { status: 403 })
     }
 
+    const released = submission.status === 'graded'
+    if (!isAssignmentOwner && !released) submission.grading_result_id = null
+
     // Pull linked grading result for the UI
     let gradingResult: Record<string, unknown> | null = null
     if (submission.grading_result_id) {
@@ -78,7 +83,8 @@ export async function GET(
 }
 
 // PATCH - Teacher updates submission status. Use to "Return" a graded submission
-// (status: pending_review → graded) or to mark as failed/retry-able.
+// (status: pending_review → graded, once no questions await review) or to mark
+// as failed/retry-able.
 export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -111,6 +117,18 @@ export async function PATCH(
         return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
       }
       updates.status = body.status
+      if (body.status === 'graded') {
+        const pending = (await pendingReviewCounts(supabase, [id])).get(id) ?? 0
+        if (pending > 0) {
+          return NextResponse.json(
+            { error: `${pending} question${pending === 1 ? '' : 's'} still need${pending === 1 ? 's' : ''} review`, pending_count: pending },
+            { status: 409 }
+          )
+        }
+        updates.released_at = new Date().toISOString()
+      } else {
+        updates.released_at = null
+      }
     }
     if ('grading_error' in body) {
       updates.grading_error = body.grading_error ?? null
@@ -129,6 +147,7 @@ export async function PATCH(
     if (error || !updated) {
       return NextResponse.json({ error: 'Failed to update' }, { status: 500 })
     }
+    if ('status' in updates) await linkResultsToStudents(supabase, [id], updates.status === 'graded')
 
     return NextResponse.json({ submission: updated })
   } catch (error) {
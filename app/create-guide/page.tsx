@@ -1,11 +1,11 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import { useRouter, useSearchParams } from "next/navigation"
 import NavigationHeader from "@/components/navigation-header"
-import CustomGuideEditor from "@/components/custom-guide-editor/custom-guide-editor"
+import CustomGuideEditor, { GuideDraft, GuideSaveData } from "@/components/custom-guide-editor/custom-guide-editor"
 import { useAuth } from "@/lib/auth"
-import { customContentToBlocks, EditorBlock, blocksToCustomContent } from "@/lib/types/editor-blocks"
+import { customContentToBlocks, EditorBlock } from "@/lib/types/editor-blocks"
 import { CustomGuideContent } from "@/lib/types/custom-guide"
 import { Skeleton } from "@/components/ui/skeleton"
 import { AlertCircle, ArrowLeft } from "lucide-react"
@@ -74,6 +74,17 @@ interface EditGuideData {
   gradeLevel: string
   className?: string
   customContent: CustomGuideContent | null
+  // Co-editors can edit and save but not invite others
+  role: 'owner' | 'editor'
+  // Autosaved and never saved to the guide
+  draft: {
+    savedAt: string
+    title?: string
+    subject?: string
+    gradeLevel?: string
+    className?: string
+    customContent: CustomGuideContent
+  } | null
 }
 
 export default function CreateGuidePage() {
@@ -92,7 +103,7 @@ export default function CreateGuidePage() {
 
     const fetchGuide = async () => {
       try {
-        const response = await fetch(`/api/study-guides/${editId}/custom-content?userId=${user.id}`, {
+        const response = await fetch(`/api/study-guides/${editId}/custom-content`, {
           credentials: 'include'
         })
         const data = await response.json()
@@ -107,7 +118,9 @@ export default function CreateGuidePage() {
           subject: data.subject,
           gradeLevel: data.gradeLevel,
           className: data.className,
-          customContent: data.customContent
+          customContent: data.customContent,
+          role: data.role ?? 'owner',
+          draft: data.draft ?? null
         })
       } catch (err) {
         console.error('Error fetching guide:', err)
@@ -127,13 +140,7 @@ export default function CreateGuidePage() {
     }
   }, [authLoading, user, router])
 
-  const handleSave = async (data: {
-    title: string
-    subject: string
-    gradeLevel: string
-    className?: string
-    customContent: ReturnType<typeof blocksToCustomContent>
-  }) => {
+  const handleSave = async (data: GuideSaveData) => {
     if (!user) return
 
     const endpoint = editId
@@ -158,6 +165,31 @@ export default function CreateGuidePage() {
     router.push(result.studyGuideUrl)
   }
 
+  // Only guides that already exist have somewhere to keep a draft
+  const handleAutosave = useCallback(async (data: GuideSaveData) => {
+    if (!editId || !user) return
+
+    const response = await fetch(`/api/study-guides/${editId}/custom-content`, {
+      method: 'PUT',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...data, draft: true })
+    })
+
+    if (!response.ok) {
+      const result = await response.json()
+      throw new Error(result.error || 'Failed to save draft')
+    }
+  }, [editId, user])
+
+  const handleDiscardDraft = useCallback(async () => {
+    if (!editId || !user) return
+    await fetch(`/api/study-guides/${editId}/custom-content`, {
+      method: 'DELETE',
+      credentials: 'include'
+    })
+  }, [editId, user])
+
   const handleCancel = () => {
     if (editId) {
       router.push(`/study-guide/${editId}`)
@@ -216,6 +248,19 @@ export default function CreateGuidePage() {
     ? customContentToBlocks(editData.customContent)
     : undefined
 
+  const draft: GuideDraft | null = editData?.draft
+    ? {
+        savedAt: editData.draft.savedAt,
+        blocks: customContentToBlocks(editData.draft.customContent),
+        metadata: {
+          title: editData.draft.title ?? editData.title,
+          subject: editData.draft.subject ?? editData.subject,
+          gradeLevel: editData.draft.gradeLevel ?? editData.gradeLevel,
+          className: editData.draft.className
+        }
+      }
+    : null
+
   const initialMetadata = editData
     ? {
         title: editData.title,
@@ -237,6 +282,11 @@ export default function CreateGuidePage() {
           initialContent={initialBlocks}
           initialMetadata={initialMetadata}
           onSave={handleSave}
+          onAutosave={editId ? handleAutosave : undefined}
+          draft={draft}
+          onDiscardDraft={handleDiscardDraft}
+          collaboration={editData ? { guideId: editData.id, canInvite: editData.role === 'owner' } : undefined}
+          revisionHistory={editData ? { guideId: editData.id, isOwner: editData.role === 'owner' } : undefined}
           onCancel={handleCancel}
           isEditing={!!editId}
           isTeacher={user?.user_type === 'teacher'}
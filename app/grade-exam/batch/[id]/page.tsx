@@ -0,0 +1,318 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import NavigationHeader from "@/components/navigation-header"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useAuth } from "@/lib/auth"
+import { useToast } from "@/hooks/use-toast"
+import { AlertCircle, ArrowLeft, ExternalLink, Loader2, RotateCcw } from "lucide-react"
+
+type BatchStatus = "splitting" | "grading" | "done" | "failed"
+type ItemStatus = "queued" | "grading" | "graded" | "failed"
+
+interface Batch {
+  id: string
+  title: string
+  split_mode: "fixed" | "cover" | "separator"
+  scan_filename: string | null
+  page_count: number | null
+  status: BatchStatus
+  error: string | null
+}
+
+interface BatchItem {
+  id: string
+  position: number
+  start_page: number
+  end_page: number
+  detected_name: string | null
+  student_id: string | null
+  match_method: "code" | "name" | "teacher" | null
+  match_confidence: number | null
+  status: ItemStatus
+  error: string | null
+  grading_result: { id: string; total_marks: number; total_possible_marks: number; percentage: number; grade: string } | null
+}
+
+interface RosterStudent {
+  id: string
+  email: string
+  first_name: string | null
+  last_name: string | null
+}
+
+const POLL_MS = 4000
+const UNMATCHED = "__unmatched"
+
+const ITEM_STATUS: Record<ItemStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  queued: { label: "Queued", variant: "outline" },
+  grading: { label: "Grading", variant: "secondary" },
+  graded: { label: "Graded", variant: "default" },
+  failed: { label: "Failed", variant: "destructive" },
+}
+
+function studentDisplay(s: RosterStudent): string {
+  if (s.first_name || s.last_name) return `${s.first_name ?? ""} ${s.last_name ?? ""}`.trim()
+  return s.email
+}
+
+function pageLabel(item: BatchItem): string {
+  return item.start_page === item.end_page ? `p. ${item.start_page}` : `pp. ${item.start_page}–${item.end_page}`
+}
+
+export default function BatchProgressPage() {
+  const params = useParams<{ id: string }>()
+  const batchId = params?.id
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { toast } = useToast()
+
+  const [batch, setBatch] = useState<Batch | null>(null)
+  const [className, setClassName] = useState("")
+  const [items, setItems] = useState<BatchItem[]>([])
+  const [roster, setRoster] = useState<RosterStudent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyItem, setBusyItem] = useState<string | null>(null)
+
+  const isTeacher = user?.user_type === "teacher"
+
+  const fetchBoard = useCallback(async () => {
+    if (!batchId) return
+    try {
+      const res = await fetch(`/api/grading-batches/${batchId}`)
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to load batch", variant: "destructive" })
+        if (res.status === 403 || res.status === 404) router.push("/grade-exam/batch")
+        return
+      }
+      setBatch(json.batch)
+      setClassName(json.class ? `${json.class.name}${json.class.period ? ` · ${json.class.period}` : ""}` : "")
+      setItems(json.items ?? [])
+      setRoster(json.roster ?? [])
+    } catch (err) {
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [batchId, router, toast])
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) { router.push("/auth/signin"); return }
+    if (!isTeacher) { router.push("/"); return }
+    fetchBoard()
+  }, [authLoading, user, isTeacher, router, fetchBoard])
+
+  const active = batch?.status === "splitting" || batch?.status === "grading"
+  useEffect(() => {
+    if (!active) return
+    const timer = setInterval(fetchBoard, POLL_MS)
+    return () => clearInterval(timer)
+  }, [active, fetchBoard])
+
+  const updateItem = async (item: BatchItem, body: Record<string, unknown>) => {
+    setBusyItem(item.id)
+    try {
+      const res = await fetch(`/api/grading-batches/${batchId}/items/${item.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to update paper", variant: "destructive" })
+        return
+      }
+      await fetchBoard()
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setBusyItem(null)
+    }
+  }
+
+  if (authLoading || loading || !batch) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="container mx-auto px-4 py-8">
+          <Skeleton className="h-6 w-32 mb-4" />
+          <Skeleton className="h-10 w-72 mb-6" />
+          <Skeleton className="h-64" />
+        </div>
+      </div>
+    )
+  }
+
+  const graded = items.filter(i => i.status === "graded").length
+  const failed = items.filter(i => i.status === "failed").length
+  const unmatched = items.filter(i => !i.student_id).length
+  const taken = new Set(items.map(i => i.student_id).filter(Boolean))
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+      <div className="container mx-auto px-4 py-8">
+        <Link href="/grade-exam/batch" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          All batches
+        </Link>
+
+        <div className="mb-6">
+          <h1 className="text-3xl font-bold">{batch.title}</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            {className}
+            {batch.page_count ? ` · ${batch.page_count} pages` : ""}
+            {items.length > 0 ? ` · ${items.length} papers` : ""}
+          </p>
+        </div>
+
+        {batch.status === "failed" ? (
+          <Card className="border-destructive/50">
+            <CardContent className="p-6 flex items-start gap-3">
+              <AlertCircle className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium">The scan couldn&apos;t be split</p>
+                <p className="text-sm text-muted-foreground mt-1">{batch.error}</p>
+                <Button variant="outline" size="sm" className="mt-3" asChild>
+                  <Link href="/grade-exam/batch">Start a new batch</Link>
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ) : batch.status === "splitting" ? (
+          <Card>
+            <CardContent className="p-8 flex items-center justify-center gap-3 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Reading the scan and matching names to your roster…
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card className="mb-4">
+              <CardContent className="p-4 space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">
+                    {graded} of {items.length} graded
+                    {failed > 0 && <span className="text-destructive"> · {failed} failed</span>}
+                  </span>
+                  {unmatched > 0 && (
+                    <span className="text-amber-600">{unmatched} paper{unmatched === 1 ? "" : "s"} need a student</span>
+                  )}
+                </div>
+                <Progress value={items.length > 0 ? (graded / items.length) * 100 : 0} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="border-b bg-muted/40 text-left">
+                      <tr>
+                        <th className="p-3 font-medium w-12">#</th>
+                        <th className="p-3 font-medium">Written name</th>
+                        <th className="p-3 font-medium">Student</th>
+                        <th className="p-3 font-medium">Status</th>
+                        <th className="p-3 font-medium">Score</th>
+                        <th className="p-3" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {items.map(item => (
+                        <tr key={item.id} className="border-b last:border-b-0 align-middle">
+                          <td className="p-3 text-muted-foreground">{item.position}</td>
+                          <td className="p-3">
+                            <p className={item.detected_name ? "" : "italic text-muted-foreground"}>
+                              {item.detected_name ?? "Not readable"}
+                            </p>
+                            <p className="text-xs text-muted-foreground">{pageLabel(item)}</p>
+                          </td>
+                          <td className="p-3">
+                            <div className="flex items-center gap-2">
+                              <Select
+                                value={item.student_id ?? UNMATCHED}
+                                onValueChange={(v) => updateItem(item, { student_id: v === UNMATCHED ? null : v })}
+                                disabled={busyItem === item.id}
+                              >
+                                <SelectTrigger className={`h-8 w-52 ${item.student_id ? "" : "border-amber-500"}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={UNMATCHED}>Unmatched</SelectItem>
+                                  {roster.map(s => (
+                                    <SelectItem
+                                      key={s.id}
+                                      value={s.id}
+                                      disabled={taken.has(s.id) && s.id !== item.student_id}
+                                    >
+                                      {studentDisplay(s)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                              {item.match_method === "name" && item.match_confidence !== null && item.match_confidence < 0.9 && (
+                                <Badge variant="outline" className="text-amber-600 border-amber-300">Check</Badge>
+                              )}
+                            </div>
+                          </td>
+                          <td className="p-3">
+                            <Badge variant={ITEM_STATUS[item.status].variant}>
+                              {item.status === "grading" && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+                              {ITEM_STATUS[item.status].label}
+                            </Badge>
+                            {item.error && <p className="text-xs text-destructive mt-1 max-w-xs">{item.error}</p>}
+                          </td>
+                          <td className="p-3">
+                            {item.grading_result
+                              ? `${item.grading_result.total_marks}/${item.grading_result.total_possible_marks} · ${item.grading_result.grade}`
+                              : "—"}
+                          </td>
+                          <td className="p-3 text-right">
+                            {item.grading_result ? (
+                              <Button variant="ghost" size="sm" asChild>
+                                <Link href={`/grade-report/${item.grading_result.id}`}>
+                                  Report
+                                  <ExternalLink className="h-3 w-3 ml-1" />
+                                </Link>
+                              </Button>
+                            ) : item.status === "failed" ? (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => updateItem(item, { retry: true })}
+                                disabled={busyItem === item.id}
+                              >
+                                <RotateCcw className="h-3 w-3 mr-1" />
+                                Retry
+                              </Button>
+                            ) : null}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,372 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import NavigationHeader from "@/components/navigation-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useAuth } from "@/lib/auth"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeft, FileDown, Layers, Loader2, Upload } from "lucide-react"
+import type { BatchSplitMode } from "@/lib/grading/batch-split"
+
+interface ClassOption {
+  id: string
+  name: string
+  period: string | null
+  student_count: number
+}
+
+interface BatchSummary {
+  id: string
+  title: string
+  class_name: string | null
+  status: "splitting" | "grading" | "done" | "failed"
+  paper_count: number
+  graded_count: number
+  created_at: string
+}
+
+interface UploadedFile {
+  url: string
+  name: string
+}
+
+const SPLIT_MODES: Array<{ value: BatchSplitMode; label: string; hint: string }> = [
+  { value: "fixed", label: "Same number of pages each", hint: "Every paper has the same page count, scanned in order" },
+  { value: "cover", label: "Cover pages", hint: "Each paper starts with a cover page where the student wrote their name" },
+  { value: "separator", label: "Separator sheets", hint: "Print a sheet per student and put it on top of their paper" },
+]
+
+const STATUS_LABELS: Record<BatchSummary["status"], string> = {
+  splitting: "Splitting",
+  grading: "Grading",
+  done: "Done",
+  failed: "Failed",
+}
+
+export default function BatchGradingPage() {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { toast } = useToast()
+  const scanRef = useRef<HTMLInputElement>(null)
+  const markSchemeRef = useRef<HTMLInputElement>(null)
+
+  const [classes, setClasses] = useState<ClassOption[]>([])
+  const [batches, setBatches] = useState<BatchSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [classId, setClassId] = useState("")
+  const [title, setTitle] = useState("")
+  const [splitMode, setSplitMode] = useState<BatchSplitMode>("fixed")
+  const [pagesPerStudent, setPagesPerStudent] = useState("4")
+  const [comments, setComments] = useState("")
+  const [scan, setScan] = useState<UploadedFile | null>(null)
+  const [markScheme, setMarkScheme] = useState<UploadedFile | null>(null)
+  const [uploading, setUploading] = useState<"scan" | "markScheme" | null>(null)
+  const [starting, setStarting] = useState(false)
+
+  const isTeacher = user?.user_type === "teacher"
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) { router.push("/auth/signin"); return }
+    if (!isTeacher) { router.push("/grade-exam"); return }
+    Promise.all([
+      fetch("/api/classes").then(r => r.json()),
+      fetch("/api/grading-batches").then(r => r.json()),
+    ])
+      .then(([classesJson, batchesJson]) => {
+        setClasses(classesJson.classes ?? [])
+        setBatches(batchesJson.batches ?? [])
+      })
+      .catch(err => {
+        console.error(err)
+        toast({ title: "Failed to load classes", variant: "destructive" })
+      })
+      .finally(() => setLoading(false))
+  }, [authLoading, user, isTeacher, router, toast])
+
+  const upload = async (file: File, kind: "scan" | "markScheme") => {
+    if (kind === "scan" && file.type !== "application/pdf" && !file.name.toLowerCase().endsWith(".pdf")) {
+      toast({ title: "The scan must be a PDF", variant: "destructive" })
+      return
+    }
+    setUploading(kind)
+    try {
+      const fd = new FormData()
+      fd.append("file", file)
+      fd.append("folder", kind === "scan" ? "casanovastudy/batch-scans" : "casanovastudy/mark-schemes")
+      const res = await fetch("/api/upload-to-cloudinary", { method: "POST", body: fd })
+      const json = await res.json()
+      if (!res.ok || !json.url) {
+        toast({ title: json.error ?? "Upload failed", variant: "destructive" })
+        return
+      }
+      const uploaded = { url: json.url, name: file.name }
+      if (kind === "scan") setScan(uploaded)
+      else setMarkScheme(uploaded)
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setUploading(null)
+    }
+  }
+
+  const start = async () => {
+    if (!classId || !title.trim() || !scan) {
+      toast({ title: "Choose a class, name the exam and upload the scan", variant: "destructive" })
+      return
+    }
+    setStarting(true)
+    try {
+      const res = await fetch("/api/grading-batches", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          class_id: classId,
+          title: title.trim(),
+          split_mode: splitMode,
+          pages_per_student: splitMode === "fixed" ? Number(pagesPerStudent) : undefined,
+          scan_url: scan.url,
+          scan_filename: scan.name,
+          mark_scheme_url: markScheme?.url,
+          mark_scheme_filename: markScheme?.name,
+          additional_comments: comments,
+        }),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to start batch", variant: "destructive" })
+        return
+      }
+      router.push(`/grade-exam/batch/${json.batch.id}`)
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="container mx-auto px-4 py-8 max-w-3xl">
+          <Skeleton className="h-10 w-72 mb-6" />
+          <Skeleton className="h-96" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+      <div className="container mx-auto px-4 py-8 max-w-3xl">
+        <Link href="/grade-exam" className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Grade one exam
+        </Link>
+        <h1 className="text-3xl font-bold">Batch grading</h1>
+        <p className="text-sm text-muted-foreground mt-1 mb-6">
+          Upload one scan of the whole class&apos;s papers. It&apos;s split into one paper per student, matched to your
+          roster by the name on each paper, and graded.
+        </p>
+
+        <Card className="mb-8">
+          <CardContent className="p-6 space-y-5">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Class</Label>
+                <Select value={classId} onValueChange={setClassId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={classes.length === 0 ? "No classes yet" : "Choose a class"} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {classes.map(c => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.name}{c.period ? ` · ${c.period}` : ""} ({c.student_count})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="batch-title">Exam title</Label>
+                <Input
+                  id="batch-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Unit 3 test"
+                  maxLength={200}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>How are the papers divided?</Label>
+              <RadioGroup value={splitMode} onValueChange={(v) => setSplitMode(v as BatchSplitMode)} className="gap-3">
+                {SPLIT_MODES.map(m => (
+                  <div key={m.value} className="flex items-start gap-3">
+                    <RadioGroupItem value={m.value} id={`split-${m.value}`} className="mt-0.5" />
+                    <div>
+                      <Label htmlFor={`split-${m.value}`} className="font-medium">{m.label}</Label>
+                      <p className="text-xs text-muted-foreground">{m.hint}</p>
+                    </div>
+                  </div>
+                ))}
+              </RadioGroup>
+              {splitMode === "fixed" && (
+                <div className="flex items-center gap-2 pl-7">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={pagesPerStudent}
+                    onChange={(e) => setPagesPerStudent(e.target.value)}
+                    className="w-20 h-8"
+                    aria-label="Pages per student"
+                  />
+                  <span className="text-sm text-muted-foreground">pages per student</span>
+                </div>
+              )}
+              {splitMode === "separator" && (
+                <div className="pl-7">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={!classId}
+                    onClick={() => {
+                      const query = title.trim() ? `?title=${encodeURIComponent(title.trim())}` : ""
+                      window.open(`/api/classes/${classId}/separator-sheets${query}`, "_blank")
+                    }}
+                  >
+                    <FileDown className="h-4 w-4 mr-2" />
+                    Download separator sheets
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Scanned papers (PDF)</Label>
+                <input
+                  ref={scanRef}
+                  type="file"
+                  accept=".pdf,application/pdf"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) upload(file, "scan")
+                    e.target.value = ""
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => scanRef.current?.click()}
+                  disabled={uploading !== null}
+                >
+                  {uploading === "scan" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  <span className="truncate">{scan ? scan.name : "Upload scan"}</span>
+                </Button>
+              </div>
+              <div className="space-y-2">
+                <Label>Mark scheme (optional)</Label>
+                <input
+                  ref={markSchemeRef}
+                  type="file"
+                  accept=".pdf,.docx"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) upload(file, "markScheme")
+                    e.target.value = ""
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="w-full justify-start"
+                  onClick={() => markSchemeRef.current?.click()}
+                  disabled={uploading !== null}
+                >
+                  {uploading === "markScheme" ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  <span className="truncate">{markScheme ? markScheme.name : "Upload mark scheme"}</span>
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="batch-comments">Grading instructions (optional)</Label>
+              <Textarea
+                id="batch-comments"
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+                placeholder="e.g. Accept answers to 2 significant figures"
+                rows={3}
+              />
+            </div>
+
+            <Button onClick={start} disabled={starting || uploading !== null} className="w-full">
+              {starting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Layers className="h-4 w-4 mr-2" />}
+              Split and grade
+            </Button>
+          </CardContent>
+        </Card>
+
+        {batches.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Recent batches</CardTitle>
+              <CardDescription>Open one to see its progress board</CardDescription>
+            </CardHeader>
+            <CardContent className="p-2">
+              {batches.map(b => (
+                <Link
+                  key={b.id}
+                  href={`/grade-exam/batch/${b.id}`}
+                  className="flex items-center justify-between gap-3 rounded-md px-4 py-3 hover:bg-muted/50"
+                >
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{b.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {b.class_name ?? "Class removed"} · {new Date(b.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    {b.paper_count > 0 && (
+                      <span className="text-sm text-muted-foreground">{b.graded_count}/{b.paper_count} graded</span>
+                    )}
+                    <Badge variant={b.status === "failed" ? "destructive" : b.status === "done" ? "default" : "secondary"}>
+                      {STATUS_LABELS[b.status]}
+                    </Badge>
+                  </div>
+                </Link>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
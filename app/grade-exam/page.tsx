@@ -1,11 +1,12 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
-import { Upload, FileText, X, CheckCircle, Download, FileCheck, AlertCircle, Edit2 } from "lucide-react"
+import { Upload, FileText, X, CheckCircle, Download, FileCheck, AlertCircle, Edit2, Layers } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import { StreamingGenerationProgress } from "@/components/generation-progress"
 import NavigationHeader from "@/components/navigation-header"
@@ -494,6 +495,15 @@ export default function GradeExamPage() {
           <div className="max-w-3xl mx-auto text-center space-y-6">
             <h1 className="text-4xl md:text-5xl font-bold">{pageTitle}</h1>
             <p className="text-lg opacity-90">{pageSubtitle}</p>
+            {isTeacher && (
+              <Link
+                href="/grade-exam/batch"
+                className="inline-flex items-center gap-2 text-sm font-medium bg-white/15 hover:bg-white/25 rounded-full px-4 py-2"
+              >
+                <Layers className="h-4 w-4" />
+                Grading a whole class? Upload one scan
+              </Link>
+            )}
           </div>
         </div>
       </div>
@@ -20,7 +20,9 @@ import {
 } from "@/components/ui/alert-dialog"
 import { useToast } from "@/hooks/use-toast"
 import NavigationHeader from "@/components/navigation-header"
+import RubricGrid from "@/components/rubric-grid"
 import { useAuth } from "@/lib/auth"
+import type { Rubric } from "@/lib/grading/rubric"
 
 interface GradingResult {
   id: string
@@ -37,7 +39,13 @@ interface GradingResult {
     marksAwarded: number
     marksPossible: number
     explanation: string
+    // Rubric level chosen for this criterion
+    level?: string
+    // Teacher-marked exemplar that most influenced this mark
+    exemplar?: string
   }>
+  // Set when graded against a rubric; each breakdown item is then a criterion
+  rubric: Rubric | null
   additionalComments: string | null
   pdfUrl: string | null
   createdAt: string
@@ -300,9 +308,19 @@ export default function GradeReportPage() {
                 </div>
               </div>
 
+              {gradingResult.rubric && (
+                <div>
+                  <h3 className="font-semibold text-lg mb-4">Rubric</h3>
+                  <RubricGrid
+                    rubric={gradingResult.rubric}
+                    breakdown={isEditing && editedBreakdown ? editedBreakdown : gradingResult.gradeBreakdown}
+                  />
+                </div>
+              )}
+
               {/* Grade Breakdown */}
               <div>
-                <h3 className="font-semibold text-lg mb-4">Question Breakdown</h3>
+                <h3 className="font-semibold text-lg mb-4">{gradingResult.rubric ? "Criterion Feedback" : "Question Breakdown"}</h3>
                 <div className="space-y-3">
                   {(isEditing && editedBreakdown ? editedBreakdown : gradingResult.gradeBreakdown).map((item, index) => (
                     <div
@@ -311,7 +329,8 @@ export default function GradeReportPage() {
                     >
                       <div className="flex items-start justify-between gap-3 mb-2">
                         <span className="font-semibold">
-                          {/^(Question|Section|Q\d)/i.test(item.questionNumber) ? item.questionNumber : `Question ${item.questionNumber}`}
+                          {gradingResult.rubric || /^(Question|Section|Q\d)/i.test(item.questionNumber) ? item.questionNumber : `Question ${item.questionNumber}`}
+                          {item.level && <span className="ml-2 text-sm font-normal text-muted-foreground">{item.level}</span>}
                         </span>
                         {isEditing && editedBreakdown ? (
                           <div className="flex items-center gap-1">
@@ -416,6 +435,10 @@ export default function GradeReportPage() {
                       ) : (
                         <p className="text-sm text-muted-foreground whitespace-pre-wrap">{item.explanation}</p>
                       )}
+                      {/* Exemplars are the teacher's audit trail; students don't see them */}
+                      {gradingResult.isOwner && item.exemplar && (
+                        <p className="text-xs text-muted-foreground mt-2">Marked by comparison with exemplar {item.exemplar}</p>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,205 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import NavigationHeader from "@/components/navigation-header"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { useAuth } from "@/lib/auth"
+import { useToast } from "@/hooks/use-toast"
+import { Loader2, RotateCcw, XCircle } from "lucide-react"
+import type { JobKind, JobStatus } from "@/lib/jobs/queue"
+
+interface JobSummary {
+  id: string
+  kind: JobKind
+  label: string | null
+  status: JobStatus
+  attempts: number
+  max_attempts: number
+  run_at: string
+  cancel_requested: boolean
+  last_error: string | null
+  result: Record<string, unknown> | null
+  started_at: string | null
+  finished_at: string | null
+  created_at: string
+}
+
+type Filter = "active" | "failed" | "all"
+
+const FILTERS: Array<{ value: Filter; label: string; statuses: string }> = [
+  { value: "active", label: "Queued & running", statuses: "queued,running" },
+  { value: "failed", label: "Failed", statuses: "failed,cancelled" },
+  { value: "all", label: "All recent", statuses: "" },
+]
+
+const KIND_LABELS: Record<JobKind, string> = {
+  grade_submission: "Grade submission",
+  grade_batch: "Batch grading",
+  generate_study_guide: "Study guide",
+  calibrate_grading: "Grading calibration",
+}
+
+const STATUS_VARIANTS: Record<JobStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+  cancelled: "outline",
+}
+
+const POLL_MS = 5000
+
+function describeTiming(job: JobSummary): string {
+  const fmt = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+  if (job.status === "queued" && job.attempts > 0) return `Retrying ${fmt(job.run_at)}`
+  if (job.status === "queued") return `Queued ${fmt(job.created_at)}`
+  if (job.status === "running" && job.started_at) return `Started ${fmt(job.started_at)}`
+  if (job.finished_at) return `Finished ${fmt(job.finished_at)}`
+  return fmt(job.created_at)
+}
+
+export default function JobsPage() {
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { toast } = useToast()
+
+  const [filter, setFilter] = useState<Filter>("active")
+  const [jobs, setJobs] = useState<JobSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [workingId, setWorkingId] = useState<string | null>(null)
+
+  const fetchJobs = useCallback(async () => {
+    const statuses = FILTERS.find(f => f.value === filter)!.statuses
+    try {
+      const res = await fetch(`/api/jobs${statuses ? `?status=${statuses}` : ""}`)
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to load jobs", variant: "destructive" })
+        return
+      }
+      setJobs(json.jobs ?? [])
+    } catch (err) {
+      console.error(err)
+    } finally {
+      setLoading(false)
+    }
+  }, [filter, toast])
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) { router.push("/auth/signin"); return }
+    fetchJobs()
+    const timer = window.setInterval(fetchJobs, POLL_MS)
+    return () => window.clearInterval(timer)
+  }, [authLoading, user, router, fetchJobs])
+
+  const act = async (job: JobSummary, action: "retry" | "cancel") => {
+    setWorkingId(job.id)
+    try {
+      const res = await fetch(`/api/jobs/${job.id}/${action}`, { method: "POST" })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? `Failed to ${action}`, variant: "destructive" })
+        return
+      }
+      if (action === "retry") toast({ title: "Queued again" })
+      else toast({ title: json.status === "running" ? "Stopping after the current step" : "Cancelled" })
+      fetchJobs()
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setWorkingId(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <h1 className="text-3xl font-bold">Background jobs</h1>
+        <p className="text-sm text-muted-foreground mt-1 mb-6">
+          Grading and study-guide generation run in the background. Failed jobs are retried automatically a few
+          times; retry them here once the problem is fixed.
+        </p>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {FILTERS.map(f => (
+            <Button
+              key={f.value}
+              size="sm"
+              variant={filter === f.value ? "default" : "outline"}
+              onClick={() => { setFilter(f.value); setLoading(true) }}
+            >
+              {f.label}
+            </Button>
+          ))}
+        </div>
+
+        {loading || authLoading ? (
+          <Skeleton className="h-64" />
+        ) : jobs.length === 0 ? (
+          <Card>
+            <CardContent className="p-10 text-center text-sm text-muted-foreground">
+              {filter === "active" ? "Nothing queued or running." : filter === "failed" ? "No failed jobs." : "No jobs yet."}
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardContent className="p-2">
+              {jobs.map(job => {
+                const studyGuideId = job.kind === "generate_study_guide" ? job.result?.studyGuideId : null
+                return (
+                  <div key={job.id} className="flex items-start justify-between gap-4 rounded-md px-4 py-3 hover:bg-muted/50">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{job.label ?? KIND_LABELS[job.kind]}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {KIND_LABELS[job.kind]} · {describeTiming(job)}
+                        {job.attempts > 1 && ` · attempt ${job.attempts} of ${job.max_attempts}`}
+                      </p>
+                      {job.last_error && job.status !== "succeeded" && (
+                        <p className="text-xs text-destructive mt-1 line-clamp-2">{job.last_error}</p>
+                      )}
+                      {typeof studyGuideId === "string" && (
+                        <Link href={`/study-guide/${studyGuideId}`} className="text-xs text-primary hover:underline">
+                          Open study guide
+                        </Link>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Badge variant={STATUS_VARIANTS[job.status]} className="capitalize">
+                        {job.status === "running" && job.cancel_requested ? "Stopping" : job.status}
+                      </Badge>
+                      {(job.status === "failed" || job.status === "cancelled") && (
+                        <Button size="sm" variant="outline" disabled={workingId === job.id} onClick={() => act(job, "retry")}>
+                          {workingId === job.id ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-1" />}
+                          Retry
+                        </Button>
+                      )}
+                      {(job.status === "queued" || job.status === "running") && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={workingId === job.id || job.cancel_requested}
+                          onClick={() => act(job, "cancel")}
+                        >
+                          <XCircle className="h-4 w-4 mr-1" />
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,36 @@
+import { createAdminClient } from '@/lib/supabase-server'
+import { notFound, redirect } from 'next/navigation'
+import { bundledStaticGuide } from '@/lib/static-guides/bundled'
+import StaticGuideView from '@/components/static-guide-view'
+
+interface MarineSciencePageProps {
+  params: Promise<{
+    slug: string
+  }>
+}
+
+// The marine science exam guides used to be hand-written pages here. They're
+// custom guides now (scripts/import-static-guides.ts); old links and saved
+// copies land on the guide that was imported from the page. Until the import
+// has been run, the bundled copy is shown read-only instead.
+export default async function MarineSciencePage({ params }: MarineSciencePageProps) {
+  const { slug } = await params
+  const route = `/marinescience/${slug}`
+
+  const { data: guide } = await createAdminClient()
+    .from('study_guides')
+    .select('id')
+    .eq('static_route', route)
+    .maybeSingle()
+
+  if (guide) {
+    redirect(`/study-guide/${guide.id}`)
+  }
+
+  const bundled = bundledStaticGuide(route)
+  if (!bundled) {
+    notFound()
+  }
+
+  return <StaticGuideView guide={bundled} />
+}
@@ -45,7 +45,8 @@ import {
   Check,
   Loader2,
   X,
-  School
+  School,
+  Pencil
 } from 'lucide-react'
 import AssignToClassDialog from '@/components/assign-to-class-dialog'
 
@@ -70,6 +71,8 @@ export default function MyGuidesPage() {
   const { user, loading: authLoading } = useAuth()
   const router = useRouter()
   const [studyGuides, setStudyGuides] = useState<StudyGuideRecord[]>([])
+  // Custom guides other teachers invited this user to co-edit
+  const [sharedGuides, setSharedGuides] = useState<StudyGuideRecord[]>([])
   const [guidesLoading, setGuidesLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
@@ -175,6 +178,22 @@ export default function MyGuidesPage() {
         if (fetchError) throw fetchError
 
         setStudyGuides(data || [])
+
+        const { data: shares } = await supabase
+          .from('study_guide_collaborators')
+          .select('study_guide_id')
+          .eq('user_id', user.id)
+        const sharedIds = (shares || []).map(share => share.study_guide_id)
+        if (sharedIds.length > 0) {
+          const { data: shared } = await supabase
+            .from('study_guides')
+            .select('*')
+            .in('id', sharedIds)
+            .order('updated_at', { ascending: false })
+          setSharedGuides(shared || [])
+        } else {
+          setSharedGuides([])
+        }
       } catch (err) {
         console.error('Error fetching study guides:', err)
         setError(err instanceof Error ? err.message : 'Failed to load study guides')
@@ -606,6 +625,57 @@ export default function MyGuidesPage() {
             )}
           </div>
         )}
+
+        {/* Guides shared for co-editing */}
+        {!authLoading && !guidesLoading && !error && sharedGuides.length > 0 && (
+          <div className="mt-12">
+            <h2 className="text-xl font-semibold mb-1">Shared with you</h2>
+            <p className="text-sm text-gray-600 mb-4">Guides other teachers invited you to edit with them.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {sharedGuides.map((guide) => {
+                const FormatIcon = formatIcons[guide.format]
+                const subjectColor = subjectColors[guide.subject as keyof typeof subjectColors] || subjectColors.other
+
+                return (
+                  <Card key={guide.id} className="h-full border-2 hover:border-blue-300 hover:shadow-xl transition-all relative">
+                    <FormatIcon className="absolute top-4 right-4 h-6 w-6 text-gray-400" />
+                    <CardHeader className="pr-16">
+                      <div className="flex items-start justify-between mb-2">
+                        <Badge className={`${subjectColor} border`}>
+                          {formatSubject(guide.subject)}
+                        </Badge>
+                      </div>
+                      <CardTitle className="text-xl line-clamp-2">
+                        {guide.title}
+                      </CardTitle>
+                      <CardDescription className="flex items-center gap-4 mt-2">
+                        <span className="flex items-center gap-1">
+                          <GraduationCap className="h-3 w-3" />
+                          {guide.grade_level}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Calendar className="h-3 w-3" />
+                          {formatDate(guide.updated_at)}
+                        </span>
+                      </CardDescription>
+                    </CardHeader>
+                    <CardContent className="flex gap-2">
+                      <Button asChild size="sm">
+                        <Link href={`/create-guide?edit=${guide.id}`}>
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit
+                        </Link>
+                      </Button>
+                      <Button asChild size="sm" variant="outline">
+                        <Link href={getGuideUrl(guide)}>View</Link>
+                      </Button>
+                    </CardContent>
+                  </Card>
+                )
+              })}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* Floating action bar when items are selected */}
@@ -1,16 +1,18 @@
 "use client"
 
-import { use, useEffect, useMemo, useState } from "react"
-import { BigIdeaBars } from "@/components/practice-tests/big-idea-bars"
+import { use, useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { CategoryBars } from "@/components/practice-tests/category-bars"
 import {
+  ANSWER_LETTERS,
   AnswerLetter,
-  BigIdeaBreakdown,
+  AttemptSession,
   PracticeTestPublicMeta,
   QuestionContentItem,
+  ResponseMap,
   StemContent,
+  SubmittedResult,
 } from "@/lib/types/practice-test"
-
-const LETTERS: AnswerLetter[] = ["A", "B", "C", "D"]
+import { formatDuration, type AnswerChange } from "@/lib/practice-test-timing"
 
 // Stem range labels — used as grid section dividers in the index view.
 function buildStemRangeLabels(questions: QuestionContentItem[]): Record<number, string> {
@@ -70,6 +72,48 @@ function ChoicesAreText({
   )
 }
 
+// Kept in localStorage so a reload or a dropped connection resumes the same
+// attempt, with any changes the server hasn't acknowledged yet.
+interface StoredAttempt {
+  resumeToken: string
+  pending: AnswerChange[]
+}
+
+const AUTOSAVE_DELAY_MS = 1500
+const RETRY_MS = 5000
+const LOW_TIME_MS = 5 * 60_000
+
+function storageKey(shareToken: string): string {
+  return `practice-test-attempt:${shareToken}`
+}
+
+function readStored(shareToken: string): StoredAttempt | null {
+  try {
+    const raw = window.localStorage.getItem(storageKey(shareToken))
+    return raw ? (JSON.parse(raw) as StoredAttempt) : null
+  } catch {
+    return null
+  }
+}
+
+function writeStored(shareToken: string, value: StoredAttempt | null) {
+  try {
+    if (value) window.localStorage.setItem(storageKey(shareToken), JSON.stringify(value))
+    else window.localStorage.removeItem(storageKey(shareToken))
+  } catch {
+    // Private mode or full storage: the attempt still works, it just can't resume
+  }
+}
+
+function replay(responses: ResponseMap, changes: AnswerChange[]): ResponseMap {
+  const out = { ...responses }
+  for (const c of changes) {
+    if (c.answer === null) delete out[String(c.q)]
+    else out[String(c.q)] = c.answer
+  }
+  return out
+}
+
 export default function StudentTakePage({
   params,
 }: {
@@ -79,18 +123,40 @@ export default function StudentTakePage({
   const [meta, setMeta] = useState<PracticeTestPublicMeta | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [studentName, setStudentName] = useState("")
-  const [nameLocked, setNameLocked] = useState(false)
+  const [session, setSession] = useState<AttemptSession | null>(null)
+  const [starting, setStarting] = useState(false)
+  const [startError, setStartError] = useState<string | null>(null)
+  const [needsSignIn, setNeedsSignIn] = useState(false)
   const [view, setView] = useState<"grid" | "q">("grid")
   const [currentIdx, setCurrentIdx] = useState(0)
   const [responses, setResponses] = useState<Record<string, AnswerLetter>>({})
+  const [saveStatus, setSaveStatus] = useState<"saved" | "saving" | "offline">("saved")
+  const [now, setNow] = useState(() => Date.now())
   const [submitting, setSubmitting] = useState(false)
-  const [result, setResult] = useState<{
-    scoreTotal: number
-    scoreMax: number
-    bigIdeaBreakdown: BigIdeaBreakdown
-  } | null>(null)
+  const [result, setResult] = useState<SubmittedResult | null>(null)
   const [submitError, setSubmitError] = useState<string | null>(null)
 
+  // Server clock minus ours, so the countdown matches the server's deadline
+  const clockOffsetRef = useRef(0)
+  const pendingRef = useRef<AnswerChange[]>([])
+  const savingRef = useRef(false)
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  const finish = useCallback((submitted: SubmittedResult) => {
+    pendingRef.current = []
+    writeStored(shareToken, null)
+    setResult(submitted)
+  }, [shareToken])
+
+  const beginSession = useCallback((s: AttemptSession, pending: AnswerChange[]) => {
+    clockOffsetRef.current = new Date(s.serverNow).getTime() - Date.now()
+    pendingRef.current = pending
+    writeStored(shareToken, { resumeToken: s.resumeToken, pending })
+    setStudentName(s.studentName)
+    setResponses(replay(s.responses, pending))
+    setSession(s)
+  }, [shareToken])
+
   useEffect(() => {
     let cancelled = false
     async function load() {
@@ -102,6 +168,26 @@ export default function StudentTakePage({
           setError(json.error ?? "Could not load this practice test")
           return
         }
+
+        // Pick up an attempt this browser already started
+        const stored = readStored(shareToken)
+        if (stored) {
+          const resumeRes = await fetch(`/api/practice-tests/take/${shareToken}/start`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ resumeToken: stored.resumeToken }),
+          })
+          const resumed = await resumeRes.json()
+          if (cancelled) return
+          if (resumeRes.ok && resumed.session) {
+            beginSession(resumed.session, stored.pending ?? [])
+          } else if (resumeRes.ok && resumed.submitted) {
+            setStudentName(resumed.studentName)
+            finish(resumed.submitted)
+          } else if (resumeRes.status === 404) {
+            writeStored(shareToken, null)
+          }
+        }
         setMeta(json)
       } catch {
         if (!cancelled) setError("Network error — check your connection and refresh")
@@ -109,14 +195,88 @@ export default function StudentTakePage({
     }
     load()
     return () => { cancelled = true }
-  }, [shareToken])
+  }, [shareToken, beginSession, finish])
 
-  const questions: QuestionContentItem[] = meta?.questions_content?.questions ?? []
+  const autosave = useCallback(async () => {
+    if (!session || savingRef.current || result) return
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current)
+      saveTimerRef.current = null
+    }
+    const batch = pendingRef.current
+    if (batch.length === 0) return
+    savingRef.current = true
+    setSaveStatus("saving")
+    try {
+      const res = await fetch(`/api/practice-tests/take/${shareToken}/autosave`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ resumeToken: session.resumeToken, changes: batch, clientNow: Date.now() }),
+      })
+      const json = await res.json()
+      if (res.ok && json.submitted) {
+        finish(json.submitted)
+        return
+      }
+      if (!res.ok) throw new Error(json.error)
+      // Changes made while this save was in flight stay queued
+      pendingRef.current = pendingRef.current.slice(batch.length)
+      writeStored(shareToken, { resumeToken: session.resumeToken, pending: pendingRef.current })
+      setSaveStatus(pendingRef.current.length > 0 ? "saving" : "saved")
+      if (pendingRef.current.length > 0) saveTimerRef.current = setTimeout(() => autosave(), AUTOSAVE_DELAY_MS)
+    } catch {
+      setSaveStatus("offline")
+      saveTimerRef.current = setTimeout(() => autosave(), RETRY_MS)
+    } finally {
+      savingRef.current = false
+    }
+  }, [session, result, shareToken, finish])
+
+  // Retry as soon as the connection comes back, and flush whatever is left
+  // when the tab goes away.
+  useEffect(() => {
+    if (!session || result) return
+    const onOnline = () => autosave()
+    const onPageHide = () => {
+      if (pendingRef.current.length === 0) return
+      const body = JSON.stringify({
+        resumeToken: session.resumeToken,
+        changes: pendingRef.current,
+        clientNow: Date.now(),
+      })
+      navigator.sendBeacon(
+        `/api/practice-tests/take/${shareToken}/autosave`,
+        new Blob([body], { type: "application/json" })
+      )
+    }
+    window.addEventListener("online", onOnline)
+    window.addEventListener("pagehide", onPageHide)
+    return () => {
+      window.removeEventListener("online", onOnline)
+      window.removeEventListener("pagehide", onPageHide)
+    }
+  }, [session, result, shareToken, autosave])
+
+  useEffect(() => () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+  }, [])
+
+  // Countdown tick
+  useEffect(() => {
+    if (!session?.deadlineAt || result) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [session, result])
+
+  const questions: QuestionContentItem[] = useMemo(() => meta?.questions_content?.questions ?? [], [meta])
   const stems: Record<string, StemContent> = meta?.questions_content?.stems ?? {}
   const stemRangeLabels = useMemo(() => buildStemRangeLabels(questions), [questions])
   const totalQuestions = questions.length
   const allAnswered = totalQuestions > 0 && questions.every(q => responses[String(q.n)])
   const answeredCount = Object.keys(responses).length
+  const remainingMs = session?.deadlineAt
+    ? new Date(session.deadlineAt).getTime() - (now + clockOffsetRef.current)
+    : null
 
   // Keyboard nav in question view.
   useEffect(() => {
@@ -129,36 +289,84 @@ export default function StudentTakePage({
     return () => window.removeEventListener("keydown", onKey)
   }, [view, currentIdx, totalQuestions])
 
+  // Class-linked tests take the name from the signed-in student's account
+  const classLinked = !!meta?.class_linked
+
+  const onStart = async () => {
+    if (!classLinked && !studentName.trim()) return
+    setStarting(true)
+    setStartError(null)
+    setNeedsSignIn(false)
+    try {
+      const res = await fetch(`/api/practice-tests/take/${shareToken}/start`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(classLinked ? {} : { studentName: studentName.trim() }),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        setStartError(json.error ?? "Failed to start")
+        setNeedsSignIn(res.status === 401)
+        return
+      }
+      if (json.submitted) {
+        // One attempt only, and they've used it
+        setStudentName(json.studentName)
+        finish(json.submitted)
+        return
+      }
+      beginSession(json.session, [])
+    } catch {
+      setStartError("Network error — please try again")
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  // Clicking the chosen answer again clears it
   const onChoose = (qNum: number, letter: AnswerLetter) => {
-    setResponses(prev => ({ ...prev, [String(qNum)]: letter }))
+    if (!session || result) return
+    const change: AnswerChange = { q: qNum, answer: responses[String(qNum)] === letter ? null : letter, at: Date.now() }
+    setResponses(prev => replay(prev, [change]))
+    pendingRef.current = [...pendingRef.current, change]
+    writeStored(shareToken, { resumeToken: session.resumeToken, pending: pendingRef.current })
+    if (saveStatus !== "offline") setSaveStatus("saving")
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+    saveTimerRef.current = setTimeout(() => autosave(), AUTOSAVE_DELAY_MS)
   }
 
-  const onSubmit = async () => {
-    if (!studentName.trim()) return
+  const onSubmit = useCallback(async () => {
+    if (!session || result) return
     setSubmitting(true)
     setSubmitError(null)
     try {
       const res = await fetch(`/api/practice-tests/take/${shareToken}/submit`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ studentName: studentName.trim(), responses }),
+        body: JSON.stringify({
+          resumeToken: session.resumeToken,
+          changes: pendingRef.current,
+          clientNow: Date.now(),
+        }),
       })
       const json = await res.json()
       if (!res.ok) {
         setSubmitError(json.error ?? "Failed to submit")
         return
       }
-      setResult({
-        scoreTotal: json.scoreTotal,
-        scoreMax: json.scoreMax,
-        bigIdeaBreakdown: json.bigIdeaBreakdown,
-      })
+      finish(json)
     } catch {
-      setSubmitError("Network error — please try again")
+      setSubmitError("Network error — your answers are saved on this device. Reconnect and submit again.")
     } finally {
       setSubmitting(false)
     }
-  }
+  }, [session, result, shareToken, finish])
+
+  // Time's up: submit for the student
+  const timeUp = remainingMs !== null && remainingMs <= 0
+  useEffect(() => {
+    if (timeUp && !submitting && !submitError) onSubmit()
+  }, [timeUp, submitting, submitError, onSubmit])
 
   if (error) {
     return (
@@ -194,15 +402,18 @@ export default function StudentTakePage({
           </div>
         </header>
         <div className="pt-card">
+          {result.autoSubmitted && (
+            <p className="pt-time-up">Time ran out — your saved answers were submitted automatically.</p>
+          )}
           <h2 className="pt-section-title">Your score</h2>
           <div className="pt-score">
             {result.scoreTotal}<span className="pt-score-sep">/</span>{result.scoreMax}
             <span className="pt-score-pct">· {pct.toFixed(0)}%</span>
           </div>
           <div style={{ marginTop: 24 }}>
-            <h2 className="pt-section-title">Performance by Big Idea</h2>
+            <h2 className="pt-section-title">Performance by category</h2>
             <div className="pt-bg-light">
-              <BigIdeaBars breakdown={result.bigIdeaBreakdown} sortByWeakest={false} />
+              <CategoryBars breakdown={result.categoryBreakdown} taxonomy={result.taxonomy} sortByWeakest={false} />
             </div>
           </div>
           <p className="pt-footer-note">Your responses have been recorded. Close this tab when you're done.</p>
@@ -212,7 +423,7 @@ export default function StudentTakePage({
   }
 
   // Name gate
-  if (!nameLocked) {
+  if (!session) {
     return (
       <div className="pt-shell">
         <Style />
@@ -224,24 +435,53 @@ export default function StudentTakePage({
         </header>
         <div className="pt-card">
           <h2 className="pt-section-title">Before you begin</h2>
-          <p style={{ marginBottom: 16 }}>Enter your full name so your teacher can identify your submission.</p>
-          <input
-            className="pt-name-input"
-            type="text"
-            placeholder="First and last name"
-            value={studentName}
-            onChange={(e) => setStudentName(e.target.value)}
-            maxLength={80}
-            autoFocus
-          />
+          {classLinked ? (
+            <p style={{ marginBottom: 16 }}>
+              This practice test is for your class. You need to be signed in to your student account; your score goes
+              to your teacher&apos;s gradebook. If you started on another device, you&apos;ll pick up where you left off.
+            </p>
+          ) : (
+            <p style={{ marginBottom: 16 }}>Enter your full name so your teacher can identify your submission.</p>
+          )}
+          {meta.time_limit_minutes && (
+            <p style={{ marginBottom: 16 }}>
+              You will have <strong>{meta.time_limit_minutes} minutes</strong>. The timer starts when you press Start
+              and keeps running if you close this tab; when it runs out, your answers are submitted automatically.
+            </p>
+          )}
+          {!classLinked && (
+            <input
+              className="pt-name-input"
+              type="text"
+              placeholder="First and last name"
+              value={studentName}
+              onChange={(e) => setStudentName(e.target.value)}
+              maxLength={80}
+              autoFocus
+            />
+          )}
           <button
             className="pt-primary-btn"
-            disabled={!studentName.trim()}
-            onClick={() => setNameLocked(true)}
+            disabled={(!classLinked && !studentName.trim()) || starting}
+            onClick={onStart}
             style={{ marginTop: 12 }}
           >
-            Start practice test →
+            {starting ? "Starting…" : "Start practice test →"}
           </button>
+          {startError && (
+            <p className="pt-submit-warn" style={{ marginTop: 8 }}>
+              {startError}
+              {needsSignIn && (
+                <>
+                  {" "}
+                  <a href="/auth/signin" target="_blank" rel="noreferrer" style={{ textDecoration: "underline" }}>
+                    Sign in
+                  </a>
+                  , then come back to this tab and press Start again.
+                </>
+              )}
+            </p>
+          )}
         </div>
       </div>
     )
@@ -260,9 +500,23 @@ export default function StudentTakePage({
             {totalQuestions} question{totalQuestions === 1 ? "" : "s"} · {studentName}
           </div>
         </div>
-        <div className="pt-meta">
-          <div className="pt-meta-label">Answered</div>
-          <div>{answeredCount}/{totalQuestions}</div>
+        <div className="pt-meta-group">
+          {remainingMs !== null && (
+            <div className={`pt-meta ${remainingMs < LOW_TIME_MS ? "pt-time-low" : ""}`}>
+              <div className="pt-meta-label">Time left</div>
+              <div className="pt-timer">{formatDuration(remainingMs)}</div>
+            </div>
+          )}
+          <div className="pt-meta">
+            <div className="pt-meta-label">Answered</div>
+            <div>{answeredCount}/{totalQuestions}</div>
+          </div>
+          <div className="pt-meta">
+            <div className="pt-meta-label">Progress</div>
+            <div className={saveStatus === "offline" ? "pt-save-offline" : ""}>
+              {saveStatus === "saved" ? "Saved" : saveStatus === "saving" ? "Saving…" : "Offline — saved on this device"}
+            </div>
+          </div>
         </div>
       </header>
 
@@ -328,13 +582,13 @@ export default function StudentTakePage({
                 <div className="pt-q-figure" dangerouslySetInnerHTML={{ __html: q.figure }} />
               )}
               <div className="pt-choices">
-                {q.choices.map((c, i) => (
+                {q.choices.slice(0, ANSWER_LETTERS.length).map((c, i) => (
                   <ChoicesAreText
                     key={i}
                     choice={c}
-                    letter={LETTERS[i]}
-                    selected={responses[String(q.n)] === LETTERS[i]}
-                    onClick={() => onChoose(q.n, LETTERS[i])}
+                    letter={ANSWER_LETTERS[i]}
+                    selected={responses[String(q.n)] === ANSWER_LETTERS[i]}
+                    onClick={() => onChoose(q.n, ANSWER_LETTERS[i])}
                   />
                 ))}
               </div>
@@ -403,6 +657,14 @@ const STYLE_CSS = `
       }
       .pt-meta { font-family: ui-monospace, JetBrains Mono, monospace; font-size: 0.8rem; color: var(--pt-green); text-align: right; }
       .pt-meta-label { color: var(--pt-muted); text-transform: uppercase; letter-spacing: 0.08em; font-size: 0.7rem; }
+      .pt-meta-group { display: flex; gap: 24px; align-items: baseline; }
+      .pt-timer { font-size: 1.1rem; font-weight: 700; font-variant-numeric: tabular-nums; }
+      .pt-time-low .pt-timer { color: #c0392b; }
+      .pt-save-offline { color: #c0392b; }
+      .pt-time-up {
+        background: rgba(200,169,81,0.15); border: 1px solid var(--pt-gold);
+        border-radius: 4px; padding: 10px 14px; margin: 0 0 20px 0; color: var(--pt-green);
+      }
 
       .pt-view-toggle {
         display: flex; gap: 0;
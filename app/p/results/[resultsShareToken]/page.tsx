@@ -1,7 +1,7 @@
 "use client"
 
 import { use, useEffect, useState } from "react"
-import { BigIdeaBars } from "@/components/practice-tests/big-idea-bars"
+import { CategoryBars } from "@/components/practice-tests/category-bars"
 import { PracticeTestResultsPayload } from "@/lib/types/practice-test"
 
 export default function ColleagueResultsPage({
@@ -85,10 +85,11 @@ export default function ColleagueResultsPage({
         </header>
 
         <section>
-          <h2 className="text-xl font-semibold mb-4">Class performance by Big Idea</h2>
+          <h2 className="text-xl font-semibold">Class performance by category</h2>
+          <p className="text-sm text-muted-foreground mb-4">{data.test.taxonomy.name}</p>
           {data.aggregate.submissions > 0 ? (
             <div className="border rounded-md p-5">
-              <BigIdeaBars breakdown={data.aggregate.big_idea} />
+              <CategoryBars breakdown={data.aggregate.categories} taxonomy={data.test.taxonomy} />
             </div>
           ) : (
             <p className="text-muted-foreground">No submissions yet.</p>
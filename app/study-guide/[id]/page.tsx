@@ -1,4 +1,7 @@
 import { supabase } from '@/lib/supabase'
+import { createAdminClient, createServerSupabaseClient } from '@/lib/supabase-server'
+import { guideRole } from '@/lib/collab/access'
+import { assignedRevision } from '@/lib/revisions/store'
 import { notFound, redirect } from 'next/navigation'
 import StudyGuideViewer from '@/components/study-guide-viewer'
 import { Metadata } from 'next'
@@ -43,12 +46,37 @@ export default async function StudyGuidePage({ params }: StudyGuidePageProps) {
     notFound()
   }
 
-  // Static-saved guides are pointers to a hand-coded static route (e.g. /marinescience/...).
+  // Static-saved guides are pointers to a static route (e.g. /marinescience/...),
+  // which redirects on to the custom guide imported from that page.
   // Their custom_content has no `sections`, so rendering CustomFormat would crash.
   const cc = studyGuide.custom_content as { is_static?: boolean; static_route?: string } | null
   if (cc?.is_static && cc.static_route) {
     redirect(cc.static_route)
   }
 
+  // Students see the version their class was assigned until the teacher
+  // pushes an update; the guide's owner and co-editors always see the latest
+  if (studyGuide.format === 'custom') {
+    const { data: { user } } = await (await createServerSupabaseClient()).auth.getUser()
+    if (user && user.id !== studyGuide.user_id) {
+      const admin = createAdminClient()
+      const revision = (await guideRole(admin, id, user.id)) ? null : await assignedRevision(admin, id, user.id)
+      if (revision) {
+        return (
+          <StudyGuideViewer
+            studyGuide={{
+              ...studyGuide,
+              title: revision.title,
+              subject: revision.subject,
+              grade_level: revision.grade_level,
+              class_name: revision.class_name,
+              custom_content: revision.custom_content,
+            }}
+          />
+        )
+      }
+    }
+  }
+
   return <StudyGuideViewer studyGuide={studyGuide} />
 }
@@ -0,0 +1,570 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import NavigationHeader from "@/components/navigation-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Skeleton } from "@/components/ui/skeleton"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useAuth } from "@/lib/auth"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeft, ChevronDown, ChevronRight, Loader2, Pin, Scale, Trash2 } from "lucide-react"
+import {
+  DEFAULT_SPREAD_THRESHOLD,
+  MAX_CALIBRATION_RUNS,
+  MAX_CALIBRATION_SAMPLE,
+  type CalibrationMode,
+  type CalibrationRun,
+  type QuestionSpread,
+} from "@/lib/grading/calibration"
+import { normalizeLabel } from "@/lib/grading/structured-output"
+
+type CalibrationStatus = "queued" | "running" | "done" | "failed" | "cancelled"
+
+interface CalibrationSummary {
+  id: string
+  mode: CalibrationMode
+  status: CalibrationStatus
+  completed_runs: number
+  total_runs: number
+  error: string | null
+  created_at: string
+}
+
+interface CalibrationReport {
+  calibration: CalibrationSummary & { runs_per_submission: number; spread_threshold: number }
+  students: Record<string, string>
+  questions: QuestionSpread[]
+  runs: CalibrationRun[]
+}
+
+interface GradedSubmission {
+  id: string
+  student: { email: string; first_name: string | null; last_name: string | null } | null
+  grading_result: { id: string } | null
+}
+
+interface Anchor {
+  id: string
+  question_number: string
+  answer: string
+  marks_awarded: number
+  marks_possible: number
+  rationale: string | null
+}
+
+interface AnchorDraft {
+  question: string
+  answer: string
+  marksAwarded: string
+  marksPossible: number
+  rationale: string
+  submissionId: string
+}
+
+const STATUS_LABELS: Record<CalibrationStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  done: "Done",
+  failed: "Failed",
+  cancelled: "Cancelled",
+}
+
+const POLL_MS = 4000
+
+function studentDisplay(s: GradedSubmission["student"]): string {
+  if (!s) return "Unknown student"
+  if (s.first_name || s.last_name) return `${s.first_name ?? ""} ${s.last_name ?? ""}`.trim()
+  return s.email
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+export default function AssignmentCalibrationPage() {
+  const params = useParams<{ id: string }>()
+  const assignmentId = params?.id
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { toast } = useToast()
+
+  const [title, setTitle] = useState("")
+  const [graded, setGraded] = useState<GradedSubmission[]>([])
+  const [calibrations, setCalibrations] = useState<CalibrationSummary[]>([])
+  const [anchors, setAnchors] = useState<Anchor[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const [mode, setMode] = useState<CalibrationMode>("sample")
+  const [sampleSize, setSampleSize] = useState("5")
+  const [repeatId, setRepeatId] = useState("")
+  const [runs, setRuns] = useState("1")
+  const [thresholdPct, setThresholdPct] = useState(String(DEFAULT_SPREAD_THRESHOLD * 100))
+  const [starting, setStarting] = useState(false)
+
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [report, setReport] = useState<CalibrationReport | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [draft, setDraft] = useState<AnchorDraft | null>(null)
+  const [pinning, setPinning] = useState(false)
+
+  const isTeacher = user?.user_type === "teacher"
+
+  const fetchAll = useCallback(async () => {
+    if (!assignmentId) return
+    try {
+      const [aRes, sRes, cRes, anRes] = await Promise.all([
+        fetch(`/api/assignments/${assignmentId}`),
+        fetch(`/api/assignments/${assignmentId}/submissions`),
+        fetch(`/api/assignments/${assignmentId}/calibrations`),
+        fetch(`/api/assignments/${assignmentId}/anchors`),
+      ])
+      const [aJson, sJson, cJson, anJson] = await Promise.all([aRes.json(), sRes.json(), cRes.json(), anRes.json()])
+      if (!aRes.ok) {
+        toast({ title: aJson.error ?? "Failed to load assignment", variant: "destructive" })
+        if (aRes.status === 403 || aRes.status === 404) router.push("/teacher/classes")
+        return
+      }
+      setTitle(aJson.assignment.title)
+      setGraded(((sJson.submissions ?? []) as GradedSubmission[]).filter(s => s.grading_result))
+      const list: CalibrationSummary[] = cJson.calibrations ?? []
+      setCalibrations(list)
+      setSelectedId(curr => curr ?? list[0]?.id ?? null)
+      setAnchors(anJson.anchors ?? [])
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setLoading(false)
+    }
+  }, [assignmentId, router, toast])
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) { router.push("/auth/signin"); return }
+    if (!isTeacher) { router.push("/"); return }
+    fetchAll()
+  }, [authLoading, user, isTeacher, router, fetchAll])
+
+  const fetchReport = useCallback(async () => {
+    if (!assignmentId || !selectedId) return
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/calibrations/${selectedId}`)
+      const json = await res.json()
+      if (res.ok) setReport(json)
+    } catch (err) {
+      console.error(err)
+    }
+  }, [assignmentId, selectedId])
+
+  // Re-grading runs in a background job: poll while the selected one is going
+  const reportStatus = report?.calibration.id === selectedId ? report?.calibration.status : undefined
+  useEffect(() => {
+    fetchReport()
+    if (reportStatus && reportStatus !== "queued" && reportStatus !== "running") return
+    const timer = window.setInterval(fetchReport, POLL_MS)
+    return () => window.clearInterval(timer)
+  }, [fetchReport, reportStatus])
+
+  const start = async () => {
+    if (mode === "repeat" && !repeatId) {
+      toast({ title: "Choose the submission to re-grade", variant: "destructive" })
+      return
+    }
+    setStarting(true)
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/calibrations`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          mode,
+          submission_ids: mode === "repeat" ? [repeatId] : undefined,
+          sample_size: mode === "sample" ? Number(sampleSize) : undefined,
+          runs: Number(runs),
+          threshold: Number(thresholdPct) / 100,
+        }),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to start calibration", variant: "destructive" })
+        return
+      }
+      toast({ title: "Calibration started", description: "Re-grading runs in the background." })
+      setSelectedId(json.calibration.id)
+      setReport(null)
+      fetchAll()
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setStarting(false)
+    }
+  }
+
+  const openPin = (q: QuestionSpread, submissionId: string) => {
+    const key = normalizeLabel(q.question)
+    const answers = (report?.runs ?? [])
+      .filter(r => r.submissionId === submissionId)
+      .map(r => r.questions.find(x => normalizeLabel(x.question) === key))
+      .filter(x => !!x)
+    const withEvidence = answers.find(a => a.evidence.length > 0) ?? answers[0]
+    const marks = q.submissions.find(s => s.submissionId === submissionId)?.marks ?? []
+    setDraft({
+      question: q.question,
+      answer: withEvidence?.evidence.join("\n") ?? "",
+      marksAwarded: marks.length > 0 ? String(median(marks)) : "",
+      marksPossible: q.marksPossible,
+      rationale: withEvidence?.feedback ?? "",
+      submissionId,
+    })
+  }
+
+  const pin = async () => {
+    if (!draft) return
+    setPinning(true)
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/anchors`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          question_number: draft.question,
+          answer: draft.answer,
+          marks_awarded: Number(draft.marksAwarded),
+          marks_possible: draft.marksPossible,
+          rationale: draft.rationale,
+          source_submission_id: draft.submissionId,
+          calibration_id: selectedId,
+        }),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to pin anchor", variant: "destructive" })
+        return
+      }
+      setAnchors(curr => [...curr, json.anchor])
+      setDraft(null)
+      toast({ title: "Anchor pinned", description: "Future gradings of this assignment will use it." })
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setPinning(false)
+    }
+  }
+
+  const unpin = async (anchor: Anchor) => {
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/anchors/${anchor.id}`, { method: "DELETE" })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to remove anchor", variant: "destructive" })
+        return
+      }
+      setAnchors(curr => curr.filter(a => a.id !== anchor.id))
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    }
+  }
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          <Skeleton className="h-10 w-72 mb-6" />
+          <Skeleton className="h-96" />
+        </div>
+      </div>
+    )
+  }
+
+  const shown = report?.calibration.id === selectedId ? report : null
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Link
+          href={`/teacher/assignments/${assignmentId}`}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          {title || "Assignment"}
+        </Link>
+        <h1 className="text-3xl font-bold">Grading calibration</h1>
+        <p className="text-sm text-muted-foreground mt-1 mb-6">
+          Re-grade submissions to see how much the AI&apos;s marks vary from run to run. For questions that vary too
+          much, pin a moderated answer as an anchor; every later grading of this assignment marks against it.
+        </p>
+
+        <Card className="mb-6">
+          <CardContent className="p-6 space-y-5">
+            <RadioGroup
+              value={mode}
+              onValueChange={(v) => { setMode(v as CalibrationMode); setRuns(v === "repeat" ? "3" : "1") }}
+              className="gap-3"
+            >
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="sample" id="mode-sample" className="mt-0.5" />
+                <div>
+                  <Label htmlFor="mode-sample" className="font-medium">Re-grade a sample</Label>
+                  <p className="text-xs text-muted-foreground">Random graded submissions, compared with their existing grades</p>
+                </div>
+              </div>
+              <div className="flex items-start gap-3">
+                <RadioGroupItem value="repeat" id="mode-repeat" className="mt-0.5" />
+                <div>
+                  <Label htmlFor="mode-repeat" className="font-medium">Re-grade one submission several times</Label>
+                  <p className="text-xs text-muted-foreground">Shows the variation on a single piece of work</p>
+                </div>
+              </div>
+            </RadioGroup>
+
+            <div className="grid gap-4 sm:grid-cols-3">
+              {mode === "sample" ? (
+                <div className="space-y-2">
+                  <Label htmlFor="sample-size">Submissions</Label>
+                  <Input
+                    id="sample-size"
+                    type="number"
+                    min={1}
+                    max={MAX_CALIBRATION_SAMPLE}
+                    value={sampleSize}
+                    onChange={(e) => setSampleSize(e.target.value)}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label>Submission</Label>
+                  <Select value={repeatId} onValueChange={setRepeatId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={graded.length === 0 ? "Nothing graded yet" : "Choose a student"} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {graded.map(s => (
+                        <SelectItem key={s.id} value={s.id}>{studentDisplay(s.student)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="runs">Re-grades each</Label>
+                <Input
+                  id="runs"
+                  type="number"
+                  min={1}
+                  max={MAX_CALIBRATION_RUNS}
+                  value={runs}
+                  onChange={(e) => setRuns(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="threshold">Flag spread over (%)</Label>
+                <Input
+                  id="threshold"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={thresholdPct}
+                  onChange={(e) => setThresholdPct(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <Button onClick={start} disabled={starting}>
+              {starting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Scale className="h-4 w-4 mr-2" />}
+              Start calibration
+            </Button>
+          </CardContent>
+        </Card>
+
+        {calibrations.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            {calibrations.map(c => (
+              <Button
+                key={c.id}
+                size="sm"
+                variant={c.id === selectedId ? "default" : "outline"}
+                onClick={() => { setSelectedId(c.id); setExpanded(null) }}
+              >
+                {new Date(c.created_at).toLocaleDateString()} · {c.mode === "sample" ? "Sample" : "Repeat"} · {STATUS_LABELS[c.status]}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {selectedId && !shown && <Skeleton className="h-48 mb-6" />}
+
+        {shown && (
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex items-center justify-between gap-3">
+                <CardTitle className="text-lg">Question spread</CardTitle>
+                <Badge variant={shown.calibration.status === "failed" ? "destructive" : shown.calibration.status === "done" ? "default" : "secondary"}>
+                  {STATUS_LABELS[shown.calibration.status]}
+                </Badge>
+              </div>
+              <CardDescription>
+                {shown.calibration.completed_runs} of {shown.calibration.total_runs || "?"} gradings ·
+                flagged over {Math.round(shown.calibration.spread_threshold * 100)}% of a question&apos;s marks
+                {shown.calibration.error && <span className="block text-destructive mt-1">{shown.calibration.error}</span>}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-2">
+              {shown.questions.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-8 text-center">
+                  {shown.calibration.status === "queued" || shown.calibration.status === "running"
+                    ? "Waiting for the first re-grades…"
+                    : "Not enough gradings to compare."}
+                </p>
+              ) : (
+                shown.questions.map(q => {
+                  const isOpen = expanded === q.question
+                  return (
+                    <div key={q.question} className="rounded-md">
+                      <button
+                        type="button"
+                        className="w-full flex items-center justify-between gap-3 px-4 py-3 hover:bg-muted/50 rounded-md text-left"
+                        onClick={() => setExpanded(isOpen ? null : q.question)}
+                      >
+                        <span className="flex items-center gap-2 font-medium">
+                          {isOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          {q.question}
+                        </span>
+                        <span className="flex items-center gap-3 text-sm text-muted-foreground">
+                          <span>range {q.range} / {q.marksPossible}</span>
+                          <Badge variant={q.flagged ? "destructive" : "outline"}>{Math.round(q.spread * 100)}%</Badge>
+                        </span>
+                      </button>
+                      {isOpen && (
+                        <div className="px-10 pb-3 space-y-2">
+                          {q.submissions.map(s => (
+                            <div key={s.submissionId} className="flex items-center justify-between gap-3 text-sm">
+                              <span className="truncate">{shown.students[s.submissionId] ?? "Unknown student"}</span>
+                              <span className="flex items-center gap-3 shrink-0">
+                                <span className="font-mono text-muted-foreground">{s.marks.join(" · ")}</span>
+                                <Button size="sm" variant="outline" onClick={() => openPin(q, s.submissionId)}>
+                                  <Pin className="h-3.5 w-3.5 mr-1" />
+                                  Pin anchor
+                                </Button>
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )
+                })
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Anchors</CardTitle>
+            <CardDescription>Moderated answers included in every grading of this assignment</CardDescription>
+          </CardHeader>
+          <CardContent className="p-2">
+            {anchors.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No anchors pinned yet.</p>
+            ) : (
+              anchors.map(a => (
+                <div key={a.id} className="flex items-start justify-between gap-3 rounded-md px-4 py-3 hover:bg-muted/50">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {a.question_number} · {a.marks_awarded}/{a.marks_possible}
+                    </p>
+                    <p className="text-sm text-muted-foreground line-clamp-2">{a.answer}</p>
+                    {a.rationale && <p className="text-xs text-muted-foreground mt-1 line-clamp-2">Why: {a.rationale}</p>}
+                  </div>
+                  <Button size="icon" variant="ghost" onClick={() => unpin(a)} aria-label="Remove anchor">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!draft} onOpenChange={(open) => { if (!open) setDraft(null) }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pin anchor for {draft?.question}</DialogTitle>
+            <DialogDescription>
+              Set the mark this answer deserves. The grader will mark similar answers the same way.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="anchor-answer">Answer</Label>
+                <Textarea
+                  id="anchor-answer"
+                  rows={4}
+                  value={draft.answer}
+                  onChange={(e) => setDraft({ ...draft, answer: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="anchor-marks">Marks (out of {draft.marksPossible})</Label>
+                <Input
+                  id="anchor-marks"
+                  type="number"
+                  min={0}
+                  max={draft.marksPossible}
+                  step="0.5"
+                  value={draft.marksAwarded}
+                  onChange={(e) => setDraft({ ...draft, marksAwarded: e.target.value })}
+                  className="w-28"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="anchor-rationale">Why (optional)</Label>
+                <Textarea
+                  id="anchor-rationale"
+                  rows={3}
+                  value={draft.rationale}
+                  onChange={(e) => setDraft({ ...draft, rationale: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={pin} disabled={pinning}>
+              {pinning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Pin className="h-4 w-4 mr-2" />}
+              Pin anchor
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,397 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import NavigationHeader from "@/components/navigation-header"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Skeleton } from "@/components/ui/skeleton"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { useAuth } from "@/lib/auth"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeft, BookMarked, Loader2, Pencil, Plus, Trash2, Upload, X } from "lucide-react"
+import { MAX_EXEMPLARS_PER_ASSIGNMENT, type ExemplarFile, type ExemplarMark } from "@/lib/grading/exemplars"
+
+interface Exemplar {
+  id: string
+  label: string
+  file_urls: ExemplarFile[]
+  marks: ExemplarMark[]
+}
+
+interface MarkRow {
+  question: string
+  marksAwarded: string
+  marksPossible: string
+  comment: string
+}
+
+interface ExemplarDraft {
+  id: string | null
+  label: string
+  files: ExemplarFile[]
+  marks: MarkRow[]
+}
+
+const EMPTY_ROW: MarkRow = { question: "", marksAwarded: "", marksPossible: "", comment: "" }
+
+function total(marks: ExemplarMark[]): string {
+  const awarded = marks.reduce((sum, m) => sum + m.marksAwarded, 0)
+  const possible = marks.reduce((sum, m) => sum + m.marksPossible, 0)
+  return `${awarded}/${possible}`
+}
+
+export default function AssignmentExemplarsPage() {
+  const params = useParams<{ id: string }>()
+  const assignmentId = params?.id
+  const router = useRouter()
+  const { user, loading: authLoading } = useAuth()
+  const { toast } = useToast()
+
+  const [title, setTitle] = useState("")
+  const [exemplars, setExemplars] = useState<Exemplar[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const [draft, setDraft] = useState<ExemplarDraft | null>(null)
+  const [uploading, setUploading] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const isTeacher = user?.user_type === "teacher"
+
+  const fetchAll = useCallback(async () => {
+    if (!assignmentId) return
+    try {
+      const [aRes, eRes] = await Promise.all([
+        fetch(`/api/assignments/${assignmentId}`),
+        fetch(`/api/assignments/${assignmentId}/exemplars`),
+      ])
+      const [aJson, eJson] = await Promise.all([aRes.json(), eRes.json()])
+      if (!aRes.ok) {
+        toast({ title: aJson.error ?? "Failed to load assignment", variant: "destructive" })
+        if (aRes.status === 403 || aRes.status === 404) router.push("/teacher/classes")
+        return
+      }
+      setTitle(aJson.assignment.title)
+      setExemplars(eJson.exemplars ?? [])
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setLoading(false)
+    }
+  }, [assignmentId, router, toast])
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) { router.push("/auth/signin"); return }
+    if (!isTeacher) { router.push("/"); return }
+    fetchAll()
+  }, [authLoading, user, isTeacher, router, fetchAll])
+
+  // A new exemplar starts from the questions of the first one, marks blank
+  const openNew = () => {
+    const questions = exemplars[0]?.marks ?? []
+    setDraft({
+      id: null,
+      label: `Script ${String.fromCharCode(65 + exemplars.length)}`,
+      files: [],
+      marks: questions.length > 0
+        ? questions.map(m => ({ ...EMPTY_ROW, question: m.question, marksPossible: String(m.marksPossible) }))
+        : [{ ...EMPTY_ROW }],
+    })
+  }
+
+  const openEdit = (e: Exemplar) => {
+    setDraft({
+      id: e.id,
+      label: e.label,
+      files: e.file_urls,
+      marks: e.marks.map(m => ({
+        question: m.question,
+        marksAwarded: String(m.marksAwarded),
+        marksPossible: String(m.marksPossible),
+        comment: m.comment ?? "",
+      })),
+    })
+  }
+
+  const updateRow = (index: number, patch: Partial<MarkRow>) => {
+    if (!draft) return
+    setDraft({ ...draft, marks: draft.marks.map((r, i) => (i === index ? { ...r, ...patch } : r)) })
+  }
+
+  const uploadFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0 || !draft) return
+    setUploading(true)
+    try {
+      const uploaded: ExemplarFile[] = []
+      for (const file of Array.from(files)) {
+        const fd = new FormData()
+        fd.append("file", file)
+        fd.append("folder", "casanovastudy/exemplars")
+        const res = await fetch("/api/upload-to-cloudinary", { method: "POST", body: fd })
+        const json = await res.json()
+        if (!res.ok || !json.url) {
+          toast({ title: json.error ?? `Failed to upload ${file.name}`, variant: "destructive" })
+          return
+        }
+        uploaded.push({ url: json.url, name: file.name, type: file.type || null })
+      }
+      setDraft(d => (d ? { ...d, files: [...d.files, ...uploaded] } : d))
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const save = async () => {
+    if (!draft) return
+    setSaving(true)
+    try {
+      const res = await fetch(
+        draft.id ? `/api/assignments/${assignmentId}/exemplars/${draft.id}` : `/api/assignments/${assignmentId}/exemplars`,
+        {
+          method: draft.id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            label: draft.label,
+            files: draft.files,
+            marks: draft.marks
+              .filter(r => r.question.trim())
+              .map(r => ({
+                question: r.question,
+                marks_awarded: r.marksAwarded,
+                marks_possible: r.marksPossible,
+                comment: r.comment,
+              })),
+          }),
+        }
+      )
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to save exemplar", variant: "destructive" })
+        return
+      }
+      toast({ title: draft.id ? "Exemplar updated" : "Exemplar added", description: "Gradings from now on will use it." })
+      setDraft(null)
+      fetchAll()
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async (e: Exemplar) => {
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/exemplars/${e.id}`, { method: "DELETE" })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to remove exemplar", variant: "destructive" })
+        return
+      }
+      setExemplars(list => list.filter(x => x.id !== e.id))
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    }
+  }
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          <Skeleton className="h-10 w-64 mb-6" />
+          <Skeleton className="h-64" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+      <div className="container mx-auto px-4 py-8 max-w-4xl">
+        <Link
+          href={`/teacher/assignments/${assignmentId}`}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          {title || "Assignment"}
+        </Link>
+        <h1 className="text-3xl font-bold">Marked exemplars</h1>
+        <p className="text-sm text-muted-foreground mt-1 mb-6">
+          Attach up to {MAX_EXEMPLARS_PER_ASSIGNMENT} student scripts you&apos;ve already marked, with your mark for each
+          question. Every grading of this assignment is shown them as worked examples, and each question in the report
+          says which exemplar its mark was compared against.
+        </p>
+
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+            <div>
+              <CardTitle className="text-lg">Exemplars</CardTitle>
+              <CardDescription>{exemplars.length} of {MAX_EXEMPLARS_PER_ASSIGNMENT}</CardDescription>
+            </div>
+            <Button size="sm" onClick={openNew} disabled={exemplars.length >= MAX_EXEMPLARS_PER_ASSIGNMENT}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add exemplar
+            </Button>
+          </CardHeader>
+          <CardContent className="p-2">
+            {exemplars.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No exemplars attached yet.</p>
+            ) : (
+              exemplars.map(e => (
+                <div key={e.id} className="flex items-start justify-between gap-3 rounded-md px-4 py-3 hover:bg-muted/50">
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      {e.label} · {total(e.marks)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {e.marks.length} question{e.marks.length === 1 ? "" : "s"} marked ·{" "}
+                      {e.file_urls.map((f, i) => (
+                        <a key={i} href={f.url} target="_blank" rel="noreferrer" className="text-primary hover:underline mr-2">
+                          {f.name ?? `Page ${i + 1}`}
+                        </a>
+                      ))}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button size="icon" variant="ghost" onClick={() => openEdit(e)} aria-label="Edit exemplar">
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="icon" variant="ghost" onClick={() => remove(e)} aria-label="Remove exemplar">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!draft} onOpenChange={(open) => { if (!open) setDraft(null) }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? `Edit ${draft.label}` : "Add exemplar"}</DialogTitle>
+            <DialogDescription>
+              Upload the student&apos;s script and enter the mark you gave each question, using the mark scheme&apos;s
+              question labels.
+            </DialogDescription>
+          </DialogHeader>
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="exemplar-label">Label</Label>
+                <Input
+                  id="exemplar-label"
+                  value={draft.label}
+                  onChange={(e) => setDraft({ ...draft, label: e.target.value })}
+                  className="w-48"
+                />
+                <p className="text-xs text-muted-foreground">Reports name exemplars by label, so avoid student names.</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Marked script</Label>
+                {draft.files.map((f, i) => (
+                  <div key={i} className="flex items-center justify-between gap-2 text-sm">
+                    <a href={f.url} target="_blank" rel="noreferrer" className="text-primary hover:underline truncate">
+                      {f.name ?? `Page ${i + 1}`}
+                    </a>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDraft({ ...draft, files: draft.files.filter((_, j) => j !== i) })}
+                      aria-label="Remove file"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button asChild size="sm" variant="outline" disabled={uploading}>
+                  <label className="cursor-pointer">
+                    {uploading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                    Upload PDF or photos
+                    <input
+                      type="file"
+                      accept=".pdf,image/*"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => { uploadFiles(e.target.files); e.target.value = "" }}
+                    />
+                  </label>
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Your marks</Label>
+                <div className="grid grid-cols-[5rem_4.5rem_4.5rem_1fr_2.25rem] gap-2 text-xs text-muted-foreground">
+                  <span>Question</span>
+                  <span>Awarded</span>
+                  <span>Out of</span>
+                  <span>Comment (optional)</span>
+                  <span />
+                </div>
+                {draft.marks.map((row, i) => (
+                  <div key={i} className="grid grid-cols-[5rem_4.5rem_4.5rem_1fr_2.25rem] gap-2">
+                    <Input value={row.question} onChange={(e) => updateRow(i, { question: e.target.value })} placeholder="1a" />
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.5"
+                      value={row.marksAwarded}
+                      onChange={(e) => updateRow(i, { marksAwarded: e.target.value })}
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.5"
+                      value={row.marksPossible}
+                      onChange={(e) => updateRow(i, { marksPossible: e.target.value })}
+                    />
+                    <Input value={row.comment} onChange={(e) => updateRow(i, { comment: e.target.value })} />
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setDraft({ ...draft, marks: draft.marks.filter((_, j) => j !== i) })}
+                      aria-label="Remove question"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button size="sm" variant="ghost" onClick={() => setDraft({ ...draft, marks: [...draft.marks, { ...EMPTY_ROW }] })}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add question
+                </Button>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={save} disabled={saving || uploading}>
+              {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <BookMarked className="h-4 w-4 mr-2" />}
+              Save exemplar
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
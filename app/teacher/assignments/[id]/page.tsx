@@ -40,8 +40,13 @@ import {
   CalendarClock,
   ChevronDown,
   ChevronRight,
+  ListChecks,
+  Scale,
+  BookMarked,
 } from "lucide-react"
 import CreateAssignmentDialog from "@/components/teacher-assignments/create-assignment-dialog"
+import type { GradeScheme } from "@/lib/grading/grade-schemes"
+import { rubricTotalPoints, type Rubric } from "@/lib/grading/rubric"
 
 interface Assignment {
   id: string
@@ -54,6 +59,8 @@ interface Assignment {
   mark_scheme_text: string | null
   grading_instructions: string | null
   total_possible_marks: number | null
+  grade_scheme: GradeScheme | null
+  rubric: Rubric | null
   is_published: boolean
   auto_grade: boolean
   students_can_see_grade: boolean
@@ -89,6 +96,8 @@ interface Submission {
   grading_result_id: string | null
   grading_error: string | null
   updated_at: string
+  // Low-confidence questions still waiting for the teacher
+  pending_review_count: number
   student: {
     id: string
     email: string
@@ -105,6 +114,8 @@ interface Submission {
   class: { id: string; name: string; period: string | null } | null
 }
 
+const GRADING_POLL_MS = 5000
+
 function studentDisplay(s: Submission["student"]): string {
   if (!s) return "Unknown student"
   if (s.first_name || s.last_name) return `${s.first_name ?? ""} ${s.last_name ?? ""}`.trim()
@@ -174,6 +185,24 @@ export default function TeacherAssignmentDetailPage() {
     fetchAll()
   }, [authLoading, user, isTeacher, router, fetchAll])
 
+  // Grading runs in a background job: while any submission is still grading,
+  // re-fetch the submissions quietly until it lands
+  const anyGrading = submissions.some(s => s.status === "grading")
+  useEffect(() => {
+    if (!anyGrading || !assignmentId) return
+    const timer = window.setInterval(async () => {
+      try {
+        const res = await fetch(`/api/assignments/${assignmentId}/submissions`)
+        if (!res.ok) return
+        const json = await res.json()
+        setSubmissions(json.submissions ?? [])
+      } catch (err) {
+        console.error(err)
+      }
+    }, GRADING_POLL_MS)
+    return () => window.clearInterval(timer)
+  }, [anyGrading, assignmentId])
+
   // Deep-link from Pending Review card: scroll the target submission into view
   // and flash an amber ring. Strip ?submission= so refresh doesn't replay it.
   useEffect(() => {
@@ -214,8 +243,8 @@ export default function TeacherAssignmentDetailPage() {
 
   const gradeSubmission = async (submission: Submission) => {
     if (!assignment) return
-    if (!assignment.mark_scheme_url) {
-      toast({ title: "Add a mark scheme to this assignment first", variant: "destructive" })
+    if (!assignment.mark_scheme_url && !assignment.rubric) {
+      toast({ title: "Add a mark scheme or rubric to this assignment first", variant: "destructive" })
       return
     }
     setGradingId(submission.id)
@@ -227,14 +256,11 @@ export default function TeacherAssignmentDetailPage() {
       const res = await fetch(`/api/submissions/${submission.id}/grade`, { method: "POST" })
       const json = await res.json()
       if (!res.ok) {
-        const msg = json.error ?? "Grading failed"
-        toast({ title: "Grading failed", description: msg, variant: "destructive" })
-        // Refresh to pick up persisted 'failed' status + grading_error from DB
+        toast({ title: "Couldn't start grading", description: json.error ?? undefined, variant: "destructive" })
         fetchAll()
         return
       }
-      toast({ title: "Graded — ready for review" })
-      fetchAll()
+      toast({ title: "Grading started", description: "This page updates when it's ready for review." })
     } catch (err) {
       console.error(err)
       toast({ title: "Network error", variant: "destructive" })
@@ -301,13 +327,21 @@ export default function TeacherAssignmentDetailPage() {
 
   const isMasteryQuiz = assignment?.type === "mastery_quiz"
 
+  const awaitingReview = useMemo(() => {
+    const inReview = submissions.filter(s => s.status === "pending_review")
+    return {
+      submissions: inReview.length,
+      questions: inReview.reduce((sum, s) => sum + s.pending_review_count, 0),
+    }
+  }, [submissions])
+
   const readiness = useMemo(() => {
     if (!assignment) return null
     if (assignment.type === "mastery_quiz") {
       if (!assignment.is_published) return { label: "Unpublished draft", tone: "amber" as const }
       return { label: "Self-grading quiz", tone: "green" as const }
     }
-    const hasMarkScheme = !!(assignment.mark_scheme_url || assignment.mark_scheme_text)
+    const hasMarkScheme = !!(assignment.mark_scheme_url || assignment.mark_scheme_text || assignment.rubric)
     if (!hasMarkScheme) return { label: "Add mark scheme", tone: "amber" as const }
     if (!assignment.is_published) return { label: "Unpublished draft", tone: "amber" as const }
     return { label: "Ready to grade", tone: "green" as const }
@@ -321,7 +355,9 @@ export default function TeacherAssignmentDetailPage() {
       due_at: assignment.due_at,
       grading_instructions: assignment.grading_instructions ?? "",
       total_possible_marks: assignment.total_possible_marks?.toString() ?? "",
+      grade_scheme: assignment.grade_scheme ?? null,
       mark_scheme_url: assignment.mark_scheme_url,
+      rubric: assignment.rubric ?? null,
       class_ids: linkedClasses.map(c => c.id),
       auto_grade: assignment.auto_grade,
       students_can_see_grade: assignment.students_can_see_grade,
@@ -465,6 +501,18 @@ export default function TeacherAssignmentDetailPage() {
           </Card>
         )}
 
+        {assignment.rubric && (
+          <Card className="mb-6">
+            <CardContent className="p-5 flex items-center gap-2">
+              <ListChecks className="h-4 w-4 text-muted-foreground" />
+              <span className="text-sm">
+                Graded with a rubric: {assignment.rubric.criteria.length} criteri{assignment.rubric.criteria.length === 1 ? "on" : "a"},
+                {" "}out of {rubricTotalPoints(assignment.rubric)} points
+              </span>
+            </CardContent>
+          </Card>
+        )}
+
         {isMasteryQuiz && (
           <Tabs defaultValue="progress">
             <TabsList className="mb-3">
@@ -483,8 +531,37 @@ export default function TeacherAssignmentDetailPage() {
         <Card>
           <CardContent className="p-6">
             <div className="flex items-center justify-between mb-4">
-              <h2 className="font-semibold text-lg">{isMasteryQuiz ? "Grades" : "Submissions"}</h2>
-              <Badge variant="secondary">{submissions.length}</Badge>
+              <div className="flex items-center gap-2">
+                <h2 className="font-semibold text-lg">{isMasteryQuiz ? "Grades" : "Submissions"}</h2>
+                <Badge variant="secondary">{submissions.length}</Badge>
+              </div>
+              <div className="flex items-center gap-2">
+                {!isMasteryQuiz && (assignment.mark_scheme_url || assignment.rubric) && (
+                  <Button asChild size="sm" variant="outline">
+                    <Link href={`/teacher/assignments/${assignment.id}/exemplars`}>
+                      <BookMarked className="h-4 w-4 mr-2" />
+                      Exemplars
+                    </Link>
+                  </Button>
+                )}
+                {!isMasteryQuiz && (assignment.mark_scheme_url || assignment.rubric) && submissions.some(s => s.grading_result) && (
+                  <Button asChild size="sm" variant="outline">
+                    <Link href={`/teacher/assignments/${assignment.id}/calibration`}>
+                      <Scale className="h-4 w-4 mr-2" />
+                      Calibrate
+                    </Link>
+                  </Button>
+                )}
+                {!isMasteryQuiz && awaitingReview.submissions > 0 && (
+                  <Button asChild size="sm">
+                    <Link href={`/teacher/assignments/${assignment.id}/review`}>
+                      <ListChecks className="h-4 w-4 mr-2" />
+                      Review queue
+                      {awaitingReview.questions > 0 && ` (${awaitingReview.questions})`}
+                    </Link>
+                  </Button>
+                )}
+              </div>
             </div>
 
             {submissions.length === 0 ? (
@@ -496,7 +573,7 @@ export default function TeacherAssignmentDetailPage() {
                 {submissions.map(s => {
                   const isGrading = gradingId === s.id || s.status === "grading"
                   const hasGrade = !!s.grading_result
-                  const canGrade = !!(assignment.mark_scheme_url)
+                  const canGrade = !!(assignment.mark_scheme_url || assignment.rubric)
 
                   const isHighlighted = highlightedId === s.id
 
@@ -625,13 +702,23 @@ export default function TeacherAssignmentDetailPage() {
                           </Button>
                         )}
 
+                        {/* Questions the grader was unsure of must be reviewed before returning */}
+                        {s.status === "pending_review" && s.pending_review_count > 0 && (
+                          <Button asChild size="sm">
+                            <Link href={`/teacher/assignments/${assignment.id}/review?submission=${s.id}`}>
+                              <ListChecks className="h-4 w-4 mr-2" />
+                              Review {s.pending_review_count} question{s.pending_review_count === 1 ? "" : "s"}
+                            </Link>
+                          </Button>
+                        )}
+
                         {/* Return to student — separate concept, only when pending_review */}
                         {s.status === "pending_review" && (
                           <Button
                             size="sm"
                             variant="outline"
                             onClick={() => returnSubmission(s)}
-                            disabled={gradingId === s.id}
+                            disabled={gradingId === s.id || s.pending_review_count > 0}
                           >
                             {gradingId === s.id && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                             Return to student
@@ -0,0 +1,464 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter, useSearchParams } from "next/navigation"
+import NavigationHeader from "@/components/navigation-header"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Skeleton } from "@/components/ui/skeleton"
+import { Badge } from "@/components/ui/badge"
+import { useAuth } from "@/lib/auth"
+import { useToast } from "@/hooks/use-toast"
+import { ArrowLeft, Check, CheckCircle2, Loader2, Save, Send } from "lucide-react"
+
+type ReviewStatus = "pending" | "accepted" | "adjusted" | null
+
+interface ReviewQuestion {
+  questionNumber: string
+  marksAwarded: number
+  marksPossible: number
+  explanation: string
+  criteriaMet?: string[]
+  criteriaMissed?: string[]
+  evidence?: string[]
+  confidence?: number
+  // The teacher-marked exemplar the grader compared this answer with
+  exemplar?: string
+  review_status: ReviewStatus
+}
+
+interface ReviewSubmission {
+  id: string
+  student: { id: string; email: string; first_name: string | null; last_name: string | null } | null
+  file_urls: Array<{ url: string; name: string | null; type: string | null }>
+  grading_result: { id: string; total_marks: number; total_possible_marks: number; percentage: number; grade: string }
+  questions: ReviewQuestion[]
+  pending_count: number
+}
+
+// One stop in the keyboard walk through the class
+interface Position {
+  submission: number
+  question: number
+}
+
+function studentDisplay(s: ReviewSubmission["student"]): string {
+  if (!s) return "Unknown student"
+  if (s.first_name || s.last_name) return `${s.first_name ?? ""} ${s.last_name ?? ""}`.trim()
+  return s.email
+}
+
+function isTyping(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement &&
+    (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)
+}
+
+export default function AssignmentReviewPage() {
+  const params = useParams<{ id: string }>()
+  const assignmentId = params?.id
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const startSubmissionId = searchParams?.get("submission") ?? null
+  const { user, loading: authLoading } = useAuth()
+  const { toast } = useToast()
+
+  const [title, setTitle] = useState("")
+  const [queue, setQueue] = useState<ReviewSubmission[]>([])
+  const [loading, setLoading] = useState(true)
+  const [flaggedOnly, setFlaggedOnly] = useState(true)
+  const [position, setPosition] = useState<Position | null>(null)
+  const [marks, setMarks] = useState("")
+  const [feedback, setFeedback] = useState("")
+  const [saving, setSaving] = useState(false)
+  const [releasing, setReleasing] = useState(false)
+  const marksRef = useRef<HTMLInputElement>(null)
+
+  const isTeacher = user?.user_type === "teacher"
+
+  const fetchQueue = useCallback(async () => {
+    if (!assignmentId) return
+    setLoading(true)
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/review-queue`)
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to load review queue", variant: "destructive" })
+        if (res.status === 403 || res.status === 404) router.push("/teacher/classes")
+        return
+      }
+      setTitle(json.assignment?.title ?? "")
+      setQueue(json.submissions ?? [])
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setLoading(false)
+    }
+  }, [assignmentId, router, toast])
+
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) { router.push("/auth/signin"); return }
+    if (!isTeacher) { router.push("/"); return }
+    fetchQueue()
+  }, [authLoading, user, isTeacher, router, fetchQueue])
+
+  // Every question the teacher steps through, in class order. Flagged-only
+  // keeps reviewed items in place so moving back still finds them.
+  const stops = useMemo(() => {
+    const list: Position[] = []
+    queue.forEach((s, si) => {
+      s.questions.forEach((q, qi) => {
+        if (!flaggedOnly || q.review_status !== null) list.push({ submission: si, question: qi })
+      })
+    })
+    return list
+  }, [queue, flaggedOnly])
+
+  const stopIndex = position
+    ? stops.findIndex(p => p.submission === position.submission && p.question === position.question)
+    : -1
+  const current = position ? queue[position.submission] : null
+  const currentQuestion = current && position ? current.questions[position.question] : null
+
+  // Land on the deep-linked student (or the first pending question) once loaded
+  useEffect(() => {
+    if (loading || position || stops.length === 0) return
+    const start = startSubmissionId ? queue.findIndex(s => s.id === startSubmissionId) : -1
+    const firstPending = stops.find(p => queue[p.submission].questions[p.question].review_status === "pending")
+    setPosition(
+      (start >= 0 ? stops.find(p => p.submission === start) : undefined) ?? firstPending ?? stops[0]
+    )
+  }, [loading, position, stops, queue, startSubmissionId])
+
+  // A filter change can drop the current stop; fall back to the first one
+  useEffect(() => {
+    if (position && stopIndex === -1 && stops.length > 0) setPosition(stops[0])
+  }, [position, stopIndex, stops])
+
+  useEffect(() => {
+    if (!currentQuestion) return
+    setMarks(String(currentQuestion.marksAwarded))
+    setFeedback(currentQuestion.explanation)
+  }, [currentQuestion])
+
+  const move = useCallback((delta: number) => {
+    if (stops.length === 0) return
+    const from = stopIndex === -1 ? 0 : stopIndex
+    setPosition(stops[Math.min(stops.length - 1, Math.max(0, from + delta))])
+  }, [stops, stopIndex])
+
+  const moveStudent = useCallback((delta: number) => {
+    if (!position) return
+    const submission = delta > 0
+      ? stops.find(p => p.submission > position.submission)?.submission
+      : [...stops].reverse().find(p => p.submission < position.submission)?.submission
+    if (submission === undefined) return
+    setPosition(stops.find(p => p.submission === submission)!)
+  }, [stops, position])
+
+  const save = useCallback(async (accept: boolean) => {
+    if (!current || !currentQuestion || saving) return
+    const body: Record<string, unknown> = { question_number: currentQuestion.questionNumber }
+    if (!accept) {
+      const parsed = Number(marks)
+      if (marks.trim() === "" || Number.isNaN(parsed)) {
+        toast({ title: "Enter a mark", variant: "destructive" })
+        return
+      }
+      if (parsed !== currentQuestion.marksAwarded) body.marks_awarded = parsed
+      if (feedback.trim() !== currentQuestion.explanation) body.feedback = feedback
+    }
+
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/submissions/${current.id}/questions`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to save", variant: "destructive" })
+        return
+      }
+      const reviewStatus: ReviewStatus = json.action === "adjust" ? "adjusted" : "accepted"
+      setQueue(curr => curr.map(s => s.id !== current.id ? s : {
+        ...s,
+        grading_result: { ...s.grading_result, ...json.grading_result },
+        pending_count: json.pending_count,
+        questions: s.questions.map(q =>
+          q.questionNumber === currentQuestion.questionNumber ? { ...q, ...json.question, review_status: reviewStatus } : q
+        ),
+      }))
+      move(1)
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }, [current, currentQuestion, saving, marks, feedback, toast, move])
+
+  const release = async () => {
+    if (!assignmentId) return
+    setReleasing(true)
+    try {
+      const res = await fetch(`/api/assignments/${assignmentId}/release`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({}),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to release", variant: "destructive" })
+        return
+      }
+      const released = json.released?.length ?? 0
+      const blocked = json.blocked?.length ?? 0
+      toast({
+        title: `Released ${released} submission${released === 1 ? "" : "s"}`,
+        description: blocked > 0 ? `${blocked} still have questions to review` : undefined,
+      })
+      setPosition(null)
+      fetchQueue()
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setReleasing(false)
+    }
+  }
+
+  // j/k or arrows: question; J/K: student; a: accept; e: edit marks;
+  // ⌘/Ctrl+Enter saves from the form, Esc leaves it.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (isTyping(e.target)) {
+        if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) { e.preventDefault(); save(false) }
+        if (e.key === "Escape") (e.target as HTMLElement).blur()
+        return
+      }
+      if (e.metaKey || e.ctrlKey || e.altKey) return
+      if (e.key === "j" || e.key === "ArrowDown") { e.preventDefault(); move(1) }
+      else if (e.key === "k" || e.key === "ArrowUp") { e.preventDefault(); move(-1) }
+      else if (e.key === "J") { e.preventDefault(); moveStudent(1) }
+      else if (e.key === "K") { e.preventDefault(); moveStudent(-1) }
+      else if (e.key === "a") { e.preventDefault(); save(true) }
+      else if (e.key === "e") { e.preventDefault(); marksRef.current?.focus(); marksRef.current?.select() }
+    }
+    window.addEventListener("keydown", onKey)
+    return () => window.removeEventListener("keydown", onKey)
+  }, [move, moveStudent, save])
+
+  const pendingTotal = queue.reduce((sum, s) => sum + s.pending_count, 0)
+  const readyCount = queue.filter(s => s.pending_count === 0).length
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background">
+        <NavigationHeader />
+        <div className="container mx-auto px-4 py-8">
+          <Skeleton className="h-6 w-32 mb-4" />
+          <Skeleton className="h-10 w-72 mb-6" />
+          <Skeleton className="h-64" />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <NavigationHeader />
+      <div className="container mx-auto px-4 py-8">
+        <Link
+          href={`/teacher/assignments/${assignmentId}`}
+          className="inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-4"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to assignment
+        </Link>
+
+        <div className="flex items-start justify-between gap-3 mb-6 flex-wrap">
+          <div className="min-w-0 flex-1">
+            <h1 className="text-3xl font-bold">Review grading</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              {title} · {pendingTotal} question{pendingTotal === 1 ? "" : "s"} to review · {readyCount} of {queue.length} ready to release
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="flagged-only" checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+              <Label htmlFor="flagged-only" className="text-sm">Flagged questions only</Label>
+            </div>
+            <Button onClick={release} disabled={releasing || readyCount === 0}>
+              {releasing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+              Release {readyCount > 0 ? readyCount : ""} to students
+            </Button>
+          </div>
+        </div>
+
+        {queue.length === 0 ? (
+          <Card>
+            <CardContent className="p-8 text-center text-sm text-muted-foreground">
+              Nothing is waiting for review.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 lg:grid-cols-[260px_1fr]">
+            {/* Class list */}
+            <Card>
+              <CardContent className="p-2">
+                {queue.map((s, si) => (
+                  <button
+                    key={s.id}
+                    type="button"
+                    onClick={() => {
+                      const first = stops.find(p => p.submission === si)
+                      if (first) setPosition(first)
+                    }}
+                    className={`w-full text-left rounded-md px-3 py-2 text-sm flex items-center justify-between gap-2 ${
+                      position?.submission === si ? "bg-muted font-medium" : "hover:bg-muted/50"
+                    }`}
+                  >
+                    <span className="truncate">{studentDisplay(s.student)}</span>
+                    {s.pending_count > 0 ? (
+                      <Badge variant="secondary">{s.pending_count}</Badge>
+                    ) : (
+                      <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+                    )}
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Current question */}
+            {current && currentQuestion ? (
+              <Card>
+                <CardContent className="p-6 space-y-4">
+                  <div className="flex items-start justify-between gap-3 flex-wrap">
+                    <div>
+                      <p className="text-sm text-muted-foreground">
+                        {studentDisplay(current.student)} · {current.grading_result.total_marks}/{current.grading_result.total_possible_marks}
+                        {" "}({Number(current.grading_result.percentage).toFixed(0)}%) · {current.grading_result.grade}
+                      </p>
+                      <h2 className="text-xl font-semibold">Question {currentQuestion.questionNumber}</h2>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {currentQuestion.exemplar && (
+                        <Badge variant="outline">Compared with {currentQuestion.exemplar}</Badge>
+                      )}
+                      {typeof currentQuestion.confidence === "number" && (
+                        <Badge variant={currentQuestion.review_status === null ? "secondary" : "outline"}>
+                          {Math.round(currentQuestion.confidence * 100)}% confident
+                        </Badge>
+                      )}
+                      {currentQuestion.review_status === "pending" && <Badge>Needs review</Badge>}
+                      {currentQuestion.review_status === "accepted" && <Badge variant="secondary">Accepted</Badge>}
+                      {currentQuestion.review_status === "adjusted" && <Badge variant="secondary">Adjusted</Badge>}
+                    </div>
+                  </div>
+
+                  {current.file_urls.length > 0 && (
+                    <div className="flex items-center gap-3 flex-wrap text-xs">
+                      {current.file_urls.map((f, i) => (
+                        <a key={i} href={f.url} target="_blank" rel="noreferrer" className="text-primary hover:underline truncate max-w-xs">
+                          {f.name ?? `Page ${i + 1}`}
+                        </a>
+                      ))}
+                    </div>
+                  )}
+
+                  {(currentQuestion.evidence?.length ?? 0) > 0 && (
+                    <div className="text-sm bg-muted/50 rounded-md px-3 py-2 space-y-1">
+                      <p className="text-xs text-muted-foreground">From the student&apos;s work</p>
+                      {currentQuestion.evidence!.map((quote, i) => (
+                        <p key={i} className="italic">&ldquo;{quote}&rdquo;</p>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="grid gap-3 sm:grid-cols-2 text-sm">
+                    {(currentQuestion.criteriaMet?.length ?? 0) > 0 && (
+                      <div>
+                        <p className="text-xs text-muted-foreground mb-1">Criteria met</p>
+                        <ul className="list-disc pl-5 space-y-0.5">
+                          {currentQuestion.criteriaMet!.map((c, i) => <li key={i}>{c}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                    {(currentQuestion.criteriaMissed?.length ?? 0) > 0 && (
+                      <div>
+                        <p className="text-xs text-muted-foreground mb-1">Criteria missed</p>
+                        <ul className="list-disc pl-5 space-y-0.5">
+                          {currentQuestion.criteriaMissed!.map((c, i) => <li key={i}>{c}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-end gap-3">
+                    <div className="space-y-1">
+                      <Label htmlFor="review-marks">Marks</Label>
+                      <div className="flex items-center gap-2">
+                        <Input
+                          id="review-marks"
+                          ref={marksRef}
+                          type="number"
+                          min={0}
+                          max={currentQuestion.marksPossible}
+                          step={0.5}
+                          value={marks}
+                          onChange={e => setMarks(e.target.value)}
+                          className="w-24"
+                        />
+                        <span className="text-sm text-muted-foreground">/ {currentQuestion.marksPossible}</span>
+                      </div>
+                    </div>
+                  </div>
+
+                  <div className="space-y-1">
+                    <Label htmlFor="review-feedback">Feedback</Label>
+                    <Textarea
+                      id="review-feedback"
+                      value={feedback}
+                      onChange={e => setFeedback(e.target.value)}
+                      rows={4}
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between gap-3 flex-wrap pt-1 border-t border-muted/50">
+                    <p className="text-xs text-muted-foreground">
+                      {stopIndex + 1} of {stops.length} · j/k next/previous · J/K next/previous student · a accept · e edit marks · ⌘/Ctrl+Enter save
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => save(true)} disabled={saving}>
+                        <Check className="h-4 w-4 mr-2" />
+                        Accept
+                      </Button>
+                      <Button size="sm" onClick={() => save(false)} disabled={saving}>
+                        {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center text-sm text-muted-foreground">
+                  No flagged questions — turn off &ldquo;Flagged questions only&rdquo; to check every mark, or release.
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -46,6 +46,7 @@ import CreateAssignmentDialog from "@/components/teacher-assignments/create-assi
 import ClassGradebook from "@/components/teacher-classes/class-gradebook"
 import ClassColorPicker from "@/components/class-color-picker"
 import { isClassColorToken, type ClassColorToken } from "@/lib/class-colors"
+import type { GradeScheme } from "@/lib/grading/grade-schemes"
 
 interface ClassRecord {
   id: string
@@ -54,6 +55,7 @@ interface ClassRecord {
   period: string | null
   subject: string | null
   color: string | null
+  grade_scheme: GradeScheme | null
   enrollment_code: string
   is_archived: boolean
   created_at: string
@@ -672,7 +674,7 @@ export default function TeacherClassDetailPage() {
         onOpenChange={setEditOpen}
         mode="edit"
         classId={cls.id}
-        initialValues={{ name: cls.name, period: cls.period, subject: cls.subject }}
+        initialValues={{ name: cls.name, period: cls.period, subject: cls.subject, grade_scheme: cls.grade_scheme ?? null }}
         onSaved={(updated) => setCls({ ...cls, ...updated })}
       />
 
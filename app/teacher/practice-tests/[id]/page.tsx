@@ -12,6 +12,13 @@ import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Switch } from "@/components/ui/switch"
 import { Badge } from "@/components/ui/badge"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -25,62 +32,99 @@ import {
 import { useAuth } from "@/lib/auth"
 import { useToast } from "@/hooks/use-toast"
 import {
+  ANSWER_LETTERS,
   AnswerKey,
   AnswerLetter,
-  BigIdea,
+  DEFAULT_CHOICE_COUNT,
+  DUPLICATE_POLICIES,
+  DuplicatePolicy,
+  MAX_CHOICES,
+  MIN_CHOICES,
   PracticeTestRecord,
   PracticeTestResultsPayload,
+  TAXONOMY_PRESETS,
+  TaxonomyCategory,
+  TaxonomyPreset,
 } from "@/lib/types/practice-test"
-import { BigIdeaBars } from "@/components/practice-tests/big-idea-bars"
+import { MAX_POINTS, normalizeAnswerKey, resolveTaxonomy } from "@/lib/practice-test-scoring"
+import { MAX_TIME_LIMIT_MINUTES, formatDuration } from "@/lib/practice-test-timing"
+import { CategoryBars } from "@/components/practice-tests/category-bars"
+import AttemptTimelineDialog from "@/components/practice-tests/attempt-timeline-dialog"
 import {
   ArrowLeft,
   Copy,
   Check,
+  History,
   Loader2,
+  Plus,
   RefreshCw,
   Save,
   Trash2,
 } from "lucide-react"
 
-const ANSWER_LETTERS: AnswerLetter[] = ["A", "B", "C", "D"]
-const BIG_IDEA_OPTIONS: BigIdea[] = [1, 2, 3, 4, 5, 6]
+// Radix Select items can't have an empty value
+const OPEN_TO_ANYONE = "open"
+
+const CHOICE_COUNT_OPTIONS = Array.from({ length: MAX_CHOICES - MIN_CHOICES + 1 }, (_, i) => MIN_CHOICES + i)
 
-type EditableRow = { qNum: number; answer: AnswerLetter | ""; bigIdea: BigIdea | "" }
+// points is the raw input; blank means the default of 1
+type EditableRow = { qNum: number; answer: AnswerLetter | ""; category: string; points: string }
 
 function answerKeyToRows(ak: AnswerKey | undefined | null): EditableRow[] {
-  if (!ak) return []
-  return Object.entries(ak)
-    .map(([k, v]) => ({ qNum: Number(k), answer: v.answer as AnswerLetter, bigIdea: v.bigIdea as BigIdea }))
-    .filter(r => Number.isInteger(r.qNum) && r.qNum >= 1)
+  return Object.entries(normalizeAnswerKey(ak))
+    .map(([k, v]) => ({
+      qNum: Number(k),
+      answer: v.answer,
+      category: v.category,
+      points: v.points !== undefined ? String(v.points) : "",
+    }))
     .sort((a, b) => a.qNum - b.qNum)
 }
 
-function rowsToAnswerKey(rows: EditableRow[]): AnswerKey {
+function parsePoints(raw: string): number | null {
+  if (!raw.trim()) return 1
+  const n = Number(raw)
+  return Number.isFinite(n) && n > 0 && n <= MAX_POINTS ? n : null
+}
+
+function rowIsComplete(r: EditableRow, categoryIds: Set<string>, letters: AnswerLetter[]): boolean {
+  return r.answer !== "" && letters.includes(r.answer) && categoryIds.has(r.category) && parsePoints(r.points) !== null
+}
+
+function rowsToAnswerKey(rows: EditableRow[], categoryIds: Set<string>, letters: AnswerLetter[]): AnswerKey {
   const out: AnswerKey = {}
   for (const r of rows) {
-    if (r.answer === "" || r.bigIdea === "") continue
-    out[String(r.qNum)] = { answer: r.answer, bigIdea: r.bigIdea }
+    if (!rowIsComplete(r, categoryIds, letters) || r.answer === "") continue
+    const points = parsePoints(r.points)!
+    out[String(r.qNum)] = { answer: r.answer, category: r.category, ...(points !== 1 ? { points } : {}) }
   }
   return out
 }
 
-// Parse "1,A,5\n2,C,5\n..." (commas, tabs, or whitespace separated). Returns rows
-// with question_number, answer letter, and Big Idea, sorted ascending.
-function parseBulkAnswerKey(text: string): EditableRow[] | { error: string } {
+// Parse "1,A,5\n2,C,5,2\n..." (commas, tabs, or whitespace separated). Returns
+// rows with question number, answer letter, category id, and optional points,
+// sorted ascending.
+function parseBulkAnswerKey(
+  text: string,
+  categories: TaxonomyCategory[],
+  letters: AnswerLetter[]
+): EditableRow[] | { error: string } {
   const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean)
   const rows: EditableRow[] = []
   for (const [i, line] of lines.entries()) {
     const parts = line.split(/[,\t\s]+/).map(p => p.trim()).filter(Boolean)
     if (parts.length < 3) {
-      return { error: `Line ${i + 1}: expected "q#,answer,bigIdea" (got "${line}")` }
+      return { error: `Line ${i + 1}: expected "q#,answer,category[,points]" (got "${line}")` }
     }
     const qNum = Number(parts[0])
     const answer = parts[1].toUpperCase()
-    const bigIdea = Number(parts[2])
+    const category = categories.find(c => c.id.toLowerCase() === parts[2].toLowerCase())
+    const points = parts[3] ?? ""
     if (!Number.isInteger(qNum) || qNum < 1) return { error: `Line ${i + 1}: invalid question number "${parts[0]}"` }
-    if (!ANSWER_LETTERS.includes(answer as AnswerLetter)) return { error: `Line ${i + 1}: answer must be A/B/C/D (got "${parts[1]}")` }
-    if (!BIG_IDEA_OPTIONS.includes(bigIdea as BigIdea)) return { error: `Line ${i + 1}: Big Idea must be 1–6 (got "${parts[2]}")` }
-    rows.push({ qNum, answer: answer as AnswerLetter, bigIdea: bigIdea as BigIdea })
+    if (!letters.includes(answer as AnswerLetter)) return { error: `Line ${i + 1}: answer must be ${letters.join("/")} (got "${parts[1]}")` }
+    if (!category) return { error: `Line ${i + 1}: no category with id "${parts[2]}"` }
+    if (parsePoints(points) === null) return { error: `Line ${i + 1}: points must be a number from 0 to ${MAX_POINTS} (got "${points}")` }
+    rows.push({ qNum, answer: answer as AnswerLetter, category: category.id, points })
   }
   // Dedupe — last one wins
   const map = new Map<number, EditableRow>()
@@ -130,6 +174,17 @@ export default function TeacherPracticeTestEditPage() {
   const [description, setDescription] = useState("")
   const [isActive, setIsActive] = useState(true)
   const [rows, setRows] = useState<EditableRow[]>([])
+  const [taxonomyName, setTaxonomyName] = useState("")
+  const [categories, setCategories] = useState<TaxonomyCategory[]>([])
+  const [choiceCount, setChoiceCount] = useState(DEFAULT_CHOICE_COUNT)
+  const [penalty, setPenalty] = useState("0")
+  // Minutes as typed; blank means untimed
+  const [timeLimit, setTimeLimit] = useState("")
+  // OPEN_TO_ANYONE: anyone with the link; otherwise the class it's linked to
+  const [classId, setClassId] = useState(OPEN_TO_ANYONE)
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicatePolicy>("best")
+  const [classes, setClasses] = useState<Array<{ id: string; name: string; period: string | null }>>([])
+  const [timelineAttemptId, setTimelineAttemptId] = useState<string | null>(null)
   const [bulkPaste, setBulkPaste] = useState("")
   const [questionsContentRaw, setQuestionsContentRaw] = useState("")
   const [questionsContentExpanded, setQuestionsContentExpanded] = useState(false)
@@ -139,9 +194,10 @@ export default function TeacherPracticeTestEditPage() {
   const fetchAll = useCallback(async () => {
     setLoading(true)
     try {
-      const [testRes, resultsRes] = await Promise.all([
+      const [testRes, resultsRes, classesRes] = await Promise.all([
         fetch(`/api/practice-tests/${id}`),
         fetch(`/api/practice-tests/${id}/results`),
+        fetch("/api/classes"),
       ])
       const testJson = await testRes.json()
       if (!testRes.ok) {
@@ -154,6 +210,14 @@ export default function TeacherPracticeTestEditPage() {
       setDescription(testJson.test.description ?? "")
       setIsActive(testJson.test.is_active ?? true)
       setRows(answerKeyToRows(testJson.test.answer_key))
+      const taxonomy = resolveTaxonomy(testJson.test.taxonomy)
+      setTaxonomyName(taxonomy.name)
+      setCategories(taxonomy.categories)
+      setChoiceCount(testJson.test.choice_count ?? DEFAULT_CHOICE_COUNT)
+      setPenalty(String(testJson.test.wrong_answer_penalty ?? 0))
+      setTimeLimit(testJson.test.time_limit_minutes ? String(testJson.test.time_limit_minutes) : "")
+      setClassId(testJson.test.class_id ?? OPEN_TO_ANYONE)
+      setDuplicatePolicy(testJson.test.duplicate_policy ?? "best")
       setQuestionsContentRaw(
         testJson.test.questions_content
           ? JSON.stringify(testJson.test.questions_content, null, 2)
@@ -164,6 +228,10 @@ export default function TeacherPracticeTestEditPage() {
         const r = await resultsRes.json()
         setResults(r)
       }
+      if (classesRes.ok) {
+        const c = await classesRes.json()
+        setClasses(c.classes ?? [])
+      }
     } catch (err) {
       console.error(err)
       toast({ title: "Network error", variant: "destructive" })
@@ -189,8 +257,12 @@ export default function TeacherPracticeTestEditPage() {
     return `${window.location.origin}/p/results/${test.results_share_token}`
   }, [test])
 
+  const letters = ANSWER_LETTERS.slice(0, choiceCount)
+  const categoryIds = useMemo(() => new Set(categories.map(c => c.id)), [categories])
+  const completeRows = rows.filter(r => rowIsComplete(r, categoryIds, letters)).length
+
   const onApplyBulk = () => {
-    const parsed = parseBulkAnswerKey(bulkPaste)
+    const parsed = parseBulkAnswerKey(bulkPaste, categories, letters)
     if ("error" in parsed) {
       toast({ title: parsed.error, variant: "destructive" })
       return
@@ -207,25 +279,69 @@ export default function TeacherPracticeTestEditPage() {
   const setRowAnswer = (qNum: number, answer: AnswerLetter | "") => {
     setRows(prev => prev.map(r => r.qNum === qNum ? { ...r, answer } : r))
   }
-  const setRowBigIdea = (qNum: number, bigIdea: BigIdea | "") => {
-    setRows(prev => prev.map(r => r.qNum === qNum ? { ...r, bigIdea } : r))
+  const setRowCategory = (qNum: number, category: string) => {
+    setRows(prev => prev.map(r => r.qNum === qNum ? { ...r, category } : r))
+  }
+  const setRowPoints = (qNum: number, points: string) => {
+    setRows(prev => prev.map(r => r.qNum === qNum ? { ...r, points } : r))
   }
   const addRow = () => {
     const next = rows.length === 0 ? 1 : Math.max(...rows.map(r => r.qNum)) + 1
-    setRows(prev => [...prev, { qNum: next, answer: "", bigIdea: "" }])
+    setRows(prev => [...prev, { qNum: next, answer: "", category: "", points: "" }])
+  }
+
+  // Swapping in a preset leaves rows pointing at old categories incomplete
+  const applyPreset = (preset: TaxonomyPreset) => {
+    setTaxonomyName(TAXONOMY_PRESETS[preset].name)
+    setCategories(TAXONOMY_PRESETS[preset].categories)
+  }
+  const setCategoryLabel = (id: string, label: string) => {
+    setCategories(prev => prev.map(c => c.id === id ? { ...c, label } : c))
+  }
+  const addCategory = () => {
+    let n = categories.length + 1
+    while (categoryIds.has(`C${n}`)) n++
+    setCategories(prev => [...prev, { id: `C${n}`, label: "" }])
+  }
+  const removeCategory = (id: string) => {
+    setCategories(prev => prev.filter(c => c.id !== id))
   }
   const removeRow = (qNum: number) => {
     setRows(prev => prev.filter(r => r.qNum !== qNum))
   }
 
   const onSave = async () => {
+    const penaltyValue = Number(penalty)
+    if (!penalty.trim() || !Number.isFinite(penaltyValue) || penaltyValue < 0 || penaltyValue > 1) {
+      toast({ title: "Wrong-answer penalty must be between 0 and 1", variant: "destructive" })
+      return
+    }
+    const timeLimitValue = timeLimit.trim() ? Number(timeLimit) : null
+    if (timeLimitValue !== null && (!Number.isInteger(timeLimitValue) || timeLimitValue < 1 || timeLimitValue > MAX_TIME_LIMIT_MINUTES)) {
+      toast({ title: `Time limit must be a whole number of minutes from 1 to ${MAX_TIME_LIMIT_MINUTES}`, variant: "destructive" })
+      return
+    }
+    if (!taxonomyName.trim()) {
+      toast({ title: "Give the categories a name", variant: "destructive" })
+      return
+    }
+    if (categories.some(c => !c.label.trim())) {
+      toast({ title: "Every category needs a label", variant: "destructive" })
+      return
+    }
     setSaving(true)
     try {
       const update: Record<string, unknown> = {
         title: title.trim(),
         description: description.trim() || null,
         is_active: isActive,
-        answer_key: rowsToAnswerKey(rows),
+        taxonomy: { name: taxonomyName.trim(), categories },
+        choice_count: choiceCount,
+        wrong_answer_penalty: penaltyValue,
+        time_limit_minutes: timeLimitValue,
+        class_id: classId === OPEN_TO_ANYONE ? null : classId,
+        duplicate_policy: duplicatePolicy,
+        answer_key: rowsToAnswerKey(rows, categoryIds, letters),
       }
       if (questionsContentRaw.trim()) {
         try {
@@ -352,7 +468,7 @@ export default function TeacherPracticeTestEditPage() {
           <CardContent className="space-y-4">
             <div>
               <div className="flex items-center justify-between mb-1">
-                <Label className="text-xs text-muted-foreground uppercase tracking-wide">Student link (no login)</Label>
+                <Label className="text-xs text-muted-foreground uppercase tracking-wide">Student link ({test.class_id ? "enrolled students sign in" : "no login"})</Label>
                 <div className="flex items-center gap-2">
                   <CopyLink url={studentUrl} />
                   <Button variant="outline" size="sm" onClick={() => setRegenWhich("share")}>
@@ -399,17 +515,165 @@ export default function TeacherPracticeTestEditPage() {
                 {isActive ? "Accepting student responses" : "Closed (link will show a closed message)"}
               </Label>
             </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Choices per question</Label>
+                <div className="flex gap-1">
+                  {CHOICE_COUNT_OPTIONS.map(n => (
+                    <Button
+                      key={n}
+                      type="button"
+                      size="sm"
+                      variant={choiceCount === n ? "default" : "outline"}
+                      className="h-8 px-3 font-mono"
+                      onClick={() => setChoiceCount(n)}
+                    >
+                      {ANSWER_LETTERS[0]}–{ANSWER_LETTERS[n - 1]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pt-penalty">Wrong-answer penalty</Label>
+                <Input
+                  id="pt-penalty"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={penalty}
+                  onChange={e => setPenalty(e.target.value)}
+                  className="w-32"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Fraction of a question&apos;s points taken off for a wrong answer (e.g. 0.25). Blank answers are never penalised.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="pt-time-limit">Time limit (minutes)</Label>
+                <Input
+                  id="pt-time-limit"
+                  type="number"
+                  min={1}
+                  max={MAX_TIME_LIMIT_MINUTES}
+                  step={1}
+                  value={timeLimit}
+                  onChange={e => setTimeLimit(e.target.value)}
+                  placeholder="Untimed"
+                  className="w-32"
+                />
+                <p className="text-xs text-muted-foreground">
+                  The clock starts when a student begins and keeps running if they close the tab. Answers are submitted automatically when it runs out.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Who can take it</Label>
+                <Select value={classId} onValueChange={setClassId}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={OPEN_TO_ANYONE}>Anyone with the link</SelectItem>
+                    {classes.map(c => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.name}{c.period ? ` · ${c.period}` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Linked to a class, students sign in to take it and their scores appear in that class&apos;s gradebook.
+                </p>
+              </div>
+              {classId !== OPEN_TO_ANYONE && (
+                <div className="space-y-2">
+                  <Label>Repeat attempts</Label>
+                  <Select value={duplicatePolicy} onValueChange={v => setDuplicatePolicy(v as DuplicatePolicy)}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DUPLICATE_POLICIES) as DuplicatePolicy[]).map(p => (
+                        <SelectItem key={p} value={p}>{DUPLICATE_POLICIES[p]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {duplicatePolicy === "first"
+                      ? "Students get one attempt, and that score goes in the gradebook."
+                      : duplicatePolicy === "best"
+                        ? "Students can retake it; the gradebook shows their highest score."
+                        : "Students can retake it; the gradebook shows their most recent score."}
+                  </p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Categories the answer key maps to */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="text-base flex items-center justify-between gap-3">
+              <span>Categories</span>
+              <Select onValueChange={v => applyPreset(v as TaxonomyPreset)}>
+                <SelectTrigger className="w-56 h-8 text-sm font-normal">
+                  <SelectValue placeholder="Replace with a preset…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TAXONOMY_PRESETS) as TaxonomyPreset[]).map(key => (
+                    <SelectItem key={key} value={key}>{TAXONOMY_PRESETS[key].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="pt-taxonomy-name">Name</Label>
+              <Input
+                id="pt-taxonomy-name"
+                value={taxonomyName}
+                onChange={e => setTaxonomyName(e.target.value)}
+                placeholder="AP Biology Units, NGSS HS-LS, Marine Science topics…"
+                maxLength={120}
+              />
+            </div>
+            <div className="space-y-2">
+              {categories.length === 0 && (
+                <p className="text-sm text-muted-foreground">No categories yet. Add one for each unit, standard, or tag you want scores broken down by.</p>
+              )}
+              {categories.map(c => (
+                <div key={c.id} className="flex items-center gap-2">
+                  <code className="w-20 shrink-0 text-xs text-muted-foreground truncate" title="Id used in bulk paste">{c.id}</code>
+                  <Input
+                    value={c.label}
+                    onChange={e => setCategoryLabel(c.id, e.target.value)}
+                    placeholder="Category label"
+                    maxLength={120}
+                    className="h-8"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => removeCategory(c.id)}>
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <Button variant="outline" size="sm" onClick={addCategory}>
+              <Plus className="h-3.5 w-3.5 mr-1.5" />
+              Add category
+            </Button>
           </CardContent>
         </Card>
 
-        {/* Answer key + Big Idea editor */}
+        {/* Answer key + category map */}
         <Card className="mb-6">
           <CardHeader>
-            <CardTitle className="text-base">Answer key + Big Idea map</CardTitle>
+            <CardTitle className="text-base">Answer key</CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="space-y-2">
-              <Label htmlFor="pt-bulk">Bulk paste (one row per line: <code>q#,answer,bigIdea</code>)</Label>
+              <Label htmlFor="pt-bulk">Bulk paste (one row per line: <code>q#,answer,category[,points]</code>)</Label>
               <Textarea
                 id="pt-bulk"
                 value={bulkPaste}
@@ -422,7 +686,7 @@ export default function TeacherPracticeTestEditPage() {
                 Apply paste (replaces current rows)
               </Button>
               <p className="text-xs text-muted-foreground">
-                Big Ideas: 1 Atoms, 2 Bonding/IMFs, 3 Reactions, 4 Kinetics, 5 Thermo, 6 Equilibrium/Acids/Electrochem.
+                Use the category ids listed above. Points default to 1.
               </p>
             </div>
 
@@ -432,14 +696,15 @@ export default function TeacherPracticeTestEditPage() {
                   <tr>
                     <th className="text-left px-3 py-2 font-medium w-16">Q#</th>
                     <th className="text-left px-3 py-2 font-medium">Correct answer</th>
-                    <th className="text-left px-3 py-2 font-medium">Big Idea</th>
+                    <th className="text-left px-3 py-2 font-medium">Category</th>
+                    <th className="text-left px-3 py-2 font-medium w-20">Points</th>
                     <th className="px-3 py-2 w-12"></th>
                   </tr>
                 </thead>
                 <tbody>
                   {rows.length === 0 && (
                     <tr>
-                      <td colSpan={4} className="px-3 py-6 text-center text-muted-foreground">
+                      <td colSpan={5} className="px-3 py-6 text-center text-muted-foreground">
                         No questions yet. Use bulk paste above or click "Add question" below.
                       </td>
                     </tr>
@@ -449,7 +714,7 @@ export default function TeacherPracticeTestEditPage() {
                       <td className="px-3 py-1.5 font-mono">{row.qNum}</td>
                       <td className="px-3 py-1.5">
                         <div className="flex gap-1">
-                          {ANSWER_LETTERS.map(letter => (
+                          {letters.map(letter => (
                             <Button
                               key={letter}
                               type="button"
@@ -464,20 +729,31 @@ export default function TeacherPracticeTestEditPage() {
                         </div>
                       </td>
                       <td className="px-3 py-1.5">
-                        <div className="flex gap-1">
-                          {BIG_IDEA_OPTIONS.map(bi => (
-                            <Button
-                              key={bi}
-                              type="button"
-                              size="sm"
-                              variant={row.bigIdea === bi ? "default" : "outline"}
-                              className="h-7 w-7 p-0 font-mono"
-                              onClick={() => setRowBigIdea(row.qNum, row.bigIdea === bi ? "" : bi)}
-                            >
-                              {bi}
-                            </Button>
-                          ))}
-                        </div>
+                        <Select
+                          value={categoryIds.has(row.category) ? row.category : ""}
+                          onValueChange={v => setRowCategory(row.qNum, v)}
+                        >
+                          <SelectTrigger className="h-7 text-xs">
+                            <SelectValue placeholder="Choose…" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {categories.map(c => (
+                              <SelectItem key={c.id} value={c.id}>{c.label || c.id}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </td>
+                      <td className="px-3 py-1.5">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={MAX_POINTS}
+                          step="any"
+                          value={row.points}
+                          onChange={e => setRowPoints(row.qNum, e.target.value)}
+                          placeholder="1"
+                          className="h-7 w-16 text-xs"
+                        />
                       </td>
                       <td className="px-3 py-1.5">
                         <Button variant="ghost" size="sm" onClick={() => removeRow(row.qNum)}>
@@ -495,7 +771,7 @@ export default function TeacherPracticeTestEditPage() {
             </Button>
 
             <p className="text-xs text-muted-foreground">
-              {rows.filter(r => r.answer && r.bigIdea).length} of {rows.length} rows complete.
+              {completeRows} of {rows.length} rows complete.
               Incomplete rows are discarded on save.
             </p>
           </CardContent>
@@ -518,7 +794,7 @@ export default function TeacherPracticeTestEditPage() {
           {questionsContentExpanded && (
             <CardContent>
               <p className="text-xs text-muted-foreground mb-2">
-                Paste a JSON object with shape <code>{"{ \"questions\": [...], \"stems\": {...} }"}</code> matching the standalone quiz HTML's data structure. Leave empty to skip — students will only see "Question N" and four answer letters.
+                Paste a JSON object with shape <code>{"{ \"questions\": [...], \"stems\": {...} }"}</code> matching the standalone quiz HTML&apos;s data structure. Leave empty to skip — students will only see &quot;Question N&quot; and the answer letters.
               </p>
               <Textarea
                 value={questionsContentRaw}
@@ -531,19 +807,24 @@ export default function TeacherPracticeTestEditPage() {
           )}
         </Card>
 
-        {/* Class-level Big Idea aggregate */}
+        {/* Class-level category aggregate */}
         <Card className="mb-6">
           <CardHeader>
             <CardTitle className="text-base flex items-center justify-between gap-3">
-              <span>Class performance by Big Idea</span>
-              <Badge variant="secondary">
-                {results?.aggregate.submissions ?? 0} {results?.aggregate.submissions === 1 ? "submission" : "submissions"}
-              </Badge>
+              <span>Class performance by category</span>
+              <span className="flex items-center gap-2">
+                {!!results?.aggregate.in_progress && (
+                  <Badge variant="outline">{results.aggregate.in_progress} in progress</Badge>
+                )}
+                <Badge variant="secondary">
+                  {results?.aggregate.submissions ?? 0} {results?.aggregate.submissions === 1 ? "submission" : "submissions"}
+                </Badge>
+              </span>
             </CardTitle>
           </CardHeader>
           <CardContent>
             {results && results.aggregate.submissions > 0 ? (
-              <BigIdeaBars breakdown={results.aggregate.big_idea} />
+              <CategoryBars breakdown={results.aggregate.categories} taxonomy={results.test.taxonomy} />
             ) : (
               <p className="text-sm text-muted-foreground">
                 No submissions yet. Share the student link above and results will appear here.
@@ -568,7 +849,9 @@ export default function TeacherPracticeTestEditPage() {
                       <th className="text-left px-3 py-2 font-medium">Student</th>
                       <th className="text-right px-3 py-2 font-medium">Score</th>
                       <th className="text-right px-3 py-2 font-medium">Percent</th>
+                      <th className="text-right px-3 py-2 font-medium">Time</th>
                       <th className="text-right px-3 py-2 font-medium">Submitted</th>
+                      <th className="px-3 py-2 w-12"></th>
                     </tr>
                   </thead>
                   <tbody>
@@ -579,9 +862,29 @@ export default function TeacherPracticeTestEditPage() {
                           <td className="px-3 py-2">{s.student_name}</td>
                           <td className="px-3 py-2 text-right font-mono">{s.score_total}/{s.score_max}</td>
                           <td className="px-3 py-2 text-right font-mono">{pct.toFixed(0)}%</td>
+                          <td className="px-3 py-2 text-right font-mono text-muted-foreground">
+                            {s.started_at
+                              ? formatDuration(new Date(s.submitted_at).getTime() - new Date(s.started_at).getTime())
+                              : "—"}
+                            {s.auto_submitted && (
+                              <Badge variant="outline" className="ml-1.5 text-[10px] px-1.5 py-0 font-sans">Timed out</Badge>
+                            )}
+                          </td>
                           <td className="px-3 py-2 text-right text-muted-foreground">
                             {new Date(s.submitted_at).toLocaleString()}
                           </td>
+                          <td className="px-3 py-2">
+                            {s.attempt_id && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Answer timeline"
+                                onClick={() => setTimelineAttemptId(s.attempt_id)}
+                              >
+                                <History className="h-3.5 w-3.5" />
+                              </Button>
+                            )}
+                          </td>
                         </tr>
                       )
                     })}
@@ -593,6 +896,12 @@ export default function TeacherPracticeTestEditPage() {
         </Card>
       </div>
 
+      <AttemptTimelineDialog
+        testId={id}
+        attemptId={timelineAttemptId}
+        onOpenChange={open => !open && setTimelineAttemptId(null)}
+      />
+
       {/* Regenerate confirm */}
       <AlertDialog open={regenWhich !== null} onOpenChange={open => !open && setRegenWhich(null)}>
         <AlertDialogContent>
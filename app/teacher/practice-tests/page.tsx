@@ -19,8 +19,16 @@ import {
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
 import { useAuth } from "@/lib/auth"
 import { useToast } from "@/hooks/use-toast"
+import { TAXONOMY_PRESETS, TaxonomyPreset } from "@/lib/types/practice-test"
 import {
   Plus,
   ChevronRight,
@@ -39,6 +47,7 @@ interface TestRow {
   results_share_token: string
   is_active: boolean
   question_count: number
+  taxonomy_name: string
   submission_count: number
   avg_score_pct: number | null
   created_at: string
@@ -84,6 +93,7 @@ export default function TeacherPracticeTestsPage() {
   const [createOpen, setCreateOpen] = useState(false)
   const [createTitle, setCreateTitle] = useState("")
   const [createDescription, setCreateDescription] = useState("")
+  const [createPreset, setCreatePreset] = useState<TaxonomyPreset>("ap_chem_big_ideas")
   const [creating, setCreating] = useState(false)
 
   const isTeacher = user?.user_type === "teacher"
@@ -130,7 +140,11 @@ export default function TeacherPracticeTestsPage() {
       const res = await fetch("/api/practice-tests", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ title, description: createDescription.trim() || null }),
+        body: JSON.stringify({
+          title,
+          description: createDescription.trim() || null,
+          taxonomy_preset: createPreset,
+        }),
       })
       const json = await res.json()
       if (!res.ok) {
@@ -140,6 +154,7 @@ export default function TeacherPracticeTestsPage() {
       setCreateOpen(false)
       setCreateTitle("")
       setCreateDescription("")
+      setCreatePreset("ap_chem_big_ideas")
       router.push(`/teacher/practice-tests/${json.test.id}`)
     } catch (err) {
       console.error(err)
@@ -174,7 +189,7 @@ export default function TeacherPracticeTestsPage() {
           <div>
             <h1 className="text-3xl font-bold">Practice Tests</h1>
             <p className="text-muted-foreground text-sm">
-              Anonymous, link-based MC quizzes. Scores aggregate by AP Chem Big Idea (1–6).
+              Anonymous, link-based MC quizzes. Scores aggregate by the categories you define for each test.
             </p>
           </div>
           <Button onClick={() => setCreateOpen(true)}>
@@ -228,6 +243,7 @@ export default function TeacherPracticeTestsPage() {
                         <ClipboardCheck className="h-4 w-4" />
                         {t.question_count} {t.question_count === 1 ? "question" : "questions"}
                       </span>
+                      <span className="text-muted-foreground">{t.taxonomy_name}</span>
                       <span className="flex items-center gap-1 text-muted-foreground">
                         <Users className="h-4 w-4" />
                         {t.submission_count} {t.submission_count === 1 ? "submission" : "submissions"}
@@ -279,6 +295,26 @@ export default function TeacherPracticeTestsPage() {
                 rows={3}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="pt-taxonomy">Report scores by</Label>
+              <Select
+                value={createPreset}
+                onValueChange={(v) => setCreatePreset(v as TaxonomyPreset)}
+                disabled={creating}
+              >
+                <SelectTrigger id="pt-taxonomy">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TAXONOMY_PRESETS) as TaxonomyPreset[]).map(key => (
+                    <SelectItem key={key} value={key}>{TAXONOMY_PRESETS[key].name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                A starting set of categories. You can rename, add, or remove them on the test page.
+              </p>
+            </div>
           </div>
           <DialogFooter>
             <Button variant="outline" onClick={() => setCreateOpen(false)} disabled={creating}>
@@ -3,10 +3,12 @@ import NavigationHeader from "@/components/navigation-header"
 import ClassesSectionNav from "@/components/classes-section-nav"
 import ConceptDetail from "@/components/question-bank/concept-detail"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
+import type { PrerequisiteEdge } from "@/lib/mastery/prerequisites"
 import type { ConceptRecord, QuestionRecord } from "@/lib/types/question-bank"
 
-// Server component: fetches one concept + its questions (RLS-scoped to the
-// signed-in teacher). All interactions live in the ConceptDetail client island.
+// Server component: fetches one concept + its questions, plus the teacher's
+// concept list and prerequisite graph (RLS-scoped to the signed-in teacher).
+// All interactions live in the ConceptDetail client island.
 export default async function ConceptDetailPage({
   params,
 }: {
@@ -32,13 +34,23 @@ export default async function ConceptDetailPage({
     .maybeSingle()
   if (!concept) notFound()
 
-  const { data: questions } = await supabase
-    .from("question_bank_questions")
-    .select("*")
-    .eq("concept_id", conceptId)
-    .neq("status", "declined")
-    .order("status", { ascending: false }) // suggested before approved/archived
-    .order("created_at", { ascending: false })
+  const [{ data: questions }, { data: allConcepts }, { data: prerequisites }] = await Promise.all([
+    supabase
+      .from("question_bank_questions")
+      .select("*")
+      .eq("concept_id", conceptId)
+      .neq("status", "declined")
+      .order("status", { ascending: false }) // suggested before approved/archived
+      .order("created_at", { ascending: false }),
+    // The whole graph, so the prerequisites picker can rule out loops
+    supabase
+      .from("concepts")
+      .select("id, name, unit")
+      .order("name", { ascending: true }),
+    supabase
+      .from("concept_prerequisites")
+      .select("concept_id, prerequisite_id"),
+  ])
 
   return (
     <div className="min-h-screen bg-background">
@@ -48,6 +60,8 @@ export default async function ConceptDetailPage({
         <ConceptDetail
           concept={concept as ConceptRecord}
           questions={(questions ?? []) as QuestionRecord[]}
+          allConcepts={allConcepts ?? []}
+          prerequisites={(prerequisites ?? []) as PrerequisiteEdge[]}
         />
       </div>
     </div>
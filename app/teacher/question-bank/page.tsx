@@ -3,6 +3,7 @@ import NavigationHeader from "@/components/navigation-header"
 import ClassesSectionNav from "@/components/classes-section-nav"
 import QuestionBankHome from "@/components/question-bank/question-bank-home"
 import { createServerSupabaseClient } from "@/lib/supabase-server"
+import type { PrerequisiteEdge } from "@/lib/mastery/prerequisites"
 import type { ConceptWithCounts } from "@/lib/types/question-bank"
 
 // Server component: auth + data fetching happen here; interactivity lives in
@@ -21,8 +22,8 @@ export default async function QuestionBankPage() {
     .single()
   if (profile?.user_type !== "teacher") redirect("/")
 
-  // RLS scopes both queries to this teacher
-  const [{ data: concepts }, { data: questionRows }] = await Promise.all([
+  // RLS scopes these queries to this teacher
+  const [{ data: concepts }, { data: questionRows }, { data: prerequisites }] = await Promise.all([
     supabase
       .from("concepts")
       .select("*")
@@ -32,6 +33,9 @@ export default async function QuestionBankPage() {
       .from("question_bank_questions")
       .select("concept_id, status")
       .in("status", ["approved", "suggested"]),
+    supabase
+      .from("concept_prerequisites")
+      .select("concept_id, prerequisite_id"),
   ])
 
   const counts = new Map<string, { approved: number; suggested: number }>()
@@ -53,7 +57,10 @@ export default async function QuestionBankPage() {
       <NavigationHeader />
       <div className="container mx-auto px-4 py-8">
         <ClassesSectionNav />
-        <QuestionBankHome concepts={conceptsWithCounts} />
+        <QuestionBankHome
+          concepts={conceptsWithCounts}
+          prerequisites={(prerequisites ?? []) as PrerequisiteEdge[]}
+        />
       </div>
     </div>
   )
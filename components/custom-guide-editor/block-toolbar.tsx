@@ -19,6 +19,11 @@ import {
   CreditCard,
   List,
   ScrollText,
+  Sigma,
+  FlaskConical,
+  ImageIcon,
+  MapPin,
+  Video,
 } from "lucide-react"
 
 export type PresetKind = 'outline' | 'summary'
@@ -53,6 +58,11 @@ const buildingBlocks: ToolbarItem[] = [
   { kind: 'block', type: 'alert', icon: AlertCircle, label: 'Alert', description: 'Info, warning, success, or exam tip callout' },
   { kind: 'block', type: 'table', icon: Table2, label: 'Table', description: 'Data table with styled headers' },
   { kind: 'block', type: 'checklist', icon: CheckSquare, label: 'Checklist', description: 'Checkable item list' },
+  { kind: 'block', type: 'math', icon: Sigma, label: 'Math', description: 'An equation written in LaTeX' },
+  { kind: 'block', type: 'chemical-equation', icon: FlaskConical, label: 'Chemical Equation', description: 'A reaction, checked for balance as you type' },
+  { kind: 'block', type: 'image', icon: ImageIcon, label: 'Image', description: 'An uploaded image with caption and alt text' },
+  { kind: 'block', type: 'diagram', icon: MapPin, label: 'Diagram', description: 'An image with numbered, labeled hotspots' },
+  { kind: 'block', type: 'video', icon: Video, label: 'Video', description: 'A YouTube or Vimeo video with timestamps' },
 ]
 
 export function BlockToolbar({ onAddBlock, onAddPreset, disabled }: BlockToolbarProps) {
@@ -19,7 +19,13 @@ import {
   HelpCircle,
   CheckSquare,
   BookOpen,
-  CreditCard
+  CreditCard,
+  Sigma,
+  FlaskConical,
+  ImageIcon,
+  MapPin,
+  Video,
+  Lock
 } from "lucide-react"
 
 export interface BlockWrapperProps {
@@ -37,6 +43,9 @@ export interface BlockWrapperProps {
   canMoveDown?: boolean
   // Disable drag for nested blocks
   disableDrag?: boolean
+  // Live co-editing: the co-editor editing this block (read-only here), and who last changed it
+  lockedBy?: { name: string; color: string }
+  lastEdit?: { name: string; color: string; at: number }
 }
 
 const typeConfig: Record<BlockType, { icon: React.ComponentType<{ className?: string }>; label: string; color: string }> = {
@@ -48,6 +57,11 @@ const typeConfig: Record<BlockType, { icon: React.ComponentType<{ className?: st
   checklist: { icon: CheckSquare, label: 'Checklist', color: 'bg-teal-100 text-teal-700' },
   definition: { icon: BookOpen, label: 'Definition', color: 'bg-indigo-100 text-indigo-700' },
   flashcards: { icon: CreditCard, label: 'Flashcards', color: 'bg-indigo-100 text-indigo-700' },
+  math: { icon: Sigma, label: 'Math', color: 'bg-sky-100 text-sky-700' },
+  'chemical-equation': { icon: FlaskConical, label: 'Chemical Equation', color: 'bg-emerald-100 text-emerald-700' },
+  image: { icon: ImageIcon, label: 'Image', color: 'bg-rose-100 text-rose-700' },
+  diagram: { icon: MapPin, label: 'Diagram', color: 'bg-orange-100 text-orange-700' },
+  video: { icon: Video, label: 'Video', color: 'bg-red-100 text-red-700' },
 }
 
 export function BlockWrapper({
@@ -63,6 +77,8 @@ export function BlockWrapper({
   canMoveUp,
   canMoveDown,
   disableDrag = false,
+  lockedBy,
+  lastEdit,
 }: BlockWrapperProps) {
   const config = typeConfig[type]
   const Icon = config.icon
@@ -91,9 +107,10 @@ export function BlockWrapper({
   return (
     <Card
       ref={setNodeRef}
-      style={style}
+      data-block-id={id}
+      style={lockedBy ? { ...style, boxShadow: `0 0 0 2px ${lockedBy.color}` } : style}
       className={`relative transition-all ${
-        isSelected
+        isSelected && !lockedBy
           ? 'ring-2 ring-primary shadow-md'
           : 'hover:shadow-sm'
       } ${isDragging ? 'shadow-xl' : ''}`}
@@ -121,6 +138,20 @@ export function BlockWrapper({
               {title}
             </span>
           )}
+          {lockedBy ? (
+            <span
+              className="flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium text-white"
+              style={{ backgroundColor: lockedBy.color }}
+            >
+              <Lock className="h-3 w-3" />
+              {lockedBy.name} is editing
+            </span>
+          ) : lastEdit && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: lastEdit.color }} />
+              Edited by {lastEdit.name} · {new Date(lastEdit.at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-1">
@@ -162,7 +193,8 @@ export function BlockWrapper({
               e.stopPropagation()
               onDelete()
             }}
-            title="Delete"
+            disabled={!!lockedBy}
+            title={lockedBy ? `${lockedBy.name} is editing this block` : 'Delete'}
           >
             <Trash2 className="h-4 w-4" />
           </Button>
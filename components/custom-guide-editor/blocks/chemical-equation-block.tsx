@@ -0,0 +1,125 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Tex } from "@/components/formats/tex"
+import { EditorBlock, ChemicalEquationBlockData } from "@/lib/types/editor-blocks"
+import {
+  balanceCoefficients,
+  checkBalance,
+  formatEquation,
+  parseEquation,
+  withCoefficients
+} from "@/lib/chemistry/equations"
+import { AlertTriangle, CheckCircle, Scale } from "lucide-react"
+
+interface ChemicalEquationBlockProps {
+  block: EditorBlock
+  onUpdate: (updates: Partial<EditorBlock>) => void
+}
+
+export function ChemicalEquationBlock({ block, onUpdate }: ChemicalEquationBlockProps) {
+  const data = block.data as ChemicalEquationBlockData
+  const parsed = data.equation.trim() ? parseEquation(data.equation) : null
+  const check = parsed?.ok ? checkBalance(parsed.equation) : null
+  const suggestion = parsed?.ok && check && !check.balanced ? balanceCoefficients(parsed.equation) : null
+
+  const handleChange = (updates: Partial<ChemicalEquationBlockData>) => {
+    onUpdate({
+      data: { ...data, ...updates }
+    })
+  }
+
+  const applySuggestion = () => {
+    if (!parsed?.ok || !suggestion) return
+    handleChange({ equation: formatEquation(withCoefficients(parsed.equation, suggestion)) })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor={`equation-${block.id}`}>Equation</Label>
+        <Input
+          id={`equation-${block.id}`}
+          value={data.equation}
+          onChange={(e) => handleChange({ equation: e.target.value })}
+          placeholder="e.g. CH4 + 2O2 -> CO2 + 2H2O"
+          className="font-mono"
+        />
+        <p className="text-xs text-muted-foreground mt-1">
+          Put spaces around the + between species. Charges: Na+, SO4^2-. States: (aq), (s). Arrows: -&gt; or &lt;=&gt;.
+        </p>
+      </div>
+
+      <div>
+        <Label htmlFor={`equation-caption-${block.id}`}>Caption (optional)</Label>
+        <Input
+          id={`equation-caption-${block.id}`}
+          value={data.caption || ''}
+          onChange={(e) => handleChange({ caption: e.target.value })}
+          placeholder="e.g. Combustion of methane"
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id={`equation-practice-${block.id}`}
+          checked={data.practice ?? false}
+          onCheckedChange={(practice) => handleChange({ practice })}
+        />
+        <Label htmlFor={`equation-practice-${block.id}`} className="font-normal">
+          Practice: students fill in the coefficients and check their balance
+        </Label>
+      </div>
+
+      {parsed && !parsed.ok && (
+        <p className="text-sm text-destructive flex items-center gap-1">
+          <AlertTriangle className="h-4 w-4" />
+          {parsed.error}
+        </p>
+      )}
+
+      {/* Preview and balance check */}
+      {parsed?.ok && check && (
+        <div className="border rounded-lg p-3 bg-muted/30 space-y-2">
+          <div className="overflow-x-auto">
+            <Tex tex={`\\ce{${data.equation}}`} />
+          </div>
+          {check.balanced ? (
+            <p className="text-sm text-green-700 flex items-center gap-1">
+              <CheckCircle className="h-4 w-4" />
+              Balanced
+            </p>
+          ) : (
+            <div className="space-y-2">
+              <p className="text-sm text-amber-700 flex items-center gap-1">
+                <AlertTriangle className="h-4 w-4" />
+                Not balanced
+              </p>
+              <ul className="text-xs text-muted-foreground grid grid-cols-2 sm:grid-cols-4 gap-x-4">
+                {check.elements.map(e => (
+                  <li key={e.element} className={e.left === e.right ? '' : 'text-amber-700 font-medium'}>
+                    {e.element}: {e.left} → {e.right}
+                  </li>
+                ))}
+                {(check.charge.left !== 0 || check.charge.right !== 0) && (
+                  <li className={check.charge.left === check.charge.right ? '' : 'text-amber-700 font-medium'}>
+                    Charge: {check.charge.left} → {check.charge.right}
+                  </li>
+                )}
+              </ul>
+              {suggestion && (
+                <Button variant="outline" size="sm" onClick={applySuggestion} className="gap-1">
+                  <Scale className="h-4 w-4" />
+                  Use {formatEquation(withCoefficients(parsed.equation, suggestion))}
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,128 @@
+"use client"
+
+import Image from "next/image"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { EditorBlock, DiagramBlockData, generateHotspotId } from "@/lib/types/editor-blocks"
+import { DiagramHotspot } from "@/lib/types/custom-guide"
+import { ImageSourceField } from "./image-block"
+import { Trash2 } from "lucide-react"
+
+interface DiagramBlockProps {
+  block: EditorBlock
+  onUpdate: (updates: Partial<EditorBlock>) => void
+}
+
+export function DiagramBlock({ block, onUpdate }: DiagramBlockProps) {
+  const data = block.data as DiagramBlockData
+
+  const handleChange = (updates: Partial<DiagramBlockData>) => {
+    onUpdate({
+      data: { ...data, ...updates }
+    })
+  }
+
+  // Clicking the image drops a hotspot there, in percent so it stays put at any size
+  const addHotspot = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    const round = (n: number) => Math.round(Math.min(100, Math.max(0, n)) * 10) / 10
+    handleChange({
+      hotspots: [
+        ...data.hotspots,
+        {
+          id: generateHotspotId(),
+          x: round(((e.clientX - rect.left) / rect.width) * 100),
+          y: round(((e.clientY - rect.top) / rect.height) * 100),
+          label: ''
+        }
+      ]
+    })
+  }
+
+  const updateHotspot = (id: string, updates: Partial<DiagramHotspot>) => {
+    handleChange({ hotspots: data.hotspots.map(spot => (spot.id === id ? { ...spot, ...updates } : spot)) })
+  }
+
+  const removeHotspot = (id: string) => {
+    handleChange({ hotspots: data.hotspots.filter(spot => spot.id !== id) })
+  }
+
+  return (
+    <div className="space-y-3">
+      <ImageSourceField
+        id={`diagram-url-${block.id}`}
+        url={data.imageUrl}
+        onChange={(imageUrl) => handleChange({ imageUrl })}
+      />
+
+      <div>
+        <Label htmlFor={`diagram-alt-${block.id}`}>Alt text</Label>
+        <Input
+          id={`diagram-alt-${block.id}`}
+          value={data.alt}
+          onChange={(e) => handleChange({ alt: e.target.value })}
+          placeholder="e.g. Cross-section of a fish's gills"
+        />
+      </div>
+
+      {data.imageUrl && (
+        <div>
+          <p className="text-sm text-muted-foreground mb-2">Click the diagram to add a labeled hotspot.</p>
+          <div className="relative inline-block cursor-crosshair" onClick={addHotspot}>
+            <Image
+              src={data.imageUrl}
+              alt={data.alt}
+              width={1200}
+              height={800}
+              className="h-auto max-h-96 w-auto rounded border select-none"
+              draggable={false}
+            />
+            {data.hotspots.map((spot, index) => (
+              <span
+                key={spot.id}
+                className="absolute -translate-x-1/2 -translate-y-1/2 h-6 w-6 rounded-full bg-blue-600 text-white text-xs font-bold flex items-center justify-center ring-2 ring-white shadow"
+                style={{ left: `${spot.x}%`, top: `${spot.y}%` }}
+              >
+                {index + 1}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {data.hotspots.length > 0 && (
+        <div className="space-y-2">
+          <Label>Hotspots</Label>
+          {data.hotspots.map((spot, index) => (
+            <div key={spot.id} className="flex items-start gap-2">
+              <span className="mt-2 h-6 w-6 shrink-0 rounded-full bg-blue-600 text-white text-xs font-bold flex items-center justify-center">
+                {index + 1}
+              </span>
+              <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <Input
+                  value={spot.label}
+                  onChange={(e) => updateHotspot(spot.id, { label: e.target.value })}
+                  placeholder="Label, e.g. Gill filament"
+                />
+                <Input
+                  value={spot.description || ''}
+                  onChange={(e) => updateHotspot(spot.id, { description: e.target.value })}
+                  placeholder="What it does (optional)"
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 mt-1 text-destructive hover:text-destructive"
+                onClick={() => removeHotspot(spot.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
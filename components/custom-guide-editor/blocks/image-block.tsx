@@ -0,0 +1,150 @@
+"use client"
+
+import { useRef, useState } from "react"
+import Image from "next/image"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { EditorBlock, ImageBlockData } from "@/lib/types/editor-blocks"
+import { Loader2, Upload } from "lucide-react"
+
+interface ImageBlockProps {
+  block: EditorBlock
+  onUpdate: (updates: Partial<EditorBlock>) => void
+}
+
+// The image types /api/upload-to-cloudinary accepts
+const IMAGE_TYPES = "image/jpeg,image/png,image/webp,image/heic,image/heif"
+
+// Upload a file or paste a link; shared with the diagram block
+export function ImageSourceField({
+  id,
+  url,
+  onChange
+}: {
+  id: string
+  url: string
+  onChange: (url: string) => void
+}) {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const upload = async (file: File) => {
+    setUploading(true)
+    setError(null)
+    try {
+      const fd = new FormData()
+      fd.append("file", file)
+      fd.append("folder", "casanovastudy/guide-images")
+      const res = await fetch("/api/upload-to-cloudinary", { method: "POST", body: fd })
+      const json = await res.json()
+      if (!res.ok || !json.url) {
+        setError(json.error ?? "Upload failed")
+        return
+      }
+      onChange(json.url)
+    } catch (err) {
+      console.error(err)
+      setError("Network error")
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  return (
+    <div>
+      <Label htmlFor={id}>Image</Label>
+      <div className="flex gap-2">
+        <Input
+          id={id}
+          value={url}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Paste an image link, or upload one..."
+          className="flex-1"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInput.current?.click()}
+          disabled={uploading}
+          className="gap-1"
+        >
+          {uploading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+          Upload
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept={IMAGE_TYPES}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) upload(file)
+            e.target.value = ""
+          }}
+        />
+      </div>
+      {error && <p className="text-sm text-destructive mt-1">{error}</p>}
+    </div>
+  )
+}
+
+export function ImageBlock({ block, onUpdate }: ImageBlockProps) {
+  const data = block.data as ImageBlockData
+
+  const handleChange = (updates: Partial<ImageBlockData>) => {
+    onUpdate({
+      data: { ...data, ...updates }
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      <ImageSourceField
+        id={`image-url-${block.id}`}
+        url={data.url}
+        onChange={(url) => handleChange({ url })}
+      />
+
+      <div>
+        <Label htmlFor={`image-alt-${block.id}`}>Alt text</Label>
+        <Input
+          id={`image-alt-${block.id}`}
+          value={data.alt}
+          onChange={(e) => handleChange({ alt: e.target.value })}
+          placeholder="Describe the image for students using screen readers..."
+        />
+        {data.url && !data.alt.trim() && (
+          <p className="text-xs text-amber-600 mt-1">Add alt text so every student can follow the image.</p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor={`image-caption-${block.id}`}>Caption (optional)</Label>
+        <Input
+          id={`image-caption-${block.id}`}
+          value={data.caption || ''}
+          onChange={(e) => handleChange({ caption: e.target.value })}
+          placeholder="e.g. Figure 1: A coral polyp in cross-section"
+        />
+      </div>
+
+      {/* Preview */}
+      {data.url && (
+        <figure className="border rounded-lg p-3 bg-muted/30">
+          <Image
+            src={data.url}
+            alt={data.alt}
+            width={1200}
+            height={800}
+            className="mx-auto h-auto max-h-80 w-auto rounded"
+          />
+          {data.caption && (
+            <figcaption className="text-sm text-muted-foreground text-center mt-2">{data.caption}</figcaption>
+          )}
+        </figure>
+      )}
+    </div>
+  )
+}
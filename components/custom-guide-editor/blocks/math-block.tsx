@@ -0,0 +1,57 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Label } from "@/components/ui/label"
+import { Tex, texError } from "@/components/formats/tex"
+import { EditorBlock, MathBlockData } from "@/lib/types/editor-blocks"
+
+interface MathBlockProps {
+  block: EditorBlock
+  onUpdate: (updates: Partial<EditorBlock>) => void
+}
+
+export function MathBlock({ block, onUpdate }: MathBlockProps) {
+  const data = block.data as MathBlockData
+  const error = data.latex.trim() ? texError(data.latex) : null
+
+  const handleChange = (updates: Partial<MathBlockData>) => {
+    onUpdate({
+      data: { ...data, ...updates }
+    })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor={`math-latex-${block.id}`}>LaTeX</Label>
+        <Textarea
+          id={`math-latex-${block.id}`}
+          value={data.latex}
+          onChange={(e) => handleChange({ latex: e.target.value })}
+          placeholder={'e.g. x = \\frac{-b \\pm \\sqrt{b^2 - 4ac}}{2a}'}
+          className="min-h-[80px] resize-y font-mono text-sm"
+        />
+        {error && <p className="text-sm text-destructive mt-1">{error}</p>}
+      </div>
+
+      <div>
+        <Label htmlFor={`math-caption-${block.id}`}>Caption (optional)</Label>
+        <Input
+          id={`math-caption-${block.id}`}
+          value={data.caption || ''}
+          onChange={(e) => handleChange({ caption: e.target.value })}
+          placeholder="e.g. The quadratic formula"
+        />
+      </div>
+
+      {/* Preview */}
+      {data.latex.trim() && !error && (
+        <div className="border rounded-lg p-3 bg-muted/30 overflow-x-auto">
+          <Tex tex={data.latex} />
+          {data.caption && <p className="text-sm text-muted-foreground text-center mt-1">{data.caption}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
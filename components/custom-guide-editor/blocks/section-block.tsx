@@ -18,6 +18,11 @@ import { QuizBlock } from "./quiz-block"
 import { ChecklistBlock } from "./checklist-block"
 import { DefinitionBlock } from "./definition-block"
 import { FlashcardsBlock } from "./flashcards-block"
+import { MathBlock } from "./math-block"
+import { ChemicalEquationBlock } from "./chemical-equation-block"
+import { ImageBlock } from "./image-block"
+import { DiagramBlock } from "./diagram-block"
+import { VideoBlock } from "./video-block"
 import {
   Plus,
   ChevronDown,
@@ -28,7 +33,12 @@ import {
   HelpCircle,
   CheckSquare,
   BookOpen,
-  CreditCard
+  CreditCard,
+  Sigma,
+  FlaskConical,
+  ImageIcon,
+  MapPin,
+  Video
 } from "lucide-react"
 import { useState } from "react"
 
@@ -51,6 +61,11 @@ const childBlockTypes: { type: BlockType; icon: React.ComponentType<{ className?
   { type: 'checklist', icon: CheckSquare, label: 'Checklist' },
   { type: 'definition', icon: BookOpen, label: 'Definition' },
   { type: 'flashcards', icon: CreditCard, label: 'Flashcards' },
+  { type: 'math', icon: Sigma, label: 'Math' },
+  { type: 'chemical-equation', icon: FlaskConical, label: 'Equation' },
+  { type: 'image', icon: ImageIcon, label: 'Image' },
+  { type: 'diagram', icon: MapPin, label: 'Diagram' },
+  { type: 'video', icon: Video, label: 'Video' },
 ]
 
 export function SectionBlock({
@@ -133,6 +148,41 @@ export function SectionBlock({
               onUpdate={(updates) => onUpdateBlock(childBlock.id, updates)}
             />
           )
+        case 'math':
+          return (
+            <MathBlock
+              block={childBlock}
+              onUpdate={(updates) => onUpdateBlock(childBlock.id, updates)}
+            />
+          )
+        case 'chemical-equation':
+          return (
+            <ChemicalEquationBlock
+              block={childBlock}
+              onUpdate={(updates) => onUpdateBlock(childBlock.id, updates)}
+            />
+          )
+        case 'image':
+          return (
+            <ImageBlock
+              block={childBlock}
+              onUpdate={(updates) => onUpdateBlock(childBlock.id, updates)}
+            />
+          )
+        case 'diagram':
+          return (
+            <DiagramBlock
+              block={childBlock}
+              onUpdate={(updates) => onUpdateBlock(childBlock.id, updates)}
+            />
+          )
+        case 'video':
+          return (
+            <VideoBlock
+              block={childBlock}
+              onUpdate={(updates) => onUpdateBlock(childBlock.id, updates)}
+            />
+          )
         default:
           return null
       }
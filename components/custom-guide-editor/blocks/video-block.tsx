@@ -0,0 +1,140 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { EditorBlock, VideoBlockData, generateTimestampId } from "@/lib/types/editor-blocks"
+import { VideoTimestamp } from "@/lib/types/custom-guide"
+import { embedUrl, formatTimestamp, parseTimestamp, videoSource } from "@/lib/video-embed"
+import { Plus, Trash2 } from "lucide-react"
+
+interface VideoBlockProps {
+  block: EditorBlock
+  onUpdate: (updates: Partial<EditorBlock>) => void
+}
+
+// A time field that keeps what's being typed until it reads as a time
+function TimestampInput({ seconds, onChange }: { seconds: number; onChange: (seconds: number) => void }) {
+  const [text, setText] = useState(formatTimestamp(seconds))
+  const valid = parseTimestamp(text) !== null
+
+  return (
+    <Input
+      value={text}
+      onChange={(e) => {
+        setText(e.target.value)
+        const parsed = parseTimestamp(e.target.value)
+        if (parsed !== null) onChange(parsed)
+      }}
+      onBlur={() => setText(formatTimestamp(seconds))}
+      placeholder="m:ss"
+      className={`w-24 font-mono ${valid ? '' : 'border-destructive'}`}
+    />
+  )
+}
+
+export function VideoBlock({ block, onUpdate }: VideoBlockProps) {
+  const data = block.data as VideoBlockData
+  const source = videoSource(data.url)
+
+  const handleChange = (updates: Partial<VideoBlockData>) => {
+    onUpdate({
+      data: { ...data, ...updates }
+    })
+  }
+
+  const updateTimestamp = (id: string, updates: Partial<VideoTimestamp>) => {
+    handleChange({ timestamps: data.timestamps.map(stamp => (stamp.id === id ? { ...stamp, ...updates } : stamp)) })
+  }
+
+  const addTimestamp = () => {
+    const last = data.timestamps[data.timestamps.length - 1]
+    handleChange({
+      timestamps: [...data.timestamps, { id: generateTimestampId(), seconds: last ? last.seconds + 60 : 0, label: '' }]
+    })
+  }
+
+  const removeTimestamp = (id: string) => {
+    handleChange({ timestamps: data.timestamps.filter(stamp => stamp.id !== id) })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor={`video-url-${block.id}`}>Video link</Label>
+        <Input
+          id={`video-url-${block.id}`}
+          value={data.url}
+          onChange={(e) => handleChange({ url: e.target.value })}
+          placeholder="https://www.youtube.com/watch?v=..."
+        />
+        {data.url.trim() && !source && (
+          <p className="text-xs text-amber-600 mt-1">
+            Only YouTube and Vimeo videos play in the guide; this one will show as a link.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <Label htmlFor={`video-caption-${block.id}`}>Caption (optional)</Label>
+        <Input
+          id={`video-caption-${block.id}`}
+          value={data.caption || ''}
+          onChange={(e) => handleChange({ caption: e.target.value })}
+          placeholder="e.g. Watch how the tide pools change over a day"
+        />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <Label>Timestamps (optional)</Label>
+          <Button variant="ghost" size="sm" onClick={addTimestamp}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Timestamp
+          </Button>
+        </div>
+
+        {data.timestamps.length > 0 && (
+          <div className="space-y-2">
+            {data.timestamps.map(stamp => (
+              <div key={stamp.id} className="flex items-center gap-2">
+                <TimestampInput
+                  seconds={stamp.seconds}
+                  onChange={(seconds) => updateTimestamp(stamp.id, { seconds })}
+                />
+                <Input
+                  value={stamp.label}
+                  onChange={(e) => updateTimestamp(stamp.id, { label: e.target.value })}
+                  placeholder="What happens here..."
+                  className="flex-1"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-destructive hover:text-destructive"
+                  onClick={() => removeTimestamp(stamp.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Preview */}
+      {source && (
+        <div className="aspect-video w-full max-w-xl rounded-lg overflow-hidden border bg-black">
+          <iframe
+            src={embedUrl(source)}
+            title={data.caption || 'Video preview'}
+            className="h-full w-full"
+            allow="encrypted-media; picture-in-picture"
+            allowFullScreen
+          />
+        </div>
+      )}
+    </div>
+  )
+}
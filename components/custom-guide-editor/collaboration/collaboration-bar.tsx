@@ -0,0 +1,141 @@
+"use client"
+
+import { RefObject } from "react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Activity, MousePointer2 } from "lucide-react"
+import type { Participant } from "@/lib/collab/protocol"
+import type { Collaboration, RemoteCursor } from "./use-collaboration"
+import { ShareGuideDialog } from "./share-guide-dialog"
+
+const STATUS: Record<Exclude<Collaboration['status'], 'off'>, { label: string; dot: string }> = {
+  connecting: { label: 'Connecting…', dot: 'bg-gray-400' },
+  live: { label: 'Live', dot: 'bg-green-500' },
+  offline: { label: 'Reconnecting…', dot: 'bg-amber-500' },
+  denied: { label: 'Live editing unavailable', dot: 'bg-red-500' },
+}
+
+function initials(name: string): string {
+  const parts = name.split(/[\s@.]+/).filter(Boolean)
+  return (parts.length > 1 ? parts[0][0] + parts[1][0] : name.slice(0, 2)).toUpperCase()
+}
+
+function ParticipantAvatar({ participant, isYou }: { participant: Participant; isYou?: boolean }) {
+  return (
+    <span
+      className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-white text-[11px] font-semibold text-white"
+      style={{ backgroundColor: participant.color }}
+      title={isYou ? `${participant.name} (you)` : participant.name}
+    >
+      {initials(participant.name)}
+    </span>
+  )
+}
+
+// Who has the guide open, what they've been changing, and (for the owner) sharing
+export function CollaborationBar({ collaboration, guideId, canInvite }: {
+  collaboration: Collaboration
+  guideId: string
+  canInvite: boolean
+}) {
+  const { status, me, others, activity } = collaboration
+  const state = status === 'off' ? null : STATUS[status]
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border bg-white px-4 py-2">
+      <div className="flex items-center gap-3">
+        {state && (
+          <span className="flex items-center gap-2 text-sm text-muted-foreground">
+            <span className={`h-2 w-2 rounded-full ${state.dot}`} />
+            {state.label}
+          </span>
+        )}
+        {status === 'live' && (
+          <div className="flex -space-x-2">
+            {me && <ParticipantAvatar participant={me} isYou />}
+            {others.map(p => <ParticipantAvatar key={p.id} participant={p} />)}
+          </div>
+        )}
+        {status === 'live' && others.length > 0 && (
+          <span className="text-sm text-muted-foreground">
+            {others.length === 1 ? `${others[0].name} is` : `${others.length} others are`} editing with you
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        {status !== 'off' && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="ghost" size="sm" className="gap-2">
+                <Activity className="h-4 w-4" />
+                Activity
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-80 p-0">
+              <p className="border-b px-3 py-2 text-sm font-medium">Changes this session</p>
+              {activity.length === 0 ? (
+                <p className="px-3 py-4 text-sm text-muted-foreground">No changes yet.</p>
+              ) : (
+                <ul className="max-h-72 overflow-y-auto py-1">
+                  {[...activity].reverse().map(entry => (
+                    <li key={entry.id} className="flex items-start gap-2 px-3 py-1.5 text-sm">
+                      <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: entry.color }} />
+                      <span className="flex-1">
+                        <span className="font-medium">{entry.userId === me?.userId ? 'You' : entry.name}</span> {entry.text}
+                      </span>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {new Date(entry.at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </PopoverContent>
+          </Popover>
+        )}
+        {canInvite && <ShareGuideDialog guideId={guideId} />}
+      </div>
+    </div>
+  )
+}
+
+// Co-editors' pointers, drawn over the block list. Positions are relative to
+// the block under each pointer so they line up whatever the window width.
+export function RemoteCursors({ cursors, containerRef }: {
+  cursors: RemoteCursor[]
+  containerRef: RefObject<HTMLDivElement | null>
+}) {
+  const container = containerRef.current
+  if (!container || cursors.length === 0) return null
+  const box = container.getBoundingClientRect()
+
+  return (
+    <>
+      {cursors.map(({ participant, blockId, x, y }) => {
+        const anchor = blockId
+          ? container.querySelector<HTMLElement>(`[data-block-id="${CSS.escape(blockId)}"]`)
+          : container
+        if (!anchor) return null
+        const rect = anchor.getBoundingClientRect()
+        const left = rect.left - box.left + x * rect.width
+        const top = rect.top - box.top + y
+        return (
+          <div
+            key={participant.id}
+            className="pointer-events-none absolute left-0 top-0 z-20 flex items-start transition-transform duration-75"
+            style={{ transform: `translate(${left}px, ${top}px)` }}
+          >
+            <MousePointer2 className="h-4 w-4" style={{ color: participant.color, fill: participant.color }} />
+            <span
+              className="ml-0.5 mt-3 whitespace-nowrap rounded px-1.5 py-0.5 text-xs font-medium text-white"
+              style={{ backgroundColor: participant.color }}
+            >
+              {participant.name}
+            </span>
+          </div>
+        )
+      })}
+    </>
+  )
+}
@@ -0,0 +1,186 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Loader2, UserPlus, X } from "lucide-react"
+
+interface Person {
+  userId: string
+  name: string
+  email: string | null
+}
+
+interface Collaborator extends Person {
+  addedAt: string
+}
+
+// The owner's "Share" dialog: invite co-editors by email and remove them
+export function ShareGuideDialog({ guideId }: { guideId: string }) {
+  const [open, setOpen] = useState(false)
+  const [owner, setOwner] = useState<Person | null>(null)
+  const [collaborators, setCollaborators] = useState<Collaborator[]>([])
+  const [loading, setLoading] = useState(false)
+  const [email, setEmail] = useState('')
+  const [inviting, setInviting] = useState(false)
+  const [removing, setRemoving] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/study-guides/${guideId}/collaborators`, { credentials: 'include' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load co-editors')
+      setOwner(data.owner)
+      setCollaborators(data.collaborators)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load co-editors')
+    } finally {
+      setLoading(false)
+    }
+  }, [guideId])
+
+  useEffect(() => {
+    if (open) load()
+  }, [open, load])
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!email.trim()) return
+    setInviting(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const response = await fetch(`/api/study-guides/${guideId}/collaborators`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to invite co-editor')
+      setCollaborators(prev => [...prev, data.collaborator])
+      setEmail('')
+      setNotice(data.emailed
+        ? `${data.collaborator.name} can now edit this guide. We've emailed them a link.`
+        : `${data.collaborator.name} can now edit this guide. Send them the link: ${window.location.origin}/create-guide?edit=${guideId}`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to invite co-editor')
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const handleRemove = async (collaborator: Collaborator) => {
+    if (!confirm(`Remove ${collaborator.name} as a co-editor?`)) return
+    setRemoving(collaborator.userId)
+    setError(null)
+    setNotice(null)
+    try {
+      const response = await fetch(`/api/study-guides/${guideId}/collaborators/${collaborator.userId}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to remove co-editor')
+      setCollaborators(prev => prev.filter(c => c.userId !== collaborator.userId))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove co-editor')
+    } finally {
+      setRemoving(null)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <UserPlus className="h-4 w-4" />
+          Share
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit with co-teachers</DialogTitle>
+          <DialogDescription>
+            Co-editors can open this guide in the editor, work on it with you in real time and save it.
+            Only you can invite people, publish or delete it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleInvite} className="space-y-2">
+          <Label htmlFor="invite-email">Invite by email</Label>
+          <div className="flex gap-2">
+            <Input
+              id="invite-email"
+              type="email"
+              placeholder="colleague@school.edu"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              data-native-undo
+            />
+            <Button type="submit" disabled={inviting || !email.trim()}>
+              {inviting ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Invite'}
+            </Button>
+          </div>
+        </form>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {notice && <p className="text-sm text-green-700 break-words">{notice}</p>}
+
+        <div className="space-y-2">
+          <p className="text-sm font-medium">People with access</p>
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <ul className="divide-y rounded-lg border">
+              {owner && (
+                <li className="flex items-center justify-between px-3 py-2">
+                  <div>
+                    <p className="text-sm font-medium">{owner.name}</p>
+                    {owner.email && <p className="text-xs text-muted-foreground">{owner.email}</p>}
+                  </div>
+                  <span className="text-xs text-muted-foreground">Owner</span>
+                </li>
+              )}
+              {collaborators.map(collaborator => (
+                <li key={collaborator.userId} className="flex items-center justify-between px-3 py-2">
+                  <div>
+                    <p className="text-sm font-medium">{collaborator.name}</p>
+                    {collaborator.email && <p className="text-xs text-muted-foreground">{collaborator.email}</p>}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => handleRemove(collaborator)}
+                    disabled={removing === collaborator.userId}
+                    title={`Remove ${collaborator.name}`}
+                    aria-label={`Remove ${collaborator.name}`}
+                  >
+                    {removing === collaborator.userId
+                      ? <Loader2 className="h-4 w-4 animate-spin" />
+                      : <X className="h-4 w-4" />}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,273 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { supabase } from "@/lib/supabase"
+import { useEditor } from "@/lib/contexts/editor-context"
+import { applyOps, diffDocuments, topLevelBlockId, type CollabDocument } from "@/lib/collab/operations"
+import {
+  CLOSE_FORBIDDEN,
+  CLOSE_UNAUTHENTICATED,
+  type ActivityEntry,
+  type BlockEdit,
+  type ClientMessage,
+  type CursorPosition,
+  type Participant,
+  type ServerMessage,
+} from "@/lib/collab/protocol"
+
+// Without it the editor works alone, as before
+const COLLAB_URL = process.env.NEXT_PUBLIC_COLLAB_URL
+const CURSOR_INTERVAL_MS = 50
+const MAX_RECONNECT_MS = 30_000
+const MAX_ACTIVITY = 50
+
+export type CollabStatus = 'off' | 'connecting' | 'live' | 'offline' | 'denied'
+
+export interface RemoteCursor extends CursorPosition {
+  participant: Participant
+}
+
+export interface Collaboration {
+  status: CollabStatus
+  me: Participant | null
+  // Everyone else with the guide open
+  others: Participant[]
+  // Top-level block id -> the co-editor editing it; read-only here
+  lockedBy: Record<string, Participant>
+  // Top-level block id -> who last changed it
+  edits: Record<string, BlockEdit>
+  activity: ActivityEntry[]
+  cursors: RemoteCursor[]
+  sendCursor: (position: CursorPosition | null) => void
+  // Call after saving the guide so co-editors' editors stop showing unsaved changes
+  notifySaved: () => void
+}
+
+/**
+ * Join the guide's live editing session. Local changes are diffed into
+ * operations and sent as they happen; co-editors' operations are applied
+ * to the editor (and its undo history) as they arrive. Selecting a block
+ * locks it for as long as it stays selected.
+ */
+export function useCollaboration(guideId: string | null): Collaboration {
+  const { blocks, metadata, selectedBlockId, applyRemoteOps, loadSharedDocument, markClean } = useEditor()
+  const [status, setStatus] = useState<CollabStatus>(guideId && COLLAB_URL ? 'connecting' : 'off')
+  const [me, setMe] = useState<Participant | null>(null)
+  const [participants, setParticipants] = useState<Participant[]>([])
+  const [locks, setLocks] = useState<Record<string, string>>({})
+  const [edits, setEdits] = useState<Record<string, BlockEdit>>({})
+  const [activity, setActivity] = useState<ActivityEntry[]>([])
+  const [cursorPositions, setCursorPositions] = useState<Record<string, CursorPosition>>({})
+
+  const socketRef = useRef<WebSocket | null>(null)
+  const meRef = useRef<Participant | null>(null)
+  const docRef = useRef<CollabDocument>({ blocks, metadata })
+  // The guide as last shared with the session; null until joined. Local
+  // changes are whatever differs from it.
+  const synced = useRef<CollabDocument | null>(null)
+  const selectedRef = useRef(selectedBlockId)
+  const heldLock = useRef<string | null>(null)
+  const lastCursorAt = useRef(0)
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = socketRef.current
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+  }, [])
+
+  useEffect(() => {
+    docRef.current = { blocks, metadata }
+  }, [blocks, metadata])
+
+  // Send local changes; remote ones were folded into `synced` as well, so they don't echo back
+  useEffect(() => {
+    const base = synced.current
+    if (!base || socketRef.current?.readyState !== WebSocket.OPEN) return
+    const current = { blocks, metadata }
+    const ops = diffDocuments(base, current)
+    synced.current = current
+    if (ops.length === 0) return
+    send({ type: 'ops', ops })
+
+    // Your own edits replace whoever changed those blocks before
+    const self = meRef.current
+    if (!self) return
+    const at = Date.now()
+    setEdits(prev => {
+      const next = { ...prev }
+      for (const op of ops) {
+        if (op.op === 'insert' || op.op === 'update') {
+          next[op.block.id] = { userId: self.userId, name: self.name, color: self.color, at }
+        }
+      }
+      return next
+    })
+  }, [blocks, metadata, send])
+
+  // Lock the block being edited (the top-level block holding the selection)
+  useEffect(() => {
+    selectedRef.current = selectedBlockId
+    if (!synced.current) return
+    const target = selectedBlockId ? topLevelBlockId(docRef.current.blocks, selectedBlockId) : null
+    if (target === heldLock.current) return
+    heldLock.current = target
+    send({ type: 'lock', blockId: target })
+  }, [selectedBlockId, send])
+
+  useEffect(() => {
+    if (!guideId || !COLLAB_URL) return
+    const url = COLLAB_URL
+    let disposed = false
+    let retry: number | undefined
+    let attempt = 0
+
+    const handle = (message: ServerMessage) => {
+      switch (message.type) {
+        case 'welcome': {
+          // Changes made here while disconnected go on top of the session's copy
+          const pending = synced.current ? diffDocuments(synced.current, docRef.current) : []
+          const shared = applyOps(message.doc, pending)
+          synced.current = shared
+          docRef.current = shared
+          loadSharedDocument(shared)
+          if (pending.length > 0) send({ type: 'ops', ops: pending })
+          else if (!message.dirty) markClean()
+
+          meRef.current = message.you
+          setMe(message.you)
+          setParticipants(message.participants)
+          setLocks(message.locks)
+          setEdits(message.edits)
+          setActivity(message.activity)
+          setStatus('live')
+
+          const selected = selectedRef.current
+          heldLock.current = selected ? topLevelBlockId(shared.blocks, selected) : null
+          if (heldLock.current) send({ type: 'lock', blockId: heldLock.current })
+          break
+        }
+        case 'ops': {
+          synced.current = applyOps(synced.current ?? docRef.current, message.ops)
+          applyRemoteOps(message.ops)
+          const by = message.by
+          if (!by) break
+          setEdits(prev => {
+            const next = { ...prev }
+            for (const op of message.ops) {
+              if (op.op === 'insert' || op.op === 'update') {
+                next[op.block.id] = { userId: by.userId, name: by.name, color: by.color, at: message.at }
+              } else if (op.op === 'remove') {
+                delete next[op.blockId]
+              }
+            }
+            return next
+          })
+          break
+        }
+        case 'participants': {
+          setParticipants(message.participants)
+          const present = new Set(message.participants.map(p => p.id))
+          setCursorPositions(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => present.has(id))))
+          break
+        }
+        case 'locks':
+          setLocks(message.locks)
+          break
+        case 'cursor': {
+          const { participantId, position } = message
+          setCursorPositions(prev => {
+            const next = { ...prev }
+            if (position) next[participantId] = position
+            else delete next[participantId]
+            return next
+          })
+          break
+        }
+        case 'activity':
+          setActivity(prev => [...prev.filter(e => e.id !== message.entry.id), message.entry].slice(-MAX_ACTIVITY))
+          break
+        case 'saved':
+          markClean()
+          break
+        case 'error':
+          console.warn('Collaboration server:', message.message)
+          break
+      }
+    }
+
+    const connect = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (disposed) return
+      if (!session) {
+        setStatus('denied')
+        return
+      }
+
+      const socket = new WebSocket(url)
+      socketRef.current = socket
+      socket.onopen = () => {
+        attempt = 0
+        socket.send(JSON.stringify({ type: 'join', guideId, token: session.access_token, doc: docRef.current } satisfies ClientMessage))
+      }
+      socket.onmessage = event => {
+        try {
+          handle(JSON.parse(event.data) as ServerMessage)
+        } catch (error) {
+          console.error('Collaboration message error:', error)
+        }
+      }
+      socket.onclose = event => {
+        if (socketRef.current === socket) socketRef.current = null
+        if (disposed) return
+        // Co-editors' locks and cursors mean nothing until we're back
+        setParticipants([])
+        setLocks({})
+        setCursorPositions({})
+        if (event.code === CLOSE_UNAUTHENTICATED || event.code === CLOSE_FORBIDDEN) {
+          setStatus('denied')
+          return
+        }
+        setStatus('offline')
+        retry = window.setTimeout(connect, Math.min(MAX_RECONNECT_MS, 1000 * 2 ** attempt++))
+      }
+    }
+
+    connect()
+    return () => {
+      disposed = true
+      window.clearTimeout(retry)
+      socketRef.current?.close()
+      socketRef.current = null
+    }
+  }, [guideId, send, applyRemoteOps, loadSharedDocument, markClean])
+
+  const sendCursor = useCallback((position: CursorPosition | null) => {
+    const now = Date.now()
+    if (position && now - lastCursorAt.current < CURSOR_INTERVAL_MS) return
+    lastCursorAt.current = now
+    send({ type: 'cursor', position })
+  }, [send])
+
+  const notifySaved = useCallback(() => send({ type: 'saved' }), [send])
+
+  const others = useMemo(() => participants.filter(p => p.id !== me?.id), [participants, me])
+
+  const lockedBy = useMemo(() => {
+    const byId = new Map(others.map(p => [p.id, p]))
+    return Object.fromEntries(
+      Object.entries(locks).flatMap(([blockId, participantId]) => {
+        const holder = byId.get(participantId)
+        return holder ? [[blockId, holder]] : []
+      })
+    )
+  }, [locks, others])
+
+  const cursors = useMemo(() => {
+    const byId = new Map(others.map(p => [p.id, p]))
+    return Object.entries(cursorPositions).flatMap(([participantId, position]) => {
+      const participant = byId.get(participantId)
+      return participant ? [{ ...position, participant }] : []
+    })
+  }, [cursorPositions, others])
+
+  return { status, me, others, lockedBy, edits, activity, cursors, sendCursor, notifySaved }
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect, useRef } from "react"
+import { useState, useEffect, useRef, useCallback } from "react"
 import {
   DndContext,
   closestCenter,
@@ -29,7 +29,7 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useEditor, EditorProvider } from "@/lib/contexts/editor-context"
-import { BlockType, EditorBlock, blocksToCustomContent, sectionToBlock, createPresetBlock, DefinitionColorVariant, DefinitionBlockData } from "@/lib/types/editor-blocks"
+import { BlockType, EditorBlock, blocksToCustomContent, customContentToBlocks, sectionToBlock, createPresetBlock, DefinitionColorVariant, DefinitionBlockData } from "@/lib/types/editor-blocks"
 import { PresetKind } from "./block-toolbar"
 import { CustomGuideContent, CustomSection } from "@/lib/types/custom-guide"
 import {
@@ -50,34 +50,67 @@ import { QuizBlock } from "./blocks/quiz-block"
 import { ChecklistBlock } from "./blocks/checklist-block"
 import { DefinitionBlock } from "./blocks/definition-block"
 import { FlashcardsBlock } from "./blocks/flashcards-block"
+import { MathBlock } from "./blocks/math-block"
+import { ChemicalEquationBlock } from "./blocks/chemical-equation-block"
+import { ImageBlock } from "./blocks/image-block"
+import { DiagramBlock } from "./blocks/diagram-block"
+import { VideoBlock } from "./blocks/video-block"
 import { SectionBlock } from "./blocks/section-block"
 import { AIAssistant } from "./ai-assistant"
+import { useCollaboration } from "./collaboration/use-collaboration"
+import { CollaborationBar, RemoteCursors } from "./collaboration/collaboration-bar"
+import { RevisionHistoryDialog } from "./revision-history-dialog"
+import type { RevisionSnapshot } from "@/lib/revisions/compare"
 import CustomFormat from "@/components/formats/custom-format"
 import { displaySerif } from "@/lib/formats/fonts"
 import { ClientCompression } from "@/lib/client-compression"
 import { deduplicateBlocks, countDuplicates } from "@/lib/deduplication"
-import { Eye, Edit3, Save, RotateCcw, FileText, FileImage, File, Loader2, Upload, X, FileUp, Palette, ChevronDown, Sparkles } from "lucide-react"
+import { Eye, Edit3, Save, RotateCcw, FileText, FileImage, File, Loader2, Upload, X, FileUp, Palette, ChevronDown, Sparkles, Undo2, Redo2, History } from "lucide-react"
+
+export interface GuideSaveData {
+  title: string
+  subject: string
+  gradeLevel: string
+  className?: string
+  customContent: ReturnType<typeof blocksToCustomContent>
+}
 
-interface CustomGuideEditorProps {
-  initialContent?: EditorBlock[]
-  initialMetadata?: {
+// An autosaved draft found when the guide was opened
+export interface GuideDraft {
+  savedAt: string
+  blocks: EditorBlock[]
+  metadata: {
     title: string
     subject: string
     gradeLevel: string
     className?: string
   }
-  onSave: (data: {
+}
+
+interface CustomGuideEditorProps {
+  initialContent?: EditorBlock[]
+  initialMetadata?: {
     title: string
     subject: string
     gradeLevel: string
     className?: string
-    customContent: ReturnType<typeof blocksToCustomContent>
-  }) => Promise<void>
+  }
+  onSave: (data: GuideSaveData) => Promise<void>
+  // Called every AUTOSAVE_INTERVAL_MS while there are unsaved changes
+  onAutosave?: (data: GuideSaveData) => Promise<void>
+  draft?: GuideDraft | null
+  onDiscardDraft?: () => Promise<void>
+  // Live co-editing of a saved guide; `canInvite` for its owner
+  collaboration?: { guideId: string; canInvite: boolean }
+  // The saved guide's version history; `isOwner` can push versions to classes
+  revisionHistory?: { guideId: string; isOwner: boolean }
   onCancel?: () => void
   isEditing?: boolean
   isTeacher?: boolean
 }
 
+const AUTOSAVE_INTERVAL_MS = 30_000
+
 const subjects = [
   { value: 'mathematics', label: 'Mathematics' },
   { value: 'science', label: 'Science' },
@@ -144,12 +177,41 @@ interface EditorContentProps extends Omit<CustomGuideEditorProps, 'initialConten
   setSourceFiles: React.Dispatch<React.SetStateAction<SourceFile[]>>
 }
 
-function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata, sourceFiles, setSourceFiles }: EditorContentProps) {
+// Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y drive the guide's undo history
+// everywhere in the editor except fields marked data-native-undo (the AI
+// prompt), which keep the browser's own text undo.
+function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      if (e.target instanceof Element && e.target.closest('[data-native-undo]')) return
+      const key = e.key.toLowerCase()
+      if (key === 'z') {
+        e.preventDefault()
+        if (e.shiftKey) redo()
+        else undo()
+      } else if (key === 'y' && !e.shiftKey) {
+        e.preventDefault()
+        redo()
+      }
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [undo, redo])
+}
+
+function EditorContent({ onSave, onAutosave, draft, onDiscardDraft, collaboration, revisionHistory, onCancel, isEditing, isTeacher, initialMetadata, sourceFiles, setSourceFiles }: EditorContentProps) {
   const {
     blocks,
     selectedBlockId,
     metadata,
     isDirty,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    undo,
+    redo,
     addBlock,
     updateBlock,
     deleteBlock,
@@ -158,8 +220,10 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
     selectBlock,
     setMetadata,
     resetEditor,
-    initializeBlocks,
-    appendBlocks
+    markClean,
+    appendBlocks,
+    replaceBlocks,
+    restoreDocument
   } = useEditor()
 
   const [activeTab, setActiveTab] = useState<'edit' | 'preview'>('edit')
@@ -167,6 +231,73 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
   const [isProcessingFile, setIsProcessingFile] = useState(false)
   const [fileError, setFileError] = useState<string | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const [pendingDraft, setPendingDraft] = useState<GuideDraft | null>(draft ?? null)
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null)
+  // Groups every section of one AI generation into a single undo step
+  const aiGeneration = useRef<string | null>(null)
+
+  useUndoShortcuts(undo, redo)
+
+  const collab = useCollaboration(collaboration?.guideId ?? null)
+  const canvasRef = useRef<HTMLDivElement>(null)
+
+  // Autosave reads the latest state from a ref so the interval isn't reset on every keystroke
+  const autosaveState = useRef({ blocks, metadata, isDirty })
+  const lastAutosaved = useRef<{ blocks: EditorBlock[]; metadata: typeof metadata } | null>(null)
+  useEffect(() => {
+    autosaveState.current = { blocks, metadata, isDirty }
+  }, [blocks, metadata, isDirty])
+
+  useEffect(() => {
+    if (!onAutosave) return
+    const timer = window.setInterval(async () => {
+      const { blocks, metadata, isDirty } = autosaveState.current
+      const last = lastAutosaved.current
+      if (!isDirty || (last && last.blocks === blocks && last.metadata === metadata)) return
+      lastAutosaved.current = { blocks, metadata }
+      try {
+        await onAutosave({
+          title: metadata.title,
+          subject: metadata.subject,
+          gradeLevel: metadata.gradeLevel,
+          className: metadata.className || undefined,
+          customContent: blocksToCustomContent(blocks, metadata)
+        })
+        setDraftSavedAt(new Date())
+      } catch (error) {
+        console.error('Autosave error:', error)
+        lastAutosaved.current = last // Try again next time
+      }
+    }, AUTOSAVE_INTERVAL_MS)
+    return () => window.clearInterval(timer)
+  }, [onAutosave])
+
+  const handleRestoreDraft = () => {
+    if (!pendingDraft) return
+    restoreDocument(pendingDraft.blocks, { ...metadata, ...pendingDraft.metadata }, 'Restore draft')
+    setPendingDraft(null)
+  }
+
+  const handleRestoreRevision = (snapshot: RevisionSnapshot, number: number) => {
+    restoreDocument(customContentToBlocks(snapshot.customContent), {
+      ...metadata,
+      title: snapshot.title,
+      subject: snapshot.subject,
+      gradeLevel: snapshot.gradeLevel,
+      className: snapshot.className ?? undefined,
+      ...snapshot.customContent.metadata
+    }, `Restore version ${number}`)
+    selectBlock(null)
+  }
+
+  const handleDiscardDraft = useCallback(async () => {
+    setPendingDraft(null)
+    try {
+      await onDiscardDraft?.()
+    } catch (error) {
+      console.error('Discard draft error:', error)
+    }
+  }, [onDiscardDraft])
 
   // DnD sensors
   const sensors = useSensors(
@@ -299,8 +430,8 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
       // Use appendBlocks with replaceMatching for quiz/checklist merging
       appendBlocks(newBlocks, { replaceMatching: true })
     } else {
-      // Replace all content
-      initializeBlocks(newBlocks)
+      // Replace all content (undoable, so a bad replace can be taken back)
+      replaceBlocks(newBlocks)
     }
   }
 
@@ -313,19 +444,22 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
     const deduplicatedBlocks = deduplicateBlocks([newBlock])
     const cleanBlock = deduplicatedBlocks[0]
 
+    if (isFirst) aiGeneration.current = `ai:${Date.now()}`
+    const group = aiGeneration.current ?? undefined
+
     if (!cleanBlock) return // Block was entirely duplicate
 
     if (mode === 'replace' && isFirst) {
       // First section in replace mode - clear existing and start fresh
-      initializeBlocks([cleanBlock])
+      replaceBlocks([cleanBlock], { group })
     } else if (mode === 'replace') {
-      // Subsequent sections in replace mode - append using functional update
+      // Subsequent sections in replace mode - append to the latest blocks
       // Also run deduplication against existing blocks
-      appendBlocks([cleanBlock])
+      appendBlocks([cleanBlock], { group })
     } else {
       // Add mode - use appendBlocks with replaceMatching for quiz/checklist merging
       // This handles cases like "add 3 questions to the quiz"
-      appendBlocks([cleanBlock], { replaceMatching: true })
+      appendBlocks([cleanBlock], { replaceMatching: true, group })
     }
   }
 
@@ -349,6 +483,8 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
         className: metadata.className || undefined,
         customContent: blocksToCustomContent(blocks, metadata)
       })
+      markClean()
+      collab.notifySaved()
     } catch (error) {
       console.error('Save error:', error)
       alert('Failed to save study guide. Please try again.')
@@ -401,8 +537,24 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
     alert(`Removed: ${messages.join(', ')}`)
   }
 
+  // Co-editors' pointers follow the block under them
+  const handleCanvasPointerMove = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (collab.status !== 'live') return
+    const block = (e.target as Element).closest<HTMLElement>('[data-block-id]')
+    const rect = (block ?? e.currentTarget).getBoundingClientRect()
+    collab.sendCursor({
+      blockId: block?.dataset.blockId ?? null,
+      x: (e.clientX - rect.left) / rect.width,
+      y: e.clientY - rect.top
+    })
+  }
+
   const renderBlock = (block: EditorBlock) => {
     const isSelected = selectedBlockId === block.id
+    // A co-editor is working on it: read-only here until they move on
+    const lockedBy = collab.lockedBy[block.id]
+    const edit = collab.edits[block.id]
+    const lastEdit = edit && edit.userId !== collab.me?.userId ? edit : undefined
 
     const blockContent = () => {
       switch (block.type) {
@@ -455,6 +607,41 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
               onUpdate={(updates) => updateBlock(block.id, updates)}
             />
           )
+        case 'math':
+          return (
+            <MathBlock
+              block={block}
+              onUpdate={(updates) => updateBlock(block.id, updates)}
+            />
+          )
+        case 'chemical-equation':
+          return (
+            <ChemicalEquationBlock
+              block={block}
+              onUpdate={(updates) => updateBlock(block.id, updates)}
+            />
+          )
+        case 'image':
+          return (
+            <ImageBlock
+              block={block}
+              onUpdate={(updates) => updateBlock(block.id, updates)}
+            />
+          )
+        case 'diagram':
+          return (
+            <DiagramBlock
+              block={block}
+              onUpdate={(updates) => updateBlock(block.id, updates)}
+            />
+          )
+        case 'video':
+          return (
+            <VideoBlock
+              block={block}
+              onUpdate={(updates) => updateBlock(block.id, updates)}
+            />
+          )
         case 'section':
           return (
             <SectionBlock
@@ -482,8 +669,12 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
         isSelected={isSelected}
         onSelect={() => selectBlock(block.id)}
         onDelete={() => deleteBlock(block.id)}
+        lockedBy={lockedBy}
+        lastEdit={lastEdit}
       >
-        {blockContent()}
+        <fieldset disabled={!!lockedBy} className="min-w-0">
+          {blockContent()}
+        </fieldset>
       </BlockWrapper>
     )
   }
@@ -492,6 +683,30 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
 
   return (
     <div className="space-y-6">
+      {pendingDraft && (
+        <Card className="border-amber-300 bg-amber-50">
+          <CardContent className="py-4 flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <History className="h-5 w-5 text-amber-700" />
+              <div>
+                <p className="font-medium text-amber-900">This guide has unsaved changes</p>
+                <p className="text-sm text-amber-800">
+                  A draft was autosaved {new Date(pendingDraft.savedAt).toLocaleString()} but never saved to the guide.
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={handleDiscardDraft}>
+                Discard
+              </Button>
+              <Button size="sm" onClick={handleRestoreDraft}>
+                Restore draft
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Metadata Section */}
       <Card>
         <CardHeader className="pb-3">
@@ -662,16 +877,26 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
         </CardContent>
       </Card>
 
-      {/* AI Assistant */}
-      <AIAssistant
-        subject={metadata.subject}
-        gradeLevel={metadata.gradeLevel}
-        currentBlocks={blocks}
-        sourceFiles={sourceFilesForAI}
-        onContentGenerated={handleAIContentGenerated}
-        onSectionAdded={handleSectionAdded}
-        disabled={isSaving}
-      />
+      {/* AI Assistant - its prompt keeps the browser's own text undo */}
+      <div data-native-undo>
+        <AIAssistant
+          subject={metadata.subject}
+          gradeLevel={metadata.gradeLevel}
+          currentBlocks={blocks}
+          sourceFiles={sourceFilesForAI}
+          onContentGenerated={handleAIContentGenerated}
+          onSectionAdded={handleSectionAdded}
+          disabled={isSaving}
+        />
+      </div>
+
+      {collaboration && (
+        <CollaborationBar
+          collaboration={collab}
+          guideId={collaboration.guideId}
+          canInvite={collaboration.canInvite}
+        />
+      )}
 
       {/* Editor/Preview Tabs */}
       <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as 'edit' | 'preview')}>
@@ -689,7 +914,37 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
 
           <div className="flex items-center gap-2">
             {isDirty && (
-              <span className="text-sm text-muted-foreground">Unsaved changes</span>
+              <span className="text-sm text-muted-foreground">
+                Unsaved changes
+                {draftSavedAt && ` · draft saved ${draftSavedAt.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}`}
+              </span>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={undo}
+              disabled={!canUndo}
+              title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : 'Undo (Ctrl+Z)'}
+              aria-label="Undo"
+            >
+              <Undo2 className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={redo}
+              disabled={!canRedo}
+              title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'}
+              aria-label="Redo"
+            >
+              <Redo2 className="h-4 w-4" />
+            </Button>
+            {revisionHistory && (
+              <RevisionHistoryDialog
+                guideId={revisionHistory.guideId}
+                isOwner={revisionHistory.isOwner}
+                onRestore={handleRestoreRevision}
+              />
             )}
             {onCancel && (
               <Button variant="outline" onClick={onCancel}>
@@ -801,20 +1056,28 @@ function EditorContent({ onSave, onCancel, isEditing, isTeacher, initialMetadata
               </CardContent>
             </Card>
           ) : (
-            <DndContext
-              sensors={sensors}
-              collisionDetection={closestCenter}
-              onDragEnd={handleDragEnd}
+            <div
+              ref={canvasRef}
+              className="relative"
+              onMouseMove={handleCanvasPointerMove}
+              onMouseLeave={() => collab.sendCursor(null)}
             >
-              <SortableContext
-                items={blocks.map(b => b.id)}
-                strategy={verticalListSortingStrategy}
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCenter}
+                onDragEnd={handleDragEnd}
               >
-                <div className="space-y-3">
-                  {blocks.map((block) => renderBlock(block))}
-                </div>
-              </SortableContext>
-            </DndContext>
+                <SortableContext
+                  items={blocks.map(b => b.id)}
+                  strategy={verticalListSortingStrategy}
+                >
+                  <div className="space-y-3">
+                    {blocks.map((block) => renderBlock(block))}
+                  </div>
+                </SortableContext>
+              </DndContext>
+              <RemoteCursors cursors={collab.cursors} containerRef={canvasRef} />
+            </div>
           )}
 
           {blocks.length > 0 && (
@@ -850,6 +1113,11 @@ export default function CustomGuideEditor({
   initialContent,
   initialMetadata,
   onSave,
+  onAutosave,
+  draft,
+  onDiscardDraft,
+  collaboration,
+  revisionHistory,
   onCancel,
   isEditing,
   isTeacher
@@ -864,6 +1132,11 @@ export default function CustomGuideEditor({
       />
       <EditorContent
         onSave={onSave}
+        onAutosave={onAutosave}
+        draft={draft}
+        onDiscardDraft={onDiscardDraft}
+        collaboration={collaboration}
+        revisionHistory={revisionHistory}
         onCancel={onCancel}
         isEditing={isEditing}
         isTeacher={isTeacher}
@@ -883,21 +1156,18 @@ function EditorInitializer({
   initialContent?: EditorBlock[]
   initialMetadata?: { title: string; subject: string; gradeLevel: string; className?: string }
 }) {
-  const { initializeBlocks, setMetadata } = useEditor()
+  const { initializeBlocks } = useEditor()
   const initialized = useRef(false)
 
-  // Initialize on mount (only once)
+  // Initialize on mount (only once); loading isn't an undoable change
   useEffect(() => {
     if (initialized.current) return
     initialized.current = true
 
-    if (initialContent && initialContent.length > 0) {
-      initializeBlocks(initialContent)
-    }
-    if (initialMetadata) {
-      setMetadata(initialMetadata)
+    if ((initialContent && initialContent.length > 0) || initialMetadata) {
+      initializeBlocks(initialContent ?? [], initialMetadata)
     }
-  }, [initialContent, initialMetadata, initializeBlocks, setMetadata])
+  }, [initialContent, initialMetadata, initializeBlocks])
 
   return null
 }
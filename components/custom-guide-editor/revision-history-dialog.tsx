@@ -0,0 +1,433 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Copy, History, Loader2, RotateCcw, Send } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { diffRevisions, summarizeDiff, type BlockChange, type RevisionSnapshot } from "@/lib/revisions/compare"
+
+interface RevisionSummary {
+  id: string
+  number: number
+  name: string | null
+  title: string
+  createdAt: string
+  author: string | null
+}
+
+interface AssignedClass {
+  classId: string
+  name: string
+  revisionId: string | null
+}
+
+const KIND_STYLES: Record<Exclude<BlockChange['kind'], 'unchanged'>, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-emerald-100 text-emerald-800' },
+  removed: { label: 'Removed', className: 'bg-rose-100 text-rose-800' },
+  changed: { label: 'Changed', className: 'bg-amber-100 text-amber-800' },
+}
+const MOVED_STYLE = 'bg-sky-100 text-sky-800'
+
+function formatWhen(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+function versionLabel(revision: RevisionSummary): string {
+  return revision.name ? `Version ${revision.number} · ${revision.name}` : `Version ${revision.number}`
+}
+
+// The guide's saved versions: name them, compare any two block by block,
+// bring one back into the editor or start a new guide from it. The owner also
+// sees which version each class was assigned and can push them the latest.
+export function RevisionHistoryDialog({ guideId, isOwner, onRestore }: {
+  guideId: string
+  isOwner: boolean
+  // Load the version into the editor; it's saved as a new version with the guide
+  onRestore: (snapshot: RevisionSnapshot, number: number) => void
+}) {
+  const [open, setOpen] = useState(false)
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([])
+  const [classes, setClasses] = useState<AssignedClass[]>([])
+  const [snapshots, setSnapshots] = useState<Record<string, RevisionSnapshot>>({})
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  // The version the selected one is compared with; null for the one before it
+  const [compareId, setCompareId] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [busy, setBusy] = useState<'name' | 'fork' | 'push' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  // The editor for a guide just made from a version
+  const [forkUrl, setForkUrl] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/study-guides/${guideId}/revisions`, { credentials: 'include' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load history')
+      setRevisions(data.revisions)
+      setClasses(data.classes)
+      setSelectedId(current => current ?? data.revisions[0]?.id ?? null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history')
+    } finally {
+      setLoading(false)
+    }
+  }, [guideId])
+
+  useEffect(() => {
+    if (open) load()
+    else {
+      setSelectedId(null)
+      setCompareId(null)
+      setNotice(null)
+      setForkUrl(null)
+    }
+  }, [open, load])
+
+  const index = revisions.findIndex(r => r.id === selectedId)
+  const selected = revisions[index] ?? null
+  const latest = revisions[0] ?? null
+  const compareWith = compareId
+    ? revisions.find(r => r.id === compareId) ?? null
+    : revisions[index + 1] ?? null
+
+  useEffect(() => {
+    setName(selected?.name ?? '')
+  }, [selected?.id, selected?.name])
+
+  // Fetch the content of the two versions being compared, once each
+  useEffect(() => {
+    const missing = [selected?.id, compareWith?.id].filter((id): id is string => !!id && !snapshots[id])
+    if (missing.length === 0) return
+    let cancelled = false
+    Promise.all(missing.map(async id => {
+      const response = await fetch(`/api/study-guides/${guideId}/revisions/${id}`, { credentials: 'include' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load version')
+      return [id, data.snapshot as RevisionSnapshot] as const
+    }))
+      .then(loaded => {
+        if (!cancelled) setSnapshots(prev => ({ ...prev, ...Object.fromEntries(loaded) }))
+      })
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Failed to load version'))
+    return () => {
+      cancelled = true
+    }
+  }, [guideId, selected?.id, compareWith?.id, snapshots])
+
+  const selectedSnapshot = selected ? snapshots[selected.id] : undefined
+  const compareSnapshot = compareWith ? snapshots[compareWith.id] : undefined
+  const diff = useMemo(
+    () => (selectedSnapshot && compareSnapshot ? diffRevisions(compareSnapshot, selectedSnapshot) : null),
+    [selectedSnapshot, compareSnapshot]
+  )
+  const changes = diff?.blocks.filter(b => b.kind !== 'unchanged' || b.moved) ?? []
+
+  const handleName = async () => {
+    if (!selected) return
+    setBusy('name')
+    setError(null)
+    try {
+      const response = await fetch(`/api/study-guides/${guideId}/revisions/${selected.id}`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to name version')
+      setRevisions(prev => prev.map(r => (r.id === selected.id ? { ...r, name: data.revision.name } : r)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to name version')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleFork = async () => {
+    if (!selected) return
+    setBusy('fork')
+    setError(null)
+    try {
+      const response = await fetch(`/api/study-guides/${guideId}/revisions/${selected.id}/fork`, {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to copy version')
+      setNotice(`Version ${selected.number} is now a guide of its own.`)
+      setForkUrl(data.editUrl)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to copy version')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handlePush = async (classIds?: string[]) => {
+    setBusy('push')
+    setError(null)
+    setForkUrl(null)
+    try {
+      const response = await fetch(`/api/study-guides/${guideId}/assign`, {
+        method: 'PATCH',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(classIds ? { classIds } : {})
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to push update')
+      const pushed = new Set<string>(data.classIds)
+      setClasses(prev => prev.map(c => (pushed.has(c.classId) ? { ...c, revisionId: data.revisionId } : c)))
+      setNotice(`Students in ${pushed.size === 1 ? 'that class' : `${pushed.size} classes`} now see the latest version.`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to push update')
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleRestore = () => {
+    if (!selected || !selectedSnapshot) return
+    onRestore(selectedSnapshot, selected.number)
+    setOpen(false)
+  }
+
+  // Classes pinned to an older version
+  const behind = classes.filter(c => c.revisionId !== null && c.revisionId !== latest?.id)
+  const numberOf = (revisionId: string | null) => revisions.find(r => r.id === revisionId)?.number
+
+  return (
+    <Dialog open={open} onOpenChange={v => !busy && setOpen(v)}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Version history" aria-label="Version history">
+          <History className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Every save keeps a version of the guide. Name the ones worth coming back to; restoring
+            one loads it into the editor, and saving makes it the latest version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {notice && (
+          <p className="text-sm text-green-700">
+            {notice}{' '}
+            {forkUrl && (
+              <a href={forkUrl} target="_blank" rel="noopener noreferrer" className="font-medium underline">
+                Open it in a new tab
+              </a>
+            )}
+          </p>
+        )}
+
+        {loading && revisions.length === 0 ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">
+            No saved versions yet. Versions are kept from the next time the guide is saved.
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[14rem_1fr]">
+            <ol className="space-y-1 overflow-y-auto sm:max-h-[60vh]">
+              {revisions.map(revision => (
+                <li key={revision.id}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setSelectedId(revision.id)
+                      setCompareId(null)
+                    }}
+                    className={cn(
+                      "w-full rounded-md border px-3 py-2 text-left transition-colors",
+                      revision.id === selectedId ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                    )}
+                  >
+                    <span className="flex items-center gap-2 text-sm font-medium">
+                      Version {revision.number}
+                      {revision === latest && <Badge variant="secondary" className="px-1.5 py-0 text-[10px]">Current</Badge>}
+                    </span>
+                    {revision.name && <span className="block truncate text-sm text-primary">{revision.name}</span>}
+                    <span className="block text-xs text-muted-foreground">
+                      {revision.author ?? 'Unknown'} · {formatWhen(revision.createdAt)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            <div className="min-w-0 space-y-4 overflow-y-auto sm:max-h-[60vh]">
+              {selected && (
+                <div className="flex gap-2">
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder={`Name version ${selected.number}, e.g. Fall 2026 version`}
+                    maxLength={100}
+                    data-native-undo
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleName}
+                    disabled={busy !== null || name.trim() === (selected.name ?? '')}
+                  >
+                    {busy === 'name' ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save name'}
+                  </Button>
+                </div>
+              )}
+
+              {selected && revisions.length > 1 && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-muted-foreground">Compared with</span>
+                  <Select
+                    value={compareWith?.id ?? ''}
+                    onValueChange={setCompareId}
+                  >
+                    <SelectTrigger className="w-64">
+                      <SelectValue placeholder="Choose a version" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions.filter(r => r.id !== selected.id).map(r => (
+                        <SelectItem key={r.id} value={r.id}>{versionLabel(r)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {diff && <span className="text-muted-foreground">{summarizeDiff(diff)}</span>}
+                </div>
+              )}
+
+              {selected && !compareWith && (
+                <p className="text-sm text-muted-foreground">The first saved version of this guide.</p>
+              )}
+              {compareWith && !diff && (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                </div>
+              )}
+
+              {diff && compareWith && selected && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3 text-xs font-medium text-muted-foreground">
+                    <span>{versionLabel(compareWith)}</span>
+                    <span>{versionLabel(selected)}</span>
+                  </div>
+                  {diff.details.map(field => (
+                    <div key={field.label} className="space-y-1">
+                      <p className="text-xs font-medium">{field.label}</p>
+                      <div className="grid grid-cols-2 gap-3 text-sm">
+                        <p className="rounded bg-rose-50 px-2 py-1 text-rose-900">{field.before || <span className="italic text-muted-foreground">empty</span>}</p>
+                        <p className="rounded bg-emerald-50 px-2 py-1 text-emerald-900">{field.after || <span className="italic text-muted-foreground">empty</span>}</p>
+                      </div>
+                    </div>
+                  ))}
+                  {changes.map(change => {
+                    const style = change.kind === 'unchanged' ? null : KIND_STYLES[change.kind]
+                    return (
+                      <div key={`${change.kind}-${change.id}`} className="space-y-1">
+                        <p className="flex flex-wrap items-center gap-2 text-xs font-medium">
+                          {change.section && <span className="text-muted-foreground">{change.section} ›</span>}
+                          {change.label}
+                          {style && <span className={cn("rounded px-1.5 py-0.5 text-[10px]", style.className)}>{style.label}</span>}
+                          {change.moved && <span className={cn("rounded px-1.5 py-0.5 text-[10px]", MOVED_STYLE)}>Moved</span>}
+                        </p>
+                        {change.kind !== 'unchanged' && (
+                          <div className="grid grid-cols-2 gap-3 text-sm">
+                            <p className={cn("whitespace-pre-wrap rounded px-2 py-1", change.before !== null && change.kind !== 'added' && "bg-rose-50 text-rose-900")}>
+                              {change.before}
+                            </p>
+                            <p className={cn("whitespace-pre-wrap rounded px-2 py-1", change.after !== null && "bg-emerald-50 text-emerald-900")}>
+                              {change.after}
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                  {diff.details.length === 0 && changes.length === 0 && (
+                    <p className="text-sm text-muted-foreground">These versions are the same.</p>
+                  )}
+                </div>
+              )}
+
+              {isOwner && classes.length > 0 && (
+                <div className="space-y-2 border-t pt-4">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-medium">What your classes see</p>
+                    {behind.length > 1 && (
+                      <Button size="sm" variant="outline" onClick={() => handlePush(behind.map(c => c.classId))} disabled={busy !== null}>
+                        <Send className="mr-2 h-4 w-4" />
+                        Push latest to all classes
+                      </Button>
+                    )}
+                  </div>
+                  <ul className="divide-y rounded-lg border">
+                    {classes.map(cls => {
+                      const number = numberOf(cls.revisionId)
+                      const current = cls.revisionId === latest?.id
+                      return (
+                        <li key={cls.classId} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                          <span>
+                            <span className="font-medium">{cls.name}</span>
+                            <span className="text-muted-foreground">
+                              {' · '}
+                              {cls.revisionId === null ? 'the guide as it is now' : current ? 'the latest version' : `version ${number ?? '?'}`}
+                            </span>
+                          </span>
+                          {!current && cls.revisionId !== null && (
+                            <Button size="sm" variant="ghost" onClick={() => handlePush([cls.classId])} disabled={busy !== null}>
+                              Push update
+                            </Button>
+                          )}
+                        </li>
+                      )
+                    })}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleFork} disabled={!selected || busy !== null}>
+            {busy === 'fork' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Copy className="mr-2 h-4 w-4" />}
+            Make a new guide from it
+          </Button>
+          <Button onClick={handleRestore} disabled={!selectedSnapshot || selected === latest || busy !== null}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            {selected && selected !== latest ? `Restore version ${selected.number}` : 'Restore'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
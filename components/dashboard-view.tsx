@@ -30,6 +30,7 @@ import {
   Users,
   Plus,
   Sparkles,
+  Layers,
 } from "lucide-react"
 import {
   resolveClassColor,
@@ -131,6 +132,14 @@ interface GuideRow {
   class_colors?: string[]
 }
 
+interface DueGuideRow {
+  study_guide_id: string
+  title: string
+  subject: string
+  due_count: number
+  oldest_due_at: string
+}
+
 interface DashboardData {
   classes: ClassRow[]
   upcoming: StudentUpcomingRow[] | TeacherUpcomingRow[]
@@ -408,11 +417,14 @@ export default function DashboardView() {
             guides={filteredGuides}
           />
         ) : isStudent ? (
-          <StudentCards
-            upcoming={filteredUpcoming as StudentUpcomingRow[]}
-            grades={filteredGrades as StudentGradeRow[]}
-            guides={filteredGuides}
-          />
+          <>
+            <FlashcardReviewStrip />
+            <StudentCards
+              upcoming={filteredUpcoming as StudentUpcomingRow[]}
+              grades={filteredGrades as StudentGradeRow[]}
+              guides={filteredGuides}
+            />
+          </>
         ) : null}
       </div>
     </div>
@@ -430,6 +442,51 @@ function StatBlock({ label, value }: { label: string; value: number }) {
 
 // =================== Student cards ===================
 
+// Spaced-repetition queue across every guide the student has studied. Hidden
+// when nothing is due so the dashboard stays quiet on caught-up days.
+function FlashcardReviewStrip() {
+  const [due, setDue] = useState<{ total: number; guides: DueGuideRow[] } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch("/api/flashcard-progress/due")
+      .then(res => (res.ok ? res.json() : null))
+      .then(json => {
+        if (!cancelled && json) setDue({ total: json.total ?? 0, guides: json.guides ?? [] })
+      })
+      .catch(err => console.error("Failed to load review queue:", err))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  if (!due || due.total === 0) return null
+
+  return (
+    <Card className="mb-4 overflow-hidden">
+      <CardContent className="p-4 flex items-center gap-4 flex-wrap">
+        <div className="flex items-center gap-2 font-semibold">
+          <span className={`w-1 h-5 rounded-sm ${COLOR_STRIPE.indigo}`} />
+          <Layers className="h-5 w-5" />
+          {due.total} {due.total === 1 ? "card" : "cards"} due for review
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {due.guides.slice(0, 5).map(g => (
+            <Link
+              key={g.study_guide_id}
+              href={`/study-guide/${g.study_guide_id}?review=due`}
+              className="inline-flex items-center gap-1.5 rounded-full border bg-background px-3 py-1 text-sm hover:bg-muted/40 transition-colors"
+            >
+              <span className="truncate max-w-[14rem]">{g.title}</span>
+              <Badge variant="secondary">{g.due_count}</Badge>
+            </Link>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
 function StudentCards({
   upcoming,
   grades,
@@ -23,8 +23,11 @@ import {
   CheckSquare,
   RefreshCw,
   CreditCard,
-  RotateCw
+  RotateCw,
+  FlaskConical,
+  PlayCircle
 } from 'lucide-react'
+import Image from 'next/image'
 import {
   CustomGuideContent,
   CustomSection,
@@ -35,11 +38,21 @@ import {
   isChecklistContent,
   isTableContent,
   isFlashcardsContent,
+  isMathContent,
+  isChemicalEquationContent,
+  isImageContent,
+  isDiagramContent,
+  isVideoContent,
   QuizQuestion,
   FlashCard,
-  DefinitionColorVariant
+  DefinitionColorVariant,
+  DiagramHotspot,
+  VideoTimestamp
 } from '@/lib/types/custom-guide'
 import { fontDisplay } from '@/lib/formats/design'
+import { Tex } from '@/components/formats/tex'
+import { checkBalance, parseEquation, withCoefficients } from '@/lib/chemistry/equations'
+import { embedUrl, formatTimestamp, videoSource, watchUrl } from '@/lib/video-embed'
 
 interface CustomFormatProps {
   content: CustomGuideContent
@@ -279,6 +292,55 @@ function SectionRenderer({
       }
       return null
 
+    case 'math':
+      if (isMathContent(section.content)) {
+        return <MathBlock latex={section.content.latex} caption={section.content.caption} />
+      }
+      return null
+
+    case 'chemical-equation':
+      if (isChemicalEquationContent(section.content)) {
+        return (
+          <ChemicalEquationBlock
+            equation={section.content.equation}
+            caption={section.content.caption}
+            practice={section.content.practice}
+          />
+        )
+      }
+      return null
+
+    case 'image':
+      if (isImageContent(section.content)) {
+        return <ImageBlock url={section.content.url} alt={section.content.alt} caption={section.content.caption} />
+      }
+      return null
+
+    case 'diagram':
+      if (isDiagramContent(section.content)) {
+        return (
+          <DiagramBlock
+            title={section.title}
+            imageUrl={section.content.imageUrl}
+            alt={section.content.alt}
+            hotspots={section.content.hotspots}
+          />
+        )
+      }
+      return null
+
+    case 'video':
+      if (isVideoContent(section.content)) {
+        return (
+          <VideoBlock
+            url={section.content.url}
+            caption={section.content.caption}
+            timestamps={section.content.timestamps}
+          />
+        )
+      }
+      return null
+
     default:
       return null
   }
@@ -535,7 +597,7 @@ function AlertBlock({
   return (
     <Alert className={`${styles.border} ${styles.bg}`}>
       {styles.icon}
-      <AlertDescription className={styles.text}>
+      <AlertDescription className={`${styles.text} whitespace-pre-line`}>
         {title && <strong>{title}: </strong>}
         {message}
       </AlertDescription>
@@ -946,6 +1008,270 @@ function TableBlock({
   )
 }
 
+// Math Block
+function MathBlock({ latex, caption }: { latex: string; caption?: string }) {
+  if (!latex.trim()) return null
+  return (
+    <figure className="my-4 print:break-inside-avoid">
+      <div className="overflow-x-auto py-2">
+        <Tex tex={latex} />
+      </div>
+      {caption && <figcaption className="text-sm text-gray-600 text-center">{caption}</figcaption>}
+    </figure>
+  )
+}
+
+// Chemical Equation Block. In practice mode the coefficients are blanks the
+// student fills in; any balanced set in lowest terms counts, and the
+// teacher's version is shown once it does.
+function ChemicalEquationBlock({
+  equation,
+  caption,
+  practice
+}: {
+  equation: string
+  caption?: string
+  practice?: boolean
+}) {
+  const parsed = parseEquation(equation)
+  const [answers, setAnswers] = useState<string[]>([])
+  const [result, setResult] = useState<'balanced' | 'unbalanced' | 'simplify' | 'incomplete' | null>(null)
+
+  if (!equation.trim()) return null
+  if (!practice || !parsed.ok) {
+    return (
+      <figure className="my-4 print:break-inside-avoid">
+        <div className="overflow-x-auto py-2">
+          <Tex tex={`\\ce{${equation}}`} />
+        </div>
+        {caption && <figcaption className="text-sm text-gray-600 text-center">{caption}</figcaption>}
+      </figure>
+    )
+  }
+
+  const species = [...parsed.equation.reactants, ...parsed.equation.products]
+  const reactantCount = parsed.equation.reactants.length
+
+  const check = () => {
+    const coefficients = species.map((_, i) => Number(answers[i] || '1'))
+    if (coefficients.some(c => !Number.isInteger(c) || c < 1)) {
+      setResult('incomplete')
+      return
+    }
+    if (!checkBalance(withCoefficients(parsed.equation, coefficients)).balanced) {
+      setResult('unbalanced')
+      return
+    }
+    const divisor = coefficients.reduce((a, b) => {
+      while (b) [a, b] = [b, a % b]
+      return a
+    })
+    setResult(divisor > 1 ? 'simplify' : 'balanced')
+  }
+
+  return (
+    <div className="border-2 border-emerald-300 rounded-lg p-4 bg-emerald-50/50 print:break-inside-avoid">
+      <h4 className="font-semibold text-emerald-900 mb-3 flex items-center gap-2">
+        <FlaskConical className="h-4 w-4" />
+        {caption || 'Balance the equation'}
+      </h4>
+      <div className="flex flex-wrap items-center gap-2 text-lg">
+        {species.map((s, i) => (
+          <span key={i} className="flex items-center gap-1">
+            {i > 0 && (
+              <span className="mx-1 text-gray-700">
+                {i === reactantCount ? <Tex tex={`\\ce{${parsed.equation.arrow}}`} display={false} /> : '+'}
+              </span>
+            )}
+            <Input
+              value={answers[i] ?? ''}
+              onChange={(e) => {
+                const next = [...answers]
+                next[i] = e.target.value.replace(/\D/g, '')
+                setAnswers(next)
+                setResult(null)
+              }}
+              inputMode="numeric"
+              aria-label={`Coefficient for ${s.formula}`}
+              className="w-12 h-9 text-center bg-white"
+            />
+            <Tex tex={`\\ce{${s.formula}}`} display={false} />
+          </span>
+        ))}
+      </div>
+      <div className="flex items-center gap-3 mt-3 print:hidden">
+        <Button size="sm" onClick={check} className="bg-emerald-600 hover:bg-emerald-700">
+          Check
+        </Button>
+        {result === 'balanced' && (
+          <span className="text-sm text-green-700 flex items-center gap-1">
+            <CheckCircle className="h-4 w-4" />
+            Balanced!
+          </span>
+        )}
+        {result === 'unbalanced' && (
+          <span className="text-sm text-red-700">Not balanced yet. Count each element on both sides.</span>
+        )}
+        {result === 'simplify' && (
+          <span className="text-sm text-amber-700">Balanced, but every coefficient can be divided further.</span>
+        )}
+        {result === 'incomplete' && (
+          <span className="text-sm text-amber-700">Use whole numbers of 1 or more (a blank counts as 1).</span>
+        )}
+      </div>
+      {result === 'balanced' && (
+        <div className="mt-3 pt-3 border-t border-emerald-200 text-sm text-gray-700 print:hidden">
+          <span className="font-medium">Teacher&apos;s version:</span>
+          <Tex tex={`\\ce{${equation}}`} display={false} className="ml-2" />
+        </div>
+      )}
+    </div>
+  )
+}
+
+// Image Block
+function ImageBlock({ url, alt, caption }: { url: string; alt: string; caption?: string }) {
+  if (!url) return null
+  return (
+    <figure className="my-4 print:break-inside-avoid">
+      <Image
+        src={url}
+        alt={alt}
+        width={1200}
+        height={800}
+        className="mx-auto h-auto max-h-[32rem] w-auto max-w-full rounded-lg border"
+      />
+      {caption && <figcaption className="text-sm text-gray-600 text-center mt-2">{caption}</figcaption>}
+    </figure>
+  )
+}
+
+// Diagram Block (numbered hotspots; the key below lists them all, so it also works printed)
+function DiagramBlock({
+  title,
+  imageUrl,
+  alt,
+  hotspots
+}: {
+  title?: string
+  imageUrl: string
+  alt: string
+  hotspots: DiagramHotspot[]
+}) {
+  const [activeId, setActiveId] = useState<string | null>(null)
+  if (!imageUrl) return null
+
+  return (
+    <div className="border-2 border-orange-200 rounded-lg p-4 bg-orange-50/30 print:break-inside-avoid">
+      {title && <h4 className="font-semibold text-orange-900 mb-3">{title}</h4>}
+      <div className="flex justify-center">
+        <div className="relative inline-block">
+          <Image
+            src={imageUrl}
+            alt={alt}
+            width={1200}
+            height={800}
+            className="h-auto max-h-[32rem] w-auto max-w-full rounded border bg-white"
+          />
+          {hotspots.map((spot, index) => (
+            <button
+              key={spot.id}
+              type="button"
+              onClick={() => setActiveId(activeId === spot.id ? null : spot.id)}
+              aria-label={spot.label || `Hotspot ${index + 1}`}
+              aria-pressed={activeId === spot.id}
+              className={`absolute -translate-x-1/2 -translate-y-1/2 h-7 w-7 rounded-full text-white text-xs font-bold flex items-center justify-center ring-2 ring-white shadow transition-transform ${
+                activeId === spot.id ? 'bg-orange-600 scale-110' : 'bg-blue-600 hover:scale-110'
+              }`}
+              style={{ left: `${spot.x}%`, top: `${spot.y}%` }}
+            >
+              {index + 1}
+            </button>
+          ))}
+        </div>
+      </div>
+      {hotspots.length > 0 && (
+        <ol className="mt-4 space-y-1 text-sm">
+          {hotspots.map((spot, index) => (
+            <li
+              key={spot.id}
+              className={`flex gap-2 rounded px-2 py-1 ${activeId === spot.id ? 'bg-orange-100' : ''}`}
+            >
+              <span className="font-bold text-blue-700 w-5 shrink-0">{index + 1}.</span>
+              <span>
+                <strong>{spot.label}</strong>
+                {spot.description && <span className="text-gray-700"> — {spot.description}</span>}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+// Video Block (an embedded player on screen; a link and the timestamp list in print)
+function VideoBlock({
+  url,
+  caption,
+  timestamps
+}: {
+  url: string
+  caption?: string
+  timestamps: VideoTimestamp[]
+}) {
+  const source = videoSource(url)
+  const [start, setStart] = useState<{ seconds: number; autoplay: boolean }>({ seconds: 0, autoplay: false })
+  if (!url.trim()) return null
+
+  return (
+    <div className="border-2 border-red-200 rounded-lg p-4 bg-red-50/30 print:break-inside-avoid">
+      {source ? (
+        <div className="aspect-video w-full rounded-lg overflow-hidden bg-black print:hidden">
+          <iframe
+            key={`${start.seconds}-${start.autoplay}`}
+            src={embedUrl(source, start.seconds, start.autoplay)}
+            title={caption || 'Video'}
+            className="h-full w-full"
+            allow="autoplay; encrypted-media; picture-in-picture"
+            allowFullScreen
+          />
+        </div>
+      ) : (
+        <a href={url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-blue-700 underline print:hidden">
+          <PlayCircle className="h-5 w-5" />
+          Watch the video
+        </a>
+      )}
+      <p className="hidden print:flex items-center gap-2 text-sm">
+        <PlayCircle className="h-4 w-4" />
+        Video: {source ? watchUrl(source) : url}
+      </p>
+      {caption && <p className="text-sm text-gray-700 mt-2">{caption}</p>}
+      {timestamps.length > 0 && (
+        <ul className="mt-3 space-y-1 text-sm">
+          {timestamps.map(stamp => (
+            <li key={stamp.id} className="flex items-baseline gap-2">
+              {source ? (
+                <button
+                  type="button"
+                  onClick={() => setStart({ seconds: stamp.seconds, autoplay: true })}
+                  className="font-mono text-blue-700 hover:underline"
+                >
+                  {formatTimestamp(stamp.seconds)}
+                </button>
+              ) : (
+                <span className="font-mono text-gray-600">{formatTimestamp(stamp.seconds)}</span>
+              )}
+              <span>{stamp.label}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
 // Markdown formatter with improved regex patterns
 function formatMarkdown(content: string): string {
   return content
@@ -14,15 +14,34 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog'
-import { ChevronLeft, ChevronRight, Shuffle, Check, X, RotateCcw } from 'lucide-react'
+import { ChevronLeft, ChevronRight, Shuffle, Check, X, RotateCcw, CalendarClock } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
 import { cn } from '@/lib/utils'
+import {
+  REVIEW_RATINGS,
+  formatInterval,
+  isDue,
+  newCardSchedule,
+  scheduleReview,
+  statusForRating,
+  type CardSchedule,
+  type ReviewRating,
+} from '@/lib/flashcards/scheduler'
 import { displaySerif } from '@/lib/formats/fonts'
 import { formatContent } from '@/lib/formats/format-content'
 import { fontDisplay, eyebrow, state as stateStyle, capitalizeFirst, formatAccent } from '@/lib/formats/design'
 
 const accent = formatAccent.flashcards
 
+// Again/Hard share the "still learning" color, Good/Easy the "got it" color —
+// the rating maps onto the same mastered/difficult state the counters show.
+const RATING_BUTTONS: Record<ReviewRating, { label: string; className: string }> = {
+  again: { label: 'Again', className: 'border-amber-300 text-amber-800 hover:bg-amber-500 hover:text-white hover:border-amber-500' },
+  hard: { label: 'Hard', className: 'border-amber-200 text-amber-700 hover:bg-amber-500 hover:text-white hover:border-amber-500' },
+  good: { label: 'Good', className: 'border-emerald-200 text-emerald-700 hover:bg-emerald-500 hover:text-white hover:border-emerald-500' },
+  easy: { label: 'Easy', className: 'border-emerald-300 text-emerald-800 hover:bg-emerald-500 hover:text-white hover:border-emerald-500' },
+}
+
 // Split a prose answer into a bold TL;DR (first sentence) + a muted extended
 // remainder. Answers that lead with a table/list/heading are left whole (the
 // TL;DR split would break their structure).
@@ -54,12 +73,25 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
   const [showMore, setShowMore] = useState(false)
   const [masteredCards, setMasteredCards] = useState<Set<string>>(new Set())
   const [difficultCards, setDifficultCards] = useState<Set<string>>(new Set())
+  const [schedules, setSchedules] = useState<Record<string, CardSchedule>>({})
+  // Review mode: ids of the cards still to grade this session (null = browsing
+  // the whole deck). "Again" sends a card to the back of the queue.
+  const [reviewQueue, setReviewQueue] = useState<string[] | null>(null)
+  const [reviewedCount, setReviewedCount] = useState(0)
   const [isLoadingProgress, setIsLoadingProgress] = useState(!!userId)
   const [isSavingProgress, setIsSavingProgress] = useState(false)
   const hasLoadedProgressRef = useRef(false)
-
-  const currentCard = flashcards[currentIndex]
-  const progress = ((currentIndex + 1) / flashcards.length) * 100
+  const ratingKeyRef = useRef<((rating: ReviewRating) => void) | null>(null)
+
+  const inReview = reviewQueue !== null
+  const currentCard = inReview
+    ? flashcards.find(c => c.id === reviewQueue[0]) ?? flashcards[currentIndex]
+    : flashcards[currentIndex]
+  const reviewDone = inReview && reviewQueue.length === 0
+  const dueCount = flashcards.filter(c => isDue(schedules[c.id] ?? newCardSchedule())).length
+  const progress = inReview
+    ? (reviewedCount / Math.max(1, reviewedCount + reviewQueue.length)) * 100
+    : ((currentIndex + 1) / flashcards.length) * 100
 
   const getAuthHeaders = async () => {
     const { data: { session } } = await supabase.auth.getSession()
@@ -86,7 +118,8 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
         if (!response.ok) return
 
         const data = await response.json()
-        const { progress } = data
+        const { progress, schedules: savedSchedules } = data
+        if (savedSchedules && typeof savedSchedules === 'object') setSchedules(savedSchedules)
 
         if (progress && typeof progress === 'object') {
           const mastered = new Set<string>()
@@ -108,7 +141,14 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
     loadProgress()
   }, [studyGuideId, userId])
 
-  const saveProgress = async (cardId: string, status: 'mastered' | 'difficult') => {
+  // Dashboard "cards due" links land here with ?review=due
+  useEffect(() => {
+    if (isLoadingProgress) return
+    if (new URLSearchParams(window.location.search).get('review') === 'due') startReview()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoadingProgress])
+
+  const saveProgress = async (cardId: string, rating: ReviewRating) => {
     if (!studyGuideId || !userId) return
     setIsSavingProgress(true)
     try {
@@ -116,7 +156,7 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
       await fetch('/api/flashcard-progress', {
         method: 'POST',
         headers,
-        body: JSON.stringify({ studyGuideId, cardId, status, userId })
+        body: JSON.stringify({ studyGuideId, cardId, rating, userId })
       })
     } catch (error) {
       console.error('Error saving progress:', error)
@@ -129,6 +169,7 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
     if (!studyGuideId || !userId) {
       setMasteredCards(new Set())
       setDifficultCards(new Set())
+      setSchedules({})
       return
     }
     try {
@@ -137,6 +178,7 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
       if (response.ok) {
         setMasteredCards(new Set())
         setDifficultCards(new Set())
+        setSchedules({})
       }
     } catch (error) {
       console.error('Error resetting progress:', error)
@@ -155,18 +197,46 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
     setCurrentIndex((prev) => (prev - 1 + flashcards.length) % flashcards.length)
   }
 
-  const markMastered = () => {
-    setMasteredCards(prev => new Set(prev).add(currentCard.id))
-    setDifficultCards(prev => { const u = new Set(prev); u.delete(currentCard.id); return u })
-    saveProgress(currentCard.id, 'mastered')
-    nextCard()
+  const rateCard = (rating: ReviewRating) => {
+    const cardId = currentCard.id
+    const schedule = schedules[cardId] ?? newCardSchedule()
+    setSchedules(prev => ({ ...prev, [cardId]: scheduleReview(schedule, rating) }))
+    if (statusForRating(rating) === 'mastered') {
+      setMasteredCards(prev => new Set(prev).add(cardId))
+      setDifficultCards(prev => { const u = new Set(prev); u.delete(cardId); return u })
+    } else {
+      setDifficultCards(prev => new Set(prev).add(cardId))
+      setMasteredCards(prev => { const u = new Set(prev); u.delete(cardId); return u })
+    }
+    saveProgress(cardId, rating)
+
+    if (inReview) {
+      setIsFlipped(false)
+      setShowMore(false)
+      setReviewedCount(n => n + 1)
+      setReviewQueue(queue => {
+        if (!queue) return queue
+        const rest = queue.filter(id => id !== cardId)
+        return rating === 'again' ? [...rest, cardId] : rest
+      })
+    } else {
+      nextCard()
+    }
+  }
+  ratingKeyRef.current = isFlipped && !reviewDone ? rateCard : null
+
+  // Queue every new or overdue card, in deck order
+  const startReview = () => {
+    setReviewQueue(flashcards.filter(c => isDue(schedules[c.id] ?? newCardSchedule())).map(c => c.id))
+    setReviewedCount(0)
+    setIsFlipped(false)
+    setShowMore(false)
   }
 
-  const markDifficult = () => {
-    setDifficultCards(prev => new Set(prev).add(currentCard.id))
-    setMasteredCards(prev => { const u = new Set(prev); u.delete(currentCard.id); return u })
-    saveProgress(currentCard.id, 'difficult')
-    nextCard()
+  const exitReview = () => {
+    setReviewQueue(null)
+    setIsFlipped(false)
+    setShowMore(false)
   }
 
   const shuffleCards = () => {
@@ -176,6 +246,11 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
   }
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    const ratingIndex = ['1', '2', '3', '4'].indexOf(e.key)
+    if (ratingIndex >= 0) {
+      ratingKeyRef.current?.(REVIEW_RATINGS[ratingIndex])
+      return
+    }
     if (e.key === 'ArrowLeft') prevCard()
     else if (e.key === 'ArrowRight') nextCard()
     else if (e.key === ' ' || e.key === 'Enter') {
@@ -205,6 +280,7 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
   // Ring: strong status color when marked, quiet slate when not.
   const ringCls = hasState ? cn('ring-2', cardState.ring) : 'ring-1 ring-slate-200'
   const { tldr, rest, block } = structureAnswer(currentCard.answer)
+  const currentSchedule = schedules[currentCard.id] ?? newCardSchedule()
 
   const face = 'absolute inset-0 backface-hidden overflow-hidden rounded-2xl border border-slate-200 shadow-md ring-inset flex flex-col'
 
@@ -221,10 +297,32 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
       {/* Progress */}
       <div className="rounded-xl border border-slate-200 bg-white shadow-sm p-5 print:hidden">
         <div className="flex items-center justify-between mb-3">
-          <span className="text-sm font-medium text-slate-600">
-            Card <span className="text-slate-900 font-semibold">{currentIndex + 1}</span> of {flashcards.length}
-          </span>
+          {inReview ? (
+            <span className="text-sm font-medium text-slate-600">
+              Review · <span className="text-slate-900 font-semibold">{reviewQueue.length}</span> left
+            </span>
+          ) : (
+            <span className="text-sm font-medium text-slate-600">
+              Card <span className="text-slate-900 font-semibold">{currentIndex + 1}</span> of {flashcards.length}
+            </span>
+          )}
           <div className="flex items-center gap-2">
+            {inReview ? (
+              <Button onClick={exitReview} variant="ghost" size="sm" className="h-7 text-slate-600">
+                Exit review
+              </Button>
+            ) : (
+              <Button
+                onClick={startReview}
+                variant="ghost"
+                size="sm"
+                className={cn('h-7', dueCount > 0 ? accent.text : 'text-slate-400')}
+                disabled={dueCount === 0}
+              >
+                <CalendarClock className="h-3.5 w-3.5 mr-1" />
+                Review due ({dueCount})
+              </Button>
+            )}
             <span className={cn('inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium', stateStyle.mastered.soft)}>
               <Check className="h-3 w-3" />{masteredCards.size}
             </span>
@@ -236,8 +334,23 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
         <Progress value={progress} className="h-1.5" />
       </div>
 
+      {reviewDone && (
+        <div className="rounded-2xl border border-slate-200 bg-white shadow-sm px-8 py-14 text-center print:hidden">
+          <div className={cn('mx-auto mb-4 flex h-12 w-12 items-center justify-center rounded-full', stateStyle.mastered.soft)}>
+            <Check className="h-6 w-6" />
+          </div>
+          <p className={cn(fontDisplay, 'text-2xl font-medium text-slate-900')}>All caught up</p>
+          <p className="mt-2 text-sm text-slate-500">
+            You reviewed {reviewedCount} {reviewedCount === 1 ? 'card' : 'cards'}. Each one comes back when it&apos;s due.
+          </p>
+          <Button onClick={exitReview} variant="outline" className="mt-6">
+            Back to all cards
+          </Button>
+        </div>
+      )}
+
       {/* Flashcard */}
-      <div className="relative h-[460px] perspective-1000 print:hidden">
+      <div className={cn('relative h-[460px] perspective-1000 print:hidden', reviewDone && 'hidden')}>
         {isLoadingProgress && (
           <div className="absolute inset-0 z-10 flex items-center justify-center rounded-2xl bg-white/80">
             <div className="flex flex-col items-center gap-2">
@@ -321,29 +434,28 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
         </div>
       </div>
 
-      {/* Rate + navigate */}
-      <div className="grid grid-cols-2 gap-3 print:hidden">
-        <Button
-          onClick={markDifficult}
-          variant="outline"
-          size="lg"
-          className="border-amber-200 text-amber-700 hover:bg-amber-500 hover:text-white hover:border-amber-500"
-        >
-          <X className="h-4 w-4 mr-2" />
-          Still learning
-        </Button>
-        <Button
-          onClick={markMastered}
-          variant="outline"
-          size="lg"
-          className="border-emerald-200 text-emerald-700 hover:bg-emerald-500 hover:text-white hover:border-emerald-500"
-        >
-          <Check className="h-4 w-4 mr-2" />
-          Got it
-        </Button>
-      </div>
+      {/* Rate (1–4 on the keyboard once flipped) + navigate */}
+      {!reviewDone && (
+        <div className="grid grid-cols-4 gap-2 print:hidden">
+          {REVIEW_RATINGS.map((rating, i) => (
+            <Button
+              key={rating}
+              onClick={() => rateCard(rating)}
+              variant="outline"
+              size="lg"
+              className={cn('h-auto flex-col gap-0 py-2', RATING_BUTTONS[rating].className)}
+              title={`Press ${i + 1} after flipping`}
+            >
+              <span className="font-semibold">{RATING_BUTTONS[rating].label}</span>
+              <span className="text-[0.7rem] font-normal opacity-80 tabular-nums">
+                {formatInterval(currentSchedule, rating)}
+              </span>
+            </Button>
+          ))}
+        </div>
+      )}
 
-      <div className="flex items-center justify-between gap-3 print:hidden">
+      <div className={cn('flex items-center justify-between gap-3 print:hidden', inReview && 'hidden')}>
         <Button onClick={prevCard} variant="ghost" size="sm" className="text-slate-600">
           <ChevronLeft className="h-4 w-4 mr-1" /> Previous
         </Button>
@@ -366,7 +478,7 @@ export default function FlashcardsFormat({ content, subject, studyGuideId, userI
               <AlertDialogHeader>
                 <AlertDialogTitle>Reset all progress?</AlertDialogTitle>
                 <AlertDialogDescription>
-                  This clears every "Got it" and "Still learning" marking for this guide. You'll start fresh. This can't be undone.
+                  This clears every rating and review schedule for this guide. You'll start fresh. This can't be undone.
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <AlertDialogFooter>
@@ -0,0 +1,28 @@
+"use client"
+
+import { useMemo } from 'react'
+import katex from 'katex'
+import 'katex/contrib/mhchem'
+import 'katex/dist/katex.min.css'
+
+// KaTeX for the math and chemical-equation blocks, with mhchem's \ce{} for
+// chemistry. Bad input renders in red in place rather than throwing, so a
+// half-typed equation never takes the guide down.
+
+export function Tex({ tex, display = true, className }: { tex: string; display?: boolean; className?: string }) {
+  const html = useMemo(
+    () => katex.renderToString(tex, { displayMode: display, throwOnError: false, strict: 'ignore' }),
+    [tex, display]
+  )
+  return <span className={className} dangerouslySetInnerHTML={{ __html: html }} />
+}
+
+/** KaTeX's message for LaTeX it can't render, or null when it renders. */
+export function texError(tex: string): string | null {
+  try {
+    katex.renderToString(tex, { throwOnError: true, strict: 'ignore' })
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message.replace(/^KaTeX parse error: /, '') : 'Invalid LaTeX'
+  }
+}
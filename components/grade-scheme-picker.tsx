@@ -0,0 +1,142 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Plus, X } from "lucide-react"
+import {
+  GRADE_SCHEME_PRESETS,
+  sanitizeGradeScheme,
+  type GradeScheme,
+  type GradeSchemePreset,
+} from "@/lib/grading/grade-schemes"
+
+interface Props {
+  // null: the fallback (US letter for a class, the class's scheme for an assignment)
+  value: GradeScheme | null
+  onChange: (scheme: GradeScheme | null) => void
+  fallbackLabel: string
+  id?: string
+}
+
+const FALLBACK = "fallback"
+const CUSTOM = "custom"
+const PRESET_KEYS = Object.keys(GRADE_SCHEME_PRESETS) as GradeSchemePreset[]
+
+function copyScheme(scheme: GradeScheme, name = scheme.name): GradeScheme {
+  return { name, boundaries: scheme.boundaries.map(b => ({ ...b })) }
+}
+
+export default function GradeSchemePicker({ value, onChange, fallbackLabel, id }: Props) {
+  // A preset keeps its name when its boundaries are adjusted, so it stays selected
+  const selected = value === null
+    ? FALLBACK
+    : PRESET_KEYS.find(k => GRADE_SCHEME_PRESETS[k].name === value.name) ?? CUSTOM
+
+  const select = (key: string) => {
+    if (key === FALLBACK) onChange(null)
+    else if (key === CUSTOM) onChange(copyScheme(value ?? GRADE_SCHEME_PRESETS.us_letter, "Custom"))
+    else onChange(copyScheme(GRADE_SCHEME_PRESETS[key as GradeSchemePreset]))
+  }
+
+  const updateBoundary = (index: number, patch: { grade?: string; min?: number }) => {
+    if (!value) return
+    onChange({
+      ...value,
+      boundaries: value.boundaries.map((b, i) => (i === index ? { ...b, ...patch } : b)),
+    })
+  }
+
+  const removeBoundary = (index: number) => {
+    if (!value) return
+    onChange({ ...value, boundaries: value.boundaries.filter((_, i) => i !== index) })
+  }
+
+  const addBoundary = () => {
+    if (!value) return
+    onChange({ ...value, boundaries: [...value.boundaries, { grade: "", min: 0 }] })
+  }
+
+  const invalid = value !== null && sanitizeGradeScheme(value) === null
+
+  return (
+    <div className="space-y-2">
+      <Select value={selected} onValueChange={select}>
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={FALLBACK}>{fallbackLabel}</SelectItem>
+          {PRESET_KEYS.map(k => (
+            <SelectItem key={k} value={k}>{GRADE_SCHEME_PRESETS[k].name}</SelectItem>
+          ))}
+          <SelectItem value={CUSTOM}>Custom…</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && (
+        <div className="space-y-2 rounded-md border p-3">
+          {selected === CUSTOM && (
+            <div className="space-y-1">
+              <Label htmlFor={id ? `${id}-name` : undefined} className="text-xs">Scheme name</Label>
+              <Input
+                id={id ? `${id}-name` : undefined}
+                value={value.name}
+                maxLength={80}
+                onChange={(e) => onChange({ ...value, name: e.target.value })}
+              />
+            </div>
+          )}
+          <div className="grid grid-cols-[1fr_1fr_auto] gap-2 text-xs text-muted-foreground">
+            <span>Grade</span>
+            <span>From %</span>
+            <span className="w-8" />
+          </div>
+          {value.boundaries.map((b, i) => (
+            <div key={i} className="grid grid-cols-[1fr_1fr_auto] gap-2">
+              <Input
+                value={b.grade}
+                maxLength={12}
+                aria-label="Grade"
+                onChange={(e) => updateBoundary(i, { grade: e.target.value })}
+              />
+              <Input
+                type="number"
+                min="0"
+                max="100"
+                value={b.min}
+                aria-label="Minimum percentage"
+                onChange={(e) => updateBoundary(i, { min: Number(e.target.value) })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="w-8 px-0"
+                onClick={() => removeBoundary(i)}
+                disabled={value.boundaries.length <= 2}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={addBoundary} disabled={value.boundaries.length >= 20}>
+            <Plus className="h-4 w-4 mr-1" /> Add grade
+          </Button>
+          {invalid && (
+            <p className="text-xs text-destructive">
+              Each grade needs a distinct name and starting percentage, and the lowest grade must start at 0%.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,10 +3,11 @@
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { CheckCircle2, XCircle } from "lucide-react"
+import { describeCorrectAnswer, partLabel } from "@/lib/mastery/grading"
 import type { AnswerResult, MasteryQuestion } from "@/components/mastery/types"
 
 // Post-answer feedback: verdict, the correct answer, teacher explanation,
-// and AI feedback for short answers. Immediate feedback is the pedagogy of
+// and AI / partial-credit feedback. Immediate feedback is the pedagogy of
 // the mastery loop — never make students wait until the end of a round.
 export default function AnswerFeedback({
   question,
@@ -24,10 +25,7 @@ export default function AnswerFeedback({
       const index = result.correct_answer.index as number
       return `${String.fromCharCode(65 + index)}. ${question.options[index]}`
     }
-    if (question.type === "true_false") {
-      return result.correct_answer.value ? "True" : "False"
-    }
-    return String(result.correct_answer.sample_answer ?? "")
+    return describeCorrectAnswer({ ...question, correct_answer: result.correct_answer })
   })()
 
   return (
@@ -45,7 +43,7 @@ export default function AnswerFeedback({
               <span className="text-lg font-semibold text-red-600 dark:text-red-400">Not quite</span>
             </>
           )}
-          {question.type === "short_answer" && result.score !== null && (
+          {result.score !== null && (
             <span className="ml-auto text-sm text-muted-foreground">Score: {result.score}/100</span>
           )}
         </div>
@@ -55,7 +53,33 @@ export default function AnswerFeedback({
             <p className="text-sm font-medium text-muted-foreground mb-1">
               {question.type === "short_answer" ? "Sample answer" : "Correct answer"}
             </p>
-            <p className="text-sm">{correctAnswerText}</p>
+            {question.type === "multi_part" && question.parts ? (
+              <ul className="text-sm space-y-1">
+                {question.parts.map((part, i) => {
+                  const partResult = result.part_results?.[i]
+                  return (
+                    <li key={i} className="flex items-start gap-2">
+                      {partResult?.is_correct ? (
+                        <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
+                      ) : (
+                        <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-red-500" />
+                      )}
+                      <span className="min-w-0">
+                        {partLabel(i)} {part.prompt} —{" "}
+                        {describeCorrectAnswer({
+                          type: part.type,
+                          options: part.options,
+                          correct_answer: (result.correct_answer.parts as Array<{ correct_answer: Record<string, unknown> }>)[i]
+                            ?.correct_answer ?? {},
+                        })}
+                      </span>
+                    </li>
+                  )
+                })}
+              </ul>
+            ) : (
+              <p className="text-sm">{correctAnswerText}</p>
+            )}
           </div>
         )}
 
@@ -0,0 +1,255 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { ArrowDown, ArrowUp } from "lucide-react"
+import { partLabel } from "@/lib/mastery/grading"
+import type { StudentAnswer } from "@/components/mastery/types"
+import type { QuestionType } from "@/lib/types/question-bank"
+
+/** The bits of a served question (or a multi-part part) an input needs. */
+export interface AnswerInputQuestion {
+  type: QuestionType
+  options: string[] | null
+  match_options?: string[]
+  parts?: Array<{ type: QuestionType; prompt: string; options: string[] | null }>
+}
+
+/** Starting answer: ordering starts as served, matching as all-unpicked. */
+export function initialAnswer(question: AnswerInputQuestion): StudentAnswer {
+  switch (question.type) {
+    case "ordering":
+      return { order: (question.options ?? []).map((_, i) => i) }
+    case "matching":
+      return { matches: (question.options ?? []).map(() => -1) }
+    case "multi_part":
+      return { parts: (question.parts ?? []).map(initialAnswer) }
+    default:
+      return {}
+  }
+}
+
+export function isAnswerComplete(question: AnswerInputQuestion, answer: StudentAnswer): boolean {
+  switch (question.type) {
+    case "multiple_choice":
+      return typeof answer.index === "number"
+    case "true_false":
+      return typeof answer.value === "boolean"
+    case "short_answer":
+      return !!answer.text?.trim()
+    case "numeric":
+      return !!answer.numeric?.trim()
+    case "multi_select":
+      return (answer.indices?.length ?? 0) > 0
+    case "ordering":
+      return true
+    case "matching":
+      return !!answer.matches && answer.matches.every(m => m >= 0)
+    case "multi_part":
+      return (question.parts ?? []).every((part, i) => isAnswerComplete(part, answer.parts?.[i] ?? {}))
+  }
+}
+
+const choiceClass = (selected: boolean) =>
+  `flex items-center gap-3 rounded-lg border p-4 cursor-pointer transition-colors font-normal ${
+    selected ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+  }`
+
+// Controlled input for one answer of any type. Multi-part renders an input
+// per part, recursively; everything else is a single control.
+export default function AnswerInput({
+  question,
+  value,
+  onChange,
+  idPrefix,
+}: {
+  question: AnswerInputQuestion
+  value: StudentAnswer
+  onChange: (value: StudentAnswer) => void
+  idPrefix: string
+}) {
+  const options = question.options ?? []
+
+  switch (question.type) {
+    case "multiple_choice":
+      return (
+        <RadioGroup
+          value={typeof value.index === "number" ? String(value.index) : ""}
+          onValueChange={v => onChange({ index: Number(v) })}
+          className="space-y-2"
+        >
+          {options.map((option, i) => (
+            <Label key={i} htmlFor={`${idPrefix}-${i}`} className={choiceClass(value.index === i)}>
+              <RadioGroupItem value={String(i)} id={`${idPrefix}-${i}`} />
+              <span className="min-w-0">
+                <span className="font-medium mr-2">{String.fromCharCode(65 + i)}.</span>
+                {option}
+              </span>
+            </Label>
+          ))}
+        </RadioGroup>
+      )
+
+    case "true_false":
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {[true, false].map(tf => (
+            <button
+              key={String(tf)}
+              type="button"
+              onClick={() => onChange({ value: tf })}
+              className={`rounded-lg border p-4 text-center font-medium transition-colors ${
+                value.value === tf ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+              }`}
+            >
+              {tf ? "True" : "False"}
+            </button>
+          ))}
+        </div>
+      )
+
+    case "short_answer":
+      return (
+        <Textarea
+          value={value.text ?? ""}
+          onChange={e => onChange({ text: e.target.value })}
+          placeholder="Type your answer — show your reasoning"
+          rows={4}
+          maxLength={2000}
+        />
+      )
+
+    case "numeric":
+      return (
+        <div className="space-y-1.5">
+          <Input
+            value={value.numeric ?? ""}
+            onChange={e => onChange({ numeric: e.target.value })}
+            placeholder="e.g. 0.0250 mol or 6.02e23"
+            inputMode="decimal"
+            maxLength={60}
+            className="max-w-xs"
+          />
+          <p className="text-xs text-muted-foreground">Include units and round sensibly — both can count.</p>
+        </div>
+      )
+
+    case "multi_select": {
+      const picked = value.indices ?? []
+      const toggle = (i: number) =>
+        onChange({ indices: picked.includes(i) ? picked.filter(p => p !== i) : [...picked, i] })
+      return (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Select all that apply.</p>
+          {options.map((option, i) => (
+            <Label key={i} htmlFor={`${idPrefix}-${i}`} className={choiceClass(picked.includes(i))}>
+              <Checkbox id={`${idPrefix}-${i}`} checked={picked.includes(i)} onCheckedChange={() => toggle(i)} />
+              <span className="min-w-0">{option}</span>
+            </Label>
+          ))}
+        </div>
+      )
+    }
+
+    case "ordering": {
+      const order = value.order ?? options.map((_, i) => i)
+      const move = (from: number, to: number) => {
+        const next = [...order]
+        ;[next[from], next[to]] = [next[to], next[from]]
+        onChange({ order: next })
+      }
+      return (
+        <ol className="space-y-2">
+          {order.map((item, position) => (
+            <li key={item} className="flex items-center gap-2 rounded-lg border p-3">
+              <span className="w-6 text-sm font-medium text-muted-foreground">{position + 1}.</span>
+              <span className="flex-1 min-w-0">{options[item]}</span>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={position === 0}
+                onClick={() => move(position, position - 1)}
+                aria-label="Move up"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                disabled={position === order.length - 1}
+                onClick={() => move(position, position + 1)}
+                aria-label="Move down"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )
+    }
+
+    case "matching": {
+      const matches = value.matches ?? options.map(() => -1)
+      const choices = question.match_options ?? []
+      return (
+        <div className="space-y-2">
+          {options.map((left, i) => (
+            <div key={i} className="grid grid-cols-2 items-center gap-3 rounded-lg border p-3">
+              <span className="min-w-0 text-sm font-medium">{left}</span>
+              <Select
+                value={matches[i] >= 0 ? String(matches[i]) : ""}
+                onValueChange={v => onChange({ matches: matches.map((m, j) => (j === i ? Number(v) : m)) })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a match" />
+                </SelectTrigger>
+                <SelectContent>
+                  {choices.map((choice, c) => (
+                    <SelectItem key={c} value={String(c)}>{choice}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )
+    }
+
+    case "multi_part": {
+      const answers = value.parts ?? []
+      return (
+        <div className="space-y-5">
+          {(question.parts ?? []).map((part, i) => (
+            <div key={i} className="space-y-2">
+              <p className="font-medium">
+                <span className="text-muted-foreground mr-2">{partLabel(i)}</span>
+                {part.prompt}
+              </p>
+              <AnswerInput
+                question={part}
+                value={answers[i] ?? {}}
+                onChange={next => onChange({ parts: (question.parts ?? []).map((_, j) => (j === i ? next : answers[j] ?? {})) })}
+                idPrefix={`${idPrefix}-part-${i}`}
+              />
+            </div>
+          ))}
+        </div>
+      )
+    }
+  }
+}
@@ -3,9 +3,10 @@
 import { Progress } from "@/components/ui/progress"
 import { Badge } from "@/components/ui/badge"
 import { CheckCircle2, CircleDashed, AlertCircle } from "lucide-react"
+import { masteryProgress } from "@/lib/mastery/engine"
 import type { MasteryConceptInfo, MasteryConfigView, MasteryRollup } from "@/components/mastery/types"
 
-// Per-concept progress: window accuracy toward the mastery threshold.
+// Per-concept progress toward the assignment's mastery rule.
 // A concept shows as mastered/capped via its status, not the bar alone.
 export default function ConceptProgress({
   concepts,
@@ -24,9 +25,7 @@ export default function ConceptProgress({
     <div className={compact ? "space-y-2" : "space-y-4"}>
       {concepts.map(concept => {
         const rollup = rollupMap.get(concept.id)
-        const recent = rollup?.recent_results ?? []
-        const accuracy = recent.length === 0 ? 0 : recent.filter(Boolean).length / recent.length
-        const pct = Math.round((accuracy / config.mastery_threshold) * 100)
+        const pct = rollup ? Math.round(masteryProgress(rollup, config) * 100) : 0
         const status = rollup?.status ?? "in_progress"
 
         return (
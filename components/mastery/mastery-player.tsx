@@ -16,6 +16,7 @@ import ConceptProgress from "@/components/mastery/concept-progress"
 import type {
   AnswerResult,
   MasteryAttemptState,
+  MasteryConfigView,
   MasteryFinalScore,
   MasteryQuestion,
   MasteryRollup,
@@ -31,6 +32,23 @@ type Phase =
   | { name: "completed"; finalScore: MasteryFinalScore }
   | { name: "error"; message: string }
 
+// Intro copy for the assignment's mastery rule — finishes "you need …"
+function ruleRequirement(config: MasteryConfigView): string {
+  const pct = `${Math.round(config.mastery_threshold * 100)}%`
+  switch (config.mastery_rule) {
+    case "streak":
+      return `${config.streak_length} correct answers in a row`
+    case "bkt":
+      return "to show consistently that you know it"
+    case "difficulty_weighted":
+      return `${pct} on your recent answers, with harder questions counting for more`
+    case "short_answer_required":
+      return `${pct} correct on your recent answers, including at least one written answer`
+    default:
+      return `${pct} correct on your recent answers`
+  }
+}
+
 interface MasteryPlayerProps {
   assignmentId: string
   classId: string
@@ -221,7 +239,7 @@ export default function MasteryPlayer({ assignmentId, classId, title, descriptio
               {description && <p className="mb-4 whitespace-pre-wrap">{description}</p>}
               <p className="text-sm text-muted-foreground mb-4">
                 Answer questions on each concept until you master it — you need{" "}
-                {Math.round(state.config.mastery_threshold * 100)}% correct on your recent answers.
+                {ruleRequirement(state.config)}.
                 Wrong answers don&apos;t count against you once you get back on track. You can leave
                 and pick up where you left off anytime.
               </p>
@@ -3,11 +3,9 @@
 import { useState } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Label } from "@/components/ui/label"
-import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
-import { Textarea } from "@/components/ui/textarea"
 import { Badge } from "@/components/ui/badge"
 import { Loader2 } from "lucide-react"
+import AnswerInput, { initialAnswer, isAnswerComplete } from "@/components/mastery/answer-input"
 import type { MasteryQuestion, StudentAnswer } from "@/components/mastery/types"
 
 // One question, one submit. Visual patterns follow the study-guide quiz
@@ -23,22 +21,13 @@ export default function QuestionView({
   submitting: boolean
   onSubmit: (answer: StudentAnswer) => void
 }) {
-  const [selectedIndex, setSelectedIndex] = useState<number | null>(null)
-  const [tfValue, setTfValue] = useState<boolean | null>(null)
-  const [text, setText] = useState("")
+  const [answer, setAnswer] = useState<StudentAnswer>(() => initialAnswer(question))
 
-  const canSubmit =
-    question.type === "multiple_choice"
-      ? selectedIndex !== null
-      : question.type === "true_false"
-        ? tfValue !== null
-        : text.trim().length > 0
+  const canSubmit = isAnswerComplete(question, answer)
 
   const handleSubmit = () => {
     if (!canSubmit || submitting) return
-    if (question.type === "multiple_choice") onSubmit({ index: selectedIndex! })
-    else if (question.type === "true_false") onSubmit({ value: tfValue! })
-    else onSubmit({ text: text.trim() })
+    onSubmit(question.type === "short_answer" ? { text: answer.text!.trim() } : answer)
   }
 
   return (
@@ -47,56 +36,7 @@ export default function QuestionView({
         <Badge variant="outline" className="mb-3">{conceptName}</Badge>
         <p className="text-lg font-medium whitespace-pre-wrap mb-5">{question.question_text}</p>
 
-        {question.type === "multiple_choice" && question.options && (
-          <RadioGroup
-            value={selectedIndex === null ? "" : String(selectedIndex)}
-            onValueChange={v => setSelectedIndex(Number(v))}
-            className="space-y-2"
-          >
-            {question.options.map((option, i) => (
-              <Label
-                key={i}
-                htmlFor={`${question.response_id}-${i}`}
-                className={`flex items-center gap-3 rounded-lg border p-4 cursor-pointer transition-colors font-normal ${
-                  selectedIndex === i ? "border-primary bg-primary/5" : "hover:bg-muted/50"
-                }`}
-              >
-                <RadioGroupItem value={String(i)} id={`${question.response_id}-${i}`} />
-                <span className="min-w-0">
-                  <span className="font-medium mr-2">{String.fromCharCode(65 + i)}.</span>
-                  {option}
-                </span>
-              </Label>
-            ))}
-          </RadioGroup>
-        )}
-
-        {question.type === "true_false" && (
-          <div className="grid grid-cols-2 gap-3">
-            {[true, false].map(value => (
-              <button
-                key={String(value)}
-                type="button"
-                onClick={() => setTfValue(value)}
-                className={`rounded-lg border p-4 text-center font-medium transition-colors ${
-                  tfValue === value ? "border-primary bg-primary/5" : "hover:bg-muted/50"
-                }`}
-              >
-                {value ? "True" : "False"}
-              </button>
-            ))}
-          </div>
-        )}
-
-        {question.type === "short_answer" && (
-          <Textarea
-            value={text}
-            onChange={e => setText(e.target.value)}
-            placeholder="Type your answer — show your reasoning"
-            rows={4}
-            maxLength={2000}
-          />
-        )}
+        <AnswerInput question={question} value={answer} onChange={setAnswer} idPrefix={question.response_id} />
 
         <div className="mt-5 flex justify-end">
           <Button onClick={handleSubmit} disabled={!canSubmit || submitting}>
@@ -1,4 +1,6 @@
 import type { QuestionType } from '@/lib/types/question-bank'
+import type { MasteryRule } from '@/lib/mastery/engine'
+import type { PartResult, SubmittedAnswer } from '@/lib/mastery/grading'
 
 // Client-side mirrors of the mastery API payloads.
 
@@ -12,6 +14,10 @@ export interface MasteryRollup {
   answered_count: number
   correct_count: number
   recent_results: boolean[]
+  recent_difficulties: number[]
+  current_streak: number
+  p_known: number | null
+  short_answer_correct: number
   status: 'in_progress' | 'mastered' | 'max_reached'
 }
 
@@ -22,10 +28,15 @@ export interface MasteryQuestion {
   type: QuestionType
   question_text: string
   options: string[] | null
+  match_options?: string[]
+  parts?: Array<{ type: QuestionType; prompt: string; options: string[] | null }>
 }
 
 export interface MasteryConfigView {
+  mastery_rule: MasteryRule
   mastery_threshold: number
+  streak_length: number
+  bkt_threshold: number
   min_questions: number
   window_size: number
   questions_per_round: number
@@ -59,12 +70,14 @@ export interface MasteryAttemptState {
   final_score: MasteryFinalScore | null
 }
 
-export type StudentAnswer = { index: number } | { value: boolean } | { text: string }
+export type StudentAnswer = SubmittedAnswer
 
 export interface AnswerResult {
   is_correct: boolean
   score: number | null
   feedback: string | null
+  /** Multi-part only: how each part went. */
+  part_results: PartResult[] | null
   explanation: string | null
   correct_answer: Record<string, unknown>
   concept: MasteryRollup
@@ -5,7 +5,7 @@ import Link from 'next/link'
 import Image from 'next/image'
 import { usePathname } from 'next/navigation'
 import { Button } from '@/components/ui/button'
-import { BookOpen, GraduationCap, FileText, LogOut, Plus, ChevronDown, ClipboardList, Users, PenSquare, Menu, X, School, LayoutDashboard, CalendarDays, Library, Target } from 'lucide-react'
+import { BookOpen, GraduationCap, FileText, LogOut, Plus, ChevronDown, ClipboardList, Users, PenSquare, Menu, X, School, LayoutDashboard, CalendarDays, Library, Target, ListChecks } from 'lucide-react'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -57,7 +57,7 @@ export default function NavigationHeader() {
   const isCalendarActive = pathname?.startsWith('/calendar')
   const isQuizzesActive = pathname?.startsWith('/teacher/quizzes')
   const isQuestionBankActive = pathname?.startsWith('/teacher/question-bank')
-  const isGradingActive = pathname?.startsWith('/grade-exam') || pathname?.startsWith('/graded-exams') || pathname?.startsWith('/grade-report')
+  const isGradingActive = pathname?.startsWith('/grade-exam') || pathname?.startsWith('/graded-exams') || pathname?.startsWith('/grade-report') || pathname?.startsWith('/jobs')
   const isTeacher = user?.user_type === 'teacher'
 
   return (
@@ -161,6 +161,12 @@ export default function NavigationHeader() {
                         My Reports
                       </Link>
                     </DropdownMenuItem>
+                    <DropdownMenuItem asChild>
+                      <Link href="/jobs" className="flex items-center cursor-pointer">
+                        <ListChecks className="h-4 w-4 mr-2" />
+                        Background Jobs
+                      </Link>
+                    </DropdownMenuItem>
                   </DropdownMenuContent>
                 </DropdownMenu>
               )}
@@ -433,6 +439,15 @@ export default function NavigationHeader() {
                   <ClipboardList className="h-4 w-4 flex-shrink-0" />
                   <span className="text-sm font-medium">My Reports</span>
                 </Link>
+                <Link
+                  href="/jobs"
+                  className={`flex items-center gap-3 px-3 py-2.5 rounded-lg transition-colors ${
+                    pathname?.startsWith('/jobs') ? 'bg-white/20' : 'hover:bg-white/10'
+                  }`}
+                >
+                  <ListChecks className="h-4 w-4 flex-shrink-0" />
+                  <span className="text-sm font-medium">Background Jobs</span>
+                </Link>
               </>
             )}
 
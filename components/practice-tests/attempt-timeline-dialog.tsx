@@ -0,0 +1,150 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Check, Loader2, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import { formatDuration, type TimelineEntry } from "@/lib/practice-test-timing"
+
+interface AttemptDetail {
+  attempt: {
+    id: string
+    student_name: string
+    started_at: string
+    deadline_at: string | null
+    submitted_at: string | null
+    auto_submitted: boolean
+  }
+  timeline: TimelineEntry[]
+  correct_answers: Record<string, string>
+}
+
+function AnswerCell({ answer, correct }: { answer: string | null; correct: string | undefined }) {
+  if (answer === null) return <span className="italic text-muted-foreground">blank</span>
+  const right = correct !== undefined && answer === correct
+  return (
+    <span className={cn("inline-flex items-center gap-0.5 font-mono", right ? "text-emerald-600" : "text-rose-600")}>
+      {answer}
+      {correct !== undefined && (right ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />)}
+    </span>
+  )
+}
+
+// Every answer change in one student's attempt, in the order they made them,
+// timed from when they started.
+export default function AttemptTimelineDialog({
+  testId,
+  attemptId,
+  onOpenChange,
+}: {
+  testId: string
+  attemptId: string | null
+  onOpenChange: (open: boolean) => void
+}) {
+  const { toast } = useToast()
+  const [detail, setDetail] = useState<AttemptDetail | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!attemptId) return
+    let cancelled = false
+    setLoading(true)
+    setDetail(null)
+    fetch(`/api/practice-tests/${testId}/attempts/${attemptId}`)
+      .then(async res => {
+        const json = await res.json()
+        if (cancelled) return
+        if (!res.ok) {
+          toast({ title: json.error ?? "Failed to load timeline", variant: "destructive" })
+          return
+        }
+        setDetail(json)
+      })
+      .catch(() => !cancelled && toast({ title: "Network error", variant: "destructive" }))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [testId, attemptId, toast])
+
+  const attempt = detail?.attempt
+  const duration = attempt?.submitted_at
+    ? new Date(attempt.submitted_at).getTime() - new Date(attempt.started_at).getTime()
+    : null
+
+  return (
+    <Dialog open={!!attemptId} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{attempt ? attempt.student_name : "Answer timeline"}</DialogTitle>
+          <DialogDescription>
+            {attempt ? (
+              <>
+                Started {new Date(attempt.started_at).toLocaleString()}
+                {duration !== null && <> · took {formatDuration(duration)}</>}
+                {attempt.auto_submitted && (
+                  <Badge variant="outline" className="ml-2 text-[10px] px-1.5 py-0">Time ran out</Badge>
+                )}
+                {!attempt.submitted_at && (
+                  <Badge variant="secondary" className="ml-2 text-[10px] px-1.5 py-0">In progress</Badge>
+                )}
+              </>
+            ) : (
+              "Every answer change, timed from the start of the attempt."
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !detail ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : detail.timeline.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No answers recorded.</p>
+        ) : (
+          <div className="max-h-[60vh] overflow-y-auto border rounded-md">
+            <table className="w-full text-sm">
+              <thead className="bg-muted/50 sticky top-0">
+                <tr>
+                  <th className="text-left px-3 py-2 font-medium w-20">Time</th>
+                  <th className="text-left px-3 py-2 font-medium w-16">Q#</th>
+                  <th className="text-left px-3 py-2 font-medium">Change</th>
+                </tr>
+              </thead>
+              <tbody>
+                {detail.timeline.map((e, i) => {
+                  const correct = detail.correct_answers[String(e.question_number)]
+                  return (
+                    <tr key={i} className="border-t">
+                      <td className="px-3 py-1.5 font-mono text-muted-foreground tabular-nums">
+                        {formatDuration(e.elapsed_ms)}
+                      </td>
+                      <td className="px-3 py-1.5 font-mono">{e.question_number}</td>
+                      <td className="px-3 py-1.5">
+                        {e.previous !== null && (
+                          <>
+                            <AnswerCell answer={e.previous} correct={correct} />
+                            <span className="mx-1.5 text-muted-foreground">→</span>
+                          </>
+                        )}
+                        <AnswerCell answer={e.answer} correct={correct} />
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,10 +1,12 @@
 "use client"
 
-import { BIG_IDEA_LABELS, BIG_IDEAS, BigIdeaBreakdown } from "@/lib/types/practice-test"
+import { CategoryBreakdown, Taxonomy } from "@/lib/types/practice-test"
 import { cn } from "@/lib/utils"
 
-interface BigIdeaBarsProps {
-  breakdown: BigIdeaBreakdown
+interface CategoryBarsProps {
+  breakdown: CategoryBreakdown
+  // Rows follow the taxonomy's order; categories it no longer has are not shown
+  taxonomy: Taxonomy
   // Sort by ascending pct (weakest first) so the teacher sees what to address first.
   sortByWeakest?: boolean
   className?: string
@@ -19,27 +21,31 @@ function pctColor(pct: number | null): string {
   return "bg-emerald-500"
 }
 
-export function BigIdeaBars({ breakdown, sortByWeakest = true, className }: BigIdeaBarsProps) {
-  const rows = BIG_IDEAS.map(bi => {
-    const entry = breakdown[String(bi)] ?? { correct: 0, total: 0 }
+export function CategoryBars({ breakdown, taxonomy, sortByWeakest = true, className }: CategoryBarsProps) {
+  const rows = taxonomy.categories.map((c, order) => {
+    const entry = breakdown[c.id] ?? { correct: 0, total: 0 }
     const pct = entry.total > 0 ? (entry.correct / entry.total) * 100 : null
-    return { bi, label: BIG_IDEA_LABELS[bi], correct: entry.correct, total: entry.total, pct }
+    return { id: c.id, order, label: c.label, correct: entry.correct, total: entry.total, pct }
   })
 
   if (sortByWeakest) {
     rows.sort((a, b) => {
       // Empty (no questions) goes last
-      if (a.pct === null && b.pct === null) return a.bi - b.bi
+      if (a.pct === null && b.pct === null) return a.order - b.order
       if (a.pct === null) return 1
       if (b.pct === null) return -1
       return a.pct - b.pct
     })
   }
 
+  if (rows.length === 0) {
+    return <p className={cn("text-sm text-muted-foreground", className)}>This test has no categories.</p>
+  }
+
   return (
     <div className={cn("space-y-3", className)}>
       {rows.map(row => (
-        <div key={row.bi} className="space-y-1">
+        <div key={row.id} className="space-y-1">
           <div className="flex items-baseline justify-between gap-3 text-sm">
             <span className="font-medium text-foreground">{row.label}</span>
             <span className="font-mono text-xs text-muted-foreground tabular-nums">
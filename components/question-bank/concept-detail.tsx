@@ -16,19 +16,26 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
-import { ArrowLeft, Loader2, Pencil, Plus, Sparkles, Trash2 } from "lucide-react"
+import { ArrowLeft, FileUp, GitBranch, Loader2, Pencil, Plus, Sparkles, Trash2 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 import ConceptFormDialog from "@/components/question-bank/concept-form-dialog"
 import ManualQuestionForm from "@/components/question-bank/manual-question-form"
 import QuestionCard from "@/components/question-bank/question-card"
+import PrerequisitesDialog from "@/components/question-bank/prerequisites-dialog"
+import ImportQuestionsDialog from "@/components/question-bank/import-questions-dialog"
+import ExportMenu from "@/components/question-bank/export-menu"
+import QuestionHistoryDialog from "@/components/question-bank/question-history-dialog"
+import type { PrerequisiteEdge } from "@/lib/mastery/prerequisites"
 import type { ConceptRecord, QuestionRecord } from "@/lib/types/question-bank"
 
 interface ConceptDetailProps {
   concept: ConceptRecord
   questions: QuestionRecord[]
+  allConcepts: Pick<ConceptRecord, "id" | "name" | "unit">[]
+  prerequisites: PrerequisiteEdge[]
 }
 
-export default function ConceptDetail({ concept, questions }: ConceptDetailProps) {
+export default function ConceptDetail({ concept, questions, allConcepts, prerequisites }: ConceptDetailProps) {
   const router = useRouter()
   const { toast } = useToast()
   const [editConceptOpen, setEditConceptOpen] = useState(false)
@@ -36,11 +43,18 @@ export default function ConceptDetail({ concept, questions }: ConceptDetailProps
   const [questionFormOpen, setQuestionFormOpen] = useState(false)
   const [editingQuestion, setEditingQuestion] = useState<QuestionRecord | undefined>(undefined)
   const [suggesting, setSuggesting] = useState(false)
+  const [prereqsOpen, setPrereqsOpen] = useState(false)
+  const [importOpen, setImportOpen] = useState(false)
+  const [historyQuestion, setHistoryQuestion] = useState<QuestionRecord | null>(null)
 
   const approved = questions.filter(q => q.status === "approved")
   const suggested = questions.filter(q => q.status === "suggested")
   const archived = questions.filter(q => q.status === "archived")
 
+  const conceptNames = new Map(allConcepts.map(c => [c.id, c.name]))
+  const needs = prerequisites.filter(e => e.concept_id === concept.id).map(e => e.prerequisite_id)
+  const unlocks = prerequisites.filter(e => e.prerequisite_id === concept.id).map(e => e.concept_id)
+
   const openCreateQuestion = () => {
     setEditingQuestion(undefined)
     setQuestionFormOpen(true)
@@ -131,12 +145,40 @@ export default function ConceptDetail({ concept, questions }: ConceptDetailProps
             {concept.description && (
               <p className="text-muted-foreground text-sm mt-1 max-w-2xl">{concept.description}</p>
             )}
+            {(needs.length > 0 || unlocks.length > 0) && (
+              <div className="flex flex-col gap-1 mt-2 text-sm">
+                {needs.length > 0 && (
+                  <p className="flex items-center gap-1.5 flex-wrap">
+                    <span className="text-muted-foreground">Needs</span>
+                    {needs.map(id => (
+                      <Link key={id} href={`/teacher/question-bank/${id}`}>
+                        <Badge variant="secondary" className="hover:bg-secondary/70">{conceptNames.get(id) ?? "Unknown"}</Badge>
+                      </Link>
+                    ))}
+                  </p>
+                )}
+                {unlocks.length > 0 && (
+                  <p className="flex items-center gap-1.5 flex-wrap">
+                    <span className="text-muted-foreground">Unlocks</span>
+                    {unlocks.map(id => (
+                      <Link key={id} href={`/teacher/question-bank/${id}`}>
+                        <Badge variant="outline" className="hover:bg-muted">{conceptNames.get(id) ?? "Unknown"}</Badge>
+                      </Link>
+                    ))}
+                  </p>
+                )}
+              </div>
+            )}
           </div>
           <div className="flex items-center gap-2 flex-wrap">
             <Button variant="outline" size="sm" onClick={() => setEditConceptOpen(true)}>
               <Pencil className="h-4 w-4 mr-2" />
               Edit
             </Button>
+            <Button variant="outline" size="sm" onClick={() => setPrereqsOpen(true)}>
+              <GitBranch className="h-4 w-4 mr-2" />
+              Prerequisites
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -146,6 +188,11 @@ export default function ConceptDetail({ concept, questions }: ConceptDetailProps
               <Trash2 className="h-4 w-4 mr-2" />
               Delete
             </Button>
+            <ExportMenu conceptId={concept.id} />
+            <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+              <FileUp className="h-4 w-4 mr-2" />
+              Import
+            </Button>
             <Button variant="outline" size="sm" onClick={handleSuggest} disabled={suggesting}>
               {suggesting
                 ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -172,6 +219,7 @@ export default function ConceptDetail({ concept, questions }: ConceptDetailProps
                 question={q}
                 onEdit={openEditQuestion}
                 onArchiveToggle={handleArchiveToggle}
+                onHistory={setHistoryQuestion}
                 onReview={handleReview}
               />
             ))}
@@ -204,6 +252,7 @@ export default function ConceptDetail({ concept, questions }: ConceptDetailProps
                 question={q}
                 onEdit={openEditQuestion}
                 onArchiveToggle={handleArchiveToggle}
+                onHistory={setHistoryQuestion}
               />
             ))}
           </div>
@@ -222,6 +271,7 @@ export default function ConceptDetail({ concept, questions }: ConceptDetailProps
                 question={q}
                 onEdit={openEditQuestion}
                 onArchiveToggle={handleArchiveToggle}
+                onHistory={setHistoryQuestion}
               />
             ))}
           </div>
@@ -236,6 +286,15 @@ export default function ConceptDetail({ concept, questions }: ConceptDetailProps
         onSaved={() => router.refresh()}
       />
 
+      <PrerequisitesDialog
+        open={prereqsOpen}
+        onOpenChange={setPrereqsOpen}
+        concept={concept}
+        allConcepts={allConcepts}
+        edges={prerequisites}
+        onSaved={() => router.refresh()}
+      />
+
       <ManualQuestionForm
         open={questionFormOpen}
         onOpenChange={setQuestionFormOpen}
@@ -244,6 +303,20 @@ export default function ConceptDetail({ concept, questions }: ConceptDetailProps
         onSaved={() => router.refresh()}
       />
 
+      <QuestionHistoryDialog
+        question={historyQuestion}
+        onOpenChange={open => !open && setHistoryQuestion(null)}
+        onRestored={() => router.refresh()}
+      />
+
+      <ImportQuestionsDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        conceptId={concept.id}
+        conceptName={concept.name}
+        onImported={() => router.refresh()}
+      />
+
       <AlertDialog open={deleteConceptOpen} onOpenChange={setDeleteConceptOpen}>
         <AlertDialogContent>
           <AlertDialogHeader>
@@ -0,0 +1,121 @@
+"use client"
+
+import Link from "next/link"
+import { cn } from "@/lib/utils"
+import { conceptLevels, type PrerequisiteEdge } from "@/lib/mastery/prerequisites"
+
+export interface ConceptGraphNode {
+  id: string
+  name: string
+  detail?: string
+  tone?: "default" | "good" | "warn" | "bad"
+  href?: string
+}
+
+const NODE_W = 184
+const NODE_H = 46
+const COL_GAP = 56
+const ROW_GAP = 12
+
+const TONE_CLASSES: Record<NonNullable<ConceptGraphNode["tone"]>, string> = {
+  default: "fill-background stroke-border",
+  good: "fill-emerald-50 stroke-emerald-300",
+  warn: "fill-amber-50 stroke-amber-300",
+  bad: "fill-rose-50 stroke-rose-300",
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1)}…` : text
+}
+
+// Prerequisite graph laid out left to right: foundations in the first
+// column, each concept one column past its deepest prerequisite. Plain SVG —
+// banks are small enough that a layout library isn't worth it.
+export default function ConceptGraph({
+  nodes,
+  edges,
+  className,
+}: {
+  nodes: ConceptGraphNode[]
+  edges: PrerequisiteEdge[]
+  className?: string
+}) {
+  const levels = conceptLevels(nodes.map(n => n.id), edges)
+  const columns: ConceptGraphNode[][] = []
+  for (const node of nodes) {
+    const level = levels.get(node.id) ?? 0
+    ;(columns[level] ??= []).push(node)
+  }
+
+  const positions = new Map<string, { x: number; y: number }>()
+  columns.forEach((column, col) => {
+    column.forEach((node, row) => {
+      positions.set(node.id, { x: col * (NODE_W + COL_GAP), y: row * (NODE_H + ROW_GAP) })
+    })
+  })
+
+  const width = columns.length * (NODE_W + COL_GAP) - COL_GAP + 2
+  const height = Math.max(...columns.map(c => c.length)) * (NODE_H + ROW_GAP) - ROW_GAP + 2
+  const visibleEdges = edges.filter(e => positions.has(e.concept_id) && positions.has(e.prerequisite_id))
+
+  return (
+    <div className={cn("overflow-x-auto", className)}>
+      <svg width={width} height={height} viewBox={`-1 -1 ${width} ${height}`} role="img" aria-label="Concept prerequisite graph">
+        <defs>
+          <marker id="concept-graph-arrow" viewBox="0 0 8 8" refX="7" refY="4" markerWidth="7" markerHeight="7" orient="auto">
+            <path d="M0,0 L8,4 L0,8 z" className="fill-muted-foreground" />
+          </marker>
+        </defs>
+
+        {visibleEdges.map(edge => {
+          const from = positions.get(edge.prerequisite_id)!
+          const to = positions.get(edge.concept_id)!
+          const x1 = from.x + NODE_W
+          const y1 = from.y + NODE_H / 2
+          const x2 = to.x - 2
+          const y2 = to.y + NODE_H / 2
+          const bend = (x2 - x1) / 2
+          return (
+            <path
+              key={`${edge.prerequisite_id}-${edge.concept_id}`}
+              d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+              className="fill-none stroke-muted-foreground/60"
+              strokeWidth={1.5}
+              markerEnd="url(#concept-graph-arrow)"
+            />
+          )
+        })}
+
+        {nodes.map(node => {
+          const pos = positions.get(node.id)!
+          const box = (
+            <g transform={`translate(${pos.x},${pos.y})`}>
+              <title>{node.name}</title>
+              <rect
+                width={NODE_W}
+                height={NODE_H}
+                rx={8}
+                className={cn("stroke-1", TONE_CLASSES[node.tone ?? "default"])}
+              />
+              <text x={10} y={node.detail ? 19 : 28} className="fill-foreground text-[12px] font-medium">
+                {truncate(node.name, 26)}
+              </text>
+              {node.detail && (
+                <text x={10} y={35} className="fill-muted-foreground text-[11px]">
+                  {truncate(node.detail, 30)}
+                </text>
+              )}
+            </g>
+          )
+          return node.href ? (
+            <Link key={node.id} href={node.href} className="hover:opacity-80">
+              {box}
+            </Link>
+          ) : (
+            <g key={node.id}>{box}</g>
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Download, Loader2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { INTERCHANGE_FORMATS, type InterchangeFormat } from "@/lib/interchange/common"
+
+// Download approved questions for another LMS. Without a conceptId the whole
+// bank is exported.
+export default function ExportMenu({
+  conceptId,
+  size = "sm",
+}: {
+  conceptId?: string
+  size?: "sm" | "default"
+}) {
+  const { toast } = useToast()
+  const [exporting, setExporting] = useState(false)
+
+  const handleExport = async (format: InterchangeFormat) => {
+    setExporting(true)
+    try {
+      const params = new URLSearchParams({ format })
+      if (conceptId) params.set("concept_id", conceptId)
+      const res = await fetch(`/api/question-bank/export?${params}`)
+      if (!res.ok) {
+        const json = await res.json().catch(() => ({}))
+        toast({ title: json.error ?? "Export failed", variant: "destructive" })
+        return
+      }
+
+      const fileName =
+        /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ??
+        `questions.${INTERCHANGE_FORMATS[format].extension}`
+      const url = URL.createObjectURL(await res.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = fileName
+      link.click()
+      URL.revokeObjectURL(url)
+
+      const skipped = Number(res.headers.get("X-Export-Skipped") ?? 0)
+      if (skipped > 0) {
+        toast({
+          title: `${skipped} question${skipped === 1 ? "" : "s"} left out`,
+          description: `${INTERCHANGE_FORMATS[format].label} can't represent every question type.`,
+        })
+      }
+    } catch {
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={exporting}>
+          {exporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Download className="h-4 w-4 mr-2" />}
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Approved questions as…</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(INTERCHANGE_FORMATS) as InterchangeFormat[]).map(format => (
+          <DropdownMenuItem key={format} onSelect={() => handleExport(format)}>
+            {INTERCHANGE_FORMATS[format].label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
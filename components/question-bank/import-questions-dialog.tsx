@@ -0,0 +1,209 @@
+"use client"
+
+import { useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useToast } from "@/hooks/use-toast"
+import { FileUp, Loader2, XCircle } from "lucide-react"
+import { TYPE_BADGES } from "@/components/question-bank/question-card"
+import { INTERCHANGE_FORMATS, type ImportCandidate, type InterchangeFormat } from "@/lib/interchange/common"
+
+// Import questions from another LMS into one concept. The file is parsed and
+// validated server-side first; the teacher sees every item — rejected ones
+// with the reason — and picks which to keep before anything is saved.
+export default function ImportQuestionsDialog({
+  open,
+  onOpenChange,
+  conceptId,
+  conceptName,
+  onImported,
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  conceptId: string
+  conceptName: string
+  onImported: () => void
+}) {
+  const { toast } = useToast()
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [format, setFormat] = useState<InterchangeFormat | null>(null)
+  const [items, setItems] = useState<ImportCandidate[]>([])
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [previewing, setPreviewing] = useState(false)
+  const [importing, setImporting] = useState(false)
+
+  const reset = () => {
+    setFileName(null)
+    setFormat(null)
+    setItems([])
+    setSelected(new Set())
+  }
+
+  const close = () => {
+    reset()
+    onOpenChange(false)
+  }
+
+  const handleFile = async (fileList: FileList | null) => {
+    const file = fileList?.[0]
+    if (!file) return
+    setPreviewing(true)
+    try {
+      const fd = new FormData()
+      fd.append("file", file)
+      const res = await fetch("/api/question-bank/import", { method: "POST", body: fd })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Couldn't read that file", variant: "destructive" })
+        return
+      }
+      const parsed = json.items as ImportCandidate[]
+      setFileName(file.name)
+      setFormat(json.format)
+      setItems(parsed)
+      setSelected(new Set(parsed.flatMap((item, i) => (item.question ? [i] : []))))
+    } catch {
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setPreviewing(false)
+    }
+  }
+
+  const toggle = (i: number) =>
+    setSelected(prev => {
+      const next = new Set(prev)
+      if (next.has(i)) next.delete(i)
+      else next.add(i)
+      return next
+    })
+
+  const handleImport = async () => {
+    setImporting(true)
+    try {
+      const res = await fetch("/api/question-bank/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          concept_id: conceptId,
+          questions: items.filter((_, i) => selected.has(i)).map(item => item.question),
+        }),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Import failed", variant: "destructive" })
+        return
+      }
+      toast({ title: `${json.imported} question${json.imported === 1 ? "" : "s"} imported into ${conceptName}` })
+      close()
+      onImported()
+    } catch {
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const rejected = items.filter(item => !item.question).length
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={v => {
+        if (importing) return
+        if (v) onOpenChange(true)
+        else close()
+      }}
+    >
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import questions</DialogTitle>
+          <DialogDescription>
+            Upload a QTI 2.1 package (.zip), GIFT file (.txt) or Moodle XML export. You&apos;ll see
+            every question before anything is added to {conceptName}.
+          </DialogDescription>
+        </DialogHeader>
+
+        {items.length === 0 ? (
+          <div className="py-2">
+            <input
+              id="import-questions-file"
+              type="file"
+              accept=".zip,.xml,.txt,.gift"
+              className="hidden"
+              onChange={e => {
+                handleFile(e.target.files)
+                e.target.value = ""
+              }}
+              disabled={previewing}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full"
+              onClick={() => document.getElementById("import-questions-file")?.click()}
+              disabled={previewing}
+            >
+              {previewing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileUp className="h-4 w-4 mr-2" />}
+              {previewing ? "Reading file…" : "Choose file"}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {fileName} · {format && INTERCHANGE_FORMATS[format].label} · {items.length - rejected} ready
+              {rejected > 0 && `, ${rejected} can't be imported`}
+            </p>
+            <div className="max-h-[50vh] overflow-y-auto space-y-1.5 pr-1">
+              {items.map((item, i) =>
+                item.question ? (
+                  <label
+                    key={i}
+                    className="flex items-start gap-3 rounded-md border px-3 py-2 cursor-pointer hover:bg-muted/50"
+                  >
+                    <Checkbox checked={selected.has(i)} onCheckedChange={() => toggle(i)} className="mt-0.5" />
+                    <span className="min-w-0 flex-1">
+                      <span className="text-sm line-clamp-2">{item.question.question_text}</span>
+                    </span>
+                    <Badge variant="secondary" className="flex-shrink-0">{TYPE_BADGES[item.question.type]}</Badge>
+                  </label>
+                ) : (
+                  <div key={i} className="flex items-start gap-3 rounded-md border border-dashed px-3 py-2 bg-muted/30">
+                    <XCircle className="h-4 w-4 mt-0.5 flex-shrink-0 text-destructive" />
+                    <span className="min-w-0 flex-1">
+                      <span className="text-sm block truncate text-muted-foreground">{item.ref}</span>
+                      <span className="text-xs text-destructive">{item.error}</span>
+                    </span>
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {items.length > 0 && (
+            <Button variant="ghost" className="sm:mr-auto" onClick={reset} disabled={importing}>
+              Choose another file
+            </Button>
+          )}
+          <Button variant="outline" onClick={close} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={selected.size === 0 || importing}>
+            {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {importing ? "Importing…" : `Import ${selected.size} question${selected.size === 1 ? "" : "s"}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
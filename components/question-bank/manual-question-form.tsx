@@ -14,6 +14,7 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Checkbox } from "@/components/ui/checkbox"
 import {
   Select,
   SelectContent,
@@ -21,9 +22,27 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select"
-import { Loader2, Plus, Trash2 } from "lucide-react"
+import { ArrowRight, Loader2, Plus, Trash2 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
-import type { QuestionRecord, QuestionType } from "@/lib/types/question-bank"
+import {
+  OPTION_TYPES,
+  validateQuestionInput,
+  type QuestionPart,
+  type QuestionRecord,
+  type QuestionType,
+} from "@/lib/types/question-bank"
+import NumericAnswerFields, {
+  EMPTY_NUMERIC,
+  numericAnswerFrom,
+  numericDraftFrom,
+  type NumericDraft,
+} from "@/components/question-bank/numeric-answer-fields"
+import QuestionPartEditor, {
+  emptyPart,
+  partDraftFrom,
+  partFromDraft,
+  type PartDraft,
+} from "@/components/question-bank/question-part-editor"
 
 interface ManualQuestionFormProps {
   open: boolean
@@ -38,6 +57,24 @@ const TYPE_LABELS: Record<QuestionType, string> = {
   multiple_choice: "Multiple choice",
   true_false: "True / False",
   short_answer: "Short answer (AI-graded)",
+  numeric: "Numeric (tolerance, sig figs, units)",
+  multi_select: "Multi-select (partial credit)",
+  ordering: "Ordering",
+  matching: "Matching",
+  multi_part: "Multi-part (shared stem)",
+}
+
+const MAX_OPTIONS: Partial<Record<QuestionType, number>> = {
+  multiple_choice: 6,
+  multi_select: 8,
+  ordering: 8,
+  matching: 8,
+}
+
+const OPTIONS_HINT: Partial<Record<QuestionType, string>> = {
+  multiple_choice: "select the correct one",
+  multi_select: "tick every correct option",
+  ordering: "enter them in the correct order — students see them shuffled",
 }
 
 export default function ManualQuestionForm({
@@ -57,6 +94,10 @@ export default function ManualQuestionForm({
   const [tfAnswer, setTfAnswer] = useState(true)
   const [sampleAnswer, setSampleAnswer] = useState("")
   const [rubricNotes, setRubricNotes] = useState("")
+  const [correctIndices, setCorrectIndices] = useState<number[]>([])
+  const [matchTexts, setMatchTexts] = useState<string[]>(["", "", "", ""])
+  const [numeric, setNumeric] = useState<NumericDraft>(EMPTY_NUMERIC)
+  const [parts, setParts] = useState<PartDraft[]>([emptyPart(), emptyPart()])
   const [explanation, setExplanation] = useState("")
   const [difficulty, setDifficulty] = useState(2)
   const [saving, setSaving] = useState(false)
@@ -66,12 +107,25 @@ export default function ManualQuestionForm({
     if (question) {
       setType(question.type)
       setQuestionText(question.question_text)
-      setOptions(question.options ?? ["", "", "", ""])
       const answer = question.correct_answer as Record<string, unknown>
+      // Ordering is edited as the list in its correct order
+      setOptions(
+        question.type === "ordering" && question.options
+          ? (answer.order as number[]).map(i => question.options![i])
+          : question.options ?? ["", "", "", ""]
+      )
       setCorrectIndex(typeof answer.index === "number" ? answer.index : 0)
       setTfAnswer(typeof answer.value === "boolean" ? answer.value : true)
       setSampleAnswer(typeof answer.sample_answer === "string" ? answer.sample_answer : "")
       setRubricNotes(typeof answer.rubric_notes === "string" ? answer.rubric_notes : "")
+      setCorrectIndices(Array.isArray(answer.indices) ? (answer.indices as number[]) : [])
+      setMatchTexts(Array.isArray(answer.matches) ? (answer.matches as string[]) : ["", "", "", ""])
+      setNumeric(question.type === "numeric" ? numericDraftFrom(answer) : EMPTY_NUMERIC)
+      setParts(
+        Array.isArray(answer.parts)
+          ? (answer.parts as QuestionPart[]).map(partDraftFrom)
+          : [emptyPart(), emptyPart()]
+      )
       setExplanation(question.explanation ?? "")
       setDifficulty(question.difficulty)
     } else {
@@ -82,24 +136,43 @@ export default function ManualQuestionForm({
       setTfAnswer(true)
       setSampleAnswer("")
       setRubricNotes("")
+      setCorrectIndices([])
+      setMatchTexts(["", "", "", ""])
+      setNumeric(EMPTY_NUMERIC)
+      setParts([emptyPart(), emptyPart()])
       setExplanation("")
       setDifficulty(2)
     }
   }, [open, question])
 
+  const buildCorrectAnswer = () => {
+    switch (type) {
+      case "multiple_choice":
+        return { index: correctIndex }
+      case "true_false":
+        return { value: tfAnswer }
+      case "short_answer":
+        return { sample_answer: sampleAnswer, rubric_notes: rubricNotes.trim() || undefined }
+      case "numeric":
+        return numericAnswerFrom(numeric)
+      case "multi_select":
+        return { indices: [...correctIndices].sort((a, b) => a - b) }
+      case "ordering":
+        return { order: options.map((_, i) => i) }
+      case "matching":
+        return { matches: matchTexts.map(m => m.trim()) }
+      case "multi_part":
+        return { parts: parts.map(partFromDraft) }
+    }
+  }
+
   const buildPayload = () => {
-    const correct_answer =
-      type === "multiple_choice"
-        ? { index: correctIndex }
-        : type === "true_false"
-          ? { value: tfAnswer }
-          : { sample_answer: sampleAnswer, rubric_notes: rubricNotes.trim() || undefined }
     return {
       concept_id: conceptId,
       type,
       question_text: questionText,
-      options: type === "multiple_choice" ? options.map(o => o.trim()) : null,
-      correct_answer,
+      options: OPTION_TYPES.includes(type) ? options.map(o => o.trim()) : null,
+      correct_answer: buildCorrectAnswer(),
       explanation: explanation.trim() || null,
       difficulty,
     }
@@ -107,17 +180,18 @@ export default function ManualQuestionForm({
 
   const validate = (): string | null => {
     if (!questionText.trim()) return "Question text is required"
-    if (type === "multiple_choice") {
+    if (OPTION_TYPES.includes(type)) {
       const filled = options.filter(o => o.trim())
       if (filled.length !== options.length || options.length < 2) {
         return "All options need text (remove empty ones)"
       }
-      if (correctIndex >= options.length) return "Pick the correct option"
+      if (type === "multiple_choice" && correctIndex >= options.length) return "Pick the correct option"
     }
     if (type === "short_answer" && !sampleAnswer.trim()) {
       return "A sample answer is required — the AI grades against it"
     }
-    return null
+    // Same checks the API runs, so mistakes surface before the round trip
+    return validateQuestionInput(buildPayload())
   }
 
   const handleSave = async () => {
@@ -156,8 +230,32 @@ export default function ManualQuestionForm({
   const removeOption = (index: number) => {
     setOptions(prev => prev.filter((_, i) => i !== index))
     setCorrectIndex(prev => (index < prev ? prev - 1 : Math.min(prev, options.length - 2)))
+    setCorrectIndices(prev => prev.filter(i => i !== index).map(i => (i > index ? i - 1 : i)))
+    setMatchTexts(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const addOption = () => {
+    setOptions(prev => [...prev, ""])
+    setMatchTexts(prev => [...prev, ""])
+  }
+
+  const toggleCorrect = (index: number) => {
+    setCorrectIndices(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]))
   }
 
+  const removeButton = (index: number) =>
+    options.length > 2 && (
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon"
+        className="flex-shrink-0"
+        onClick={() => removeOption(index)}
+      >
+        <Trash2 className="h-4 w-4 text-muted-foreground" />
+      </Button>
+    )
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
@@ -201,56 +299,124 @@ export default function ManualQuestionForm({
           </div>
 
           <div className="space-y-2">
-            <Label htmlFor="question-text">Question</Label>
+            <Label htmlFor="question-text">{type === "multi_part" ? "Shared stem" : "Question"}</Label>
             <Textarea
               id="question-text"
               value={questionText}
               onChange={e => setQuestionText(e.target.value)}
-              placeholder="Type the question exactly as students will see it"
+              placeholder={type === "multi_part"
+                ? "The scenario or data every part refers to"
+                : "Type the question exactly as students will see it"}
               rows={3}
             />
           </div>
 
-          {type === "multiple_choice" && (
+          {OPTION_TYPES.includes(type) && (
             <div className="space-y-2">
-              <Label>Options <span className="text-muted-foreground font-normal">(select the correct one)</span></Label>
-              <RadioGroup
-                value={String(correctIndex)}
-                onValueChange={v => setCorrectIndex(Number(v))}
-                className="space-y-2"
-              >
-                {options.map((option, i) => (
-                  <div key={i} className="flex items-center gap-2">
-                    <RadioGroupItem value={String(i)} id={`option-${i}`} />
-                    <Input
-                      value={option}
-                      onChange={e => setOption(i, e.target.value)}
-                      placeholder={`Option ${String.fromCharCode(65 + i)}`}
-                      className="flex-1"
-                    />
-                    {options.length > 2 && (
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="icon"
-                        className="flex-shrink-0"
-                        onClick={() => removeOption(i)}
-                      >
-                        <Trash2 className="h-4 w-4 text-muted-foreground" />
-                      </Button>
-                    )}
-                  </div>
-                ))}
-              </RadioGroup>
-              {options.length < 6 && (
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={() => setOptions(prev => [...prev, ""])}
+              <Label>
+                {type === "matching" ? "Pairs" : type === "ordering" ? "Items" : "Options"}{" "}
+                <span className="text-muted-foreground font-normal">
+                  ({OPTIONS_HINT[type] ?? "students see the right-hand column shuffled"})
+                </span>
+              </Label>
+
+              {type === "multiple_choice" && (
+                <RadioGroup
+                  value={String(correctIndex)}
+                  onValueChange={v => setCorrectIndex(Number(v))}
+                  className="space-y-2"
                 >
+                  {options.map((option, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <RadioGroupItem value={String(i)} id={`option-${i}`} />
+                      <Input
+                        value={option}
+                        onChange={e => setOption(i, e.target.value)}
+                        placeholder={`Option ${String.fromCharCode(65 + i)}`}
+                        className="flex-1"
+                      />
+                      {removeButton(i)}
+                    </div>
+                  ))}
+                </RadioGroup>
+              )}
+
+              {type === "multi_select" && options.map((option, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Checkbox checked={correctIndices.includes(i)} onCheckedChange={() => toggleCorrect(i)} />
+                  <Input
+                    value={option}
+                    onChange={e => setOption(i, e.target.value)}
+                    placeholder={`Option ${String.fromCharCode(65 + i)}`}
+                    className="flex-1"
+                  />
+                  {removeButton(i)}
+                </div>
+              ))}
+
+              {type === "ordering" && options.map((option, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <span className="w-5 text-sm text-muted-foreground text-right">{i + 1}.</span>
+                  <Input
+                    value={option}
+                    onChange={e => setOption(i, e.target.value)}
+                    placeholder={i === 0 ? "First step" : `Step ${i + 1}`}
+                    className="flex-1"
+                  />
+                  {removeButton(i)}
+                </div>
+              ))}
+
+              {type === "matching" && options.map((option, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <Input
+                    value={option}
+                    onChange={e => setOption(i, e.target.value)}
+                    placeholder="Item"
+                    className="flex-1"
+                  />
+                  <ArrowRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                  <Input
+                    value={matchTexts[i] ?? ""}
+                    onChange={e => setMatchTexts(prev => options.map((_, j) => (j === i ? e.target.value : prev[j] ?? "")))}
+                    placeholder="Its match"
+                    className="flex-1"
+                  />
+                  {removeButton(i)}
+                </div>
+              ))}
+
+              {options.length < (MAX_OPTIONS[type] ?? 6) && (
+                <Button type="button" variant="outline" size="sm" onClick={addOption}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  {type === "matching" ? "Add pair" : type === "ordering" ? "Add item" : "Add option"}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {type === "numeric" && (
+            <NumericAnswerFields value={numeric} onChange={setNumeric} idPrefix="numeric" />
+          )}
+
+          {type === "multi_part" && (
+            <div className="space-y-2">
+              <Label>
+                Parts <span className="text-muted-foreground font-normal">(scored as the average of the parts)</span>
+              </Label>
+              {parts.map((part, i) => (
+                <QuestionPartEditor
+                  key={i}
+                  index={i}
+                  part={part}
+                  onChange={next => setParts(prev => prev.map((p, j) => (j === i ? next : p)))}
+                  onRemove={parts.length > 2 ? () => setParts(prev => prev.filter((_, j) => j !== i)) : undefined}
+                />
+              ))}
+              {parts.length < 6 && (
+                <Button type="button" variant="outline" size="sm" onClick={() => setParts(prev => [...prev, emptyPart()])}>
                   <Plus className="h-4 w-4 mr-1" />
-                  Add option
+                  Add part
                 </Button>
               )}
             </div>
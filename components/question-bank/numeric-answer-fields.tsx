@@ -0,0 +1,132 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { NumericAnswer } from "@/lib/types/question-bank"
+
+// Form state for a numeric answer key. Everything is kept as typed text so
+// half-entered numbers survive re-renders; numericAnswerFrom() converts on save.
+export interface NumericDraft {
+  value: string
+  tolerance: string
+  tolerance_mode: "absolute" | "percent"
+  sig_figs: string
+  unit: string
+}
+
+export const EMPTY_NUMERIC: NumericDraft = {
+  value: "",
+  tolerance: "",
+  tolerance_mode: "absolute",
+  sig_figs: "",
+  unit: "",
+}
+
+export function numericDraftFrom(answer: Record<string, unknown>): NumericDraft {
+  return {
+    value: typeof answer.value === "number" ? String(answer.value) : "",
+    tolerance: typeof answer.tolerance === "number" ? String(answer.tolerance) : "",
+    tolerance_mode: answer.tolerance_mode === "percent" ? "percent" : "absolute",
+    sig_figs: typeof answer.sig_figs === "number" ? String(answer.sig_figs) : "",
+    unit: typeof answer.unit === "string" ? answer.unit : "",
+  }
+}
+
+/** Blank optional fields are left out; a blank value becomes NaN so validation rejects it. */
+export function numericAnswerFrom(draft: NumericDraft): NumericAnswer {
+  const answer: NumericAnswer = { value: draft.value.trim() ? Number(draft.value) : NaN }
+  if (draft.tolerance.trim()) {
+    answer.tolerance = Number(draft.tolerance)
+    answer.tolerance_mode = draft.tolerance_mode
+  }
+  if (draft.sig_figs) answer.sig_figs = Number(draft.sig_figs)
+  if (draft.unit.trim()) answer.unit = draft.unit.trim()
+  return answer
+}
+
+export default function NumericAnswerFields({
+  value,
+  onChange,
+  idPrefix,
+}: {
+  value: NumericDraft
+  onChange: (value: NumericDraft) => void
+  idPrefix: string
+}) {
+  const set = (patch: Partial<NumericDraft>) => onChange({ ...value, ...patch })
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-value`} className="text-xs">Correct value</Label>
+        <Input
+          id={`${idPrefix}-value`}
+          inputMode="decimal"
+          value={value.value}
+          onChange={e => set({ value: e.target.value })}
+          placeholder="e.g. 0.0250 or 6.02e23"
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-unit`} className="text-xs">
+          Unit <span className="text-muted-foreground font-normal">(optional)</span>
+        </Label>
+        <Input
+          id={`${idPrefix}-unit`}
+          value={value.unit}
+          onChange={e => set({ unit: e.target.value })}
+          placeholder="e.g. mol, m/s²"
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-tolerance`} className="text-xs">Tolerance</Label>
+        <div className="flex gap-2">
+          <Input
+            id={`${idPrefix}-tolerance`}
+            inputMode="decimal"
+            value={value.tolerance}
+            onChange={e => set({ tolerance: e.target.value })}
+            placeholder="0"
+            className="flex-1 min-w-0"
+          />
+          <Select
+            value={value.tolerance_mode}
+            onValueChange={v => set({ tolerance_mode: v as NumericDraft["tolerance_mode"] })}
+          >
+            <SelectTrigger className="w-20">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="absolute">±</SelectItem>
+              <SelectItem value="percent">± %</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="space-y-1.5">
+        <Label className="text-xs">Significant figures</Label>
+        <Select value={value.sig_figs || "any"} onValueChange={v => set({ sig_figs: v === "any" ? "" : v })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Don&apos;t check</SelectItem>
+            {[1, 2, 3, 4, 5, 6].map(n => (
+              <SelectItem key={n} value={String(n)}>{n} s.f.</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="col-span-2 text-xs text-muted-foreground">
+        Right value with the wrong sig figs or a missing/wrong unit earns half credit.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Loader2 } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import { findCycle, type PrerequisiteEdge } from "@/lib/mastery/prerequisites"
+import type { ConceptRecord } from "@/lib/types/question-bank"
+
+interface PrerequisitesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  concept: ConceptRecord
+  allConcepts: Pick<ConceptRecord, "id" | "name" | "unit">[]
+  edges: PrerequisiteEdge[]
+  onSaved?: () => void
+}
+
+// Pick which concepts must be mastered before this one is served. Options
+// that would close a loop are disabled up front; the API re-checks.
+export default function PrerequisitesDialog({
+  open,
+  onOpenChange,
+  concept,
+  allConcepts,
+  edges,
+  onSaved,
+}: PrerequisitesDialogProps) {
+  const { toast } = useToast()
+  const [selected, setSelected] = useState<string[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) {
+      setSelected(edges.filter(e => e.concept_id === concept.id).map(e => e.prerequisite_id))
+    }
+  }, [open, edges, concept.id])
+
+  const others = useMemo(() => allConcepts.filter(c => c.id !== concept.id), [allConcepts, concept.id])
+
+  // A candidate closes a loop if adding its edge to the rest of the graph cycles
+  const wouldCycle = useMemo(() => {
+    const rest = edges.filter(e => e.concept_id !== concept.id)
+    return new Set(
+      others
+        .filter(c => findCycle([...rest, { concept_id: concept.id, prerequisite_id: c.id }]))
+        .map(c => c.id)
+    )
+  }, [edges, others, concept.id])
+
+  const toggle = (id: string) =>
+    setSelected(prev => (prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]))
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      const res = await fetch(`/api/concepts/${concept.id}/prerequisites`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ prerequisite_ids: selected }),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to save prerequisites", variant: "destructive" })
+        return
+      }
+      onOpenChange(false)
+      onSaved?.()
+    } catch {
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Prerequisites</DialogTitle>
+          <DialogDescription>
+            In mastery quizzes, students only get &quot;{concept.name}&quot; questions after
+            mastering these. Struggling students are sent back to them for review.
+          </DialogDescription>
+        </DialogHeader>
+        {others.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-2">Create more concepts to link them here.</p>
+        ) : (
+          <div className="border rounded-md divide-y max-h-72 overflow-y-auto">
+            {others.map(c => {
+              const blocked = wouldCycle.has(c.id) && !selected.includes(c.id)
+              return (
+                <label
+                  key={c.id}
+                  className={cn(
+                    "flex items-center gap-3 px-3 py-2.5 select-none",
+                    blocked ? "opacity-60 cursor-not-allowed" : "cursor-pointer hover:bg-muted/50"
+                  )}
+                  title={blocked ? `${c.name} already depends on this concept` : undefined}
+                >
+                  <Checkbox
+                    checked={selected.includes(c.id)}
+                    disabled={blocked}
+                    onCheckedChange={() => toggle(c.id)}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{c.name}</p>
+                    {blocked ? (
+                      <p className="text-xs text-muted-foreground">Would create a loop</p>
+                    ) : c.unit ? (
+                      <p className="text-xs text-muted-foreground truncate">{c.unit}</p>
+                    ) : null}
+                  </div>
+                </label>
+              )
+            })}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save prerequisites
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
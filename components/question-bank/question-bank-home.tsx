@@ -7,19 +7,29 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { useToast } from "@/hooks/use-toast"
-import { Plus, ChevronRight, FileUp, Library, Loader2, Sparkles } from "lucide-react"
+import { Plus, ChevronRight, FileUp, Library, Loader2, Sparkles, Gauge } from "lucide-react"
 import ConceptFormDialog from "@/components/question-bank/concept-form-dialog"
 import ImportMaterialDialog from "@/components/question-bank/import-material-dialog"
+import ExportMenu from "@/components/question-bank/export-menu"
+import ConceptGraph from "@/components/question-bank/concept-graph"
+import type { PrerequisiteEdge } from "@/lib/mastery/prerequisites"
 import type { ConceptWithCounts } from "@/lib/types/question-bank"
 
 // Client island for the question bank home. Data arrives from the server
 // component; mutations go through the API routes, then router.refresh().
-export default function QuestionBankHome({ concepts }: { concepts: ConceptWithCounts[] }) {
+export default function QuestionBankHome({
+  concepts,
+  prerequisites,
+}: {
+  concepts: ConceptWithCounts[]
+  prerequisites: PrerequisiteEdge[]
+}) {
   const router = useRouter()
   const { toast } = useToast()
   const [createOpen, setCreateOpen] = useState(false)
   const [importOpen, setImportOpen] = useState(false)
   const [fillingGaps, setFillingGaps] = useState(false)
+  const [calibrating, setCalibrating] = useState(false)
 
   const emptyConcepts = concepts.filter(c => c.approved_count === 0 && c.suggested_count === 0)
 
@@ -50,6 +60,31 @@ export default function QuestionBankHome({ concepts }: { concepts: ConceptWithCo
     }
   }
 
+  const handleCalibrate = async () => {
+    setCalibrating(true)
+    try {
+      const res = await fetch("/api/question-bank/calibrate", { method: "POST" })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Calibration failed", variant: "destructive" })
+        return
+      }
+      toast({
+        title: json.calibrated > 0
+          ? `Calibrated ${json.calibrated} question${json.calibrated === 1 ? "" : "s"}`
+          : "Not enough answers to calibrate yet",
+        description: json.flagged > 0
+          ? `${json.flagged} flagged for a second look.`
+          : `Based on ${json.responses} student answer${json.responses === 1 ? "" : "s"}.`,
+      })
+      router.refresh()
+    } catch {
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setCalibrating(false)
+    }
+  }
+
   const byUnit = useMemo(() => {
     const groups = new Map<string, ConceptWithCounts[]>()
     for (const c of concepts) {
@@ -61,6 +96,20 @@ export default function QuestionBankHome({ concepts }: { concepts: ConceptWithCo
     return [...groups.entries()]
   }, [concepts])
 
+  // Only concepts that take part in an edge — the rest are already in the grid
+  const graphNodes = useMemo(() => {
+    const linked = new Set(prerequisites.flatMap(e => [e.concept_id, e.prerequisite_id]))
+    return concepts
+      .filter(c => linked.has(c.id))
+      .map(c => ({
+        id: c.id,
+        name: c.name,
+        detail: `${c.approved_count} approved`,
+        tone: c.approved_count === 0 ? ("warn" as const) : ("default" as const),
+        href: `/teacher/question-bank/${c.id}`,
+      }))
+  }, [concepts, prerequisites])
+
   const covered = concepts.filter(c => c.approved_count > 0).length
   const pendingSuggestions = concepts.reduce((sum, c) => sum + c.suggested_count, 0)
 
@@ -74,6 +123,18 @@ export default function QuestionBankHome({ concepts }: { concepts: ConceptWithCo
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={handleCalibrate}
+            disabled={calibrating || concepts.length === 0}
+            title="Estimate each question's real difficulty from student answers"
+          >
+            {calibrating
+              ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              : <Gauge className="h-4 w-4 mr-2" />}
+            {calibrating ? "Calibrating…" : "Calibrate difficulty"}
+          </Button>
+          {concepts.length > 0 && <ExportMenu size="default" />}
           <Button variant="outline" onClick={() => setImportOpen(true)}>
             <FileUp className="h-4 w-4 mr-2" />
             Import from material
@@ -115,6 +176,21 @@ export default function QuestionBankHome({ concepts }: { concepts: ConceptWithCo
         </Card>
       )}
 
+      {graphNodes.length > 0 && (
+        <Card className="mb-6">
+          <CardContent className="p-5">
+            <h2 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground mb-1">
+              Prerequisite map
+            </h2>
+            <p className="text-xs text-muted-foreground mb-4">
+              Arrows point from a concept to the ones that build on it. Mastery quizzes unlock
+              concepts left to right.
+            </p>
+            <ConceptGraph nodes={graphNodes} edges={prerequisites} />
+          </CardContent>
+        </Card>
+      )}
+
       {concepts.length === 0 ? (
         <Card>
           <CardContent className="py-16 text-center">
@@ -3,13 +3,25 @@
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
-import { Check, Pencil, Archive, ArchiveRestore, ThumbsUp, ThumbsDown } from "lucide-react"
-import type { QuestionRecord, QuestionType } from "@/lib/types/question-bank"
+import { Check, Pencil, Archive, ArchiveRestore, ThumbsUp, ThumbsDown, AlertTriangle, History } from "lucide-react"
+import { logitToLevel } from "@/lib/mastery/irt"
+import { describeCorrectAnswer, partLabel } from "@/lib/mastery/grading"
+import type { QuestionPart, QuestionRecord, QuestionType } from "@/lib/types/question-bank"
 
-const TYPE_BADGES: Record<QuestionType, string> = {
+export const TYPE_BADGES: Record<QuestionType, string> = {
   multiple_choice: "MC",
   true_false: "T/F",
   short_answer: "Short answer",
+  numeric: "Numeric",
+  multi_select: "Multi-select",
+  ordering: "Ordering",
+  matching: "Matching",
+  multi_part: "Multi-part",
+}
+
+const IRT_FLAG_HINTS: Record<NonNullable<QuestionRecord["irt_flag"]>, string> = {
+  misrated: "Students find this much easier or harder than its rating",
+  low_discrimination: "Strong and weak students score about the same — check the answer key and wording",
 }
 
 const SOURCE_LABELS: Record<QuestionRecord["source"], string | null> = {
@@ -17,6 +29,7 @@ const SOURCE_LABELS: Record<QuestionRecord["source"], string | null> = {
   ai_suggested: "AI suggested",
   ai_extracted: "From material",
   ai_runtime: "AI (in-quiz)",
+  imported: "Imported",
 }
 
 interface QuestionCardProps {
@@ -25,13 +38,16 @@ interface QuestionCardProps {
   onArchiveToggle: (question: QuestionRecord) => void
   /** Present on 'suggested' questions: approve/decline review actions. */
   onReview?: (question: QuestionRecord, action: "approve" | "decline") => void
+  /** Opens the version history; shown once the question has been edited. */
+  onHistory?: (question: QuestionRecord) => void
 }
 
-export default function QuestionCard({ question, onEdit, onArchiveToggle, onReview }: QuestionCardProps) {
+export default function QuestionCard({ question, onEdit, onArchiveToggle, onReview, onHistory }: QuestionCardProps) {
   const answer = question.correct_answer as Record<string, unknown>
   const isArchived = question.status === "archived"
   const isSuggested = question.status === "suggested"
   const sourceLabel = SOURCE_LABELS[question.source]
+  const estimatedLevel = question.irt_difficulty !== null ? logitToLevel(Number(question.irt_difficulty)) : null
 
   return (
     <Card className={isArchived ? "opacity-60" : undefined}>
@@ -43,6 +59,25 @@ export default function QuestionCard({ question, onEdit, onArchiveToggle, onRevi
               <Badge variant="outline" className="text-muted-foreground">
                 Difficulty {question.difficulty}
               </Badge>
+              {estimatedLevel !== null && (
+                <Badge
+                  variant="outline"
+                  className="text-muted-foreground"
+                  title={`Calibrated from ${question.irt_response_count} answers · b = ${Number(question.irt_difficulty).toFixed(2)}, a = ${Number(question.irt_discrimination).toFixed(2)}`}
+                >
+                  Est. {estimatedLevel}
+                </Badge>
+              )}
+              {question.irt_flag && (
+                <Badge
+                  variant="outline"
+                  className="border-amber-300 text-amber-700 dark:text-amber-500"
+                  title={IRT_FLAG_HINTS[question.irt_flag]}
+                >
+                  <AlertTriangle className="h-3 w-3 mr-1" />
+                  {question.irt_flag === "misrated" ? "Check rating" : "Low discrimination"}
+                </Badge>
+              )}
               {sourceLabel && <Badge variant="secondary">{sourceLabel}</Badge>}
               {isArchived && <Badge variant="outline">Archived</Badge>}
               {question.times_served > 0 && (
@@ -55,10 +90,12 @@ export default function QuestionCard({ question, onEdit, onArchiveToggle, onRevi
             </div>
             <p className="text-sm whitespace-pre-wrap">{question.question_text}</p>
 
-            {question.type === "multiple_choice" && question.options && (
+            {(question.type === "multiple_choice" || question.type === "multi_select") && question.options && (
               <ul className="mt-2 space-y-1">
                 {question.options.map((option, i) => {
-                  const isCorrect = answer.index === i
+                  const isCorrect = question.type === "multi_select"
+                    ? (answer.indices as number[]).includes(i)
+                    : answer.index === i
                   return (
                     <li
                       key={i}
@@ -81,6 +118,32 @@ export default function QuestionCard({ question, onEdit, onArchiveToggle, onRevi
               </p>
             )}
 
+            {(question.type === "numeric" || question.type === "ordering" || question.type === "matching") && (
+              <p className="mt-2 text-sm text-green-700 dark:text-green-400 font-medium">
+                Answer: {describeCorrectAnswer({ ...question, correct_answer: answer })}
+              </p>
+            )}
+
+            {question.type === "multi_part" && (
+              <ol className="mt-2 space-y-1 text-sm">
+                {((answer.parts ?? []) as QuestionPart[]).map((part, i) => (
+                  <li key={i} className="flex gap-2">
+                    <span className="w-5 flex-shrink-0 text-muted-foreground">{partLabel(i)}</span>
+                    <span className="min-w-0">
+                      {part.prompt}{" "}
+                      <span className="text-green-700 dark:text-green-400 font-medium">
+                        — {describeCorrectAnswer({
+                          type: part.type,
+                          options: part.options ?? null,
+                          correct_answer: part.correct_answer as Record<string, unknown>,
+                        })}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            )}
+
             {question.type === "short_answer" && (
               <div className="mt-2 text-sm space-y-1">
                 <p className="text-green-700 dark:text-green-400">
@@ -99,6 +162,11 @@ export default function QuestionCard({ question, onEdit, onArchiveToggle, onRevi
             <Button variant="ghost" size="icon" onClick={() => onEdit(question)} title="Edit">
               <Pencil className="h-4 w-4" />
             </Button>
+            {onHistory && question.version > 1 && (
+              <Button variant="ghost" size="icon" onClick={() => onHistory(question)} title={`History (version ${question.version})`}>
+                <History className="h-4 w-4 text-muted-foreground" />
+              </Button>
+            )}
             {!isSuggested && (
               <Button
                 variant="ghost"
@@ -0,0 +1,223 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Loader2, RotateCcw } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import { diffVersions, sameContent, type QuestionVersion } from "@/lib/mastery/versions"
+import type { QuestionRecord } from "@/lib/types/question-bank"
+
+function formatWhen(iso: string | null): string {
+  if (!iso) return "Unknown date"
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })
+}
+
+const ACTION_LABELS: Record<QuestionVersion["action"], string> = {
+  created: "Created",
+  edit: "Edited",
+  restore: "Restored",
+}
+
+// Timeline of a question's versions with a side-by-side diff of each against
+// the one before it. Restoring copies an old version forward as a new one.
+export default function QuestionHistoryDialog({
+  question,
+  onOpenChange,
+  onRestored,
+}: {
+  question: QuestionRecord | null
+  onOpenChange: (open: boolean) => void
+  onRestored: () => void
+}) {
+  const { toast } = useToast()
+  const [versions, setVersions] = useState<QuestionVersion[]>([])
+  const [selected, setSelected] = useState<number | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+
+  const questionId = question?.id
+  useEffect(() => {
+    if (!questionId) return
+    let cancelled = false
+    setLoading(true)
+    setVersions([])
+    fetch(`/api/question-bank/${questionId}/versions`)
+      .then(async res => {
+        const json = await res.json()
+        if (cancelled) return
+        if (!res.ok) {
+          toast({ title: json.error ?? "Failed to load history", variant: "destructive" })
+          return
+        }
+        const list = json.versions as QuestionVersion[]
+        setVersions(list)
+        setSelected(list[list.length - 1]?.version ?? null)
+      })
+      .catch(() => !cancelled && toast({ title: "Network error", variant: "destructive" }))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [questionId, toast])
+
+  const index = versions.findIndex(v => v.version === selected)
+  const version = versions[index]
+  const previous = index > 0 ? versions[index - 1] : null
+  const latest = versions[versions.length - 1]
+  const isCurrent = !!version && !!latest && sameContent(version.content, latest.content)
+  const diff = version && previous ? diffVersions(previous.content, version.content) : null
+
+  const handleRestore = async () => {
+    if (!question || !version) return
+    setRestoring(true)
+    try {
+      const res = await fetch(`/api/question-bank/${question.id}/versions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version: version.version }),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Restore failed", variant: "destructive" })
+        return
+      }
+      toast({ title: `Restored version ${version.version} as version ${json.question.version}` })
+      onOpenChange(false)
+      onRestored()
+    } catch {
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!question} onOpenChange={v => !restoring && onOpenChange(v)}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Version history</DialogTitle>
+          <DialogDescription>
+            Each edit makes a new version. Mastery analytics report versions separately, so
+            stats from before a fix don&apos;t blur the picture after it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-[12rem_1fr]">
+            <ol className="space-y-1 sm:max-h-[60vh] overflow-y-auto">
+              {[...versions].reverse().map(v => (
+                <li key={v.version}>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(v.version)}
+                    className={cn(
+                      "w-full rounded-md border px-3 py-2 text-left transition-colors",
+                      v.version === selected ? "border-primary bg-primary/5" : "hover:bg-muted/50"
+                    )}
+                  >
+                    <span className="flex items-center gap-2 text-sm font-medium">
+                      Version {v.version}
+                      {v === latest && <Badge variant="secondary" className="text-[10px] px-1.5 py-0">Current</Badge>}
+                    </span>
+                    <span className="block text-xs text-muted-foreground">
+                      {ACTION_LABELS[v.action]}
+                      {v.restored_from ? ` from v${v.restored_from}` : ""} · {formatWhen(v.created_at)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            <div className="min-w-0 space-y-3 sm:max-h-[60vh] overflow-y-auto">
+              {version && !previous && (
+                <div className="rounded-md border p-3 space-y-2">
+                  <p className="text-xs font-medium text-muted-foreground">Original question</p>
+                  <p className="text-sm whitespace-pre-wrap">{version.content.question_text}</p>
+                  {version.content.options && (
+                    <ul className="text-sm space-y-0.5">
+                      {version.content.options.map((o, i) => (
+                        <li key={i}>
+                          <span className="text-muted-foreground mr-1">{String.fromCharCode(65 + i)}.</span>
+                          {o}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+
+              {diff && previous && (
+                <>
+                  <div className="grid grid-cols-2 gap-3 text-xs font-medium text-muted-foreground">
+                    <span>Version {previous.version}</span>
+                    <span>Version {version.version}</span>
+                  </div>
+                  {diff.fields.length === 0 && !diff.options && (
+                    <p className="text-sm text-muted-foreground">No content changes.</p>
+                  )}
+                  {diff.fields.map(field => (
+                    <div key={field.label} className="space-y-1">
+                      <p className="text-xs font-medium">{field.label}</p>
+                      <div className="grid grid-cols-2 gap-3 text-sm">
+                        <p className="rounded bg-rose-50 px-2 py-1 whitespace-pre-wrap text-rose-900 dark:bg-rose-950/40 dark:text-rose-200">
+                          {field.before || <span className="italic text-muted-foreground">empty</span>}
+                        </p>
+                        <p className="rounded bg-emerald-50 px-2 py-1 whitespace-pre-wrap text-emerald-900 dark:bg-emerald-950/40 dark:text-emerald-200">
+                          {field.after || <span className="italic text-muted-foreground">empty</span>}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                  {diff.options && (
+                    <div className="space-y-1">
+                      <p className="text-xs font-medium">Options</p>
+                      {diff.options.map(row => {
+                        const changed = row.before !== row.after
+                        return (
+                          <div key={row.label} className="grid grid-cols-2 gap-3 text-sm">
+                            <p className={cn("rounded px-2 py-1", changed && "bg-rose-50 text-rose-900 dark:bg-rose-950/40 dark:text-rose-200")}>
+                              {row.before !== null && <span className="text-muted-foreground mr-1">{row.label}.</span>}
+                              {row.before}
+                            </p>
+                            <p className={cn("rounded px-2 py-1", changed && "bg-emerald-50 text-emerald-900 dark:bg-emerald-950/40 dark:text-emerald-200")}>
+                              {row.after !== null && <span className="text-muted-foreground mr-1">{row.label}.</span>}
+                              {row.after}
+                            </p>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={restoring}>
+            Close
+          </Button>
+          <Button onClick={handleRestore} disabled={!version || isCurrent || restoring || loading}>
+            {restoring ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RotateCcw className="h-4 w-4 mr-2" />}
+            {version && !isCurrent ? `Restore version ${version.version}` : "Restore"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
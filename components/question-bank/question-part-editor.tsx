@@ -0,0 +1,221 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { Plus, Trash2, X } from "lucide-react"
+import { partLabel } from "@/lib/mastery/grading"
+import type { PartType, QuestionPart } from "@/lib/types/question-bank"
+import NumericAnswerFields, {
+  EMPTY_NUMERIC,
+  numericAnswerFrom,
+  numericDraftFrom,
+  type NumericDraft,
+} from "@/components/question-bank/numeric-answer-fields"
+
+export const PART_TYPE_LABELS: Record<PartType, string> = {
+  multiple_choice: "Multiple choice",
+  true_false: "True / False",
+  numeric: "Numeric",
+  multi_select: "Multi-select",
+}
+
+export interface PartDraft {
+  type: PartType
+  prompt: string
+  options: string[]
+  correctIndex: number
+  correctIndices: number[]
+  tfAnswer: boolean
+  numeric: NumericDraft
+}
+
+export function emptyPart(type: PartType = "numeric"): PartDraft {
+  return {
+    type,
+    prompt: "",
+    options: ["", "", ""],
+    correctIndex: 0,
+    correctIndices: [],
+    tfAnswer: true,
+    numeric: EMPTY_NUMERIC,
+  }
+}
+
+export function partDraftFrom(part: QuestionPart): PartDraft {
+  const answer = part.correct_answer as Record<string, unknown>
+  return {
+    ...emptyPart(part.type),
+    prompt: part.prompt,
+    options: part.options ?? ["", "", ""],
+    correctIndex: typeof answer.index === "number" ? answer.index : 0,
+    correctIndices: Array.isArray(answer.indices) ? (answer.indices as number[]) : [],
+    tfAnswer: typeof answer.value === "boolean" ? answer.value : true,
+    numeric: part.type === "numeric" ? numericDraftFrom(answer) : EMPTY_NUMERIC,
+  }
+}
+
+export function partFromDraft(draft: PartDraft): QuestionPart {
+  const hasOptions = draft.type === "multiple_choice" || draft.type === "multi_select"
+  return {
+    type: draft.type,
+    prompt: draft.prompt.trim(),
+    options: hasOptions ? draft.options.map(o => o.trim()) : null,
+    correct_answer:
+      draft.type === "multiple_choice"
+        ? { index: draft.correctIndex }
+        : draft.type === "true_false"
+          ? { value: draft.tfAnswer }
+          : draft.type === "multi_select"
+            ? { indices: [...draft.correctIndices].sort((a, b) => a - b) }
+            : numericAnswerFrom(draft.numeric),
+  }
+}
+
+// One part of a multi-part question: its own prompt and answer key under the
+// shared stem. Parts are limited to the auto-graded one-line types.
+export default function QuestionPartEditor({
+  index,
+  part,
+  onChange,
+  onRemove,
+}: {
+  index: number
+  part: PartDraft
+  onChange: (part: PartDraft) => void
+  onRemove?: () => void
+}) {
+  const set = (patch: Partial<PartDraft>) => onChange({ ...part, ...patch })
+  const idPrefix = `part-${index}`
+
+  const setOption = (i: number, value: string) =>
+    set({ options: part.options.map((o, j) => (j === i ? value : o)) })
+
+  const removeOption = (i: number) =>
+    set({
+      options: part.options.filter((_, j) => j !== i),
+      correctIndex: i < part.correctIndex ? part.correctIndex - 1 : Math.min(part.correctIndex, part.options.length - 2),
+      correctIndices: part.correctIndices.filter(c => c !== i).map(c => (c > i ? c - 1 : c)),
+    })
+
+  const toggleCorrect = (i: number) =>
+    set({
+      correctIndices: part.correctIndices.includes(i)
+        ? part.correctIndices.filter(c => c !== i)
+        : [...part.correctIndices, i],
+    })
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium w-6">{partLabel(index)}</span>
+        <Select value={part.type} onValueChange={v => set({ type: v as PartType })}>
+          <SelectTrigger className="h-8 w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(PART_TYPE_LABELS) as PartType[]).map(t => (
+              <SelectItem key={t} value={t}>{PART_TYPE_LABELS[t]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {onRemove && (
+          <Button type="button" variant="ghost" size="icon" className="ml-auto h-8 w-8" onClick={onRemove} title="Remove part">
+            <X className="h-4 w-4 text-muted-foreground" />
+          </Button>
+        )}
+      </div>
+
+      <Input
+        value={part.prompt}
+        onChange={e => set({ prompt: e.target.value })}
+        placeholder="What this part asks, e.g. &quot;How many moles of O₂ react?&quot;"
+      />
+
+      {(part.type === "multiple_choice" || part.type === "multi_select") && (
+        <div className="space-y-2">
+          {part.type === "multiple_choice" ? (
+            <RadioGroup
+              value={String(part.correctIndex)}
+              onValueChange={v => set({ correctIndex: Number(v) })}
+              className="space-y-2"
+            >
+              {part.options.map((option, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <RadioGroupItem value={String(i)} id={`${idPrefix}-option-${i}`} />
+                  <Input
+                    value={option}
+                    onChange={e => setOption(i, e.target.value)}
+                    placeholder={`Option ${String.fromCharCode(65 + i)}`}
+                    className="h-8 flex-1"
+                  />
+                  {part.options.length > 2 && (
+                    <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeOption(i)}>
+                      <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </RadioGroup>
+          ) : (
+            part.options.map((option, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <Checkbox
+                  checked={part.correctIndices.includes(i)}
+                  onCheckedChange={() => toggleCorrect(i)}
+                />
+                <Input
+                  value={option}
+                  onChange={e => setOption(i, e.target.value)}
+                  placeholder={`Option ${String.fromCharCode(65 + i)}`}
+                  className="h-8 flex-1"
+                />
+                {part.options.length > 2 && (
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeOption(i)}>
+                    <Trash2 className="h-3.5 w-3.5 text-muted-foreground" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+          {part.options.length < 6 && (
+            <Button type="button" variant="outline" size="sm" onClick={() => set({ options: [...part.options, ""] })}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add option
+            </Button>
+          )}
+        </div>
+      )}
+
+      {part.type === "true_false" && (
+        <RadioGroup
+          value={part.tfAnswer ? "true" : "false"}
+          onValueChange={v => set({ tfAnswer: v === "true" })}
+          className="flex gap-6"
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="true" id={`${idPrefix}-tf-true`} />
+            <Label htmlFor={`${idPrefix}-tf-true`} className="font-normal">True</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="false" id={`${idPrefix}-tf-false`} />
+            <Label htmlFor={`${idPrefix}-tf-false`} className="font-normal">False</Label>
+          </div>
+        </RadioGroup>
+      )}
+
+      {part.type === "numeric" && (
+        <NumericAnswerFields value={part.numeric} onChange={numeric => set({ numeric })} idPrefix={idPrefix} />
+      )}
+    </div>
+  )
+}
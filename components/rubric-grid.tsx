@@ -0,0 +1,66 @@
+"use client"
+
+import { cn } from "@/lib/utils"
+import type { Rubric } from "@/lib/grading/rubric"
+
+interface GradedCriterion {
+  questionNumber: string
+  marksAwarded: number
+  marksPossible: number
+  level?: string
+}
+
+interface Props {
+  rubric: Rubric
+  breakdown: GradedCriterion[]
+}
+
+// The rubric a result was graded against, one row per criterion with the
+// level the grader chose highlighted.
+export default function RubricGrid({ rubric, breakdown }: Props) {
+  const byCriterion = new Map(breakdown.map(b => [b.questionNumber.trim().toLowerCase(), b]))
+
+  return (
+    <div className="overflow-x-auto border rounded-lg">
+      <table className="w-full text-sm border-collapse">
+        <tbody>
+          {rubric.criteria.map(c => {
+            const graded = byCriterion.get(c.name.toLowerCase())
+            const chosen = graded?.level?.trim().toLowerCase()
+            return (
+              <tr key={c.name} className="border-b last:border-b-0 align-top">
+                <th scope="row" className="text-left font-medium p-3 w-48 bg-muted/40">
+                  <p>{c.name}</p>
+                  {c.description && <p className="text-xs font-normal text-muted-foreground mt-0.5">{c.description}</p>}
+                  {graded && (
+                    <p className="text-xs font-semibold text-primary mt-1">
+                      {graded.marksAwarded}/{graded.marksPossible}
+                    </p>
+                  )}
+                </th>
+                {c.levels.map(l => {
+                  const selected = chosen === l.label.toLowerCase()
+                  return (
+                    <td
+                      key={l.label}
+                      className={cn(
+                        "p-3 border-l min-w-32",
+                        selected ? "bg-primary/10 ring-2 ring-inset ring-primary" : "text-muted-foreground"
+                      )}
+                      aria-selected={selected}
+                    >
+                      <p className={cn("font-medium", selected && "text-primary")}>
+                        {l.label} · {l.points}
+                      </p>
+                      {l.descriptor && <p className="text-xs mt-1">{l.descriptor}</p>}
+                    </td>
+                  )
+                })}
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import { useRouter } from 'next/navigation'
+import { Sparkles } from 'lucide-react'
+import NavigationHeader from '@/components/navigation-header'
+import PageBanner from '@/components/page-banner'
+import CustomFormat from '@/components/formats/custom-format'
+import { cn } from '@/lib/utils'
+import { displaySerif } from '@/lib/formats/fonts'
+import { formatAccent, capitalizeFirst } from '@/lib/formats/design'
+import type { StaticGuide } from '@/lib/static-guides/convert'
+
+interface StaticGuideViewProps {
+  guide: StaticGuide
+}
+
+/**
+ * Read-only view of a bundled static guide that hasn't been imported into
+ * study_guides yet. Once it has, its route redirects to the real guide.
+ */
+export default function StaticGuideView({ guide }: StaticGuideViewProps) {
+  const router = useRouter()
+
+  return (
+    <div className={cn(displaySerif.variable, 'min-h-screen bg-slate-50')}>
+      <div className="print:hidden">
+        <NavigationHeader />
+      </div>
+
+      <PageBanner
+        title={guide.title}
+        meta={`${capitalizeFirst(guide.gradeLevel)} · Guide`}
+        accent={formatAccent.summary}
+        icon={Sparkles}
+        onBack={() => router.back()}
+      />
+
+      <div className="container mx-auto px-4 py-8">
+        <CustomFormat content={guide.content} studyGuideId={`static:${guide.route}`} />
+      </div>
+    </div>
+  )
+}
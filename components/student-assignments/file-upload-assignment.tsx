@@ -316,7 +316,7 @@ export default function FileUploadAssignment() {
                   <p className="whitespace-pre-wrap">{mySubmission.student_comment}</p>
                 </div>
               )}
-              {(mySubmission.status === "graded" || mySubmission.status === "pending_review") &&
+              {mySubmission.status === "graded" &&
                mySubmission.grading_result_id && assignment.students_can_see_report && (
                 <div className="mt-4">
                   <Button asChild size="sm">
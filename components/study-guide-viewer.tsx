@@ -1,9 +1,9 @@
 "use client"
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
-import { StudyGuideRecord } from '@/lib/supabase'
+import { StudyGuideRecord, supabase } from '@/lib/supabase'
 import { Button } from '@/components/ui/button'
 import {
   AlertDialog,
@@ -52,6 +52,7 @@ export default function StudyGuideViewer({ studyGuide }: StudyGuideViewerProps)
   const [isDeleting, setIsDeleting] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [isMenuOpen, setIsMenuOpen] = useState(false)
+  const [isCoEditor, setIsCoEditor] = useState(false)
 
   const isOwner = user?.id === studyGuide.user_id
   const isTeacherOwner = isOwner && user?.user_type === 'teacher'
@@ -60,6 +61,27 @@ export default function StudyGuideViewer({ studyGuide }: StudyGuideViewerProps)
   const canSave = user && !isOwner
   const fmt = FORMAT_META[studyGuide.format as keyof typeof FORMAT_META] ?? FORMAT_META.summary
 
+  // Teachers the owner shared the guide with can open it in the editor too
+  useEffect(() => {
+    if (!user || isOwner || studyGuide.format !== 'custom') {
+      setIsCoEditor(false)
+      return
+    }
+    let cancelled = false
+    supabase
+      .from('study_guide_collaborators')
+      .select('id')
+      .eq('study_guide_id', studyGuide.id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (!cancelled) setIsCoEditor(!!data)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [user, isOwner, studyGuide.id, studyGuide.format])
+
   const handleSaveToMyGuides = async () => {
     if (!user) return
     setIsSaving(true)
@@ -280,7 +302,7 @@ export default function StudyGuideViewer({ studyGuide }: StudyGuideViewerProps)
               </Button>
             }
           />
-          {isOwner && studyGuide.format === 'custom' && (
+          {(isOwner || isCoEditor) && studyGuide.format === 'custom' && (
             <Button
               asChild
               variant="outline"
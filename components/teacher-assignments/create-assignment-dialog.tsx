@@ -23,6 +23,10 @@ import MasteryConfigFields, {
   DEFAULT_MASTERY_CONFIG,
   type MasteryConfigValues,
 } from "@/components/teacher-assignments/mastery-config-fields"
+import GradeSchemePicker from "@/components/grade-scheme-picker"
+import RubricBuilder from "@/components/teacher-assignments/rubric-builder"
+import type { GradeScheme } from "@/lib/grading/grade-schemes"
+import { validateRubric, type Rubric } from "@/lib/grading/rubric"
 
 interface ClassOption {
   id: string
@@ -37,7 +41,11 @@ interface InitialValues {
   due_at: string | null
   grading_instructions: string
   total_possible_marks: string
+  // null: each linked class's own scheme
+  grade_scheme: GradeScheme | null
   mark_scheme_url: string | null
+  // null: graded per question against the mark scheme
+  rubric: Rubric | null
   class_ids: string[]
   auto_grade: boolean
   students_can_see_grade: boolean
@@ -61,7 +69,9 @@ const EMPTY: InitialValues = {
   due_at: null,
   grading_instructions: "",
   total_possible_marks: "",
+  grade_scheme: null,
   mark_scheme_url: null,
+  rubric: null,
   class_ids: [],
   auto_grade: true,
   students_can_see_grade: true,
@@ -224,6 +234,7 @@ export default function CreateAssignmentDialog({
           }
       if (values.due_at) payload.due_at = new Date(values.due_at).toISOString()
       else payload.due_at = null
+      payload.grade_scheme = values.grade_scheme
       if (!isMastery) {
         if (values.total_possible_marks) {
           const n = parseInt(values.total_possible_marks, 10)
@@ -234,6 +245,16 @@ export default function CreateAssignmentDialog({
           }
           payload.total_possible_marks = n
         } else payload.total_possible_marks = null
+
+        if (values.rubric) {
+          const checked = validateRubric(values.rubric)
+          if (!checked.ok) {
+            toast({ title: "Finish the rubric", description: checked.error, variant: "destructive" })
+            setSubmitting(false)
+            return
+          }
+          payload.rubric = checked.rubric
+        } else payload.rubric = null
       }
 
       if (mode === "create") {
@@ -254,7 +275,11 @@ export default function CreateAssignmentDialog({
         toast({ title: json.error ?? "Something went wrong", variant: "destructive" })
         return
       }
-      toast({ title: mode === "create" ? "Assignment created" : "Assignment updated" })
+      if (json.warning) {
+        toast({ title: "Assignment updated", description: json.warning, variant: "destructive" })
+      } else {
+        toast({ title: mode === "create" ? "Assignment created" : "Assignment updated" })
+      }
       onSaved(json.assignment)
       onOpenChange(false)
     } catch (err) {
@@ -407,6 +432,19 @@ export default function CreateAssignmentDialog({
             )}
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="grade-scheme">Grading scale</Label>
+            <GradeSchemePicker
+              id="grade-scheme"
+              value={values.grade_scheme}
+              onChange={(grade_scheme) => setValues(v => ({ ...v, grade_scheme }))}
+              fallbackLabel="Each class's grading scale"
+            />
+            {mode === "edit" && (
+              <p className="text-xs text-muted-foreground">Changing the scale re-grades submissions already graded.</p>
+            )}
+          </div>
+
           {isMastery && (
             <MasteryConfigFields value={masteryConfig} onChange={setMasteryConfig} />
           )}
@@ -451,12 +489,25 @@ export default function CreateAssignmentDialog({
                   {uploadingMarkScheme ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
                   {uploadingMarkScheme ? "Uploading…" : "Upload mark scheme"}
                 </Button>
-                <Badge variant="secondary" className="text-xs">Required for AI grading</Badge>
+                <Badge variant="secondary" className="text-xs">{values.rubric ? "Optional with a rubric" : "Required for AI grading"}</Badge>
               </div>
             )}
           </div>
           )}
 
+          {!isMastery && (
+          <div className="space-y-2">
+            <Label>Rubric (optional)</Label>
+            <p className="text-xs text-muted-foreground">
+              Grade against criteria and performance levels instead of question-by-question marks.
+            </p>
+            <RubricBuilder
+              value={values.rubric}
+              onChange={(rubric) => setValues(v => ({ ...v, rubric }))}
+            />
+          </div>
+          )}
+
           {!isMastery && (
           <div className="space-y-2">
             <Label htmlFor="instructions">Grading instructions for AI (optional)</Label>
@@ -489,7 +540,7 @@ export default function CreateAssignmentDialog({
             <label className="flex items-center justify-between gap-3 cursor-pointer">
               <div>
                 <p className="text-sm">Auto-grade on submit</p>
-                <p className="text-xs text-muted-foreground">AI grades the submission immediately when a student submits (requires mark scheme)</p>
+                <p className="text-xs text-muted-foreground">AI grades the submission immediately when a student submits (requires mark scheme or rubric)</p>
               </div>
               <Switch
                 checked={values.auto_grade}
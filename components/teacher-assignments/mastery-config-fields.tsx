@@ -19,11 +19,15 @@ import {
   CollapsibleTrigger,
 } from "@/components/ui/collapsible"
 import { ChevronsUpDown } from "lucide-react"
-import type { ConceptWithCounts, QuestionType } from "@/lib/types/question-bank"
+import { QUESTION_TYPES, type ConceptWithCounts, type QuestionType } from "@/lib/types/question-bank"
+import type { MasteryRule } from "@/lib/mastery/engine"
 
 export interface MasteryConfigValues {
   concept_ids: string[]
+  mastery_rule: MasteryRule
   mastery_threshold: number
+  streak_length: number
+  bkt_threshold: number
   questions_per_round: number
   min_questions: number
   window_size: number
@@ -33,18 +37,49 @@ export interface MasteryConfigValues {
 
 export const DEFAULT_MASTERY_CONFIG: MasteryConfigValues = {
   concept_ids: [],
+  mastery_rule: "rolling_window",
   mastery_threshold: 0.8,
+  streak_length: 5,
+  bkt_threshold: 0.95,
   questions_per_round: 5,
   min_questions: 3,
   window_size: 5,
   max_questions_per_concept: 15,
-  allowed_types: ["multiple_choice", "true_false", "short_answer"],
+  allowed_types: QUESTION_TYPES,
 }
 
 const TYPE_LABELS: Record<QuestionType, string> = {
   multiple_choice: "Multiple choice",
   true_false: "True / False",
   short_answer: "Short answer (AI-graded)",
+  numeric: "Numeric",
+  multi_select: "Multi-select",
+  ordering: "Ordering",
+  matching: "Matching",
+  multi_part: "Multi-part",
+}
+
+const RULE_OPTIONS: Record<MasteryRule, { label: string; hint: string }> = {
+  rolling_window: {
+    label: "Recent accuracy",
+    hint: "A concept is mastered when the student's recent answers hit the threshold. Early mistakes age out — students can always recover.",
+  },
+  streak: {
+    label: "Correct in a row",
+    hint: "A concept is mastered after a run of correct answers. Any miss resets the run.",
+  },
+  bkt: {
+    label: "Knowledge tracing",
+    hint: "Estimates the probability the student knows the concept, allowing for lucky guesses and slips. Mastered once that estimate passes the cutoff.",
+  },
+  difficulty_weighted: {
+    label: "Difficulty-weighted accuracy",
+    hint: "Like recent accuracy, but hard questions count three times as much as easy ones.",
+  },
+  short_answer_required: {
+    label: "Recent accuracy + a short answer",
+    hint: "Recent accuracy must hit the threshold and the student must get at least one short-answer question right.",
+  },
 }
 
 // Mastery-specific fields inside the assignment dialog. Concepts with no
@@ -89,9 +124,21 @@ export default function MasteryConfigFields({
       ? value.allowed_types.filter(t => t !== type)
       : [...value.allowed_types, type]
     if (next.length === 0) return // at least one type
+    // The short-answer rule can't be met without short answers
+    if (value.mastery_rule === "short_answer_required" && !next.includes("short_answer")) return
     onChange({ ...value, allowed_types: next })
   }
 
+  const setRule = (rule: MasteryRule) => {
+    const allowed_types =
+      rule === "short_answer_required" && !value.allowed_types.includes("short_answer")
+        ? [...value.allowed_types, "short_answer" as const]
+        : value.allowed_types
+    onChange({ ...value, mastery_rule: rule, allowed_types })
+  }
+
+  const usesThreshold = ["rolling_window", "difficulty_weighted", "short_answer_required"].includes(value.mastery_rule)
+
   return (
     <div className="space-y-5">
       <div className="space-y-2">
@@ -149,27 +196,78 @@ export default function MasteryConfigFields({
       </div>
 
       <div className="space-y-2">
-        <Label>Mastery threshold</Label>
-        <Select
-          value={String(value.mastery_threshold)}
-          onValueChange={v => onChange({ ...value, mastery_threshold: Number(v) })}
-        >
+        <Label>Mastery rule</Label>
+        <Select value={value.mastery_rule} onValueChange={v => setRule(v as MasteryRule)}>
           <SelectTrigger>
             <SelectValue />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="0.7">70% — lighter touch</SelectItem>
-            <SelectItem value="0.8">80% — recommended</SelectItem>
-            <SelectItem value="0.9">90% — strict</SelectItem>
-            <SelectItem value="1">100% — perfect streak</SelectItem>
+            {(Object.keys(RULE_OPTIONS) as MasteryRule[]).map(rule => (
+              <SelectItem key={rule} value={rule}>{RULE_OPTIONS[rule].label}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
-        <p className="text-xs text-muted-foreground">
-          A concept is mastered when the student&apos;s recent answers hit this accuracy.
-          Early mistakes age out — students can always recover.
-        </p>
+        <p className="text-xs text-muted-foreground">{RULE_OPTIONS[value.mastery_rule].hint}</p>
       </div>
 
+      {usesThreshold && (
+        <div className="space-y-2">
+          <Label>Mastery threshold</Label>
+          <Select
+            value={String(value.mastery_threshold)}
+            onValueChange={v => onChange({ ...value, mastery_threshold: Number(v) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="0.7">70% — lighter touch</SelectItem>
+              <SelectItem value="0.8">80% — recommended</SelectItem>
+              <SelectItem value="0.9">90% — strict</SelectItem>
+              <SelectItem value="1">100% — perfect streak</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {value.mastery_rule === "streak" && (
+        <div className="space-y-2">
+          <Label>Correct answers in a row</Label>
+          <Select
+            value={String(value.streak_length)}
+            onValueChange={v => onChange({ ...value, streak_length: Number(v) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {[3, 4, 5, 7, 10].map(n => (
+                <SelectItem key={n} value={String(n)}>{n} in a row{n === 5 ? " — recommended" : ""}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {value.mastery_rule === "bkt" && (
+        <div className="space-y-2">
+          <Label>Confidence cutoff</Label>
+          <Select
+            value={String(value.bkt_threshold)}
+            onValueChange={v => onChange({ ...value, bkt_threshold: Number(v) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="0.85">85% — lighter touch</SelectItem>
+              <SelectItem value="0.95">95% — recommended</SelectItem>
+              <SelectItem value="0.98">98% — strict</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       <Collapsible>
         <CollapsibleTrigger className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground">
           <ChevronsUpDown className="h-3.5 w-3.5" />
@@ -245,7 +343,7 @@ export default function MasteryConfigFields({
 
           <div className="space-y-2">
             <Label className="text-xs">Question types</Label>
-            <div className="space-y-1.5">
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1.5">
               {(Object.keys(TYPE_LABELS) as QuestionType[]).map(type => (
                 <label key={type} className="flex items-center gap-2 cursor-pointer">
                   <Checkbox
@@ -7,7 +7,9 @@ import { Skeleton } from "@/components/ui/skeleton"
 import { useToast } from "@/hooks/use-toast"
 import { cn } from "@/lib/utils"
 import { ChevronDown, ChevronRight, CheckCircle2, Clock, Sparkles } from "lucide-react"
+import ConceptGraph from "@/components/question-bank/concept-graph"
 import type { ConceptInsight, QuestionInsight } from "@/lib/mastery/analytics"
+import type { PrerequisiteEdge } from "@/lib/mastery/prerequisites"
 
 interface Props {
   assignmentId: string
@@ -37,10 +39,18 @@ function pctText(pct: number | null): string {
 
 const SLOW_SEC = 90
 
+function graphTone(pct: number | null): "default" | "good" | "warn" | "bad" {
+  if (pct === null) return "default"
+  if (pct >= 80) return "good"
+  if (pct >= 60) return "warn"
+  return "bad"
+}
+
 export default function MasteryInsights({ assignmentId }: Props) {
   const { toast } = useToast()
   const [concepts, setConcepts] = useState<ConceptInsight[]>([])
   const [questions, setQuestions] = useState<QuestionInsight[]>([])
+  const [prerequisites, setPrerequisites] = useState<PrerequisiteEdge[]>([])
   const [loading, setLoading] = useState(true)
   const [expanded, setExpanded] = useState<Set<string>>(new Set())
 
@@ -54,6 +64,7 @@ export default function MasteryInsights({ assignmentId }: Props) {
       }
       setConcepts(json.concepts)
       setQuestions(json.questions)
+      setPrerequisites(json.prerequisites ?? [])
       // Default-expand the weakest concept so the most useful drill-down is visible.
       const worst = (json.concepts as ConceptInsight[]).find((c) => c.pct !== null)
       if (worst) setExpanded(new Set([worst.concept_id]))
@@ -96,6 +107,23 @@ export default function MasteryInsights({ assignmentId }: Props) {
           Concepts and questions sorted weakest first — where your class needs the most review.
         </p>
 
+        {prerequisites.length > 0 && (
+          <div className="mb-5 rounded-lg border border-slate-200 p-4">
+            <p className="text-xs font-medium text-slate-500 mb-3">
+              Prerequisite map — students unlock concepts left to right
+            </p>
+            <ConceptGraph
+              nodes={concepts.map((c) => ({
+                id: c.concept_id,
+                name: c.name,
+                detail: `${c.masteredStudents}/${c.totalStudents} mastered${c.pct === null ? "" : ` · ${c.pct}%`}`,
+                tone: graphTone(c.pct),
+              }))}
+              edges={prerequisites}
+            />
+          </div>
+        )}
+
         {!anyAnswers ? (
           <p className="py-8 text-center text-sm text-muted-foreground">
             No answers yet. Insights appear once students start answering questions.
@@ -145,7 +173,7 @@ export default function MasteryInsights({ assignmentId }: Props) {
                       {conceptQuestions.length === 0 ? (
                         <p className="px-4 py-4 text-sm text-slate-400">No answered questions in this concept yet.</p>
                       ) : (
-                        conceptQuestions.map((q) => <QuestionRow key={q.question_id} q={q} />)
+                        conceptQuestions.map((q) => <QuestionRow key={`${q.question_id}-${q.version}`} q={q} />)
                       )}
                     </div>
                   )}
@@ -168,6 +196,15 @@ function QuestionRow({ q }: { q: QuestionInsight }) {
       <div className="flex items-start gap-3">
         <p className="flex-1 text-sm text-slate-800 leading-snug">{q.question_text}</p>
         <div className="flex shrink-0 items-center gap-2">
+          {q.versionCount > 1 && (
+            <Badge
+              variant="outline"
+              className="border-slate-200 bg-slate-50 text-slate-600 text-[10px] px-1.5 py-0"
+              title="Stats for this version of the question only"
+            >
+              v{q.version}
+            </Badge>
+          )}
           {needsReview && (
             <Badge variant="outline" className="border-rose-200 bg-rose-50 text-rose-700 text-[10px] px-1.5 py-0">
               Needs review
@@ -213,14 +250,35 @@ function QuestionRow({ q }: { q: QuestionInsight }) {
         </div>
       )}
 
-      {/* Short-answer: avg score + representative wrong answers */}
-      {q.type === "short_answer" && (
+      {/* Ordering / matching / multi-part: how often each item, pair or part was right */}
+      {q.breakdown && q.answered > 0 && (
+        <div className="mt-3 space-y-1.5">
+          {q.breakdown.map((item, i) => (
+            <div key={i} className="flex items-center gap-2 text-xs">
+              <span className="flex-1 min-w-0 truncate text-slate-600">{item.label}</span>
+              <span className="h-1.5 w-24 shrink-0 rounded-full bg-slate-100 overflow-hidden">
+                <span className="block h-full rounded-full bg-emerald-500" style={{ width: `${item.pct ?? 0}%` }} />
+              </span>
+              <span className={cn("w-9 shrink-0 text-right tabular-nums", pctText(item.pct))}>
+                {item.pct === null ? "—" : `${item.pct}%`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Scored types: avg score + representative wrong answers */}
+      {q.avgScore !== undefined && (
         <div className="mt-2.5 text-xs">
           <div className="flex items-center gap-2 text-slate-500">
-            <span className="inline-flex items-center gap-1">
-              <Sparkles className="h-3 w-3" /> AI-judged
-            </span>
-            {q.avgScore !== null && q.avgScore !== undefined && <span>· avg score {q.avgScore}/100</span>}
+            {q.type === "short_answer" ? (
+              <span className="inline-flex items-center gap-1">
+                <Sparkles className="h-3 w-3" /> AI-judged
+              </span>
+            ) : (
+              <span>Partial credit</span>
+            )}
+            {q.avgScore !== null && <span>· avg score {q.avgScore}/100</span>}
           </div>
           {q.sampleWrong && q.sampleWrong.length > 0 && (
             <div className="mt-2 space-y-1">
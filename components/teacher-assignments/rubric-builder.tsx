@@ -0,0 +1,305 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import { FileUp, Loader2, Plus, Save, X } from "lucide-react"
+import {
+  RUBRIC_CSV_HEADER,
+  parseRubricCsv,
+  rubricTotalPoints,
+  validateRubric,
+  type Rubric,
+  type RubricCriterion,
+} from "@/lib/grading/rubric"
+
+interface Props {
+  // null: no rubric, graded per question against the mark scheme
+  value: Rubric | null
+  onChange: (rubric: Rubric | null) => void
+}
+
+interface ReusableRubric {
+  id: string
+  name: string
+  rubric: Rubric
+  source: "saved" | "assignment"
+}
+
+function blankCriterion(): RubricCriterion {
+  return {
+    name: "",
+    description: "",
+    levels: [
+      { label: "Exemplary", points: 4, descriptor: "" },
+      { label: "Proficient", points: 3, descriptor: "" },
+      { label: "Developing", points: 2, descriptor: "" },
+      { label: "Beginning", points: 1, descriptor: "" },
+    ],
+  }
+}
+
+export default function RubricBuilder({ value, onChange }: Props) {
+  const { toast } = useToast()
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [reusable, setReusable] = useState<ReusableRubric[]>([])
+  const [saveName, setSaveName] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch("/api/rubrics")
+      .then(r => r.ok ? r.json() : null)
+      .then(j => { if (!cancelled && Array.isArray(j?.rubrics)) setReusable(j.rubrics) })
+      .catch(() => {})
+    return () => { cancelled = true }
+  }, [])
+
+  const updateCriterion = (index: number, patch: Partial<RubricCriterion>) => {
+    if (!value) return
+    onChange({ criteria: value.criteria.map((c, i) => (i === index ? { ...c, ...patch } : c)) })
+  }
+
+  const updateLevel = (ci: number, li: number, patch: { label?: string; points?: number; descriptor?: string }) => {
+    if (!value) return
+    updateCriterion(ci, { levels: value.criteria[ci].levels.map((l, i) => (i === li ? { ...l, ...patch } : l)) })
+  }
+
+  const importCsv = async (file: File) => {
+    const result = parseRubricCsv(await file.text())
+    if (!result.ok) {
+      toast({ title: "Couldn't import rubric", description: result.error, variant: "destructive" })
+      return
+    }
+    onChange(result.rubric)
+    toast({ title: `Imported ${result.rubric.criteria.length} criteria` })
+  }
+
+  const saveToLibrary = async () => {
+    if (!value) return
+    const name = saveName.trim()
+    if (!name) {
+      toast({ title: "Name the rubric to save it", variant: "destructive" })
+      return
+    }
+    const checked = validateRubric(value)
+    if (!checked.ok) {
+      toast({ title: "Rubric isn't complete", description: checked.error, variant: "destructive" })
+      return
+    }
+    setSaving(true)
+    try {
+      const res = await fetch("/api/rubrics", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, rubric: checked.rubric }),
+      })
+      const json = await res.json()
+      if (!res.ok) {
+        toast({ title: json.error ?? "Failed to save rubric", variant: "destructive" })
+        return
+      }
+      setReusable(r => [json.rubric, ...r])
+      setSaveName("")
+      toast({ title: "Saved to your rubrics" })
+    } catch (err) {
+      console.error(err)
+      toast({ title: "Network error", variant: "destructive" })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const checked = value ? validateRubric(value) : null
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 flex-wrap">
+        {!value && (
+          <Button type="button" variant="outline" size="sm" onClick={() => onChange({ criteria: [blankCriterion()] })}>
+            <Plus className="h-4 w-4 mr-2" />
+            Build rubric
+          </Button>
+        )}
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            if (file) importCsv(file)
+            e.target.value = ""
+          }}
+        />
+        <Button type="button" variant="outline" size="sm" onClick={() => fileRef.current?.click()}>
+          <FileUp className="h-4 w-4 mr-2" />
+          Import CSV
+        </Button>
+        {reusable.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(key) => {
+              const picked = reusable.find(r => `${r.source}:${r.id}` === key)
+              if (picked) onChange(picked.rubric)
+            }}
+          >
+            <SelectTrigger className="h-9 w-56">
+              <SelectValue placeholder="Reuse a rubric…" />
+            </SelectTrigger>
+            <SelectContent>
+              {reusable.map(r => (
+                <SelectItem key={`${r.source}:${r.id}`} value={`${r.source}:${r.id}`}>
+                  {r.source === "assignment" ? `From: ${r.name}` : r.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {value && (
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)} className="text-muted-foreground">
+            <X className="h-4 w-4 mr-1" />
+            Remove rubric
+          </Button>
+        )}
+      </div>
+
+      {!value && (
+        <p className="text-xs text-muted-foreground">
+          CSV columns: {RUBRIC_CSV_HEADER.join(", ")} — one row per performance level.
+        </p>
+      )}
+
+      {value && (
+        <div className="space-y-3">
+          {value.criteria.map((c, ci) => (
+            <div key={ci} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-start gap-2">
+                <div className="flex-1 space-y-2">
+                  <Input
+                    value={c.name}
+                    onChange={(e) => updateCriterion(ci, { name: e.target.value })}
+                    placeholder="Criterion (e.g. Thesis)"
+                    maxLength={120}
+                  />
+                  <Input
+                    value={c.description}
+                    onChange={(e) => updateCriterion(ci, { description: e.target.value })}
+                    placeholder="What this criterion assesses (optional)"
+                  />
+                </div>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-9 w-9 shrink-0"
+                  onClick={() => {
+                    const criteria = value.criteria.filter((_, i) => i !== ci)
+                    onChange(criteria.length > 0 ? { criteria } : null)
+                  }}
+                  aria-label="Remove criterion"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${c.levels.length}, minmax(0, 1fr)) auto` }}>
+                {c.levels.map((l, li) => (
+                  <div key={li} className="space-y-1 bg-muted/30 rounded-md p-2">
+                    <div className="flex items-center gap-1">
+                      <Input
+                        value={l.label}
+                        onChange={(e) => updateLevel(ci, li, { label: e.target.value })}
+                        placeholder="Level"
+                        className="h-8 text-xs"
+                        maxLength={40}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => updateCriterion(ci, { levels: c.levels.filter((_, i) => i !== li) })}
+                        className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                        disabled={c.levels.length <= 2}
+                        aria-label="Remove level"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      value={Number.isFinite(l.points) ? l.points : ""}
+                      onChange={(e) => updateLevel(ci, li, { points: e.target.value === "" ? NaN : Number(e.target.value) })}
+                      className="h-8 text-xs"
+                      aria-label="Points"
+                    />
+                    <Textarea
+                      value={l.descriptor}
+                      onChange={(e) => updateLevel(ci, li, { descriptor: e.target.value })}
+                      placeholder="Descriptor"
+                      rows={3}
+                      className="text-xs"
+                    />
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 self-start"
+                  onClick={() => updateCriterion(ci, { levels: [...c.levels, { label: "", points: 0, descriptor: "" }] })}
+                  disabled={c.levels.length >= 8}
+                  aria-label="Add level"
+                >
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between gap-2 flex-wrap">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => onChange({ criteria: [...value.criteria, blankCriterion()] })}
+              disabled={value.criteria.length >= 30}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Add criterion
+            </Button>
+            <div className="flex items-center gap-2">
+              <Input
+                value={saveName}
+                onChange={(e) => setSaveName(e.target.value)}
+                placeholder="Name to save as"
+                className="h-9 w-44"
+                maxLength={120}
+              />
+              <Button type="button" variant="outline" size="sm" onClick={saveToLibrary} disabled={saving}>
+                {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save for reuse
+              </Button>
+            </div>
+          </div>
+
+          {checked && !checked.ok ? (
+            <p className="text-xs text-destructive">{checked.error}</p>
+          ) : checked?.ok ? (
+            <p className="text-xs text-muted-foreground">
+              Out of {rubricTotalPoints(checked.rubric)} points. The AI picks one level per criterion.
+            </p>
+          ) : null}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -11,10 +11,11 @@ import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { cn } from "@/lib/utils"
 import { CheckCircle2, XCircle, Clock, Sparkles } from "lucide-react"
+import type { QuestionType } from "@/lib/types/question-bank"
 
 interface StudentResponse {
   concept_name: string
-  type: "multiple_choice" | "true_false" | "short_answer"
+  type: QuestionType
   question_text: string
   their_answer: string
   correct_answer: string
@@ -148,6 +149,12 @@ export default function StudentAttemptDialog({ assignmentId, attemptId, onClose
                             {r.ai_feedback && <p className="mt-1 text-slate-600">{r.ai_feedback}</p>}
                           </div>
                         )}
+                        {r.type !== "short_answer" && r.score !== null && !r.is_correct && (
+                          <div className="mt-1.5 text-xs text-slate-500">
+                            <span>Partial credit · {r.score}/100</span>
+                            {r.ai_feedback && <p className="mt-1 text-slate-600">{r.ai_feedback}</p>}
+                          </div>
+                        )}
                       </div>
                     </div>
                   </div>
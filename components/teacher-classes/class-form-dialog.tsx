@@ -14,11 +14,14 @@ import {
 } from "@/components/ui/dialog"
 import { Loader2 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import GradeSchemePicker from "@/components/grade-scheme-picker"
+import type { GradeScheme } from "@/lib/grading/grade-schemes"
 
 export interface ClassFormValues {
   name: string
   period: string | null
   subject: string | null
+  grade_scheme: GradeScheme | null
 }
 
 interface Props {
@@ -27,10 +30,10 @@ interface Props {
   mode: "create" | "edit"
   initialValues?: ClassFormValues
   classId?: string
-  onSaved: (cls: { id: string; name: string; period: string | null; subject: string | null; enrollment_code?: string }) => void
+  onSaved: (cls: { id: string; name: string; period: string | null; subject: string | null; grade_scheme?: GradeScheme | null; enrollment_code?: string }) => void
 }
 
-const EMPTY: ClassFormValues = { name: "", period: null, subject: null }
+const EMPTY: ClassFormValues = { name: "", period: null, subject: null, grade_scheme: null }
 
 export default function ClassFormDialog({ open, onOpenChange, mode, initialValues, classId, onSaved }: Props) {
   const { toast } = useToast()
@@ -59,6 +62,7 @@ export default function ClassFormDialog({ open, onOpenChange, mode, initialValue
           name,
           period: values.period?.trim() || null,
           subject: values.subject?.trim() || null,
+          grade_scheme: values.grade_scheme,
         }),
       })
       const json = await res.json()
@@ -66,7 +70,11 @@ export default function ClassFormDialog({ open, onOpenChange, mode, initialValue
         toast({ title: json.error ?? "Something went wrong", variant: "destructive" })
         return
       }
-      toast({ title: mode === "create" ? "Class created" : "Class updated" })
+      if (json.warning) {
+        toast({ title: "Class updated", description: json.warning, variant: "destructive" })
+      } else {
+        toast({ title: mode === "create" ? "Class created" : "Class updated" })
+      }
       onSaved(json.class)
       onOpenChange(false)
     } catch (err) {
@@ -85,7 +93,7 @@ export default function ClassFormDialog({ open, onOpenChange, mode, initialValue
           <DialogDescription>
             {mode === "create"
               ? "Students will join with the enrollment code generated automatically."
-              : "Update the class name, period, or subject."}
+              : "Update the class name, period, subject, or grading scale. Changing the scale re-grades existing results."}
           </DialogDescription>
         </DialogHeader>
 
@@ -123,6 +131,15 @@ export default function ClassFormDialog({ open, onOpenChange, mode, initialValue
               />
             </div>
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="class-grade-scheme">Grading scale</Label>
+            <GradeSchemePicker
+              id="class-grade-scheme"
+              value={values.grade_scheme}
+              onChange={(grade_scheme) => setValues({ ...values, grade_scheme })}
+              fallbackLabel="US letter (A–F)"
+            />
+          </div>
         </div>
 
         <DialogFooter>
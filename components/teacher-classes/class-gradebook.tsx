@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useToast } from "@/hooks/use-toast"
 import { Download, ArrowUp, ArrowDown, ArrowUpDown, ExternalLink } from "lucide-react"
+import { DUPLICATE_POLICIES, type DuplicatePolicy } from "@/lib/types/practice-test"
 
 interface GradebookStudent {
   id: string
@@ -35,10 +36,31 @@ interface GradebookSubmission {
   percentage: number | null
 }
 
+// Class-linked practice test; its one counted score per student comes from
+// the test's duplicate policy
+interface GradebookPracticeTest {
+  id: string
+  title: string
+  duplicate_policy: DuplicatePolicy
+}
+
+interface GradebookPracticeTestScore {
+  practice_test_id: string
+  student_id: string
+  submission_id: string
+  score: number
+  possible: number
+  percentage: number | null
+  submitted_at: string
+  attempts: number
+}
+
 interface GradebookData {
   students: GradebookStudent[]
   assignments: GradebookAssignment[]
   submissions: GradebookSubmission[]
+  practiceTests: GradebookPracticeTest[]
+  practiceTestScores: GradebookPracticeTestScore[]
 }
 
 type SortDir = "asc" | "desc"
@@ -47,10 +69,12 @@ type SortKey =
   | { kind: "overall" }
   | { kind: "missing" }
   | { kind: "assignment"; assignmentId: string }
+  | { kind: "practice_test"; testId: string }
 
 function sortKeyEquals(a: SortKey, b: SortKey): boolean {
   if (a.kind !== b.kind) return false
   if (a.kind === "assignment" && b.kind === "assignment") return a.assignmentId === b.assignmentId
+  if (a.kind === "practice_test" && b.kind === "practice_test") return a.testId === b.testId
   return true
 }
 
@@ -120,6 +144,7 @@ function csvEscape(value: string): string {
 interface GradebookRow {
   student: GradebookStudent
   cells: Map<string, CellState>
+  practiceScores: Map<string, GradebookPracticeTestScore>
   overallPercent: number | null
   missingCount: number
 }
@@ -141,7 +166,13 @@ export default function ClassGradebook({ classId, className }: { classId: string
         toast({ title: json.error ?? "Failed to load gradebook", variant: "destructive" })
         return
       }
-      setData({ students: json.students ?? [], assignments: json.assignments ?? [], submissions: json.submissions ?? [] })
+      setData({
+        students: json.students ?? [],
+        assignments: json.assignments ?? [],
+        submissions: json.submissions ?? [],
+        practiceTests: json.practice_tests ?? [],
+        practiceTestScores: json.practice_test_scores ?? [],
+      })
     } catch (err) {
       console.error(err)
       toast({ title: "Network error", variant: "destructive" })
@@ -158,6 +189,8 @@ export default function ClassGradebook({ classId, className }: { classId: string
     const subKey = (s: string, a: string) => `${s}::${a}`
     const subIndex = new Map<string, GradebookSubmission>()
     for (const s of data.submissions) subIndex.set(subKey(s.student_id, s.assignment_id), s)
+    const practiceIndex = new Map<string, GradebookPracticeTestScore>()
+    for (const p of data.practiceTestScores) practiceIndex.set(subKey(p.student_id, p.practice_test_id), p)
 
     return data.students.map(student => {
       const cells = new Map<string, CellState>()
@@ -174,8 +207,17 @@ export default function ClassGradebook({ classId, className }: { classId: string
         }
         if (cell.kind === "missing") missing += 1
       }
+      // Practice tests have no due date, so a student without one isn't "missing"
+      const practiceScores = new Map<string, GradebookPracticeTestScore>()
+      for (const t of data.practiceTests) {
+        const p = practiceIndex.get(subKey(student.id, t.id))
+        if (!p) continue
+        practiceScores.set(t.id, p)
+        scoreSum += p.score
+        possibleSum += p.possible
+      }
       const overall = possibleSum > 0 ? (scoreSum / possibleSum) * 100 : null
-      return { student, cells, overallPercent: overall, missingCount: missing }
+      return { student, cells, practiceScores, overallPercent: overall, missingCount: missing }
     })
   }, [data, now])
 
@@ -203,6 +245,13 @@ export default function ClassGradebook({ classId, className }: { classId: string
           ? a.missingCount - b.missingCount
           : b.missingCount - a.missingCount
       }
+      if (sortKey.kind === "practice_test") {
+        return numericCmp(
+          a.practiceScores.get(sortKey.testId)?.percentage ?? null,
+          b.practiceScores.get(sortKey.testId)?.percentage ?? null,
+          sortDir
+        )
+      }
       // assignment column
       const av = cellSortValue(a.cells.get(sortKey.assignmentId)!)
       const bv = cellSortValue(b.cells.get(sortKey.assignmentId)!)
@@ -234,6 +283,7 @@ export default function ClassGradebook({ classId, className }: { classId: string
         const total = a.total_possible_marks != null ? ` /${a.total_possible_marks}` : ""
         return `${a.title}${total}${due}`
       }),
+      ...data.practiceTests.map(t => `${t.title} (Practice test)`),
     ]
     const lines = [header.map(csvEscape).join(",")]
     for (const row of sortedRows) {
@@ -259,6 +309,13 @@ export default function ClassGradebook({ classId, className }: { classId: string
           case "not_due": return "--"
         }
       })
+      const practiceCells = data.practiceTests.map(t => {
+        const p = row.practiceScores.get(t.id)
+        if (!p) return "--"
+        return p.percentage != null
+          ? `${p.score}/${p.possible} (${p.percentage.toFixed(0)}%)`
+          : `${p.score}/${p.possible}`
+      })
       lines.push([
         row.student.last_name ?? "",
         row.student.first_name ?? "",
@@ -266,6 +323,7 @@ export default function ClassGradebook({ classId, className }: { classId: string
         overall,
         row.missingCount.toString(),
         ...cells,
+        ...practiceCells,
       ].map(v => csvEscape(String(v))).join(","))
     }
     const csv = lines.join("\n")
@@ -302,11 +360,11 @@ export default function ClassGradebook({ classId, className }: { classId: string
     )
   }
 
-  if (data.assignments.length === 0) {
+  if (data.assignments.length === 0 && data.practiceTests.length === 0) {
     return (
       <Card>
         <CardContent className="p-10 text-center text-muted-foreground">
-          No published assignments yet. The gradebook will populate once you post one from the Overview tab.
+          No published assignments or class-linked practice tests yet. The gradebook will populate once you post one from the Overview tab.
         </CardContent>
       </Card>
     )
@@ -384,6 +442,31 @@ export default function ClassGradebook({ classId, className }: { classId: string
                     </div>
                   </th>
                 ))}
+                {data.practiceTests.map(t => (
+                  <th key={t.id} className="text-center font-medium px-3 py-2 min-w-[120px]">
+                    <div className="flex flex-col items-center gap-0.5">
+                      <button
+                        type="button"
+                        onClick={() => toggleSort({ kind: "practice_test", testId: t.id })}
+                        className="inline-flex items-center gap-1 hover:text-foreground max-w-[160px]"
+                        title={t.title}
+                      >
+                        <span className="truncate">{t.title}</span>
+                        {sortIndicator({ kind: "practice_test", testId: t.id })}
+                      </button>
+                      <div className="flex items-center gap-1 text-[10px] font-normal text-muted-foreground">
+                        <span>Practice test · {DUPLICATE_POLICIES[t.duplicate_policy] ?? t.duplicate_policy}</span>
+                        <Link
+                          href={`/teacher/practice-tests/${t.id}`}
+                          className="ml-0.5 hover:text-foreground"
+                          aria-label={`Open ${t.title}`}
+                        >
+                          <ExternalLink className="h-2.5 w-2.5" />
+                        </Link>
+                      </div>
+                    </div>
+                  </th>
+                ))}
               </tr>
             </thead>
             <tbody>
@@ -411,6 +494,11 @@ export default function ClassGradebook({ classId, className }: { classId: string
                       <GradebookCell cell={row.cells.get(a.id)!} assignmentId={a.id} />
                     </td>
                   ))}
+                  {data.practiceTests.map(t => (
+                    <td key={t.id} className="px-3 py-2 text-center">
+                      <PracticeTestCell score={row.practiceScores.get(t.id) ?? null} testId={t.id} />
+                    </td>
+                  ))}
                 </tr>
               ))}
             </tbody>
@@ -473,3 +561,21 @@ function GradebookCell({ cell, assignmentId }: { cell: CellState; assignmentId:
     </Link>
   )
 }
+
+function PracticeTestCell({ score, testId }: { score: GradebookPracticeTestScore | null; testId: string }) {
+  if (!score) {
+    return <span className="text-muted-foreground">—</span>
+  }
+  return (
+    <Link
+      href={`/teacher/practice-tests/${testId}`}
+      className="inline-flex flex-col items-center leading-tight tabular-nums hover:underline"
+      title={score.attempts > 1 ? `${score.attempts} attempts` : undefined}
+    >
+      <span>{score.score}/{score.possible}</span>
+      {score.percentage != null && (
+        <span className="text-[10px] text-muted-foreground">{score.percentage.toFixed(0)}%</span>
+      )}
+    </Link>
+  )
+}
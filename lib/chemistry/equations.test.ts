@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import {
+  balanceCoefficients,
+  checkBalance,
+  formatEquation,
+  parseEquation,
+  withCoefficients,
+  type ChemicalEquation,
+} from './equations'
+
+function parsed(text: string): ChemicalEquation {
+  const result = parseEquation(text)
+  if (!result.ok) throw new Error(result.error)
+  return result.equation
+}
+
+describe('parseEquation', () => {
+  it('reads coefficients, groups, hydrates, charges and states', () => {
+    const equation = parsed('3Ca^2+(aq) + 2PO4^3-(aq) -> Ca3(PO4)2(s)')
+    expect(equation.reactants.map(s => [s.coefficient, s.atoms, s.charge])).toEqual([
+      [3, { Ca: 1 }, 2],
+      [2, { P: 1, O: 4 }, -3],
+    ])
+    expect(equation.products[0]).toMatchObject({ formula: 'Ca3(PO4)2(s)', atoms: { Ca: 3, P: 2, O: 8 }, charge: 0 })
+    expect(parsed('CuSO4*5H2O -> CuSO4 + 5H2O').reactants[0].atoms).toEqual({ Cu: 1, S: 1, O: 9, H: 10 })
+  })
+
+  it('tells a charge from the plus between species', () => {
+    const equation = parsed('Na+ + Cl- -> NaCl')
+    expect(equation.reactants.map(s => [s.formula, s.charge])).toEqual([['Na+', 1], ['Cl-', -1]])
+  })
+
+  it('explains what it could not read', () => {
+    expect(parseEquation('H2 + O2')).toEqual({ ok: false, error: 'Add an arrow between the reactants and products, e.g. "->"' })
+    expect(parseEquation('Xq2 -> X')).toMatchObject({ ok: false, error: '"Xq" is not an element' })
+    expect(parseEquation('Ca(OH2 -> CaO + H2O')).toMatchObject({ ok: false, error: 'Missing ")" in Ca(OH2' })
+  })
+})
+
+describe('checkBalance', () => {
+  it('counts each element on both sides', () => {
+    expect(checkBalance(parsed('H2 + O2 -> H2O'))).toEqual({
+      balanced: false,
+      elements: [{ element: 'H', left: 2, right: 2 }, { element: 'O', left: 2, right: 1 }],
+      charge: { left: 0, right: 0 },
+    })
+    expect(checkBalance(parsed('2H2 + O2 -> 2H2O')).balanced).toBe(true)
+  })
+
+  it('needs the charge to balance too', () => {
+    expect(checkBalance(parsed('Fe^3+ + e- -> Fe')).balanced).toBe(false)
+    expect(checkBalance(parsed('Fe^3+ + 3e- -> Fe')).balanced).toBe(true)
+  })
+
+  it('accepts fractional coefficients', () => {
+    expect(checkBalance(parsed('H2 + 1/2O2 -> H2O')).balanced).toBe(true)
+  })
+})
+
+describe('balanceCoefficients', () => {
+  it('finds the smallest whole-number coefficients', () => {
+    const equation = parsed('C3H8 + O2 -> CO2 + H2O')
+    const coefficients = balanceCoefficients(equation)
+    expect(coefficients).toEqual([1, 5, 3, 4])
+    expect(formatEquation(withCoefficients(equation, coefficients!))).toBe('C3H8 + 5O2 -> 3CO2 + 4H2O')
+  })
+
+  it('balances ionic equations by charge as well', () => {
+    expect(balanceCoefficients(parsed('Fe^3+ + Cu -> Fe^2+ + Cu^2+'))).toEqual([2, 1, 2, 1])
+  })
+
+  it('gives up when there is no single answer', () => {
+    expect(balanceCoefficients(parsed('H2O -> NaCl'))).toBeNull()
+    expect(balanceCoefficients(parsed('H2 + O2 -> H2O + H2O2'))).toBeNull()
+  })
+})
@@ -0,0 +1,238 @@
+// Chemical equations as teachers type them into the equation block, in the
+// mhchem syntax KaTeX renders: "2H2 + O2 -> 2H2O", "Fe^3+ + 3OH- -> Fe(OH)3(s)",
+// "CuSO4*5H2O -> CuSO4 + 5H2O". Species are separated by a plus with spaces
+// around it, so a charge ("Na+", "SO4^2-") is never mistaken for one.
+// Pure functions; the editor checks as the teacher types and the viewer checks
+// students' coefficients in practice mode.
+
+/** One reactant or product: its coefficient and the atoms in one formula unit. */
+export interface Species {
+  coefficient: number
+  // As written, without the coefficient, e.g. "Fe(OH)3(s)"
+  formula: string
+  atoms: Record<string, number>
+  charge: number
+}
+
+export interface ChemicalEquation {
+  reactants: Species[]
+  products: Species[]
+  // As written, e.g. "->" or "<=>"; conditions like "->[\Delta]" are kept
+  arrow: string
+}
+
+export type ParseEquationResult =
+  | { ok: true; equation: ChemicalEquation }
+  | { ok: false; error: string }
+
+export interface ElementBalance {
+  element: string
+  left: number
+  right: number
+}
+
+export interface BalanceCheck {
+  balanced: boolean
+  // In order of first appearance
+  elements: ElementBalance[]
+  charge: { left: number; right: number }
+}
+
+const ELEMENTS = new Set(
+  ('H He Li Be B C N O F Ne Na Mg Al Si P S Cl Ar K Ca Sc Ti V Cr Mn Fe Co Ni Cu Zn Ga Ge As Se Br Kr ' +
+    'Rb Sr Y Zr Nb Mo Tc Ru Rh Pd Ag Cd In Sn Sb Te I Xe Cs Ba La Ce Pr Nd Pm Sm Eu Gd Tb Dy Ho Er Tm Yb Lu ' +
+    'Hf Ta W Re Os Ir Pt Au Hg Tl Pb Bi Po At Rn Fr Ra Ac Th Pa U Np Pu Am Cm Bk Cf Es Fm Md No Lr ' +
+    'Rf Db Sg Bh Hs Mt Ds Rg Cn Nh Fl Mc Lv Ts Og D T').split(' ')
+)
+
+const ARROW = /\s*(<=>|<->|->|→|⟶|⇌|=)(\[[^\]]*\]){0,2}\s*/
+const STATE = /\((s|l|g|aq)\)$/
+const CHARGE = /\^\{?(\d*)([+-])\}?$/
+const EPSILON = 1e-9
+
+class FormulaError extends Error {}
+
+// Atoms in a formula without charge or state, e.g. "Ca3(PO4)2" or "CuSO4*5H2O"
+function countAtoms(formula: string): Record<string, number> {
+  const atoms: Record<string, number> = {}
+  for (const part of formula.split(/[*·.]/)) {
+    const match = /^(\d*)(.+)$/.exec(part)
+    if (!match) throw new FormulaError(`"${formula}" is not a formula`)
+    const multiplier = match[1] ? Number(match[1]) : 1
+    for (const [element, count] of Object.entries(parseGroup(match[2], formula))) {
+      atoms[element] = (atoms[element] ?? 0) + count * multiplier
+    }
+  }
+  return atoms
+}
+
+function parseGroup(text: string, formula: string): Record<string, number> {
+  const stack: Array<Record<string, number>> = [{}]
+  const closers: string[] = []
+  let i = 0
+  const readCount = () => {
+    const digits = /^\d+/.exec(text.slice(i))?.[0] ?? ''
+    i += digits.length
+    return digits ? Number(digits) : 1
+  }
+  const add = (into: Record<string, number>, element: string, count: number) => {
+    into[element] = (into[element] ?? 0) + count
+  }
+
+  while (i < text.length) {
+    const ch = text[i]
+    if (ch === '(' || ch === '[') {
+      stack.push({})
+      closers.push(ch === '(' ? ')' : ']')
+      i++
+    } else if (ch === ')' || ch === ']') {
+      if (closers.pop() !== ch) throw new FormulaError(`Unmatched "${ch}" in ${formula}`)
+      i++
+      const group = stack.pop()!
+      const count = readCount()
+      for (const [element, n] of Object.entries(group)) add(stack[stack.length - 1], element, n * count)
+    } else if (/[A-Z]/.test(ch)) {
+      const element = /^[A-Z][a-z]?/.exec(text.slice(i))![0]
+      // "Co" is cobalt, but "Cx" should read as C then an error on "x", not as an unknown element
+      const symbol = ELEMENTS.has(element) ? element : ch
+      if (!ELEMENTS.has(symbol)) throw new FormulaError(`"${element}" is not an element`)
+      i += symbol.length
+      add(stack[stack.length - 1], symbol, readCount())
+    } else {
+      throw new FormulaError(`Unexpected "${ch}" in ${formula}`)
+    }
+  }
+  if (closers.length > 0) throw new FormulaError(`Missing "${closers[closers.length - 1]}" in ${formula}`)
+  return stack[0]
+}
+
+function parseSpecies(term: string): Species {
+  const match = /^(\d+(?:\/\d+)?)?\s*(.+)$/.exec(term.trim())
+  if (!match) throw new FormulaError('Empty term')
+  const [num, den] = (match[1] ?? '1').split('/').map(Number)
+  const formula = match[2].trim()
+
+  let core = formula.replace(STATE, '')
+  let charge = 0
+  const charged = CHARGE.exec(core)
+  if (charged) {
+    charge = (charged[1] ? Number(charged[1]) : 1) * (charged[2] === '+' ? 1 : -1)
+    core = core.slice(0, charged.index)
+  } else if (/[+-]$/.test(core)) {
+    charge = core.endsWith('+') ? 1 : -1
+    core = core.slice(0, -1)
+  }
+
+  if (core === 'e') return { coefficient: num / (den || 1), formula, atoms: {}, charge: charge || -1 }
+  if (!core) throw new FormulaError(`"${term.trim()}" has no formula`)
+  return { coefficient: num / (den || 1), formula, atoms: countAtoms(core), charge }
+}
+
+export function parseEquation(text: string): ParseEquationResult {
+  const arrow = ARROW.exec(text)
+  if (!arrow) return { ok: false, error: 'Add an arrow between the reactants and products, e.g. "->"' }
+  const left = text.slice(0, arrow.index)
+  const right = text.slice(arrow.index + arrow[0].length)
+  if (ARROW.test(right)) return { ok: false, error: 'Use a single arrow' }
+  if (!left.trim() || !right.trim()) return { ok: false, error: 'Both sides of the arrow need at least one species' }
+
+  try {
+    const side = (s: string) => s.trim().split(/\s+\+\s+/).map(parseSpecies)
+    return {
+      ok: true,
+      equation: { reactants: side(left), products: side(right), arrow: arrow[0].trim() },
+    }
+  } catch (error) {
+    if (error instanceof FormulaError) return { ok: false, error: error.message }
+    throw error
+  }
+}
+
+/** Whether each element, and the charge, comes out the same on both sides. */
+export function checkBalance(equation: ChemicalEquation): BalanceCheck {
+  const totals = new Map<string, ElementBalance>()
+  const tally = (species: Species[], side: 'left' | 'right') => {
+    for (const s of species) {
+      for (const [element, count] of Object.entries(s.atoms)) {
+        const entry = totals.get(element) ?? { element, left: 0, right: 0 }
+        entry[side] += count * s.coefficient
+        totals.set(element, entry)
+      }
+    }
+    return species.reduce((sum, s) => sum + s.charge * s.coefficient, 0)
+  }
+  const charge = { left: tally(equation.reactants, 'left'), right: tally(equation.products, 'right') }
+  const elements = [...totals.values()]
+  const balanced =
+    elements.every(e => Math.abs(e.left - e.right) < EPSILON) && Math.abs(charge.left - charge.right) < EPSILON
+  return { balanced, elements, charge }
+}
+
+/** The equation with new coefficients, reactants first then products. */
+export function withCoefficients(equation: ChemicalEquation, coefficients: number[]): ChemicalEquation {
+  const count = equation.reactants.length
+  const set = (species: Species[], offset: number) =>
+    species.map((s, i) => ({ ...s, coefficient: coefficients[offset + i] ?? s.coefficient }))
+  return { ...equation, reactants: set(equation.reactants, 0), products: set(equation.products, count) }
+}
+
+function gcd(a: number, b: number): number {
+  a = Math.abs(a)
+  b = Math.abs(b)
+  while (b) [a, b] = [b, a % b]
+  return a
+}
+
+/**
+ * The smallest whole-number coefficients that balance the equation, or null
+ * when there are none or more than one independent way to balance it (e.g.
+ * two reactions written as one).
+ */
+export function balanceCoefficients(equation: ChemicalEquation): number[] | null {
+  const species = [...equation.reactants, ...equation.products]
+  const sign = (i: number) => (i < equation.reactants.length ? 1 : -1)
+  const elements = [...new Set(species.flatMap(s => Object.keys(s.atoms)))]
+  const rows = elements.map(e => species.map((s, i) => (s.atoms[e] ?? 0) * sign(i)))
+  if (species.some(s => s.charge !== 0)) rows.push(species.map((s, i) => s.charge * sign(i)))
+
+  // Integer row reduction; each row is kept divided by its gcd so numbers stay small
+  const pivots: Array<{ row: number; col: number }> = []
+  for (let col = 0, r = 0; col < species.length && r < rows.length; col++) {
+    const p = rows.findIndex((row, i) => i >= r && row[col] !== 0)
+    if (p === -1) continue
+    const pivotRow = rows[p]
+    rows[p] = rows[r]
+    rows[r] = pivotRow
+    for (let i = 0; i < rows.length; i++) {
+      if (i === r || rows[i][col] === 0) continue
+      const factor = rows[i][col]
+      rows[i] = rows[i].map((v, j) => v * rows[r][col] - rows[r][j] * factor)
+      const divisor = rows[i].reduce(gcd, 0)
+      if (divisor > 1) rows[i] = rows[i].map(v => v / divisor)
+    }
+    pivots.push({ row: r, col })
+    r++
+  }
+  if (species.length - pivots.length !== 1) return null
+
+  const free = species.findIndex((_, col) => !pivots.some(p => p.col === col))
+  const scale = pivots.reduce((l, p) => {
+    const v = Math.abs(rows[p.row][p.col])
+    return (l * v) / gcd(l, v)
+  }, 1)
+  const solution = species.map(() => 0)
+  solution[free] = scale
+  for (const { row, col } of pivots) solution[col] = (-rows[row][free] * scale) / rows[row][col]
+
+  const divisor = solution.reduce(gcd, 0)
+  const reduced = solution.map(v => v / divisor)
+  const positive = reduced[free] < 0 ? reduced.map(v => -v) : reduced
+  return positive.every(v => v > 0) ? positive : null
+}
+
+/** Written back out in the same syntax, e.g. for applying balanced coefficients. */
+export function formatEquation(equation: ChemicalEquation): string {
+  const side = (species: Species[]) =>
+    species.map(s => `${s.coefficient === 1 ? '' : s.coefficient}${s.formula}`).join(' + ')
+  return `${side(equation.reactants)} ${equation.arrow} ${side(equation.products)}`
+}
@@ -1,6 +1,20 @@
 import Anthropic from '@anthropic-ai/sdk'
 import { ClaudeApiRequest, ClaudeApiResponse, StudyGuideFormat } from '@/types'
 import { CustomGuideContent, CustomSection, GuideControls } from '@/lib/types/custom-guide'
+import {
+  GRADING_JSON_INSTRUCTIONS,
+  GradingOutput,
+  StructuredGradingResponse,
+  buildRepairPrompt,
+  parseGradingOutput,
+} from '@/lib/grading/structured-output'
+import { Rubric, rubricIssues, rubricPrompt } from '@/lib/grading/rubric'
+import { anchorPrompt, type GradingAnchor } from '@/lib/grading/calibration'
+import { exemplarHeading, exemplarIssues, exemplarPrompt, type GradingExemplar } from '@/lib/grading/exemplars'
+import { BatchSplitMode, PageReading, SCAN_READING_JSON_INSTRUCTIONS, parseScanReading } from '@/lib/grading/batch-split'
+
+// Round-trips allowed to fix grading output that fails validation
+const MAX_GRADING_REPAIRS = 2
 
 // Turn structured "specific control" directives into an instruction block the
 // custom-guide generator can honor. Returns '' when nothing is specified so the
@@ -322,11 +336,15 @@ Include: 1) Multiple choice questions (5-7 questions), 2) True/False questions (
     markSchemeImages?: Array<{ pageNumber: number; imageData: string; mimeType: string }>
     studentExamImages?: Array<{ pageNumber: number; imageData: string; mimeType: string }>
     markSchemeFile?: { buffer: Buffer; name: string; type: string }
+    markSchemeFiles?: Array<{ buffer: Buffer; name: string; type: string }> // Multiple mark scheme files support
     studentExamFile?: { buffer: Buffer; name: string; type: string }
     studentExamFiles?: Array<{ buffer: Buffer; name: string; type: string }> // Multiple files support
     additionalComments?: string
-  }): Promise<ClaudeApiResponse> {
-    const { markSchemeText, studentExamText, markSchemeFile, studentExamFile, studentExamFiles, additionalComments } = params
+    rubric?: Rubric // grade per criterion and level instead of per question
+    anchors?: GradingAnchor[] // teacher-moderated answers to mark consistently with
+    exemplars?: GradingExemplar[] // teacher-marked scripts, sent before the student's work
+  }): Promise<StructuredGradingResponse> {
+    const { markSchemeFile, markSchemeFiles, studentExamFile, studentExamFiles, additionalComments, rubric, anchors, exemplars = [] } = params
 
     // Helper to check if file is an image
     const isImageFile = (type: string, name: string) => {
@@ -358,6 +376,13 @@ Include: 1) Multiple choice questions (5-7 questions), 2) True/False questions (
       return 'image/jpeg'
     }
 
+    // Combine all mark scheme files (pages of a PDF converted to images arrive as several)
+    const allMarkSchemeFiles = markSchemeFiles && markSchemeFiles.length > 0
+      ? markSchemeFiles
+      : markSchemeFile
+        ? [markSchemeFile]
+        : []
+
     // Combine all student exam files
     const allStudentFiles = studentExamFiles && studentExamFiles.length > 0
       ? studentExamFiles
@@ -365,17 +390,17 @@ Include: 1) Multiple choice questions (5-7 questions), 2) True/False questions (
         ? [studentExamFile]
         : []
 
-    const hasMarkScheme = !!markSchemeFile
+    const hasMarkScheme = allMarkSchemeFiles.length > 0
     const hasMultipleFiles = allStudentFiles.length > 1
     const hasImages = allStudentFiles.some(f => isImageFile(f.type, f.name))
 
     // SIMPLE APPROACH: Send PDFs directly to Claude (like Claude Chat does)
     console.log('📤 Sending files directly to Claude API...')
-    console.log('Mark scheme file:', {
-      name: markSchemeFile?.name,
-      size: markSchemeFile?.buffer.length,
-      type: markSchemeFile?.type
-    })
+    console.log('Mark scheme files:', allMarkSchemeFiles.map(f => ({
+      name: f.name,
+      size: f.buffer.length,
+      type: f.type
+    })))
     console.log('Student exam files:', allStudentFiles.length, 'files')
     console.log('Has images:', hasImages)
 
@@ -405,263 +430,26 @@ CRITICAL GRADING PRINCIPLES:
       instructionText += `\n\n**IMPORTANT - Teacher's Instructions (follow these):**\n${additionalComments}\n\nApply these instructions when grading. They take priority over default grading strictness.`
     }
 
-    instructionText += `\n\n**RESPONSE FORMAT (follow exactly):**
-
-**STEP 1 - MARK SCHEME ANALYSIS (MANDATORY):**
-Before grading, you MUST first analyze the mark scheme. Check for:
-- **Choice/option sections**: Look for instructions like "Answer ONE question only", "EITHER...OR", "Choose ONE of the following". If the exam has choice sections, determine which question the student actually answered by examining their exam, and EXCLUDE the unchosen alternative(s).
-- **Past paper codes**: Ignore reference codes like "S24-13", "W20-11", "W23-12" next to questions — these are internal references, not question numbers.
-
-Then output this summary:
-[MARK SCHEME SUMMARY]
-List ONLY the questions the student is required to answer, in format: 1a(2), 1b(3), 2(5), 3a(4), 3b(6)...
-If a section has choice questions (e.g., Q5 OR Q6), list ONLY the one the student answered.
-Total: XX marks (this must match the exam's stated total, e.g., "The total mark for this paper is 40")
-[END SUMMARY]
-
-This summary defines EXACTLY which questions you will grade. Do not grade any question not in this summary.
-
-**STEP 2 - GRADE EACH QUESTION:**
-For EACH question in the mark scheme, use this EXACT format on its own line:
-**Question [number]**, Mark: X/Y - [specific feedback explaining WHY marks were lost and HOW to improve]
-
-FEEDBACK REQUIREMENTS (VERY IMPORTANT):
-- For PARTIAL marks: Explain SPECIFICALLY what the student got right AND what was missing/wrong
-- Reference the mark scheme criteria when explaining lost marks
-- Tell students WHAT they needed to include to earn full marks
-- NEVER use vague phrases like "Partial credit" or "lacks depth" without specifics
-- BAD: "Partial points awarded" or "Answer mentions X but lacks depth"
-- GOOD: "Correctly identified photosynthesis but missed that it requires chlorophyll. Needed to mention light-dependent reactions for full marks."
-- GOOD: "Got 2/3 marks for correct formula and method. Lost 1 mark for arithmetic error in final step (wrote 24 instead of 42)."
-
-QUESTION NAMING RULES (VERY IMPORTANT):
-- Use EXACTLY the question number/label as it appears in the mark scheme
-- If mark scheme says "1a" just use "1a", NOT "Question 1a" or "Section A Q1a"
-- If mark scheme says "1(a)(i)" use "1(a)(i)"
-- DO NOT duplicate questions - each question should appear ONLY ONCE
-- DO NOT add Section prefixes unless the mark scheme specifically uses them
-- IMPORTANT: If different sections have the same question numbers (e.g., Section A has "2a" AND Section C has "2a"), you MUST prefix with the section to distinguish them (e.g., "Section A 2a" and "Section C 2a")
-
-Examples of correct format:
-**Question 1**, Mark: 5/6 - Good understanding but missed one key point.
-**Question 1a**, Mark: 2/2 - Correct calculation.
-**Question 1b**, Mark: 3/5 - Partial credit for method.
-**Question 2(a)(i)**, Mark: 1/2 - Partial credit.
-**Question Section C 2a**, Mark: 6/8 - (use this format when sections have duplicate numbers)
-
-ILLEGIBLE HANDWRITING:
-- If you cannot read or understand a student's handwriting for a question, award 0 marks
-- Use explanation: "Answer could not be read/understood due to illegible handwriting"
-- Do NOT skip questions - always include them with 0 marks if illegible
-
-CRITICAL REQUIREMENTS:
-- **START WITH MARK SCHEME ANALYSIS**: Always begin with the Step 1 analysis (check for choice sections, past paper codes) then output [MARK SCHEME SUMMARY]. Start grading with Question 1 (or 1a if subdivided).
-- **ONLY GRADE QUESTIONS IN YOUR SUMMARY**: Grade every question listed in your mark scheme summary exactly ONCE. Do NOT grade questions you excluded (e.g., unchosen alternatives from choice sections).
-- NEVER stop early - grade through ALL sections including essay questions
-- Each question appears only ONCE in your response - no duplicates
-- Output questions in SEQUENTIAL ORDER: 1, 1a, 1b, 2, 2a, 2b, 3... etc.
-- If the student didn't attempt a required question, award 0 marks with explanation "Question not attempted"
-- Use the exact marks available from the mark scheme for the denominator (Y)
-- **GRADE ALL SUB-PARTS**: If questions have sub-parts like 2a, 2b, 2c, grade EVERY sub-part separately. Do NOT stop after grading just 2a.
-- **ESSAY/EXTENDED RESPONSE QUESTIONS ARE MANDATORY**: Grade all essay questions even if the student's response is poor or blank - award 0 marks with explanation.
-- **COMPLETE YOUR FULL RESPONSE**: Provide detailed feedback for ALL graded questions. Do not abbreviate or cut short.
-- **VERIFY YOUR TOTAL**: Your total possible marks (Y) must match the exam's stated total. If the exam says "Total: 40 marks", your Y values must sum to 40. If they don't, you likely included unchosen choice questions — go back and remove them.
-
-At the end, provide:
-**Total: X/Y** (where Y is the EXACT total marks possible from the mark scheme)
-**Percentage: Z%**
-**Grade: [Letter]** (use American scale: A=90%+, B=80-89%, C=70-79%, D=60-69%, F=below 60%)
-
-Brief feedback on strengths and areas for improvement.
-
-**IMPORTANT**: Start your response immediately with "[MARK SCHEME SUMMARY]" then list all questions, then begin grading with "**Question 1**" (or "**Question 1a**" if subdivided). Do not include any preamble before the mark scheme summary.
-
-${hasTeacherInstructions ? 'Follow the teacher\'s instructions above when determining marks.' : 'Grade fairly and consistently according to the mark scheme.'}`
-
-    content.push({
-      type: 'text',
-      text: instructionText
-    })
-
-    // Add mark scheme as document
-    if (markSchemeFile) {
-      content.push({
-        type: 'document',
-        source: {
-          type: 'base64',
-          media_type: 'application/pdf',
-          data: markSchemeFile.buffer.toString('base64')
-        }
-      })
+    if (rubric) {
+      instructionText += `\n\n${rubricPrompt(rubric)}`
     }
 
-    // Add all student exam files (documents or images)
-    for (let i = 0; i < allStudentFiles.length; i++) {
-      const file = allStudentFiles[i]
-
-      if (isImageFile(file.type, file.name)) {
-        // Add as image for Claude's vision API
-        const mimeType = getImageMimeType(file.type, file.name)
-        console.log(`📸 Adding image ${i + 1}: ${file.name} as ${mimeType}`)
-        content.push({
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: mimeType,
-            data: file.buffer.toString('base64')
-          }
-        })
-      } else {
-        // Add as document (PDF, DOCX)
-        console.log(`📄 Adding document ${i + 1}: ${file.name}`)
-        content.push({
-          type: 'document',
-          source: {
-            type: 'base64',
-            media_type: 'application/pdf',
-            data: file.buffer.toString('base64')
-          }
-        })
-      }
+    if (anchors && anchors.length > 0) {
+      instructionText += `\n\n${anchorPrompt(anchors)}`
     }
 
-    console.log('📤 Sending to Claude API with', content.length, 'content items')
-
-    const response = await this.anthropic.messages.create({
-      model: 'claude-sonnet-5',
-      max_tokens: 16384,
-      thinking: { type: 'disabled' },
-      messages: [
-        {
-          role: 'user',
-          content: content
-        }
-      ]
-    })
-
-    const responseContent = response.content[0]
-    if (responseContent.type !== 'text') {
-      throw new Error('Unexpected response type from Claude API')
-    }
-
-    return {
-      content: responseContent.text,
-      usage: {
-        input_tokens: response.usage.input_tokens,
-        output_tokens: response.usage.output_tokens
-      }
-    }
-  }
-
-  /**
-   * Streaming version of gradeExamWithImages
-   * Yields text chunks as they are generated
-   */
-  async *gradeExamWithImagesStream(params: {
-    markSchemeText: string
-    studentExamText: string
-    markSchemeImages?: Array<{ pageNumber: number; imageData: string; mimeType: string }>
-    studentExamImages?: Array<{ pageNumber: number; imageData: string; mimeType: string }>
-    markSchemeFile?: { buffer: Buffer; name: string; type: string }
-    markSchemeFiles?: Array<{ buffer: Buffer; name: string; type: string }> // Multiple mark scheme files support
-    studentExamFile?: { buffer: Buffer; name: string; type: string }
-    studentExamFiles?: Array<{ buffer: Buffer; name: string; type: string }>
-    additionalComments?: string
-  }): AsyncGenerator<string, { content: string; usage: any }, undefined> {
-    const { markSchemeFile, markSchemeFiles, studentExamFile, studentExamFiles, additionalComments } = params
-
-    // Helper to check if file is an image
-    const isImageFile = (type: string, name: string) => {
-      const imageTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif']
-      const extension = name.split('.').pop()?.toLowerCase()
-      const imageExtensions = ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif']
-      return imageTypes.includes(type) || (extension && imageExtensions.includes(extension))
+    if (exemplars.length > 0) {
+      instructionText += `\n\n${exemplarPrompt(exemplars)}`
     }
 
-    // Helper to get correct MIME type for images
-    const getImageMimeType = (type: string, name: string): string => {
-      const extension = name.split('.').pop()?.toLowerCase()
-      const mimeMap: Record<string, string> = {
-        'jpg': 'image/jpeg',
-        'jpeg': 'image/jpeg',
-        'png': 'image/png',
-        'webp': 'image/webp',
-        'heic': 'image/jpeg',
-        'heif': 'image/jpeg'
-      }
-      if (extension && mimeMap[extension]) {
-        return mimeMap[extension]
-      }
-      if (type.startsWith('image/')) {
-        return type === 'image/heic' || type === 'image/heif' ? 'image/jpeg' : type
-      }
-      return 'image/jpeg'
-    }
-
-    // Combine all mark scheme files
-    const allMarkSchemeFiles = markSchemeFiles && markSchemeFiles.length > 0
-      ? markSchemeFiles
-      : markSchemeFile
-        ? [markSchemeFile]
-        : []
-
-    // Combine all student exam files
-    const allStudentFiles = studentExamFiles && studentExamFiles.length > 0
-      ? studentExamFiles
-      : studentExamFile
-        ? [studentExamFile]
-        : []
-
-    const hasMarkScheme = allMarkSchemeFiles.length > 0
-    const hasMultipleFiles = allStudentFiles.length > 1
-    const hasTeacherInstructions = additionalComments && additionalComments.trim()
-
-    // Build content array
-    const content: any[] = []
-
-    let instructionText = `You are an expert exam grader. Grade this exam against the mark scheme with consistency and fairness.
-
-CRITICAL GRADING PRINCIPLES:
-1. **Be Consistent**: Apply the same standards to all similar responses
-2. **Follow the Mark Scheme**: Award marks based on the criteria provided
-3. **Partial Marks**: Award partial marks fairly based on the mark scheme breakdown
-4. **Clear Explanations**: Provide brief, constructive feedback for each question
-5. **GRADE EVERY QUESTION**: You MUST grade EVERY question and sub-question listed in the mark scheme. Do not skip any questions.
-6. **COMPLETE ALL SECTIONS**: Grade ALL sections (A, B, C, etc.) including essay/extended response sections. NEVER stop early.`
-
-    if (hasMultipleFiles) {
-      instructionText += `\n\n**NOTE**: This student's exam consists of ${allStudentFiles.length} pages/images. Please analyze ALL pages in order to grade the complete exam.`
-    }
-
-    instructionText += `\n\nI've attached the ${hasMarkScheme ? 'mark scheme and ' : ''}student exam.`
-
-    if (hasTeacherInstructions) {
-      instructionText += `\n\n**IMPORTANT - Teacher's Instructions (follow these):**\n${additionalComments}\n\nApply these instructions when grading. They take priority over default grading strictness.`
-    }
-
-    instructionText += `\n\n**RESPONSE FORMAT (follow exactly):**
-
-**STEP 1 - MARK SCHEME ANALYSIS (MANDATORY):**
-Before grading, you MUST first analyze the mark scheme. Check for:
+    instructionText += `\n\n**BEFORE GRADING — MARK SCHEME ANALYSIS (MANDATORY):**
 - **Choice/option sections**: Look for instructions like "Answer ONE question only", "EITHER...OR", "Choose ONE of the following". If the exam has choice sections, determine which question the student actually answered by examining their exam, and EXCLUDE the unchosen alternative(s).
 - **Past paper codes**: Ignore reference codes like "S24-13", "W20-11", "W23-12" next to questions — these are internal references, not question numbers.
-
-Then output this summary:
-[MARK SCHEME SUMMARY]
-List ONLY the questions the student is required to answer, in format: 1a(2), 1b(3), 2(5), 3a(4), 3b(6)...
-If a section has choice questions (e.g., Q5 OR Q6), list ONLY the one the student answered.
-Total: XX marks (this must match the exam's stated total, e.g., "The total mark for this paper is 40")
-[END SUMMARY]
-
-This summary defines EXACTLY which questions you will grade. Do not grade any question not in this summary.
-
-**STEP 2 - GRADE EACH QUESTION:**
-For EACH question in the mark scheme, use this EXACT format on its own line:
-**Question [number]**, Mark: X/Y - [specific feedback explaining WHY marks were lost and HOW to improve]
+- **Stated total**: Find the paper's total (e.g. "The total mark for this paper is 40"). Your marks_possible values must add up to it.
 
 FEEDBACK REQUIREMENTS (VERY IMPORTANT):
 - For PARTIAL marks: Explain SPECIFICALLY what the student got right AND what was missing/wrong
-- Reference the mark scheme criteria when explaining lost marks
+- Reference the mark scheme criteria when explaining lost marks (and list them in criteria_met / criteria_missed)
 - Tell students WHAT they needed to include to earn full marks
 - NEVER use vague phrases like "Partial credit" or "lacks depth" without specifics
 - BAD: "Partial points awarded" or "Answer mentions X but lacks depth"
@@ -669,46 +457,17 @@ FEEDBACK REQUIREMENTS (VERY IMPORTANT):
 - GOOD: "Got 2/3 marks for correct formula and method. Lost 1 mark for arithmetic error in final step (wrote 24 instead of 42)."
 
 QUESTION NAMING RULES (VERY IMPORTANT):
-- Use EXACTLY the question number/label as it appears in the mark scheme
-- If mark scheme says "1a" just use "1a", NOT "Question 1a" or "Section A Q1a"
-- If mark scheme says "1(a)(i)" use "1(a)(i)"
-- DO NOT duplicate questions - each question should appear ONLY ONCE
+- Use EXACTLY the question number/label as it appears in the mark scheme: "1a", "1(a)(i)" — not "Question 1a" or "Section A Q1a"
 - DO NOT add Section prefixes unless the mark scheme specifically uses them
 - IMPORTANT: If different sections have the same question numbers (e.g., Section A has "2a" AND Section C has "2a"), you MUST prefix with the section to distinguish them (e.g., "Section A 2a" and "Section C 2a")
 
-Examples of correct format:
-**Question 1**, Mark: 5/6 - Good understanding but missed one key point.
-**Question 1a**, Mark: 2/2 - Correct calculation.
-**Question 1b**, Mark: 3/5 - Partial credit for method.
-**Question 2(a)(i)**, Mark: 1/2 - Partial credit.
-**Question Section C 2a**, Mark: 6/8 - (use this format when sections have duplicate numbers)
-
-ILLEGIBLE HANDWRITING:
-- If you cannot read or understand a student's handwriting for a question, award 0 marks
-- Use explanation: "Answer could not be read/understood due to illegible handwriting"
-- Do NOT skip questions - always include them with 0 marks if illegible
-
 CRITICAL REQUIREMENTS:
-- **START WITH MARK SCHEME ANALYSIS**: Always begin with the Step 1 analysis (check for choice sections, past paper codes) then output [MARK SCHEME SUMMARY]. Start grading with Question 1 (or 1a if subdivided).
-- **ONLY GRADE QUESTIONS IN YOUR SUMMARY**: Grade every question listed in your mark scheme summary exactly ONCE. Do NOT grade questions you excluded (e.g., unchosen alternatives from choice sections).
 - NEVER stop early - grade through ALL sections including essay questions
-- Each question appears only ONCE in your response - no duplicates
-- Output questions in SEQUENTIAL ORDER: 1, 1a, 1b, 2, 2a, 2b, 3... etc.
-- If the student didn't attempt a required question, award 0 marks with explanation "Question not attempted"
-- Use the exact marks available from the mark scheme for the denominator (Y)
-- **GRADE ALL SUB-PARTS**: If questions have sub-parts like 2a, 2b, 2c, grade EVERY sub-part separately. Do NOT stop after grading just 2a.
+- **GRADE ALL SUB-PARTS**: If questions have sub-parts like 2a, 2b, 2c, grade EVERY sub-part separately.
 - **ESSAY/EXTENDED RESPONSE QUESTIONS ARE MANDATORY**: Grade all essay questions even if the student's response is poor or blank - award 0 marks with explanation.
-- **COMPLETE YOUR FULL RESPONSE**: Provide detailed feedback for ALL graded questions. Do not abbreviate or cut short.
-- **VERIFY YOUR TOTAL**: Your total possible marks (Y) must match the exam's stated total. If the exam says "Total: 40 marks", your Y values must sum to 40. If they don't, you likely included unchosen choice questions — go back and remove them.
-
-At the end, provide:
-**Total: X/Y** (where Y is the EXACT total marks possible from the mark scheme)
-**Percentage: Z%**
-**Grade: [Letter]** (use American scale: A=90%+, B=80-89%, C=70-79%, D=60-69%, F=below 60%)
-
-Brief feedback on strengths and areas for improvement.
+- Use the exact marks available from the mark scheme for marks_possible
 
-**IMPORTANT**: Start your response immediately with "[MARK SCHEME SUMMARY]" then list all questions, then begin grading with "**Question 1**" (or "**Question 1a**" if subdivided). Do not include any preamble before the mark scheme summary.
+${GRADING_JSON_INSTRUCTIONS}
 
 ${hasTeacherInstructions ? 'Follow the teacher\'s instructions above when determining marks.' : 'Grade fairly and consistently according to the mark scheme.'}`
 
@@ -717,13 +476,12 @@ ${hasTeacherInstructions ? 'Follow the teacher\'s instructions above when determ
       text: instructionText
     })
 
-    // Add mark scheme files (may be multiple images from PDF conversion)
-    for (let i = 0; i < allMarkSchemeFiles.length; i++) {
-      const file = allMarkSchemeFiles[i]
-
+    // Add a file as an image or a document
+    const addFile = (file: { buffer: Buffer; name: string; type: string }, i: number) => {
       if (isImageFile(file.type, file.name)) {
+        // Add as image for Claude's vision API
         const mimeType = getImageMimeType(file.type, file.name)
-        console.log(`📸 [Stream] Adding mark scheme image ${i + 1}: ${file.name} as ${mimeType}`)
+        console.log(`📸 Adding image ${i + 1}: ${file.name} as ${mimeType}`)
         content.push({
           type: 'image',
           source: {
@@ -733,8 +491,8 @@ ${hasTeacherInstructions ? 'Follow the teacher\'s instructions above when determ
           }
         })
       } else {
-        // Add as document (PDF)
-        console.log(`📄 [Stream] Adding mark scheme document ${i + 1}: ${file.name}`)
+        // Add as document (PDF, DOCX)
+        console.log(`📄 Adding document ${i + 1}: ${file.name}`)
         content.push({
           type: 'document',
           source: {
@@ -746,221 +504,129 @@ ${hasTeacherInstructions ? 'Follow the teacher\'s instructions above when determ
       }
     }
 
-    // Add all student exam files (documents or images)
-    for (let i = 0; i < allStudentFiles.length; i++) {
-      const file = allStudentFiles[i]
+    // Add the mark scheme (documents or images)
+    allMarkSchemeFiles.forEach(addFile)
 
-      if (isImageFile(file.type, file.name)) {
-        const mimeType = getImageMimeType(file.type, file.name)
-        console.log(`📸 [Stream] Adding student exam image ${i + 1}: ${file.name} as ${mimeType}`)
-        content.push({
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: mimeType,
-            data: file.buffer.toString('base64')
-          }
-        })
-      } else {
-        console.log(`📄 [Stream] Adding document ${i + 1}: ${file.name}`)
-        content.push({
-          type: 'document',
-          source: {
-            type: 'base64',
-            media_type: 'application/pdf',
-            data: file.buffer.toString('base64')
-          }
-        })
-      }
+    // Each exemplar's marks, then its script
+    for (const exemplar of exemplars) {
+      content.push({ type: 'text', text: exemplarHeading(exemplar) })
+      exemplar.files.forEach(addFile)
     }
-
-    console.log('📤 Starting streaming grading with', content.length, 'content items')
-
-    const stream = await this.anthropic.messages.stream({
-      model: 'claude-sonnet-5',
-      max_tokens: 16384,
-      thinking: { type: 'disabled' },
-      messages: [
-        {
-          role: 'user',
-          content: content
-        }
-      ]
-    })
-
-    let fullContent = ''
-
-    for await (const chunk of stream) {
-      if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
-        const text = chunk.delta.text
-        fullContent += text
-        yield text
-      }
+    if (exemplars.length > 0) {
+      content.push({ type: 'text', text: 'STUDENT EXAM TO GRADE:' })
     }
 
-    const finalMessage = await stream.finalMessage()
-    const actualUsage = {
-      input_tokens: finalMessage.usage.input_tokens,
-      output_tokens: finalMessage.usage.output_tokens,
-      total_tokens: finalMessage.usage.input_tokens + finalMessage.usage.output_tokens
-    }
+    // Add all student exam files (documents or images)
+    allStudentFiles.forEach(addFile)
 
-    console.log('✅ Streaming grading complete - Token Usage:', actualUsage)
-    console.log('📋 Stop reason:', finalMessage.stop_reason)
+    console.log('📤 Sending to Claude API with', content.length, 'content items')
 
-    return {
-      content: fullContent,
-      usage: actualUsage
-    }
+    const labels = exemplars.map(e => e.label)
+    return this.requestStructuredGrading(content, 16384, g => [
+      ...(rubric ? rubricIssues(g, rubric) : []),
+      ...exemplarIssues(g, labels),
+    ])
   }
 
   /**
-   * Grade missing questions that were skipped in the initial grading
-   * Used for follow-up calls when questions are detected as missing
+   * Send a grading request and validate the JSON that comes back. Output that
+   * fails validation goes back to the model with the list of problems, up to
+   * MAX_GRADING_REPAIRS times, before giving up — a misformatted response
+   * must never be recorded as a grade. `validate` adds checks the schema
+   * can't make on its own.
    */
-  async gradeMissingQuestions(params: {
-    markSchemeFiles: Array<{ buffer: Buffer; name: string; type: string }>
-    studentExamFiles: Array<{ buffer: Buffer; name: string; type: string }>
-    missingQuestions: string[]  // Format: ["3b(6)", "6a(3)"]
-    additionalComments?: string
-  }): Promise<{ content: string; usage: any }> {
-    const { markSchemeFiles, studentExamFiles, missingQuestions, additionalComments } = params
-
-    // Helper to check if file is an image
-    const isImageFile = (type: string, name: string) => {
-      const imageTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif']
-      const extension = name.split('.').pop()?.toLowerCase()
-      const imageExtensions = ['jpg', 'jpeg', 'png', 'webp', 'heic', 'heif']
-      return imageTypes.includes(type) || (extension && imageExtensions.includes(extension))
-    }
-
-    // Helper to get correct MIME type for images
-    const getImageMimeType = (type: string, name: string): string => {
-      const extension = name.split('.').pop()?.toLowerCase()
-      const mimeMap: Record<string, string> = {
-        'jpg': 'image/jpeg',
-        'jpeg': 'image/jpeg',
-        'png': 'image/png',
-        'webp': 'image/webp',
-        'heic': 'image/jpeg',
-        'heif': 'image/jpeg'
-      }
-      if (extension && mimeMap[extension]) {
-        return mimeMap[extension]
-      }
-      if (type.startsWith('image/')) {
-        return type === 'image/heic' || type === 'image/heif' ? 'image/jpeg' : type
-      }
-      return 'image/jpeg'
+  private async requestStructuredGrading(
+    content: Anthropic.ContentBlockParam[],
+    maxTokens: number,
+    // Extra checks on top of the schema, e.g. against the assignment's rubric
+    validate?: (grading: GradingOutput) => string[]
+  ): Promise<StructuredGradingResponse> {
+    const messages: Anthropic.MessageParam[] = [{ role: 'user', content }]
+    const usage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 }
+    let issues: string[] = []
+
+    for (let repairs = 0; repairs <= MAX_GRADING_REPAIRS; repairs++) {
+      const response = await this.anthropic.messages.create({
+        model: 'claude-sonnet-5',
+        max_tokens: maxTokens,
+        thinking: { type: 'disabled' },
+        messages,
+      })
+      usage.input_tokens += response.usage.input_tokens
+      usage.output_tokens += response.usage.output_tokens
+      usage.total_tokens = usage.input_tokens + usage.output_tokens
+
+      const block = response.content.find(
+        (b): b is Extract<(typeof response.content)[number], { type: 'text' }> => b.type === 'text'
+      )
+      const raw = block?.text ?? ''
+      const parsed = parseGradingOutput(raw)
+      const extraIssues = parsed.ok && validate ? validate(parsed.grading) : []
+      if (parsed.ok && extraIssues.length === 0) return { grading: parsed.grading, raw, repairs, usage }
+
+      const found = parsed.ok ? extraIssues : parsed.issues
+      issues = response.stop_reason === 'max_tokens'
+        ? ['the response was cut off before the JSON was complete — keep feedback shorter', ...found]
+        : found
+      console.error('Grading output failed validation (attempt', repairs + 1, '):', issues)
+      messages.push({ role: 'assistant', content: raw || '(empty response)' })
+      messages.push({ role: 'user', content: buildRepairPrompt(issues) })
     }
 
-    const content: any[] = []
-
-    // Build focused prompt for missing questions
-    const hasTeacherInstructions = additionalComments && additionalComments.trim()
-
-    let instructionText = `You are an expert exam grader. You previously graded this exam but MISSED the following questions.
+    throw new Error(`Grading response was malformed after ${MAX_GRADING_REPAIRS} repair attempts: ${issues.slice(0, 3).join('; ')}`)
+  }
 
-MISSING QUESTIONS TO GRADE:
-${missingQuestions.join(', ')}
+  /**
+   * Read a chunk of a class's scanned exams page by page for batch grading:
+   * what kind of page each is and any student name or separator code on it.
+   */
+  async readScanPages(params: { pdf: Buffer; pageCount: number; mode: BatchSplitMode }): Promise<PageReading[]> {
+    const { pdf, pageCount, mode } = params
 
-Please grade ONLY these questions now. Do not re-grade questions you already graded.
+    const modeHint = mode === 'separator'
+      ? 'Papers are divided by printed separator sheets, each showing one student\'s name and an 8-character student code. Mark those pages "separator" and copy the code exactly.'
+      : mode === 'cover'
+        ? 'Each student\'s paper begins with a cover page (the exam\'s front page, where the student writes their name). Mark those pages "cover".'
+        : 'Each page here is the first page of a different student\'s paper. Mark them "cover".'
 
-For each missing question, use this EXACT format:
-**Question [number]**, Mark: X/Y - [specific feedback explaining WHY marks were lost and HOW to improve]
+    const prompt = `This PDF is ${pageCount} scanned page${pageCount === 1 ? '' : 's'} from a stack of a class's exam papers.
 
-Where Y is the marks possible shown in parentheses above.
+${modeHint} Every other page is "answer".
 
-CRITICAL RULES:
-- Grade ONLY the missing questions listed above
-- Use the exact question numbers from the list
-- If the student didn't attempt a question, award 0 marks with explanation "Question not attempted"
-- If handwriting is illegible, award 0 marks with explanation "Answer could not be read due to illegible handwriting"
-- Provide specific feedback on what was correct and what was missing`
+For each page, transcribe the student's name if one is written or printed on it, exactly as it appears — do not correct or complete it. Use null when there is no name or you cannot read it; never guess.
 
-    if (hasTeacherInstructions) {
-      instructionText += `\n\n**Teacher's Instructions (apply these when grading):**\n${additionalComments}`
-    }
+${SCAN_READING_JSON_INSTRUCTIONS}`
 
-    content.push({
-      type: 'text',
-      text: instructionText
-    })
-
-    // Add mark scheme files
-    for (const file of markSchemeFiles) {
-      if (isImageFile(file.type, file.name)) {
-        content.push({
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: getImageMimeType(file.type, file.name),
-            data: file.buffer.toString('base64')
-          }
-        })
-      } else {
-        content.push({
-          type: 'document',
-          source: {
-            type: 'base64',
-            media_type: 'application/pdf',
-            data: file.buffer.toString('base64')
-          }
-        })
-      }
-    }
+    const messages: Anthropic.MessageParam[] = [{
+      role: 'user',
+      content: [
+        { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: pdf.toString('base64') } },
+        { type: 'text', text: prompt },
+      ],
+    }]
 
-    // Add student exam files
-    for (const file of studentExamFiles) {
-      if (isImageFile(file.type, file.name)) {
-        content.push({
-          type: 'image',
-          source: {
-            type: 'base64',
-            media_type: getImageMimeType(file.type, file.name),
-            data: file.buffer.toString('base64')
-          }
-        })
-      } else {
-        content.push({
-          type: 'document',
-          source: {
-            type: 'base64',
-            media_type: 'application/pdf',
-            data: file.buffer.toString('base64')
-          }
-        })
-      }
-    }
-
-    console.log(`📤 Grading ${missingQuestions.length} missing questions...`)
-
-    const response = await this.anthropic.messages.create({
-      model: 'claude-sonnet-5',
-      max_tokens: 4096,
-      thinking: { type: 'disabled' },
-      messages: [
-        {
-          role: 'user',
-          content: content
-        }
-      ]
-    })
-
-    const responseContent = response.content[0]
-    if (responseContent.type !== 'text') {
-      throw new Error('Unexpected response type from Claude API')
+    let error = ''
+    for (let attempt = 0; attempt <= 1; attempt++) {
+      const response = await this.anthropic.messages.create({
+        model: 'claude-sonnet-5',
+        max_tokens: 200 + pageCount * 80,
+        thinking: { type: 'disabled' },
+        messages,
+      })
+      const block = response.content.find(
+        (b): b is Extract<(typeof response.content)[number], { type: 'text' }> => b.type === 'text'
+      )
+      const raw = block?.text ?? ''
+      const parsed = parseScanReading(raw, pageCount)
+      if (parsed.ok) return parsed.pages
+
+      error = parsed.error
+      console.error('Scan reading failed validation (attempt', attempt + 1, '):', error)
+      messages.push({ role: 'assistant', content: raw || '(empty response)' })
+      messages.push({ role: 'user', content: `That response can't be used: ${error}. ${SCAN_READING_JSON_INSTRUCTIONS}` })
     }
 
-    console.log(`✅ Missing questions graded - Output tokens: ${response.usage.output_tokens}`)
-
-    return {
-      content: responseContent.text,
-      usage: {
-        input_tokens: response.usage.input_tokens,
-        output_tokens: response.usage.output_tokens
-      }
-    }
+    throw new Error(`Couldn't read the scanned pages: ${error}`)
   }
 
   /**
@@ -973,7 +639,7 @@ CRITICAL RULES:
     studentExamFile?: { buffer: Buffer; name: string; type: string }
     studentExamFiles?: Array<{ buffer: Buffer; name: string; type: string }> // Multiple files support
     markSchemeFile?: { buffer: Buffer; name: string; type: string }
-  }): Promise<ClaudeApiResponse> {
+  }): Promise<StructuredGradingResponse> {
     const { studentExamText, markSchemeText, studentExamFile, studentExamFiles, markSchemeFile } = params
 
     // Helper to check if file is an image
@@ -1035,11 +701,13 @@ TUTORING PRINCIPLES:
 
     instructionText += `\n\nI've attached the student's practice work${markSchemeFile ? ' and an answer key' : ''}.
 
-Please format your response as follows:
-- For each question, provide: Question [number], Mark: X/Y - [encouraging feedback that explains the concept and how to approach this type of problem]
-- Focus on explaining WHY answers are correct or incorrect, not just stating they are
-- Give hints and tips for similar problems in the future
-- At the end, provide total marks, genuine encouragement, and specific learning tips
+Tutoring notes for the JSON fields:
+- "feedback": encouraging, and explain the concept — WHY the answer is right or wrong and how to approach this type of problem
+- "improvements": hints and tips for similar problems in the future
+- "overall_feedback": genuine encouragement and specific learning tips
+- Without an answer key, use your own judgement of what the question is worth; "required_questions" may list just the questions you can see
+
+${GRADING_JSON_INSTRUCTIONS}
 
 Remember: This is a learning opportunity. Be supportive and help them understand the material better!`
 
@@ -1090,30 +758,7 @@ Remember: This is a learning opportunity. Be supportive and help them understand
 
     console.log('📤 Sending to Claude API with tutoring mode')
 
-    const response = await this.anthropic.messages.create({
-      model: 'claude-sonnet-5',
-      max_tokens: 4000,
-      thinking: { type: 'disabled' },
-      messages: [
-        {
-          role: 'user',
-          content: content
-        }
-      ]
-    })
-
-    const responseContent = response.content[0]
-    if (responseContent.type !== 'text') {
-      throw new Error('Unexpected response type from Claude API')
-    }
-
-    return {
-      content: responseContent.text,
-      usage: {
-        input_tokens: response.usage.input_tokens,
-        output_tokens: response.usage.output_tokens
-      }
-    }
+    return this.requestStructuredGrading(content, 8000)
   }
 
   /**
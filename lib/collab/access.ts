@@ -0,0 +1,37 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Owners invite co-editors by email; both can open the guide in the editor,
+// save it and edit it live together. Only the owner can invite, publish or
+// delete.
+export type GuideRole = 'owner' | 'editor'
+
+/** The user's role on a guide, or null when they can't edit it (or it doesn't exist). */
+export async function guideRole(supabase: SupabaseClient, guideId: string, userId: string): Promise<GuideRole | null> {
+  const { data: guide } = await supabase
+    .from('study_guides')
+    .select('user_id')
+    .eq('id', guideId)
+    .maybeSingle()
+  if (!guide) return null
+  if (guide.user_id === userId) return 'owner'
+
+  const { data: collaborator } = await supabase
+    .from('study_guide_collaborators')
+    .select('id')
+    .eq('study_guide_id', guideId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  return collaborator ? 'editor' : null
+}
+
+/** How a teacher is named to co-editors: display name, full name, then email. */
+export function profileName(profile: {
+  display_name?: string | null
+  first_name?: string | null
+  last_name?: string | null
+  email?: string | null
+} | null): string {
+  if (!profile) return 'Someone'
+  const full = [profile.first_name, profile.last_name].filter(Boolean).join(' ')
+  return profile.display_name?.trim() || full.trim() || profile.email || 'Someone'
+}
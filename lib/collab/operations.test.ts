@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest'
+import type { EditorBlock } from '@/lib/types/editor-blocks'
+import { applyOps, diffDocuments, topLevelBlockId, type CollabDocument } from './operations'
+
+function text(id: string, markdown = id): EditorBlock {
+  return { id, type: 'text', data: { type: 'text', markdown } }
+}
+
+function doc(...blocks: EditorBlock[]): CollabDocument {
+  return { blocks, metadata: { title: 'Cells', subject: 'science', gradeLevel: '9' } }
+}
+
+const ids = (d: CollabDocument) => d.blocks.map(b => b.id)
+
+describe('applyOps', () => {
+  it('inserts after a block, or first for null, and goes last when that block is gone', () => {
+    let d = doc(text('a'), text('b'))
+    d = applyOps(d, [
+      { op: 'insert', block: text('x'), afterId: 'a' },
+      { op: 'insert', block: text('y'), afterId: null },
+      { op: 'insert', block: text('z'), afterId: 'deleted' },
+    ])
+    expect(ids(d)).toEqual(['y', 'a', 'x', 'b', 'z'])
+  })
+
+  it('ignores updates and removals of blocks that are gone', () => {
+    const d = doc(text('a'))
+    expect(applyOps(d, [{ op: 'update', block: text('b') }, { op: 'remove', blockId: 'b' }])).toBe(d)
+  })
+
+  it('keeps a moved block in place when the block it follows is gone', () => {
+    const d = applyOps(doc(text('a'), text('b'), text('c')), [{ op: 'move', blockId: 'b', afterId: 'gone' }])
+    expect(ids(d)).toEqual(['a', 'b', 'c'])
+  })
+})
+
+describe('diffDocuments', () => {
+  it('produces operations that rebuild the new guide', () => {
+    const prev = doc(text('a'), text('b'), text('c'), text('d'))
+    const next = {
+      blocks: [text('d'), text('a'), text('new'), text('c', 'changed')],
+      metadata: { ...prev.metadata, title: 'Cell Biology' },
+    }
+    const ops = diffDocuments(prev, next)
+    expect(applyOps(prev, ops)).toEqual(next)
+    expect(ops).toContainEqual({ op: 'remove', blockId: 'b' })
+    expect(ops).toContainEqual({ op: 'metadata', metadata: { title: 'Cell Biology' } })
+  })
+
+  it('moves only the blocks that left their order', () => {
+    const prev = doc(text('a'), text('b'), text('c'), text('d'))
+    const ops = diffDocuments(prev, doc(text('b'), text('c'), text('d'), text('a')))
+    expect(ops).toEqual([{ op: 'move', blockId: 'a', afterId: 'd' }])
+  })
+
+  it('applies on top of a co-editor\'s changes to other blocks', () => {
+    const base = doc(text('a'), text('b'))
+    const mine = diffDocuments(base, doc(text('a', 'mine'), text('b')))
+    const theirs = diffDocuments(base, doc(text('a'), text('b'), text('c')))
+    const merged = applyOps(applyOps(base, theirs), mine)
+    expect(merged.blocks).toEqual([text('a', 'mine'), text('b'), text('c')])
+  })
+
+  it('is empty when nothing changed', () => {
+    const d = doc(text('a'))
+    expect(diffDocuments(d, { blocks: [text('a')], metadata: { ...d.metadata } })).toEqual([])
+  })
+})
+
+describe('topLevelBlockId', () => {
+  it('finds the section holding a nested block', () => {
+    const section: EditorBlock = {
+      id: 's',
+      type: 'section',
+      data: { type: 'section' },
+      children: [text('inner')],
+    }
+    expect(topLevelBlockId([text('a'), section], 'inner')).toBe('s')
+    expect(topLevelBlockId([text('a'), section], 'a')).toBe('a')
+    expect(topLevelBlockId([text('a')], 'missing')).toBeNull()
+  })
+})
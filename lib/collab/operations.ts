@@ -0,0 +1,150 @@
+import type { EditorBlock, EditorGuideMetadata } from '@/lib/types/editor-blocks'
+
+// Live co-editing of a custom guide works on the guide's top-level blocks (a
+// section counts as one block, children and all). Every change is an
+// operation naming the block it touches by id, never by index, so applying
+// the same operations in the same order — the collaboration server's order —
+// leaves every editor with the same guide.
+
+export interface CollabDocument {
+  blocks: EditorBlock[]
+  metadata: EditorGuideMetadata
+}
+
+export type CollabOp =
+  // Add a block after another (null: first). An existing block is overwritten and moved there.
+  | { op: 'insert'; block: EditorBlock; afterId: string | null }
+  | { op: 'update'; block: EditorBlock }
+  | { op: 'remove'; blockId: string }
+  | { op: 'move'; blockId: string; afterId: string | null }
+  | { op: 'metadata'; metadata: Partial<EditorGuideMetadata> }
+
+// Put `block` right after `afterId`. When that block is gone the block stays
+// where it was, or goes last if it's new.
+function placeAfter(blocks: EditorBlock[], block: EditorBlock, afterId: string | null): EditorBlock[] {
+  const rest = blocks.filter(b => b.id !== block.id)
+  const at = afterId === null ? -1 : rest.findIndex(b => b.id === afterId)
+  if (afterId !== null && at === -1) {
+    const was = blocks.findIndex(b => b.id === block.id)
+    return was === -1 ? [...rest, block] : blocks.map((b, i) => (i === was ? block : b))
+  }
+  return [...rest.slice(0, at + 1), block, ...rest.slice(at + 1)]
+}
+
+/** Apply one operation. Operations on blocks that no longer exist do nothing. */
+export function applyOp(doc: CollabDocument, op: CollabOp): CollabDocument {
+  switch (op.op) {
+    case 'insert':
+      return { ...doc, blocks: placeAfter(doc.blocks, op.block, op.afterId) }
+    case 'update':
+      if (!doc.blocks.some(b => b.id === op.block.id)) return doc
+      return { ...doc, blocks: doc.blocks.map(b => (b.id === op.block.id ? op.block : b)) }
+    case 'remove':
+      if (!doc.blocks.some(b => b.id === op.blockId)) return doc
+      return { ...doc, blocks: doc.blocks.filter(b => b.id !== op.blockId) }
+    case 'move': {
+      const block = doc.blocks.find(b => b.id === op.blockId)
+      if (!block || op.afterId === op.blockId) return doc
+      return { ...doc, blocks: placeAfter(doc.blocks, block, op.afterId) }
+    }
+    case 'metadata':
+      return { ...doc, metadata: { ...doc.metadata, ...op.metadata } }
+  }
+}
+
+export function applyOps(doc: CollabDocument, ops: CollabOp[]): CollabDocument {
+  return ops.reduce(applyOp, doc)
+}
+
+/**
+ * The longest run of ids in the same relative order in both lists: the
+ * blocks that can stay put while the rest move around them.
+ */
+export function unmoved(before: string[], after: string[]): Set<string> {
+  const lengths = before.map(() => new Array<number>(after.length + 1).fill(0))
+  lengths.push(new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+  const kept = new Set<string>()
+  for (let i = 0, j = 0; i < before.length && j < after.length;) {
+    if (before[i] === after[j]) {
+      kept.add(before[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+  return kept
+}
+
+/**
+ * The operations that turn `prev` into `next`: removals first, then each
+ * block of `next` in order, inserted or moved after the block before it and
+ * updated when its content changed.
+ */
+export function diffDocuments(prev: CollabDocument, next: CollabDocument): CollabOp[] {
+  const ops: CollabOp[] = []
+
+  const nextIds = new Set(next.blocks.map(b => b.id))
+  const prevById = new Map(prev.blocks.map(b => [b.id, b]))
+  for (const block of prev.blocks) {
+    if (!nextIds.has(block.id)) ops.push({ op: 'remove', blockId: block.id })
+  }
+
+  const kept = unmoved(
+    prev.blocks.filter(b => nextIds.has(b.id)).map(b => b.id),
+    next.blocks.filter(b => prevById.has(b.id)).map(b => b.id)
+  )
+  next.blocks.forEach((block, i) => {
+    const afterId = i === 0 ? null : next.blocks[i - 1].id
+    const old = prevById.get(block.id)
+    if (!old) {
+      ops.push({ op: 'insert', block, afterId })
+      return
+    }
+    if (!kept.has(block.id)) ops.push({ op: 'move', blockId: block.id, afterId })
+    if (old !== block && JSON.stringify(old) !== JSON.stringify(block)) ops.push({ op: 'update', block })
+  })
+
+  if (prev.metadata !== next.metadata) {
+    const keys = new Set([...Object.keys(prev.metadata), ...Object.keys(next.metadata)]) as Set<keyof EditorGuideMetadata>
+    const changed = [...keys].filter(k => JSON.stringify(prev.metadata[k]) !== JSON.stringify(next.metadata[k]))
+    if (changed.length > 0) {
+      ops.push({ op: 'metadata', metadata: Object.fromEntries(changed.map(k => [k, next.metadata[k]])) })
+    }
+  }
+
+  return ops
+}
+
+/** The top-level block that is or contains `blockId`, or null when it isn't in the guide. */
+export function topLevelBlockId(blocks: EditorBlock[], blockId: string): string | null {
+  const contains = (block: EditorBlock): boolean =>
+    block.id === blockId || (block.children ?? []).some(contains)
+  return blocks.find(contains)?.id ?? null
+}
+
+/**
+ * The block whose content an operation changes: what a lock on that block
+ * guards. Moves only reorder and the guide details aren't a block, so
+ * neither needs one.
+ */
+export function lockedTarget(op: CollabOp): string | null {
+  switch (op.op) {
+    case 'insert':
+    case 'update':
+      return op.block.id
+    case 'remove':
+      return op.blockId
+    default:
+      return null
+  }
+}
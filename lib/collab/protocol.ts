@@ -0,0 +1,138 @@
+import type { CollabDocument, CollabOp } from '@/lib/collab/operations'
+
+// Messages between the custom guide editor and the collaboration server
+// (scripts/collab-server.ts), sent as JSON over one WebSocket per editor tab.
+
+// Close codes the editor reads as "don't reconnect"
+export const CLOSE_UNAUTHENTICATED = 4401
+export const CLOSE_FORBIDDEN = 4403
+
+/** One open editor. A teacher with the guide open in two tabs is two participants. */
+export interface Participant {
+  id: string
+  userId: string
+  name: string
+  color: string
+}
+
+/** Who last changed a block, for the "edited by" note on it. */
+export interface BlockEdit {
+  userId: string
+  name: string
+  color: string
+  at: number
+}
+
+/** A pointer over the editor: x as a fraction of the block's width, y in pixels from its top. */
+export interface CursorPosition {
+  // The block under the pointer, or null for the editor's canvas itself
+  blockId: string | null
+  x: number
+  y: number
+}
+
+export interface ActivityEntry {
+  // A burst of edits updates one entry in place, so it keeps its id
+  id: number
+  userId: string
+  name: string
+  color: string
+  text: string
+  at: number
+}
+
+export type ClientMessage =
+  // First message on the socket. `doc` seeds the session when nobody else has the guide open.
+  | { type: 'join'; guideId: string; token: string; doc: CollabDocument }
+  | { type: 'ops'; ops: CollabOp[] }
+  // Lock the top-level block holding this one while editing it; null lets go
+  | { type: 'lock'; blockId: string | null }
+  // null when the pointer leaves the editor
+  | { type: 'cursor'; position: CursorPosition | null }
+  // The guide was just saved with everything this editor has
+  | { type: 'saved' }
+
+export type ServerMessage =
+  | {
+      type: 'welcome'
+      you: Participant
+      doc: CollabDocument
+      // Changes since the guide was last saved
+      dirty: boolean
+      participants: Participant[]
+      locks: Record<string, string>
+      edits: Record<string, BlockEdit>
+      activity: ActivityEntry[]
+    }
+  // Another editor's changes, or (by: null) corrections to changes of yours the server refused
+  | { type: 'ops'; ops: CollabOp[]; by: Participant | null; at: number }
+  | { type: 'participants'; participants: Participant[] }
+  // Locked top-level block id -> participant id
+  | { type: 'locks'; locks: Record<string, string> }
+  | { type: 'cursor'; participantId: string; position: CursorPosition | null }
+  | { type: 'activity'; entry: ActivityEntry }
+  | { type: 'saved'; by: Participant }
+  | { type: 'error'; message: string }
+
+/** Parse a client message, or null for anything that isn't one. */
+export function parseClientMessage(raw: string): ClientMessage | null {
+  let message: unknown
+  try {
+    message = JSON.parse(raw)
+  } catch {
+    return null
+  }
+  if (!message || typeof message !== 'object') return null
+  const m = message as Record<string, unknown>
+  switch (m.type) {
+    case 'join':
+      return typeof m.guideId === 'string' && typeof m.token === 'string' && isDocument(m.doc)
+        ? (m as unknown as ClientMessage)
+        : null
+    case 'ops':
+      return Array.isArray(m.ops) && m.ops.every(isOp) ? (m as unknown as ClientMessage) : null
+    case 'lock':
+      return m.blockId === null || typeof m.blockId === 'string' ? (m as unknown as ClientMessage) : null
+    case 'cursor':
+      return m.position === null || isPosition(m.position) ? (m as unknown as ClientMessage) : null
+    case 'saved':
+      return { type: 'saved' }
+    default:
+      return null
+  }
+}
+
+function isPosition(value: unknown): boolean {
+  const p = value as Record<string, unknown> | null
+  return !!p && (p.blockId === null || typeof p.blockId === 'string') && Number.isFinite(p.x) && Number.isFinite(p.y)
+}
+
+function isBlock(value: unknown): boolean {
+  const b = value as Record<string, unknown> | null
+  return !!b && typeof b.id === 'string' && typeof b.type === 'string' && !!b.data && typeof b.data === 'object'
+}
+
+function isDocument(value: unknown): boolean {
+  const d = value as Record<string, unknown> | null
+  return !!d && Array.isArray(d.blocks) && d.blocks.every(isBlock) && !!d.metadata && typeof d.metadata === 'object'
+}
+
+function isOp(value: unknown): boolean {
+  const o = value as Record<string, unknown> | null
+  if (!o) return false
+  const afterId = o.afterId === null || typeof o.afterId === 'string'
+  switch (o.op) {
+    case 'insert':
+      return isBlock(o.block) && afterId
+    case 'update':
+      return isBlock(o.block)
+    case 'remove':
+      return typeof o.blockId === 'string'
+    case 'move':
+      return typeof o.blockId === 'string' && afterId
+    case 'metadata':
+      return !!o.metadata && typeof o.metadata === 'object'
+    default:
+      return false
+  }
+}
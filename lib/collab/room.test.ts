@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import type { EditorBlock } from '@/lib/types/editor-blocks'
+import type { CollabDocument } from './operations'
+import type { Participant, ServerMessage } from './protocol'
+import { ACTIVITY_MERGE_MS, GuideRoom, LOCK_IDLE_MS } from './room'
+
+function text(id: string, markdown = id): EditorBlock {
+  return { id, type: 'text', title: id.toUpperCase(), data: { type: 'text', markdown } }
+}
+
+function doc(...blocks: EditorBlock[]): CollabDocument {
+  return { blocks, metadata: { title: 'Cells', subject: 'science', gradeLevel: '9' } }
+}
+
+function setup(initial = doc(text('a'), text('b'))) {
+  let time = 0
+  const room = new GuideRoom(initial, () => time)
+  const inbox: Record<string, ServerMessage[]> = {}
+  const join = (id: string, userId = id) => {
+    const participant: Participant = { id, userId, name: userId, color: room.nextColor() }
+    inbox[id] = []
+    room.join(participant, m => inbox[id].push(m))
+    return participant
+  }
+  const last = <T extends ServerMessage['type']>(id: string, type: T) =>
+    inbox[id].filter((m): m is Extract<ServerMessage, { type: T }> => m.type === type).at(-1)
+  return { room, inbox, join, last, tick: (ms: number) => { time += ms } }
+}
+
+describe('GuideRoom', () => {
+  it('welcomes a joiner with the session and tells the others', () => {
+    const { join, last } = setup()
+    const ann = join('ann')
+    join('ben')
+    expect(last('ben', 'welcome')).toMatchObject({ doc: { blocks: [{ id: 'a' }, { id: 'b' }] }, dirty: false })
+    expect(last('ann', 'participants')?.participants.map(p => p.id)).toEqual(['ann', 'ben'])
+    expect(last('ben', 'welcome')?.you.color).not.toBe(ann.color)
+  })
+
+  it('passes operations on to everyone else and marks the session unsaved', () => {
+    const { room, join, inbox, last } = setup()
+    join('ann')
+    join('ben')
+    room.applyOps('ann', [{ op: 'update', block: text('a', 'new') }])
+    expect(last('ben', 'ops')).toMatchObject({ ops: [{ op: 'update' }], by: { id: 'ann' } })
+    expect(inbox.ann.some(m => m.type === 'ops')).toBe(false)
+    expect(room.document.blocks[0]).toEqual(text('a', 'new'))
+
+    join('cat')
+    expect(last('cat', 'welcome')).toMatchObject({ dirty: true, edits: { a: { userId: 'ann' } } })
+  })
+
+  it('locks the top-level block and refuses others\' changes to it', () => {
+    const { room, join, last } = setup()
+    join('ann')
+    join('ben')
+    room.lock('ann', 'a')
+    expect(last('ben', 'locks')?.locks).toEqual({ a: 'ann' })
+
+    room.lock('ben', 'a')
+    expect(last('ben', 'locks')?.locks).toEqual({ a: 'ann' })
+
+    room.applyOps('ben', [{ op: 'update', block: text('a', 'theirs') }, { op: 'update', block: text('b', 'fine') }])
+    expect(last('ben', 'ops')).toMatchObject({ ops: [{ op: 'insert', block: text('a'), afterId: null }], by: null })
+    expect(last('ann', 'ops')?.ops).toEqual([{ op: 'update', block: text('b', 'fine') }])
+    expect(room.document.blocks).toEqual([text('a'), text('b', 'fine')])
+  })
+
+  it('lets an idle lock lapse and releases locks on leaving', () => {
+    const { room, join, tick, last } = setup()
+    join('ann')
+    join('ben')
+    room.lock('ann', 'a')
+    tick(LOCK_IDLE_MS + 1)
+    room.lock('ben', 'a')
+    expect(last('ann', 'locks')?.locks).toEqual({ a: 'ben' })
+
+    room.leave('ben')
+    expect(last('ann', 'locks')?.locks).toEqual({})
+    expect(room.size).toBe(1)
+  })
+
+  it('puts back a block deleted under an update', () => {
+    const { room, join, last } = setup()
+    join('ann')
+    room.applyOps('ann', [{ op: 'update', block: text('gone') }])
+    expect(last('ann', 'ops')?.ops).toEqual([{ op: 'remove', blockId: 'gone' }])
+  })
+
+  it('merges repeated activity and records saves', () => {
+    const { room, join, tick, last } = setup()
+    join('ann')
+    join('ben')
+    room.applyOps('ann', [{ op: 'update', block: text('a', '1') }])
+    tick(ACTIVITY_MERGE_MS / 2)
+    room.applyOps('ann', [{ op: 'update', block: text('a', '2') }])
+    room.saved('ann')
+
+    join('cat')
+    const welcome = last('cat', 'welcome')!
+    expect(welcome.dirty).toBe(false)
+    expect(welcome.activity.map(e => e.text)).toEqual(['edited "A"', 'saved the guide'])
+    expect(last('ben', 'saved')?.by.id).toBe('ann')
+  })
+})
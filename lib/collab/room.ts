@@ -0,0 +1,266 @@
+import type { EditorBlock } from '@/lib/types/editor-blocks'
+import { applyOp, lockedTarget, topLevelBlockId, type CollabDocument, type CollabOp } from '@/lib/collab/operations'
+import type { ActivityEntry, BlockEdit, CursorPosition, Participant, ServerMessage } from '@/lib/collab/protocol'
+
+// One guide's live editing session on the collaboration server: the shared
+// copy of the guide, who has it open, the block each of them has locked, and
+// who changed what. Knows nothing about sockets; each participant comes with
+// a function that sends it a message.
+
+// A lock nobody has touched for this long can be taken by someone else
+export const LOCK_IDLE_MS = 2 * 60_000
+// Repeats of the same activity by the same person within this merge into one entry
+export const ACTIVITY_MERGE_MS = 60_000
+export const MAX_ACTIVITY = 50
+
+const COLORS = ['#2563eb', '#db2777', '#16a34a', '#ea580c', '#9333ea', '#0891b2', '#ca8a04', '#dc2626']
+
+const VERBS: Record<'insert' | 'update' | 'remove' | 'move', string> = {
+  insert: 'added',
+  update: 'edited',
+  remove: 'deleted',
+  move: 'moved',
+}
+
+interface Member {
+  participant: Participant
+  send: (message: ServerMessage) => void
+}
+
+interface Lock {
+  participantId: string
+  at: number
+}
+
+function blockLabel(block: EditorBlock | undefined): string {
+  if (!block) return 'a block'
+  if (block.title?.trim()) return `"${block.title.trim()}"`
+  const type = block.type.replace(/-/g, ' ')
+  return `${/^[aeiou]/.test(type) ? 'an' : 'a'} ${type} block`
+}
+
+/** One line for the activity list, e.g. `edited "Cell Structure", moved 2 blocks`. */
+export function describeOps(ops: CollabOp[], before: CollabDocument, after: CollabDocument): string {
+  const byVerb = new Map<string, Set<string>>()
+  let metadata = false
+  for (const op of ops) {
+    if (op.op === 'metadata') {
+      metadata = true
+      continue
+    }
+    const id = op.op === 'insert' || op.op === 'update' ? op.block.id : op.blockId
+    const ids = byVerb.get(op.op) ?? new Set<string>()
+    byVerb.set(op.op, ids.add(id))
+  }
+
+  const find = (id: string) => after.blocks.find(b => b.id === id) ?? before.blocks.find(b => b.id === id)
+  const parts = (Object.keys(VERBS) as Array<keyof typeof VERBS>).flatMap(kind => {
+    const ids = [...(byVerb.get(kind) ?? [])]
+    if (ids.length === 0) return []
+    return [`${VERBS[kind]} ${ids.length === 1 ? blockLabel(find(ids[0])) : `${ids.length} blocks`}`]
+  })
+  if (metadata) parts.push('changed the guide details')
+  return parts.join(', ')
+}
+
+export class GuideRoom {
+  private members = new Map<string, Member>()
+  // Top-level block id -> who holds it
+  private locks = new Map<string, Lock>()
+  private edits: Record<string, BlockEdit> = {}
+  private activity: ActivityEntry[] = []
+  private nextActivityId = 1
+  private dirty = false
+
+  constructor(private doc: CollabDocument, private now: () => number = Date.now) {}
+
+  get size(): number {
+    return this.members.size
+  }
+
+  get document(): CollabDocument {
+    return this.doc
+  }
+
+  /** A color nobody in the session has yet, while there are any left. */
+  nextColor(): string {
+    const used = new Set([...this.members.values()].map(m => m.participant.color))
+    return COLORS.find(c => !used.has(c)) ?? COLORS[this.members.size % COLORS.length]
+  }
+
+  join(participant: Participant, send: (message: ServerMessage) => void) {
+    this.members.set(participant.id, { participant, send })
+    send({
+      type: 'welcome',
+      you: participant,
+      doc: this.doc,
+      dirty: this.dirty,
+      participants: this.participants(),
+      locks: this.lockMap(),
+      edits: this.edits,
+      activity: this.activity,
+    })
+    this.broadcast({ type: 'participants', participants: this.participants() }, participant.id)
+  }
+
+  leave(participantId: string) {
+    if (!this.members.delete(participantId)) return
+    const released = this.release(participantId)
+    this.broadcast({ type: 'participants', participants: this.participants() })
+    if (released) this.broadcast({ type: 'locks', locks: this.lockMap() })
+  }
+
+  /**
+   * Lock the top-level block holding `blockId` for this participant, letting
+   * go of any other. Everyone hears the outcome, so the requester learns
+   * whether it got the lock.
+   */
+  lock(participantId: string, blockId: string | null) {
+    if (!this.members.has(participantId)) return
+    const target = blockId === null ? null : topLevelBlockId(this.doc.blocks, blockId)
+    const held = this.locks.get(target ?? '')
+    if (target && held?.participantId === participantId) {
+      held.at = this.now()
+      return
+    }
+    this.release(participantId)
+    if (target && !this.heldByOther(target, participantId)) {
+      this.locks.set(target, { participantId, at: this.now() })
+    }
+    this.broadcast({ type: 'locks', locks: this.lockMap() })
+  }
+
+  /**
+   * Apply a participant's operations and pass them on to everyone else.
+   * Changes to blocks someone else has locked, or that are gone, are refused:
+   * the sender gets operations putting those blocks back as they are here.
+   */
+  applyOps(participantId: string, ops: CollabOp[]) {
+    const member = this.members.get(participantId)
+    if (!member) return
+
+    const before = this.doc
+    const accepted: CollabOp[] = []
+    const corrections: CollabOp[] = []
+    const lockCount = this.locks.size
+
+    for (const op of ops) {
+      const target = lockedTarget(op)
+      const exists = target !== null && this.doc.blocks.some(b => b.id === target)
+      if (target && exists && this.heldByOther(target, participantId)) {
+        corrections.push(this.restore(target))
+        continue
+      }
+      if (op.op === 'update' && !exists) {
+        corrections.push({ op: 'remove', blockId: op.block.id })
+        continue
+      }
+
+      const next = applyOp(this.doc, op)
+      if (next === this.doc) continue
+      this.doc = next
+      accepted.push(op)
+      const lock = target ? this.locks.get(target) : undefined
+      if (lock?.participantId === participantId) lock.at = this.now()
+    }
+
+    if (corrections.length > 0) member.send({ type: 'ops', ops: corrections, by: null, at: this.now() })
+    // Locks that lapsed on the way
+    if (this.locks.size !== lockCount) this.broadcast({ type: 'locks', locks: this.lockMap() })
+    if (accepted.length === 0) return
+
+    const at = this.now()
+    const { participant } = member
+    this.dirty = true
+    const edits = { ...this.edits }
+    for (const op of accepted) {
+      if (op.op === 'insert' || op.op === 'update') {
+        edits[op.block.id] = { userId: participant.userId, name: participant.name, color: participant.color, at }
+      } else if (op.op === 'remove') {
+        delete edits[op.blockId]
+      }
+    }
+    this.edits = edits
+    this.broadcast({ type: 'ops', ops: accepted, by: participant, at }, participantId)
+    this.record(participant, describeOps(accepted, before, this.doc))
+  }
+
+  cursor(participantId: string, position: CursorPosition | null) {
+    if (!this.members.has(participantId)) return
+    this.broadcast({ type: 'cursor', participantId, position }, participantId)
+  }
+
+  /** The participant saved the guide; the session has nothing unsaved until the next change. */
+  saved(participantId: string) {
+    const member = this.members.get(participantId)
+    if (!member) return
+    this.dirty = false
+    this.broadcast({ type: 'saved', by: member.participant }, participantId)
+    this.record(member.participant, 'saved the guide')
+  }
+
+  private participants(): Participant[] {
+    return [...this.members.values()].map(m => m.participant)
+  }
+
+  private lockMap(): Record<string, string> {
+    return Object.fromEntries([...this.locks].map(([blockId, lock]) => [blockId, lock.participantId]))
+  }
+
+  private broadcast(message: ServerMessage, exceptId?: string) {
+    for (const [id, member] of this.members) {
+      if (id !== exceptId) member.send(message)
+    }
+  }
+
+  // Returns whether the participant held anything
+  private release(participantId: string): boolean {
+    let released = false
+    for (const [blockId, lock] of this.locks) {
+      if (lock.participantId === participantId) {
+        this.locks.delete(blockId)
+        released = true
+      }
+    }
+    return released
+  }
+
+  // An idle lock lapses here, the first time someone else wants the block
+  private heldByOther(blockId: string, participantId: string): boolean {
+    const lock = this.locks.get(blockId)
+    if (!lock || lock.participantId === participantId) return false
+    if (this.now() - lock.at > LOCK_IDLE_MS) {
+      this.locks.delete(blockId)
+      return false
+    }
+    return true
+  }
+
+  // Puts a block back as the session has it, where the session has it
+  private restore(blockId: string): CollabOp {
+    const index = this.doc.blocks.findIndex(b => b.id === blockId)
+    return { op: 'insert', block: this.doc.blocks[index], afterId: index > 0 ? this.doc.blocks[index - 1].id : null }
+  }
+
+  private record(participant: Participant, text: string) {
+    if (!text) return
+    const at = this.now()
+    const last = this.activity[this.activity.length - 1]
+    if (last && last.userId === participant.userId && last.text === text && at - last.at <= ACTIVITY_MERGE_MS) {
+      const merged = { ...last, at }
+      this.activity = [...this.activity.slice(0, -1), merged]
+      this.broadcast({ type: 'activity', entry: merged })
+      return
+    }
+    const entry: ActivityEntry = {
+      id: this.nextActivityId++,
+      userId: participant.userId,
+      name: participant.name,
+      color: participant.color,
+      text,
+      at,
+    }
+    this.activity = [...this.activity, entry].slice(-MAX_ACTIVITY)
+    this.broadcast({ type: 'activity', entry })
+  }
+}
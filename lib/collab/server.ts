@@ -0,0 +1,151 @@
+import { randomUUID } from 'crypto'
+import { WebSocket, WebSocketServer } from 'ws'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { guideRole, profileName } from '@/lib/collab/access'
+import {
+  CLOSE_FORBIDDEN,
+  CLOSE_UNAUTHENTICATED,
+  parseClientMessage,
+  type ClientMessage,
+  type ServerMessage,
+} from '@/lib/collab/protocol'
+import { GuideRoom } from '@/lib/collab/room'
+
+// The collaboration server: a WebSocket per open editor tab and a GuideRoom
+// per guide that anyone has open. Start it with `npm run collab`
+// (scripts/collab-server.ts); the editor connects to NEXT_PUBLIC_COLLAB_URL.
+// Sessions live in memory only — guides are still saved through
+// /api/study-guides/[id]/custom-content.
+
+export interface CollabServerOptions {
+  port: number
+  // Sockets that miss a ping for this long are dropped, releasing their locks
+  heartbeatMs: number
+  maxMessageBytes: number
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+export function collabOptionsFromEnv(): CollabServerOptions {
+  return {
+    port: envInt('COLLAB_PORT', 4001),
+    heartbeatMs: envInt('COLLAB_HEARTBEAT_MS', 30_000),
+    maxMessageBytes: envInt('COLLAB_MAX_MESSAGE_BYTES', 5 * 1024 * 1024),
+  }
+}
+
+type JoinResult =
+  | { ok: true; userId: string; name: string }
+  | { ok: false; code: number; message: string }
+
+// Checks the Supabase access token the editor sent and that its user owns or co-edits the guide
+async function authorize(supabase: SupabaseClient, join: Extract<ClientMessage, { type: 'join' }>): Promise<JoinResult> {
+  const { data: { user } } = await supabase.auth.getUser(join.token)
+  if (!user) return { ok: false, code: CLOSE_UNAUTHENTICATED, message: 'You must be logged in' }
+
+  const role = await guideRole(supabase, join.guideId, user.id)
+  if (!role) return { ok: false, code: CLOSE_FORBIDDEN, message: 'Not authorized' }
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('display_name, first_name, last_name, email')
+    .eq('id', user.id)
+    .maybeSingle()
+  return { ok: true, userId: user.id, name: profileName(profile ?? { email: user.email }) }
+}
+
+export function startCollabServer(supabase: SupabaseClient, options: CollabServerOptions): WebSocketServer {
+  const rooms = new Map<string, GuideRoom>()
+  const wss = new WebSocketServer({ port: options.port, maxPayload: options.maxMessageBytes })
+  const alive = new WeakSet<WebSocket>()
+
+  wss.on('connection', socket => {
+    alive.add(socket)
+    socket.on('pong', () => alive.add(socket))
+
+    let session: { guideId: string; room: GuideRoom; participantId: string } | null = null
+    let joining = false
+    const send = (message: ServerMessage) => {
+      if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+    }
+
+    const join = async (message: Extract<ClientMessage, { type: 'join' }>) => {
+      joining = true
+      const result = await authorize(supabase, message)
+      if (!result.ok) {
+        send({ type: 'error', message: result.message })
+        socket.close(result.code, result.message)
+        return
+      }
+      if (socket.readyState !== WebSocket.OPEN) return
+
+      // The first editor in seeds the session with the guide as it has it
+      let room = rooms.get(message.guideId)
+      if (!room) {
+        room = new GuideRoom(message.doc)
+        rooms.set(message.guideId, room)
+      }
+      const participantId = randomUUID()
+      session = { guideId: message.guideId, room, participantId }
+      room.join({ id: participantId, userId: result.userId, name: result.name, color: room.nextColor() }, send)
+    }
+
+    socket.on('message', data => {
+      const message = parseClientMessage(data.toString())
+      if (!message) {
+        send({ type: 'error', message: 'Unrecognized message' })
+        return
+      }
+
+      if (!session) {
+        if (message.type === 'join' && !joining) {
+          join(message).catch(err => {
+            console.error('Collab join error:', err)
+            socket.close(1011, 'Internal server error')
+          })
+        }
+        return
+      }
+
+      const { room, participantId } = session
+      switch (message.type) {
+        case 'ops':
+          room.applyOps(participantId, message.ops)
+          break
+        case 'lock':
+          room.lock(participantId, message.blockId)
+          break
+        case 'cursor':
+          room.cursor(participantId, message.position)
+          break
+        case 'saved':
+          room.saved(participantId)
+          break
+      }
+    })
+
+    socket.on('close', () => {
+      if (!session) return
+      const { guideId, room, participantId } = session
+      room.leave(participantId)
+      if (room.size === 0) rooms.delete(guideId)
+    })
+  })
+
+  const heartbeat = setInterval(() => {
+    for (const socket of wss.clients) {
+      if (!alive.has(socket)) {
+        socket.terminate()
+        continue
+      }
+      alive.delete(socket)
+      socket.ping()
+    }
+  }, options.heartbeatMs)
+  wss.on('close', () => clearInterval(heartbeat))
+
+  return wss
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { createContext, useContext, useState, useCallback, ReactNode } from 'react'
+import { createContext, useContext, useState, useCallback, useRef, ReactNode } from 'react'
 import {
   EditorBlock,
   EditorGuideMetadata,
@@ -8,6 +8,14 @@ import {
   createEmptyBlock,
   generateBlockId
 } from '@/lib/types/editor-blocks'
+import { History, emptyHistory, mapHistory, record, undo as undoHistory, redo as redoHistory } from '@/lib/editor-history'
+import { applyOps, type CollabOp } from '@/lib/collab/operations'
+
+// What undo/redo steps through: the blocks and the guide details together
+export interface EditorDocument {
+  blocks: EditorBlock[]
+  metadata: EditorGuideMetadata
+}
 
 interface EditorContextValue {
   // State
@@ -15,6 +23,11 @@ interface EditorContextValue {
   selectedBlockId: string | null
   metadata: EditorGuideMetadata
   isDirty: boolean
+  canUndo: boolean
+  canRedo: boolean
+  // Labels of the steps undo/redo would take, for tooltips
+  undoLabel: string | null
+  redoLabel: string | null
 
   // Block actions
   addBlock: (type: BlockType, afterId?: string, parentId?: string) => void
@@ -27,11 +40,23 @@ interface EditorContextValue {
   // Metadata actions
   setMetadata: (updates: Partial<EditorGuideMetadata>) => void
 
+  // History
+  undo: () => void
+  redo: () => void
+
   // Initialization
-  initializeBlocks: (blocks: EditorBlock[]) => void
-  appendBlocks: (newBlocks: EditorBlock[], options?: { replaceMatching?: boolean }) => void // For AI streaming
+  initializeBlocks: (blocks: EditorBlock[], metadata?: Partial<EditorGuideMetadata>) => void // Also clears history
+  // For AI streaming; pass the same group for every section of one generation so it undoes in one step
+  appendBlocks: (newBlocks: EditorBlock[], options?: { replaceMatching?: boolean; group?: string }) => void
+  replaceBlocks: (newBlocks: EditorBlock[], options?: { group?: string }) => void
+  // Bring back a whole saved version (a draft, an earlier revision) as one undoable step
+  restoreDocument: (blocks: EditorBlock[], metadata: EditorGuideMetadata, label: string) => void
   resetEditor: () => void
   markClean: () => void
+
+  // Live co-editing
+  applyRemoteOps: (ops: CollabOp[]) => void
+  loadSharedDocument: (doc: EditorDocument) => void
 }
 
 const EditorContext = createContext<EditorContextValue | undefined>(undefined)
@@ -42,11 +67,53 @@ const defaultMetadata: EditorGuideMetadata = {
   gradeLevel: '9th-10th'
 }
 
+const emptyDocument: EditorDocument = { blocks: [], metadata: defaultMetadata }
+
 export function EditorProvider({ children }: { children: ReactNode }) {
-  const [blocks, setBlocks] = useState<EditorBlock[]>([])
+  const [doc, setDoc] = useState<EditorDocument>(emptyDocument)
   const [selectedBlockId, setSelectedBlockId] = useState<string | null>(null)
-  const [metadata, setMetadataState] = useState<EditorGuideMetadata>(defaultMetadata)
-  const [isDirty, setIsDirty] = useState(false)
+  // The document as last saved; the editor is dirty whenever it differs
+  const [savedDoc, setSavedDoc] = useState<EditorDocument>(emptyDocument)
+  const [history, setHistory] = useState<History<EditorDocument>>(emptyHistory)
+
+  // Changes read and write these refs synchronously so rapid calls (AI
+  // streaming, keystrokes) each build on the last without stale closures
+  const docRef = useRef(doc)
+  const historyRef = useRef(history)
+
+  const applyDocument = useCallback((next: EditorDocument, nextHistory: History<EditorDocument>) => {
+    docRef.current = next
+    historyRef.current = nextHistory
+    setDoc(next)
+    setHistory(nextHistory)
+  }, [])
+
+  // Make a change as one undoable command. Commands with the same group key
+  // merge: within GROUP_WINDOW_MS by default, or for as long as they keep
+  // coming when `groupWindowMs` is Infinity.
+  const commit = useCallback((
+    label: string,
+    change: (doc: EditorDocument) => EditorDocument,
+    groupKey: string | null = null,
+    groupWindowMs?: number
+  ) => {
+    const prev = docRef.current
+    const next = change(prev)
+    if (next === prev) return
+    applyDocument(next, record(historyRef.current, { label, before: prev, after: next, groupKey, at: Date.now() }, groupWindowMs))
+  }, [applyDocument])
+
+  const changeBlocks = useCallback((
+    label: string,
+    change: (blocks: EditorBlock[]) => EditorBlock[],
+    groupKey: string | null = null,
+    groupWindowMs?: number
+  ) => {
+    commit(label, d => {
+      const blocks = change(d.blocks)
+      return blocks === d.blocks ? d : { ...d, blocks }
+    }, groupKey, groupWindowMs)
+  }, [commit])
 
   // Find a block by ID (recursive)
   const findBlock = useCallback((blocks: EditorBlock[], id: string): EditorBlock | null => {
@@ -82,7 +149,7 @@ export function EditorProvider({ children }: { children: ReactNode }) {
   const addBlock = useCallback((type: BlockType, afterId?: string, parentId?: string) => {
     const newBlock = createEmptyBlock(type)
 
-    setBlocks(prev => {
+    changeBlocks('Add block', prev => {
       const newBlocks = JSON.parse(JSON.stringify(prev)) as EditorBlock[]
 
       // If parentId is specified, add as child of that block
@@ -99,7 +166,6 @@ export function EditorProvider({ children }: { children: ReactNode }) {
           return false
         }
         addToParent(newBlocks)
-        setIsDirty(true)
         return newBlocks
       }
 
@@ -121,16 +187,15 @@ export function EditorProvider({ children }: { children: ReactNode }) {
         newBlocks.push(newBlock)
       }
 
-      setIsDirty(true)
       return newBlocks
     })
 
     setSelectedBlockId(newBlock.id)
-  }, [])
+  }, [changeBlocks])
 
-  // Update a block
+  // Update a block; typing in one field groups into a single undo step
   const updateBlock = useCallback((id: string, updates: Partial<EditorBlock>) => {
-    setBlocks(prev => {
+    changeBlocks('Edit block', prev => {
       const newBlocks = JSON.parse(JSON.stringify(prev)) as EditorBlock[]
 
       const update = (blocks: EditorBlock[]): boolean => {
@@ -145,14 +210,13 @@ export function EditorProvider({ children }: { children: ReactNode }) {
       }
 
       update(newBlocks)
-      setIsDirty(true)
       return newBlocks
-    })
-  }, [])
+    }, `update:${id}:${Object.keys(updates).sort().join(',')}`)
+  }, [changeBlocks])
 
   // Delete a block
   const deleteBlock = useCallback((id: string) => {
-    setBlocks(prev => {
+    changeBlocks('Delete block', prev => {
       const newBlocks = JSON.parse(JSON.stringify(prev)) as EditorBlock[]
 
       const remove = (blocks: EditorBlock[]): boolean => {
@@ -167,7 +231,6 @@ export function EditorProvider({ children }: { children: ReactNode }) {
       }
 
       remove(newBlocks)
-      setIsDirty(true)
       return newBlocks
     })
 
@@ -175,11 +238,11 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     if (selectedBlockId === id) {
       setSelectedBlockId(null)
     }
-  }, [selectedBlockId])
+  }, [selectedBlockId, changeBlocks])
 
   // Move a block up or down
   const moveBlock = useCallback((id: string, direction: 'up' | 'down') => {
-    setBlocks(prev => {
+    changeBlocks('Move block', prev => {
       const newBlocks = JSON.parse(JSON.stringify(prev)) as EditorBlock[]
 
       const move = (blocks: EditorBlock[]): boolean => {
@@ -204,14 +267,12 @@ export function EditorProvider({ children }: { children: ReactNode }) {
       }
       return prev // Return original if no move happened
     })
-    setIsDirty(true)
-  }, [])
+  }, [changeBlocks])
 
   // Reorder blocks (for drag and drop)
   const reorderBlocks = useCallback((newBlocks: EditorBlock[]) => {
-    setBlocks(newBlocks)
-    setIsDirty(true)
-  }, [])
+    changeBlocks('Reorder blocks', () => newBlocks)
+  }, [changeBlocks])
 
   // Select a block
   const selectBlock = useCallback((id: string | null) => {
@@ -220,22 +281,36 @@ export function EditorProvider({ children }: { children: ReactNode }) {
 
   // Update metadata
   const setMetadata = useCallback((updates: Partial<EditorGuideMetadata>) => {
-    setMetadataState(prev => {
-      setIsDirty(true)
-      return { ...prev, ...updates }
-    })
-  }, [])
+    commit(
+      'Edit guide details',
+      d => ({ ...d, metadata: { ...d.metadata, ...updates } }),
+      `metadata:${Object.keys(updates).sort().join(',')}`
+    )
+  }, [commit])
+
+  // Initialize blocks (for editing existing guides); a fresh start with no history
+  const initializeBlocks = useCallback((newBlocks: EditorBlock[], metadata?: Partial<EditorGuideMetadata>) => {
+    const next = { blocks: newBlocks, metadata: { ...docRef.current.metadata, ...metadata } }
+    applyDocument(next, emptyHistory())
+    setSavedDoc(next)
+    setSelectedBlockId(null)
+  }, [applyDocument])
 
-  // Initialize blocks (for editing existing guides)
-  const initializeBlocks = useCallback((newBlocks: EditorBlock[]) => {
-    setBlocks(newBlocks)
+  // Swap in new content (AI "replace") as an undoable step
+  const replaceBlocks = useCallback((newBlocks: EditorBlock[], options?: { group?: string }) => {
+    changeBlocks('Replace content', () => newBlocks, options?.group ?? null, Infinity)
     setSelectedBlockId(null)
-    setIsDirty(false)
-  }, [])
+  }, [changeBlocks])
 
-  // Append blocks (for AI streaming - uses functional update to avoid stale closures)
-  const appendBlocks = useCallback((newBlocks: EditorBlock[], options?: { replaceMatching?: boolean }) => {
-    setBlocks(prev => {
+  // Bring back an autosaved draft; undo returns to what was loaded
+  const restoreDocument = useCallback((newBlocks: EditorBlock[], metadata: EditorGuideMetadata, label: string) => {
+    commit(label, () => ({ blocks: newBlocks, metadata }))
+    setSelectedBlockId(null)
+  }, [commit])
+
+  // Append blocks (for AI streaming - builds on the latest document, not a stale closure)
+  const appendBlocks = useCallback((newBlocks: EditorBlock[], options?: { replaceMatching?: boolean; group?: string }) => {
+    changeBlocks('Add content', prev => {
       if (options?.replaceMatching) {
         // Try to replace matching sections (same type for quiz/checklist)
         let updated = [...prev]
@@ -260,28 +335,51 @@ export function EditorProvider({ children }: { children: ReactNode }) {
         // Simple append
         return [...prev, ...newBlocks]
       }
-    })
-    setIsDirty(true)
-  }, [])
+    }, options?.group ?? null, Infinity)
+  }, [changeBlocks])
+
+  const undo = useCallback(() => {
+    const step = undoHistory(historyRef.current)
+    if (step) applyDocument(step.state, step.history)
+  }, [applyDocument])
+
+  const redo = useCallback(() => {
+    const step = redoHistory(historyRef.current)
+    if (step) applyDocument(step.state, step.history)
+  }, [applyDocument])
 
-  // Reset the editor to default state
+  // Reset the editor to default state; undo brings the content back
   const resetEditor = useCallback(() => {
-    setBlocks([])
+    commit('Reset', () => emptyDocument)
     setSelectedBlockId(null)
-    setMetadataState(defaultMetadata)
-    setIsDirty(false)
-  }, [])
+  }, [commit])
 
   // Mark the editor as clean (after saving)
   const markClean = useCallback(() => {
-    setIsDirty(false)
+    setSavedDoc(docRef.current)
   }, [])
 
+  // A co-editor's changes: applied to the document and folded into every
+  // step of the history, so undo only takes back your own
+  const applyRemoteOps = useCallback((ops: CollabOp[]) => {
+    if (ops.length === 0) return
+    applyDocument(applyOps(docRef.current, ops), mapHistory(historyRef.current, d => applyOps(d, ops)))
+  }, [applyDocument])
+
+  // Take on the live session's copy of the guide; the history starts over
+  const loadSharedDocument = useCallback((shared: EditorDocument) => {
+    applyDocument(shared, emptyHistory())
+  }, [applyDocument])
+
   const value: EditorContextValue = {
-    blocks,
+    blocks: doc.blocks,
     selectedBlockId,
-    metadata,
-    isDirty,
+    metadata: doc.metadata,
+    isDirty: doc !== savedDoc,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null,
     addBlock,
     updateBlock,
     deleteBlock,
@@ -289,10 +387,16 @@ export function EditorProvider({ children }: { children: ReactNode }) {
     reorderBlocks,
     selectBlock,
     setMetadata,
+    undo,
+    redo,
     initializeBlocks,
     appendBlocks,
+    replaceBlocks,
+    restoreDocument,
     resetEditor,
-    markClean
+    markClean,
+    applyRemoteOps,
+    loadSharedDocument
   }
 
   return (
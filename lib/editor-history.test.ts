@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_HISTORY, emptyHistory, mapHistory, record, redo, undo, type History } from './editor-history'
+
+function type(history: History<string>, before: string, after: string, at: number, groupKey: string | null = 'text:1') {
+  return record(history, { label: 'Edit block', before, after, groupKey, at })
+}
+
+describe('record', () => {
+  it('groups rapid keystrokes in the same field into one step', () => {
+    let h = emptyHistory<string>()
+    h = type(h, '', 'a', 0)
+    h = type(h, 'a', 'ab', 400)
+    h = type(h, 'ab', 'abc', 1300)
+    expect(h.past).toHaveLength(1)
+    expect(h.past[0]).toMatchObject({ before: '', after: 'abc', at: 1300 })
+  })
+
+  it('starts a new step after a pause, in another field, or for ungrouped commands', () => {
+    let h = emptyHistory<string>()
+    h = type(h, '', 'a', 0)
+    h = type(h, 'a', 'ab', 2500)
+    h = type(h, 'ab', 'abx', 2600, 'text:2')
+    h = type(h, 'abx', 'aby', 2700, null)
+    h = type(h, 'aby', 'abz', 2800, null)
+    expect(h.past.map(c => c.after)).toEqual(['a', 'ab', 'abx', 'aby', 'abz'])
+  })
+
+  it('keeps an explicit group together however long it takes', () => {
+    const section = (before: string, after: string, at: number) => ({ label: 'AI', before, after, groupKey: 'ai:1', at })
+    let h = emptyHistory<string>()
+    h = record(h, section('mine', 'ai-1', 0), Infinity)
+    h = record(h, section('ai-1', 'ai-2', 60_000), Infinity)
+    expect(h.past).toEqual([expect.objectContaining({ before: 'mine', after: 'ai-2' })])
+  })
+
+  it('drops the oldest steps past the limit', () => {
+    let h = emptyHistory<string>()
+    for (let i = 0; i < MAX_HISTORY + 5; i++) h = type(h, String(i), String(i + 1), i, null)
+    expect(h.past).toHaveLength(MAX_HISTORY)
+    expect(h.past[0].before).toBe('5')
+  })
+})
+
+describe('undo and redo', () => {
+  it('walks back and forward through the steps', () => {
+    let h = emptyHistory<string>()
+    h = type(h, '', 'a', 0, null)
+    h = type(h, 'a', 'ab', 10, null)
+
+    const back = undo(h)!
+    expect(back.state).toBe('a')
+    const again = undo(back.history)!
+    expect(again.state).toBe('')
+    expect(undo(again.history)).toBeNull()
+
+    const forward = redo(again.history)!
+    expect(forward.state).toBe('a')
+    expect(redo(forward.history)!.state).toBe('ab')
+  })
+
+  it('clears redo on a new change and never merges into an undone group', () => {
+    let h = emptyHistory<string>()
+    h = type(h, '', 'a', 0)
+    h = type(h, 'a', 'a!', 5000)
+    const back = undo(h)!
+    h = type(back.history, 'a', 'ab', 5100)
+    expect(h.future).toEqual([])
+    expect(h.past.map(c => [c.before, c.after])).toEqual([['', 'a'], ['a', 'ab']])
+  })
+})
+
+describe('mapHistory', () => {
+  it('carries a co-editor\'s change through every step so undo keeps it', () => {
+    let h = emptyHistory<string>()
+    h = type(h, 'a', 'ab', 0, null)
+    h = type(h, 'ab', 'abc', 10, null)
+    h = undo(h)!.history
+    h = mapHistory(h, s => s.toUpperCase())
+    expect(h.past.map(c => [c.before, c.after])).toEqual([['A', 'AB']])
+    expect(h.future.map(c => [c.before, c.after])).toEqual([['AB', 'ABC']])
+    expect(undo(h)!.state).toBe('A')
+  })
+})
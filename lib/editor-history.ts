@@ -0,0 +1,75 @@
+// Undo/redo history for the custom guide editor. Every change to the guide is
+// recorded as a command holding the state before and after it; undo puts the
+// "before" back, redo the "after". Commands sharing a group key merge into
+// one step — rapid keystrokes in the same field within GROUP_WINDOW_MS of
+// each other, or every section of one AI generation — so a single undo
+// takes back the whole burst.
+
+export const GROUP_WINDOW_MS = 1000
+export const MAX_HISTORY = 100
+
+export interface HistoryCommand<S> {
+  label: string
+  before: S
+  after: S
+  // Commands with the same key merge while they keep coming
+  groupKey: string | null
+  // When the command (or the last one merged into it) happened
+  at: number
+}
+
+export interface History<S> {
+  past: HistoryCommand<S>[]
+  future: HistoryCommand<S>[]
+}
+
+export function emptyHistory<S>(): History<S> {
+  return { past: [], future: [] }
+}
+
+/**
+ * Add a command, merging it into the last one when they share a group key and
+ * it came within `windowMs` of it — unless something was just undone, which
+ * ends the group. Recording clears the redo stack; the oldest commands drop
+ * off past MAX_HISTORY.
+ */
+export function record<S>(history: History<S>, command: HistoryCommand<S>, windowMs = GROUP_WINDOW_MS): History<S> {
+  const last = history.past[history.past.length - 1]
+  const continuesGroup = !!last && history.future.length === 0 && command.groupKey !== null &&
+    last.groupKey === command.groupKey && command.at - last.at <= windowMs
+  if (continuesGroup) {
+    const merged = { ...last, after: command.after, at: command.at }
+    return { past: [...history.past.slice(0, -1), merged], future: [] }
+  }
+  return { past: [...history.past, command].slice(-MAX_HISTORY), future: [] }
+}
+
+/** Step back: the state to restore and the history after it, or null with nothing to undo. */
+export function undo<S>(history: History<S>): { history: History<S>; state: S; label: string } | null {
+  const last = history.past[history.past.length - 1]
+  if (!last) return null
+  return {
+    history: { past: history.past.slice(0, -1), future: [last, ...history.future] },
+    state: last.before,
+    label: last.label,
+  }
+}
+
+/** Step forward again after an undo, or null with nothing to redo. */
+export function redo<S>(history: History<S>): { history: History<S>; state: S; label: string } | null {
+  const next = history.future[0]
+  if (!next) return null
+  // Never merge a redone command with whatever is recorded after it
+  const done = { ...next, groupKey: null }
+  return {
+    history: { past: [...history.past, done], future: history.future.slice(1) },
+    state: next.after,
+    label: next.label,
+  }
+}
+
+/** Rewrite every state in the history, e.g. to fold in a collaborator's changes so undo keeps them. */
+export function mapHistory<S>(history: History<S>, change: (state: S) => S): History<S> {
+  const mapCommand = (command: HistoryCommand<S>) => ({ ...command, before: change(command.before), after: change(command.after) })
+  return { past: history.past.map(mapCommand), future: history.future.map(mapCommand) }
+}
@@ -210,6 +210,39 @@ export class EmailService {
 </html>`
   }
 
+  // Tell a teacher they've been added as a co-editor of someone's guide
+  async sendGuideInvite(invite: { to: string; inviterName: string; guideTitle: string; editUrl: string }): Promise<boolean> {
+    try {
+      if (!this.transporter) {
+        console.error('Email service not configured. Please set GMAIL_APP_PASSWORD in your .env.local file.')
+        return false
+      }
+
+      const escape = (text: string) =>
+        text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+      const inviter = escape(invite.inviterName)
+      const title = escape(invite.guideTitle)
+      const url = escape(invite.editUrl)
+
+      const info = await this.transporter.sendMail({
+        from: `"CasanovaStudy" <mattpcasanova@gmail.com>`,
+        to: invite.to,
+        subject: `${invite.inviterName} invited you to edit "${invite.guideTitle}"`,
+        html: `<div style="font-family:Arial,Helvetica,sans-serif;font-size:14px;line-height:22px;color:#0f172a;max-width:600px;">
+  <p>${inviter} added you as a co-editor of the study guide <strong>${title}</strong> on CasanovaStudy.</p>
+  <p>You can edit it together in real time — you'll see who else has it open and what they change.</p>
+  <p><a href="${url}" style="background-color:#2563eb;border-radius:6px;color:#ffffff;display:inline-block;font-weight:bold;line-height:40px;padding:0 20px;text-decoration:none;">Open the guide</a></p>
+  <p style="font-size:12px;color:#64748b;">Or paste this link into your browser: ${url}</p>
+</div>`
+      })
+      console.log('Invite email sent:', info.messageId)
+      return true
+    } catch (error) {
+      console.error('Invite email error:', error)
+      return false
+    }
+  }
+
   async verifyConnection(): Promise<boolean> {
     try {
       await this.transporter.verify()
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MIN_EASE,
+  formatInterval,
+  isDue,
+  newCardSchedule,
+  scheduleReview,
+  statusForRating,
+  type CardSchedule,
+  type ReviewRating,
+} from './scheduler'
+
+const now = new Date('2026-10-01T12:00:00Z')
+
+function review(start: CardSchedule, ratings: ReviewRating[]): CardSchedule {
+  return ratings.reduce((card, rating) => scheduleReview(card, rating, now), start)
+}
+
+function daysUntilDue(card: CardSchedule): number {
+  return Math.round((new Date(card.due_at!).getTime() - now.getTime()) / 86400_000)
+}
+
+describe('scheduleReview', () => {
+  it('schedules a new card by rating: hard 1d, good 2d, easy 4d', () => {
+    expect(daysUntilDue(scheduleReview(newCardSchedule(), 'hard', now))).toBe(1)
+    expect(daysUntilDue(scheduleReview(newCardSchedule(), 'good', now))).toBe(2)
+    expect(daysUntilDue(scheduleReview(newCardSchedule(), 'easy', now))).toBe(4)
+  })
+
+  it('grows the interval by ease on repeated good reviews', () => {
+    const card = review(newCardSchedule(), ['good', 'good', 'good'])
+    // 2 → round(2 × 2.5) = 5 → round(5 × 2.5) = 13
+    expect(card.interval_days).toBe(13)
+    expect(card.repetitions).toBe(3)
+    expect(card.ease).toBe(2.5)
+  })
+
+  it('keeps easy > good > hard for the same card', () => {
+    const card = review(newCardSchedule(), ['good', 'good'])
+    const hard = scheduleReview(card, 'hard', now).interval_days
+    const good = scheduleReview(card, 'good', now).interval_days
+    const easy = scheduleReview(card, 'easy', now).interval_days
+    expect(hard).toBeGreaterThan(card.interval_days)
+    expect(good).toBeGreaterThan(hard)
+    expect(easy).toBeGreaterThan(good)
+  })
+
+  it('treats again as a lapse: reset reps, lower ease, due in minutes', () => {
+    const learned = review(newCardSchedule(), ['good', 'good'])
+    const lapsed = scheduleReview(learned, 'again', now)
+    expect(lapsed.repetitions).toBe(0)
+    expect(lapsed.lapses).toBe(1)
+    expect(lapsed.ease).toBe(2.3)
+    expect(lapsed.interval_days).toBe(0)
+    expect(new Date(lapsed.due_at!).getTime() - now.getTime()).toBe(10 * 60_000)
+  })
+
+  it('does not count a lapse on a card that was never learned', () => {
+    expect(scheduleReview(newCardSchedule(), 'again', now).lapses).toBe(0)
+  })
+
+  it('never drops ease below the floor', () => {
+    const card = review(newCardSchedule(), Array.from({ length: 10 }, () => 'again' as const))
+    expect(card.ease).toBe(MIN_EASE)
+  })
+
+  it('stamps last_reviewed_at with the review time', () => {
+    expect(scheduleReview(newCardSchedule(), 'good', now).last_reviewed_at).toBe(now.toISOString())
+  })
+})
+
+describe('isDue / statusForRating / formatInterval', () => {
+  it('treats new cards as due and future cards as not due', () => {
+    expect(isDue(newCardSchedule(), now)).toBe(true)
+    const scheduled = scheduleReview(newCardSchedule(), 'good', now)
+    expect(isDue(scheduled, now)).toBe(false)
+    expect(isDue(scheduled, new Date(now.getTime() + 3 * 86400_000))).toBe(true)
+  })
+
+  it('maps ratings onto the legacy binary status', () => {
+    expect(statusForRating('again')).toBe('difficult')
+    expect(statusForRating('hard')).toBe('difficult')
+    expect(statusForRating('good')).toBe('mastered')
+    expect(statusForRating('easy')).toBe('mastered')
+  })
+
+  it('labels the next interval for each button', () => {
+    const card = newCardSchedule()
+    expect(formatInterval(card, 'again', now)).toBe('10m')
+    expect(formatInterval(card, 'good', now)).toBe('2d')
+    const mature = { ...card, repetitions: 5, interval_days: 60 }
+    expect(formatInterval(mature, 'good', now)).toBe('5mo')
+  })
+})
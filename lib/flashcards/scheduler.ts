@@ -0,0 +1,120 @@
+// Spaced-repetition scheduling for flashcard_progress (SM-2 with Anki-style
+// four-button grading). Pure functions — the flashcard-progress route loads
+// the card's current schedule, calls scheduleReview, and persists the result
+// plus a flashcard_reviews history row.
+
+export type ReviewRating = 'again' | 'hard' | 'good' | 'easy'
+
+export const REVIEW_RATINGS: ReviewRating[] = ['again', 'hard', 'good', 'easy']
+
+// The legacy binary flag is still written so older views (and the mastered /
+// still-learning counters) keep working: again/hard → difficult.
+export type CardStatus = 'mastered' | 'difficult'
+
+export interface CardSchedule {
+  ease: number
+  interval_days: number
+  repetitions: number
+  lapses: number
+  due_at: string | null // null = never reviewed (a "new" card)
+  last_reviewed_at: string | null
+}
+
+export const DEFAULT_EASE = 2.5
+export const MIN_EASE = 1.3
+const MAX_EASE = 3.5
+
+// A lapsed card comes back within the same session rather than tomorrow.
+export const RELEARN_DELAY_MINUTES = 10
+
+const DAY_MS = 86400_000
+
+export function newCardSchedule(): CardSchedule {
+  return {
+    ease: DEFAULT_EASE,
+    interval_days: 0,
+    repetitions: 0,
+    lapses: 0,
+    due_at: null,
+    last_reviewed_at: null,
+  }
+}
+
+function clampEase(ease: number): number {
+  return Math.round(Math.min(MAX_EASE, Math.max(MIN_EASE, ease)) * 100) / 100
+}
+
+/**
+ * Next interval in days for a successful (non-again) review. Ratings are
+ * monotonic — easy > good > hard for the same card — and a passing review
+ * never shrinks the interval.
+ */
+function nextInterval(card: CardSchedule, rating: Exclude<ReviewRating, 'again'>, ease: number): number {
+  const prev = card.interval_days
+  if (card.repetitions === 0) {
+    return rating === 'hard' ? 1 : rating === 'good' ? 2 : 4
+  }
+  const hard = Math.max(prev + 1, Math.round(prev * 1.2))
+  if (rating === 'hard') return hard
+  const good = Math.max(hard + 1, Math.round(prev * ease))
+  if (rating === 'good') return good
+  return Math.max(good + 1, Math.round(prev * ease * 1.3))
+}
+
+/**
+ * Fold one graded review into a card's schedule.
+ * - again: lapse — reset repetitions, drop ease 0.2, due again in a few minutes.
+ * - hard:  pass with a short interval, ease -0.15.
+ * - good:  standard SM-2 growth (interval × ease).
+ * - easy:  bigger jump, ease +0.15.
+ */
+export function scheduleReview(card: CardSchedule, rating: ReviewRating, now: Date = new Date()): CardSchedule {
+  const reviewedAt = now.toISOString()
+
+  if (rating === 'again') {
+    return {
+      ease: clampEase(card.ease - 0.2),
+      interval_days: 0,
+      repetitions: 0,
+      lapses: card.repetitions > 0 ? card.lapses + 1 : card.lapses,
+      due_at: new Date(now.getTime() + RELEARN_DELAY_MINUTES * 60_000).toISOString(),
+      last_reviewed_at: reviewedAt,
+    }
+  }
+
+  const ease = clampEase(card.ease + (rating === 'hard' ? -0.15 : rating === 'easy' ? 0.15 : 0))
+  const interval = nextInterval(card, rating, ease)
+  return {
+    ease,
+    interval_days: interval,
+    repetitions: card.repetitions + 1,
+    lapses: card.lapses,
+    due_at: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    last_reviewed_at: reviewedAt,
+  }
+}
+
+/** New cards (never reviewed) and cards whose due date has passed. */
+export function isDue(card: Pick<CardSchedule, 'due_at'>, now: Date = new Date()): boolean {
+  if (!card.due_at) return true
+  return new Date(card.due_at).getTime() <= now.getTime()
+}
+
+export function statusForRating(rating: ReviewRating): CardStatus {
+  return rating === 'again' || rating === 'hard' ? 'difficult' : 'mastered'
+}
+
+/**
+ * Human label for when a card comes back, used on the rating buttons
+ * ("10m", "3d", "2mo"). Rounded down to keep the buttons narrow.
+ */
+export function formatInterval(card: CardSchedule, rating: ReviewRating, now: Date = new Date()): string {
+  const next = scheduleReview(card, rating, now)
+  const ms = new Date(next.due_at!).getTime() - now.getTime()
+  const minutes = Math.round(ms / 60_000)
+  if (minutes < 60) return `${minutes}m`
+  const days = Math.round(ms / DAY_MS)
+  if (days < 30) return `${days}d`
+  if (days < 365) return `${Math.floor(days / 30)}mo`
+  return `${Math.floor(days / 365)}y`
+}
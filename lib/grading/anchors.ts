@@ -0,0 +1,31 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { GradingAnchor } from '@/lib/grading/calibration'
+import type { ExemplarInput } from '@/lib/grading/exemplars'
+
+/** The moderated answers pinned on an assignment, oldest first, for its grading prompts. */
+export async function loadAnchors(supabase: SupabaseClient, assignmentId: string): Promise<GradingAnchor[]> {
+  const { data, error } = await supabase
+    .from('grading_anchors')
+    .select('question_number, answer, marks_awarded, marks_possible, rationale')
+    .eq('assignment_id', assignmentId)
+    .order('created_at')
+  if (error) throw new Error(`Failed to load grading anchors: ${error.message}`)
+  return (data ?? []).map(a => ({
+    question: a.question_number,
+    answer: a.answer,
+    marksAwarded: Number(a.marks_awarded),
+    marksPossible: Number(a.marks_possible),
+    rationale: a.rationale,
+  }))
+}
+
+/** The teacher-marked scripts attached to an assignment, oldest first; their files still to fetch. */
+export async function loadExemplars(supabase: SupabaseClient, assignmentId: string): Promise<ExemplarInput[]> {
+  const { data, error } = await supabase
+    .from('assignment_exemplars')
+    .select('label, file_urls, marks')
+    .eq('assignment_id', assignmentId)
+    .order('created_at')
+  if (error) throw new Error(`Failed to load exemplars: ${error.message}`)
+  return (data ?? []).map(e => ({ label: e.label, files: e.file_urls ?? [], marks: e.marks ?? [] }))
+}
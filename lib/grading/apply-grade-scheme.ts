@@ -0,0 +1,91 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { type GradeScheme, US_LETTER, gradeFor, resolveGradeScheme } from '@/lib/grading/grade-schemes'
+
+/**
+ * The scheme grading an assignment's submissions from one class; with no
+ * assignment (batch grading), the class's own scheme.
+ */
+export async function gradeSchemeFor(
+  supabase: SupabaseClient,
+  assignmentId: string | null,
+  classId: string | null
+): Promise<GradeScheme> {
+  const [assignmentRes, classRes] = await Promise.all([
+    assignmentId
+      ? supabase.from('assignments').select('grade_scheme').eq('id', assignmentId).maybeSingle()
+      : Promise.resolve({ data: null }),
+    classId
+      ? supabase.from('classes').select('grade_scheme').eq('id', classId).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ])
+  return resolveGradeScheme(assignmentRes.data?.grade_scheme, classRes.data?.grade_scheme)
+}
+
+/**
+ * The scheme for an existing grading result: its submission's assignment and
+ * class when it came from one, US letter grades for standalone gradings.
+ */
+export async function gradeSchemeForResult(supabase: SupabaseClient, gradingResultId: string): Promise<GradeScheme> {
+  const { data: submission } = await supabase
+    .from('assignment_submissions')
+    .select('assignment_id, class_id')
+    .eq('grading_result_id', gradingResultId)
+    .maybeSingle()
+  if (!submission) return US_LETTER
+  return gradeSchemeFor(supabase, submission.assignment_id, submission.class_id)
+}
+
+/**
+ * Re-grade stored results after a class's scheme or an assignment's override
+ * changes. Percentages stay as they are; only grading_results.grade moves.
+ * Returns how many results changed grade.
+ */
+export async function recomputeGrades(
+  supabase: SupabaseClient,
+  scope: { classId: string } | { assignmentId: string }
+): Promise<number> {
+  let query = supabase
+    .from('assignment_submissions')
+    .select('assignment_id, class_id, grading_result_id')
+    .not('grading_result_id', 'is', null)
+  query = 'classId' in scope ? query.eq('class_id', scope.classId) : query.eq('assignment_id', scope.assignmentId)
+  const { data: submissions, error } = await query
+  if (error) throw new Error(`Failed to load submissions to re-grade: ${error.message}`)
+  if (!submissions || submissions.length === 0) return 0
+
+  const assignmentIds = [...new Set(submissions.map(s => s.assignment_id))]
+  const classIds = [...new Set(submissions.map(s => s.class_id).filter((id): id is string => !!id))]
+  const resultIds = submissions.map(s => s.grading_result_id as string)
+  const [assignmentsRes, classesRes, resultsRes] = await Promise.all([
+    supabase.from('assignments').select('id, grade_scheme').in('id', assignmentIds),
+    classIds.length > 0
+      ? supabase.from('classes').select('id, grade_scheme').in('id', classIds)
+      : Promise.resolve({ data: [] as Array<{ id: string; grade_scheme: unknown }> }),
+    supabase.from('grading_results').select('id, percentage, grade').in('id', resultIds),
+  ])
+  const assignmentSchemes = new Map((assignmentsRes.data ?? []).map(a => [a.id, a.grade_scheme]))
+  const classSchemes = new Map((classesRes.data ?? []).map(c => [c.id, c.grade_scheme]))
+  const results = new Map((resultsRes.data ?? []).map(r => [r.id, r]))
+
+  // Group by the new grade so each distinct grade is one update
+  const idsByGrade = new Map<string, string[]>()
+  for (const s of submissions) {
+    const result = results.get(s.grading_result_id as string)
+    if (!result || result.percentage == null) continue
+    const scheme = resolveGradeScheme(
+      assignmentSchemes.get(s.assignment_id),
+      s.class_id ? classSchemes.get(s.class_id) : null
+    )
+    const grade = gradeFor(Number(result.percentage), scheme)
+    if (grade === result.grade) continue
+    idsByGrade.set(grade, [...(idsByGrade.get(grade) ?? []), result.id])
+  }
+
+  let changed = 0
+  for (const [grade, ids] of idsByGrade) {
+    const { error: updateError } = await supabase.from('grading_results').update({ grade }).in('id', ids)
+    if (updateError) throw new Error(`Failed to re-grade results: ${updateError.message}`)
+    changed += ids.length
+  }
+  return changed
+}
@@ -0,0 +1,403 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PDFDocument } from 'pdf-lib'
+import { ClaudeService } from '@/lib/claude-api'
+import { runGradingPipeline, type FileMeta } from '@/lib/grade-exam-pipeline'
+import { fetchAsBuffer } from '@/lib/submission-grading'
+import { gradeSchemeFor } from '@/lib/grading/apply-grade-scheme'
+import { JobCancelledError } from '@/lib/jobs/retry'
+import {
+  SCAN_READ_CHUNK_PAGES,
+  matchPapers,
+  splitAtMarkers,
+  splitFixed,
+  type BatchSplitMode,
+  type PageReading,
+  type RosterStudent,
+} from '@/lib/grading/batch-split'
+
+// The database side of batch grading: split a batch's scan into
+// grading_batch_items, then grade the items one at a time. Both run in the
+// batch's grade_batch job (lib/jobs/handlers.ts), one job per batch at a time.
+
+interface BatchRow {
+  id: string
+  teacher_id: string
+  class_id: string
+  title: string
+  split_mode: BatchSplitMode
+  pages_per_student: number | null
+  scan_url: string
+  scan_filename: string | null
+  mark_scheme_url: string | null
+  mark_scheme_filename: string | null
+  additional_comments: string | null
+}
+
+interface ItemRow {
+  id: string
+  position: number
+  start_page: number
+  end_page: number
+  detected_name: string | null
+  student_id: string | null
+}
+
+interface StudentProfile {
+  id: string
+  email: string
+  first_name: string | null
+  last_name: string | null
+}
+
+const BATCH_COLUMNS =
+  'id, teacher_id, class_id, title, split_mode, pages_per_student, scan_url, scan_filename, mark_scheme_url, mark_scheme_filename, additional_comments'
+
+/** Active students in the class, for matching names off the papers. */
+export async function loadRoster(supabase: SupabaseClient, classId: string): Promise<RosterStudent[]> {
+  const { data: enrollments, error } = await supabase
+    .from('class_enrollments')
+    .select('student_id')
+    .eq('class_id', classId)
+    .eq('status', 'active')
+  if (error) throw new Error(`Failed to load class roster: ${error.message}`)
+  if (!enrollments || enrollments.length === 0) return []
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('id, email, first_name, last_name')
+    .in('id', enrollments.map(e => e.student_id))
+  if (profilesError) throw new Error(`Failed to load student profiles: ${profilesError.message}`)
+
+  return (profiles ?? []).map(p => ({
+    studentId: p.id,
+    firstName: p.first_name,
+    lastName: p.last_name,
+    email: p.email,
+  }))
+}
+
+/** The grading_results fields naming the student a paper belongs to. */
+function studentFields(profile: StudentProfile | null, item: Pick<ItemRow, 'position' | 'detected_name'>) {
+  if (!profile) {
+    return {
+      student_user_id: null,
+      student_first_name: null,
+      student_last_name: null,
+      student_name: item.detected_name ?? `Unmatched paper ${item.position}`,
+    }
+  }
+  return {
+    student_user_id: profile.id,
+    student_first_name: profile.first_name,
+    student_last_name: profile.last_name,
+    student_name: [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email,
+  }
+}
+
+async function loadProfile(supabase: SupabaseClient, studentId: string | null): Promise<StudentProfile | null> {
+  if (!studentId) return null
+  const { data } = await supabase
+    .from('user_profiles')
+    .select('id, email, first_name, last_name')
+    .eq('id', studentId)
+    .maybeSingle()
+  return data
+}
+
+async function loadBatch(supabase: SupabaseClient, batchId: string): Promise<BatchRow> {
+  const { data: batch, error } = await supabase
+    .from('grading_batches')
+    .select(BATCH_COLUMNS)
+    .eq('id', batchId)
+    .single()
+  if (error || !batch) throw new Error('Grading batch not found')
+  return batch as BatchRow
+}
+
+async function loadScan(batch: BatchRow): Promise<PDFDocument> {
+  const { buffer } = await fetchAsBuffer(batch.scan_url, batch.scan_filename ?? 'scan.pdf', 'application/pdf')
+  return PDFDocument.load(buffer, { ignoreEncryption: true })
+}
+
+/** A new PDF of the given 1-based pages of the scan, in order. */
+async function extractPages(scan: PDFDocument, pages: number[]): Promise<Buffer> {
+  const out = await PDFDocument.create()
+  const copied = await out.copyPages(scan, pages.map(p => p - 1))
+  copied.forEach(p => out.addPage(p))
+  return Buffer.from(await out.save())
+}
+
+/** Read the given pages, a chunk at a time, numbered as in the scan. */
+async function readPages(scan: PDFDocument, pages: number[], mode: BatchSplitMode): Promise<PageReading[]> {
+  const claude = new ClaudeService()
+  const readings: PageReading[] = []
+  for (let i = 0; i < pages.length; i += SCAN_READ_CHUNK_PAGES) {
+    const chunk = pages.slice(i, i + SCAN_READ_CHUNK_PAGES)
+    const pdf = await extractPages(scan, chunk)
+    const read = await claude.readScanPages({ pdf, pageCount: chunk.length, mode })
+    read.forEach((r, j) => readings.push({ ...r, page: chunk[j] }))
+  }
+  return readings
+}
+
+/**
+ * Split a new batch's scan into papers and match each to a student. Leaves
+ * the batch 'grading' with its items queued, or 'failed' with a reason the
+ * teacher can act on (wrong page count, no cover pages found, …).
+ */
+export async function splitBatch(supabase: SupabaseClient, batchId: string): Promise<void> {
+  const batch = await loadBatch(supabase, batchId)
+
+  try {
+    const scan = await loadScan(batch)
+    const pageCount = scan.getPageCount()
+    let split
+    // What's written on each paper: its first page, or the separator before it
+    let labels: Array<{ name: string | null; code: string | null }>
+
+    if (batch.split_mode === 'fixed') {
+      split = splitFixed(pageCount, batch.pages_per_student ?? 0)
+      labels = split.ok ? await readPages(scan, split.ranges.map(r => r.start), 'fixed') : []
+    } else {
+      const allPages = Array.from({ length: pageCount }, (_, i) => i + 1)
+      const readings = await readPages(scan, allPages, batch.split_mode)
+      const byPage = new Map(readings.map(r => [r.page, r]))
+      split = splitAtMarkers(pageCount, readings.filter(r => r.kind === batch.split_mode).map(r => r.page), batch.split_mode)
+      labels = split.ok
+        ? split.ranges.map(r => {
+          const first = byPage.get(r.start)!
+          if (batch.split_mode === 'cover') return first
+          const separator = byPage.get(r.start - 1)!
+          return { name: separator.name ?? first.name, code: separator.code }
+        })
+        : []
+    }
+
+    if (!split.ok) {
+      await supabase
+        .from('grading_batches')
+        .update({ status: 'failed', error: split.error, page_count: pageCount, updated_at: new Date().toISOString() })
+        .eq('id', batchId)
+      return
+    }
+
+    const matches = matchPapers(labels, await loadRoster(supabase, batch.class_id))
+    const { error: insertError } = await supabase.from('grading_batch_items').insert(
+      split.ranges.map((r, i) => ({
+        batch_id: batchId,
+        position: i + 1,
+        start_page: r.start,
+        end_page: r.end,
+        detected_name: labels[i].name,
+        detected_code: labels[i].code,
+        student_id: matches[i].studentId,
+        match_method: matches[i].method,
+        match_confidence: Number(matches[i].confidence.toFixed(3)),
+      }))
+    )
+    if (insertError) throw new Error(`Failed to save papers: ${insertError.message}`)
+
+    await supabase
+      .from('grading_batches')
+      .update({ status: 'grading', page_count: pageCount, error: null, updated_at: new Date().toISOString() })
+      .eq('id', batchId)
+  } catch (err) {
+    console.error('Batch split error:', err)
+    await supabase
+      .from('grading_batches')
+      .update({
+        status: 'failed',
+        error: err instanceof Error ? err.message : "Couldn't split the scan",
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', batchId)
+  }
+}
+
+/** Take the next queued paper, or null when there are none left. */
+async function claimNextItem(supabase: SupabaseClient, batchId: string): Promise<ItemRow | null> {
+  for (;;) {
+    const { data: next } = await supabase
+      .from('grading_batch_items')
+      .select('id')
+      .eq('batch_id', batchId)
+      .eq('status', 'queued')
+      .order('position')
+      .limit(1)
+      .maybeSingle()
+    if (!next) return null
+
+    // Conditional on still being queued, so two runners never grade one paper
+    const { data: claimed } = await supabase
+      .from('grading_batch_items')
+      .update({ status: 'grading', error: null, started_at: new Date().toISOString() })
+      .eq('id', next.id)
+      .eq('status', 'queued')
+      .select('id, position, start_page, end_page, detected_name, student_id')
+      .maybeSingle()
+    if (claimed) return claimed
+  }
+}
+
+/**
+ * Grade a batch's queued papers one after another, each into its own
+ * grading_results row linked to the class and (when matched) the student.
+ * One failed paper is recorded on its item and doesn't stop the rest; a
+ * cancelled job stops between papers.
+ */
+export async function gradeBatchItems(supabase: SupabaseClient, batchId: string, signal?: AbortSignal): Promise<void> {
+  const batch = await loadBatch(supabase, batchId)
+
+  // Only one job runs a batch at a time, so a paper still 'grading' was
+  // abandoned by an earlier attempt that crashed or timed out
+  await supabase
+    .from('grading_batch_items')
+    .update({ status: 'queued', started_at: null })
+    .eq('batch_id', batchId)
+    .eq('status', 'grading')
+
+  let item = await claimNextItem(supabase, batchId)
+  if (item) {
+    const [scan, markScheme, gradeScheme, classRes] = await Promise.all([
+      loadScan(batch),
+      batch.mark_scheme_url
+        ? fetchAsBuffer(batch.mark_scheme_url, batch.mark_scheme_filename ?? 'mark-scheme')
+        : Promise.resolve(undefined),
+      gradeSchemeFor(supabase, null, batch.class_id),
+      supabase.from('classes').select('name, period').eq('id', batch.class_id).maybeSingle(),
+    ])
+
+    while (item) {
+      try {
+        const paper: FileMeta = {
+          buffer: await extractPages(scan, range(item.start_page, item.end_page)),
+          name: `${batch.title} - paper ${item.position}.pdf`,
+          type: 'application/pdf',
+        }
+        const result = await runGradingPipeline({
+          userId: batch.teacher_id,
+          userType: 'teacher',
+          markSchemeFile: markScheme,
+          studentFiles: [paper],
+          additionalComments: batch.additional_comments ?? undefined,
+          gradeScheme,
+        })
+
+        await supabase
+          .from('grading_results')
+          .update({
+            ...studentFields(await loadProfile(supabase, item.student_id), item),
+            class_id: batch.class_id,
+            class_name: classRes.data?.name ?? null,
+            class_period: classRes.data?.period ?? null,
+            exam_title: batch.title,
+          })
+          .eq('id', result.id)
+
+        await supabase
+          .from('grading_batch_items')
+          .update({ status: 'graded', grading_result_id: result.id, finished_at: new Date().toISOString() })
+          .eq('id', item.id)
+      } catch (err) {
+        console.error(`Batch ${batchId} paper ${item.position} grading error:`, err)
+        await supabase
+          .from('grading_batch_items')
+          .update({
+            status: 'failed',
+            error: err instanceof Error ? err.message : 'Grading failed',
+            finished_at: new Date().toISOString(),
+          })
+          .eq('id', item.id)
+      }
+      if (signal?.aborted) throw new JobCancelledError()
+      item = await claimNextItem(supabase, batchId)
+    }
+  }
+
+  await finishBatchIfDone(supabase, batchId)
+}
+
+function range(start: number, end: number): number[] {
+  return Array.from({ length: end - start + 1 }, (_, i) => start + i)
+}
+
+async function finishBatchIfDone(supabase: SupabaseClient, batchId: string): Promise<void> {
+  const { count } = await supabase
+    .from('grading_batch_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('batch_id', batchId)
+    .in('status', ['queued', 'grading'])
+  if (count === 0) {
+    await supabase
+      .from('grading_batches')
+      .update({ status: 'done', updated_at: new Date().toISOString() })
+      .eq('id', batchId)
+      .eq('status', 'grading')
+  }
+}
+
+/**
+ * The batch's job gave up (cancelled, or out of attempts): papers still
+ * waiting are marked failed so the teacher can retry them one by one, and a
+ * batch that never got split is failed outright.
+ */
+export async function abandonBatch(supabase: SupabaseClient, batchId: string, reason: string): Promise<void> {
+  const now = new Date().toISOString()
+  await supabase
+    .from('grading_batches')
+    .update({ status: 'failed', error: reason, updated_at: now })
+    .eq('id', batchId)
+    .eq('status', 'splitting')
+  await supabase
+    .from('grading_batch_items')
+    .update({ status: 'failed', error: reason, finished_at: now })
+    .eq('batch_id', batchId)
+    .in('status', ['queued', 'grading'])
+  await finishBatchIfDone(supabase, batchId)
+}
+
+/**
+ * Undo abandonBatch for a retried job: failed papers are queued again, and a
+ * batch that failed before it was split starts over from splitting.
+ */
+export async function reopenBatch(supabase: SupabaseClient, batchId: string): Promise<void> {
+  const { count } = await supabase
+    .from('grading_batch_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('batch_id', batchId)
+  await supabase
+    .from('grading_batch_items')
+    .update({ status: 'queued', error: null, started_at: null, finished_at: null })
+    .eq('batch_id', batchId)
+    .eq('status', 'failed')
+  await supabase
+    .from('grading_batches')
+    .update({ status: count ? 'grading' : 'splitting', error: null, updated_at: new Date().toISOString() })
+    .eq('id', batchId)
+}
+
+/**
+ * Give a paper to a student (or take it away with null). A graded paper's
+ * report follows, so it shows up in that student's reports.
+ */
+export async function assignBatchItem(
+  supabase: SupabaseClient,
+  itemId: string,
+  studentId: string | null
+): Promise<void> {
+  const { data: item, error } = await supabase
+    .from('grading_batch_items')
+    .update({ student_id: studentId, match_method: studentId ? 'teacher' : null })
+    .eq('id', itemId)
+    .select('id, position, detected_name, grading_result_id')
+    .single()
+  if (error || !item) throw new Error(`Failed to assign paper: ${error?.message ?? 'not found'}`)
+
+  if (item.grading_result_id) {
+    const { error: resultError } = await supabase
+      .from('grading_results')
+      .update(studentFields(await loadProfile(supabase, studentId), item))
+      .eq('id', item.grading_result_id)
+    if (resultError) throw new Error(`Failed to update report: ${resultError.message}`)
+  }
+}
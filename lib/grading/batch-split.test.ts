@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import {
+  matchPapers,
+  matchStudent,
+  nameSimilarity,
+  parseScanReading,
+  splitAtMarkers,
+  splitFixed,
+  studentCode,
+  type RosterStudent,
+} from './batch-split'
+
+const roster: RosterStudent[] = [
+  { studentId: '3f9a1c2b-0000-4000-8000-000000000001', firstName: 'Jordan', lastName: 'Smith', email: 'jsmith@school.org' },
+  { studentId: 'a01b2c3d-0000-4000-8000-000000000002', firstName: 'Jane', lastName: 'Smith', email: 'jane@school.org' },
+  { studentId: '7e6d5c4b-0000-4000-8000-000000000003', firstName: 'Zoë', lastName: 'Okafor', email: 'zoe@school.org' },
+  { studentId: 'c0ffee00-0000-4000-8000-000000000004', firstName: null, lastName: null, email: 'marcus.lee@school.org' },
+]
+
+describe('splitFixed', () => {
+  it('cuts the scan into equal papers', () => {
+    expect(splitFixed(6, 2)).toEqual({ ok: true, ranges: [{ start: 1, end: 2 }, { start: 3, end: 4 }, { start: 5, end: 6 }] })
+  })
+
+  it('refuses a scan that does not divide evenly', () => {
+    expect(splitFixed(7, 2)).toEqual({
+      ok: false,
+      error: "The scan has 7 pages, which doesn't divide into papers of 2 — check for missing or extra pages",
+    })
+    expect(splitFixed(6, 0).ok).toBe(false)
+  })
+})
+
+describe('splitAtMarkers', () => {
+  it('starts each paper at its cover page', () => {
+    expect(splitAtMarkers(7, [5, 1, 3], 'cover')).toEqual({
+      ok: true,
+      ranges: [{ start: 1, end: 2 }, { start: 3, end: 4 }, { start: 5, end: 7 }],
+    })
+  })
+
+  it('leaves separator sheets out of the papers', () => {
+    expect(splitAtMarkers(7, [1, 4], 'separator')).toEqual({ ok: true, ranges: [{ start: 2, end: 3 }, { start: 5, end: 7 }] })
+  })
+
+  it('explains scans it cannot split', () => {
+    expect(splitAtMarkers(4, [], 'cover')).toEqual({ ok: false, error: 'No cover pages were found in the scan' })
+    expect(splitAtMarkers(4, [2], 'cover')).toEqual({ ok: false, error: "Page 1 isn't a cover page — the scan must start with one" })
+    expect(splitAtMarkers(4, [1, 2, 3], 'separator')).toEqual({
+      ok: false,
+      error: 'The separator sheet on page 1 has no exam pages after it',
+    })
+  })
+})
+
+describe('parseScanReading', () => {
+  it('reads every page, blanks as null', () => {
+    const raw = '```json\n{"pages":[{"page":2,"kind":"answer","name":null,"code":null},{"page":1,"kind":"cover","name":" Jo Smith ","code":""}]}\n```'
+    expect(parseScanReading(raw, 2)).toEqual({
+      ok: true,
+      pages: [
+        { page: 1, kind: 'cover', name: 'Jo Smith', code: null },
+        { page: 2, kind: 'answer', name: null, code: null },
+      ],
+    })
+  })
+
+  it('rejects missing, repeated and extra pages', () => {
+    const page = (n: number) => ({ page: n, kind: 'answer', name: null, code: null })
+    expect(parseScanReading(JSON.stringify({ pages: [page(1)] }), 2)).toEqual({ ok: false, error: 'page 2 is missing' })
+    expect(parseScanReading(JSON.stringify({ pages: [page(1), page(1)] }), 1).ok).toBe(false)
+    expect(parseScanReading(JSON.stringify({ pages: [page(1), page(2)] }), 1).ok).toBe(false)
+    expect(parseScanReading('not json', 1).ok).toBe(false)
+  })
+})
+
+describe('nameSimilarity', () => {
+  it('ignores order, case, punctuation and accents', () => {
+    expect(nameSimilarity('SMITH, Jordan', roster[0])).toBe(1)
+    expect(nameSimilarity('Zoe Okafor', roster[2])).toBe(1)
+  })
+
+  it('falls back to the email when the profile has no name', () => {
+    expect(nameSimilarity('Marcus Lee', roster[3])).toBe(1)
+  })
+
+  it('gives partial credit for initials and misreadings', () => {
+    expect(nameSimilarity('J. Smith', roster[0])).toBeCloseTo(0.9)
+    expect(nameSimilarity('Jordon Smith', roster[0])).toBeGreaterThan(0.9)
+    expect(nameSimilarity('Smith', roster[0])).toBe(0.5)
+  })
+})
+
+describe('matchStudent', () => {
+  it('matches a separator-sheet code exactly, forgiving O/0 and I/1', () => {
+    expect(studentCode(roster[0].studentId)).toBe('3F9A1C2B')
+    expect(matchStudent({ name: null, code: '3F9A-IC2B' }, roster)).toEqual({
+      studentId: roster[0].studentId,
+      confidence: 1,
+      method: 'code',
+    })
+    expect(matchStudent({ name: null, code: 'C0FFEEOO' }, roster).studentId).toBe(roster[3].studentId)
+  })
+
+  it('matches a clear handwritten name', () => {
+    const match = matchStudent({ name: 'Jordon Smith', code: null }, roster)
+    expect(match.studentId).toBe(roster[0].studentId)
+    expect(match.method).toBe('name')
+  })
+
+  it('leaves weak and ambiguous names unmatched', () => {
+    expect(matchStudent({ name: 'Smith', code: null }, roster).studentId).toBeNull()
+    expect(matchStudent({ name: 'J. Smith', code: null }, roster).studentId).toBeNull()
+    expect(matchStudent({ name: 'Priya Patel', code: null }, roster)).toEqual({
+      studentId: null,
+      confidence: expect.any(Number),
+      method: null,
+    })
+    expect(matchStudent({ name: null, code: null }, roster).studentId).toBeNull()
+  })
+})
+
+describe('matchPapers', () => {
+  it('gives each student to at most one paper, keeping the stronger match', () => {
+    const matches = matchPapers(
+      [{ name: 'Jordon Smith', code: null }, { name: 'Jordan Smith', code: null }, { name: 'Jane Smith', code: null }],
+      roster
+    )
+    expect(matches.map(m => m.studentId)).toEqual([null, roster[0].studentId, roster[1].studentId])
+  })
+})
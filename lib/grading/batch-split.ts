@@ -0,0 +1,260 @@
+import { z } from 'zod'
+
+// Batch grading: one scanned PDF holding a whole class's papers is split into
+// one document per student, and each document is matched to an enrolled
+// student by the name (or separator-sheet code) written on it.
+
+export type BatchSplitMode = 'fixed' | 'cover' | 'separator'
+
+export const BATCH_SPLIT_MODES: BatchSplitMode[] = ['fixed', 'cover', 'separator']
+
+/** 1-based, inclusive page numbers in the scan. */
+export interface PageRange {
+  start: number
+  end: number
+}
+
+export type SplitResult = { ok: true; ranges: PageRange[] } | { ok: false; error: string }
+
+// Anthropic's PDF input tops out at 100 pages; reading in smaller chunks keeps
+// each request well clear of that and of the output limit.
+export const SCAN_READ_CHUNK_PAGES = 20
+
+/** Every student's paper has the same number of pages, in order. */
+export function splitFixed(pageCount: number, pagesPerStudent: number): SplitResult {
+  if (!Number.isInteger(pagesPerStudent) || pagesPerStudent < 1) {
+    return { ok: false, error: 'Pages per student must be a whole number of at least 1' }
+  }
+  if (pageCount % pagesPerStudent !== 0) {
+    return {
+      ok: false,
+      error: `The scan has ${pageCount} pages, which doesn't divide into papers of ${pagesPerStudent} — check for missing or extra pages`,
+    }
+  }
+  const ranges: PageRange[] = []
+  for (let start = 1; start <= pageCount; start += pagesPerStudent) {
+    ranges.push({ start, end: start + pagesPerStudent - 1 })
+  }
+  return { ok: true, ranges }
+}
+
+/**
+ * Split at marker pages. A cover page is the first page of its student's
+ * paper; a separator sheet only divides papers and is left out of them.
+ */
+export function splitAtMarkers(pageCount: number, markerPages: number[], mode: 'cover' | 'separator'): SplitResult {
+  const markers = [...new Set(markerPages)].filter(p => p >= 1 && p <= pageCount).sort((a, b) => a - b)
+  const noun = mode === 'cover' ? 'cover page' : 'separator sheet'
+  if (markers.length === 0) return { ok: false, error: `No ${noun}s were found in the scan` }
+  if (markers[0] !== 1) {
+    return { ok: false, error: `Page 1 isn't a ${noun} — the scan must start with one` }
+  }
+
+  const ranges: PageRange[] = []
+  for (let i = 0; i < markers.length; i++) {
+    const start = mode === 'cover' ? markers[i] : markers[i] + 1
+    const end = (markers[i + 1] ?? pageCount + 1) - 1
+    if (start > end) {
+      return { ok: false, error: `The ${noun} on page ${markers[i]} has no exam pages after it` }
+    }
+    ranges.push({ start, end })
+  }
+  return { ok: true, ranges }
+}
+
+// ---------------------------------------------------------------------------
+// Reading the scan
+// ---------------------------------------------------------------------------
+
+export type PageKind = 'cover' | 'separator' | 'answer'
+
+export interface PageReading {
+  page: number
+  kind: PageKind
+  // As written on the page; null when there is no name or it can't be read
+  name: string | null
+  code: string | null
+}
+
+const blankToNull = (v: string | null | undefined) => (v && v.trim() ? v.trim() : null)
+
+const pageReadingSchema = z.object({
+  page: z.number().int().min(1),
+  kind: z.enum(['cover', 'separator', 'answer']),
+  name: z.string().nullish().transform(blankToNull),
+  code: z.string().nullish().transform(blankToNull),
+})
+
+const scanReadingSchema = z.object({ pages: z.array(pageReadingSchema) })
+
+export const SCAN_READING_JSON_INSTRUCTIONS = `Respond with ONLY a JSON object, no other text:
+{"pages": [{"page": <1-based page number within this PDF>, "kind": "cover" | "separator" | "answer", "name": "<student name exactly as written, or null>", "code": "<student code printed on a separator sheet, or null>"}]}
+Include every page exactly once, in order.`
+
+/**
+ * Parse the model's reading of a chunk of `pageCount` pages. Every page must
+ * be present exactly once; anything else is reported rather than guessed at.
+ */
+export function parseScanReading(
+  raw: string,
+  pageCount: number
+): { ok: true; pages: PageReading[] } | { ok: false; error: string } {
+  const text = raw.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '')
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return { ok: false, error: 'response was not valid JSON' }
+  }
+  const parsed = scanReadingSchema.safeParse(json)
+  if (!parsed.success) return { ok: false, error: 'response did not match the expected shape' }
+
+  const byPage = new Map(parsed.data.pages.map(p => [p.page, p]))
+  if (byPage.size !== parsed.data.pages.length) return { ok: false, error: 'a page was listed more than once' }
+  const pages: PageReading[] = []
+  for (let page = 1; page <= pageCount; page++) {
+    const reading = byPage.get(page)
+    if (!reading) return { ok: false, error: `page ${page} is missing` }
+    pages.push(reading)
+  }
+  if (byPage.size !== pageCount) return { ok: false, error: `expected ${pageCount} pages` }
+  return { ok: true, pages }
+}
+
+// ---------------------------------------------------------------------------
+// Matching papers to the roster
+// ---------------------------------------------------------------------------
+
+export interface RosterStudent {
+  studentId: string
+  firstName: string | null
+  lastName: string | null
+  email: string
+}
+
+export type MatchMethod = 'code' | 'name'
+
+export interface StudentMatch {
+  studentId: string | null
+  confidence: number
+  method: MatchMethod | null
+}
+
+// Below this a name is left for the teacher to assign
+export const NAME_MATCH_THRESHOLD = 0.75
+// The best match must beat the runner-up by this much to count
+const NAME_MATCH_MARGIN = 0.1
+
+/**
+ * The code printed on a student's separator sheet: short enough to read back
+ * off a scan, derived from the student id so nothing extra is stored.
+ */
+export function studentCode(studentId: string): string {
+  return studentId.replace(/-/g, '').slice(0, 8).toUpperCase()
+}
+
+function normalizeCode(code: string): string {
+  // Scans and handwriting confuse O/0 and I/1; ids are hex so only digits are real
+  return code.toUpperCase().replace(/[^A-Z0-9]/g, '').replace(/O/g, '0').replace(/[IL]/g, '1')
+}
+
+export function nameTokens(name: string): string[] {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i]
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    prev = curr
+  }
+  return prev[b.length]
+}
+
+function tokenSimilarity(written: string, known: string): number {
+  // "J." for "Jordan"
+  if (written.length === 1) return known.startsWith(written) ? 0.8 : 0
+  return 1 - editDistance(written, known) / Math.max(written.length, known.length)
+}
+
+function rosterTokens(student: RosterStudent): string[] {
+  const named = nameTokens(`${student.firstName ?? ''} ${student.lastName ?? ''}`)
+  return named.length > 0 ? named : nameTokens(student.email.split('@')[0])
+}
+
+/**
+ * How closely a handwritten name matches a student, 0–1. Word order doesn't
+ * matter ("Smith, Jo"), small misreadings cost a little, and a written name
+ * missing the first or last name scores at most half.
+ */
+export function nameSimilarity(written: string, student: RosterStudent): number {
+  const w = nameTokens(written)
+  const known = rosterTokens(student)
+  if (w.length === 0 || known.length === 0) return 0
+
+  // Greedy pairing, best pairs first, each roster word used once
+  const pairs: Array<{ wi: number; ki: number; score: number }> = []
+  w.forEach((wt, wi) => known.forEach((kt, ki) => pairs.push({ wi, ki, score: tokenSimilarity(wt, kt) })))
+  pairs.sort((a, b) => b.score - a.score)
+  const usedW = new Set<number>()
+  const usedK = new Set<number>()
+  let total = 0
+  for (const p of pairs) {
+    if (usedW.has(p.wi) || usedK.has(p.ki)) continue
+    usedW.add(p.wi)
+    usedK.add(p.ki)
+    total += p.score
+  }
+  return total / Math.max(w.length, known.length)
+}
+
+export function matchStudent(reading: { name: string | null; code: string | null }, roster: RosterStudent[]): StudentMatch {
+  if (reading.code) {
+    const code = normalizeCode(reading.code)
+    const byCode = roster.filter(s => studentCode(s.studentId) === code)
+    if (byCode.length === 1) return { studentId: byCode[0].studentId, confidence: 1, method: 'code' }
+  }
+  if (!reading.name) return { studentId: null, confidence: 0, method: null }
+
+  const scored = roster
+    .map(s => ({ studentId: s.studentId, score: nameSimilarity(reading.name!, s) }))
+    .sort((a, b) => b.score - a.score)
+  const [best, runnerUp] = scored
+  if (!best || best.score < NAME_MATCH_THRESHOLD) {
+    return { studentId: null, confidence: best?.score ?? 0, method: null }
+  }
+  if (runnerUp && best.score - runnerUp.score < NAME_MATCH_MARGIN) {
+    return { studentId: null, confidence: best.score, method: null }
+  }
+  return { studentId: best.studentId, confidence: best.score, method: 'name' }
+}
+
+/**
+ * Match every paper in the batch. A student is given to at most one paper:
+ * when two papers match the same student, the weaker match is left for the
+ * teacher to assign.
+ */
+export function matchPapers(
+  readings: Array<{ name: string | null; code: string | null }>,
+  roster: RosterStudent[]
+): StudentMatch[] {
+  const matches = readings.map(r => matchStudent(r, roster))
+  const bestFor = new Map<string, number>()
+  matches.forEach((m, i) => {
+    if (!m.studentId) return
+    const held = bestFor.get(m.studentId)
+    if (held === undefined || matches[held].confidence < m.confidence) bestFor.set(m.studentId, i)
+  })
+  return matches.map((m, i) =>
+    m.studentId && bestFor.get(m.studentId) !== i ? { studentId: null, confidence: m.confidence, method: null } : m
+  )
+}
@@ -0,0 +1,121 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { gradeStudentWork } from '@/lib/grade-exam-pipeline'
+import { submissionPipelineInput } from '@/lib/submission-grading'
+import { gradingOutputSchema } from '@/lib/grading/structured-output'
+import { JobCancelledError, PermanentJobError } from '@/lib/jobs/retry'
+import { calibrationRunFrom, sampleIds, type CalibrationRun } from '@/lib/grading/calibration'
+
+// The database side of grading calibration: pick the submissions, re-grade
+// them through the grading pipeline (without saving reports) and store each
+// run on the calibration as it lands. Runs in the calibrate_grading job
+// (lib/jobs/handlers.ts); the report is worked out from the runs when read.
+
+interface CalibrationRow {
+  id: string
+  assignment_id: string
+  mode: 'sample' | 'repeat'
+  submission_ids: string[]
+  sample_size: number
+  runs_per_submission: number
+  runs: CalibrationRun[]
+}
+
+// Submissions with an AI grading to compare against
+const GRADED_STATUSES = ['pending_review', 'graded']
+
+async function chooseSubmissions(supabase: SupabaseClient, calibration: CalibrationRow): Promise<string[]> {
+  if (calibration.submission_ids.length > 0) return calibration.submission_ids
+
+  const { data, error } = await supabase
+    .from('assignment_submissions')
+    .select('id')
+    .eq('assignment_id', calibration.assignment_id)
+    .in('status', GRADED_STATUSES)
+    .not('grading_result_id', 'is', null)
+  if (error) throw new Error(`Failed to load submissions: ${error.message}`)
+  const ids = sampleIds((data ?? []).map(s => s.id), calibration.sample_size)
+  if (ids.length === 0) throw new PermanentJobError('No graded submissions to calibrate against yet')
+
+  await supabase.from('grading_calibrations').update({ submission_ids: ids }).eq('id', calibration.id)
+  return ids
+}
+
+/** The grading already on each submission, as the first run for it. */
+async function originalRuns(supabase: SupabaseClient, submissionIds: string[]): Promise<CalibrationRun[]> {
+  const { data: submissions } = await supabase
+    .from('assignment_submissions')
+    .select('id, grading_result_id')
+    .in('id', submissionIds)
+    .not('grading_result_id', 'is', null)
+  if (!submissions || submissions.length === 0) return []
+
+  const { data: results } = await supabase
+    .from('grading_results')
+    .select('id, structured_output')
+    .in('id', submissions.map(s => s.grading_result_id))
+  const outputs = new Map((results ?? []).map(r => [r.id, r.structured_output]))
+
+  return submissions.flatMap(s => {
+    // Results graded before structured output was kept have nothing to compare
+    const parsed = gradingOutputSchema.safeParse(outputs.get(s.grading_result_id))
+    return parsed.success && parsed.data.status === 'graded' ? [calibrationRunFrom(parsed.data, s.id, 'original')] : []
+  })
+}
+
+/**
+ * Re-grade the calibration's submissions, saving the runs after each one so
+ * the page can show progress. A retried job carries on from the runs already
+ * saved; a cancelled one stops between runs.
+ */
+export async function runCalibration(supabase: SupabaseClient, calibrationId: string, signal?: AbortSignal): Promise<void> {
+  const { data, error } = await supabase
+    .from('grading_calibrations')
+    .select('id, assignment_id, mode, submission_ids, sample_size, runs_per_submission, runs')
+    .eq('id', calibrationId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load calibration: ${error.message}`)
+  if (!data) throw new PermanentJobError('Calibration not found')
+  const calibration = data as CalibrationRow
+
+  const submissionIds = await chooseSubmissions(supabase, calibration)
+  let runs = calibration.runs
+  if (runs.length === 0) runs = await originalRuns(supabase, submissionIds)
+
+  const totalRuns = runs.filter(r => r.source === 'original').length + submissionIds.length * calibration.runs_per_submission
+  await supabase
+    .from('grading_calibrations')
+    .update({ status: 'running', runs, total_runs: totalRuns, error: null })
+    .eq('id', calibrationId)
+
+  for (const submissionId of submissionIds) {
+    const done = runs.filter(r => r.submissionId === submissionId && r.source === 'regrade').length
+    if (done >= calibration.runs_per_submission) continue
+
+    const input = await submissionPipelineInput(supabase, submissionId)
+    for (let i = done; i < calibration.runs_per_submission; i++) {
+      if (signal?.aborted) throw new JobCancelledError()
+      const { grading } = await gradeStudentWork(input)
+      runs = [...runs, calibrationRunFrom(grading, submissionId, 'regrade')]
+      await supabase.from('grading_calibrations').update({ runs }).eq('id', calibrationId)
+    }
+  }
+
+  await supabase
+    .from('grading_calibrations')
+    .update({ status: 'done', finished_at: new Date().toISOString() })
+    .eq('id', calibrationId)
+}
+
+/** The calibration's job gave up: keep the runs so far, record why it stopped. */
+export async function abandonCalibration(
+  supabase: SupabaseClient,
+  calibrationId: string,
+  outcome: 'failed' | 'cancelled',
+  reason: string
+): Promise<void> {
+  await supabase
+    .from('grading_calibrations')
+    .update({ status: outcome, error: outcome === 'cancelled' ? null : reason, finished_at: new Date().toISOString() })
+    .eq('id', calibrationId)
+    .in('status', ['queued', 'running'])
+}
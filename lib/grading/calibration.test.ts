@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import {
+  anchorPrompt,
+  questionSpreads,
+  sampleIds,
+  validateCalibrationSettings,
+  type CalibrationRun,
+} from './calibration'
+
+function run(submissionId: string, marks: Record<string, number>, source: CalibrationRun['source'] = 'regrade'): CalibrationRun {
+  return {
+    submissionId,
+    source,
+    questions: Object.entries(marks).map(([question, marksAwarded]) => ({
+      question,
+      marksAwarded,
+      marksPossible: question === '2' ? 10 : 4,
+      evidence: [],
+      feedback: 'ok',
+    })),
+  }
+}
+
+describe('validateCalibrationSettings', () => {
+  it('needs exactly one submission to repeat', () => {
+    expect(validateCalibrationSettings({ mode: 'repeat' })).toEqual({ ok: false, error: 'Choose the submission to re-grade' })
+    const result = validateCalibrationSettings({ mode: 'repeat', submission_ids: ['s1'], runs: 4 })
+    expect(result.ok && result.settings).toMatchObject({ submissionIds: ['s1'], runs: 4, sampleSize: 1 })
+  })
+
+  it('defaults a sample to five submissions graded once more each', () => {
+    const result = validateCalibrationSettings({ mode: 'sample' })
+    expect(result.ok && result.settings).toMatchObject({ submissionIds: [], sampleSize: 5, runs: 1, threshold: 0.2 })
+  })
+
+  it('rejects runs, sizes and thresholds out of range', () => {
+    expect(validateCalibrationSettings({ mode: 'sample', runs: 11 }).ok).toBe(false)
+    expect(validateCalibrationSettings({ mode: 'sample', sample_size: 0 }).ok).toBe(false)
+    expect(validateCalibrationSettings({ mode: 'sample', threshold: 0 }).ok).toBe(false)
+    expect(validateCalibrationSettings({ mode: 'other' }).ok).toBe(false)
+  })
+})
+
+describe('sampleIds', () => {
+  it('returns a subset without repeats', () => {
+    const picked = sampleIds(['a', 'b', 'c', 'd'], 2, () => 0.5)
+    expect(picked).toHaveLength(2)
+    expect(new Set(picked).size).toBe(2)
+    expect(sampleIds(['a'], 5)).toEqual(['a'])
+  })
+})
+
+describe('questionSpreads', () => {
+  it('measures each question per submission and flags the worst first', () => {
+    const spreads = questionSpreads([
+      run('s1', { '1a': 2, '2': 6 }, 'original'),
+      run('s1', { '1a': 2, '2': 9 }),
+      run('s2', { '1(a)': 3, '2': 5 }, 'original'),
+      run('s2', { '1a': 1, '2': 5 }),
+    ])
+    expect(spreads.map(s => [s.question, s.range, s.spread, s.flagged])).toEqual([
+      ['1a', 2, 0.5, true],
+      ['2', 3, 0.3, true],
+    ])
+    expect(spreads[0].submissions).toEqual([
+      { submissionId: 's1', marks: [2, 2], range: 0 },
+      { submissionId: 's2', marks: [3, 1], range: 2 },
+    ])
+    expect(spreads[0].meanRange).toBe(1)
+  })
+
+  it('counts a question left out of a run as zero and skips single runs', () => {
+    const spreads = questionSpreads([run('s1', { '1a': 3 }), run('s1', {}), run('s2', { '1a': 4 })], 0.8)
+    expect(spreads).toHaveLength(1)
+    expect(spreads[0]).toMatchObject({ range: 3, spread: 0.75, flagged: false })
+    expect(spreads[0].submissions).toHaveLength(1)
+  })
+})
+
+describe('anchorPrompt', () => {
+  it('lists each anchor with its marks and rationale', () => {
+    const prompt = anchorPrompt([
+      { question: '2b', answer: 'Light is\nabsorbed by chlorophyll', marksAwarded: 3, marksPossible: 4, rationale: 'No mention of ATP.' },
+      { question: '3', answer: 'F = ma', marksAwarded: 1, marksPossible: 2, rationale: null },
+    ])
+    expect(prompt).toContain('Question "2b" — 3 out of 4 marks')
+    expect(prompt).toContain('"Light is absorbed by chlorophyll"')
+    expect(prompt).toContain('Why: No mention of ATP.')
+    expect(prompt.match(/Why:/g)).toHaveLength(1)
+  })
+})
@@ -0,0 +1,195 @@
+import { normalizeLabel, type GradingOutput } from '@/lib/grading/structured-output'
+
+// Grading calibration: re-grade some of an assignment's submissions through
+// the same pipeline and measure how far each question's marks move between
+// runs. Questions that move more than the threshold are flagged; the teacher
+// settles them by pinning a moderated answer as an anchor, which goes into
+// every later grading prompt for the assignment (anchorPrompt).
+
+export type CalibrationMode = 'sample' | 'repeat'
+
+export const MAX_CALIBRATION_RUNS = 10
+export const MAX_CALIBRATION_SAMPLE = 20
+// Flag a question when its marks range over more than this share of its marks
+export const DEFAULT_SPREAD_THRESHOLD = 0.2
+
+export const MAX_ANCHORS_PER_ASSIGNMENT = 20
+export const MAX_ANCHOR_ANSWER_LEN = 2000
+export const MAX_ANCHOR_RATIONALE_LEN = 1000
+
+export interface CalibrationSettings {
+  mode: CalibrationMode
+  // 'repeat': the one submission; 'sample': chosen by the server when empty
+  submissionIds: string[]
+  sampleSize: number
+  // Fresh gradings per submission
+  runs: number
+  threshold: number
+}
+
+export type CalibrationSettingsResult = { ok: true; settings: CalibrationSettings } | { ok: false; error: string }
+
+/** One grading of one submission, cut down to what the report needs. */
+export interface CalibrationRun {
+  submissionId: string
+  // 'original': the grading already on the submission; 'regrade': a fresh run
+  source: 'original' | 'regrade'
+  questions: Array<{
+    question: string
+    marksAwarded: number
+    marksPossible: number
+    evidence: string[]
+    feedback: string
+  }>
+}
+
+export interface QuestionSpread {
+  question: string
+  marksPossible: number
+  // Largest max − min over any one submission's runs
+  range: number
+  // range as a share of marksPossible
+  spread: number
+  meanRange: number
+  flagged: boolean
+  submissions: Array<{ submissionId: string; marks: number[]; range: number }>
+}
+
+export interface GradingAnchor {
+  question: string
+  answer: string
+  marksAwarded: number
+  marksPossible: number
+  rationale: string | null
+}
+
+function intInRange(value: unknown, min: number, max: number): number | null {
+  const n = Number(value)
+  return Number.isInteger(n) && n >= min && n <= max ? n : null
+}
+
+/** Check calibration settings from the request body. */
+export function validateCalibrationSettings(input: Record<string, unknown>): CalibrationSettingsResult {
+  const mode = input.mode
+  if (mode !== 'sample' && mode !== 'repeat') return { ok: false, error: 'Mode must be sample or repeat' }
+
+  const submissionIds = Array.isArray(input.submission_ids)
+    ? [...new Set(input.submission_ids.filter((id): id is string => typeof id === 'string' && id.length > 0))]
+    : []
+  if (mode === 'repeat' && submissionIds.length !== 1) {
+    return { ok: false, error: 'Choose the submission to re-grade' }
+  }
+
+  const runs = intInRange(input.runs ?? (mode === 'repeat' ? 3 : 1), 1, MAX_CALIBRATION_RUNS)
+  if (runs === null) return { ok: false, error: `Runs must be a whole number from 1 to ${MAX_CALIBRATION_RUNS}` }
+
+  const sampleSize = mode === 'sample'
+    ? intInRange(input.sample_size ?? 5, 1, MAX_CALIBRATION_SAMPLE)
+    : 1
+  if (sampleSize === null) {
+    return { ok: false, error: `Sample size must be a whole number from 1 to ${MAX_CALIBRATION_SAMPLE}` }
+  }
+  if (submissionIds.length > MAX_CALIBRATION_SAMPLE) {
+    return { ok: false, error: `Choose at most ${MAX_CALIBRATION_SAMPLE} submissions` }
+  }
+
+  const threshold = Number(input.threshold ?? DEFAULT_SPREAD_THRESHOLD)
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+    return { ok: false, error: 'Threshold must be between 0 and 100%' }
+  }
+
+  return { ok: true, settings: { mode, submissionIds, sampleSize, runs, threshold } }
+}
+
+/** Pick `size` ids at random (all of them when there are fewer). */
+export function sampleIds(ids: string[], size: number, random: () => number = Math.random): string[] {
+  const pool = [...ids]
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[pool[i], pool[j]] = [pool[j], pool[i]]
+  }
+  return pool.slice(0, size)
+}
+
+export function calibrationRunFrom(
+  grading: GradingOutput,
+  submissionId: string,
+  source: CalibrationRun['source']
+): CalibrationRun {
+  return {
+    submissionId,
+    source,
+    questions: grading.questions.map(q => ({
+      question: q.question,
+      marksAwarded: q.marks_awarded,
+      marksPossible: q.marks_possible,
+      evidence: q.evidence,
+      feedback: q.feedback,
+    })),
+  }
+}
+
+function round(n: number): number {
+  return Math.round(n * 1000) / 1000
+}
+
+/**
+ * How much each question's marks vary between runs of the same submission,
+ * worst first. A question a run left out counts as 0 marks in that run, since
+ * that's what the student would have got. Submissions with a single run say
+ * nothing about consistency and are skipped.
+ */
+export function questionSpreads(runs: CalibrationRun[], threshold = DEFAULT_SPREAD_THRESHOLD): QuestionSpread[] {
+  const bySubmission = new Map<string, CalibrationRun[]>()
+  for (const run of runs) bySubmission.set(run.submissionId, [...(bySubmission.get(run.submissionId) ?? []), run])
+
+  // First-seen label and the largest marks_possible for each question
+  const questions = new Map<string, { question: string; marksPossible: number }>()
+  for (const run of runs) {
+    for (const q of run.questions) {
+      const key = normalizeLabel(q.question)
+      const seen = questions.get(key)
+      if (!seen) questions.set(key, { question: q.question, marksPossible: q.marksPossible })
+      else seen.marksPossible = Math.max(seen.marksPossible, q.marksPossible)
+    }
+  }
+
+  const spreads: QuestionSpread[] = []
+  for (const [key, { question, marksPossible }] of questions) {
+    const submissions: QuestionSpread['submissions'] = []
+    for (const [submissionId, subRuns] of bySubmission) {
+      if (subRuns.length < 2) continue
+      const marks = subRuns.map(r => r.questions.find(q => normalizeLabel(q.question) === key)?.marksAwarded ?? 0)
+      submissions.push({ submissionId, marks, range: round(Math.max(...marks) - Math.min(...marks)) })
+    }
+    if (submissions.length === 0) continue
+
+    const range = Math.max(...submissions.map(s => s.range))
+    const spread = round(range / marksPossible)
+    spreads.push({
+      question,
+      marksPossible,
+      range,
+      spread,
+      meanRange: round(submissions.reduce((sum, s) => sum + s.range, 0) / submissions.length),
+      flagged: spread > threshold,
+      submissions,
+    })
+  }
+  return spreads.sort((a, b) => b.spread - a.spread)
+}
+
+/** Appended to grading prompts for an assignment with pinned anchors. */
+export function anchorPrompt(anchors: GradingAnchor[]): string {
+  const examples = anchors.map(a => {
+    const lines = [
+      `- Question "${a.question}" — ${a.marksAwarded} out of ${a.marksPossible} marks for this answer:`,
+      `  "${a.answer.replace(/\s+/g, ' ').trim()}"`,
+    ]
+    if (a.rationale) lines.push(`  Why: ${a.rationale.replace(/\s+/g, ' ').trim()}`)
+    return lines.join('\n')
+  })
+  return `**MODERATED EXAMPLES — MARK CONSISTENTLY WITH THESE:**
+The teacher has moderated these answers from this assignment. Give answers of the same quality the same marks, and mark better or weaker answers relative to them.
+${examples.join('\n')}`
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import type { GradingOutput } from './structured-output'
+import { toGradeBreakdown } from './structured-output'
+import { exemplarHeading, exemplarIssues, exemplarPrompt, validateExemplar } from './exemplars'
+
+function grading(questions: Array<{ question: string; exemplar?: string }>): GradingOutput {
+  return {
+    status: 'graded',
+    required_questions: [],
+    questions: questions.map(q => ({
+      ...q,
+      marks_awarded: 1,
+      marks_possible: 2,
+      criteria_met: [],
+      criteria_missed: [],
+      evidence: [],
+      feedback: 'ok',
+      confidence: 0.9,
+    })),
+    strengths: [],
+    improvements: [],
+    overall_feedback: '',
+  }
+}
+
+const body = (marks: unknown[]) => ({
+  label: ' Script A ',
+  files: [{ url: 'https://res.cloudinary.com/x/a.pdf', name: 'a.pdf', type: 'application/pdf' }],
+  marks,
+})
+
+describe('validateExemplar', () => {
+  it('trims the label and keeps each mark', () => {
+    const result = validateExemplar(body([
+      { question: '1a', marks_awarded: 2, marks_possible: 2 },
+      { question: '1b', marks_awarded: '1.5', marks_possible: 3, comment: '  Missed the unit ' },
+    ]))
+    expect(result.ok && result.exemplar).toEqual({
+      label: 'Script A',
+      files: [{ url: 'https://res.cloudinary.com/x/a.pdf', name: 'a.pdf', type: 'application/pdf' }],
+      marks: [
+        { question: '1a', marksAwarded: 2, marksPossible: 2, comment: null },
+        { question: '1b', marksAwarded: 1.5, marksPossible: 3, comment: 'Missed the unit' },
+      ],
+    })
+  })
+
+  it('treats a blank mark as missing rather than zero', () => {
+    expect(validateExemplar(body([{ question: '1a', marks_awarded: '', marks_possible: 2 }]))).toEqual({
+      ok: false,
+      error: 'Question "1a": enter the marks awarded and available',
+    })
+  })
+
+  it('rejects repeated questions, marks over the maximum and scripts with no files', () => {
+    expect(validateExemplar(body([
+      { question: '1a', marks_awarded: 1, marks_possible: 2 },
+      { question: '1(a)', marks_awarded: 1, marks_possible: 2 },
+    ])).ok).toBe(false)
+    expect(validateExemplar(body([{ question: '2', marks_awarded: 5, marks_possible: 4 }])).ok).toBe(false)
+    expect(validateExemplar({ ...body([{ question: '2', marks_awarded: 1, marks_possible: 4 }]), files: [] })).toEqual({
+      ok: false,
+      error: 'Upload the marked script',
+    })
+    expect(validateExemplar(body([])).ok).toBe(false)
+  })
+})
+
+describe('exemplar prompts', () => {
+  it('names every exemplar and lists the teacher marks before its script', () => {
+    expect(exemplarPrompt([{ label: 'Script A' }, { label: 'Script B' }])).toContain('2 student scripts')
+    const heading = exemplarHeading({
+      label: 'Script A',
+      marks: [
+        { question: '1a', marksAwarded: 2, marksPossible: 2, comment: null },
+        { question: '1b', marksAwarded: 1, marksPossible: 3, comment: 'No\nunits' },
+      ],
+    })
+    expect(heading).toContain('EXEMPLAR "Script A"')
+    expect(heading).toContain('- Question "1a": 2/2\n')
+    expect(heading).toContain('- Question "1b": 1/3 — No units')
+  })
+})
+
+describe('exemplarIssues', () => {
+  it('needs every question to name one of the exemplars', () => {
+    expect(exemplarIssues(grading([{ question: '1a', exemplar: 'script a' }]), ['Script A', 'Script B'])).toEqual([])
+    expect(exemplarIssues(grading([{ question: '1a' }, { question: '1b', exemplar: 'Script C' }]), ['Script A'])).toEqual([
+      'question "1a" needs "exemplar" set to one of: "Script A"',
+      'question "1b" names exemplar "Script C", which is not one of: "Script A"',
+    ])
+    expect(exemplarIssues(grading([{ question: '1a' }]), [])).toEqual([])
+  })
+
+  it('carries the exemplar into the grade breakdown', () => {
+    const [withExemplar, without] = toGradeBreakdown(grading([{ question: '1a', exemplar: 'Script A' }, { question: '1b' }]))
+    expect(withExemplar.exemplar).toBe('Script A')
+    expect(without).not.toHaveProperty('exemplar')
+  })
+})
@@ -0,0 +1,131 @@
+import { normalizeLabel, type GradingOutput } from '@/lib/grading/structured-output'
+
+// Exemplar-anchored grading: a teacher attaches a few student scripts they've
+// already marked to an assignment, with their own mark for each question.
+// Every grading of the assignment sees the scripts and marks as worked
+// examples, and names for each question the exemplar it compared against
+// most closely (the "exemplar" field), so the teacher can audit the marks.
+
+export const MAX_EXEMPLARS_PER_ASSIGNMENT = 3
+export const MAX_EXEMPLAR_FILES = 10
+export const MAX_EXEMPLAR_LABEL_LEN = 60
+export const MAX_EXEMPLAR_COMMENT_LEN = 500
+
+export interface ExemplarFile {
+  url: string
+  name: string | null
+  type: string | null
+}
+
+/** The teacher's mark for one question of an exemplar script. */
+export interface ExemplarMark {
+  question: string
+  marksAwarded: number
+  marksPossible: number
+  comment: string | null
+}
+
+export interface ExemplarInput {
+  label: string
+  files: ExemplarFile[]
+  marks: ExemplarMark[]
+}
+
+/** An exemplar as the grader gets it: the script's files fetched into buffers. */
+export interface GradingExemplar {
+  label: string
+  marks: ExemplarMark[]
+  files: Array<{ buffer: Buffer; name: string; type: string }>
+}
+
+export type ExemplarResult = { ok: true; exemplar: ExemplarInput } | { ok: false; error: string }
+
+function text(value: unknown, max: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, max) : ''
+}
+
+// A blank mark is missing, not zero
+function mark(value: unknown): number | null {
+  return value === null || value === undefined || value === '' ? null : Number(value)
+}
+
+/**
+ * Check an exemplar from the request body: { label, files: [{ url, name?,
+ * type? }], marks: [{ question, marks_awarded, marks_possible, comment? }] }.
+ * Every question needs a mark within its marks available, once.
+ */
+export function validateExemplar(input: Record<string, unknown>): ExemplarResult {
+  const label = typeof input.label === 'string' ? input.label.trim() : ''
+  if (!label) return { ok: false, error: 'Give the exemplar a label, e.g. "Script A"' }
+  if (label.length > MAX_EXEMPLAR_LABEL_LEN) {
+    return { ok: false, error: `Label must be at most ${MAX_EXEMPLAR_LABEL_LEN} characters` }
+  }
+
+  const files: ExemplarFile[] = []
+  for (const raw of Array.isArray(input.files) ? input.files : []) {
+    const f = (raw ?? {}) as { url?: unknown; name?: unknown; type?: unknown }
+    if (typeof f.url !== 'string' || !/^https?:\/\//.test(f.url)) return { ok: false, error: 'Every file needs an upload URL' }
+    files.push({ url: f.url, name: text(f.name, 200) || null, type: text(f.type, 100) || null })
+  }
+  if (files.length === 0) return { ok: false, error: 'Upload the marked script' }
+  if (files.length > MAX_EXEMPLAR_FILES) return { ok: false, error: `A script can have at most ${MAX_EXEMPLAR_FILES} files` }
+
+  const marks: ExemplarMark[] = []
+  const seen = new Set<string>()
+  for (const raw of Array.isArray(input.marks) ? input.marks : []) {
+    const m = (raw ?? {}) as Record<string, unknown>
+    const question = text(m.question, 50)
+    if (!question) return { ok: false, error: 'Every mark needs a question label' }
+    if (seen.has(normalizeLabel(question))) return { ok: false, error: `Question "${question}" is marked more than once` }
+    seen.add(normalizeLabel(question))
+
+    const marksAwarded = mark(m.marks_awarded)
+    const marksPossible = mark(m.marks_possible)
+    if (marksAwarded === null || marksPossible === null) {
+      return { ok: false, error: `Question "${question}": enter the marks awarded and available` }
+    }
+    if (!Number.isFinite(marksPossible) || marksPossible <= 0 || !Number.isFinite(marksAwarded) ||
+        marksAwarded < 0 || marksAwarded > marksPossible) {
+      return { ok: false, error: `Question "${question}": marks must be between 0 and the marks available` }
+    }
+    marks.push({ question, marksAwarded, marksPossible, comment: text(m.comment, MAX_EXEMPLAR_COMMENT_LEN) || null })
+  }
+  if (marks.length === 0) return { ok: false, error: 'Enter your mark for at least one question' }
+
+  return { ok: true, exemplar: { label, files, marks } }
+}
+
+/** The rules for using the attached exemplars, for the grading instructions. */
+export function exemplarPrompt(exemplars: Array<Pick<GradingExemplar, 'label'>>): string {
+  const labels = exemplars.map(e => `"${e.label}"`).join(', ')
+  return `**TEACHER-MARKED EXEMPLARS — MARK CONSISTENTLY WITH THESE:**
+After the mark scheme come ${exemplars.length} student script${exemplars.length === 1 ? '' : 's'} from this assignment that the teacher has already marked (${labels}), each introduced by the teacher's mark for every question. Then comes the student exam you are grading.
+- Do NOT grade the exemplars. Use them to see how the teacher applies the mark scheme: give answers of the same quality the same marks, and mark better or weaker answers relative to them.
+- For every question, set "exemplar" to the label of the exemplar whose answer to that question you compared against most closely when deciding the mark, exactly as written above.`
+}
+
+/** The text placed before an exemplar's files: its label and the teacher's marks. */
+export function exemplarHeading(exemplar: Pick<GradingExemplar, 'label' | 'marks'>): string {
+  const marks = exemplar.marks.map(m =>
+    `- Question "${m.question}": ${m.marksAwarded}/${m.marksPossible}${m.comment ? ` — ${m.comment.replace(/\s+/g, ' ')}` : ''}`
+  )
+  return `EXEMPLAR "${exemplar.label}" — marked by the teacher (do not grade this script):
+${marks.join('\n')}`
+}
+
+/**
+ * Problems with the "exemplar" each question names, phrased for the repair
+ * prompt. Empty when every question names one of the attached exemplars.
+ */
+export function exemplarIssues(grading: GradingOutput, labels: string[]): string[] {
+  if (grading.status === 'unreadable' || labels.length === 0) return []
+  const known = new Set(labels.map(l => l.toLowerCase()))
+  const allowed = labels.map(l => `"${l}"`).join(', ')
+  return grading.questions.flatMap(q => {
+    if (!q.exemplar) return [`question "${q.question}" needs "exemplar" set to one of: ${allowed}`]
+    if (!known.has(q.exemplar.trim().toLowerCase())) {
+      return [`question "${q.question}" names exemplar "${q.exemplar}", which is not one of: ${allowed}`]
+    }
+    return []
+  })
+}
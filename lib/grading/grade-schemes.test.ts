@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { GRADE_SCHEME_PRESETS, US_LETTER, gradeFor, resolveGradeScheme, sanitizeGradeScheme } from './grade-schemes'
+
+describe('gradeFor', () => {
+  it('keeps the US letter bands by default', () => {
+    expect(gradeFor(90)).toBe('A')
+    expect(gradeFor(89.99)).toBe('B')
+    expect(gradeFor(60)).toBe('D')
+    expect(gradeFor(0)).toBe('F')
+  })
+
+  it('grades on the given scheme', () => {
+    expect(gradeFor(91, GRADE_SCHEME_PRESETS.cambridge)).toBe('A*')
+    expect(gradeFor(39, GRADE_SCHEME_PRESETS.cambridge)).toBe('U')
+    expect(gradeFor(68, GRADE_SCHEME_PRESETS.ib)).toBe('6')
+    expect(gradeFor(88, GRADE_SCHEME_PRESETS.us_letter_plus_minus)).toBe('B+')
+    expect(gradeFor(59.5, GRADE_SCHEME_PRESETS.pass_fail)).toBe('Fail')
+  })
+})
+
+describe('presets', () => {
+  it('are all well-formed', () => {
+    for (const scheme of Object.values(GRADE_SCHEME_PRESETS)) {
+      expect(sanitizeGradeScheme(scheme)).toEqual(scheme)
+    }
+  })
+})
+
+describe('sanitizeGradeScheme', () => {
+  it('trims labels and sorts boundaries highest first', () => {
+    expect(
+      sanitizeGradeScheme({
+        name: ' Merit ',
+        boundaries: [
+          { grade: 'Pass', min: 0 },
+          { grade: ' Distinction ', min: 85 },
+          { grade: 'Merit', min: 65 },
+        ],
+      })
+    ).toEqual({
+      name: 'Merit',
+      boundaries: [
+        { grade: 'Distinction', min: 85 },
+        { grade: 'Merit', min: 65 },
+        { grade: 'Pass', min: 0 },
+      ],
+    })
+  })
+
+  it('rejects schemes that leave percentages ungraded or are ambiguous', () => {
+    const scheme = (boundaries: unknown[]) => sanitizeGradeScheme({ name: 'Custom', boundaries })
+    expect(scheme([{ grade: 'A', min: 50 }, { grade: 'B', min: 10 }])).toBeNull()
+    expect(scheme([{ grade: 'A', min: 50 }, { grade: 'A', min: 0 }])).toBeNull()
+    expect(scheme([{ grade: 'A', min: 50 }, { grade: 'B', min: 50 }, { grade: 'C', min: 0 }])).toBeNull()
+    expect(scheme([{ grade: 'A', min: 120 }, { grade: 'B', min: 0 }])).toBeNull()
+    expect(scheme([{ grade: '', min: 50 }, { grade: 'B', min: 0 }])).toBeNull()
+    expect(scheme([{ grade: 'A', min: 0 }])).toBeNull()
+    expect(sanitizeGradeScheme({ boundaries: US_LETTER.boundaries })).toBeNull()
+    expect(sanitizeGradeScheme('us_letter')).toBeNull()
+  })
+})
+
+describe('resolveGradeScheme', () => {
+  it('prefers the assignment override, then the class, then US letter', () => {
+    const { cambridge, ib } = GRADE_SCHEME_PRESETS
+    expect(resolveGradeScheme(ib, cambridge)).toEqual(ib)
+    expect(resolveGradeScheme(null, cambridge)).toEqual(cambridge)
+    expect(resolveGradeScheme(null, null)).toBe(US_LETTER)
+    expect(resolveGradeScheme({ name: 'broken' }, null)).toBe(US_LETTER)
+  })
+})
@@ -0,0 +1,129 @@
+// Grade-boundary schemes: how a percentage becomes the grade stored on
+// grading_results.grade. A class picks one (classes.grade_scheme) and an
+// assignment can override it (assignments.grade_scheme); both columns hold a
+// full scheme, so editing a preset's boundaries for one class doesn't touch
+// any other. NULL everywhere means US letter grades, as before schemes existed.
+
+export interface GradeBoundary {
+  grade: string
+  // Lowest percentage (inclusive) that earns this grade
+  min: number
+}
+
+export interface GradeScheme {
+  name: string
+  // Highest grade first; the last boundary is always at 0
+  boundaries: GradeBoundary[]
+}
+
+const MAX_SCHEME_NAME_LEN = 80
+const MAX_GRADE_LABEL_LEN = 12
+const MAX_BOUNDARIES = 20
+
+export const US_LETTER: GradeScheme = {
+  name: 'US letter (A–F)',
+  boundaries: [
+    { grade: 'A', min: 90 },
+    { grade: 'B', min: 80 },
+    { grade: 'C', min: 70 },
+    { grade: 'D', min: 60 },
+    { grade: 'F', min: 0 },
+  ],
+}
+
+// Cambridge and IB boundaries move with every paper; these are typical
+// starting points for the teacher to adjust to the published thresholds.
+export const GRADE_SCHEME_PRESETS = {
+  us_letter: US_LETTER,
+  us_letter_plus_minus: {
+    name: 'US letter with +/−',
+    boundaries: [
+      { grade: 'A+', min: 97 },
+      { grade: 'A', min: 93 },
+      { grade: 'A-', min: 90 },
+      { grade: 'B+', min: 87 },
+      { grade: 'B', min: 83 },
+      { grade: 'B-', min: 80 },
+      { grade: 'C+', min: 77 },
+      { grade: 'C', min: 73 },
+      { grade: 'C-', min: 70 },
+      { grade: 'D+', min: 67 },
+      { grade: 'D', min: 63 },
+      { grade: 'D-', min: 60 },
+      { grade: 'F', min: 0 },
+    ],
+  },
+  cambridge: {
+    name: 'Cambridge (A*–U)',
+    boundaries: [
+      { grade: 'A*', min: 90 },
+      { grade: 'A', min: 80 },
+      { grade: 'B', min: 70 },
+      { grade: 'C', min: 60 },
+      { grade: 'D', min: 50 },
+      { grade: 'E', min: 40 },
+      { grade: 'U', min: 0 },
+    ],
+  },
+  ib: {
+    name: 'IB (1–7)',
+    boundaries: [
+      { grade: '7', min: 80 },
+      { grade: '6', min: 68 },
+      { grade: '5', min: 56 },
+      { grade: '4', min: 44 },
+      { grade: '3', min: 32 },
+      { grade: '2', min: 20 },
+      { grade: '1', min: 0 },
+    ],
+  },
+  pass_fail: {
+    name: 'Pass / Fail',
+    boundaries: [
+      { grade: 'Pass', min: 60 },
+      { grade: 'Fail', min: 0 },
+    ],
+  },
+} satisfies Record<string, GradeScheme>
+
+export type GradeSchemePreset = keyof typeof GRADE_SCHEME_PRESETS
+
+export function gradeFor(percentage: number, scheme: GradeScheme = US_LETTER): string {
+  for (const b of scheme.boundaries) {
+    if (percentage >= b.min) return b.grade
+  }
+  return scheme.boundaries[scheme.boundaries.length - 1].grade
+}
+
+/**
+ * A well-formed scheme from untrusted input, or null. Boundaries are sorted
+ * highest first; grades must be distinct, minimums distinct and within 0–100,
+ * and one boundary must start at 0 so every percentage gets a grade.
+ */
+export function sanitizeGradeScheme(input: unknown): GradeScheme | null {
+  if (!input || typeof input !== 'object') return null
+  const raw = input as { name?: unknown; boundaries?: unknown }
+  const name = typeof raw.name === 'string' ? raw.name.trim().slice(0, MAX_SCHEME_NAME_LEN) : ''
+  if (!name || !Array.isArray(raw.boundaries)) return null
+  if (raw.boundaries.length < 2 || raw.boundaries.length > MAX_BOUNDARIES) return null
+
+  const boundaries: GradeBoundary[] = []
+  for (const b of raw.boundaries) {
+    if (!b || typeof b !== 'object') return null
+    const { grade, min } = b as { grade?: unknown; min?: unknown }
+    if (typeof grade !== 'string' || !grade.trim() || grade.trim().length > MAX_GRADE_LABEL_LEN) return null
+    if (typeof min !== 'number' || !Number.isFinite(min) || min < 0 || min > 100) return null
+    boundaries.push({ grade: grade.trim(), min })
+  }
+  boundaries.sort((a, b) => b.min - a.min)
+
+  if (new Set(boundaries.map(b => b.grade)).size !== boundaries.length) return null
+  if (new Set(boundaries.map(b => b.min)).size !== boundaries.length) return null
+  if (boundaries[boundaries.length - 1].min !== 0) return null
+  return { name, boundaries }
+}
+
+/** The scheme that grades an assignment's submissions from one class: the assignment's override, else the class's. */
+export function resolveGradeScheme(assignmentScheme: unknown, classScheme: unknown): GradeScheme {
+  return sanitizeGradeScheme(assignmentScheme) ?? sanitizeGradeScheme(classScheme) ?? US_LETTER
+}
@@ -0,0 +1,253 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { GradeBreakdownItem } from '@/lib/grading/structured-output'
+import { gradeFor } from '@/lib/grading/grade-schemes'
+import { gradeSchemeFor } from '@/lib/grading/apply-grade-scheme'
+import {
+  applyQuestionChange,
+  breakdownTotals,
+  diffBreakdowns,
+  questionsNeedingReview,
+  type QuestionChange,
+  type QuestionOverride,
+  type ReviewAction,
+} from '@/lib/grading/review'
+
+// The database side of per-question review: grading_question_reviews holds
+// the queue, grading_overrides the log of every teacher change, and a
+// submission is released (status 'graded') only once its queue is empty.
+
+/**
+ * Queue a fresh grading's low-confidence questions. Pending items left from
+ * an earlier grading of the same submission are dropped first — they point at
+ * marks that no longer exist. Returns how many questions were queued.
+ */
+export async function queueLowConfidenceQuestions(
+  supabase: SupabaseClient,
+  input: { gradingResultId: string; submissionId: string; assignmentId: string; breakdown: GradeBreakdownItem[] }
+): Promise<number> {
+  await supabase
+    .from('grading_question_reviews')
+    .delete()
+    .eq('submission_id', input.submissionId)
+    .eq('status', 'pending')
+
+  const flagged = questionsNeedingReview(input.breakdown)
+  if (flagged.length === 0) return 0
+
+  const { error } = await supabase.from('grading_question_reviews').insert(
+    flagged.map(q => ({
+      grading_result_id: input.gradingResultId,
+      submission_id: input.submissionId,
+      assignment_id: input.assignmentId,
+      question_number: q.questionNumber,
+      confidence: q.confidence,
+    }))
+  )
+  if (error) throw new Error(`Failed to queue questions for review: ${error.message}`)
+  return flagged.length
+}
+
+/** Pending review items per submission; submissions with none are absent. */
+export async function pendingReviewCounts(
+  supabase: SupabaseClient,
+  submissionIds: string[]
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>()
+  if (submissionIds.length === 0) return counts
+  const { data, error } = await supabase
+    .from('grading_question_reviews')
+    .select('submission_id')
+    .in('submission_id', submissionIds)
+    .eq('status', 'pending')
+  if (error) throw new Error(`Failed to count pending reviews: ${error.message}`)
+  for (const row of data ?? []) {
+    counts.set(row.submission_id, (counts.get(row.submission_id) ?? 0) + 1)
+  }
+  return counts
+}
+
+function overrideRows(
+  gradingResultId: string,
+  submissionId: string | null,
+  teacherId: string,
+  action: ReviewAction | 'edit',
+  overrides: QuestionOverride[]
+) {
+  return overrides.map(o => ({
+    grading_result_id: gradingResultId,
+    submission_id: submissionId,
+    question_number: o.questionNumber,
+    teacher_id: teacherId,
+    action,
+    marks_before: o.marksBefore,
+    marks_after: o.marksAfter,
+    feedback_before: o.feedbackBefore,
+    feedback_after: o.feedbackAfter,
+  }))
+}
+
+export type ReviewQuestionResult =
+  | {
+      ok: true
+      action: ReviewAction
+      question: GradeBreakdownItem
+      totals: { totalMarks: number; totalPossibleMarks: number; percentage: number; grade: string }
+      pendingCount: number
+    }
+  | { ok: false; status: 400 | 404; error: string }
+
+/**
+ * Accept or adjust one question of a submission's grading: saves the new
+ * breakdown and totals (re-graded on the assignment's scheme), resolves the
+ * question's review item — creating it resolved when the question wasn't
+ * queued — and logs the override.
+ */
+export async function reviewQuestion(
+  supabase: SupabaseClient,
+  input: { submissionId: string; questionNumber: string; teacherId: string; change: QuestionChange }
+): Promise<ReviewQuestionResult> {
+  const { data: submission } = await supabase
+    .from('assignment_submissions')
+    .select('id, assignment_id, class_id, grading_result_id')
+    .eq('id', input.submissionId)
+    .maybeSingle()
+  if (!submission?.grading_result_id) return { ok: false, status: 404, error: 'Submission has not been graded' }
+
+  const { data: result } = await supabase
+    .from('grading_results')
+    .select('id, grade_breakdown')
+    .eq('id', submission.grading_result_id)
+    .maybeSingle()
+  if (!result) return { ok: false, status: 404, error: 'Grading result not found' }
+
+  const applied = applyQuestionChange(
+    (result.grade_breakdown as GradeBreakdownItem[] | null) ?? [],
+    input.questionNumber,
+    input.change
+  )
+  if (!applied.ok) return { ok: false, status: 400, error: applied.error }
+
+  const totals = breakdownTotals(applied.breakdown)
+  const grade = gradeFor(totals.percentage, await gradeSchemeFor(supabase, submission.assignment_id, submission.class_id))
+  const now = new Date().toISOString()
+
+  if (applied.action === 'adjust') {
+    const { error } = await supabase
+      .from('grading_results')
+      .update({
+        grade_breakdown: applied.breakdown,
+        total_marks: totals.totalMarks,
+        total_possible_marks: totals.totalPossibleMarks,
+        percentage: totals.percentage,
+        grade,
+        updated_at: now,
+      })
+      .eq('id', result.id)
+    if (error) throw new Error(`Failed to save the adjusted grading: ${error.message}`)
+  }
+
+  const question = applied.breakdown.find(q => q.questionNumber === input.questionNumber)!
+  const { error: reviewError } = await supabase.from('grading_question_reviews').upsert(
+    {
+      grading_result_id: result.id,
+      submission_id: submission.id,
+      assignment_id: submission.assignment_id,
+      question_number: input.questionNumber,
+      confidence: question.confidence ?? null,
+      status: applied.action === 'adjust' ? 'adjusted' : 'accepted',
+      reviewed_by: input.teacherId,
+      reviewed_at: now,
+    },
+    { onConflict: 'grading_result_id,question_number' }
+  )
+  if (reviewError) throw new Error(`Failed to resolve the review item: ${reviewError.message}`)
+
+  const { error: logError } = await supabase
+    .from('grading_overrides')
+    .insert(overrideRows(result.id, submission.id, input.teacherId, applied.action, [applied.override]))
+  if (logError) console.error('Failed to log grading override:', logError)
+
+  const pending = await pendingReviewCounts(supabase, [submission.id])
+  return {
+    ok: true,
+    action: applied.action,
+    question,
+    totals: { ...totals, grade },
+    pendingCount: pending.get(submission.id) ?? 0,
+  }
+}
+
+/**
+ * Log the questions a whole-report edit changed. Best effort: a failed log
+ * write never undoes the teacher's edit.
+ */
+export async function logReportEdit(
+  supabase: SupabaseClient,
+  input: { gradingResultId: string; teacherId: string; before: GradeBreakdownItem[]; after: GradeBreakdownItem[] }
+): Promise<void> {
+  const overrides = diffBreakdowns(input.before, input.after)
+  if (overrides.length === 0) return
+
+  const { data: submission } = await supabase
+    .from('assignment_submissions')
+    .select('id')
+    .eq('grading_result_id', input.gradingResultId)
+    .maybeSingle()
+  const { error } = await supabase
+    .from('grading_overrides')
+    .insert(overrideRows(input.gradingResultId, submission?.id ?? null, input.teacherId, 'edit', overrides))
+  if (error) console.error('Failed to log grading overrides:', error)
+}
+
+/**
+ * Release reviewed submissions to their students: pending_review → graded.
+ * Submissions that still have pending review items are left alone and
+ * reported back as blocked.
+ */
+export async function releaseSubmissions(
+  supabase: SupabaseClient,
+  submissionIds: string[]
+): Promise<{ released: string[]; blocked: string[] }> {
+  if (submissionIds.length === 0) return { released: [], blocked: [] }
+  const pending = await pendingReviewCounts(supabase, submissionIds)
+  const blocked = submissionIds.filter(id => pending.has(id))
+  const ready = submissionIds.filter(id => !pending.has(id))
+  if (ready.length === 0) return { released: [], blocked }
+
+  const { data, error } = await supabase
+    .from('assignment_submissions')
+    .update({ status: 'graded', released_at: new Date().toISOString() })
+    .in('id', ready)
+    .eq('status', 'pending_review')
+    .select('id')
+  if (error) throw new Error(`Failed to release submissions: ${error.message}`)
+  const released = (data ?? []).map(s => s.id)
+  await linkResultsToStudents(supabase, released, true)
+  return { released, blocked }
+}
+
+/**
+ * Point each submission's grading result at its student (released) or at no
+ * one (taken back). grading_results.student_user_id is what the student's own
+ * reads and RLS go by, so it's only set once the teacher releases the marks.
+ */
+export async function linkResultsToStudents(
+  supabase: SupabaseClient,
+  submissionIds: string[],
+  released: boolean
+): Promise<void> {
+  if (submissionIds.length === 0) return
+  const { data: submissions } = await supabase
+    .from('assignment_submissions')
+    .select('student_id, grading_result_id')
+    .in('id', submissionIds)
+    .not('grading_result_id', 'is', null)
+
+  for (const submission of submissions ?? []) {
+    const { error } = await supabase
+      .from('grading_results')
+      .update({ student_user_id: released ? submission.student_id : null })
+      .eq('id', submission.grading_result_id)
+    if (error) throw new Error(`Failed to link grading result to student: ${error.message}`)
+  }
+}
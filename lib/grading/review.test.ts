@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest'
+import type { GradeBreakdownItem } from './structured-output'
+import { applyQuestionChange, breakdownTotals, diffBreakdowns, questionsNeedingReview } from './review'
+
+const breakdown: GradeBreakdownItem[] = [
+  { questionNumber: '1a', marksAwarded: 2, marksPossible: 2, explanation: 'Correct.', confidence: 0.95 },
+  { questionNumber: '1b', marksAwarded: 1, marksPossible: 3, explanation: 'Partly legible.', confidence: 0.4 },
+  { questionNumber: '2', marksAwarded: 0, marksPossible: 5, explanation: 'Not attempted.' },
+]
+
+describe('questionsNeedingReview', () => {
+  it('queues questions below the threshold', () => {
+    expect(questionsNeedingReview(breakdown).map(q => q.questionNumber)).toEqual(['1b'])
+    expect(questionsNeedingReview(breakdown, 0.99).map(q => q.questionNumber)).toEqual(['1a', '1b'])
+  })
+
+  it('skips questions graded without a confidence', () => {
+    expect(questionsNeedingReview([breakdown[2]], 1)).toEqual([])
+  })
+})
+
+describe('applyQuestionChange', () => {
+  it('treats an unchanged question as an accept', () => {
+    const result = applyQuestionChange(breakdown, '1b', {})
+    expect(result.ok && result.action).toBe('accept')
+    expect(result.ok && result.breakdown).toEqual(breakdown)
+  })
+
+  it('adjusts marks and feedback and records both sides', () => {
+    const result = applyQuestionChange(breakdown, '1b', { marksAwarded: 2.5, explanation: ' Method shown. ' })
+    if (!result.ok) throw new Error(result.error)
+    expect(result.action).toBe('adjust')
+    expect(result.breakdown[1]).toMatchObject({ marksAwarded: 2.5, explanation: 'Method shown.', confidence: 0.4 })
+    expect(result.override).toEqual({
+      questionNumber: '1b',
+      marksBefore: 1,
+      marksAfter: 2.5,
+      feedbackBefore: 'Partly legible.',
+      feedbackAfter: 'Method shown.',
+    })
+    expect(breakdown[1].marksAwarded).toBe(1)
+  })
+
+  it('keeps the feedback when the new feedback is blank', () => {
+    const result = applyQuestionChange(breakdown, '1b', { marksAwarded: 3, explanation: '  ' })
+    expect(result.ok && result.breakdown[1].explanation).toBe('Partly legible.')
+  })
+
+  it('rejects marks outside the question', () => {
+    expect(applyQuestionChange(breakdown, '1b', { marksAwarded: 4 }).ok).toBe(false)
+    expect(applyQuestionChange(breakdown, '1b', { marksAwarded: -1 }).ok).toBe(false)
+    expect(applyQuestionChange(breakdown, '1b', { marksAwarded: NaN }).ok).toBe(false)
+    expect(applyQuestionChange(breakdown, '9', { marksAwarded: 1 }).ok).toBe(false)
+  })
+})
+
+describe('diffBreakdowns', () => {
+  it('lists only the questions that changed', () => {
+    const after = breakdown.map(q => (q.questionNumber === '2' ? { ...q, marksAwarded: 1 } : q))
+    expect(diffBreakdowns(breakdown, after)).toEqual([
+      { questionNumber: '2', marksBefore: 0, marksAfter: 1, feedbackBefore: 'Not attempted.', feedbackAfter: 'Not attempted.' },
+    ])
+    expect(diffBreakdowns(breakdown, breakdown)).toEqual([])
+  })
+})
+
+describe('breakdownTotals', () => {
+  it('adds up marks and the percentage', () => {
+    expect(breakdownTotals(breakdown)).toEqual({ totalMarks: 3, totalPossibleMarks: 10, percentage: 30 })
+    expect(breakdownTotals([])).toEqual({ totalMarks: 0, totalPossibleMarks: 0, percentage: 0 })
+  })
+})
@@ -0,0 +1,113 @@
+import type { GradeBreakdownItem } from '@/lib/grading/structured-output'
+
+// Per-question teacher review of a grading. Questions the grader marked with
+// low confidence are queued; the teacher accepts the mark or adjusts marks and
+// feedback one question at a time, and each change is logged before/after.
+
+/** Questions graded with less confidence than this go to the teacher's review queue. */
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.7
+
+export type ReviewAction = 'accept' | 'adjust'
+
+export interface QuestionChange {
+  marksAwarded?: number
+  explanation?: string
+}
+
+export interface QuestionOverride {
+  questionNumber: string
+  marksBefore: number
+  marksAfter: number
+  feedbackBefore: string
+  feedbackAfter: string
+}
+
+export type ApplyChangeResult =
+  | {
+      ok: true
+      breakdown: GradeBreakdownItem[]
+      override: QuestionOverride
+      action: ReviewAction
+    }
+  | { ok: false; error: string }
+
+/**
+ * The questions to queue for review. Results graded before the grader
+ * reported confidence have none, so nothing is queued for them.
+ */
+export function questionsNeedingReview(
+  breakdown: GradeBreakdownItem[],
+  threshold = REVIEW_CONFIDENCE_THRESHOLD
+): GradeBreakdownItem[] {
+  return breakdown.filter(q => typeof q.confidence === 'number' && q.confidence < threshold)
+}
+
+/**
+ * Apply a teacher's change to one question. No change (or the same marks and
+ * feedback) is an accept; anything else is an adjust.
+ */
+export function applyQuestionChange(
+  breakdown: GradeBreakdownItem[],
+  questionNumber: string,
+  change: QuestionChange
+): ApplyChangeResult {
+  const index = breakdown.findIndex(q => q.questionNumber === questionNumber)
+  if (index === -1) return { ok: false, error: `Question ${questionNumber} is not in this grading` }
+  const question = breakdown[index]
+
+  const marksAfter = change.marksAwarded ?? question.marksAwarded
+  if (!Number.isFinite(marksAfter) || marksAfter < 0) {
+    return { ok: false, error: `Invalid marks awarded for question ${questionNumber}` }
+  }
+  if (marksAfter > question.marksPossible) {
+    return { ok: false, error: `Marks awarded cannot exceed marks possible for question ${questionNumber}` }
+  }
+
+  const feedbackAfter = change.explanation?.trim() || question.explanation
+  const override: QuestionOverride = {
+    questionNumber,
+    marksBefore: question.marksAwarded,
+    marksAfter,
+    feedbackBefore: question.explanation,
+    feedbackAfter,
+  }
+  const changed = marksAfter !== question.marksAwarded || feedbackAfter !== question.explanation
+
+  const next = [...breakdown]
+  next[index] = { ...question, marksAwarded: marksAfter, explanation: feedbackAfter }
+  return { ok: true, breakdown: next, override, action: changed ? 'adjust' : 'accept' }
+}
+
+/** Questions whose marks or feedback differ between two versions of a breakdown. */
+export function diffBreakdowns(before: GradeBreakdownItem[], after: GradeBreakdownItem[]): QuestionOverride[] {
+  const previous = new Map(before.map(q => [q.questionNumber, q]))
+  const overrides: QuestionOverride[] = []
+  for (const q of after) {
+    const old = previous.get(q.questionNumber)
+    if (!old) continue
+    if (old.marksAwarded === q.marksAwarded && old.explanation === q.explanation) continue
+    overrides.push({
+      questionNumber: q.questionNumber,
+      marksBefore: old.marksAwarded,
+      marksAfter: q.marksAwarded,
+      feedbackBefore: old.explanation,
+      feedbackAfter: q.explanation,
+    })
+  }
+  return overrides
+}
+
+export function breakdownTotals(breakdown: GradeBreakdownItem[]): {
+  totalMarks: number
+  totalPossibleMarks: number
+  percentage: number
+} {
+  const totalMarks = round2(breakdown.reduce((sum, q) => sum + q.marksAwarded, 0))
+  const totalPossibleMarks = round2(breakdown.reduce((sum, q) => sum + q.marksPossible, 0))
+  const percentage = totalPossibleMarks > 0 ? round2((totalMarks / totalPossibleMarks) * 100) : 0
+  return { totalMarks, totalPossibleMarks, percentage }
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import type { GradingOutput } from './structured-output'
+import { parseRubricCsv, rubricIssues, rubricPrompt, rubricTotalPoints, validateRubric, type Rubric } from './rubric'
+
+const rubric: Rubric = {
+  criteria: [
+    {
+      name: 'Thesis',
+      description: 'A clear, arguable claim',
+      levels: [
+        { label: 'Exemplary', points: 4, descriptor: 'Precise and arguable' },
+        { label: 'Developing', points: 2, descriptor: 'Present but vague' },
+        { label: 'Missing', points: 0, descriptor: '' },
+      ],
+    },
+    {
+      name: 'Evidence',
+      description: '',
+      levels: [
+        { label: 'Strong', points: 3, descriptor: '' },
+        { label: 'Weak', points: 1, descriptor: '' },
+      ],
+    },
+  ],
+}
+
+function grading(questions: Array<{ question: string; level?: string; marks_awarded: number; marks_possible: number }>): GradingOutput {
+  return {
+    status: 'graded',
+    required_questions: [],
+    questions: questions.map(q => ({
+      ...q,
+      criteria_met: [],
+      criteria_missed: [],
+      evidence: [],
+      feedback: 'ok',
+      confidence: 0.9,
+    })),
+    strengths: [],
+    improvements: [],
+    overall_feedback: '',
+  }
+}
+
+describe('validateRubric', () => {
+  it('trims text and sorts levels most points first', () => {
+    const result = validateRubric({
+      criteria: [{ name: ' Clarity ', levels: [{ label: 'Low', points: 1 }, { label: ' High ', points: 3, descriptor: ' Clear ' }] }],
+    })
+    expect(result).toEqual({
+      ok: true,
+      rubric: {
+        criteria: [{
+          name: 'Clarity',
+          description: '',
+          levels: [
+            { label: 'High', points: 3, descriptor: 'Clear' },
+            { label: 'Low', points: 1, descriptor: '' },
+          ],
+        }],
+      },
+    })
+  })
+
+  it('rejects incomplete rubrics', () => {
+    expect(validateRubric({ criteria: [] }).ok).toBe(false)
+    expect(validateRubric({ criteria: [{ name: '', levels: rubric.criteria[1].levels }] }).ok).toBe(false)
+    expect(validateRubric({ criteria: [{ name: 'A', levels: [{ label: 'Only', points: 1 }] }] }).ok).toBe(false)
+    expect(validateRubric({ criteria: [rubric.criteria[1], { ...rubric.criteria[1], name: 'evidence' }] }).ok).toBe(false)
+    expect(validateRubric({
+      criteria: [{ name: 'A', levels: [{ label: 'X', points: 1 }, { label: 'x', points: 2 }] }],
+    }).ok).toBe(false)
+    expect(validateRubric({
+      criteria: [{ name: 'A', levels: [{ label: 'X', points: 1 }, { label: 'Y', points: NaN }] }],
+    }).ok).toBe(false)
+  })
+
+  it('adds up the top level of each criterion', () => {
+    expect(rubricTotalPoints(rubric)).toBe(7)
+  })
+})
+
+describe('parseRubricCsv', () => {
+  it('groups level rows by criterion', () => {
+    const csv = [
+      'Criterion,Description,Level,Points,Descriptor',
+      'Thesis,"A clear, arguable claim",Exemplary,4,Precise and arguable',
+      'Thesis,,Developing,2,Present but vague',
+      'Thesis,,Missing,0,',
+      'Evidence,,Weak,1,',
+      'Evidence,,Strong,3,',
+      '',
+    ].join('\r\n')
+    expect(parseRubricCsv(csv)).toEqual({ ok: true, rubric })
+  })
+
+  it('handles quoted quotes and newlines, and no description column', () => {
+    const result = parseRubricCsv('criterion,level,points,descriptor\nTone,Good,2,"Uses ""we""\nthroughout"\nTone,Poor,0,')
+    expect(result.ok && result.rubric.criteria[0].levels[0].descriptor).toBe('Uses "we"\nthroughout')
+  })
+
+  it('explains what is wrong', () => {
+    expect(parseRubricCsv('name,score\nA,1')).toEqual({ ok: false, error: 'The CSV header needs criterion, level and points columns' })
+    expect(parseRubricCsv('criterion,level,points\nA,High,lots\nA,Low,0')).toEqual({ ok: false, error: "Row 2 has points that aren't a number" })
+    expect(parseRubricCsv('criterion,level,points\nA,High,2').ok).toBe(false)
+  })
+})
+
+describe('rubricIssues', () => {
+  it('accepts one entry per criterion at one of its levels', () => {
+    expect(rubricIssues(grading([
+      { question: 'Thesis', level: 'developing', marks_awarded: 2, marks_possible: 4 },
+      { question: 'evidence', level: 'Strong', marks_awarded: 3, marks_possible: 3 },
+    ]), rubric)).toEqual([])
+  })
+
+  it('reports missing criteria, unknown levels, wrong points and stray questions', () => {
+    const issues = rubricIssues(grading([
+      { question: 'Thesis', level: 'Great', marks_awarded: 4, marks_possible: 4 },
+      { question: 'Evidence', level: 'Weak', marks_awarded: 2, marks_possible: 4 },
+      { question: '1a', marks_awarded: 1, marks_possible: 1 },
+    ]), rubric)
+    expect(issues).toEqual([
+      'criterion "Thesis" needs "level" set to one of: "Exemplary", "Developing", "Missing"',
+      'criterion "Evidence" is at level "Weak" so marks_awarded must be 1',
+      'criterion "Evidence" has marks_possible 4 but is out of 3',
+      '"1a" is not a rubric criterion',
+    ])
+    expect(rubricIssues(grading([]), rubric)).toContain('criterion "Thesis" is not graded')
+  })
+})
+
+describe('rubricPrompt', () => {
+  it('lists every criterion and level with its points', () => {
+    const prompt = rubricPrompt(rubric)
+    expect(prompt).toContain('Criterion "Thesis" — out of 4')
+    expect(prompt).toContain('"Developing" (2 points): Present but vague')
+    expect(prompt).toContain('"Weak" (1 point)')
+    expect(prompt).toContain('The paper total is 7.')
+  })
+})
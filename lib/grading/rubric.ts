@@ -0,0 +1,237 @@
+import type { GradingOutput } from '@/lib/grading/structured-output'
+
+// Structured rubrics for file-upload assignments: criteria, each with
+// performance levels worth a number of points. Stored whole on
+// assignments.rubric (and copied onto grading_results.rubric when graded, so
+// the report keeps the grid it was marked against); teachers keep reusable
+// ones in the rubrics table. When an assignment has a rubric the grader
+// reports one entry per criterion — the criterion name as the question and
+// the level it chose — instead of free-form question numbers.
+
+export interface RubricLevel {
+  label: string
+  points: number
+  // What work at this level looks like
+  descriptor: string
+}
+
+export interface RubricCriterion {
+  name: string
+  description: string
+  // Most points first
+  levels: RubricLevel[]
+}
+
+export interface Rubric {
+  criteria: RubricCriterion[]
+}
+
+const MAX_CRITERIA = 30
+const MAX_LEVELS = 8
+const MAX_NAME_LEN = 120
+const MAX_LABEL_LEN = 40
+const MAX_TEXT_LEN = 1000
+
+export type RubricValidation = { ok: true; rubric: Rubric } | { ok: false; error: string }
+
+/**
+ * Check a rubric from untrusted input (the editor, a CSV import, the API).
+ * Text is trimmed and levels sorted most points first. Criteria need unique
+ * names and at least two levels with unique labels and points.
+ */
+export function validateRubric(input: unknown): RubricValidation {
+  if (!input || typeof input !== 'object' || !Array.isArray((input as Rubric).criteria)) {
+    return { ok: false, error: 'Rubric must have a list of criteria' }
+  }
+  const rawCriteria = (input as { criteria: unknown[] }).criteria
+  if (rawCriteria.length === 0) return { ok: false, error: 'Add at least one criterion' }
+  if (rawCriteria.length > MAX_CRITERIA) return { ok: false, error: `A rubric can have at most ${MAX_CRITERIA} criteria` }
+
+  const criteria: RubricCriterion[] = []
+  const names = new Set<string>()
+  for (const [i, raw] of rawCriteria.entries()) {
+    if (!raw || typeof raw !== 'object') return { ok: false, error: `Criterion ${i + 1} is malformed` }
+    const c = raw as { name?: unknown; description?: unknown; levels?: unknown }
+    const name = text(c.name, MAX_NAME_LEN)
+    if (!name) return { ok: false, error: `Criterion ${i + 1} needs a name` }
+    if (names.has(name.toLowerCase())) return { ok: false, error: `Criterion "${name}" appears more than once` }
+    names.add(name.toLowerCase())
+
+    if (!Array.isArray(c.levels) || c.levels.length < 2) {
+      return { ok: false, error: `"${name}" needs at least two performance levels` }
+    }
+    if (c.levels.length > MAX_LEVELS) return { ok: false, error: `"${name}" has more than ${MAX_LEVELS} levels` }
+
+    const levels: RubricLevel[] = []
+    for (const rawLevel of c.levels) {
+      const l = (rawLevel ?? {}) as { label?: unknown; points?: unknown; descriptor?: unknown }
+      const label = text(l.label, MAX_LABEL_LEN)
+      if (!label) return { ok: false, error: `Every level of "${name}" needs a label` }
+      if (typeof l.points !== 'number' || !Number.isFinite(l.points) || l.points < 0) {
+        return { ok: false, error: `Level "${label}" of "${name}" needs points of 0 or more` }
+      }
+      levels.push({ label, points: l.points, descriptor: text(l.descriptor, MAX_TEXT_LEN) })
+    }
+    if (new Set(levels.map(l => l.label.toLowerCase())).size !== levels.length) {
+      return { ok: false, error: `Levels of "${name}" need different labels` }
+    }
+    if (new Set(levels.map(l => l.points)).size !== levels.length) {
+      return { ok: false, error: `Levels of "${name}" need different points` }
+    }
+    levels.sort((a, b) => b.points - a.points)
+    criteria.push({ name, description: text(c.description, MAX_TEXT_LEN), levels })
+  }
+  return { ok: true, rubric: { criteria } }
+}
+
+/** A well-formed rubric from untrusted input, or null. */
+export function sanitizeRubric(input: unknown): Rubric | null {
+  const result = validateRubric(input)
+  return result.ok ? result.rubric : null
+}
+
+export function rubricTotalPoints(rubric: Rubric): number {
+  return rubric.criteria.reduce((sum, c) => sum + maxPoints(c), 0)
+}
+
+function maxPoints(criterion: RubricCriterion): number {
+  return Math.max(...criterion.levels.map(l => l.points))
+}
+
+function text(value: unknown, max: number): string {
+  return typeof value === 'string' ? value.trim().slice(0, max) : ''
+}
+
+// =============================================================================
+// CSV import
+// =============================================================================
+
+export const RUBRIC_CSV_HEADER = ['criterion', 'description', 'level', 'points', 'descriptor']
+
+/**
+ * Read a rubric from CSV, one row per level:
+ *
+ *   criterion,description,level,points,descriptor
+ *   Thesis,Clear arguable claim,Exemplary,4,Precise and arguable
+ *   Thesis,,Developing,2,Present but vague
+ *
+ * Rows for the same criterion are grouped in order; the description may be
+ * given on any of them. The description column is optional.
+ */
+export function parseRubricCsv(csv: string): RubricValidation {
+  const rows = parseCsvRows(csv).filter(r => r.some(cell => cell.trim() !== ''))
+  if (rows.length < 2) return { ok: false, error: 'The CSV needs a header row and at least one level' }
+
+  const header = rows[0].map(h => h.trim().toLowerCase())
+  const col = (name: string) => header.indexOf(name)
+  const [criterionCol, descriptionCol, levelCol, pointsCol, descriptorCol] = RUBRIC_CSV_HEADER.map(col)
+  if (criterionCol === -1 || levelCol === -1 || pointsCol === -1) {
+    return { ok: false, error: 'The CSV header needs criterion, level and points columns' }
+  }
+
+  const byName = new Map<string, { name: string; description: string; levels: Array<Record<string, unknown>> }>()
+  for (const [i, row] of rows.slice(1).entries()) {
+    const name = (row[criterionCol] ?? '').trim()
+    if (!name) return { ok: false, error: `Row ${i + 2} has no criterion` }
+    const pointsText = (row[pointsCol] ?? '').trim()
+    const points = Number(pointsText)
+    if (!pointsText || !Number.isFinite(points)) {
+      return { ok: false, error: `Row ${i + 2} has points that aren't a number` }
+    }
+
+    const key = name.toLowerCase()
+    const criterion = byName.get(key) ?? { name, description: '', levels: [] }
+    const description = descriptionCol === -1 ? '' : (row[descriptionCol] ?? '').trim()
+    if (description && !criterion.description) criterion.description = description
+    criterion.levels.push({
+      label: row[levelCol] ?? '',
+      points,
+      descriptor: descriptorCol === -1 ? '' : row[descriptorCol] ?? '',
+    })
+    byName.set(key, criterion)
+  }
+  return validateRubric({ criteria: [...byName.values()] })
+}
+
+/** RFC 4180 rows: quoted fields may hold commas, newlines and "" escapes. */
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+  const input = csv.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i]
+    if (quoted) {
+      if (ch === '"' && input[i + 1] === '"') { field += '"'; i++ }
+      else if (ch === '"') quoted = false
+      else field += ch
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(field); field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++
+      row.push(field); rows.push(row); row = []; field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (field !== '' || row.length > 0) { row.push(field); rows.push(row) }
+  return rows
+}
+
+// =============================================================================
+// Grading against a rubric
+// =============================================================================
+
+/** The rubric as the grader sees it, with the rules for reporting levels. */
+export function rubricPrompt(rubric: Rubric): string {
+  const criteria = rubric.criteria.map(c => {
+    const levels = c.levels
+      .map(l => `  - "${l.label}" (${l.points} point${l.points === 1 ? '' : 's'})${l.descriptor ? `: ${l.descriptor}` : ''}`)
+      .join('\n')
+    return `- Criterion "${c.name}" — out of ${maxPoints(c)}${c.description ? `\n  ${c.description}` : ''}\n${levels}`
+  })
+  return `**RUBRIC — GRADE AGAINST THESE CRITERIA:**
+${criteria.join('\n')}
+
+Rubric rules:
+- Grade the work as a whole against each criterion. "questions" has exactly one entry per criterion, in rubric order, with "question" set to the criterion name exactly as written above.
+- Choose the one level that best matches the work and put its label in "level". "marks_awarded" is that level's points; "marks_possible" is the criterion's top points.
+- List every criterion in "required_questions" with its top points. The paper total is ${rubricTotalPoints(rubric)}.
+- "criteria_met" / "criteria_missed" refer to the level descriptors.`
+}
+
+/**
+ * Problems with a grading measured against the rubric it was asked to use,
+ * phrased for the repair prompt. Empty when every criterion is graded once
+ * with one of its own levels.
+ */
+export function rubricIssues(grading: GradingOutput, rubric: Rubric): string[] {
+  if (grading.status === 'unreadable') return []
+  const issues: string[] = []
+  const graded = new Map(grading.questions.map(q => [q.question.trim().toLowerCase(), q]))
+
+  for (const c of rubric.criteria) {
+    const q = graded.get(c.name.toLowerCase())
+    if (!q) { issues.push(`criterion "${c.name}" is not graded`); continue }
+    const level = c.levels.find(l => l.label.toLowerCase() === (q.level ?? '').trim().toLowerCase())
+    if (!level) {
+      issues.push(`criterion "${c.name}" needs "level" set to one of: ${c.levels.map(l => `"${l.label}"`).join(', ')}`)
+      continue
+    }
+    if (q.marks_awarded !== level.points) {
+      issues.push(`criterion "${c.name}" is at level "${level.label}" so marks_awarded must be ${level.points}`)
+    }
+    if (q.marks_possible !== maxPoints(c)) {
+      issues.push(`criterion "${c.name}" has marks_possible ${q.marks_possible} but is out of ${maxPoints(c)}`)
+    }
+  }
+  const names = new Set(rubric.criteria.map(c => c.name.toLowerCase()))
+  for (const q of grading.questions) {
+    if (!names.has(q.question.trim().toLowerCase())) issues.push(`"${q.question}" is not a rubric criterion`)
+  }
+  return issues
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import {
+  buildRepairPrompt,
+  gradingTotals,
+  overallConfidence,
+  parseGradingOutput,
+  renderGradingMarkdown,
+  toGradeBreakdown,
+} from './structured-output'
+
+const question = (label: string, awarded: number, possible: number, confidence = 0.9) => ({
+  question: label,
+  marks_awarded: awarded,
+  marks_possible: possible,
+  criteria_met: ['States the formula'],
+  criteria_missed: [],
+  evidence: ['F = ma'],
+  feedback: 'Correct method.',
+  confidence,
+})
+
+const graded = (overrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    status: 'graded',
+    required_questions: [
+      { question: '1a', marks: 2 },
+      { question: '1b', marks: 3 },
+    ],
+    stated_total: 5,
+    questions: [question('1a', 2, 2), question('1b', 1.5, 3, 0.4)],
+    strengths: ['Clear working'],
+    improvements: ['Check units'],
+    overall_feedback: 'Good effort.',
+    ...overrides,
+  })
+
+describe('parseGradingOutput', () => {
+  it('accepts valid output wrapped in prose or code fences', () => {
+    const result = parseGradingOutput('Here is the grading:\n```json\n' + graded() + '\n```')
+    expect(result.ok).toBe(true)
+  })
+
+  it('rejects responses without JSON', () => {
+    const result = parseGradingOutput('Question 1, Mark: 2/2 - Correct')
+    expect(result.ok).toBe(false)
+  })
+
+  it('reports marks over the maximum and missing fields', () => {
+    const result = parseGradingOutput(
+      graded({ questions: [question('1a', 3, 2), { question: '1b', marks_awarded: 1, marks_possible: 3 }] })
+    )
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(result.issues.some(i => i.includes('marks_awarded cannot exceed marks_possible'))).toBe(true)
+    expect(result.issues.some(i => i.startsWith('questions.1.feedback'))).toBe(true)
+  })
+
+  it('checks graded questions against the required list and stated total', () => {
+    const missing = parseGradingOutput(graded({ questions: [question('1a', 2, 2)] }))
+    expect(missing.ok).toBe(false)
+    if (!missing.ok) {
+      expect(missing.issues).toContain('questions: required question "1b" is not graded')
+      expect(missing.issues.some(i => i.includes('stated total is 5'))).toBe(true)
+    }
+
+    const duplicate = parseGradingOutput(
+      graded({ required_questions: [], stated_total: null, questions: [question('1(a)', 1, 2), question('Question 1a', 1, 2)] })
+    )
+    expect(duplicate.ok).toBe(false)
+  })
+
+  it('refuses an empty grading unless the files were unreadable', () => {
+    expect(parseGradingOutput(graded({ required_questions: [], stated_total: null, questions: [] })).ok).toBe(false)
+    expect(
+      parseGradingOutput(JSON.stringify({ status: 'unreadable', unreadable_reason: 'Blank scan', questions: [] })).ok
+    ).toBe(true)
+  })
+})
+
+describe('derived values', () => {
+  const result = parseGradingOutput(graded())
+  if (!result.ok) throw new Error('fixture should be valid')
+  const grading = result.grading
+
+  it('totals the per-question marks', () => {
+    expect(gradingTotals(grading)).toEqual({ totalMarks: 3.5, totalPossibleMarks: 5 })
+  })
+
+  it('takes the lowest question confidence', () => {
+    expect(overallConfidence(grading)).toBe(0.4)
+  })
+
+  it('maps to the stored breakdown shape', () => {
+    expect(toGradeBreakdown(grading)[1]).toMatchObject({
+      questionNumber: '1b',
+      marksAwarded: 1.5,
+      marksPossible: 3,
+      explanation: 'Correct method.',
+      evidence: ['F = ma'],
+    })
+  })
+
+  it('renders the report Markdown', () => {
+    const md = renderGradingMarkdown(grading)
+    expect(md).toContain('**Question 1b**, Mark: 1.5/3 - Correct method.')
+    expect(md).toContain('**Total: 3.5/5**')
+  })
+})
+
+describe('buildRepairPrompt', () => {
+  it('lists the problems to fix', () => {
+    expect(buildRepairPrompt(['questions.0.feedback: Required'])).toContain('- questions.0.feedback: Required')
+  })
+})
@@ -0,0 +1,247 @@
+import { z } from 'zod'
+
+// The shape every exam-grading call must return. The model answers in JSON,
+// we validate it here, and anything that fails goes back to the model with the
+// list of problems (see buildRepairPrompt) — marks and totals are never
+// scraped out of prose.
+
+const questionGradeSchema = z
+  .object({
+    // Label exactly as the mark scheme writes it: "1a", "2(b)(ii)", "Section C 2a"
+    question: z.string().trim().min(1),
+    marks_awarded: z.number().min(0),
+    marks_possible: z.number().positive(),
+    // Mark-scheme points the answer earned / missed, in the scheme's own words
+    criteria_met: z.array(z.string()).default([]),
+    criteria_missed: z.array(z.string()).default([]),
+    // Short verbatim quotes from the student's work backing the marks
+    evidence: z.array(z.string()).default([]),
+    feedback: z.string().trim().min(1),
+    // 0–1: how sure the grader is of this mark (low for illegible or ambiguous answers)
+    confidence: z.number().min(0).max(1),
+    // Rubric grading only: the performance level chosen for this criterion
+    level: z.string().trim().min(1).nullish(),
+    // Exemplar grading only: label of the teacher-marked script this mark was compared against
+    exemplar: z.string().trim().min(1).nullish(),
+  })
+  .refine(q => q.marks_awarded <= q.marks_possible, {
+    message: 'marks_awarded cannot exceed marks_possible',
+    path: ['marks_awarded'],
+  })
+
+const requiredQuestionSchema = z.object({
+  question: z.string().trim().min(1),
+  marks: z.number().positive(),
+})
+
+export const gradingOutputSchema = z
+  .object({
+    // "unreadable": the files couldn't be read at all; nothing is graded
+    status: z.enum(['graded', 'unreadable']),
+    unreadable_reason: z.string().nullish(),
+    // What the mark scheme requires of this student (choice sections resolved)
+    required_questions: z.array(requiredQuestionSchema).default([]),
+    // The paper's stated total, when the mark scheme gives one
+    stated_total: z.number().positive().nullish(),
+    questions: z.array(questionGradeSchema),
+    strengths: z.array(z.string()).default([]),
+    improvements: z.array(z.string()).default([]),
+    overall_feedback: z.string().default(''),
+  })
+  .superRefine((out, ctx) => {
+    if (out.status === 'unreadable') return
+    if (out.questions.length === 0) {
+      ctx.addIssue({ code: 'custom', path: ['questions'], message: 'no questions were graded' })
+      return
+    }
+
+    const seen = new Set<string>()
+    for (const q of out.questions) {
+      const key = normalizeLabel(q.question)
+      if (seen.has(key)) {
+        ctx.addIssue({ code: 'custom', path: ['questions'], message: `question "${q.question}" is graded more than once` })
+      }
+      seen.add(key)
+    }
+
+    const graded = new Map(out.questions.map(q => [normalizeLabel(q.question), q]))
+    for (const r of out.required_questions) {
+      const q = graded.get(normalizeLabel(r.question))
+      if (!q) {
+        ctx.addIssue({ code: 'custom', path: ['questions'], message: `required question "${r.question}" is not graded` })
+      } else if (q.marks_possible !== r.marks) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['questions'],
+          message: `question "${r.question}" is out of ${r.marks} in required_questions but marks_possible is ${q.marks_possible}`,
+        })
+      }
+    }
+
+    if (out.stated_total != null) {
+      const possible = sumPossible(out.questions)
+      if (Math.abs(possible - out.stated_total) > 1e-6) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['questions'],
+          message: `marks_possible adds up to ${possible} but the paper's stated total is ${out.stated_total} (remove unchosen alternatives or add missing questions)`,
+        })
+      }
+    }
+  })
+
+export type QuestionGrade = z.infer<typeof questionGradeSchema>
+export type GradingOutput = z.infer<typeof gradingOutputSchema>
+
+export interface GradeBreakdownItem {
+  questionNumber: string
+  marksAwarded: number
+  marksPossible: number
+  explanation: string
+  criteriaMet?: string[]
+  criteriaMissed?: string[]
+  evidence?: string[]
+  confidence?: number
+  // Rubric level label, when graded against a rubric (questionNumber is the criterion)
+  level?: string
+  // Label of the teacher-marked exemplar that most influenced this mark
+  exemplar?: string
+}
+
+/** What a grading call hands back: the validated result plus the raw JSON for the record. */
+export interface StructuredGradingResponse {
+  grading: GradingOutput
+  raw: string
+  // How many repair round-trips it took to get valid output
+  repairs: number
+  usage: { input_tokens: number; output_tokens: number; total_tokens: number }
+}
+
+/** Appended to every grading prompt: the exact JSON the response must be. */
+export const GRADING_JSON_INSTRUCTIONS = `RESPONSE FORMAT — respond with ONLY a JSON object, no other text:
+{
+  "status": "graded" | "unreadable",
+  "unreadable_reason": null or "<why, when the files could not be read at all>",
+  "required_questions": [{"question": "1a", "marks": 2}, ...],
+  "stated_total": <the paper's stated total marks, or null if the mark scheme doesn't give one>,
+  "questions": [
+    {
+      "question": "1a",
+      "marks_awarded": 2,
+      "marks_possible": 2,
+      "criteria_met": ["<mark-scheme point the answer earned>", ...],
+      "criteria_missed": ["<mark-scheme point the answer missed>", ...],
+      "evidence": ["<short verbatim quote from the student's answer>", ...],
+      "feedback": "<specific feedback: what earned marks, what lost them, what full marks needed>",
+      "confidence": <0 to 1, how sure you are of this mark>
+    }
+  ],
+  "strengths": ["..."],
+  "improvements": ["..."],
+  "overall_feedback": "..."
+}
+
+Rules:
+- "required_questions" lists ONLY the questions this student must answer, with the marks each is out of. For choice sections ("Answer ONE of…", "EITHER…OR") include only the one the student answered.
+- "questions" has exactly one entry per required question, in paper order, with "marks_possible" equal to its marks in "required_questions".
+- The "marks_possible" values must add up to "stated_total" when it is given.
+- Use the question labels exactly as the mark scheme writes them. Ignore past-paper codes like "S24-13".
+- Half marks are allowed where the mark scheme allows them.
+- An unattempted question gets 0 with feedback "Question not attempted". An illegible answer gets 0, feedback saying it could not be read, and a low confidence.
+- Use "status": "unreadable" only when you cannot read the files at all; then "questions" may be empty.`
+
+/**
+ * Pull the outermost JSON object out of a model response — tolerates
+ * preamble text, code fences, and trailing commentary.
+ */
+export function extractJsonObject(raw: string): unknown {
+  const start = raw.indexOf('{')
+  const end = raw.lastIndexOf('}')
+  if (start === -1 || end <= start) throw new Error('No JSON object in response')
+  return JSON.parse(raw.slice(start, end + 1))
+}
+
+export type GradingParseResult =
+  | { ok: true; grading: GradingOutput }
+  | { ok: false; issues: string[] }
+
+/** Validate a raw model response; on failure, the problems phrased for the repair prompt. */
+export function parseGradingOutput(raw: string): GradingParseResult {
+  let json: unknown
+  try {
+    json = extractJsonObject(raw)
+  } catch (err) {
+    return { ok: false, issues: [`the response is not a JSON object (${err instanceof Error ? err.message : 'parse error'})`] }
+  }
+  const parsed = gradingOutputSchema.safeParse(json)
+  if (parsed.success) return { ok: true, grading: parsed.data }
+  return {
+    ok: false,
+    issues: parsed.error.issues.map(i => (i.path.length > 0 ? `${i.path.join('.')}: ${i.message}` : i.message)),
+  }
+}
+
+export function buildRepairPrompt(issues: string[]): string {
+  return `Your response did not match the required format:
+${issues.slice(0, 20).map(i => `- ${i}`).join('\n')}
+
+Fix these problems and respond again with ONLY the complete, corrected JSON object. Re-check the student's work where a fix changes a mark.`
+}
+
+export function toGradeBreakdown(grading: GradingOutput): GradeBreakdownItem[] {
+  return grading.questions.map(q => ({
+    questionNumber: q.question,
+    marksAwarded: q.marks_awarded,
+    marksPossible: q.marks_possible,
+    explanation: q.feedback,
+    criteriaMet: q.criteria_met,
+    criteriaMissed: q.criteria_missed,
+    evidence: q.evidence,
+    confidence: q.confidence,
+    ...(q.level ? { level: q.level } : {}),
+    ...(q.exemplar ? { exemplar: q.exemplar } : {}),
+  }))
+}
+
+export function gradingTotals(grading: GradingOutput): { totalMarks: number; totalPossibleMarks: number } {
+  return {
+    totalMarks: round2(grading.questions.reduce((sum, q) => sum + q.marks_awarded, 0)),
+    totalPossibleMarks: round2(sumPossible(grading.questions)),
+  }
+}
+
+/** The least certain question sets the result's confidence — that's the one a teacher should check. */
+export function overallConfidence(grading: GradingOutput): number | null {
+  if (grading.questions.length === 0) return null
+  return Math.min(...grading.questions.map(q => q.confidence))
+}
+
+/**
+ * Readable Markdown of a grading, in the "**Question 1a**, Mark: 2/2 - …"
+ * layout reports have always used, for grading_results.content.
+ */
+export function renderGradingMarkdown(grading: GradingOutput): string {
+  const { totalMarks, totalPossibleMarks } = gradingTotals(grading)
+  const pct = totalPossibleMarks > 0 ? (totalMarks / totalPossibleMarks) * 100 : 0
+  const lines = grading.questions.map(q =>
+    `**Question ${q.question}**, Mark: ${q.marks_awarded}/${q.marks_possible}${q.level ? ` (${q.level})` : ''} - ${q.feedback}`
+  )
+  lines.push('', `**Total: ${totalMarks}/${totalPossibleMarks}**`, `**Percentage: ${pct.toFixed(1)}%**`)
+  if (grading.strengths.length > 0) lines.push('', '**Strengths**', ...grading.strengths.map(s => `- ${s}`))
+  if (grading.improvements.length > 0) lines.push('', '**Areas for improvement**', ...grading.improvements.map(s => `- ${s}`))
+  if (grading.overall_feedback) lines.push('', grading.overall_feedback)
+  return lines.join('\n')
+}
+
+function sumPossible(questions: QuestionGrade[]): number {
+  return questions.reduce((sum, q) => sum + q.marks_possible, 0)
+}
+
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+// "Question 1(a)" and "1a" are the same question
+export function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/^question\s*/, '').replace(/[\s()[\].]/g, '')
+}
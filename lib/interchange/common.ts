@@ -0,0 +1,44 @@
+import type { QuestionInput } from '@/lib/types/question-bank'
+
+// Shapes shared by the interchange format modules. Kept free of parser code
+// so client components can import them.
+
+export type InterchangeFormat = 'qti' | 'gift' | 'moodle_xml'
+
+export const INTERCHANGE_FORMATS: Record<InterchangeFormat, { label: string; extension: string; mime: string }> = {
+  qti: { label: 'QTI 2.1 (.zip)', extension: 'zip', mime: 'application/zip' },
+  gift: { label: 'GIFT (.txt)', extension: 'txt', mime: 'text/plain; charset=utf-8' },
+  moodle_xml: { label: 'Moodle XML', extension: 'xml', mime: 'application/xml; charset=utf-8' },
+}
+
+/** A bank question without ownership — what moves in and out of files. */
+export type PortableQuestion = Omit<QuestionInput, 'concept_id'>
+
+/**
+ * One item found in an import file. `question` is set when the item mapped to
+ * a bank type; `error` says why it was rejected (unsupported type, failed
+ * validation). `ref` identifies the item to the teacher (its name or number).
+ */
+export interface ImportCandidate {
+  ref: string
+  question: PortableQuestion | null
+  error: string | null
+}
+
+/** A question that couldn't be written in the chosen format. */
+export interface SkippedExport {
+  question_text: string
+  reason: string
+}
+
+export interface ExportFile {
+  body: string | Uint8Array
+  skipped: SkippedExport[]
+}
+
+/** Collapse whitespace and cap length so refs stay readable in the preview. */
+export function refFrom(text: string, fallback: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim()
+  if (!clean) return fallback
+  return clean.length > 60 ? `${clean.slice(0, 59)}…` : clean
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { parseGift, toGift } from './gift'
+import { parseImport } from './index'
+import type { PortableQuestion } from './common'
+
+const questions: PortableQuestion[] = [
+  {
+    type: 'multiple_choice',
+    question_text: 'Which gas do plants absorb?',
+    options: ['Oxygen', 'Carbon dioxide', 'Nitrogen'],
+    correct_answer: { index: 1 },
+    explanation: 'Used in photosynthesis',
+    difficulty: 2,
+  },
+  { type: 'true_false', question_text: 'Water boils at 100 °C at sea level.', options: null, correct_answer: { value: true }, difficulty: 2 },
+  {
+    type: 'numeric',
+    question_text: 'Ratio of 3:4 as a decimal?',
+    options: null,
+    correct_answer: { value: 0.75, tolerance: 0.01 },
+    difficulty: 2,
+  },
+  {
+    type: 'multi_select',
+    question_text: 'Which are noble gases?',
+    options: ['Neon', 'Argon', 'Sodium', 'Chlorine'],
+    correct_answer: { indices: [0, 1] },
+    difficulty: 2,
+  },
+  {
+    type: 'matching',
+    question_text: 'Match element to symbol',
+    options: ['Iron', 'Gold', 'Lead'],
+    correct_answer: { matches: ['Fe', 'Au', 'Pb'] },
+    difficulty: 2,
+  },
+  {
+    type: 'short_answer',
+    question_text: 'Name the powerhouse of the cell.',
+    options: null,
+    correct_answer: { sample_answer: 'Mitochondria' },
+    difficulty: 2,
+  },
+]
+
+describe('toGift / parseGift', () => {
+  it('round-trips every type GIFT can hold', () => {
+    const { body, skipped } = toGift(questions)
+    expect(skipped).toEqual([])
+    const parsed = parseGift(body as string)
+    expect(parsed.map(c => c.error)).toEqual(questions.map(() => null))
+    expect(parsed.map(c => c.question)).toEqual(
+      questions.map(q => ({ explanation: null, ...q }))
+    )
+  })
+
+  it('skips ordering and multi-part questions with a reason', () => {
+    const { skipped } = toGift([
+      { type: 'ordering', question_text: 'Order these', options: ['a', 'b'], correct_answer: { order: [1, 0] } },
+    ])
+    expect(skipped).toEqual([{ question_text: 'Order these', reason: 'GIFT has no ordering questions' }])
+  })
+})
+
+describe('parseGift', () => {
+  it('reads titles, comments, categories, missing-word and range answers', () => {
+    const parsed = parseGift(`// a comment
+$CATEGORY: Chemistry
+
+::Titled:: The sun is a {~planet =star ~moon} in our system.
+
+::Range:: Pick a number near 5 {#4..6}
+
+Accepts several {=colour =color}`)
+    expect(parsed).toHaveLength(3)
+    expect(parsed[0].ref).toBe('Titled')
+    expect(parsed[0].question).toMatchObject({
+      type: 'multiple_choice',
+      question_text: 'The sun is a _____ in our system.',
+      correct_answer: { index: 1 },
+    })
+    expect(parsed[1].question?.correct_answer).toEqual({ value: 5, tolerance: 1 })
+    expect(parsed[2].question?.correct_answer).toEqual({ sample_answer: 'colour', rubric_notes: 'Also accept: color' })
+  })
+
+  it('keeps escaped special characters as text', () => {
+    const [c] = parseGift('What is 2 \\= 2? {=yes \\{really\\} ~no}')
+    expect(c.question?.question_text).toBe('What is 2 = 2?')
+    expect(c.question?.options).toEqual(['yes {really}', 'no'])
+  })
+
+  it('reports unanswerable and malformed items instead of dropping them', () => {
+    const candidates = parseImport('gift', new TextEncoder().encode('Write an essay {}\n\nBroken {=a ~b'))
+    expect(candidates.map(c => c.error)).toEqual(['Essay questions have no answer to import', 'Unclosed answer block'])
+  })
+
+  it('rejects items that fail bank validation', () => {
+    const candidates = parseImport('gift', new TextEncoder().encode('{=a ~b}\n\nToo many {=1 ~2 ~3 ~4 ~5 ~6 ~7}'))
+    expect(candidates.map(c => c.question)).toEqual([null, null])
+    expect(candidates.map(c => c.error)).toEqual(['Question text is required', 'Multiple choice requires 2-6 options'])
+  })
+})
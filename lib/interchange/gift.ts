@@ -0,0 +1,270 @@
+import type { NumericAnswer } from '@/lib/types/question-bank'
+import { refFrom, type ExportFile, type ImportCandidate, type PortableQuestion, type SkippedExport } from '@/lib/interchange/common'
+import { htmlToText } from '@/lib/interchange/xml'
+
+// GIFT (Moodle's plain-text quiz format). Questions are separated by blank
+// lines; the answer block sits in braces:
+//   ::Title:: Question text {=right ~wrong #feedback ####general feedback}
+// GIFT short answers are exact-match lists; we keep the first as the sample
+// answer and the rest as grading notes for the AI grader.
+
+const SPECIAL = /[~=#{}:\\]/g
+
+function escapeGift(text: string): string {
+  return text.replace(SPECIAL, c => `\\${c}`).replace(/\r?\n/g, '\\n')
+}
+
+function unescapeGift(text: string): string {
+  return text.replace(/\\(.)/g, (_, c: string) => (c === 'n' ? '\n' : c)).trim()
+}
+
+/** Index of the first unescaped occurrence of `char` at or after `from`, or -1. */
+function findUnescaped(text: string, char: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') i++
+    else if (text[i] === char) return i
+  }
+  return -1
+}
+
+/** Split at unescaped answer markers (= or ~), keeping the marker with each piece. */
+function splitAnswers(body: string): Array<{ marker: '=' | '~'; text: string }> {
+  const answers: Array<{ marker: '=' | '~'; text: string }> = []
+  let current: { marker: '=' | '~'; text: string } | null = null
+  for (let i = 0; i < body.length; i++) {
+    const c = body[i]
+    if (c === '\\' && i + 1 < body.length) {
+      if (current) current.text += c + body[i + 1]
+      i++
+    } else if (c === '=' || c === '~') {
+      current = { marker: c, text: '' }
+      answers.push(current)
+    } else if (current) {
+      current.text += c
+    }
+  }
+  return answers
+}
+
+/** "%50%text#feedback" → weight, text (feedback dropped). */
+function parseAnswer(raw: string): { weight: number | null; text: string } {
+  let text = raw
+  let weight: number | null = null
+  const weightMatch = /^\s*%(-?\d+(?:\.\d+)?)%/.exec(text)
+  if (weightMatch) {
+    weight = Number(weightMatch[1])
+    text = text.slice(weightMatch[0].length)
+  }
+  const hash = findUnescaped(text, '#')
+  if (hash !== -1) text = text.slice(0, hash)
+  return { weight, text: unescapeGift(text) }
+}
+
+function parseNumericBody(body: string): NumericAnswer | null {
+  // "#=1.5:0.1 =2:0" — several accepted answers; take the first (usually full credit)
+  const first = body.replace(/^#/, '').split(/(?<!\\)=/).map(s => s.trim()).find(Boolean) ?? ''
+  const hash = findUnescaped(first, '#')
+  const spec = (hash === -1 ? first : first.slice(0, hash)).replace(/^%-?\d+(?:\.\d+)?%/, '').trim()
+  const range = /^(-?[\d.eE+-]+)\s*\.\.\s*(-?[\d.eE+-]+)$/.exec(spec)
+  if (range) {
+    const lo = Number(range[1])
+    const hi = Number(range[2])
+    return { value: (lo + hi) / 2, tolerance: Math.abs(hi - lo) / 2 }
+  }
+  const [value, tolerance] = spec.split(':').map(Number)
+  if (!Number.isFinite(value)) return null
+  return Number.isFinite(tolerance) && tolerance > 0 ? { value, tolerance } : { value }
+}
+
+function parseBlock(block: string, ref: string): ImportCandidate | null {
+  let text = block
+  let title = ''
+  const titleMatch = /^::((?:\\.|[^:])*)::/.exec(text)
+  if (titleMatch) {
+    title = unescapeGift(titleMatch[1])
+    text = text.slice(titleMatch[0].length)
+  }
+  let isHtml = false
+  const formatMatch = /^\s*\[(html|moodle|plain|markdown)\]/i.exec(text)
+  if (formatMatch) {
+    isHtml = formatMatch[1].toLowerCase() === 'html'
+    text = text.slice(formatMatch[0].length)
+  }
+
+  const open = findUnescaped(text, '{')
+  const close = open === -1 ? -1 : findUnescaped(text, '}', open)
+  const label = refFrom(title || unescapeGift(text.replace(/\{[\s\S]*$/, '')), ref)
+  if (open === -1) return null // description item — nothing to answer
+  if (close === -1) return { ref: label, question: null, error: 'Unclosed answer block' }
+
+  const before = unescapeGift(text.slice(0, open))
+  const after = unescapeGift(text.slice(close + 1))
+  // "Missing word" questions put the blank mid-sentence
+  let questionText = after ? `${before} _____ ${after}` : before
+  if (isHtml) questionText = htmlToText(questionText)
+
+  let body = text.slice(open + 1, close).trim()
+  let explanation: string | null = null
+  const general = body.indexOf('####')
+  if (general !== -1) {
+    explanation = unescapeGift(body.slice(general + 4)) || null
+    body = body.slice(0, general).trim()
+  }
+
+  const base = { question_text: questionText, explanation, difficulty: 2 }
+
+  if (!body) {
+    return { ref: label, question: null, error: 'Essay questions have no answer to import' }
+  }
+
+  const tf = /^(T|TRUE|F|FALSE)\b/i.exec(body)
+  if (tf) {
+    return {
+      ref: label,
+      question: { ...base, type: 'true_false', options: null, correct_answer: { value: tf[1][0].toUpperCase() === 'T' } },
+      error: null,
+    }
+  }
+
+  if (body.startsWith('#')) {
+    const numeric = parseNumericBody(body)
+    return numeric
+      ? { ref: label, question: { ...base, type: 'numeric', options: null, correct_answer: numeric }, error: null }
+      : { ref: label, question: null, error: 'Could not read the numeric answer' }
+  }
+
+  const answers = splitAnswers(body)
+  if (answers.length === 0) return { ref: label, question: null, error: 'No answers found' }
+
+  if (answers.every(a => a.marker === '=' && /(?<!\\)->/.test(a.text))) {
+    const pairs = answers.map(a => a.text.split(/(?<!\\)->/).map(unescapeGift))
+    return {
+      ref: label,
+      question: {
+        ...base,
+        type: 'matching',
+        options: pairs.map(p => p[0]),
+        correct_answer: { matches: pairs.map(p => p[1] ?? '') },
+      },
+      error: null,
+    }
+  }
+
+  const parsed = answers.map(a => ({ marker: a.marker, ...parseAnswer(a.text) }))
+
+  if (parsed.every(a => a.marker === '=')) {
+    const accepted = parsed.map(a => a.text).filter(Boolean)
+    return {
+      ref: label,
+      question: {
+        ...base,
+        type: 'short_answer',
+        options: null,
+        correct_answer: {
+          sample_answer: accepted[0] ?? '',
+          ...(accepted.length > 1 ? { rubric_notes: `Also accept: ${accepted.slice(1).join('; ')}` } : {}),
+        },
+      },
+      error: null,
+    }
+  }
+
+  const options = parsed.map(a => a.text)
+  const correct = parsed
+    .map((a, i) => ((a.marker === '=' || (a.weight ?? 0) > 0) ? i : -1))
+    .filter(i => i >= 0)
+  if (correct.length === 1 && parsed.filter(a => (a.weight ?? 0) > 0 && a.weight! < 100).length === 0) {
+    return {
+      ref: label,
+      question: { ...base, type: 'multiple_choice', options, correct_answer: { index: correct[0] } },
+      error: null,
+    }
+  }
+  return {
+    ref: label,
+    question: { ...base, type: 'multi_select', options, correct_answer: { indices: correct } },
+    error: null,
+  }
+}
+
+/** Split a GIFT file into question blocks and map each to a bank question. */
+export function parseGift(source: string): ImportCandidate[] {
+  const lines = source
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .filter(line => !line.trim().startsWith('//'))
+
+  const blocks: string[] = []
+  let current: string[] = []
+  for (const line of lines) {
+    if (!line.trim()) {
+      if (current.length) blocks.push(current.join('\n'))
+      current = []
+    } else if (!line.trim().startsWith('$CATEGORY:')) {
+      current.push(line)
+    }
+  }
+  if (current.length) blocks.push(current.join('\n'))
+
+  return blocks
+    .map((block, i) => parseBlock(block.trim(), `Question ${i + 1}`))
+    .filter((c): c is ImportCandidate => c !== null)
+}
+
+function formatWeight(weight: number): string {
+  return String(Number(weight.toFixed(5)))
+}
+
+function answerBlock(q: PortableQuestion): string | null {
+  const answer = q.correct_answer as Record<string, unknown>
+  const options = (q.options ?? []).map(escapeGift)
+  switch (q.type) {
+    case 'multiple_choice':
+      return options.map((o, i) => `${i === answer.index ? '=' : '~'}${o}`).join('\n')
+    case 'true_false':
+      return answer.value ? 'TRUE' : 'FALSE'
+    case 'short_answer':
+      return `=${escapeGift(String(answer.sample_answer ?? ''))}`
+    case 'numeric': {
+      const n = answer as unknown as NumericAnswer
+      const tolerance = n.tolerance
+        ? n.tolerance_mode === 'percent' ? Math.abs(n.value) * n.tolerance / 100 : n.tolerance
+        : 0
+      return `#${n.value}${tolerance ? `:${Number(tolerance.toPrecision(6))}` : ''}`
+    }
+    case 'multi_select': {
+      // Each wrong pick cancels one right pick — the same rule the bank grades with
+      const correct = answer.indices as number[]
+      const weight = formatWeight(100 / correct.length)
+      return options.map((o, i) => `~%${correct.includes(i) ? '' : '-'}${weight}%${o}`).join('\n')
+    }
+    case 'matching':
+      return options
+        .map((o, i) => `=${o} -> ${escapeGift(String((answer.matches as string[])[i] ?? ''))}`)
+        .join('\n')
+    default:
+      return null
+  }
+}
+
+const GIFT_UNSUPPORTED: Record<string, string> = {
+  ordering: 'GIFT has no ordering questions',
+  multi_part: 'GIFT has no multi-part questions',
+}
+
+export function toGift(questions: PortableQuestion[]): ExportFile {
+  const skipped: SkippedExport[] = []
+  const blocks: string[] = []
+  questions.forEach((q, i) => {
+    const body = answerBlock(q)
+    if (body === null) {
+      skipped.push({ question_text: q.question_text, reason: GIFT_UNSUPPORTED[q.type] ?? 'Unsupported type' })
+      return
+    }
+    const title = escapeGift(refFrom(q.question_text, `Question ${i + 1}`).slice(0, 40))
+    const general = q.explanation ? `\n####${escapeGift(q.explanation)}` : ''
+    blocks.push(`::${title}::${escapeGift(q.question_text)} {\n${body}${general}\n}`)
+  })
+  return { body: blocks.join('\n\n') + '\n', skipped }
+}
@@ -0,0 +1,56 @@
+import { validateQuestionInput } from '@/lib/types/question-bank'
+import { parseGift, toGift } from '@/lib/interchange/gift'
+import { parseMoodleXml, toMoodleXml } from '@/lib/interchange/moodle-xml'
+import { parseQtiZip, parseQtiItem, toQtiZip } from '@/lib/interchange/qti'
+import type { ExportFile, ImportCandidate, InterchangeFormat, PortableQuestion } from '@/lib/interchange/common'
+
+export { INTERCHANGE_FORMATS } from '@/lib/interchange/common'
+export type { ExportFile, ImportCandidate, InterchangeFormat, PortableQuestion, SkippedExport } from '@/lib/interchange/common'
+
+// Question bank import/export. Each format module maps between its own
+// markup and the bank's CorrectAnswer shapes; this module picks the format and
+// runs every imported item through validateQuestionInput so the preview shows
+// exactly what the bank would accept.
+
+export function exportQuestions(format: InterchangeFormat, questions: PortableQuestion[]): ExportFile {
+  switch (format) {
+    case 'qti':
+      return toQtiZip(questions)
+    case 'gift':
+      return toGift(questions)
+    case 'moodle_xml':
+      return toMoodleXml(questions)
+  }
+}
+
+/** Guess the format from the file name, falling back to sniffing the content. */
+export function detectFormat(fileName: string, bytes: Uint8Array): InterchangeFormat | null {
+  const lower = fileName.toLowerCase()
+  if (lower.endsWith('.zip') || (bytes[0] === 0x50 && bytes[1] === 0x4b)) return 'qti'
+  const head = new TextDecoder().decode(bytes.slice(0, 4096))
+  if (/<(\w+:)?assessmentItem[\s>]/.test(head)) return 'qti'
+  if (/<quiz[\s>]/.test(head)) return 'moodle_xml'
+  if (lower.endsWith('.xml')) return null
+  if (lower.endsWith('.gift') || lower.endsWith('.txt') || head.includes('{')) return 'gift'
+  return null
+}
+
+/** Parse and validate an import file. Throws when the file itself is unreadable. */
+export function parseImport(format: InterchangeFormat, bytes: Uint8Array): ImportCandidate[] {
+  const text = () => new TextDecoder().decode(bytes)
+  const candidates =
+    format === 'qti'
+      ? bytes[0] === 0x50 && bytes[1] === 0x4b
+        ? parseQtiZip(bytes)
+        : [parseQtiItem(text(), 'Item 1')]
+      : format === 'gift'
+        ? parseGift(text())
+        : parseMoodleXml(text())
+  return candidates.map(validateCandidate)
+}
+
+export function validateCandidate(candidate: ImportCandidate): ImportCandidate {
+  if (!candidate.question) return candidate
+  const error = validateQuestionInput({ concept_id: '', ...candidate.question })
+  return error ? { ...candidate, question: null, error } : candidate
+}
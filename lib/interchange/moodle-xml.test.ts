@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { parseMoodleXml, toMoodleXml } from './moodle-xml'
+import type { PortableQuestion } from './common'
+
+const questions: PortableQuestion[] = [
+  {
+    type: 'multiple_choice',
+    question_text: 'Is 2 < 3 & 3 > 2?',
+    options: ['Yes', 'No'],
+    correct_answer: { index: 0 },
+    explanation: 'Both inequalities hold',
+    difficulty: 2,
+  },
+  {
+    type: 'multi_select',
+    question_text: 'Which are prime?',
+    options: ['2', '4', '5'],
+    correct_answer: { indices: [0, 2] },
+    difficulty: 2,
+  },
+  { type: 'true_false', question_text: 'The earth is flat.', options: null, correct_answer: { value: false }, difficulty: 2 },
+  {
+    type: 'numeric',
+    question_text: 'Molar mass of water?',
+    options: null,
+    correct_answer: { value: 18.02, tolerance: 0.05, unit: 'g/mol' },
+    difficulty: 2,
+  },
+  {
+    type: 'matching',
+    question_text: 'Match the organelle to its job',
+    options: ['Ribosome', 'Nucleus'],
+    correct_answer: { matches: ['Makes protein', 'Stores DNA'] },
+    difficulty: 2,
+  },
+  {
+    type: 'ordering',
+    question_text: 'Order the planets from the sun',
+    options: ['Earth', 'Mercury', 'Venus'],
+    correct_answer: { order: [1, 2, 0] },
+    difficulty: 2,
+  },
+  {
+    type: 'short_answer',
+    question_text: 'Explain osmosis.\n\nUse the term "gradient".',
+    options: null,
+    correct_answer: { sample_answer: 'Water moves down its concentration gradient across a membrane.' },
+    difficulty: 2,
+  },
+]
+
+describe('toMoodleXml / parseMoodleXml', () => {
+  it('round-trips every single-part type', () => {
+    const { body, skipped } = toMoodleXml(questions)
+    expect(skipped).toEqual([])
+    const parsed = parseMoodleXml(body as string)
+    expect(parsed.map(c => c.error)).toEqual(questions.map(() => null))
+
+    // Ordering comes back in its correct sequence; everything else is unchanged
+    const expected = questions.map(q =>
+      q.type === 'ordering'
+        ? { ...q, options: ['Mercury', 'Venus', 'Earth'], correct_answer: { order: [0, 1, 2] } }
+        : q
+    )
+    expect(parsed.map(c => c.question)).toEqual(expected.map(q => ({ explanation: null, ...q })))
+  })
+
+  it('skips multi-part questions', () => {
+    const { skipped } = toMoodleXml([
+      { type: 'multi_part', question_text: 'Stem', options: null, correct_answer: { parts: [] } },
+    ])
+    expect(skipped).toHaveLength(1)
+  })
+})
+
+describe('parseMoodleXml', () => {
+  it('skips categories, reports unsupported types and reads HTML text', () => {
+    const parsed = parseMoodleXml(`<?xml version="1.0"?>
+<quiz>
+  <question type="category"><category><text>$course$/Chem</text></category></question>
+  <question type="multianswer">
+    <name><text>Cloze</text></name>
+    <questiontext format="html"><text>{1:SHORTANSWER:=x}</text></questiontext>
+  </question>
+  <question type="shortanswer">
+    <name><text>Capital</text></name>
+    <questiontext format="html"><text><![CDATA[<p>Capital of <b>France</b>?</p>]]></text></questiontext>
+    <answer fraction="100"><text>Paris</text></answer>
+    <answer fraction="100"><text>paris</text></answer>
+    <answer fraction="0"><text>Lyon</text></answer>
+  </question>
+</quiz>`)
+    expect(parsed.map(c => c.ref)).toEqual(['Cloze', 'Capital'])
+    expect(parsed[0].error).toBe('Unsupported question type "multianswer"')
+    expect(parsed[1].question).toMatchObject({
+      type: 'short_answer',
+      question_text: 'Capital of France?',
+      correct_answer: { sample_answer: 'Paris', rubric_notes: 'Also accept: paris' },
+    })
+  })
+
+  it('refuses documents that are not a quiz', () => {
+    expect(() => parseMoodleXml('<assessmentItem/>')).toThrow(/Moodle XML/)
+  })
+})
@@ -0,0 +1,257 @@
+import type { NumericAnswer } from '@/lib/types/question-bank'
+import { refFrom, type ExportFile, type ImportCandidate, type PortableQuestion, type SkippedExport } from '@/lib/interchange/common'
+import {
+  childElement,
+  childElements,
+  escapeXml,
+  htmlToText,
+  parseXml,
+  textContent,
+  toMarkup,
+  type XmlElement,
+} from '@/lib/interchange/xml'
+
+// Moodle XML: <quiz> holding <question type="..."> elements. Text fields are
+// <text> children, usually HTML inside CDATA. Category and description
+// entries aren't questions and are skipped silently; cloze (multianswer),
+// calculated and the other plugin types are reported as unsupported.
+
+/** Text of a <foo><text>…</text></foo> field, HTML flattened. */
+function fieldText(el: XmlElement | undefined): string {
+  if (!el) return ''
+  const text = childElement(el, 'text')
+  // HTML that wasn't wrapped in CDATA arrives as parsed elements
+  const raw = text ? text.children.map(c => (typeof c === 'string' ? c : toMarkup(c))).join('') : textContent(el)
+  return htmlToText(raw)
+}
+
+function answersOf(q: XmlElement): Array<{ fraction: number; text: string }> {
+  return childElements(q, 'answer').map(a => ({
+    fraction: Number(a.attrs.fraction ?? 0),
+    text: fieldText(a),
+  }))
+}
+
+function mapQuestion(q: XmlElement): Omit<ImportCandidate, 'ref'> {
+  const base = {
+    question_text: fieldText(childElement(q, 'questiontext')),
+    explanation: fieldText(childElement(q, 'generalfeedback')) || null,
+    difficulty: 2,
+  }
+  const ok = (question: PortableQuestion) => ({ question, error: null })
+
+  switch (q.attrs.type) {
+    case 'multichoice': {
+      const answers = answersOf(q)
+      const options = answers.map(a => a.text)
+      if (textContent(childElement(q, 'single')).trim() === 'false') {
+        const indices = answers.flatMap((a, i) => (a.fraction > 0 ? [i] : []))
+        return ok({ ...base, type: 'multi_select', options, correct_answer: { indices } })
+      }
+      const best = answers.reduce((top, a, i) => (a.fraction > answers[top].fraction ? i : top), 0)
+      return ok({ ...base, type: 'multiple_choice', options, correct_answer: { index: best } })
+    }
+
+    case 'truefalse': {
+      const right = answersOf(q).find(a => a.fraction === 100)
+      if (!right) return { question: null, error: 'No answer marked correct' }
+      return ok({ ...base, type: 'true_false', options: null, correct_answer: { value: right.text.toLowerCase() === 'true' } })
+    }
+
+    case 'shortanswer': {
+      const accepted = answersOf(q)
+        .filter(a => a.fraction === 100)
+        .map(a => a.text)
+      return ok({
+        ...base,
+        type: 'short_answer',
+        options: null,
+        correct_answer: {
+          sample_answer: accepted[0] ?? '',
+          ...(accepted.length > 1 ? { rubric_notes: `Also accept: ${accepted.slice(1).join('; ')}` } : {}),
+        },
+      })
+    }
+
+    case 'essay': {
+      // Moodle essays carry the marking guide in graderinfo
+      return ok({
+        ...base,
+        type: 'short_answer',
+        options: null,
+        correct_answer: { sample_answer: fieldText(childElement(q, 'graderinfo')) },
+      })
+    }
+
+    case 'numerical': {
+      const answer = childElements(q, 'answer').find(a => Number(a.attrs.fraction ?? 0) === 100)
+      const value = Number(fieldText(answer))
+      if (!answer || !Number.isFinite(value)) return { question: null, error: 'Could not read the numeric answer' }
+      const tolerance = Number(textContent(childElement(answer, 'tolerance')))
+      const units = childElement(q, 'units')
+      const unit = units && childElements(units, 'unit').find(u => Number(textContent(childElement(u, 'multiplier'))) === 1)
+      const unitName = unit ? textContent(childElement(unit, 'unit_name')).trim() : ''
+      const correct: NumericAnswer = {
+        value,
+        ...(tolerance > 0 ? { tolerance } : {}),
+        ...(unitName ? { unit: unitName } : {}),
+      }
+      return ok({ ...base, type: 'numeric', options: null, correct_answer: correct })
+    }
+
+    case 'matching': {
+      const pairs = childElements(q, 'subquestion')
+        .map(s => ({ left: fieldText(s), right: textContent(childElement(s, 'answer')).trim() }))
+        // Subquestions with no stem are distractor answers; we have nowhere to put them
+        .filter(p => p.left)
+      return ok({
+        ...base,
+        type: 'matching',
+        options: pairs.map(p => p.left),
+        correct_answer: { matches: pairs.map(p => p.right) },
+      })
+    }
+
+    case 'ordering': {
+      const options = answersOf(q).map(a => a.text)
+      return ok({ ...base, type: 'ordering', options, correct_answer: { order: options.map((_, i) => i) } })
+    }
+
+    default:
+      return { question: null, error: `Unsupported question type "${q.attrs.type ?? 'unknown'}"` }
+  }
+}
+
+export function parseMoodleXml(source: string): ImportCandidate[] {
+  const root = parseXml(source)
+  if (root.name !== 'quiz') throw new Error('Not a Moodle XML file (expected a <quiz> root)')
+
+  return childElements(root, 'question')
+    .filter(q => q.attrs.type !== 'category' && q.attrs.type !== 'description')
+    .map((q, i) => {
+      const name = fieldText(childElement(q, 'name'))
+      const mapped = mapQuestion(q)
+      return { ref: refFrom(name || mapped.question?.question_text || '', `Question ${i + 1}`), ...mapped }
+    })
+}
+
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+}
+
+/** Plain text → the HTML Moodle expects, paragraph breaks kept. */
+function textField(tag: string, text: string): string {
+  const html = text
+    .split(/\n{2,}/)
+    .map(p => `<p>${escapeXml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('')
+  return `<${tag} format="html"><text>${cdata(html)}</text></${tag}>`
+}
+
+function answerXml(fraction: number, text: string, extra = ''): string {
+  return `<answer fraction="${Number(fraction.toFixed(5))}" format="plain_text"><text>${escapeXml(text)}</text>${extra}</answer>`
+}
+
+function questionBody(q: PortableQuestion): { type: string; body: string } | null {
+  const answer = q.correct_answer as Record<string, unknown>
+  const options = q.options ?? []
+  switch (q.type) {
+    case 'multiple_choice':
+      return {
+        type: 'multichoice',
+        body: [
+          '<single>true</single><shuffleanswers>true</shuffleanswers>',
+          ...options.map((o, i) => answerXml(i === answer.index ? 100 : 0, o)),
+        ].join('\n'),
+      }
+    case 'multi_select': {
+      const correct = answer.indices as number[]
+      const wrong = options.length - correct.length
+      return {
+        type: 'multichoice',
+        body: [
+          '<single>false</single><shuffleanswers>true</shuffleanswers>',
+          ...options.map((o, i) => answerXml(correct.includes(i) ? 100 / correct.length : wrong ? -100 / wrong : 0, o)),
+        ].join('\n'),
+      }
+    }
+    case 'true_false':
+      return {
+        type: 'truefalse',
+        body: [answerXml(answer.value ? 100 : 0, 'true'), answerXml(answer.value ? 0 : 100, 'false')].join('\n'),
+      }
+    case 'short_answer': {
+      const notes = answer.rubric_notes ? `\n\n${String(answer.rubric_notes)}` : ''
+      return {
+        type: 'essay',
+        body: [
+          '<responseformat>editor</responseformat><responsefieldlines>5</responsefieldlines>',
+          textField('graderinfo', `${String(answer.sample_answer ?? '')}${notes}`),
+        ].join('\n'),
+      }
+    }
+    case 'numeric': {
+      const n = answer as unknown as NumericAnswer
+      const tolerance = n.tolerance
+        ? n.tolerance_mode === 'percent' ? Math.abs(n.value) * n.tolerance / 100 : n.tolerance
+        : 0
+      const units = n.unit
+        ? `\n<units><unit><multiplier>1</multiplier><unit_name>${escapeXml(n.unit)}</unit_name></unit></units>` +
+          '\n<showunits>0</showunits><unitsleft>0</unitsleft><unitgradingtype>0</unitgradingtype>'
+        : ''
+      return {
+        type: 'numerical',
+        body: answerXml(100, String(n.value), `<tolerance>${Number(tolerance.toPrecision(6))}</tolerance>`) + units,
+      }
+    }
+    case 'matching':
+      return {
+        type: 'matching',
+        body: [
+          '<shuffleanswers>true</shuffleanswers>',
+          ...options.map((o, i) =>
+            `<subquestion format="html"><text>${cdata(escapeXml(o))}</text>` +
+            `<answer><text>${escapeXml(String((answer.matches as string[])[i] ?? ''))}</text></answer></subquestion>`
+          ),
+        ].join('\n'),
+      }
+    case 'ordering': {
+      const order = answer.order as number[]
+      return {
+        type: 'ordering',
+        body: order.map((o, position) => answerXml(position + 1, options[o] ?? '')).join('\n'),
+      }
+    }
+    default:
+      return null
+  }
+}
+
+export function toMoodleXml(questions: PortableQuestion[]): ExportFile {
+  const skipped: SkippedExport[] = []
+  const items: string[] = []
+  questions.forEach((q, i) => {
+    const mapped = questionBody(q)
+    if (!mapped) {
+      skipped.push({ question_text: q.question_text, reason: 'Moodle XML has no multi-part questions outside cloze' })
+      return
+    }
+    items.push(
+      [
+        `<question type="${mapped.type}">`,
+        `<name><text>${escapeXml(refFrom(q.question_text, `Question ${i + 1}`))}</text></name>`,
+        textField('questiontext', q.question_text),
+        q.explanation ? textField('generalfeedback', q.explanation) : '',
+        `<defaultgrade>1</defaultgrade>`,
+        mapped.body,
+        '</question>',
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+  })
+  return {
+    body: `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${items.join('\n')}\n</quiz>\n`,
+    skipped,
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import PizZip from 'pizzip'
+import { parseQtiItem, parseQtiZip, toQtiZip } from './qti'
+import { detectFormat, parseImport } from './index'
+import type { PortableQuestion } from './common'
+
+const questions: PortableQuestion[] = [
+  {
+    type: 'multiple_choice',
+    question_text: 'Which is a metal?',
+    options: ['Sulfur', 'Copper', 'Neon'],
+    correct_answer: { index: 1 },
+    explanation: 'Copper conducts',
+    difficulty: 2,
+  },
+  { type: 'true_false', question_text: 'Ice is less dense than water.', options: null, correct_answer: { value: true }, difficulty: 2 },
+  {
+    type: 'multi_select',
+    question_text: 'Which are vectors?',
+    options: ['Speed', 'Velocity', 'Force'],
+    correct_answer: { indices: [1, 2] },
+    difficulty: 2,
+  },
+  {
+    type: 'ordering',
+    question_text: 'Smallest to largest',
+    options: ['Cell', 'Atom', 'Molecule'],
+    correct_answer: { order: [1, 2, 0] },
+    difficulty: 2,
+  },
+  {
+    type: 'matching',
+    question_text: 'Match the quantity to its unit',
+    options: ['Force', 'Energy', 'Work'],
+    correct_answer: { matches: ['newton', 'joule', 'joule'] },
+    difficulty: 2,
+  },
+  {
+    type: 'numeric',
+    question_text: 'g on Earth?',
+    options: null,
+    correct_answer: { value: 9.81, tolerance: 2, tolerance_mode: 'percent', unit: 'm/s^2' },
+    difficulty: 2,
+  },
+  {
+    type: 'short_answer',
+    question_text: 'Why is the sky blue?',
+    options: null,
+    correct_answer: { sample_answer: 'Rayleigh scattering', rubric_notes: 'Mention wavelength' },
+    difficulty: 2,
+  },
+  {
+    type: 'multi_part',
+    question_text: 'A 2 kg mass accelerates at 3 m/s².',
+    options: null,
+    correct_answer: {
+      parts: [
+        { type: 'numeric', prompt: 'What is the net force?', options: null, correct_answer: { value: 6, unit: 'N' } },
+        { type: 'multiple_choice', prompt: 'Which law applies?', options: ['First', 'Second'], correct_answer: { index: 1 } },
+      ],
+    },
+    difficulty: 2,
+  },
+]
+
+describe('toQtiZip / parseQtiZip', () => {
+  it('round-trips every bank type through a content package', () => {
+    const { body, skipped } = toQtiZip(questions)
+    expect(skipped).toEqual([])
+    const bytes = body as Uint8Array
+    expect(detectFormat('export.zip', bytes)).toBe('qti')
+
+    const parsed = parseImport('qti', bytes)
+    expect(parsed.map(c => c.error)).toEqual(questions.map(() => null))
+    expect(parsed.map(c => c.question)).toEqual(questions.map(q => ({ explanation: null, ...q })))
+  })
+
+  it('finds items without a manifest and reports missing files', () => {
+    const zip = new PizZip()
+    zip.file('loose/item.xml', '<assessmentItem identifier="x"><itemBody><p>No interaction</p></itemBody></assessmentItem>')
+    expect(parseQtiZip(zip.generate({ type: 'uint8array' }))).toEqual([
+      { ref: 'No interaction', question: null, error: 'Item has no interactions' },
+    ])
+
+    const listed = new PizZip()
+    listed.file(
+      'imsmanifest.xml',
+      '<manifest><resources><resource type="imsqti_item_xmlv2p1" href="gone.xml"/></resources></manifest>'
+    )
+    expect(parseQtiZip(listed.generate({ type: 'uint8array' }))[0].error).toMatch(/missing/)
+  })
+})
+
+describe('parseQtiItem', () => {
+  it('reads a choice item with its prompt inside the interaction', () => {
+    const candidate = parseQtiItem(
+      `<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="i1" title="Capitals">
+        <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier">
+          <correctResponse><value>B</value></correctResponse>
+        </responseDeclaration>
+        <itemBody>
+          <choiceInteraction responseIdentifier="RESPONSE" maxChoices="1">
+            <prompt>Capital of Italy?</prompt>
+            <simpleChoice identifier="A">Milan</simpleChoice>
+            <simpleChoice identifier="B">Rome</simpleChoice>
+          </choiceInteraction>
+        </itemBody>
+      </assessmentItem>`,
+      'Item 1'
+    )
+    expect(candidate).toEqual({
+      ref: 'Capitals',
+      question: {
+        type: 'multiple_choice',
+        question_text: 'Capital of Italy?',
+        options: ['Milan', 'Rome'],
+        correct_answer: { index: 1 },
+        explanation: null,
+        difficulty: 2,
+      },
+      error: null,
+    })
+  })
+
+  it('rejects unsupported interactions', () => {
+    const candidate = parseQtiItem(
+      `<assessmentItem identifier="h">
+        <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier"/>
+        <itemBody><p>Click the heart</p><hotspotInteraction responseIdentifier="RESPONSE"/></itemBody>
+      </assessmentItem>`,
+      'Item 1'
+    )
+    expect(candidate.error).toBe('Unsupported interaction "hotspotInteraction"')
+  })
+})
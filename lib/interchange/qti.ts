@@ -0,0 +1,451 @@
+import PizZip from 'pizzip'
+import { PART_TYPES, type NumericAnswer, type PartType, type QuestionPart } from '@/lib/types/question-bank'
+import { refFrom, type ExportFile, type ImportCandidate, type PortableQuestion } from '@/lib/interchange/common'
+import {
+  childElement,
+  childElements,
+  escapeXml,
+  findAll,
+  htmlToText,
+  parseXml,
+  textContent,
+  type XmlElement,
+  type XmlNode,
+} from '@/lib/interchange/xml'
+
+// IMS QTI 2.1. Exports are a content package: imsmanifest.xml plus one
+// assessmentItem per question under items/. Each bank type maps to one
+// interaction; multi-part questions become one item with an interaction per
+// part (RESPONSE_1…n). QTI has nowhere for significant figures, so numeric
+// answers keep value, tolerance and unit only.
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1'
+const MATCH_CORRECT = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/match_correct'
+
+const INTERACTIONS = new Set([
+  'choiceInteraction',
+  'orderInteraction',
+  'matchInteraction',
+  'textEntryInteraction',
+  'extendedTextInteraction',
+  'associateInteraction',
+  'gapMatchInteraction',
+  'inlineChoiceInteraction',
+  'hotspotInteraction',
+  'hottextInteraction',
+  'sliderInteraction',
+  'uploadInteraction',
+  'drawingInteraction',
+  'graphicOrderInteraction',
+  'graphicAssociateInteraction',
+  'graphicGapMatchInteraction',
+  'selectPointInteraction',
+  'positionObjectInteraction',
+  'mediaInteraction',
+  'customInteraction',
+])
+
+// ============================================
+// Import
+// ============================================
+
+/** Markup of a node with interactions, scorer notes and unit labels removed. */
+function bodyMarkup(node: XmlNode): string {
+  if (typeof node === 'string') return escapeXml(node)
+  if (INTERACTIONS.has(node.name) || node.name === 'rubricBlock' || node.attrs.class === 'unit') return ''
+  return `<${node.name}>${node.children.map(bodyMarkup).join('')}</${node.name}>`
+}
+
+const plainText = (nodes: XmlNode[]) => htmlToText(nodes.map(bodyMarkup).join(''))
+
+function containsInteraction(node: XmlElement): boolean {
+  return childElements(node).some(c => INTERACTIONS.has(c.name) || containsInteraction(c))
+}
+
+interface ResponseInfo {
+  baseType: string
+  cardinality: string
+  correct: string[]
+}
+
+function readResponses(item: XmlElement): Map<string, ResponseInfo> {
+  const responses = new Map<string, ResponseInfo>()
+  for (const decl of childElements(item, 'responseDeclaration')) {
+    responses.set(decl.attrs.identifier, {
+      baseType: decl.attrs.baseType ?? '',
+      cardinality: decl.attrs.cardinality ?? 'single',
+      correct: childElements(childElement(decl, 'correctResponse') ?? decl, 'value').map(v => textContent(v).trim()),
+    })
+  }
+  return responses
+}
+
+/** The <equal> test for this response, if the item scores it with a tolerance. */
+function toleranceFor(item: XmlElement, responseId: string): Pick<NumericAnswer, 'tolerance' | 'tolerance_mode'> {
+  const rp = childElement(item, 'responseProcessing')
+  const equal = rp && findAll(rp, 'equal').find(e => findAll(e, 'variable').some(v => v.attrs.identifier === responseId))
+  const tolerance = Number((equal?.attrs.tolerance ?? '').trim().split(/\s+/)[0])
+  if (!equal || !(tolerance > 0)) return {}
+  // QTI's relative tolerance is a percentage, same as ours
+  return equal.attrs.toleranceMode === 'relative'
+    ? { tolerance, tolerance_mode: 'percent' }
+    : { tolerance }
+}
+
+type Mapped =
+  | { type: PortableQuestion['type']; options: string[] | null; correct_answer: PortableQuestion['correct_answer']; prompt: string }
+  | { error: string }
+
+function choiceTexts(interaction: XmlElement, name: string): Array<{ id: string; text: string }> {
+  return findAll(interaction, name).map(c => ({ id: c.attrs.identifier, text: htmlToText(c.children.map(bodyMarkup).join('')) }))
+}
+
+function mapInteraction(item: XmlElement, interaction: XmlElement, responses: Map<string, ResponseInfo>): Mapped {
+  const id = interaction.attrs.responseIdentifier
+  const response = responses.get(id)
+  if (!response) return { error: `No response declaration for ${id ?? 'interaction'}` }
+  const prompt = plainText(childElement(interaction, 'prompt')?.children ?? [])
+
+  switch (interaction.name) {
+    case 'choiceInteraction': {
+      const choices = choiceTexts(interaction, 'simpleChoice')
+      const options = choices.map(c => c.text)
+      const correct = response.correct.map(v => choices.findIndex(c => c.id === v)).filter(i => i >= 0)
+      if (correct.length === 0) return { error: 'No correct choice declared' }
+      if (response.cardinality === 'multiple' || interaction.attrs.maxChoices !== '1') {
+        return { type: 'multi_select', options, correct_answer: { indices: correct.sort((a, b) => a - b) }, prompt }
+      }
+      const lower = options.map(o => o.toLowerCase())
+      if (lower.length === 2 && lower.includes('true') && lower.includes('false')) {
+        return { type: 'true_false', options: null, correct_answer: { value: lower[correct[0]] === 'true' }, prompt }
+      }
+      return { type: 'multiple_choice', options, correct_answer: { index: correct[0] }, prompt }
+    }
+
+    case 'orderInteraction': {
+      const choices = choiceTexts(interaction, 'simpleChoice')
+      const order = response.correct.map(v => choices.findIndex(c => c.id === v))
+      if (order.length !== choices.length || order.includes(-1)) return { error: 'Correct order is incomplete' }
+      return { type: 'ordering', options: choices.map(c => c.text), correct_answer: { order }, prompt }
+    }
+
+    case 'matchInteraction': {
+      const [sources, targets] = childElements(interaction, 'simpleMatchSet').map(set => choiceTexts(set, 'simpleAssociableChoice'))
+      if (!sources || !targets) return { error: 'Match interaction needs two sets' }
+      const pairs = new Map(response.correct.map(v => v.split(/\s+/) as [string, string]))
+      const matches = sources.map(s => targets.find(t => t.id === pairs.get(s.id))?.text ?? '')
+      return { type: 'matching', options: sources.map(s => s.text), correct_answer: { matches }, prompt }
+    }
+
+    case 'textEntryInteraction': {
+      if (response.baseType === 'float' || response.baseType === 'integer') {
+        const value = Number(response.correct[0])
+        if (!Number.isFinite(value)) return { error: 'Could not read the numeric answer' }
+        const unit = findAll(item, 'span').find(s => s.attrs.class === 'unit' && s.attrs['data-response'] === id)
+        const unitText = unit ? textContent(unit).trim() : ''
+        return {
+          type: 'numeric',
+          options: null,
+          correct_answer: { value, ...toleranceFor(item, id), ...(unitText ? { unit: unitText } : {}) },
+          prompt,
+        }
+      }
+      return { type: 'short_answer', options: null, correct_answer: { sample_answer: response.correct[0] ?? '' }, prompt }
+    }
+
+    case 'extendedTextInteraction': {
+      const notes = findAll(item, 'rubricBlock').find(r => r.attrs.view === 'scorer')
+      const rubric = notes ? plainText(notes.children) : ''
+      return {
+        type: 'short_answer',
+        options: null,
+        correct_answer: { sample_answer: response.correct.join('\n'), ...(rubric ? { rubric_notes: rubric } : {}) },
+        prompt,
+      }
+    }
+
+    default:
+      return { error: `Unsupported interaction "${interaction.name}"` }
+  }
+}
+
+/** Map one assessmentItem document to a bank question. */
+export function parseQtiItem(source: string, fallbackRef: string): ImportCandidate {
+  let item: XmlElement
+  try {
+    item = parseXml(source)
+  } catch (error) {
+    return { ref: fallbackRef, question: null, error: `Unreadable XML: ${(error as Error).message}` }
+  }
+  if (item.name !== 'assessmentItem') {
+    return { ref: fallbackRef, question: null, error: 'Not a QTI assessmentItem' }
+  }
+
+  const body = childElement(item, 'itemBody')
+  const interactions: XmlElement[] = []
+  if (body) {
+    const walk = (el: XmlElement) => {
+      for (const child of childElements(el)) {
+        if (INTERACTIONS.has(child.name)) interactions.push(child)
+        else walk(child)
+      }
+    }
+    walk(body)
+  }
+
+  const explanation = childElements(item, 'modalFeedback').map(f => plainText(f.children)).filter(Boolean).join('\n\n') || null
+  const base = { explanation, difficulty: 2 }
+  const stem = plainText((body?.children ?? []).filter(c => typeof c === 'string' || !containsInteraction(c)))
+  const ref = refFrom(item.attrs.title || stem, fallbackRef)
+
+  if (!body || interactions.length === 0) return { ref, question: null, error: 'Item has no interactions' }
+  const responses = readResponses(item)
+
+  if (interactions.length === 1) {
+    const mapped = mapInteraction(item, interactions[0], responses)
+    if ('error' in mapped) return { ref, question: null, error: mapped.error }
+    // Question text is everything the student reads: body text plus the interaction's prompt
+    const text = [plainText(body.children), mapped.prompt].filter(Boolean).join('\n\n')
+    return {
+      ref,
+      question: { ...base, type: mapped.type, question_text: text, options: mapped.options, correct_answer: mapped.correct_answer },
+      error: null,
+    }
+  }
+
+  // Several interactions: a multi-part question. Each part's prompt is the
+  // text of the top-level block holding its interaction.
+  const blocks = body.children.filter((c): c is XmlElement => typeof c !== 'string' && containsInteraction(c))
+  const parts: QuestionPart[] = []
+  for (const [i, interaction] of interactions.entries()) {
+    const mapped = mapInteraction(item, interaction, responses)
+    if ('error' in mapped) return { ref, question: null, error: `Part ${i + 1}: ${mapped.error}` }
+    if (!PART_TYPES.includes(mapped.type as PartType)) {
+      return { ref, question: null, error: `Part ${i + 1}: parts can only be choice, true/false or numeric` }
+    }
+    const block = blocks.find(b => findAll(b, interaction.name).includes(interaction) || b === interaction)
+    const prompt = [block && block !== interaction ? plainText(block.children) : '', mapped.prompt].filter(Boolean).join(' ')
+    parts.push({ type: mapped.type as PartType, prompt, options: mapped.options, correct_answer: mapped.correct_answer })
+  }
+  return {
+    ref,
+    question: { ...base, type: 'multi_part', question_text: stem, options: null, correct_answer: { parts } },
+    error: null,
+  }
+}
+
+/** Read every assessmentItem in a content package. */
+export function parseQtiZip(bytes: Uint8Array): ImportCandidate[] {
+  let zip: PizZip
+  try {
+    zip = new PizZip(bytes)
+  } catch {
+    throw new Error('Could not open the zip file')
+  }
+
+  let hrefs: string[] = []
+  const manifest = zip.file('imsmanifest.xml')
+  if (manifest) {
+    const resources = findAll(parseXml(manifest.asText()), 'resource')
+    hrefs = resources
+      .filter(r => (r.attrs.type ?? '').startsWith('imsqti_item'))
+      .map(r => r.attrs.href)
+      .filter(Boolean)
+  }
+  if (hrefs.length === 0) {
+    // No manifest (or one that doesn't list items): take any XML that is an item
+    hrefs = Object.keys(zip.files).filter(
+      name => name.toLowerCase().endsWith('.xml') && !zip.files[name].dir && /<(\w+:)?assessmentItem[\s>]/.test(zip.files[name].asText())
+    )
+  }
+  if (hrefs.length === 0) throw new Error('No QTI items found in the package')
+
+  return hrefs.map((href, i) => {
+    const file = zip.file(href)
+    return file
+      ? parseQtiItem(file.asText(), `Item ${i + 1}`)
+      : { ref: href, question: null, error: 'Listed in the manifest but missing from the zip' }
+  })
+}
+
+// ============================================
+// Export
+// ============================================
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .filter(p => p.trim())
+    .map(p => `<p>${escapeXml(p).replace(/\n/g, '<br/>')}</p>`)
+    .join('\n')
+}
+
+interface ItemParts {
+  declarations: string[]
+  body: string[]
+  // Response ids scored by exact match vs numeric tolerance
+  matched: string[]
+  numeric: Array<{ id: string; mode: 'absolute' | 'relative'; tolerance: number }>
+  rubric: string | null
+}
+
+const choiceList = (options: string[], tag = 'simpleChoice') =>
+  options.map((o, i) => `<${tag} identifier="C${i}">${escapeXml(o)}</${tag}>`).join('\n')
+
+function values(list: string[]): string {
+  return `<correctResponse>${list.map(v => `<value>${escapeXml(v)}</value>`).join('')}</correctResponse>`
+}
+
+function addInteraction(
+  out: ItemParts,
+  id: string,
+  q: { type: PortableQuestion['type']; options?: string[] | null; correct_answer: PortableQuestion['correct_answer'] }
+) {
+  const answer = q.correct_answer as Record<string, unknown>
+  const options = q.options ?? []
+  const declare = (cardinality: string, baseType: string, correct: string[]) =>
+    out.declarations.push(
+      `<responseDeclaration identifier="${id}" cardinality="${cardinality}" baseType="${baseType}">${values(correct)}</responseDeclaration>`
+    )
+
+  switch (q.type) {
+    case 'multiple_choice':
+      declare('single', 'identifier', [`C${answer.index}`])
+      out.body.push(`<choiceInteraction responseIdentifier="${id}" shuffle="true" maxChoices="1">\n${choiceList(options)}\n</choiceInteraction>`)
+      out.matched.push(id)
+      break
+    case 'true_false':
+      declare('single', 'identifier', [answer.value ? 'C0' : 'C1'])
+      out.body.push(`<choiceInteraction responseIdentifier="${id}" shuffle="false" maxChoices="1">\n${choiceList(['True', 'False'])}\n</choiceInteraction>`)
+      out.matched.push(id)
+      break
+    case 'multi_select':
+      declare('multiple', 'identifier', (answer.indices as number[]).map(i => `C${i}`))
+      out.body.push(`<choiceInteraction responseIdentifier="${id}" shuffle="true" maxChoices="0">\n${choiceList(options)}\n</choiceInteraction>`)
+      out.matched.push(id)
+      break
+    case 'ordering':
+      declare('ordered', 'identifier', (answer.order as number[]).map(i => `C${i}`))
+      out.body.push(`<orderInteraction responseIdentifier="${id}" shuffle="true">\n${choiceList(options)}\n</orderInteraction>`)
+      out.matched.push(id)
+      break
+    case 'matching': {
+      const matches = answer.matches as string[]
+      const targets = [...new Set(matches)]
+      declare('multiple', 'directedPair', matches.map((m, i) => `S${i} T${targets.indexOf(m)}`))
+      const sourceSet = options.map((o, i) => `<simpleAssociableChoice identifier="S${i}" matchMax="1">${escapeXml(o)}</simpleAssociableChoice>`)
+      const targetSet = targets.map((t, i) => `<simpleAssociableChoice identifier="T${i}" matchMax="0">${escapeXml(t)}</simpleAssociableChoice>`)
+      out.body.push(
+        `<matchInteraction responseIdentifier="${id}" shuffle="true" maxAssociations="${options.length}">\n` +
+          `<simpleMatchSet>\n${sourceSet.join('\n')}\n</simpleMatchSet>\n` +
+          `<simpleMatchSet>\n${targetSet.join('\n')}\n</simpleMatchSet>\n</matchInteraction>`
+      )
+      out.matched.push(id)
+      break
+    }
+    case 'numeric': {
+      const n = answer as unknown as NumericAnswer
+      declare('single', 'float', [String(n.value)])
+      const unit = n.unit ? ` <span class="unit" data-response="${id}">${escapeXml(n.unit)}</span>` : ''
+      out.body.push(`<p><textEntryInteraction responseIdentifier="${id}" expectedLength="12"/>${unit}</p>`)
+      out.numeric.push({ id, mode: n.tolerance_mode === 'percent' ? 'relative' : 'absolute', tolerance: n.tolerance ?? 0 })
+      break
+    }
+    case 'short_answer':
+      declare('single', 'string', [String(answer.sample_answer ?? '')])
+      out.body.push(`<extendedTextInteraction responseIdentifier="${id}" expectedLines="5"/>`)
+      if (answer.rubric_notes) out.rubric = String(answer.rubric_notes)
+      break
+    case 'multi_part':
+      break
+  }
+}
+
+/** Hand-written processing: one point per correct response, tolerances applied. */
+function responseProcessing(out: ItemParts): string {
+  const conditions = [
+    ...out.matched.map(id => `<match><variable identifier="${id}"/><correct identifier="${id}"/></match>`),
+    ...out.numeric.map(n =>
+      n.tolerance > 0
+        ? `<equal toleranceMode="${n.mode}" tolerance="${n.tolerance} ${n.tolerance}"><variable identifier="${n.id}"/><correct identifier="${n.id}"/></equal>`
+        : `<equal toleranceMode="exact"><variable identifier="${n.id}"/><correct identifier="${n.id}"/></equal>`
+    ),
+  ]
+  const add =
+    '<setOutcomeValue identifier="SCORE"><sum><variable identifier="SCORE"/><baseValue baseType="float">1</baseValue></sum></setOutcomeValue>'
+  return `<responseProcessing>\n${conditions
+    .map(c => `<responseCondition><responseIf>${c}${add}</responseIf></responseCondition>`)
+    .join('\n')}\n</responseProcessing>`
+}
+
+function itemXml(q: PortableQuestion, identifier: string): string {
+  const out: ItemParts = { declarations: [], body: [], matched: [], numeric: [], rubric: null }
+  let stem = paragraphs(q.question_text)
+
+  if (q.type === 'multi_part') {
+    const parts = (q.correct_answer as { parts: QuestionPart[] }).parts
+    parts.forEach((part, i) => {
+      const before = out.body.length
+      addInteraction(out, `RESPONSE_${i + 1}`, part)
+      const interaction = out.body.splice(before).join('\n')
+      out.body.push(`<div class="part">\n<p>${escapeXml(part.prompt)}</p>\n${interaction}\n</div>`)
+    })
+  } else {
+    addInteraction(out, 'RESPONSE', q)
+  }
+
+  // Single exact-match items use the standard template so any player scores them
+  const single = q.type !== 'multi_part' && out.numeric.length === 0
+  const processing =
+    out.matched.length + out.numeric.length === 0
+      ? ''
+      : single
+        ? `<responseProcessing template="${MATCH_CORRECT}"/>`
+        : responseProcessing(out)
+
+  if (out.rubric) stem += `\n<rubricBlock view="scorer">${paragraphs(out.rubric)}</rubricBlock>`
+  const feedback = q.explanation
+    ? [
+        '<outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>',
+        `<modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="hide">${paragraphs(q.explanation)}</modalFeedback>`,
+      ]
+    : ['', '']
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<assessmentItem xmlns="${QTI_NS}" identifier="${identifier}" title="${escapeXml(refFrom(q.question_text, identifier))}" adaptive="false" timeDependent="false">`,
+    ...out.declarations,
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>',
+    feedback[0],
+    `<itemBody>\n${stem}\n${out.body.join('\n')}\n</itemBody>`,
+    processing,
+    feedback[1],
+    '</assessmentItem>',
+  ]
+    .filter(Boolean)
+    .join('\n') + '\n'
+}
+
+function manifestXml(ids: string[]): string {
+  const resources = ids.map(
+    id => `<resource identifier="${id}" type="imsqti_item_xmlv2p1" href="items/${id}.xml"><file href="items/${id}.xml"/></resource>`
+  )
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="MANIFEST">',
+    '<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+    '<organizations/>',
+    `<resources>\n${resources.join('\n')}\n</resources>`,
+    '</manifest>',
+    '',
+  ].join('\n')
+}
+
+/** Every bank type has a QTI mapping, so nothing is skipped. */
+export function toQtiZip(questions: PortableQuestion[]): ExportFile {
+  const zip = new PizZip()
+  const ids = questions.map((_, i) => `q${i + 1}`)
+  questions.forEach((q, i) => zip.file(`items/${ids[i]}.xml`, itemXml(q, ids[i])))
+  zip.file('imsmanifest.xml', manifestXml(ids))
+  return { body: zip.generate({ type: 'uint8array', compression: 'DEFLATE' }), skipped: [] }
+}
@@ -0,0 +1,159 @@
+// Minimal XML reader/writer for the question interchange formats. Moodle XML
+// and QTI items are small, machine-written documents, so a forgiving
+// element-tree parser is enough — no DTDs, no namespaces beyond keeping the
+// prefix-less local name. Throws on input too broken to recover from.
+
+export interface XmlElement {
+  name: string
+  attrs: Record<string, string>
+  children: XmlNode[]
+}
+
+export type XmlNode = XmlElement | string
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/** Strip a namespace prefix: "imsqti:choiceInteraction" → "choiceInteraction". */
+function localName(name: string): string {
+  const colon = name.indexOf(':')
+  return colon === -1 ? name : name.slice(colon + 1)
+}
+
+const ATTR_PATTERN = /([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')/g
+
+/** Parse a document into its root element. */
+export function parseXml(source: string): XmlElement {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [] }
+  const stack: XmlElement[] = [root]
+  let pos = 0
+
+  while (pos < source.length) {
+    const lt = source.indexOf('<', pos)
+    if (lt === -1) {
+      stack[stack.length - 1].children.push(decodeEntities(source.slice(pos)))
+      break
+    }
+    if (lt > pos) stack[stack.length - 1].children.push(decodeEntities(source.slice(pos, lt)))
+
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4)
+      pos = end === -1 ? source.length : end + 3
+    } else if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9)
+      if (end === -1) throw new Error('Unterminated CDATA section')
+      stack[stack.length - 1].children.push(source.slice(lt + 9, end))
+      pos = end + 3
+    } else if (source.startsWith('<?', lt) || source.startsWith('<!', lt)) {
+      const end = source.indexOf('>', lt)
+      pos = end === -1 ? source.length : end + 1
+    } else if (source[lt + 1] === '/') {
+      const end = source.indexOf('>', lt)
+      if (end === -1) throw new Error('Unterminated closing tag')
+      const name = localName(source.slice(lt + 2, end).trim())
+      // Close back to the matching element; tolerate stray closers
+      const index = stack.map(e => e.name).lastIndexOf(name)
+      if (index > 0) stack.length = index
+      pos = end + 1
+    } else {
+      const end = source.indexOf('>', lt)
+      if (end === -1) throw new Error('Unterminated tag')
+      let body = source.slice(lt + 1, end)
+      const selfClosing = body.endsWith('/')
+      if (selfClosing) body = body.slice(0, -1)
+      const nameMatch = /^[^\s/>]+/.exec(body)
+      if (!nameMatch) throw new Error('Malformed tag')
+
+      const attrs: Record<string, string> = {}
+      for (const m of body.slice(nameMatch[0].length).matchAll(ATTR_PATTERN)) {
+        attrs[localName(m[1])] = decodeEntities(m[3] ?? m[4] ?? '')
+      }
+      const element: XmlElement = { name: localName(nameMatch[0]), attrs, children: [] }
+      stack[stack.length - 1].children.push(element)
+      if (!selfClosing) stack.push(element)
+      pos = end + 1
+    }
+  }
+
+  const top = root.children.find((c): c is XmlElement => typeof c !== 'string')
+  if (!top) throw new Error('No root element')
+  return top
+}
+
+export function childElements(el: XmlElement, name?: string): XmlElement[] {
+  return el.children.filter((c): c is XmlElement => typeof c !== 'string' && (!name || c.name === name))
+}
+
+export function childElement(el: XmlElement, name: string): XmlElement | undefined {
+  return childElements(el, name)[0]
+}
+
+/** Every descendant with this name, depth-first. */
+export function findAll(el: XmlElement, name: string): XmlElement[] {
+  const found: XmlElement[] = []
+  for (const child of childElements(el)) {
+    if (child.name === name) found.push(child)
+    found.push(...findAll(child, name))
+  }
+  return found
+}
+
+/** Concatenated text content, tags dropped. */
+export function textContent(node: XmlNode | undefined): string {
+  if (node === undefined) return ''
+  if (typeof node === 'string') return node
+  return node.children.map(textContent).join('')
+}
+
+/** Serialise an element back to markup (used to recover HTML-in-XML bodies). */
+export function toMarkup(node: XmlNode): string {
+  if (typeof node === 'string') return escapeXml(node)
+  const attrs = Object.entries(node.attrs).map(([k, v]) => ` ${k}="${escapeXml(v)}"`).join('')
+  if (node.children.length === 0) return `<${node.name}${attrs}/>`
+  return `<${node.name}${attrs}>${node.children.map(toMarkup).join('')}</${node.name}>`
+}
+
+/**
+ * HTML fragment → plain text for question_text. Paragraphs become blank-line
+ * breaks, other block ends newlines; everything else is dropped. Good enough
+ * for LMS exports, which wrap text in <p> and the odd <b>.
+ */
+export function htmlToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/p>/gi, '\n\n')
+      .replace(/<\/(div|li|h[1-6])>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
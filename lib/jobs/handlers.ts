@@ -0,0 +1,150 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { StudyGuideRequest } from '@/types'
+import { gradeSubmission } from '@/lib/submission-grading'
+import { abandonBatch, gradeBatchItems, reopenBatch, splitBatch } from '@/lib/grading/batch-grading'
+import { generateStudyGuide } from '@/lib/study-guide-generation'
+import { abandonCalibration, runCalibration } from '@/lib/grading/calibration-runs'
+import { enqueueJob, type JobKind, type JobRow } from '@/lib/jobs/queue'
+import { PermanentJobError } from '@/lib/jobs/retry'
+
+export interface JobContext {
+  supabase: SupabaseClient
+  job: JobRow
+  // Aborted when the job is cancelled or the worker loses its lease
+  signal: AbortSignal
+  progress: (progress: Record<string, unknown>) => Promise<void>
+}
+
+interface JobHandler {
+  run: (ctx: JobContext) => Promise<Record<string, unknown> | void>
+  // After the last attempt fails, or the job is cancelled: put the work's
+  // own status right so nothing is left showing "grading"
+  onGiveUp?: (ctx: Pick<JobContext, 'supabase' | 'job'>, outcome: 'failed' | 'cancelled', error: string) => Promise<void>
+  // When a given-up job is retried from the jobs panel: undo onGiveUp
+  onRetry?: (ctx: Pick<JobContext, 'supabase' | 'job'>) => Promise<void>
+}
+
+function payloadId(job: JobRow, field: string): string {
+  const value = job.payload[field]
+  if (typeof value !== 'string' || !value) throw new PermanentJobError(`Job payload is missing ${field}`)
+  return value
+}
+
+// Progress writes are throttled: streamed text arrives many times a second
+const PROGRESS_INTERVAL_MS = 1000
+
+export const JOB_HANDLERS: Record<JobKind, JobHandler> = {
+  grade_submission: {
+    async run({ job }) {
+      const { gradingResultId } = await gradeSubmission(payloadId(job, 'submissionId'))
+      return { gradingResultId }
+    },
+    async onGiveUp({ supabase, job }, outcome, error) {
+      await supabase
+        .from('assignment_submissions')
+        .update(outcome === 'cancelled'
+          ? { status: 'submitted', grading_error: null }
+          : { status: 'failed', grading_error: error })
+        .eq('id', payloadId(job, 'submissionId'))
+        .eq('status', 'grading')
+    },
+    async onRetry({ supabase, job }) {
+      await supabase
+        .from('assignment_submissions')
+        .update({ status: 'grading', grading_error: null })
+        .eq('id', payloadId(job, 'submissionId'))
+    },
+  },
+
+  grade_batch: {
+    async run({ supabase, job, signal }) {
+      const batchId = payloadId(job, 'batchId')
+      const { data: batch } = await supabase.from('grading_batches').select('status').eq('id', batchId).maybeSingle()
+      if (!batch) throw new PermanentJobError('Grading batch not found')
+      if (batch.status === 'splitting') await splitBatch(supabase, batchId)
+      await gradeBatchItems(supabase, batchId, signal)
+    },
+    async onGiveUp({ supabase, job }, outcome, error) {
+      await abandonBatch(supabase, payloadId(job, 'batchId'), outcome === 'cancelled' ? 'Cancelled' : error)
+    },
+    async onRetry({ supabase, job }) {
+      await reopenBatch(supabase, payloadId(job, 'batchId'))
+    },
+  },
+
+  generate_study_guide: {
+    async run({ supabase, job, progress }) {
+      const body = job.payload.request as StudyGuideRequest
+      let content = ''
+      let message = ''
+      let lastWrite = 0
+      const guide = await generateStudyGuide(supabase, body, job.user_id, p => {
+        if (p.type === 'content') content += p.chunk
+        else message = p.message
+        if (p.type === 'progress' || Date.now() - lastWrite >= PROGRESS_INTERVAL_MS) {
+          lastWrite = Date.now()
+          progress({ message, content }).catch(() => {})
+        }
+      })
+      await progress({ message, content })
+      return { studyGuideId: guide.id, title: guide.title, format: guide.format }
+    },
+  },
+
+  calibrate_grading: {
+    async run({ supabase, job, signal }) {
+      await runCalibration(supabase, payloadId(job, 'calibrationId'), signal)
+    },
+    async onGiveUp({ supabase, job }, outcome, error) {
+      await abandonCalibration(supabase, payloadId(job, 'calibrationId'), outcome, error)
+    },
+    async onRetry({ supabase, job }) {
+      await supabase
+        .from('grading_calibrations')
+        .update({ status: 'queued', error: null, finished_at: null })
+        .eq('id', payloadId(job, 'calibrationId'))
+    },
+  },
+}
+
+/** Queue AI grading of a submission; a submission already queued joins that job. */
+export function enqueueSubmissionGrading(
+  supabase: SupabaseClient,
+  input: { submissionId: string; teacherId: string; label: string }
+) {
+  return enqueueJob(supabase, {
+    kind: 'grade_submission',
+    payload: { submissionId: input.submissionId },
+    userId: input.teacherId,
+    idempotencyKey: `grade_submission:${input.submissionId}`,
+    label: input.label,
+  })
+}
+
+/** Queue a batch's splitting and grading; a batch already queued joins that job. */
+export function enqueueBatchGrading(
+  supabase: SupabaseClient,
+  input: { batchId: string; teacherId: string; title: string }
+) {
+  return enqueueJob(supabase, {
+    kind: 'grade_batch',
+    payload: { batchId: input.batchId },
+    userId: input.teacherId,
+    idempotencyKey: `grade_batch:${input.batchId}`,
+    label: `Batch: ${input.title}`,
+  })
+}
+
+/** Queue a grading calibration; one job per calibration. */
+export function enqueueCalibration(
+  supabase: SupabaseClient,
+  input: { calibrationId: string; teacherId: string; title: string }
+) {
+  return enqueueJob(supabase, {
+    kind: 'calibrate_grading',
+    payload: { calibrationId: input.calibrationId },
+    userId: input.teacherId,
+    idempotencyKey: `calibrate_grading:${input.calibrationId}`,
+    label: `Calibration: ${input.title}`,
+  })
+}
@@ -0,0 +1,244 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// The jobs table (migration 050): enqueue from API routes, claim and settle
+// from the worker. Handlers live in lib/jobs/handlers.ts, the loop in
+// lib/jobs/worker.ts.
+
+export type JobKind = 'grade_submission' | 'grade_batch' | 'generate_study_guide' | 'calibrate_grading'
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface JobRow {
+  id: string
+  user_id: string | null
+  kind: JobKind
+  payload: Record<string, unknown>
+  idempotency_key: string | null
+  label: string | null
+  status: JobStatus
+  attempts: number
+  max_attempts: number
+  run_at: string
+  locked_by: string | null
+  locked_at: string | null
+  cancel_requested: boolean
+  progress: Record<string, unknown> | null
+  result: Record<string, unknown> | null
+  last_error: string | null
+  started_at: string | null
+  finished_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface EnqueueInput {
+  kind: JobKind
+  payload: Record<string, unknown>
+  userId: string | null
+  // At most one queued or running job per key; enqueueing again joins it
+  idempotencyKey?: string
+  label?: string
+  maxAttempts?: number
+}
+
+// What the jobs panel lists; payloads can be large (study-guide source text)
+export const JOB_LIST_COLUMNS =
+  'id, kind, label, status, attempts, max_attempts, run_at, cancel_requested, last_error, result, started_at, finished_at, created_at'
+
+const UNIQUE_VIOLATION = '23505'
+
+async function activeJobForKey(supabase: SupabaseClient, key: string): Promise<JobRow | null> {
+  const { data } = await supabase
+    .from('jobs')
+    .select('*')
+    .eq('idempotency_key', key)
+    .in('status', ['queued', 'running'])
+    .maybeSingle()
+  return data as JobRow | null
+}
+
+/**
+ * Queue a job. With an idempotency key that already has a job in flight,
+ * returns that job instead (created: false).
+ */
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  input: EnqueueInput
+): Promise<{ job: JobRow; created: boolean }> {
+  if (input.idempotencyKey) {
+    const existing = await activeJobForKey(supabase, input.idempotencyKey)
+    if (existing) return { job: existing, created: false }
+  }
+
+  const { data, error } = await supabase
+    .from('jobs')
+    .insert({
+      kind: input.kind,
+      payload: input.payload,
+      user_id: input.userId,
+      idempotency_key: input.idempotencyKey ?? null,
+      label: input.label ?? null,
+      max_attempts: input.maxAttempts ?? 3,
+    })
+    .select('*')
+    .single()
+
+  if (error?.code === UNIQUE_VIOLATION && input.idempotencyKey) {
+    // Lost a race with another enqueue of the same key
+    const existing = await activeJobForKey(supabase, input.idempotencyKey)
+    if (existing) return { job: existing, created: false }
+  }
+  if (error || !data) throw new Error(`Failed to enqueue ${input.kind} job: ${error?.message ?? 'no data returned'}`)
+  return { job: data as JobRow, created: true }
+}
+
+/**
+ * Cancel a job: a queued one stops at once, a running one is asked to stop
+ * and is marked cancelled by its worker. Returns the resulting status, or
+ * null when the job had already finished.
+ */
+export async function cancelJob(supabase: SupabaseClient, jobId: string): Promise<JobStatus | null> {
+  const now = new Date().toISOString()
+  const { data: cancelled } = await supabase
+    .from('jobs')
+    .update({ status: 'cancelled', cancel_requested: true, finished_at: now, updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .select('id')
+    .maybeSingle()
+  if (cancelled) return 'cancelled'
+
+  const { data: running } = await supabase
+    .from('jobs')
+    .update({ cancel_requested: true, updated_at: now })
+    .eq('id', jobId)
+    .eq('status', 'running')
+    .select('id')
+    .maybeSingle()
+  return running ? 'running' : null
+}
+
+/**
+ * Queue a failed or cancelled job again with a fresh set of attempts. Fails
+ * when another job with the same key has been queued since.
+ */
+export async function retryJob(
+  supabase: SupabaseClient,
+  jobId: string
+): Promise<{ ok: true; job: JobRow } | { ok: false; error: string }> {
+  const now = new Date().toISOString()
+  const { data, error } = await supabase
+    .from('jobs')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      run_at: now,
+      cancel_requested: false,
+      last_error: null,
+      locked_by: null,
+      locked_at: null,
+      finished_at: null,
+      updated_at: now,
+    })
+    .eq('id', jobId)
+    .in('status', ['failed', 'cancelled'])
+    .select('*')
+    .maybeSingle()
+  if (error?.code === UNIQUE_VIOLATION) return { ok: false, error: 'The same work is already queued' }
+  if (error) throw new Error(`Failed to retry job: ${error.message}`)
+  if (!data) return { ok: false, error: 'Only failed or cancelled jobs can be retried' }
+  return { ok: true, job: data as JobRow }
+}
+
+/**
+ * Take back running jobs whose worker stopped heartbeating: they're queued
+ * again, or failed/cancelled when out of attempts. Returns the jobs taken
+ * back, so the caller can clean up after the ones given up on.
+ */
+export async function reclaimExpiredJobs(supabase: SupabaseClient, leaseSeconds: number): Promise<JobRow[]> {
+  const { data, error } = await supabase.rpc('reclaim_expired_jobs', { p_lease_seconds: leaseSeconds })
+  if (error) throw new Error(`Failed to reclaim expired jobs: ${error.message}`)
+  return (data ?? []) as JobRow[]
+}
+
+/** Claim the next runnable job for this worker, or null when there is none. */
+export async function claimJob(
+  supabase: SupabaseClient,
+  workerId: string,
+  opts: { perUserLimit: number; leaseSeconds: number }
+): Promise<JobRow | null> {
+  const { data, error } = await supabase.rpc('claim_job', {
+    p_worker: workerId,
+    p_user_limit: opts.perUserLimit,
+    p_lease_seconds: opts.leaseSeconds,
+  })
+  if (error) throw new Error(`Failed to claim job: ${error.message}`)
+  const rows = (data ?? []) as JobRow[]
+  return rows[0] ?? null
+}
+
+/**
+ * Extend the worker's lease. Returns null when the job is no longer this
+ * worker's (the lease expired and it was taken back), else whether a
+ * cancel has been requested.
+ */
+export async function heartbeat(
+  supabase: SupabaseClient,
+  jobId: string,
+  workerId: string
+): Promise<{ cancelRequested: boolean } | null> {
+  const { data } = await supabase
+    .from('jobs')
+    .update({ locked_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('locked_by', workerId)
+    .eq('status', 'running')
+    .select('cancel_requested')
+    .maybeSingle()
+  return data ? { cancelRequested: data.cancel_requested } : null
+}
+
+export async function reportProgress(
+  supabase: SupabaseClient,
+  jobId: string,
+  progress: Record<string, unknown>
+): Promise<void> {
+  await supabase.from('jobs').update({ progress }).eq('id', jobId).eq('status', 'running')
+}
+
+/**
+ * Record how a run ended. Conditional on the worker still holding the job,
+ * so a worker that lost its lease can't overwrite the retry's outcome.
+ */
+export async function settleJob(
+  supabase: SupabaseClient,
+  job: Pick<JobRow, 'id' | 'locked_by'>,
+  outcome:
+    | { status: 'succeeded'; result: Record<string, unknown> | null }
+    | { status: 'failed' | 'cancelled'; error: string }
+    | { status: 'queued'; runAt: Date; error: string }
+): Promise<boolean> {
+  const now = new Date().toISOString()
+  const fields: Record<string, unknown> = { status: outcome.status, locked_by: null, locked_at: null, updated_at: now }
+  if (outcome.status === 'succeeded') {
+    fields.result = outcome.result
+    fields.last_error = null
+    fields.finished_at = now
+  } else if (outcome.status === 'queued') {
+    fields.run_at = outcome.runAt.toISOString()
+    fields.last_error = outcome.error
+  } else {
+    fields.last_error = outcome.error
+    fields.finished_at = now
+  }
+
+  const { data } = await supabase
+    .from('jobs')
+    .update(fields)
+    .eq('id', job.id)
+    .eq('locked_by', job.locked_by ?? '')
+    .eq('status', 'running')
+    .select('id')
+    .maybeSingle()
+  return !!data
+}
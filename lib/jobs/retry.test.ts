@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import {
+  JobCancelledError,
+  PermanentJobError,
+  RETRY_BASE_MS,
+  RETRY_MAX_MS,
+  failureOutcome,
+  retryDelayMs,
+} from './retry'
+
+const job = { attempts: 1, max_attempts: 3, cancel_requested: false }
+const now = new Date('2026-03-01T12:00:00Z')
+
+describe('retryDelayMs', () => {
+  it('doubles each attempt, jittered within the upper half', () => {
+    expect(retryDelayMs(1, () => 0)).toBe(RETRY_BASE_MS / 2)
+    expect(retryDelayMs(1, () => 1)).toBe(RETRY_BASE_MS)
+    expect(retryDelayMs(3, () => 1)).toBe(RETRY_BASE_MS * 4)
+  })
+
+  it('stops growing at the cap', () => {
+    expect(retryDelayMs(30, () => 1)).toBe(RETRY_MAX_MS)
+  })
+})
+
+describe('failureOutcome', () => {
+  it('requeues with backoff while attempts remain', () => {
+    expect(failureOutcome(job, new Error('rate limited'), now, () => 1)).toEqual({
+      status: 'queued',
+      runAt: new Date(now.getTime() + RETRY_BASE_MS),
+    })
+  })
+
+  it('fails once attempts are used up, or at once for permanent errors', () => {
+    expect(failureOutcome({ ...job, attempts: 3 }, new Error('x'), now)).toEqual({ status: 'failed' })
+    expect(failureOutcome(job, new PermanentJobError('Submission not found'), now)).toEqual({ status: 'failed' })
+  })
+
+  it('cancels when the job was asked to stop', () => {
+    expect(failureOutcome(job, new JobCancelledError(), now)).toEqual({ status: 'cancelled' })
+    expect(failureOutcome({ ...job, cancel_requested: true }, new Error('aborted'), now)).toEqual({ status: 'cancelled' })
+  })
+})
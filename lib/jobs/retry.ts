@@ -0,0 +1,48 @@
+// Retry policy for background jobs: what happens to a job when its handler
+// throws. Kept free of I/O so the worker and its tests share one definition.
+
+export const RETRY_BASE_MS = 30 * 1000
+export const RETRY_MAX_MS = 30 * 60 * 1000
+
+/** Thrown by a handler for failures a retry can't fix (missing rows, bad input). */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentJobError'
+  }
+}
+
+/** Thrown by a handler that stopped because the job was cancelled. */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled')
+    this.name = 'JobCancelledError'
+  }
+}
+
+/**
+ * How long to wait before attempt `attempts + 1`: exponential from
+ * RETRY_BASE_MS, capped at RETRY_MAX_MS, with the upper half jittered so
+ * jobs that failed together don't all come back together.
+ */
+export function retryDelayMs(attempts: number, random: () => number = Math.random): number {
+  const ceiling = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1))
+  return Math.round(ceiling / 2 + random() * (ceiling / 2))
+}
+
+export type FailureOutcome =
+  | { status: 'queued'; runAt: Date }
+  | { status: 'failed' }
+  | { status: 'cancelled' }
+
+/** Where a job goes after its handler threw `error` on attempt `job.attempts`. */
+export function failureOutcome(
+  job: { attempts: number; max_attempts: number; cancel_requested: boolean },
+  error: unknown,
+  now: Date = new Date(),
+  random: () => number = Math.random
+): FailureOutcome {
+  if (error instanceof JobCancelledError || job.cancel_requested) return { status: 'cancelled' }
+  if (error instanceof PermanentJobError || job.attempts >= job.max_attempts) return { status: 'failed' }
+  return { status: 'queued', runAt: new Date(now.getTime() + retryDelayMs(job.attempts, random)) }
+}
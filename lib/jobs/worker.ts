@@ -0,0 +1,149 @@
+import { randomUUID } from 'crypto'
+import { hostname } from 'os'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { JOB_HANDLERS } from '@/lib/jobs/handlers'
+import { claimJob, heartbeat, reclaimExpiredJobs, reportProgress, settleJob, type JobRow } from '@/lib/jobs/queue'
+import { failureOutcome } from '@/lib/jobs/retry'
+
+// The worker loop: claims jobs from Postgres and runs them outside any
+// request. Start it with `npm run worker` (scripts/job-worker.ts); run more
+// than one for more throughput, claim_job keeps them from colliding.
+
+export interface WorkerOptions {
+  // Jobs this process runs at once
+  concurrency: number
+  // Running jobs one teacher may have across all workers
+  perUserLimit: number
+  // A job whose worker stops heart-beating for this long is taken back
+  leaseSeconds: number
+  pollMs: number
+}
+
+function envInt(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+export function workerOptionsFromEnv(): WorkerOptions {
+  return {
+    concurrency: envInt('JOB_WORKER_CONCURRENCY', 2),
+    perUserLimit: envInt('JOB_PER_USER_CONCURRENCY', 2),
+    leaseSeconds: envInt('JOB_LEASE_SECONDS', 120),
+    pollMs: envInt('JOB_POLL_MS', 2000),
+  }
+}
+
+function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err)
+}
+
+/**
+ * Run one claimed job to the end and record the outcome. The lease is
+ * renewed while it runs; a cancel request or a lost lease aborts the
+ * handler's signal.
+ */
+export async function runJob(supabase: SupabaseClient, job: JobRow, workerId: string, leaseSeconds: number): Promise<void> {
+  const handler = JOB_HANDLERS[job.kind]
+  const controller = new AbortController()
+  let cancelRequested = job.cancel_requested
+
+  const beat = setInterval(async () => {
+    const state = await heartbeat(supabase, job.id, workerId).catch(() => undefined)
+    if (state === undefined) return // transient; try again next beat
+    if (state === null || state.cancelRequested) {
+      cancelRequested = cancelRequested || !!state?.cancelRequested
+      controller.abort()
+    }
+  }, (leaseSeconds * 1000) / 4)
+
+  const ctx = {
+    supabase,
+    job,
+    signal: controller.signal,
+    progress: (progress: Record<string, unknown>) => reportProgress(supabase, job.id, progress),
+  }
+
+  try {
+    const result = await handler.run(ctx)
+    await settleJob(supabase, job, { status: 'succeeded', result: result ?? null })
+    console.log(`✅ Job ${job.id} (${job.kind}) succeeded`)
+  } catch (err) {
+    const message = errorMessage(err)
+    const outcome = failureOutcome({ ...job, cancel_requested: cancelRequested }, err)
+    const settled = await settleJob(
+      supabase,
+      job,
+      outcome.status === 'queued' ? { ...outcome, error: message } : { status: outcome.status, error: message }
+    )
+    console.error(`❌ Job ${job.id} (${job.kind}) attempt ${job.attempts} → ${outcome.status}:`, message)
+
+    if (settled && outcome.status !== 'queued' && handler.onGiveUp) {
+      await handler.onGiveUp(ctx, outcome.status, message).catch(giveUpErr => {
+        console.error(`Job ${job.id} cleanup error:`, giveUpErr)
+      })
+    }
+  } finally {
+    clearInterval(beat)
+  }
+}
+
+/**
+ * Take back jobs from workers that died, and run the clean-up for those out
+ * of attempts (or cancelled) that their own worker never got to.
+ */
+export async function reclaimExpired(supabase: SupabaseClient, leaseSeconds: number): Promise<void> {
+  for (const job of await reclaimExpiredJobs(supabase, leaseSeconds)) {
+    if (job.status === 'queued') {
+      console.log(`↩️  Job ${job.id} (${job.kind}) taken back from a stopped worker`)
+      continue
+    }
+    console.error(`❌ Job ${job.id} (${job.kind}) → ${job.status}: worker stopped responding`)
+    const handler = JOB_HANDLERS[job.kind]
+    if (!handler.onGiveUp) continue
+    await handler.onGiveUp({ supabase, job }, job.status as 'failed' | 'cancelled', job.last_error ?? 'Worker stopped responding')
+      .catch(giveUpErr => console.error(`Job ${job.id} cleanup error:`, giveUpErr))
+  }
+}
+
+/**
+ * Claim and run jobs until `stop` is aborted, then wait for the running
+ * ones to finish. Polls when the queue is empty.
+ */
+export async function runWorker(supabase: SupabaseClient, options: WorkerOptions, stop: AbortSignal): Promise<void> {
+  const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+  const running = new Set<Promise<void>>()
+  console.log(`👷 Job worker ${workerId} started (${options.concurrency} at a time, ${options.perUserLimit} per teacher)`)
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms)
+    stop.addEventListener('abort', () => { clearTimeout(timer); resolve() }, { once: true })
+  })
+
+  while (!stop.aborted) {
+    if (running.size >= options.concurrency) {
+      await Promise.race(running)
+      continue
+    }
+
+    let job: JobRow | null = null
+    try {
+      await reclaimExpired(supabase, options.leaseSeconds)
+      job = await claimJob(supabase, workerId, { perUserLimit: options.perUserLimit, leaseSeconds: options.leaseSeconds })
+    } catch (err) {
+      console.error('Job claim error:', err)
+    }
+    if (!job) {
+      await sleep(options.pollMs)
+      continue
+    }
+
+    console.log(`▶️  Job ${job.id} (${job.kind}) attempt ${job.attempts}/${job.max_attempts}`)
+    const task = runJob(supabase, job, workerId, options.leaseSeconds)
+      .catch(err => console.error(`Job ${job.id} error:`, err))
+      .finally(() => running.delete(task))
+    running.add(task)
+  }
+
+  console.log(`⏹️  Stopping: waiting for ${running.size} running job(s)`)
+  await Promise.all(running)
+}
@@ -5,9 +5,20 @@ import type { QuestionType } from '@/lib/types/question-bank'
 // AI question generation for the mastery loop. Strict zod validation with one
 // retry on malformed output — bad AI JSON must never reach the bank.
 
+/**
+ * Types the model writes. The structured types (numeric, ordering, …) are
+ * teacher-authored only — their answer keys are too easy to get subtly wrong.
+ */
+export const AI_QUESTION_TYPES = ['multiple_choice', 'true_false', 'short_answer'] as const
+type AiQuestionType = (typeof AI_QUESTION_TYPES)[number]
+
+function isAiQuestionType(type: QuestionType): type is AiQuestionType {
+  return (AI_QUESTION_TYPES as readonly QuestionType[]).includes(type)
+}
+
 const generatedQuestionSchema = z
   .object({
-    type: z.enum(['multiple_choice', 'true_false', 'short_answer']),
+    type: z.enum(AI_QUESTION_TYPES),
     question_text: z.string().min(10),
     options: z.array(z.string().min(1)).min(2).max(6).nullish(),
     correct_answer: z.record(z.string(), z.unknown()),
@@ -53,7 +64,7 @@ export interface GenerateQuestionsParams {
   avoidTexts?: string[]
 }
 
-const TYPE_SPECS: Record<QuestionType, string> = {
+const TYPE_SPECS: Record<AiQuestionType, string> = {
   multiple_choice:
     '"multiple_choice": provide "options" (array of 4 strings, plausible distractors) and "correct_answer": {"index": <0-based index>}',
   true_false:
@@ -63,7 +74,9 @@ const TYPE_SPECS: Record<QuestionType, string> = {
 }
 
 function buildPrompt(params: GenerateQuestionsParams): string {
-  const { concept, subject, count, allowedTypes, styleExamples, avoidTexts } = params
+  const { concept, subject, count, avoidTexts } = params
+  const allowedTypes = params.allowedTypes.filter(isAiQuestionType)
+  const styleExamples = params.styleExamples?.filter(e => isAiQuestionType(e.type))
 
   const examplesBlock = styleExamples?.length
     ? `\nThe teacher's approved questions for style/difficulty reference (match their tone, rigor, and formatting):\n${styleExamples
@@ -245,6 +258,9 @@ export async function generateMasteryQuestions(
 ): Promise<GeneratedQuestion[]> {
   const apiKey = process.env.ANTHROPIC_API_KEY
   if (!apiKey) throw new Error('ANTHROPIC_API_KEY is not configured')
+  if (!params.allowedTypes.some(isAiQuestionType)) {
+    throw new Error('None of the allowed question types can be AI-generated')
+  }
   const anthropic = new Anthropic({ apiKey })
   const prompt = buildPrompt(params)
 
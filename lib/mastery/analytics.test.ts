@@ -124,4 +124,136 @@ describe('aggregateInsights — questions', () => {
     expect(q.avgScore).toBe(45) // (20+20+40+100)/4
     expect(q.distribution).toBeUndefined()
   })
+
+  // Helper for the structured types; the snapshot varies per row (shuffles).
+  function structured(
+    questionId: string,
+    snapshot: ResponseInput['question_snapshot'],
+    answer: ResponseInput['answer'],
+    correct: boolean,
+    score: number,
+  ): ResponseInput {
+    return {
+      question_id: questionId,
+      concept_id: 'c1',
+      is_correct: correct,
+      score,
+      answer,
+      question_snapshot: snapshot,
+      served_at: '2026-07-19T10:00:00Z',
+      answered_at: '2026-07-19T10:00:20Z',
+    }
+  }
+
+  it('counts multi-select picks per option and averages partial credit', () => {
+    const snap = {
+      type: 'multi_select' as const,
+      question_text: 'Pick the gases',
+      options: ['O2', 'Fe', 'CO2'],
+      correct_answer: { indices: [0, 2] },
+    }
+    const { questions } = aggregateInsights(
+      [
+        structured('ms', snap, { indices: [0, 2] }, true, 100),
+        structured('ms', snap, { indices: [0] }, false, 50),
+      ],
+      attemptConcepts,
+      concepts,
+    )
+    const q = questions.find((x) => x.question_id === 'ms')!
+    expect(q.distribution).toEqual([
+      { label: 'O2', count: 2, isCorrect: true },
+      { label: 'Fe', count: 0, isCorrect: false },
+      { label: 'CO2', count: 1, isCorrect: true },
+    ])
+    expect(q.avgScore).toBe(75)
+  })
+
+  it('reads ordering rows through their own shuffled snapshot', () => {
+    // Correct sequence is always first → second → third
+    const servedA = { type: 'ordering' as const, question_text: 'Order', options: ['first', 'second', 'third'], correct_answer: { order: [0, 1, 2] } }
+    const servedB = { type: 'ordering' as const, question_text: 'Order', options: ['third', 'first', 'second'], correct_answer: { order: [1, 2, 0] } }
+    const { questions } = aggregateInsights(
+      [
+        structured('ord', servedA, { order: [0, 2, 1] }, false, 33), // only "first" placed right
+        structured('ord', servedB, { order: [1, 2, 0] }, true, 100),
+      ],
+      attemptConcepts,
+      concepts,
+    )
+    expect(questions.find((x) => x.question_id === 'ord')!.breakdown).toEqual([
+      { label: 'first', pct: 100 },
+      { label: 'second', pct: 50 },
+      { label: 'third', pct: 50 },
+    ])
+  })
+
+  it('breaks multi-part questions down by part and collects wrong numeric answers', () => {
+    const snap = {
+      type: 'multi_part' as const,
+      question_text: '2.0 g of H2 burns',
+      options: null,
+      correct_answer: {
+        parts: [
+          { type: 'numeric', prompt: 'Moles of H2?', correct_answer: { value: 1 } },
+          { type: 'true_false', prompt: 'Exothermic?', correct_answer: { value: true } },
+        ],
+      },
+    }
+    const { questions } = aggregateInsights(
+      [
+        structured('mp', snap, { parts: [{ numeric: '1' }, { value: true }] }, true, 100),
+        structured('mp', snap, { parts: [{ numeric: '2' }, { value: true }] }, false, 50),
+      ],
+      attemptConcepts,
+      concepts,
+    )
+    const q = questions.find((x) => x.question_id === 'mp')!
+    expect(q.breakdown).toEqual([
+      { label: '(a) Moles of H2?', pct: 50 },
+      { label: '(b) Exothermic?', pct: 100 },
+    ])
+    expect(q.avgScore).toBe(75)
+
+    const num = { type: 'numeric' as const, question_text: 'g/mol of H2O?', options: null, correct_answer: { value: 18 } }
+    const numeric = aggregateInsights(
+      [structured('n', num, { numeric: '16 g/mol' }, false, 0), structured('n', num, { numeric: '18' }, true, 100)],
+      attemptConcepts,
+      concepts,
+    ).questions.find((x) => x.question_id === 'n')!
+    expect(numeric.sampleWrong).toEqual(['16 g/mol'])
+  })
+})
+
+describe('aggregateInsights — question versions', () => {
+  const versioned = (version: number | undefined, chosen: number): ResponseInput => {
+    const r = mc('c1', 'q1', chosen, 0, 10)
+    return { ...r, question_snapshot: { ...r.question_snapshot, ...(version ? { version } : {}) } }
+  }
+
+  it('reports each version separately, newest first', () => {
+    const responses = [
+      versioned(undefined, 1), // pre-versioning snapshot counts as v1
+      versioned(1, 1),
+      versioned(2, 0),
+      versioned(2, 0),
+      versioned(2, 1),
+    ]
+    const { questions } = aggregateInsights(responses, attemptConcepts, concepts)
+    expect(questions.map((q) => [q.version, q.answered, q.pct, q.versionCount])).toEqual([
+      [2, 3, 67, 2],
+      [1, 2, 0, 2],
+    ])
+  })
+
+  it('keeps versions together and ranks by the newest one', () => {
+    const responses = [
+      versioned(1, 1), // q1 v1 0% — but v2 is fine
+      versioned(2, 0),
+      mc('c1', 'q2', 0, 0, 10),
+      mc('c1', 'q2', 1, 0, 10), // q2 50%
+    ]
+    const { questions } = aggregateInsights(responses, attemptConcepts, concepts)
+    expect(questions.map((q) => `${q.question_id}v${q.version}`)).toEqual(['q2v1', 'q1v2', 'q1v1'])
+  })
 })
@@ -4,7 +4,10 @@
 // aggregator serves per-assignment insights today and a Question-Bank-wide
 // "question health" view later — the caller just decides which responses to pass in.
 
-export type QuestionType = 'multiple_choice' | 'true_false' | 'short_answer'
+import { gradeAnswer, partLabel, type SubmittedAnswer } from '@/lib/mastery/grading'
+import type { PartType, QuestionType } from '@/lib/types/question-bank'
+
+export type { QuestionType }
 
 // One answered mastery_responses row (only the fields analytics needs).
 export interface ResponseInput {
@@ -12,12 +15,15 @@ export interface ResponseInput {
   concept_id: string
   is_correct: boolean | null
   score: number | null
-  answer: { index?: number; value?: boolean; text?: string } | null
+  answer: SubmittedAnswer | null
   question_snapshot: {
     type: QuestionType
     question_text: string
     options: string[] | null
     correct_answer: Record<string, unknown>
+    match_options?: string[] | null
+    // Question version served; absent on snapshots from before versioning
+    version?: number
   }
   served_at: string | null
   answered_at: string | null
@@ -50,8 +56,19 @@ export interface AnswerChoice {
   isCorrect: boolean
 }
 
+// How often one item / pair / part was right, for the structured types.
+export interface ItemBreakdown {
+  label: string
+  pct: number | null
+}
+
 export interface QuestionInsight {
   question_id: string
+  // Each version of a question is reported separately, so fixing a bad
+  // distractor doesn't blend old and new stats. versionCount is how many
+  // versions of this question have answers here.
+  version: number
+  versionCount: number
   concept_id: string
   type: QuestionType
   question_text: string
@@ -59,10 +76,13 @@ export interface QuestionInsight {
   correct: number
   pct: number | null
   avgTimeSec: number | null
-  // MC / TF only — full option distribution (includes zero-pick options).
+  // MC / TF / multi-select — full option distribution (includes zero-pick options).
   distribution?: AnswerChoice[]
-  // short_answer only.
+  // Ordering (item in the right place), matching (pair right), multi-part (part right).
+  breakdown?: ItemBreakdown[]
+  // short_answer / numeric — representative wrong answers.
   sampleWrong?: string[]
+  // Every type scored 0-100 (short answer and the partial-credit types).
   avgScore?: number | null
 }
 
@@ -95,6 +115,73 @@ function pctOf(correct: number, answered: number): number | null {
   return Math.round((correct / answered) * 100)
 }
 
+function sampleWrongAnswers(rows: ResponseInput[], pick: (answer: SubmittedAnswer) => string | undefined): string[] {
+  const wrong: string[] = []
+  for (const r of rows) {
+    if (r.is_correct === true || !r.answer) continue
+    const text = pick(r.answer)?.trim()
+    if (text && !wrong.includes(text)) wrong.push(text)
+    if (wrong.length >= 3) break
+  }
+  return wrong
+}
+
+/**
+ * Per-item accuracy for ordering, matching and multi-part. Ordering items are
+ * shuffled per serve, so each row is read through its own snapshot and items
+ * are identified by text.
+ */
+function itemBreakdown(rows: ResponseInput[]): ItemBreakdown[] {
+  const snap = rows[0].question_snapshot
+  const answeredRows = rows.filter((r) => r.answer)
+  const share = (isRight: (r: ResponseInput) => boolean) =>
+    pctOf(answeredRows.filter(isRight).length, answeredRows.length)
+
+  if (snap.type === 'ordering') {
+    const order = (snap.correct_answer.order ?? []) as number[]
+    return order.map((i) => {
+      const label = snap.options?.[i] ?? ''
+      return {
+        label,
+        pct: share((r) => {
+          const own = r.question_snapshot
+          const item = own.options?.indexOf(label) ?? -1
+          const expected = ((own.correct_answer.order ?? []) as number[]).indexOf(item)
+          return item >= 0 && r.answer?.order?.indexOf(item) === expected
+        }),
+      }
+    })
+  }
+
+  if (snap.type === 'matching') {
+    const matches = (snap.correct_answer.matches ?? []) as string[]
+    return (snap.options ?? []).map((left, i) => ({
+      label: `${left} → ${matches[i]}`,
+      pct: share((r) => {
+        const picked = r.answer?.matches?.[i]
+        return picked !== undefined && r.question_snapshot.match_options?.[picked] === matches[i]
+      }),
+    }))
+  }
+
+  const parts = (snap.correct_answer.parts ?? []) as Array<{
+    type: PartType
+    prompt: string
+    options?: string[] | null
+    correct_answer: Record<string, unknown>
+  }>
+  return parts.map((part, i) => ({
+    label: `${partLabel(i)} ${part.prompt}`,
+    pct: share((r) => {
+      const graded = gradeAnswer(
+        { type: part.type, options: part.options ?? null, correct_answer: part.correct_answer },
+        r.answer?.parts?.[i] ?? {}
+      )
+      return graded.ok && graded.is_correct
+    }),
+  }))
+}
+
 export function aggregateInsights(
   responses: ResponseInput[],
   attemptConcepts: AttemptConceptInput[],
@@ -129,16 +216,17 @@ export function aggregateInsights(
     return x.pct - y.pct
   })
 
-  // ── Per-question rollups ───────────────────────────────────────────────────
-  const byQuestion = new Map<string, ResponseInput[]>()
+  // ── Per-question rollups (one per question version) ────────────────────────
+  const byVersion = new Map<string, ResponseInput[]>()
   for (const r of responses) {
-    const list = byQuestion.get(r.question_id)
+    const key = `${r.question_id}:${r.question_snapshot.version ?? 1}`
+    const list = byVersion.get(key)
     if (list) list.push(r)
-    else byQuestion.set(r.question_id, [r])
+    else byVersion.set(key, [r])
   }
 
   const questionInsights: QuestionInsight[] = []
-  for (const [questionId, rows] of byQuestion) {
+  for (const rows of byVersion.values()) {
     const snap = rows[0].question_snapshot
     const answered = rows.length
     const correct = rows.filter((r) => r.is_correct === true).length
@@ -146,7 +234,9 @@ export function aggregateInsights(
     const avg = mean(times)
 
     const base: QuestionInsight = {
-      question_id: questionId,
+      question_id: rows[0].question_id,
+      version: snap.version ?? 1,
+      versionCount: 1,
       concept_id: rows[0].concept_id,
       type: snap.type,
       question_text: snap.question_text,
@@ -172,16 +262,24 @@ export function aggregateInsights(
         count: rows.filter((r) => r.answer?.value === val).length,
         isCorrect: val === correctVal,
       }))
+    } else if (snap.type === 'multi_select') {
+      const correctIndices = (snap.correct_answer.indices ?? []) as number[]
+      base.distribution = (snap.options ?? []).map((label, i) => ({
+        label,
+        count: rows.filter((r) => r.answer?.indices?.includes(i)).length,
+        isCorrect: correctIndices.includes(i),
+      }))
+    } else if (snap.type === 'ordering' || snap.type === 'matching' || snap.type === 'multi_part') {
+      base.breakdown = itemBreakdown(rows)
+    } else if (snap.type === 'numeric') {
+      base.sampleWrong = sampleWrongAnswers(rows, (a) => a.numeric)
     } else {
-      // short_answer — representative wrong answers + average AI score
-      const wrong: string[] = []
-      for (const r of rows) {
-        if (r.is_correct === true) continue
-        const text = r.answer?.text?.trim()
-        if (text && !wrong.includes(text)) wrong.push(text)
-        if (wrong.length >= 3) break
-      }
-      base.sampleWrong = wrong
+      // short_answer — representative wrong answers
+      base.sampleWrong = sampleWrongAnswers(rows, (a) => a.text)
+    }
+
+    // Average score wherever answers are scored (null-score MC/TF are skipped)
+    if (snap.type !== 'multiple_choice' && snap.type !== 'true_false') {
       const scores = rows.map((r) => r.score).filter((s): s is number => typeof s === 'number')
       const avgScore = mean(scores)
       base.avgScore = avgScore === null ? null : Math.round(avgScore)
@@ -190,15 +288,32 @@ export function aggregateInsights(
     questionInsights.push(base)
   }
 
+  // Versions of a question stay together, newest first; questions are ranked
+  // by their newest version.
+  const newest = new Map<string, QuestionInsight>()
+  for (const q of questionInsights) {
+    const seen = newest.get(q.question_id)
+    if (!seen || q.version > seen.version) newest.set(q.question_id, q)
+  }
+  for (const q of questionInsights) {
+    q.versionCount = questionInsights.filter((other) => other.question_id === q.question_id).length
+  }
+
   // Group by concept order, worst question first within each concept.
   const conceptOrder = new Map(conceptInsights.map((c, i) => [c.concept_id, i]))
+  const rank = (q: QuestionInsight) => newest.get(q.question_id)!.pct
   questionInsights.sort((x, y) => {
     const co = (conceptOrder.get(x.concept_id) ?? 0) - (conceptOrder.get(y.concept_id) ?? 0)
     if (co !== 0) return co
-    if (x.pct === null && y.pct === null) return 0
-    if (x.pct === null) return 1
-    if (y.pct === null) return -1
-    return x.pct - y.pct
+    if (x.question_id !== y.question_id) {
+      const xp = rank(x)
+      const yp = rank(y)
+      if (xp === null && yp === null) return x.question_id.localeCompare(y.question_id)
+      if (xp === null) return 1
+      if (yp === null) return -1
+      return xp - yp || x.question_id.localeCompare(y.question_id)
+    }
+    return y.version - x.version
   })
 
   return { concepts: conceptInsights, questions: questionInsights }
@@ -0,0 +1,100 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calibrate, flagItem, type IrtResponse } from '@/lib/mastery/irt'
+
+// Calibration job: fit IRT parameters for one teacher's bank from every
+// answered mastery_responses row, then persist item parameters and
+// per-(student, concept) abilities. Takes the admin client — the route is
+// responsible for the teacher check. Safe to re-run at any time; each run
+// refits from full history.
+
+const PAGE_SIZE = 1000
+
+export interface CalibrationSummary {
+  responses: number
+  calibrated: number
+  flagged: number
+  abilities: number
+}
+
+type ResponseRow = {
+  question_id: string
+  concept_id: string
+  is_correct: boolean
+  mastery_attempts: { student_id: string } | null
+  question_bank_questions: { difficulty: number } | null
+}
+
+async function loadResponses(supabase: SupabaseClient, teacherId: string): Promise<ResponseRow[]> {
+  const rows: ResponseRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('mastery_responses')
+      .select('question_id, concept_id, is_correct, mastery_attempts!inner(student_id), question_bank_questions!inner(teacher_id, difficulty)')
+      .eq('question_bank_questions.teacher_id', teacherId)
+      .not('is_correct', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load responses: ${error.message}`)
+    rows.push(...((data ?? []) as unknown as ResponseRow[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+export async function calibrateTeacherBank(
+  supabase: SupabaseClient,
+  teacherId: string
+): Promise<CalibrationSummary> {
+  const rows = await loadResponses(supabase, teacherId)
+
+  const manualDifficulty = new Map<string, number>()
+  const responses: IrtResponse[] = []
+  for (const row of rows) {
+    if (!row.mastery_attempts || !row.question_bank_questions) continue
+    manualDifficulty.set(row.question_id, row.question_bank_questions.difficulty)
+    responses.push({
+      question_id: row.question_id,
+      concept_id: row.concept_id,
+      student_id: row.mastery_attempts.student_id,
+      is_correct: row.is_correct,
+    })
+  }
+
+  const { items, abilities } = calibrate(responses, { manualDifficulty })
+  const calibratedAt = new Date().toISOString()
+
+  let flagged = 0
+  await Promise.all(
+    items.map(item => {
+      const flag = flagItem(item, manualDifficulty.get(item.question_id) ?? 2)
+      if (flag) flagged++
+      return supabase
+        .from('question_bank_questions')
+        .update({
+          irt_difficulty: item.difficulty,
+          irt_discrimination: item.discrimination,
+          irt_response_count: item.response_count,
+          irt_flag: flag,
+          irt_calibrated_at: calibratedAt,
+        })
+        .eq('id', item.question_id)
+    })
+  )
+
+  if (abilities.length > 0) {
+    const { error } = await supabase
+      .from('student_concept_abilities')
+      .upsert(
+        abilities.map(a => ({ ...a, updated_at: calibratedAt })),
+        { onConflict: 'student_id,concept_id' }
+      )
+    if (error) throw new Error(`Failed to save abilities: ${error.message}`)
+  }
+
+  return {
+    responses: responses.length,
+    calibrated: items.length,
+    flagged,
+    abilities: abilities.length,
+  }
+}
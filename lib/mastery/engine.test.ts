@@ -5,7 +5,10 @@ import {
   computeFinalScore,
   evaluateConceptStatus,
   isAttemptComplete,
+  masteryProgress,
   selectConceptQuestions,
+  updateKnowledge,
+  weightedWindowAccuracy,
   windowAccuracy,
   type CandidateQuestion,
   type ConceptRollup,
@@ -13,7 +16,10 @@ import {
 } from './engine'
 
 const config: MasteryConfig = {
+  mastery_rule: 'rolling_window',
   mastery_threshold: 0.8,
+  streak_length: 5,
+  bkt_threshold: 0.95,
   window_size: 5,
   min_questions: 3,
   max_questions_per_concept: 15,
@@ -28,13 +34,17 @@ function rollup(overrides: Partial<ConceptRollup> = {}): ConceptRollup {
     answered_count: 0,
     correct_count: 0,
     recent_results: [],
+    recent_difficulties: [],
+    current_streak: 0,
+    p_known: null,
+    short_answer_correct: 0,
     status: 'in_progress',
     ...overrides,
   }
 }
 
-function answerSequence(start: ConceptRollup, answers: boolean[]): ConceptRollup {
-  return answers.reduce((r, correct) => applyAnswer(r, correct, config), start)
+function answerSequence(start: ConceptRollup, answers: boolean[], cfg: MasteryConfig = config): ConceptRollup {
+  return answers.reduce((r, correct) => applyAnswer(r, correct, cfg), start)
 }
 
 describe('windowAccuracy', () => {
@@ -89,6 +99,13 @@ describe('evaluateConceptStatus / applyAnswer', () => {
     expect(r.answered_count).toBe(15)
   })
 
+  it('keeps a mastered concept mastered through review answers', () => {
+    const mastered = rollup({ answered_count: 3, recent_results: [true, true, true], status: 'mastered' })
+    const r = answerSequence(mastered, [false, false, false])
+    expect(r.status).toBe('mastered')
+    expect(r.answered_count).toBe(6)
+  })
+
   it('mastery wins if achieved exactly at the cap', () => {
     const answers = [...Array.from({ length: 10 }, () => false), ...Array.from({ length: 5 }, () => true)]
     const r = answerSequence(rollup(), answers)
@@ -97,6 +114,135 @@ describe('evaluateConceptStatus / applyAnswer', () => {
   })
 })
 
+describe('streak rule', () => {
+  const streak: MasteryConfig = { ...config, mastery_rule: 'streak', streak_length: 4 }
+
+  it('masters after streak_length correct in a row', () => {
+    const r = answerSequence(rollup(), [true, true, true, true], streak)
+    expect(r.current_streak).toBe(4)
+    expect(r.status).toBe('mastered')
+  })
+
+  it('resets the streak on a miss even when window accuracy is high', () => {
+    const r = answerSequence(rollup(), [true, true, true, false, true], streak)
+    expect(r.current_streak).toBe(1)
+    expect(r.status).toBe('in_progress')
+  })
+
+  it('tracks streaks longer than the accuracy window', () => {
+    const long: MasteryConfig = { ...streak, streak_length: 7 }
+    const r = answerSequence(rollup(), Array.from({ length: 7 }, () => true), long)
+    expect(r.recent_results).toHaveLength(5)
+    expect(r.status).toBe('mastered')
+  })
+
+  it('still respects min_questions', () => {
+    const short: MasteryConfig = { ...streak, streak_length: 2, min_questions: 3 }
+    expect(answerSequence(rollup(), [true, true], short).status).toBe('in_progress')
+  })
+})
+
+describe('bkt rule', () => {
+  const bkt: MasteryConfig = { ...config, mastery_rule: 'bkt', bkt_threshold: 0.95 }
+
+  it('raises P(known) on a correct answer and lowers it on a miss', () => {
+    const up = updateKnowledge(0.5, true)
+    const down = updateKnowledge(0.5, false)
+    expect(up).toBeGreaterThan(0.5)
+    expect(down).toBeLessThan(0.5)
+  })
+
+  it('starts from the prior when nothing is known yet', () => {
+    expect(updateKnowledge(null, true)).toBeCloseTo(0.553, 3)
+  })
+
+  it('masters once P(known) crosses the cutoff', () => {
+    const r = answerSequence(rollup(), [true, true, true], bkt)
+    expect(r.p_known).toBeGreaterThan(0.95)
+    expect(r.status).toBe('mastered')
+  })
+
+  it('falls back to the prior before any answer is traced', () => {
+    const legacy = rollup({ answered_count: 5, recent_results: [true, true, true, true, true] })
+    expect(evaluateConceptStatus(legacy, bkt)).toBe('in_progress')
+    expect(evaluateConceptStatus({ ...legacy, p_known: 0.97 }, bkt)).toBe('mastered')
+  })
+
+  it('needs more evidence after a miss', () => {
+    const r = answerSequence(rollup(), [true, true, false, true], bkt)
+    expect(r.p_known).toBeLessThan(0.95)
+    expect(r.status).toBe('in_progress')
+  })
+})
+
+describe('difficulty_weighted rule', () => {
+  const weighted: MasteryConfig = { ...config, mastery_rule: 'difficulty_weighted' }
+
+  it('weights each answer by its difficulty', () => {
+    const r = rollup({ recent_results: [false, true], recent_difficulties: [1, 3] })
+    expect(weightedWindowAccuracy(r)).toBe(0.75)
+  })
+
+  it('treats answers without a recorded difficulty as medium', () => {
+    const r = rollup({ recent_results: [false, true, true], recent_difficulties: [3] })
+    expect(weightedWindowAccuracy(r)).toBeCloseTo(5 / 7)
+  })
+
+  it('masters when hard correct answers outweigh an easy miss', () => {
+    const answers: Array<[boolean, number]> = [[false, 1], [true, 3], [true, 3], [true, 2]]
+    const r = answers.reduce(
+      (acc, [correct, difficulty]) => applyAnswer(acc, correct, weighted, { type: 'multiple_choice', difficulty }),
+      rollup()
+    )
+    // Plain window accuracy is 0.75; weighted is 8/9
+    expect(windowAccuracy(r)).toBe(0.75)
+    expect(r.status).toBe('mastered')
+  })
+
+  it('keeps difficulties aligned with the capped window', () => {
+    const r = Array.from({ length: 7 }, (_, i) => i).reduce(
+      acc => applyAnswer(acc, true, weighted, { type: 'multiple_choice', difficulty: 3 }),
+      rollup()
+    )
+    expect(r.recent_difficulties).toHaveLength(5)
+  })
+})
+
+describe('short_answer_required rule', () => {
+  const sa: MasteryConfig = { ...config, mastery_rule: 'short_answer_required' }
+
+  it('withholds mastery until a short answer is correct', () => {
+    let r = answerSequence(rollup(), [true, true, true, true], sa)
+    expect(r.status).toBe('in_progress')
+    r = applyAnswer(r, true, sa, { type: 'short_answer', difficulty: 2 })
+    expect(r.short_answer_correct).toBe(1)
+    expect(r.status).toBe('mastered')
+  })
+
+  it('does not count a wrong short answer', () => {
+    const r = applyAnswer(rollup(), false, sa, { type: 'short_answer', difficulty: 2 })
+    expect(r.short_answer_correct).toBe(0)
+  })
+})
+
+describe('masteryProgress', () => {
+  it('measures window accuracy against the threshold by default', () => {
+    expect(masteryProgress(rollup({ recent_results: [true, true, false, false] }), config)).toBeCloseTo(0.625)
+  })
+
+  it('measures the streak against streak_length', () => {
+    const streak: MasteryConfig = { ...config, mastery_rule: 'streak', streak_length: 4 }
+    expect(masteryProgress(rollup({ current_streak: 3 }), streak)).toBe(0.75)
+  })
+
+  it('holds short of full until a short answer lands', () => {
+    const sa: MasteryConfig = { ...config, mastery_rule: 'short_answer_required' }
+    const perfect = rollup({ recent_results: [true, true, true] })
+    expect(masteryProgress(perfect, sa)).toBeLessThan(1)
+    expect(masteryProgress({ ...perfect, short_answer_correct: 1 }, sa)).toBe(1)
+  })
+})
+
 describe('allocateRoundSlots', () => {
   it('spreads slots round-robin across concepts', () => {
     const rollups = [
@@ -162,6 +308,28 @@ describe('selectConceptQuestions', () => {
     const picked = selectConceptQuestions([q('hard', 3, 0), q('easy', 1, 5)], 1, strong)
     expect(picked[0].id).toBe('hard')
   })
+
+  it('serves the question closest to the student ability when one is given', () => {
+    const calibrated = (id: string, irt: number | null, manual: number): CandidateQuestion => ({
+      ...q(id, manual, 0),
+      irt_difficulty: irt,
+    })
+    const candidates = [calibrated('far', 2.5, 3), calibrated('near', 0.9, 2), calibrated('manual', null, 1)]
+    expect(selectConceptQuestions(candidates, 1, rollup(), 1)[0].id).toBe('near')
+    // Uncalibrated questions fall back to the manual rating on the logit scale (1 → -1)
+    expect(selectConceptQuestions(candidates, 1, rollup(), -1)[0].id).toBe('manual')
+  })
+
+  it('lets ability override the struggling heuristic', () => {
+    const struggling = rollup({ answered_count: 4, recent_results: [false, false, false, true] })
+    const candidates = [q('easy', 1, 0), { ...q('matched', 3, 0), irt_difficulty: 0.2 }]
+    expect(selectConceptQuestions(candidates, 1, struggling, 0.3)[0].id).toBe('matched')
+  })
+
+  it('still prefers least-served among equally good fits', () => {
+    const candidates = [{ ...q('worn', 2, 8), irt_difficulty: 0.1 }, { ...q('fresh', 2, 1), irt_difficulty: -0.1 }]
+    expect(selectConceptQuestions(candidates, 1, rollup(), 0)[0].id).toBe('fresh')
+  })
 })
 
 describe('computeFinalScore / isAttemptComplete', () => {
@@ -1,11 +1,40 @@
 import type { QuestionType } from '@/lib/types/question-bank'
+import { manualToLogit } from '@/lib/mastery/irt'
 
 // Pure functions for the adaptive mastery loop. No I/O here — API routes load
 // state, call these, and persist the results. Keep it that way: this is the
 // one piece of the feature with unit tests (lib/mastery/engine.test.ts).
 
+/**
+ * How a concept counts as mastered (all rules also require min_questions):
+ * - rolling_window:        window accuracy >= mastery_threshold (the default)
+ * - streak:                streak_length correct answers in a row
+ * - bkt:                   Bayesian Knowledge Tracing P(known) >= bkt_threshold
+ * - difficulty_weighted:   window accuracy weighted by question difficulty
+ *                          (1–3), so hard questions count for more
+ * - short_answer_required: rolling_window plus at least one correct short
+ *                          answer — recognition alone isn't enough
+ */
+export type MasteryRule =
+  | 'rolling_window'
+  | 'streak'
+  | 'bkt'
+  | 'difficulty_weighted'
+  | 'short_answer_required'
+
+export const MASTERY_RULES: MasteryRule[] = [
+  'rolling_window',
+  'streak',
+  'bkt',
+  'difficulty_weighted',
+  'short_answer_required',
+]
+
 export interface MasteryConfig {
+  mastery_rule: MasteryRule
   mastery_threshold: number
+  streak_length: number
+  bkt_threshold: number
   window_size: number
   min_questions: number
   max_questions_per_concept: number
@@ -21,15 +50,40 @@ export interface ConceptRollup {
   answered_count: number
   correct_count: number
   recent_results: boolean[]
+  /** Difficulty (1–3) of each answer in recent_results, same order. */
+  recent_difficulties: number[]
+  current_streak: number
+  /** BKT P(known); null until the first answer (BKT_PARAMS.p_init applies). */
+  p_known: number | null
+  short_answer_correct: number
   status: ConceptStatus
 }
 
+/** The answered question, as far as the mastery rules care. */
+export interface AnsweredQuestion {
+  type: QuestionType
+  difficulty: number
+}
+
+/**
+ * Standard BKT parameters. Fixed rather than per-assignment: teachers pick a
+ * cutoff, not a model. p_slip/p_guess are tuned for a mixed MC/TF/SA bank.
+ */
+export const BKT_PARAMS = {
+  p_init: 0.2,
+  p_learn: 0.15,
+  p_slip: 0.1,
+  p_guess: 0.25,
+}
+
 export interface CandidateQuestion {
   id: string
   concept_id: string
   type: QuestionType
   difficulty: number
   times_served: number
+  /** Calibrated IRT difficulty (logits); null until the question has enough history. */
+  irt_difficulty?: number | null
 }
 
 /**
@@ -44,22 +98,100 @@ export function windowAccuracy(rollup: Pick<ConceptRollup, 'recent_results'>): n
 }
 
 /**
- * The mastery rule. A concept is:
- * - mastered:    answered >= min_questions AND window accuracy >= threshold.
- *                Misses age out of the window, so early mistakes don't
- *                permanently poison the ratio.
+ * Accuracy over the rolling window with each answer weighted by its
+ * question's difficulty. Rows answered before difficulties were tracked
+ * count as medium (2).
+ */
+export function weightedWindowAccuracy(
+  rollup: Pick<ConceptRollup, 'recent_results' | 'recent_difficulties'>
+): number {
+  const recent = rollup.recent_results
+  if (recent.length === 0) return 0
+  const offset = recent.length - rollup.recent_difficulties.length
+  let earned = 0
+  let total = 0
+  recent.forEach((correct, i) => {
+    const weight = rollup.recent_difficulties[i - offset] ?? 2
+    total += weight
+    if (correct) earned += weight
+  })
+  return earned / total
+}
+
+/**
+ * One BKT step: condition P(known) on the observed answer, then apply the
+ * learning transition (the student may have learned it from this question).
+ */
+export function updateKnowledge(pKnown: number | null, isCorrect: boolean): number {
+  const { p_init, p_learn, p_slip, p_guess } = BKT_PARAMS
+  const prior = pKnown ?? p_init
+  const posterior = isCorrect
+    ? (prior * (1 - p_slip)) / (prior * (1 - p_slip) + (1 - prior) * p_guess)
+    : (prior * p_slip) / (prior * p_slip + (1 - prior) * (1 - p_guess))
+  return posterior + (1 - posterior) * p_learn
+}
+
+/**
+ * Progress toward the configured rule, 0–1 (1 = the rule's condition is met,
+ * ignoring min_questions). Drives the student progress bars.
+ */
+export function masteryProgress(
+  rollup: Omit<ConceptRollup, 'concept_id' | 'status'>,
+  config: Pick<MasteryConfig, 'mastery_rule' | 'mastery_threshold' | 'streak_length' | 'bkt_threshold'>
+): number {
+  switch (config.mastery_rule) {
+    case 'streak':
+      return Math.min(1, rollup.current_streak / config.streak_length)
+    case 'bkt':
+      return Math.min(1, (rollup.p_known ?? BKT_PARAMS.p_init) / config.bkt_threshold)
+    case 'difficulty_weighted':
+      return Math.min(1, weightedWindowAccuracy(rollup) / config.mastery_threshold)
+    case 'short_answer_required': {
+      const window = Math.min(1, windowAccuracy(rollup) / config.mastery_threshold)
+      // Hold the bar just short until a short answer lands
+      return rollup.short_answer_correct > 0 ? window : Math.min(window, 0.9)
+    }
+    default:
+      return Math.min(1, windowAccuracy(rollup) / config.mastery_threshold)
+  }
+}
+
+/** Whether the rollup satisfies the configured rule's condition (not min_questions). */
+export function meetsMasteryRule(
+  rollup: Omit<ConceptRollup, 'concept_id' | 'status'>,
+  config: Pick<MasteryConfig, 'mastery_rule' | 'mastery_threshold' | 'streak_length' | 'bkt_threshold'>
+): boolean {
+  switch (config.mastery_rule) {
+    case 'streak':
+      return rollup.current_streak >= config.streak_length
+    case 'bkt':
+      return (rollup.p_known ?? BKT_PARAMS.p_init) >= config.bkt_threshold
+    case 'difficulty_weighted':
+      return weightedWindowAccuracy(rollup) >= config.mastery_threshold
+    case 'short_answer_required':
+      return rollup.short_answer_correct > 0 && windowAccuracy(rollup) >= config.mastery_threshold
+    default:
+      return windowAccuracy(rollup) >= config.mastery_threshold
+  }
+}
+
+/**
+ * Status for a concept. A concept is:
+ * - mastered:    answered >= min_questions AND the configured rule is met
+ *                (see MasteryRule). Under the window rules misses age out,
+ *                so early mistakes don't permanently poison the ratio.
  * - max_reached: hit the per-concept question cap without mastering
  *                (frustration/cost safety valve — stops being served).
  * - in_progress: otherwise.
  */
 export function evaluateConceptStatus(
-  rollup: Pick<ConceptRollup, 'answered_count' | 'recent_results'>,
-  config: Pick<MasteryConfig, 'mastery_threshold' | 'min_questions' | 'max_questions_per_concept'>
+  rollup: Omit<ConceptRollup, 'concept_id' | 'status'>,
+  config: Pick<
+    MasteryConfig,
+    'mastery_rule' | 'mastery_threshold' | 'streak_length' | 'bkt_threshold' | 'min_questions' | 'max_questions_per_concept'
+  >
 ): ConceptStatus {
-  if (
-    rollup.answered_count >= config.min_questions &&
-    windowAccuracy(rollup) >= config.mastery_threshold
-  ) {
+  if (rollup.answered_count >= config.min_questions && meetsMasteryRule(rollup, config)) {
     return 'mastered'
   }
   if (rollup.answered_count >= config.max_questions_per_concept) {
@@ -70,22 +202,32 @@ export function evaluateConceptStatus(
 
 /**
  * Fold one graded answer into a rollup: bump counts, push into the capped
- * window, re-evaluate status.
+ * window, advance the streak and BKT estimate, re-evaluate status. Without
+ * `question`, the answer is treated as a medium multiple-choice item.
  */
 export function applyAnswer(
   rollup: ConceptRollup,
   isCorrect: boolean,
-  config: MasteryConfig
+  config: MasteryConfig,
+  question: AnsweredQuestion = { type: 'multiple_choice', difficulty: 2 }
 ): ConceptRollup {
   const recent = [...rollup.recent_results, isCorrect].slice(-config.window_size)
+  const difficulties = [...rollup.recent_difficulties, question.difficulty].slice(-config.window_size)
   const next: ConceptRollup = {
     ...rollup,
     answered_count: rollup.answered_count + 1,
     correct_count: rollup.correct_count + (isCorrect ? 1 : 0),
     recent_results: recent,
+    recent_difficulties: difficulties,
+    current_streak: isCorrect ? rollup.current_streak + 1 : 0,
+    p_known: updateKnowledge(rollup.p_known, isCorrect),
+    short_answer_correct:
+      rollup.short_answer_correct + (isCorrect && question.type === 'short_answer' ? 1 : 0),
     status: rollup.status,
   }
-  next.status = evaluateConceptStatus(next, config)
+  // Mastery is sticky: review questions served from a mastered prerequisite
+  // still count, but can't un-master it
+  next.status = rollup.status === 'mastered' ? 'mastered' : evaluateConceptStatus(next, config)
   return next
 }
 
@@ -127,19 +269,29 @@ export function allocateRoundSlots(
 
 /**
  * Pick `count` questions for one concept from its unseen candidates.
- * Struggling students (window accuracy < 0.5) get easier questions first
- * (difficulty <= 2 preferred); least-served questions win ties so the whole
- * bank gets exercise. Callers pre-shuffle candidates for variety — this sort
- * is stable, so the shuffle breaks remaining ties.
+ * With an ability estimate (IRT, logits), questions whose difficulty is
+ * closest to the student's ability come first — calibrated difficulty when
+ * available, the manual rating mapped onto the logit scale otherwise.
+ * Distances are bucketed to half a logit so near-equal fits still rotate.
+ * Without one, struggling students (window accuracy < 0.5) get easier
+ * questions first (difficulty <= 2 preferred). Least-served questions win
+ * ties so the whole bank gets exercise. Callers pre-shuffle candidates for
+ * variety — this sort is stable, so the shuffle breaks remaining ties.
  */
 export function selectConceptQuestions(
   candidates: CandidateQuestion[],
   count: number,
-  rollup: ConceptRollup
+  rollup: ConceptRollup,
+  ability?: number | null
 ): CandidateQuestion[] {
   const struggling = rollup.answered_count > 0 && windowAccuracy(rollup) < 0.5
+  const fit = (q: CandidateQuestion, theta: number) =>
+    Math.round(Math.abs((q.irt_difficulty ?? manualToLogit(q.difficulty)) - theta) * 2)
   const sorted = [...candidates].sort((a, b) => {
-    if (struggling) {
+    if (typeof ability === 'number') {
+      const diff = fit(a, ability) - fit(b, ability)
+      if (diff !== 0) return diff
+    } else if (struggling) {
       const aEasy = a.difficulty <= 2 ? 0 : 1
       const bEasy = b.difficulty <= 2 ? 0 : 1
       if (aEasy !== bEasy) return aEasy - bEasy
@@ -1,6 +1,8 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import { computeFinalScore, isAttemptComplete, type ConceptRollup } from '@/lib/mastery/engine'
 import type { AttemptRow, MasteryContext } from '@/lib/mastery/rounds'
+import { gradeSchemeFor } from '@/lib/grading/apply-grade-scheme'
+import { gradeFor } from '@/lib/grading/grade-schemes'
 
 // Gradebook projection: a mastery attempt appears in the existing
 // assignment_submissions + grading_results model so the class gradebook and
@@ -71,9 +73,8 @@ export async function finalizeAttempt(
     }),
   ]
 
-  // Grade letter mirrors the percentage bands used elsewhere in the app
-  const pct = score.percentage
-  const grade = pct >= 90 ? 'A' : pct >= 80 ? 'B' : pct >= 70 ? 'C' : pct >= 60 ? 'D' : 'F'
+  // Graded on the same scheme as the class's other work
+  const grade = gradeFor(score.percentage, await gradeSchemeFor(supabase, attempt.assignment_id, attempt.class_id))
 
   const [profileRes, classRes] = await Promise.all([
     supabase
@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import {
+  countSigFigs,
+  describeAnswer,
+  describeCorrectAnswer,
+  gradeAnswer,
+  parseNumeric,
+  prepareForServing,
+  type GradableQuestion,
+} from './grading'
+
+const numeric = (correct_answer: Record<string, unknown>): GradableQuestion => ({
+  type: 'numeric',
+  options: null,
+  correct_answer,
+})
+
+describe('parseNumeric', () => {
+  it('reads plain, scientific and unit-suffixed numbers', () => {
+    expect(parseNumeric('0.0250 mol')).toEqual({ value: 0.025, sigFigs: { min: 3, max: 3 }, unit: 'mol' })
+    expect(parseNumeric('-3.2e4')?.value).toBe(-32000)
+    expect(parseNumeric('6.02 × 10^23')?.value).toBe(6.02e23)
+    expect(parseNumeric('6.02x10²³ mol⁻¹')).toMatchObject({ sigFigs: { min: 3, max: 3 }, unit: 'mol-1' })
+    expect(parseNumeric('1,500 J')).toMatchObject({ value: 1500, unit: 'J' })
+  })
+
+  it('rejects text without a leading number', () => {
+    expect(parseNumeric('about five')).toBeNull()
+    expect(parseNumeric('')).toBeNull()
+  })
+})
+
+describe('countSigFigs', () => {
+  it('ignores leading zeros and counts trailing decimal zeros', () => {
+    expect(countSigFigs('0.02500')).toEqual({ min: 4, max: 4 })
+    expect(countSigFigs('12.0')).toEqual({ min: 3, max: 3 })
+  })
+
+  it('treats trailing zeros in an integer as ambiguous', () => {
+    expect(countSigFigs('2500')).toEqual({ min: 2, max: 4 })
+    expect(countSigFigs('0')).toEqual({ min: 1, max: 1 })
+  })
+})
+
+describe('gradeAnswer — numeric', () => {
+  it('accepts answers within an absolute or percent tolerance', () => {
+    const abs = numeric({ value: 9.81, tolerance: 0.05 })
+    expect(gradeAnswer(abs, { numeric: '9.8' })).toMatchObject({ is_correct: true, score: 100 })
+    expect(gradeAnswer(abs, { numeric: '9.7' })).toMatchObject({ is_correct: false, score: 0 })
+
+    const pct = numeric({ value: 200, tolerance: 5, tolerance_mode: 'percent' })
+    expect(gradeAnswer(pct, { numeric: '209' })).toMatchObject({ is_correct: true })
+    expect(gradeAnswer(pct, { numeric: '211' })).toMatchObject({ is_correct: false })
+  })
+
+  it('gives half marks for the right value with the wrong sig figs or unit', () => {
+    const q = numeric({ value: 0.02496, sig_figs: 3, unit: 'mol' })
+    expect(gradeAnswer(q, { numeric: '0.0250 mol' })).toMatchObject({ is_correct: true, score: 100 })
+    expect(gradeAnswer(q, { numeric: '0.025 mol' })).toMatchObject({ is_correct: false, score: 50 })
+    const noUnit = gradeAnswer(q, { numeric: '0.0250' })
+    expect(noUnit).toMatchObject({ is_correct: false, score: 50 })
+    expect(noUnit.ok && noUnit.feedback).toContain('include the unit')
+  })
+
+  it('compares units loosely', () => {
+    const q = numeric({ value: 3, unit: 'm s^-1' })
+    expect(gradeAnswer(q, { numeric: '3 m s⁻¹' })).toMatchObject({ is_correct: true })
+  })
+
+  it('asks for a number when the input does not parse', () => {
+    expect(gradeAnswer(numeric({ value: 1 }), { numeric: 'one' })).toEqual({ ok: false, error: 'Enter a number' })
+  })
+})
+
+describe('gradeAnswer — multi_select', () => {
+  const q: GradableQuestion = {
+    type: 'multi_select',
+    options: ['H2O', 'NaCl', 'CO2', 'Fe'],
+    correct_answer: { indices: [0, 2] },
+  }
+
+  it('gives partial credit and cancels credit for wrong picks', () => {
+    expect(gradeAnswer(q, { indices: [2, 0] })).toMatchObject({ is_correct: true, score: 100 })
+    expect(gradeAnswer(q, { indices: [0] })).toMatchObject({ is_correct: false, score: 50 })
+    expect(gradeAnswer(q, { indices: [0, 1] })).toMatchObject({ is_correct: false, score: 0 })
+  })
+
+  it('requires at least one pick', () => {
+    expect(gradeAnswer(q, { indices: [] })).toEqual({ ok: false, error: 'Pick at least one option' })
+  })
+})
+
+describe('gradeAnswer — ordering and matching', () => {
+  it('scores ordering by items in the right position', () => {
+    const q: GradableQuestion = { type: 'ordering', options: ['a', 'b', 'c', 'd'], correct_answer: { order: [0, 1, 2, 3] } }
+    expect(gradeAnswer(q, { order: [0, 1, 2, 3] })).toMatchObject({ is_correct: true, score: 100 })
+    expect(gradeAnswer(q, { order: [0, 1, 3, 2] })).toMatchObject({ is_correct: false, score: 50 })
+    expect(gradeAnswer(q, { order: [0, 0, 1, 2] }).ok).toBe(false)
+  })
+
+  it('scores matching pairs by text', () => {
+    const q: GradableQuestion = {
+      type: 'matching',
+      options: ['Na', 'Cl', 'Fe'],
+      correct_answer: { matches: ['sodium', 'chlorine', 'iron'] },
+      match_options: ['iron', 'sodium', 'chlorine'],
+    }
+    expect(gradeAnswer(q, { matches: [1, 2, 0] })).toMatchObject({ is_correct: true, score: 100 })
+    expect(gradeAnswer(q, { matches: [1, 0, 2] })).toMatchObject({ is_correct: false, score: 33 })
+    expect(gradeAnswer(q, { matches: [1, 2] })).toEqual({ ok: false, error: 'Match every item' })
+  })
+})
+
+describe('gradeAnswer — multi_part', () => {
+  const q: GradableQuestion = {
+    type: 'multi_part',
+    options: null,
+    correct_answer: {
+      parts: [
+        { type: 'numeric', prompt: 'Moles?', correct_answer: { value: 0.5, unit: 'mol' } },
+        { type: 'true_false', prompt: 'Limiting?', correct_answer: { value: true } },
+      ],
+    },
+  }
+
+  it('averages part scores and is correct only when every part is', () => {
+    const all = gradeAnswer(q, { parts: [{ numeric: '0.5 mol' }, { value: true }] })
+    expect(all).toMatchObject({ is_correct: true, score: 100 })
+
+    const half = gradeAnswer(q, { parts: [{ numeric: '0.5' }, { value: false }] })
+    expect(half).toMatchObject({ is_correct: false, score: 25 })
+    expect(half.ok && half.part_results?.map(p => p.is_correct)).toEqual([false, false])
+  })
+
+  it('reports which part is incomplete', () => {
+    expect(gradeAnswer(q, { parts: [{ numeric: '' }, { value: true }] })).toEqual({
+      ok: false,
+      error: 'Part (a): Enter a number',
+    })
+  })
+})
+
+describe('gradeAnswer — legacy types', () => {
+  it('keeps MC and T/F all-or-nothing with a null score', () => {
+    const mc: GradableQuestion = { type: 'multiple_choice', options: ['x', 'y'], correct_answer: { index: 1 } }
+    expect(gradeAnswer(mc, { index: 1 })).toEqual({ ok: true, is_correct: true, score: null, feedback: null })
+    expect(gradeAnswer(mc, {})).toEqual({ ok: false, error: 'Pick an option' })
+  })
+})
+
+describe('prepareForServing', () => {
+  it('scrambles ordering items and remaps the key', () => {
+    const q: GradableQuestion = { type: 'ordering', options: ['a', 'b', 'c'], correct_answer: { order: [0, 1, 2] } }
+    const served = prepareForServing(q, () => 0.99) // identity shuffle → rotated
+    expect(served.options).not.toEqual(['a', 'b', 'c'])
+    const order = served.correct_answer.order as number[]
+    expect(order.map(i => served.options![i])).toEqual(['a', 'b', 'c'])
+  })
+
+  it('adds a shuffled right-hand column for matching', () => {
+    const q: GradableQuestion = { type: 'matching', options: ['Na', 'Cl'], correct_answer: { matches: ['sodium', 'chlorine'] } }
+    expect([...prepareForServing(q).match_options!].sort()).toEqual(['chlorine', 'sodium'])
+  })
+})
+
+describe('describeAnswer / describeCorrectAnswer', () => {
+  it('labels numeric keys with unit, tolerance and sig figs', () => {
+    expect(describeCorrectAnswer(numeric({ value: 9.81, tolerance: 2, tolerance_mode: 'percent', unit: 'm/s²', sig_figs: 3 })))
+      .toBe('9.81 m/s² (± 2%), 3 s.f.')
+  })
+
+  it('labels matching answers as pairs', () => {
+    const q: GradableQuestion = {
+      type: 'matching',
+      options: ['Na', 'Cl'],
+      correct_answer: { matches: ['sodium', 'chlorine'] },
+      match_options: ['chlorine', 'sodium'],
+    }
+    expect(describeAnswer(q, { matches: [1, 0] })).toBe('Na → sodium; Cl → chlorine')
+  })
+})
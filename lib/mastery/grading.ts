@@ -0,0 +1,396 @@
+import type { NumericAnswer, PartType, QuestionType } from '@/lib/types/question-bank'
+
+// Deterministic grading for every question type except short answer (which
+// goes to the AI grader). Pure functions, no I/O — the answer route grades
+// against the frozen snapshot, and the teacher views use the describe*
+// helpers to label answers. Scores are 0-100, matching AI-graded short answers.
+
+/** A question as frozen into mastery_responses.question_snapshot. */
+export interface GradableQuestion {
+  type: QuestionType
+  options: string[] | null
+  correct_answer: Record<string, unknown>
+  /** Matching only: the right-hand column in the order the student saw it. */
+  match_options?: string[] | null
+}
+
+/** What the student submits; which field is set depends on the type. */
+export interface SubmittedAnswer {
+  index?: number
+  value?: boolean
+  text?: string
+  numeric?: string
+  indices?: number[]
+  order?: number[]
+  /** Matching: matches[i] is the match_options index paired with options[i]. */
+  matches?: number[]
+  parts?: SubmittedAnswer[]
+}
+
+export interface PartResult {
+  is_correct: boolean
+  score: number | null
+  feedback: string | null
+}
+
+export type GradeResult =
+  | ({ ok: true; part_results?: PartResult[] } & PartResult)
+  | { ok: false; error: string }
+
+// ---------- numbers ----------
+
+export interface ParsedNumber {
+  value: number
+  /** Significant figures shown. Integers with trailing zeros are ambiguous (2500 is 2-4). */
+  sigFigs: { min: number; max: number }
+  unit: string
+}
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '⁰': '0', '¹': '1', '²': '2', '³': '3', '⁴': '4', '⁵': '5', '⁶': '6', '⁷': '7', '⁸': '8', '⁹': '9', '⁻': '-',
+}
+
+const NUMBER_PATTERN =
+  /^([+-]?(?:\d+\.?\d*|\.\d+))(?:\s*[eE]\s*([+-]?\d+)|\s*[x×*]\s*10\s*\^?\s*([+-]?\d+))?\s*(.*)$/
+
+/** Significant figures in a plain decimal string such as "0.02500" or "2500". */
+export function countSigFigs(mantissa: string): { min: number; max: number } {
+  const digits = mantissa.replace(/^[+-]/, '')
+  if (digits.includes('.')) {
+    const significant = digits.replace('.', '').replace(/^0+/, '')
+    const count = significant.length || 1
+    return { min: count, max: count }
+  }
+  const trimmed = digits.replace(/^0+/, '')
+  if (!trimmed) return { min: 1, max: 1 }
+  const withoutTrailing = trimmed.replace(/0+$/, '')
+  return { min: withoutTrailing.length, max: trimmed.length }
+}
+
+/**
+ * Parse a typed number with an optional unit: "0.0250 mol", "-3.2e4",
+ * "6.02 × 10^23", "1,500 J". Returns null when no number leads the string.
+ */
+export function parseNumeric(input: string): ParsedNumber | null {
+  const normalised = input
+    .trim()
+    .replace(/[−–]/g, '-')
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]/g, c => SUPERSCRIPTS[c])
+    .replace(/(\d),(?=\d{3}(?!\d))/g, '$1')
+  const match = NUMBER_PATTERN.exec(normalised)
+  if (!match) return null
+
+  const [, mantissa, eExponent, tenExponent, unit] = match
+  // Let Number() apply the exponent so 6.02 × 10^23 parses exactly like 6.02e23
+  const value = Number(`${mantissa}e${eExponent ?? tenExponent ?? 0}`)
+  if (!Number.isFinite(value)) return null
+  return { value, sigFigs: countSigFigs(mantissa), unit: unit.trim() }
+}
+
+export function roundToSigFigs(value: number, sigFigs: number): number {
+  if (value === 0) return 0
+  return Number(value.toPrecision(sigFigs))
+}
+
+/** Units compare without spaces, case or superscripts: "m s^-1" = "m s⁻¹" = "M S-1". */
+export function normaliseUnit(unit: string): string {
+  return unit
+    .replace(/[⁰¹²³⁴⁵⁶⁷⁸⁹⁻]/g, c => SUPERSCRIPTS[c])
+    .replace(/[\s^]/g, '')
+    .replace(/[·⋅.]/g, '*')
+    .toLowerCase()
+}
+
+function withinTolerance(value: number, answer: NumericAnswer): boolean {
+  const expected = answer.value
+  const slack = answer.tolerance_mode === 'percent'
+    ? Math.abs(expected) * (answer.tolerance ?? 0) / 100
+    : answer.tolerance ?? 0
+  // Float noise guard so 0.1 + 0.2 style answers still match exactly
+  const epsilon = 1e-9 * Math.max(1, Math.abs(expected))
+  if (Math.abs(value - expected) <= slack + epsilon) return true
+  // A correctly rounded answer is right even when the key holds more digits
+  if (answer.sig_figs) {
+    const rounded = roundToSigFigs(expected, answer.sig_figs)
+    return Math.abs(value - rounded) <= epsilon
+  }
+  return false
+}
+
+/**
+ * Numeric: full marks for the right value (within tolerance) with the right
+ * sig figs and unit; half marks when the value is right but the sig figs or
+ * unit are off.
+ */
+function gradeNumeric(answer: NumericAnswer, submitted: SubmittedAnswer): GradeResult {
+  const raw = typeof submitted.numeric === 'string' ? submitted.numeric : ''
+  const parsed = raw.trim() ? parseNumeric(raw) : null
+  if (!parsed) return { ok: false, error: 'Enter a number' }
+
+  if (!withinTolerance(parsed.value, answer)) {
+    return { ok: true, is_correct: false, score: 0, feedback: null }
+  }
+
+  const problems: string[] = []
+  if (answer.sig_figs && (answer.sig_figs < parsed.sigFigs.min || answer.sig_figs > parsed.sigFigs.max)) {
+    problems.push(`give it to ${answer.sig_figs} significant figure${answer.sig_figs === 1 ? '' : 's'}`)
+  }
+  if (answer.unit?.trim() && normaliseUnit(parsed.unit) !== normaliseUnit(answer.unit)) {
+    problems.push(parsed.unit ? `check your units (expected ${answer.unit})` : `include the unit (${answer.unit})`)
+  }
+  if (problems.length === 0) return { ok: true, is_correct: true, score: 100, feedback: null }
+  return { ok: true, is_correct: false, score: 50, feedback: `Right value, but ${problems.join(' and ')}.` }
+}
+
+// ---------- lists ----------
+
+function isIndexArray(value: unknown, length: number): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.every(i => typeof i === 'number' && Number.isInteger(i) && i >= 0 && i < length)
+  )
+}
+
+function fractionScore(hits: number, total: number): number {
+  return total === 0 ? 0 : Math.round((Math.max(0, hits) / total) * 100)
+}
+
+/** Multi-select: each correct pick earns credit, each wrong pick cancels one. */
+function gradeMultiSelect(q: GradableQuestion, submitted: SubmittedAnswer): GradeResult {
+  const options = q.options ?? []
+  if (!isIndexArray(submitted.indices, options.length) || submitted.indices.length === 0) {
+    return { ok: false, error: 'Pick at least one option' }
+  }
+  const correct = new Set(q.correct_answer.indices as number[])
+  const picked = new Set(submitted.indices)
+  const hits = [...picked].filter(i => correct.has(i)).length
+  const falsePicks = picked.size - hits
+  const isCorrect = hits === correct.size && falsePicks === 0
+  return {
+    ok: true,
+    is_correct: isCorrect,
+    score: fractionScore(hits - falsePicks, correct.size),
+    feedback: isCorrect ? null : `You found ${hits} of ${correct.size} correct option${correct.size === 1 ? '' : 's'}${falsePicks > 0 ? ` and picked ${falsePicks} wrong` : ''}.`,
+  }
+}
+
+/** Ordering: credit for each item in its correct position. */
+function gradeOrdering(q: GradableQuestion, submitted: SubmittedAnswer): GradeResult {
+  const options = q.options ?? []
+  const order = submitted.order
+  if (!isIndexArray(order, options.length) || order.length !== options.length || new Set(order).size !== order.length) {
+    return { ok: false, error: 'Put every item in order' }
+  }
+  const expected = q.correct_answer.order as number[]
+  const hits = order.filter((item, position) => expected[position] === item).length
+  return {
+    ok: true,
+    is_correct: hits === expected.length,
+    score: fractionScore(hits, expected.length),
+    feedback: hits === expected.length ? null : `${hits} of ${expected.length} items in the right place.`,
+  }
+}
+
+/** Matching: credit for each correct pair. Pairs compare by text, so duplicate right-hand items are fine. */
+function gradeMatching(q: GradableQuestion, submitted: SubmittedAnswer): GradeResult {
+  const left = q.options ?? []
+  const right = q.match_options ?? []
+  const matches = submitted.matches
+  if (!isIndexArray(matches, right.length) || matches.length !== left.length) {
+    return { ok: false, error: 'Match every item' }
+  }
+  const expected = q.correct_answer.matches as string[]
+  const hits = matches.filter((m, i) => right[m] === expected[i]).length
+  return {
+    ok: true,
+    is_correct: hits === left.length,
+    score: fractionScore(hits, left.length),
+    feedback: hits === left.length ? null : `${hits} of ${left.length} pairs matched correctly.`,
+  }
+}
+
+// ---------- dispatch ----------
+
+export function partLabel(index: number): string {
+  return `(${String.fromCharCode(97 + index)})`
+}
+
+/** Multi-part: the mean of part scores; correct only when every part is. */
+function gradeMultiPart(q: GradableQuestion, submitted: SubmittedAnswer): GradeResult {
+  const parts = (q.correct_answer.parts ?? []) as Array<{
+    type: PartType
+    options?: string[] | null
+    correct_answer: Record<string, unknown>
+  }>
+  if (!Array.isArray(submitted.parts) || submitted.parts.length !== parts.length) {
+    return { ok: false, error: 'Answer every part' }
+  }
+
+  const results: PartResult[] = []
+  for (const [i, part] of parts.entries()) {
+    const graded = gradeAnswer(
+      { type: part.type, options: part.options ?? null, correct_answer: part.correct_answer },
+      submitted.parts[i] ?? {}
+    )
+    if (!graded.ok) return { ok: false, error: `Part ${partLabel(i)}: ${graded.error}` }
+    results.push({ is_correct: graded.is_correct, score: graded.score, feedback: graded.feedback })
+  }
+
+  const partScores = results.map(r => r.score ?? (r.is_correct ? 100 : 0))
+  const right = results.filter(r => r.is_correct).length
+  const notes = results
+    .map((r, i) => (r.feedback ? `${partLabel(i)} ${r.feedback}` : null))
+    .filter(Boolean)
+  return {
+    ok: true,
+    is_correct: right === parts.length,
+    score: Math.round(partScores.reduce((a, b) => a + b, 0) / parts.length),
+    feedback: right === parts.length ? null : [`${right} of ${parts.length} parts correct.`, ...notes].join(' '),
+    part_results: results,
+  }
+}
+
+/**
+ * Grade an answer against a snapshot. { ok: false } means the submission is
+ * incomplete (the student should fix it, nothing is recorded). MC and T/F
+ * stay all-or-nothing with a null score, exactly as before.
+ */
+export function gradeAnswer(q: GradableQuestion, submitted: SubmittedAnswer): GradeResult {
+  switch (q.type) {
+    case 'multiple_choice':
+      if (typeof submitted.index !== 'number') return { ok: false, error: 'Pick an option' }
+      return { ok: true, is_correct: submitted.index === q.correct_answer.index, score: null, feedback: null }
+    case 'true_false':
+      if (typeof submitted.value !== 'boolean') return { ok: false, error: 'Pick true or false' }
+      return { ok: true, is_correct: submitted.value === q.correct_answer.value, score: null, feedback: null }
+    case 'numeric':
+      return gradeNumeric(q.correct_answer as unknown as NumericAnswer, submitted)
+    case 'multi_select':
+      return gradeMultiSelect(q, submitted)
+    case 'ordering':
+      return gradeOrdering(q, submitted)
+    case 'matching':
+      return gradeMatching(q, submitted)
+    case 'multi_part':
+      return gradeMultiPart(q, submitted)
+    case 'short_answer':
+      return { ok: false, error: 'Short answers are graded by AI' }
+  }
+}
+
+// ---------- serving ----------
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+/**
+ * Shuffle what the student must arrange before the question is snapshotted:
+ * ordering items are served scrambled (with the answer key remapped), and
+ * matching gets a scrambled right-hand column. Other types pass through.
+ */
+export function prepareForServing<Q extends GradableQuestion>(
+  q: Q,
+  random: () => number = Math.random
+): Q & Pick<GradableQuestion, 'match_options'> {
+  if (q.type === 'ordering' && q.options) {
+    let perm = shuffle(q.options.map((_, i) => i), random)
+    // Never serve the list already solved
+    if (perm.every((orig, i) => orig === i) && perm.length > 1) perm = [...perm.slice(1), perm[0]]
+    const order = q.correct_answer.order as number[]
+    return {
+      ...q,
+      options: perm.map(i => q.options![i]),
+      correct_answer: { ...q.correct_answer, order: order.map(orig => perm.indexOf(orig)) },
+    }
+  }
+  if (q.type === 'matching') {
+    return { ...q, match_options: shuffle(q.correct_answer.matches as string[], random) }
+  }
+  return q
+}
+
+/** Multi-part parts without their answers, for the student payload. */
+export function studentParts(
+  q: Pick<GradableQuestion, 'type' | 'correct_answer'>
+): Array<{ type: PartType; prompt: string; options: string[] | null }> | null {
+  if (q.type !== 'multi_part') return null
+  const parts = (q.correct_answer.parts ?? []) as Array<{ type: PartType; prompt: string; options?: string[] | null }>
+  return parts.map(p => ({ type: p.type, prompt: p.prompt, options: p.options ?? null }))
+}
+
+// ---------- labels ----------
+
+function optionLabel(options: string[] | null | undefined, index: number): string {
+  return options?.[index] ?? `Option ${index + 1}`
+}
+
+/** Human-readable version of a student's answer, for teacher views. */
+export function describeAnswer(q: GradableQuestion, answer: SubmittedAnswer | null): string {
+  if (!answer) return '—'
+  switch (q.type) {
+    case 'multiple_choice':
+      return typeof answer.index === 'number' ? optionLabel(q.options, answer.index) : '—'
+    case 'true_false':
+      return typeof answer.value === 'boolean' ? (answer.value ? 'True' : 'False') : '—'
+    case 'short_answer':
+      return answer.text ?? '—'
+    case 'numeric':
+      return answer.numeric ?? '—'
+    case 'multi_select':
+      return answer.indices?.map(i => optionLabel(q.options, i)).join('; ') || '—'
+    case 'ordering':
+      return answer.order?.map(i => optionLabel(q.options, i)).join(' → ') || '—'
+    case 'matching':
+      return (q.options ?? [])
+        .map((left, i) => `${left} → ${q.match_options?.[answer.matches?.[i] ?? -1] ?? '?'}`)
+        .join('; ')
+    case 'multi_part': {
+      const parts = (q.correct_answer.parts ?? []) as Array<{ type: PartType; options?: string[] | null }>
+      return parts
+        .map((p, i) => `${partLabel(i)} ${describeAnswer(
+          { type: p.type, options: p.options ?? null, correct_answer: {} },
+          answer.parts?.[i] ?? null
+        )}`)
+        .join('  ')
+    }
+  }
+}
+
+/** Human-readable correct answer (the sample answer for short answers). */
+export function describeCorrectAnswer(q: Pick<GradableQuestion, 'type' | 'options' | 'correct_answer'>): string {
+  const key = q.correct_answer
+  switch (q.type) {
+    case 'multiple_choice':
+      return typeof key.index === 'number' ? optionLabel(q.options, key.index) : ''
+    case 'true_false':
+      return key.value ? 'True' : 'False'
+    case 'short_answer':
+      return String(key.sample_answer ?? '')
+    case 'numeric': {
+      const n = key as unknown as NumericAnswer
+      const tolerance = n.tolerance
+        ? ` (± ${n.tolerance}${n.tolerance_mode === 'percent' ? '%' : ''})`
+        : ''
+      const sigFigs = n.sig_figs ? `, ${n.sig_figs} s.f.` : ''
+      return `${n.value}${n.unit ? ` ${n.unit}` : ''}${tolerance}${sigFigs}`
+    }
+    case 'multi_select':
+      return ((key.indices ?? []) as number[]).map(i => optionLabel(q.options, i)).join('; ')
+    case 'ordering':
+      return ((key.order ?? []) as number[]).map(i => optionLabel(q.options, i)).join(' → ')
+    case 'matching':
+      return (q.options ?? []).map((left, i) => `${left} → ${(key.matches as string[])?.[i] ?? '?'}`).join('; ')
+    case 'multi_part': {
+      const parts = (key.parts ?? []) as Array<{ type: PartType; options?: string[] | null; correct_answer: Record<string, unknown> }>
+      return parts
+        .map((p, i) => `${partLabel(i)} ${describeCorrectAnswer({ type: p.type, options: p.options ?? null, correct_answer: p.correct_answer })}`)
+        .join('  ')
+    }
+  }
+}
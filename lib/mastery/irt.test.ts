@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  calibrate,
+  estimateAbility,
+  flagItem,
+  logitToLevel,
+  manualToLogit,
+  probabilityCorrect,
+  type IrtResponse,
+} from './irt'
+
+// Deterministic synthetic class: student i answers question q correctly when
+// their "skill" beats the question's "hardness" (with one designed exception).
+function simulate(
+  skills: number[],
+  hardness: Record<string, number>,
+  overrides: (student: number, question: string) => boolean | undefined = () => undefined
+): IrtResponse[] {
+  const out: IrtResponse[] = []
+  skills.forEach((skill, i) => {
+    for (const [question, hard] of Object.entries(hardness)) {
+      out.push({
+        question_id: question,
+        concept_id: 'c1',
+        student_id: `s${i}`,
+        is_correct: overrides(i, question) ?? skill > hard,
+      })
+    }
+  })
+  return out
+}
+
+const skills = Array.from({ length: 20 }, (_, i) => i / 19) // 0 … 1
+
+describe('probabilityCorrect', () => {
+  it('is 0.5 when ability equals difficulty', () => {
+    expect(probabilityCorrect(0.7, { difficulty: 0.7, discrimination: 1.4 })).toBeCloseTo(0.5)
+  })
+
+  it('increases with ability for a positively discriminating item', () => {
+    const item = { difficulty: 0, discrimination: 1 }
+    expect(probabilityCorrect(1, item)).toBeGreaterThan(probabilityCorrect(-1, item))
+  })
+})
+
+describe('manualToLogit / logitToLevel', () => {
+  it('maps manual ratings onto the logit scale and back', () => {
+    expect([1, 2, 3].map(manualToLogit)).toEqual([-1, 0, 1])
+    expect([1, 2, 3].map(d => logitToLevel(manualToLogit(d)))).toEqual([1, 2, 3])
+  })
+})
+
+describe('calibrate', () => {
+  it('orders question difficulty by how many students get it right', () => {
+    const { items } = calibrate(simulate(skills, { easy: 0.15, medium: 0.5, hard: 0.85 }))
+    const b = Object.fromEntries(items.map(i => [i.question_id, i.difficulty]))
+    expect(b.easy).toBeLessThan(b.medium)
+    expect(b.medium).toBeLessThan(b.hard)
+  })
+
+  it('gives stronger students higher ability', () => {
+    const { abilities } = calibrate(simulate(skills, { q1: 0.2, q2: 0.4, q3: 0.6, q4: 0.8 }))
+    const theta = Object.fromEntries(abilities.map(a => [a.student_id, a.theta]))
+    expect(theta.s19).toBeGreaterThan(theta.s10)
+    expect(theta.s10).toBeGreaterThan(theta.s0)
+    expect(abilities.every(a => a.concept_id === 'c1' && a.response_count === 4)).toBe(true)
+  })
+
+  it('fits negative discrimination when strong students miss an item', () => {
+    // "miskeyed" is answered correctly only by the weaker half
+    const responses = simulate(
+      skills,
+      { q1: 0.3, q2: 0.5, q3: 0.7, miskeyed: 0.5 },
+      (student, question) => (question === 'miskeyed' ? student < 10 : undefined)
+    )
+    const { items } = calibrate(responses)
+    const miskeyed = items.find(i => i.question_id === 'miskeyed')!
+    expect(miskeyed.discrimination).toBeLessThan(0)
+    expect(items.find(i => i.question_id === 'q2')!.discrimination).toBeGreaterThan(0.3)
+  })
+
+  it('omits thinly answered questions from the reported items', () => {
+    const responses = simulate(skills.slice(0, 5), { q1: 0.5 })
+    expect(calibrate(responses).items).toHaveLength(0)
+    expect(calibrate(responses, { minResponses: 5 }).items).toHaveLength(1)
+  })
+
+  it('shrinks thin-data difficulty toward the manual rating', () => {
+    const responses = simulate(skills.slice(0, 3), { q1: 0.5 })
+    const { items } = calibrate(responses, {
+      minResponses: 1,
+      manualDifficulty: new Map([['q1', 3]]),
+    })
+    expect(items[0].difficulty).toBeGreaterThan(0)
+  })
+})
+
+describe('estimateAbility', () => {
+  const item = { difficulty: 0, discrimination: 1 }
+
+  it('returns the prior with no answers', () => {
+    expect(estimateAbility([], 0.4)).toBe(0.4)
+  })
+
+  it('moves up on correct answers and down on misses', () => {
+    const up = estimateAbility([{ is_correct: true, item }, { is_correct: true, item }])
+    const down = estimateAbility([{ is_correct: false, item }, { is_correct: false, item }])
+    expect(up).toBeGreaterThan(0)
+    expect(down).toBeLessThan(0)
+  })
+})
+
+describe('flagItem', () => {
+  it('flags low discrimination before anything else', () => {
+    expect(flagItem({ difficulty: 0, discrimination: -0.4 }, 2)).toBe('low_discrimination')
+  })
+
+  it('flags a rating two bands off the fitted difficulty', () => {
+    expect(flagItem({ difficulty: 1.2, discrimination: 1 }, 1)).toBe('misrated')
+    expect(flagItem({ difficulty: 1.2, discrimination: 1 }, 2)).toBeNull()
+  })
+})
@@ -0,0 +1,222 @@
+// Item Response Theory (2PL) calibration for the question bank.
+//
+// Pure functions, no I/O — lib/mastery/calibration.ts loads mastery_responses,
+// calls calibrate(), and writes the fitted parameters back. Ability is
+// estimated per (student, concept): a student can be strong on mole
+// conversions and weak on stoichiometry, and questions belong to one concept.
+//
+// Fitting is joint MAP with Gaussian priors, one Newton step per parameter per
+// sweep. The priors do double duty: they anchor the logit scale (no separate
+// identification constraints needed) and keep thin-data questions close to
+// the teacher's manual 1–3 rating instead of flying off to ±∞.
+
+export interface IrtResponse {
+  question_id: string
+  concept_id: string
+  student_id: string
+  is_correct: boolean
+}
+
+export interface ItemParams {
+  difficulty: number // b, logits — higher is harder
+  discrimination: number // a — how sharply the item separates weak from strong
+}
+
+export interface CalibratedItem extends ItemParams {
+  question_id: string
+  concept_id: string
+  response_count: number
+}
+
+export interface AbilityEstimate {
+  student_id: string
+  concept_id: string
+  theta: number
+  response_count: number
+}
+
+export type ItemFlag = 'misrated' | 'low_discrimination'
+
+export interface CalibrateOptions {
+  /** Manual 1–3 rating per question, used as the difficulty prior mean. */
+  manualDifficulty?: Map<string, number>
+  /** Items with fewer responses are fitted (they inform abilities) but not reported. */
+  minResponses?: number
+  iterations?: number
+}
+
+export const MIN_CALIBRATION_RESPONSES = 8
+
+const THETA_PRIOR_SD = 1
+const DIFFICULTY_PRIOR_SD = 1.5
+const DISCRIMINATION_PRIOR_MEAN = 1
+const DISCRIMINATION_PRIOR_SD = 0.75
+const BOUND = 4
+
+function clamp(n: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, n))
+}
+
+function round(n: number, places = 3): number {
+  const f = 10 ** places
+  return Math.round(n * f) / f
+}
+
+/** Manual rating → prior difficulty on the logit scale: 1 → -1, 2 → 0, 3 → +1. */
+export function manualToLogit(difficulty: number): number {
+  return clamp(difficulty, 1, 3) - 2
+}
+
+/** Logit difficulty → the nearest manual 1–3 band, for side-by-side display. */
+export function logitToLevel(b: number): 1 | 2 | 3 {
+  if (b < -0.5) return 1
+  if (b > 0.5) return 3
+  return 2
+}
+
+/** P(correct) under the 2PL model. */
+export function probabilityCorrect(theta: number, item: ItemParams): number {
+  return 1 / (1 + Math.exp(-item.discrimination * (theta - item.difficulty)))
+}
+
+/**
+ * MAP ability from a set of answered items, shrunk toward `prior` (the
+ * student's stored estimate, or 0 for a first attempt). Used at serve time to
+ * track ability within an attempt between calibration runs.
+ */
+export function estimateAbility(
+  answers: Array<{ is_correct: boolean; item: ItemParams }>,
+  prior = 0,
+  iterations = 20
+): number {
+  let theta = prior
+  for (let i = 0; i < iterations; i++) {
+    let grad = -(theta - prior) / THETA_PRIOR_SD ** 2
+    let hess = -1 / THETA_PRIOR_SD ** 2
+    for (const { is_correct, item } of answers) {
+      const p = probabilityCorrect(theta, item)
+      grad += item.discrimination * ((is_correct ? 1 : 0) - p)
+      hess -= item.discrimination ** 2 * p * (1 - p)
+    }
+    const step = grad / hess
+    theta = clamp(theta - step, -BOUND, BOUND)
+    if (Math.abs(step) < 1e-6) break
+  }
+  return round(theta)
+}
+
+/**
+ * Fit per-question difficulty/discrimination and per-(student, concept)
+ * ability from answered responses.
+ */
+export function calibrate(
+  responses: IrtResponse[],
+  options: CalibrateOptions = {}
+): { items: CalibratedItem[]; abilities: AbilityEstimate[] } {
+  const minResponses = options.minResponses ?? MIN_CALIBRATION_RESPONSES
+  const iterations = options.iterations ?? 50
+  const abilityKey = (r: IrtResponse) => `${r.student_id}:${r.concept_id}`
+
+  const items = new Map<string, { concept_id: string; prior: number; b: number; a: number; rows: IrtResponse[] }>()
+  const thetas = new Map<string, { student_id: string; concept_id: string; theta: number; rows: IrtResponse[] }>()
+
+  for (const r of responses) {
+    let item = items.get(r.question_id)
+    if (!item) {
+      const manual = options.manualDifficulty?.get(r.question_id)
+      const prior = manual === undefined ? 0 : manualToLogit(manual)
+      item = { concept_id: r.concept_id, prior, b: prior, a: DISCRIMINATION_PRIOR_MEAN, rows: [] }
+      items.set(r.question_id, item)
+    }
+    item.rows.push(r)
+
+    const key = abilityKey(r)
+    let ability = thetas.get(key)
+    if (!ability) {
+      ability = { student_id: r.student_id, concept_id: r.concept_id, theta: 0, rows: [] }
+      thetas.set(key, ability)
+    }
+    ability.rows.push(r)
+  }
+
+  for (let iter = 0; iter < iterations; iter++) {
+    let maxStep = 0
+
+    // Abilities given current items
+    for (const ability of thetas.values()) {
+      let grad = -ability.theta / THETA_PRIOR_SD ** 2
+      let hess = -1 / THETA_PRIOR_SD ** 2
+      for (const r of ability.rows) {
+        const item = items.get(r.question_id)!
+        const p = probabilityCorrect(ability.theta, { difficulty: item.b, discrimination: item.a })
+        grad += item.a * ((r.is_correct ? 1 : 0) - p)
+        hess -= item.a ** 2 * p * (1 - p)
+      }
+      const step = grad / hess
+      ability.theta = clamp(ability.theta - step, -BOUND, BOUND)
+      maxStep = Math.max(maxStep, Math.abs(step))
+    }
+
+    // Items given current abilities: difficulty, then discrimination
+    for (const item of items.values()) {
+      let gradB = -(item.b - item.prior) / DIFFICULTY_PRIOR_SD ** 2
+      let hessB = -1 / DIFFICULTY_PRIOR_SD ** 2
+      for (const r of item.rows) {
+        const theta = thetas.get(abilityKey(r))!.theta
+        const p = probabilityCorrect(theta, { difficulty: item.b, discrimination: item.a })
+        gradB += -item.a * ((r.is_correct ? 1 : 0) - p)
+        hessB -= item.a ** 2 * p * (1 - p)
+      }
+      const stepB = gradB / hessB
+      item.b = clamp(item.b - stepB, -BOUND, BOUND)
+
+      let gradA = -(item.a - DISCRIMINATION_PRIOR_MEAN) / DISCRIMINATION_PRIOR_SD ** 2
+      let hessA = -1 / DISCRIMINATION_PRIOR_SD ** 2
+      for (const r of item.rows) {
+        const theta = thetas.get(abilityKey(r))!.theta
+        const p = probabilityCorrect(theta, { difficulty: item.b, discrimination: item.a })
+        gradA += (theta - item.b) * ((r.is_correct ? 1 : 0) - p)
+        hessA -= (theta - item.b) ** 2 * p * (1 - p)
+      }
+      const stepA = gradA / hessA
+      // Negative discrimination is allowed: it's the signal for a miskeyed item
+      item.a = clamp(item.a - stepA, -2, BOUND)
+      maxStep = Math.max(maxStep, Math.abs(stepB), Math.abs(stepA))
+    }
+
+    if (maxStep < 1e-4) break
+  }
+
+  const calibratedItems: CalibratedItem[] = []
+  for (const [questionId, item] of items) {
+    if (item.rows.length < minResponses) continue
+    calibratedItems.push({
+      question_id: questionId,
+      concept_id: item.concept_id,
+      difficulty: round(item.b),
+      discrimination: round(item.a),
+      response_count: item.rows.length,
+    })
+  }
+
+  const abilities: AbilityEstimate[] = [...thetas.values()].map(t => ({
+    student_id: t.student_id,
+    concept_id: t.concept_id,
+    theta: round(t.theta),
+    response_count: t.rows.length,
+  }))
+
+  return { items: calibratedItems, abilities }
+}
+
+/**
+ * Flag questions worth a teacher's second look:
+ * - low_discrimination: strong and weak students do about equally well (or
+ *   strong students do worse — usually a wrong answer key or a trick question).
+ * - misrated: the fitted difficulty sits two bands from the manual rating.
+ */
+export function flagItem(item: ItemParams, manualDifficulty: number): ItemFlag | null {
+  if (item.discrimination < 0.3) return 'low_discrimination'
+  if (Math.abs(logitToLevel(item.difficulty) - manualDifficulty) >= 2) return 'misrated'
+  return null
+}
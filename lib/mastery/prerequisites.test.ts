@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+import type { ConceptRollup } from './engine'
+import {
+  conceptLevels,
+  findCycle,
+  planRoundSlots,
+  unlockedConcepts,
+  type PrerequisiteEdge,
+} from './prerequisites'
+
+function rollup(concept_id: string, overrides: Partial<ConceptRollup> = {}): ConceptRollup {
+  return {
+    concept_id,
+    answered_count: 0,
+    correct_count: 0,
+    recent_results: [],
+    recent_difficulties: [],
+    current_streak: 0,
+    p_known: null,
+    short_answer_correct: 0,
+    status: 'in_progress',
+    ...overrides,
+  }
+}
+
+const edge = (concept_id: string, prerequisite_id: string): PrerequisiteEdge => ({ concept_id, prerequisite_id })
+
+// stoich needs moles; moles needs units
+const chain = [edge('stoich', 'moles'), edge('moles', 'units')]
+
+describe('findCycle', () => {
+  it('returns null for an acyclic graph', () => {
+    expect(findCycle(chain)).toBeNull()
+    expect(findCycle([...chain, edge('stoich', 'units')])).toBeNull()
+  })
+
+  it('returns the loop as a closed path', () => {
+    const cycle = findCycle([...chain, edge('units', 'stoich')])
+    expect(cycle).not.toBeNull()
+    expect(cycle![0]).toBe(cycle![cycle!.length - 1])
+    expect(new Set(cycle)).toEqual(new Set(['stoich', 'moles', 'units']))
+  })
+
+  it('treats a self-edge as a cycle', () => {
+    expect(findCycle([edge('a', 'a')])).toEqual(['a', 'a'])
+  })
+})
+
+describe('conceptLevels', () => {
+  it('places each concept one column past its deepest prerequisite', () => {
+    const levels = conceptLevels(['stoich', 'moles', 'units', 'loose'], [...chain, edge('stoich', 'units')])
+    expect(Object.fromEntries(levels)).toEqual({ units: 0, moles: 1, stoich: 2, loose: 0 })
+  })
+
+  it('ignores edges to concepts outside the set', () => {
+    expect(conceptLevels(['stoich'], chain).get('stoich')).toBe(0)
+  })
+})
+
+describe('unlockedConcepts', () => {
+  it('locks a concept until its prerequisites are resolved', () => {
+    const rollups = [rollup('stoich'), rollup('moles'), rollup('units')]
+    expect(unlockedConcepts(rollups, chain).map(r => r.concept_id)).toEqual(['units'])
+  })
+
+  it('unlocks dependents of mastered and capped prerequisites', () => {
+    const rollups = [
+      rollup('stoich'),
+      rollup('moles', { status: 'max_reached' }),
+      rollup('units', { status: 'mastered' }),
+    ]
+    expect(unlockedConcepts(rollups, chain).map(r => r.concept_id)).toEqual(['stoich'])
+  })
+
+  it('does not gate on prerequisites outside the assignment', () => {
+    expect(unlockedConcepts([rollup('stoich')], chain).map(r => r.concept_id)).toEqual(['stoich'])
+  })
+
+  it('releases everything rather than deadlocking on a cycle', () => {
+    const rollups = [rollup('a'), rollup('b')]
+    expect(unlockedConcepts(rollups, [edge('a', 'b'), edge('b', 'a')])).toHaveLength(2)
+  })
+})
+
+describe('planRoundSlots', () => {
+  it('only allocates to unlocked concepts', () => {
+    const slots = planRoundSlots([rollup('stoich'), rollup('moles'), rollup('units')], chain, 5)
+    expect([...slots]).toEqual([['units', 5]])
+  })
+
+  it('sends a struggling student back to a mastered prerequisite for one slot', () => {
+    const rollups = [
+      rollup('stoich', { answered_count: 4, recent_results: [false, false, true, false] }),
+      rollup('moles', { status: 'mastered' }),
+    ]
+    const slots = planRoundSlots(rollups, [edge('stoich', 'moles')], 5)
+    expect(slots.get('stoich')).toBe(4)
+    expect(slots.get('moles')).toBe(1)
+  })
+
+  it('reviews the weakest prerequisite when there are several', () => {
+    const rollups = [
+      rollup('stoich', { answered_count: 2, recent_results: [false, false] }),
+      rollup('moles', { status: 'mastered', recent_results: [true, true, true] }),
+      rollup('units', { status: 'mastered', recent_results: [false, true, true] }),
+    ]
+    const slots = planRoundSlots(rollups, [edge('stoich', 'moles'), edge('stoich', 'units')], 5)
+    expect(slots.get('units')).toBe(1)
+    expect(slots.has('moles')).toBe(false)
+  })
+
+  it('never gives away a concept\'s only slot', () => {
+    const rollups = [
+      rollup('stoich', { answered_count: 2, recent_results: [false, false] }),
+      rollup('moles', { status: 'mastered' }),
+    ]
+    expect([...planRoundSlots(rollups, [edge('stoich', 'moles')], 1)]).toEqual([['stoich', 1]])
+  })
+
+  it('leaves a student who is doing fine on the concept itself', () => {
+    const rollups = [
+      rollup('stoich', { answered_count: 2, recent_results: [true, false] }),
+      rollup('moles', { status: 'mastered' }),
+    ]
+    expect([...planRoundSlots(rollups, [edge('stoich', 'moles')], 5)]).toEqual([['stoich', 5]])
+  })
+})
@@ -0,0 +1,133 @@
+import { allocateRoundSlots, windowAccuracy, type ConceptRollup } from '@/lib/mastery/engine'
+
+// Concept prerequisite graph. Pure functions, no I/O — the concepts API
+// validates edits with findCycle(), and buildRound() uses planRoundSlots() in
+// place of the engine's flat allocation. Edges point from a concept to a
+// concept it depends on: { concept_id: stoichiometry, prerequisite_id: moles }.
+
+export interface PrerequisiteEdge {
+  concept_id: string
+  prerequisite_id: string
+}
+
+/** concept_id -> its direct prerequisites. */
+export function prerequisiteMap(edges: PrerequisiteEdge[]): Map<string, string[]> {
+  const map = new Map<string, string[]>()
+  for (const edge of edges) {
+    const list = map.get(edge.concept_id) ?? []
+    list.push(edge.prerequisite_id)
+    map.set(edge.concept_id, list)
+  }
+  return map
+}
+
+/**
+ * A cycle in the graph as a closed path ([a, b, a] for a needs b needs a),
+ * or null when the graph is acyclic. Self-edges count as cycles.
+ */
+export function findCycle(edges: PrerequisiteEdge[]): string[] | null {
+  const prereqs = prerequisiteMap(edges)
+  const state = new Map<string, 'visiting' | 'done'>()
+  const path: string[] = []
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null
+    if (state.get(id) === 'visiting') return [...path.slice(path.indexOf(id)), id]
+    state.set(id, 'visiting')
+    path.push(id)
+    for (const next of prereqs.get(id) ?? []) {
+      const cycle = visit(next)
+      if (cycle) return cycle
+    }
+    path.pop()
+    state.set(id, 'done')
+    return null
+  }
+
+  for (const id of prereqs.keys()) {
+    const cycle = visit(id)
+    if (cycle) return cycle
+  }
+  return null
+}
+
+/**
+ * Depth of each concept in the graph: 0 for concepts with no prerequisites,
+ * otherwise one more than its deepest prerequisite. Used to lay the graph out
+ * in columns. Assumes an acyclic graph (edges in a cycle are ignored).
+ */
+export function conceptLevels(conceptIds: string[], edges: PrerequisiteEdge[]): Map<string, number> {
+  const known = new Set(conceptIds)
+  const prereqs = prerequisiteMap(edges.filter(e => known.has(e.concept_id) && known.has(e.prerequisite_id)))
+  const levels = new Map<string, number>()
+  const visiting = new Set<string>()
+
+  const level = (id: string): number => {
+    const cached = levels.get(id)
+    if (cached !== undefined) return cached
+    if (visiting.has(id)) return 0
+    visiting.add(id)
+    const deps = prereqs.get(id) ?? []
+    const value = deps.length === 0 ? 0 : Math.max(...deps.map(level)) + 1
+    visiting.delete(id)
+    levels.set(id, value)
+    return value
+  }
+
+  for (const id of conceptIds) level(id)
+  return levels
+}
+
+/**
+ * In-progress concepts a student may work on now: every prerequisite that is
+ * part of this attempt has been resolved. Mastered unlocks, and so does
+ * max_reached — the question cap already stopped that concept, and holding its
+ * dependents forever would leave the attempt unfinishable. Prerequisites
+ * outside the assignment don't gate. If the graph somehow locks everything
+ * (a cycle slipped through), all in-progress concepts are released.
+ */
+export function unlockedConcepts(rollups: ConceptRollup[], edges: PrerequisiteEdge[]): ConceptRollup[] {
+  const byConcept = new Map(rollups.map(r => [r.concept_id, r]))
+  const prereqs = prerequisiteMap(edges)
+  const inProgress = rollups.filter(r => r.status === 'in_progress')
+  const unlocked = inProgress.filter(r =>
+    (prereqs.get(r.concept_id) ?? []).every(id => {
+      const prereq = byConcept.get(id)
+      return !prereq || prereq.status !== 'in_progress'
+    })
+  )
+  return unlocked.length > 0 ? unlocked : inProgress
+}
+
+/**
+ * Slot allocation with the prerequisite graph: allocate across unlocked
+ * concepts only, then give a struggling concept (window accuracy < 0.5) one
+ * review slot from its weakest mastered prerequisite. The review slot is only
+ * taken when the concept has two or more slots, so it always keeps getting
+ * its own questions and can still progress.
+ */
+export function planRoundSlots(
+  rollups: ConceptRollup[],
+  edges: PrerequisiteEdge[],
+  questionsPerRound: number
+): Map<string, number> {
+  const slots = allocateRoundSlots(unlockedConcepts(rollups, edges), questionsPerRound)
+  const byConcept = new Map(rollups.map(r => [r.concept_id, r]))
+  const prereqs = prerequisiteMap(edges)
+
+  for (const [conceptId, count] of [...slots]) {
+    const rollup = byConcept.get(conceptId)!
+    const struggling = rollup.answered_count > 0 && windowAccuracy(rollup) < 0.5
+    if (!struggling || count < 2) continue
+
+    const review = (prereqs.get(conceptId) ?? [])
+      .map(id => byConcept.get(id))
+      .filter((r): r is ConceptRollup => !!r && r.status === 'mastered')
+      .sort((a, b) => windowAccuracy(a) - windowAccuracy(b))[0]
+    if (!review) continue
+
+    slots.set(conceptId, count - 1)
+    slots.set(review.concept_id, (slots.get(review.concept_id) ?? 0) + 1)
+  }
+  return slots
+}
@@ -1,12 +1,14 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import {
-  allocateRoundSlots,
   selectConceptQuestions,
   type CandidateQuestion,
   type ConceptRollup,
   type MasteryConfig,
 } from '@/lib/mastery/engine'
-import type { QuestionType } from '@/lib/types/question-bank'
+import { estimateAbility, manualToLogit, type ItemParams } from '@/lib/mastery/irt'
+import { planRoundSlots, type PrerequisiteEdge } from '@/lib/mastery/prerequisites'
+import { prepareForServing, studentParts } from '@/lib/mastery/grading'
+import type { PartType, QuestionType } from '@/lib/types/question-bank'
 
 // Server-side helpers for the mastery loop. All functions take the admin
 // client — routes are responsible for auth + enrollment checks before calling.
@@ -23,6 +25,8 @@ export interface MasteryContext {
   }
   config: MasteryConfig
   concepts: Array<{ id: string; name: string; description: string | null; unit: string | null }>
+  /** Prerequisite edges between this assignment's concepts. */
+  prerequisites: PrerequisiteEdge[]
 }
 
 export interface AttemptRow {
@@ -44,11 +48,44 @@ export interface ServedQuestion {
   type: QuestionType
   question_text: string
   options: string[] | null
+  /** Matching: the shuffled right-hand column. */
+  match_options?: string[]
+  /** Multi-part: each part's prompt and options, answers stripped. */
+  parts?: Array<{ type: PartType; prompt: string; options: string[] | null }>
+}
+
+type QuestionSnapshot = {
+  type: QuestionType
+  question_text: string
+  options: string[] | null
+  correct_answer: Record<string, unknown>
+  match_options?: string[]
+}
+
+function toServedQuestion(row: {
+  id: string
+  concept_id: string
+  round_number: number
+  question_snapshot: unknown
+}): ServedQuestion {
+  const snapshot = row.question_snapshot as QuestionSnapshot
+  const parts = studentParts(snapshot)
+  return {
+    response_id: row.id,
+    concept_id: row.concept_id,
+    round_number: row.round_number,
+    type: snapshot.type,
+    question_text: snapshot.question_text,
+    options: snapshot.options ?? null,
+    ...(snapshot.match_options ? { match_options: snapshot.match_options } : {}),
+    ...(parts ? { parts } : {}),
+  }
 }
 
 /**
- * Load assignment + mastery config + concept list. Returns null when the
- * assignment doesn't exist or isn't a mastery quiz.
+ * Load assignment + mastery config + concept list + prerequisite edges among
+ * those concepts. Returns null when the assignment doesn't exist or isn't a
+ * mastery quiz.
  */
 export async function loadMasteryContext(
   supabase: SupabaseClient,
@@ -79,10 +116,20 @@ export async function loadMasteryContext(
     .map(link => link.concepts as unknown as ConceptMeta | null)
     .filter((c): c is ConceptMeta => !!c)
 
+  const conceptIds = concepts.map(c => c.id)
+  const { data: edges } = await supabase
+    .from('concept_prerequisites')
+    .select('concept_id, prerequisite_id')
+    .in('concept_id', conceptIds)
+    .in('prerequisite_id', conceptIds)
+
   return {
     assignment,
     config: {
+      mastery_rule: config.mastery_rule,
       mastery_threshold: Number(config.mastery_threshold),
+      streak_length: config.streak_length,
+      bkt_threshold: Number(config.bkt_threshold),
       window_size: config.window_size,
       min_questions: config.min_questions,
       max_questions_per_concept: config.max_questions_per_concept,
@@ -91,6 +138,7 @@ export async function loadMasteryContext(
       allow_ai_fallback: config.allow_ai_fallback,
     },
     concepts,
+    prerequisites: (edges ?? []) as PrerequisiteEdge[],
   }
 }
 
@@ -127,9 +175,13 @@ export async function getRollups(
 ): Promise<ConceptRollup[]> {
   const { data } = await supabase
     .from('mastery_attempt_concepts')
-    .select('concept_id, answered_count, correct_count, recent_results, status')
+    .select('concept_id, answered_count, correct_count, recent_results, recent_difficulties, current_streak, p_known, short_answer_correct, status')
     .eq('attempt_id', attemptId)
-  return (data ?? []) as ConceptRollup[]
+  // NUMERIC comes back as a string
+  return (data ?? []).map(row => ({
+    ...row,
+    p_known: row.p_known === null ? null : Number(row.p_known),
+  })) as ConceptRollup[]
 }
 
 /** Unanswered served rows = the resumable current round, stripped for the student. */
@@ -144,21 +196,7 @@ export async function getUnansweredQuestions(
     .is('answer', null)
     .order('served_at', { ascending: true })
 
-  return (data ?? []).map(row => {
-    const snapshot = row.question_snapshot as {
-      type: QuestionType
-      question_text: string
-      options: string[] | null
-    }
-    return {
-      response_id: row.id,
-      concept_id: row.concept_id,
-      round_number: row.round_number,
-      type: snapshot.type,
-      question_text: snapshot.question_text,
-      options: snapshot.options ?? null,
-    }
-  })
+  return (data ?? []).map(toServedQuestion)
 }
 
 // Runaway-cost guard: at most this many AI-generated questions per concept per attempt
@@ -170,10 +208,13 @@ type BankQuestion = {
   type: QuestionType
   difficulty: number
   times_served: number
+  irt_difficulty: number | null
+  irt_discrimination: number | null
   question_text: string
   options: string[] | null
   correct_answer: Record<string, unknown>
   explanation: string | null
+  version: number
 }
 
 /**
@@ -237,7 +278,7 @@ async function generateRuntimeQuestions(
           status: 'suggested',
         }))
       )
-      .select('id, concept_id, type, difficulty, times_served, question_text, options, correct_answer, explanation')
+      .select('id, concept_id, type, difficulty, times_served, irt_difficulty, irt_discrimination, question_text, options, correct_answer, explanation, version')
     if (error || !inserted) return []
     return inserted as BankQuestion[]
   } catch (err) {
@@ -246,41 +287,82 @@ async function generateRuntimeQuestions(
   }
 }
 
+function itemParams(q: Pick<BankQuestion, 'difficulty' | 'irt_difficulty' | 'irt_discrimination'>): ItemParams {
+  if (q.irt_difficulty !== null && q.irt_discrimination !== null) {
+    return { difficulty: Number(q.irt_difficulty), discrimination: Number(q.irt_discrimination) }
+  }
+  return { difficulty: manualToLogit(q.difficulty), discrimination: 1 }
+}
+
 /**
- * Build the next round: allocate slots across in-progress concepts, pick bank
+ * Current ability per concept: the last calibration's estimate as the prior,
+ * updated with this attempt's answers. Concepts with no calibrated questions
+ * and no stored estimate get no entry — the engine then falls back to its
+ * accuracy heuristic, exactly as before calibration existed.
+ */
+function currentAbilities(
+  bank: BankQuestion[],
+  answered: Array<{ question_id: string; concept_id: string; is_correct: boolean | null }>,
+  stored: Array<{ concept_id: string; theta: number }>
+): Map<string, number> {
+  const priors = new Map(stored.map(s => [s.concept_id, Number(s.theta)]))
+  const bankById = new Map(bank.map(q => [q.id, q]))
+  const calibratedConcepts = new Set(bank.filter(q => q.irt_difficulty !== null).map(q => q.concept_id))
+
+  const abilities = new Map<string, number>()
+  for (const conceptId of new Set([...calibratedConcepts, ...priors.keys()])) {
+    const answers = answered
+      .filter(r => r.concept_id === conceptId && r.is_correct !== null && bankById.has(r.question_id))
+      .map(r => ({ is_correct: r.is_correct === true, item: itemParams(bankById.get(r.question_id)!) }))
+    abilities.set(conceptId, estimateAbility(answers, priors.get(conceptId) ?? 0))
+  }
+  return abilities
+}
+
+/**
+ * Build the next round: allocate slots across unlocked in-progress concepts
+ * (prerequisites resolved; struggling concepts lend a slot to a mastered
+ * prerequisite for review — see planRoundSlots), pick bank
  * questions (unseen first; when the bank is exhausted, generate fresh AI
  * questions if allowed, else re-serve least-served), snapshot them into
- * mastery_responses, and bump times_served.
+ * mastery_responses, and bump times_served. Within a concept, questions are
+ * matched to the student's current IRT ability when the bank is calibrated.
  * Returns the served questions (empty when no concept is in progress).
  */
 export async function buildRound(
   supabase: SupabaseClient,
-  attempt: Pick<AttemptRow, 'id' | 'assignment_id' | 'class_id'>,
+  attempt: Pick<AttemptRow, 'id' | 'assignment_id' | 'class_id' | 'student_id'>,
   context: MasteryContext,
   rollups: ConceptRollup[],
   roundNumber: number
 ): Promise<ServedQuestion[]> {
   const config = context.config
-  const slots = allocateRoundSlots(rollups, config.questions_per_round)
+  const slots = planRoundSlots(rollups, context.prerequisites, config.questions_per_round)
   if (slots.size === 0) return []
 
   const conceptIds = [...slots.keys()]
 
-  const [{ data: bankRows }, { data: servedRows }] = await Promise.all([
+  const [{ data: bankRows }, { data: servedRows }, { data: abilityRows }] = await Promise.all([
     supabase
       .from('question_bank_questions')
-      .select('id, concept_id, type, difficulty, times_served, question_text, options, correct_answer, explanation')
+      .select('id, concept_id, type, difficulty, times_served, irt_difficulty, irt_discrimination, question_text, options, correct_answer, explanation, version')
       .in('concept_id', conceptIds)
       .eq('status', 'approved')
       .in('type', config.allowed_types),
     supabase
       .from('mastery_responses')
-      .select('question_id')
+      .select('question_id, concept_id, is_correct')
       .eq('attempt_id', attempt.id),
+    supabase
+      .from('student_concept_abilities')
+      .select('concept_id, theta')
+      .eq('student_id', attempt.student_id)
+      .in('concept_id', conceptIds),
   ])
 
   const servedIds = new Set((servedRows ?? []).map(r => r.question_id))
   const bank = (bankRows ?? []) as BankQuestion[]
+  const abilities = currentAbilities(bank, servedRows ?? [], abilityRows ?? [])
   const conceptMeta = new Map(context.concepts.map(c => [c.id, c]))
 
   const rollupByConcept = new Map(rollups.map(r => [r.concept_id, r]))
@@ -315,7 +397,12 @@ export async function buildRound(
       if (pool.length === 0) pool = shuffled // last resort: re-serve
     }
 
-    const picked = selectConceptQuestions(pool as CandidateQuestion[], count, rollup)
+    const picked = selectConceptQuestions(
+      pool as CandidateQuestion[],
+      count,
+      rollup,
+      abilities.get(conceptId) ?? null
+    )
     const poolById = new Map(pool.map(q => [q.id, q]))
     for (const p of picked) {
       toServe.push(poolById.get(p.id)!)
@@ -324,20 +411,28 @@ export async function buildRound(
 
   if (toServe.length === 0) return []
 
-  const responseRows = toServe.map(q => ({
-    attempt_id: attempt.id,
-    question_id: q.id,
-    concept_id: q.concept_id,
-    round_number: roundNumber,
-    question_snapshot: {
-      type: q.type,
-      question_text: q.question_text,
-      options: q.options,
-      correct_answer: q.correct_answer,
-      explanation: q.explanation,
-      difficulty: q.difficulty,
-    },
-  }))
+  // Ordering/matching are shuffled per serve; the snapshot freezes what this
+  // student saw so grading matches it
+  const responseRows = toServe.map(q => {
+    const served = prepareForServing(q)
+    return {
+      attempt_id: attempt.id,
+      question_id: q.id,
+      concept_id: q.concept_id,
+      round_number: roundNumber,
+      question_snapshot: {
+        type: q.type,
+        question_text: q.question_text,
+        options: served.options,
+        correct_answer: served.correct_answer,
+        ...(served.match_options ? { match_options: served.match_options } : {}),
+        explanation: q.explanation,
+        difficulty: q.difficulty,
+        // Which edit of the question this was, so analytics can split by version
+        version: q.version,
+      },
+    }
+  })
 
   const { data: inserted, error } = await supabase
     .from('mastery_responses')
@@ -357,19 +452,5 @@ export async function buildRound(
     )
   )
 
-  return inserted.map(row => {
-    const snapshot = row.question_snapshot as {
-      type: QuestionType
-      question_text: string
-      options: string[] | null
-    }
-    return {
-      response_id: row.id,
-      concept_id: row.concept_id,
-      round_number: row.round_number,
-      type: snapshot.type,
-      question_text: snapshot.question_text,
-      options: snapshot.options ?? null,
-    }
-  })
+  return inserted.map(toServedQuestion)
 }
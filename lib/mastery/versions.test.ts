@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { buildVersionHistory, diffVersions, sameContent, type QuestionContent, type ReviewEvent } from './versions'
+
+const v1: QuestionContent = {
+  type: 'multiple_choice',
+  question_text: 'Which gas do plants absorb?',
+  options: ['Oxygen', 'Carbon dioxide', 'Helium'],
+  correct_answer: { index: 1 },
+  explanation: null,
+  difficulty: 2,
+}
+const v2: QuestionContent = { ...v1, options: ['Oxygen', 'Carbon dioxide', 'Nitrogen'] }
+const v3: QuestionContent = { ...v2, question_text: 'Which gas do plants take in?', difficulty: 1 }
+
+function event(
+  action: ReviewEvent['action'],
+  before: QuestionContent,
+  after: QuestionContent,
+  created_at: string,
+  version: number | null
+): ReviewEvent {
+  return { id: created_at, action, before_snapshot: before, after_snapshot: after, version, created_at }
+}
+
+describe('buildVersionHistory', () => {
+  it('treats an unedited question as version 1', () => {
+    const versions = buildVersionHistory([], { ...v1, version: 1, created_at: '2026-01-01' })
+    expect(versions).toEqual([{ version: 1, content: v1, action: 'created', created_at: '2026-01-01' }])
+  })
+
+  it('builds versions from content-changing events only', () => {
+    const events = [
+      event('restore', v2, v1, '2026-01-04', 4),
+      event('approve', v1, v1, '2026-01-01T12', 1),
+      event('edit', v1, v2, '2026-01-02', 2),
+      event('edit', v2, v2, '2026-01-02T12', 2), // no-op edit from before versioning
+      event('edit', v2, v3, '2026-01-03', 3),
+    ]
+    const versions = buildVersionHistory(events, { ...v1, version: 4, created_at: '2026-01-01' })
+    expect(versions.map((v) => [v.version, v.action, v.restored_from])).toEqual([
+      [1, 'created', undefined],
+      [2, 'edit', undefined],
+      [3, 'edit', undefined],
+      [4, 'restore', 1],
+    ])
+    expect(versions[2].content).toEqual(v3)
+  })
+
+  it('adds the live content when it drifted from the last event', () => {
+    const versions = buildVersionHistory([], { ...v2, version: 1, created_at: '2026-01-01' })
+    expect(versions).toHaveLength(1)
+    const drifted = buildVersionHistory([event('edit', v1, v2, '2026-01-02', 2)], {
+      ...v3,
+      version: 2,
+      created_at: '2026-01-01',
+    })
+    expect(drifted.map((v) => v.version)).toEqual([1, 2, 3])
+    expect(drifted[2].content).toEqual(v3)
+  })
+})
+
+describe('sameContent', () => {
+  it('ignores JSON key order', () => {
+    const a = { ...v1, correct_answer: { value: 1, tolerance: 2 } }
+    const b = { ...v1, correct_answer: { tolerance: 2, value: 1 } }
+    expect(sameContent(a, b)).toBe(true)
+    expect(sameContent(a, { ...b, explanation: 'x' })).toBe(false)
+  })
+})
+
+describe('diffVersions', () => {
+  it('lists changed fields and option rows', () => {
+    expect(diffVersions(v1, v2)).toEqual({
+      fields: [],
+      options: [
+        { label: 'A', before: 'Oxygen', after: 'Oxygen' },
+        { label: 'B', before: 'Carbon dioxide', after: 'Carbon dioxide' },
+        { label: 'C', before: 'Helium', after: 'Nitrogen' },
+      ],
+    })
+    expect(diffVersions(v2, v3)).toEqual({
+      fields: [
+        { label: 'Question', before: 'Which gas do plants absorb?', after: 'Which gas do plants take in?' },
+        { label: 'Difficulty', before: 'Medium', after: 'Easy' },
+      ],
+      options: null,
+    })
+  })
+
+  it('describes answer changes in words', () => {
+    const diff = diffVersions(v1, { ...v1, correct_answer: { index: 0 } })
+    expect(diff.fields).toEqual([{ label: 'Correct answer', before: 'Carbon dioxide', after: 'Oxygen' }])
+  })
+})
@@ -0,0 +1,185 @@
+// Question version history, rebuilt from question_review_events.
+//
+// Every content edit (and every restore) bumps question_bank_questions.version
+// and records an event whose after_snapshot is the new version's content.
+// Version 1 is the before_snapshot of the first content-changing event — or
+// the live row, if the question was never edited. Pure functions; the route
+// does the I/O.
+
+import { describeCorrectAnswer, partLabel } from '@/lib/mastery/grading'
+import type { QuestionRecord, QuestionType } from '@/lib/types/question-bank'
+
+/** The fields a version captures (content, not counters or status). */
+export interface QuestionContent {
+  type: QuestionType
+  question_text: string
+  options: string[] | null
+  correct_answer: Record<string, unknown>
+  explanation: string | null
+  difficulty: number
+}
+
+export const CONTENT_FIELDS = ['question_text', 'options', 'correct_answer', 'explanation', 'difficulty'] as const
+
+export type ReviewAction = 'approve' | 'edit' | 'decline' | 'restore'
+
+export interface ReviewEvent {
+  id: string
+  action: ReviewAction
+  before_snapshot: (QuestionContent & { status?: string; version?: number }) | null
+  after_snapshot: (QuestionContent & { status?: string; version?: number }) | null
+  version: number | null
+  created_at: string
+}
+
+export interface QuestionVersion {
+  version: number
+  content: QuestionContent
+  // How this version came about: 'created' for version 1
+  action: 'created' | 'edit' | 'restore'
+  created_at: string | null
+  // Restores only: the version that was brought back
+  restored_from?: number
+}
+
+/** Snapshot stored on review events: content plus review status and version. */
+export function contentSnapshot(q: Pick<QuestionRecord, 'type' | 'question_text' | 'options' | 'correct_answer' | 'explanation' | 'difficulty' | 'status' | 'version'>) {
+  return {
+    type: q.type,
+    question_text: q.question_text,
+    options: q.options,
+    correct_answer: q.correct_answer as Record<string, unknown>,
+    explanation: q.explanation,
+    difficulty: q.difficulty,
+    status: q.status,
+    version: q.version,
+  }
+}
+
+// Stable key order so equal JSONB values compare equal
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .map(k => `${JSON.stringify(k)}:${canonical((value as Record<string, unknown>)[k])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+export function sameContent(a: QuestionContent, b: QuestionContent): boolean {
+  return a.type === b.type && CONTENT_FIELDS.every(f => canonical(a[f]) === canonical(b[f]))
+}
+
+function pickContent(s: QuestionContent): QuestionContent {
+  return {
+    type: s.type,
+    question_text: s.question_text,
+    options: s.options ?? null,
+    correct_answer: s.correct_answer,
+    explanation: s.explanation ?? null,
+    difficulty: s.difficulty,
+  }
+}
+
+/**
+ * Versions oldest-first. Approve/decline events don't change content and are
+ * skipped; so are edit events that left the content as it was (older rows
+ * were logged for any PATCH that touched a content field).
+ */
+export function buildVersionHistory(
+  events: ReviewEvent[],
+  current: QuestionContent & { version: number; created_at: string }
+): QuestionVersion[] {
+  const changes = [...events]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .filter(e => (e.action === 'edit' || e.action === 'restore') && e.before_snapshot && e.after_snapshot)
+    .filter(e => !sameContent(e.before_snapshot!, e.after_snapshot!))
+
+  const first = changes[0]?.before_snapshot
+  const versions: QuestionVersion[] = [
+    { version: 1, content: pickContent(first ?? current), action: 'created', created_at: current.created_at },
+  ]
+
+  for (const e of changes) {
+    const content = pickContent(e.after_snapshot!)
+    const version = e.version ?? versions.length + 1
+    const restoredFrom =
+      e.action === 'restore' ? versions.find(v => sameContent(v.content, content))?.version : undefined
+    versions.push({
+      version,
+      content,
+      action: e.action === 'restore' ? 'restore' : 'edit',
+      created_at: e.created_at,
+      ...(restoredFrom ? { restored_from: restoredFrom } : {}),
+    })
+  }
+
+  // Edits made outside the PATCH route (or lost events) still show as the live content
+  const latest = versions[versions.length - 1]
+  if (!sameContent(latest.content, current)) {
+    versions.push({ version: Math.max(current.version, latest.version + 1), content: pickContent(current), action: 'edit', created_at: null })
+  }
+  return versions
+}
+
+export interface FieldChange {
+  label: string
+  before: string
+  after: string
+}
+
+export interface OptionChange {
+  label: string
+  before: string | null // null: option added
+  after: string | null // null: option removed
+}
+
+export interface VersionDiff {
+  fields: FieldChange[]
+  // Row-by-row; only for types with options, and only when something changed
+  options: OptionChange[] | null
+}
+
+const DIFFICULTY_LABELS: Record<number, string> = { 1: 'Easy', 2: 'Medium', 3: 'Hard' }
+
+function describeParts(content: QuestionContent): string {
+  const parts = (content.correct_answer.parts ?? []) as Array<{ prompt: string }>
+  return parts.map((p, i) => `${partLabel(i)} ${p.prompt}`).join('\n')
+}
+
+/** What changed between two versions, as display strings. */
+export function diffVersions(before: QuestionContent, after: QuestionContent): VersionDiff {
+  const fields: FieldChange[] = []
+  const add = (label: string, a: string, b: string) => {
+    if (a !== b) fields.push({ label, before: a, after: b })
+  }
+
+  add('Type', before.type, after.type)
+  add('Question', before.question_text, after.question_text)
+  if (before.type === 'multi_part' || after.type === 'multi_part') {
+    add('Parts', describeParts(before), describeParts(after))
+  }
+  add('Correct answer', describeCorrectAnswer(before), describeCorrectAnswer(after))
+  add(
+    'Grading notes',
+    String(before.correct_answer.rubric_notes ?? ''),
+    String(after.correct_answer.rubric_notes ?? '')
+  )
+  add('Explanation', before.explanation ?? '', after.explanation ?? '')
+  add('Difficulty', DIFFICULTY_LABELS[before.difficulty] ?? String(before.difficulty), DIFFICULTY_LABELS[after.difficulty] ?? String(after.difficulty))
+
+  const a = before.options ?? []
+  const b = after.options ?? []
+  let options: OptionChange[] | null = null
+  if (canonical(a) !== canonical(b)) {
+    options = Array.from({ length: Math.max(a.length, b.length) }, (_, i) => ({
+      label: String.fromCharCode(65 + i),
+      before: a[i] ?? null,
+      after: b[i] ?? null,
+    }))
+  }
+
+  return { fields, options }
+}
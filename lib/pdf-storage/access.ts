@@ -0,0 +1,115 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { renderGradingReportPdf } from '@/lib/pdf/documents'
+import type { PdfStorage } from '@/lib/pdf-storage/storage'
+import type { GradeBreakdownItem } from '@/lib/grading/structured-output'
+
+// Stored PDFs belong to a grading_results row (grading_results.pdf_key). The
+// teacher who ran the grading owns it; for an assignment submission the
+// student who submitted can download it too, once the teacher has released it.
+
+const RESULT_COLUMNS = 'id, user_id, pdf_key, grade_breakdown, total_marks, total_possible_marks, grade, student_exam_filename'
+
+interface StoredGradingResult {
+  id: string
+  user_id: string | null
+  pdf_key: string
+  grade_breakdown: GradeBreakdownItem[] | null
+  total_marks: number | null
+  total_possible_marks: number | null
+  grade: string | null
+  student_exam_filename: string | null
+}
+
+export type PdfAccess = 'allowed' | 'forbidden' | 'not_found'
+
+export async function checkPdfAccess(supabase: SupabaseClient, key: string, userId: string): Promise<PdfAccess> {
+  const { data: result } = await supabase
+    .from('grading_results')
+    .select('id, user_id')
+    .eq('pdf_key', key)
+    .maybeSingle()
+  if (!result) return 'not_found'
+  if (result.user_id === userId) return 'allowed'
+
+  const { data: submission } = await supabase
+    .from('assignment_submissions')
+    .select('id')
+    .eq('grading_result_id', result.id)
+    .eq('student_id', userId)
+    .eq('status', 'graded')
+    .maybeSingle()
+  return submission ? 'allowed' : 'forbidden'
+}
+
+async function regenerate(storage: PdfStorage, result: StoredGradingResult): Promise<Buffer | null> {
+  const breakdown = result.grade_breakdown ?? []
+  if (breakdown.length === 0 || result.total_marks == null || result.total_possible_marks == null) return null
+
+  const pdf = await renderGradingReportPdf({
+    totalMarks: Number(result.total_marks),
+    totalPossibleMarks: Number(result.total_possible_marks),
+    grade: result.grade ?? '',
+    gradeBreakdown: breakdown,
+    studentExamName: result.student_exam_filename ?? 'exam',
+  })
+  await storage.put(result.pdf_key, pdf)
+  return pdf
+}
+
+/**
+ * The stored PDF, rebuilt from its grading_results row when the object is
+ * missing (PDFs made before persistent storage only lived in memory).
+ * null when there's no such result or nothing to rebuild it from.
+ */
+export async function loadOrRegeneratePdf(
+  supabase: SupabaseClient,
+  storage: PdfStorage,
+  key: string
+): Promise<Buffer | null> {
+  const stored = await storage.get(key)
+  if (stored) return stored
+
+  const { data: result } = await supabase
+    .from('grading_results')
+    .select(RESULT_COLUMNS)
+    .eq('pdf_key', key)
+    .maybeSingle()
+  if (!result) return null
+  return regenerate(storage, result as StoredGradingResult)
+}
+
+/**
+ * Rebuild every grading PDF missing from storage. Walks grading_results in
+ * pages; one failed render is logged and skipped, not fatal.
+ */
+export async function regenerateMissingPdfs(
+  supabase: SupabaseClient,
+  storage: PdfStorage,
+  { pageSize = 50 }: { pageSize?: number } = {}
+): Promise<{ checked: number; regenerated: number; failed: number }> {
+  const counts = { checked: 0, regenerated: 0, failed: 0 }
+  for (let from = 0; ; from += pageSize) {
+    const { data: page, error } = await supabase
+      .from('grading_results')
+      .select(RESULT_COLUMNS)
+      .not('pdf_key', 'is', null)
+      .order('created_at', { ascending: true })
+      .range(from, from + pageSize - 1)
+    if (error) throw new Error(`Failed to load grading results: ${error.message}`)
+    if (!page || page.length === 0) break
+
+    for (const result of page as StoredGradingResult[]) {
+      counts.checked++
+      if (await storage.get(result.pdf_key)) continue
+      try {
+        if (await regenerate(storage, result)) counts.regenerated++
+        else counts.failed++
+      } catch (err) {
+        console.error(`Failed to regenerate PDF ${result.pdf_key}:`, err)
+        counts.failed++
+      }
+    }
+    if (page.length < pageSize) break
+  }
+  return counts
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { isValidPdfKey, pdfKeyFromFilename, signPdfUrl, verifyPdfSignature } from './signed-url'
+
+const SECRET = 'test-secret'
+const NOW = Date.UTC(2026, 0, 1)
+
+function parse(url: string) {
+  const params = new URL(url, 'http://localhost').searchParams
+  return { expires: params.get('expires'), sig: params.get('sig') }
+}
+
+describe('pdfKeyFromFilename', () => {
+  it('accepts plain PDF names only', () => {
+    expect(pdfKeyFromFilename('graded_1700000000000_abc123.pdf')).toBe('graded_1700000000000_abc123')
+    expect(pdfKeyFromFilename('graded_1.txt')).toBeNull()
+    expect(pdfKeyFromFilename('../secret.pdf')).toBeNull()
+    expect(pdfKeyFromFilename('a/b.pdf')).toBeNull()
+    expect(pdfKeyFromFilename('.pdf')).toBeNull()
+    expect(isValidPdfKey('x'.repeat(129))).toBe(false)
+  })
+})
+
+describe('signed PDF URLs', () => {
+  it('verifies until the link expires', () => {
+    const { url, expiresAt } = signPdfUrl('graded_1', SECRET, 60, NOW)
+    expect(url.startsWith('/api/pdf/graded_1.pdf?')).toBe(true)
+    expect(expiresAt).toBe(new Date(NOW + 60_000).toISOString())
+
+    const { expires, sig } = parse(url)
+    expect(verifyPdfSignature('graded_1', expires, sig, SECRET, NOW)).toBe(true)
+    expect(verifyPdfSignature('graded_1', expires, sig, SECRET, NOW + 60_000)).toBe(false)
+  })
+
+  it('rejects another key, secret, expiry or a tampered signature', () => {
+    const { expires, sig } = parse(signPdfUrl('graded_1', SECRET, 60, NOW).url)
+    expect(verifyPdfSignature('graded_2', expires, sig, SECRET, NOW)).toBe(false)
+    expect(verifyPdfSignature('graded_1', expires, sig, 'other-secret', NOW)).toBe(false)
+    expect(verifyPdfSignature('graded_1', String(Number(expires) + 3600), sig, SECRET, NOW)).toBe(false)
+    expect(verifyPdfSignature('graded_1', expires, `${sig}x`, SECRET, NOW)).toBe(false)
+    expect(verifyPdfSignature('graded_1', null, null, SECRET, NOW)).toBe(false)
+  })
+})
@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+
+// Download links for stored PDFs are /api/pdf/<key>.pdf. Signed in, the
+// owning teacher or student can open that path directly; a signed link
+// (?expires=…&sig=…) works without a session until it expires, for emails
+// and opening in a new tab on another device.
+
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 60 * 60
+
+const PDF_KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}$/
+
+/** Keys become object names on disk and in the bucket, so they stay plain. */
+export function isValidPdfKey(key: string): boolean {
+  return PDF_KEY_PATTERN.test(key)
+}
+
+/** "graded_123_abc.pdf" → "graded_123_abc"; null for anything that isn't a plain PDF name. */
+export function pdfKeyFromFilename(filename: string): string | null {
+  if (!filename.endsWith('.pdf')) return null
+  const key = filename.slice(0, -'.pdf'.length)
+  return isValidPdfKey(key) ? key : null
+}
+
+/** The unsigned path stored in grading_results.pdf_url. */
+export function pdfPath(key: string): string {
+  return `/api/pdf/${key}.pdf`
+}
+
+function signature(key: string, expires: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${key}:${expires}`).digest('base64url')
+}
+
+export function signPdfUrl(
+  key: string,
+  secret: string,
+  ttlSeconds = DEFAULT_SIGNED_URL_TTL_SECONDS,
+  now = Date.now()
+): { url: string; expiresAt: string } {
+  const expires = Math.floor(now / 1000) + ttlSeconds
+  const params = new URLSearchParams({ expires: String(expires), sig: signature(key, expires, secret) })
+  return { url: `${pdfPath(key)}?${params}`, expiresAt: new Date(expires * 1000).toISOString() }
+}
+
+/** True when sig is this key's signature for expires and expires hasn't passed. */
+export function verifyPdfSignature(
+  key: string,
+  expires: string | null,
+  sig: string | null,
+  secret: string,
+  now = Date.now()
+): boolean {
+  if (!expires || !sig || !/^\d+$/.test(expires)) return false
+  const expiresAt = Number(expires)
+  if (expiresAt * 1000 <= now) return false
+  const expected = Buffer.from(signature(key, expiresAt, secret))
+  const given = Buffer.from(sig)
+  return expected.length === given.length && timingSafeEqual(expected, given)
+}
+
+/** PDF_URL_SECRET, falling back to the service-role key so existing deployments need no new config. */
+export function pdfUrlSecret(): string {
+  const secret = process.env.PDF_URL_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!secret) throw new Error('Missing PDF_URL_SECRET')
+  return secret
+}
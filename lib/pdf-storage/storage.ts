@@ -0,0 +1,93 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase-server'
+import { isValidPdfKey } from '@/lib/pdf-storage/signed-url'
+
+/**
+ * Where generated PDFs live. Keys are plain names ("graded_…"); access
+ * control and URL signing happen in the /api/pdf route, not here.
+ */
+export interface PdfStorage {
+  put(key: string, pdf: Buffer): Promise<void>
+  /** null when nothing is stored under the key */
+  get(key: string): Promise<Buffer | null>
+}
+
+function assertKey(key: string) {
+  if (!isValidPdfKey(key)) throw new Error(`Invalid PDF key: ${key}`)
+}
+
+/** Files on local disk — for development and single-server deployments. */
+export class LocalPdfStorage implements PdfStorage {
+  constructor(private readonly dir: string) {}
+
+  async put(key: string, pdf: Buffer): Promise<void> {
+    assertKey(key)
+    await fs.mkdir(this.dir, { recursive: true })
+    // Write then rename so a reader never sees a half-written file
+    const target = path.join(this.dir, `${key}.pdf`)
+    const tmp = `${target}.${process.pid}.tmp`
+    await fs.writeFile(tmp, pdf)
+    await fs.rename(tmp, target)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    assertKey(key)
+    try {
+      return await fs.readFile(path.join(this.dir, `${key}.pdf`))
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw err
+    }
+  }
+}
+
+/**
+ * A private Supabase Storage bucket (S3-compatible). Uses the service-role
+ * client; the bucket itself is never exposed to browsers.
+ */
+export class SupabasePdfStorage implements PdfStorage {
+  constructor(
+    private readonly supabase: SupabaseClient,
+    private readonly bucket: string
+  ) {}
+
+  async put(key: string, pdf: Buffer): Promise<void> {
+    assertKey(key)
+    const { error } = await this.supabase.storage
+      .from(this.bucket)
+      .upload(`${key}.pdf`, pdf, { contentType: 'application/pdf', upsert: true })
+    if (error) throw new Error(`Failed to store PDF ${key}: ${error.message}`)
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    assertKey(key)
+    const { data, error } = await this.supabase.storage.from(this.bucket).download(`${key}.pdf`)
+    if (error) {
+      const status = 'status' in error ? (error as { status?: number }).status : undefined
+      if (status === 404 || status === 400 || /not found/i.test(error.message)) return null
+      throw new Error(`Failed to read PDF ${key}: ${error.message}`)
+    }
+    return Buffer.from(await data.arrayBuffer())
+  }
+}
+
+const DEFAULT_BUCKET = 'pdfs'
+const DEFAULT_LOCAL_DIR = path.join(process.cwd(), '.data', 'pdfs')
+
+let storage: PdfStorage | null = null
+
+/**
+ * The configured backend. PDF_STORAGE=local keeps files under PDF_STORAGE_DIR
+ * (default .data/pdfs); anything else uses the PDF_STORAGE_BUCKET bucket
+ * (default "pdfs") in Supabase Storage.
+ */
+export function getPdfStorage(): PdfStorage {
+  if (!storage) {
+    storage = process.env.PDF_STORAGE === 'local'
+      ? new LocalPdfStorage(process.env.PDF_STORAGE_DIR || DEFAULT_LOCAL_DIR)
+      : new SupabasePdfStorage(createAdminClient(), process.env.PDF_STORAGE_BUCKET || DEFAULT_BUCKET)
+  }
+  return storage
+}
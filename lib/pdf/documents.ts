@@ -0,0 +1,28 @@
+import type { StudyGuideResponse } from '@/types'
+import { getPdfRenderer } from '@/lib/pdf/renderer'
+import { StudyGuideTemplate } from '@/lib/pdf/study-guide-template'
+import { renderGradingReportHtml, type GradingReportInput } from '@/lib/pdf/grading-report-template'
+import { renderSeparatorSheetsHtml, type SeparatorSheetsInput } from '@/lib/pdf/separator-sheets-template'
+
+// Every PDF the app makes: build the HTML from a template, print it with the
+// configured renderer.
+
+async function renderPdf(html: string): Promise<Buffer> {
+  const pdf = await getPdfRenderer().render(html)
+  if (!Buffer.isBuffer(pdf) || pdf.length === 0) {
+    throw new Error('Failed to generate valid PDF buffer')
+  }
+  return pdf
+}
+
+export function renderStudyGuidePdf(studyGuide: StudyGuideResponse): Promise<Buffer> {
+  return renderPdf(StudyGuideTemplate.render(studyGuide))
+}
+
+export function renderGradingReportPdf(input: GradingReportInput): Promise<Buffer> {
+  return renderPdf(renderGradingReportHtml(input))
+}
+
+export function renderSeparatorSheetsPdf(input: SeparatorSheetsInput): Promise<Buffer> {
+  return renderPdf(renderSeparatorSheetsHtml(input))
+}
@@ -0,0 +1,35 @@
+// The shell every PDF template fills in, so study guides and grading reports
+// go through the same document setup before a PdfRenderer prints them.
+
+export interface HtmlDocumentParts {
+  title: string
+  styles: string
+  body: string
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function htmlDocument({ title, styles, body }: HtmlDocumentParts): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>
+${styles}
+@page { size: A4; }
+body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>`
+}
@@ -0,0 +1,135 @@
+import type { Browser } from 'puppeteer'
+
+/**
+ * Turns a finished HTML document into PDF bytes. Templates (lib/pdf/*-template)
+ * build the HTML; which engine prints it is a deployment choice.
+ */
+export interface PdfRenderer {
+  render(html: string): Promise<Buffer>
+}
+
+const PAGE_FORMAT = 'A4'
+const PAGE_MARGIN = '0.5in'
+const RENDER_TIMEOUT_MS = 120_000
+
+/**
+ * Headless Chromium on this server — the default. Student work never leaves
+ * the machine: every request the page makes other than inline data is
+ * blocked, so a stray <img src="https://…"> can't leak it either.
+ */
+export class ChromiumPdfRenderer implements PdfRenderer {
+  private browser: Promise<Browser> | null = null
+
+  constructor(private readonly executablePath?: string) {}
+
+  private async getBrowser(): Promise<Browser> {
+    if (!this.browser) {
+      const launching = import('puppeteer').then(({ default: puppeteer }) =>
+        puppeteer.launch({
+          headless: true,
+          executablePath: this.executablePath,
+          args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+        })
+      )
+      this.browser = launching
+      // Relaunch on the next render if Chromium dies or fails to start
+      launching
+        .then(b => b.on('disconnected', () => { if (this.browser === launching) this.browser = null }))
+        .catch(() => { if (this.browser === launching) this.browser = null })
+    }
+    return this.browser
+  }
+
+  async render(html: string): Promise<Buffer> {
+    const browser = await this.getBrowser()
+    const page = await browser.newPage()
+    try {
+      await page.setJavaScriptEnabled(false)
+      await page.setRequestInterception(true)
+      page.on('request', req => {
+        const url = req.url()
+        if (url.startsWith('data:') || url === 'about:blank') req.continue()
+        else req.abort()
+      })
+      await page.setContent(html, { waitUntil: 'load', timeout: RENDER_TIMEOUT_MS })
+      const pdf = await page.pdf({
+        format: PAGE_FORMAT,
+        printBackground: true,
+        margin: { top: PAGE_MARGIN, right: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN },
+        timeout: RENDER_TIMEOUT_MS,
+      })
+      return Buffer.from(pdf)
+    } finally {
+      await page.close().catch(() => {})
+    }
+  }
+}
+
+/**
+ * The hosted PDFShift API. Optional: it sends the document, student work
+ * included, to a third party, so it's only used when PDF_RENDERER=pdfshift.
+ */
+export class PdfShiftRenderer implements PdfRenderer {
+  private static readonly API_URL = 'https://api.pdfshift.io/v3/convert/pdf'
+
+  constructor(private readonly apiKey: string) {}
+
+  async render(html: string): Promise<Buffer> {
+    // Add timeout to prevent hanging - generous timeout for resource loading
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), RENDER_TIMEOUT_MS)
+
+    try {
+      const response = await fetch(PdfShiftRenderer.API_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Basic ${Buffer.from(`api:${this.apiKey}`).toString('base64')}`
+        },
+        body: JSON.stringify({
+          source: html,
+          sandbox: false,
+          landscape: false,
+          format: PAGE_FORMAT,
+          margin: PAGE_MARGIN
+        }),
+        signal: controller.signal
+      })
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('PDFShift API error response:', errorText)
+        throw new Error(`PDFShift API error: ${response.status} - ${errorText}`)
+      }
+      return Buffer.from(await response.arrayBuffer())
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        throw new Error(`PDF generation timed out after ${RENDER_TIMEOUT_MS / 1000} seconds`)
+      }
+      throw error
+    } finally {
+      clearTimeout(timeoutId)
+    }
+  }
+}
+
+let renderer: PdfRenderer | null = null
+
+/**
+ * The configured renderer: local Chromium unless PDF_RENDERER=pdfshift.
+ * CHROMIUM_PATH points at a system Chromium instead of Puppeteer's download.
+ */
+export function getPdfRenderer(): PdfRenderer {
+  if (!renderer) {
+    if (process.env.PDF_RENDERER === 'pdfshift') {
+      const apiKey = process.env.PDFSHIFT_API_KEY
+      if (!apiKey) {
+        throw new Error('PDFSHIFT_API_KEY environment variable is required when PDF_RENDERER=pdfshift')
+      }
+      renderer = new PdfShiftRenderer(apiKey)
+    } else {
+      renderer = new ChromiumPdfRenderer(process.env.CHROMIUM_PATH || undefined)
+    }
+  }
+  return renderer
+}
@@ -0,0 +1,36 @@
+import { escapeHtml, htmlDocument } from '@/lib/pdf/html-document'
+
+export interface SeparatorSheetsInput {
+  className: string
+  examTitle?: string
+  students: Array<{ name: string; code: string }>
+}
+
+/**
+ * HTML for batch-grading separator sheets: one page per student, name and
+ * code in large type, to go on top of that student's paper before scanning.
+ */
+export function renderSeparatorSheetsHtml(input: SeparatorSheetsInput): string {
+  const pages = input.students.map(s => `<section class="sheet">
+  <div class="label">Separator sheet — place on top of this student's paper</div>
+  <div class="name">${escapeHtml(s.name)}</div>
+  <div class="code-label">Student code</div>
+  <div class="code">${escapeHtml(s.code)}</div>
+  <div class="meta">${escapeHtml(input.className)}${input.examTitle ? ` · ${escapeHtml(input.examTitle)}` : ''}</div>
+</section>`).join('\n')
+
+  return htmlDocument({
+    title: `Separator sheets - ${input.className}`,
+    styles: `* { margin: 0; padding: 0; box-sizing: border-box; }
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Arial, sans-serif; color: #111827; }
+.sheet { height: 240mm; display: flex; flex-direction: column; align-items: center; justify-content: center; gap: 16px; page-break-after: always; border: 12px solid #111827; }
+.sheet:last-child { page-break-after: auto; }
+.label { font-size: 14px; color: #6b7280; text-transform: uppercase; letter-spacing: 1px; }
+.name { font-size: 56px; font-weight: 800; text-align: center; padding: 0 48px; }
+.code-label { font-size: 14px; color: #6b7280; margin-top: 24px; }
+.code { font-family: 'Courier New', monospace; font-size: 64px; font-weight: 700; letter-spacing: 8px; border: 3px solid #111827; padding: 8px 24px; }
+.meta { font-size: 16px; color: #374151; margin-top: 24px; }
+`,
+    body: pages,
+  })
+}
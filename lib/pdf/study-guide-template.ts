@@ -1,61 +1,9 @@
-import { StudyGuideResponse } from '../types'
+import { StudyGuideResponse } from '@/types'
+import { htmlDocument } from '@/lib/pdf/html-document'
 
-export class PDFShiftPDFGenerator {
-  private static readonly API_KEY = process.env.PDFSHIFT_API_KEY
-  private static readonly API_URL = 'https://api.pdfshift.io/v3/convert/pdf'
-
-  static async generatePDF(studyGuide: StudyGuideResponse): Promise<Buffer> {
-    try {
-      console.log('Generating PDF with PDFShift for format:', studyGuide.format)
-      
-      if (!this.API_KEY) {
-        throw new Error('PDFSHIFT_API_KEY environment variable is required. Please add your PDFShift API key to .env.local')
-      }
-
-      const html = this.generateHTML(studyGuide)
-      console.log('HTML generated, length:', html.length)
-      
-      // Add timeout to prevent hanging - generous timeout for resource loading
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), 120000) // 120 second (2 minute) timeout
-      
-      const response = await fetch(this.API_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Basic ${Buffer.from(`api:${this.API_KEY}`).toString('base64')}`
-        },
-        body: JSON.stringify({
-          source: html,
-          sandbox: false,
-          landscape: false,
-          format: 'A4',
-          margin: '0.5in'
-        }),
-        signal: controller.signal
-      })
-
-      clearTimeout(timeoutId)
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        console.error('PDFShift API error response:', errorText)
-        throw new Error(`PDFShift API error: ${response.status} - ${errorText}`)
-      }
-
-      const pdfBuffer = await response.arrayBuffer()
-      console.log('PDF generated successfully, size:', pdfBuffer.byteLength)
-      return Buffer.from(pdfBuffer)
-    } catch (error) {
-      console.error('PDFShift PDF generation error:', error)
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('PDF generation timed out after 120 seconds')
-      }
-      throw new Error(`Failed to generate PDF: ${error instanceof Error ? error.message : "Unknown error"}`)
-    }
-  }
-
-  private static generateHTML(studyGuide: StudyGuideResponse): string {
+/** HTML for a study guide PDF, laid out per format; printed by a PdfRenderer. */
+export class StudyGuideTemplate {
+  static render(studyGuide: StudyGuideResponse): string {
     const formatNames: Record<string, string> = {
       outline: "Structured Study Outline",
       flashcards: "Interactive Flashcards", 
@@ -70,26 +18,16 @@ export class PDFShiftPDFGenerator {
       day: 'numeric'
     })
 
-    return `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${formatName} - ${studyGuide.subject}</title>
-    <style>
-        ${this.getBaseCSS()}
-        ${this.getFormatCSS(studyGuide.format)}
-    </style>
-</head>
-<body>
+    return htmlDocument({
+      title: `${formatName} - ${studyGuide.subject}`,
+      styles: this.getBaseCSS() + this.getFormatCSS(studyGuide.format),
+      body: `
     <div class="document">
         ${this.generateHeader(studyGuide, formatName, currentDate)}
         ${this.generateContent(studyGuide)}
         ${this.generateFooter()}
-    </div>
-</body>
-</html>`
+    </div>`,
+    })
   }
 
   private static getBaseCSS(): string {
@@ -0,0 +1,266 @@
+import { randomBytes } from 'crypto'
+import { createAdminClient } from './supabase-server'
+import { resolveTaxonomy, scoreSubmission } from './practice-test-scoring'
+import { AnswerChange, DEADLINE_GRACE_MS, applyChanges, isPastDeadline } from './practice-test-timing'
+import { AttemptSession, PracticeTestAttemptRecord, SubmittedResult } from './types/practice-test'
+
+export const ATTEMPT_COLUMNS =
+  'id, practice_test_id, student_name, resume_token, responses, started_at, deadline_at, last_saved_at, submitted_at, auto_submitted, student_id'
+
+export function newResumeToken(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+export function toSession(attempt: PracticeTestAttemptRecord, serverNow: Date): AttemptSession {
+  return {
+    resumeToken: attempt.resume_token,
+    studentName: attempt.student_name,
+    startedAt: attempt.started_at,
+    deadlineAt: attempt.deadline_at,
+    serverNow: serverNow.toISOString(),
+    responses: attempt.responses ?? {},
+  }
+}
+
+/** The attempt behind a resume token, checked against the test's share token. */
+export async function findAttempt(shareToken: string, resumeToken: string): Promise<PracticeTestAttemptRecord | null> {
+  if (!shareToken || !resumeToken) return null
+  const supabase = createAdminClient()
+  const { data: test } = await supabase
+    .from('practice_tests')
+    .select('id')
+    .eq('share_token', shareToken)
+    .maybeSingle()
+  if (!test) return null
+
+  const { data: attempt } = await supabase
+    .from('practice_test_attempts')
+    .select(ATTEMPT_COLUMNS)
+    .eq('resume_token', resumeToken)
+    .eq('practice_test_id', test.id)
+    .maybeSingle()
+  return attempt ?? null
+}
+
+/**
+ * The signed-in student taking a class-linked test, or null when they aren't
+ * actively enrolled in the test's class. Their name comes from their profile
+ * rather than whatever they might type.
+ */
+export async function findEnrolledStudent(
+  userId: string,
+  classId: string
+): Promise<{ studentId: string; studentName: string } | null> {
+  const supabase = createAdminClient()
+  const { data: enrollment } = await supabase
+    .from('class_enrollments')
+    .select('student_id')
+    .eq('class_id', classId)
+    .eq('student_id', userId)
+    .eq('status', 'active')
+    .maybeSingle()
+  if (!enrollment) return null
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('first_name, last_name, email')
+    .eq('id', userId)
+    .maybeSingle()
+  const studentName =
+    [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || profile?.email || 'Student'
+  return { studentId: userId, studentName }
+}
+
+/** A class-linked student's unsubmitted attempt, so they can pick it up on another device. */
+export async function findOpenAttemptForStudent(
+  testId: string,
+  studentId: string
+): Promise<PracticeTestAttemptRecord | null> {
+  const supabase = createAdminClient()
+  const { data: attempt } = await supabase
+    .from('practice_test_attempts')
+    .select(ATTEMPT_COLUMNS)
+    .eq('practice_test_id', testId)
+    .eq('student_id', studentId)
+    .is('submitted_at', null)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return attempt ?? null
+}
+
+// Two saves racing (the autosave timer and a beacon as the tab closes) each
+// retry on a fresh read rather than writing over the other's answers
+const MAX_SAVE_ATTEMPTS = 5
+
+/**
+ * Autosave: plays the student's queued changes onto the draft and logs them
+ * for the timeline. Returns the updated attempt and how many changes came in
+ * after the deadline.
+ *
+ * The write only lands if the draft is still the one the changes were played
+ * onto (last_saved_at unchanged); otherwise it re-reads and plays them again.
+ */
+export async function saveChanges(
+  attempt: PracticeTestAttemptRecord,
+  changes: AnswerChange[],
+  clientNow: number
+): Promise<{ attempt: PracticeTestAttemptRecord; dropped: number } | { error: string }> {
+  const supabase = createAdminClient()
+  let current = attempt
+
+  for (let tries = 1; ; tries++) {
+    // Each save moves last_saved_at forward, even two in the same millisecond
+    const previous = current.last_saved_at ? new Date(current.last_saved_at).getTime() : 0
+    const serverNow = new Date(Math.max(Date.now(), previous + 1))
+    const applied = applyChanges(current.responses ?? {}, changes, {
+      clientNow,
+      serverNow,
+      startedAt: current.started_at,
+      deadlineAt: current.deadline_at,
+    })
+
+    let update = supabase
+      .from('practice_test_attempts')
+      .update({ responses: applied.responses, last_saved_at: serverNow.toISOString() })
+      .eq('id', current.id)
+      .is('submitted_at', null)
+    update = current.last_saved_at
+      ? update.eq('last_saved_at', current.last_saved_at)
+      : update.is('last_saved_at', null)
+    const { data: updated, error } = await update.select(ATTEMPT_COLUMNS).maybeSingle()
+    if (error) {
+      console.error('Error autosaving practice test attempt:', error)
+      return { error: 'Failed to save your answers' }
+    }
+
+    if (!updated) {
+      const { data: latest } = await supabase
+        .from('practice_test_attempts')
+        .select(ATTEMPT_COLUMNS)
+        .eq('id', current.id)
+        .maybeSingle()
+      // Submitted in the meantime (deadline sweep or another tab)
+      if (!latest || latest.submitted_at) return { attempt: latest ?? current, dropped: changes.length }
+      if (tries >= MAX_SAVE_ATTEMPTS) {
+        console.error('Error autosaving practice test attempt: kept losing the race to other saves')
+        return { error: 'Failed to save your answers' }
+      }
+      // Another save landed first; play these changes onto its draft
+      current = latest
+      continue
+    }
+
+    if (applied.events.length > 0) {
+      const { error: eventsError } = await supabase
+        .from('practice_test_answer_events')
+        .insert(applied.events.map(e => ({ ...e, attempt_id: current.id })))
+      // The draft is saved; a gap in the timeline isn't worth failing the save over
+      if (eventsError) console.error('Error logging practice test answer events:', eventsError)
+    }
+
+    return { attempt: updated, dropped: applied.dropped }
+  }
+}
+
+/**
+ * Scores and submits an attempt with its saved draft. Safe to call more than
+ * once — a deadline sweep racing the student's own submit — since only the
+ * call that marks the attempt submitted inserts the submission; the others
+ * get that submission's result back.
+ */
+export async function finalizeAttempt(attemptId: string): Promise<SubmittedResult | null> {
+  const supabase = createAdminClient()
+  const now = new Date()
+
+  const { data: current } = await supabase
+    .from('practice_test_attempts')
+    .select(ATTEMPT_COLUMNS)
+    .eq('id', attemptId)
+    .maybeSingle()
+  if (!current) return null
+
+  const { data: test } = await supabase
+    .from('practice_tests')
+    .select('id, answer_key, taxonomy, wrong_answer_penalty')
+    .eq('id', current.practice_test_id)
+    .single()
+  if (!test) return null
+  const taxonomy = resolveTaxonomy(test.taxonomy)
+
+  // The clock running out, not the student, ended it
+  const autoSubmitted = !!current.deadline_at && now.getTime() >= new Date(current.deadline_at).getTime()
+
+  const { data: claimed } = await supabase
+    .from('practice_test_attempts')
+    .update({ submitted_at: now.toISOString(), auto_submitted: autoSubmitted })
+    .eq('id', attemptId)
+    .is('submitted_at', null)
+    .select(ATTEMPT_COLUMNS)
+    .maybeSingle()
+
+  if (!claimed) {
+    const { data: existing } = await supabase
+      .from('practice_test_submissions')
+      .select('score_total, score_max, category_breakdown')
+      .eq('attempt_id', attemptId)
+      .maybeSingle()
+    if (!existing) return null
+    return {
+      scoreTotal: existing.score_total,
+      scoreMax: existing.score_max,
+      categoryBreakdown: existing.category_breakdown,
+      taxonomy,
+      autoSubmitted: current.auto_submitted,
+    }
+  }
+
+  const { scoreTotal, scoreMax, categoryBreakdown } = scoreSubmission(test.answer_key ?? {}, claimed.responses ?? {}, {
+    taxonomy,
+    wrongAnswerPenalty: Number(test.wrong_answer_penalty ?? 0),
+  })
+
+  const { error: insertError } = await supabase
+    .from('practice_test_submissions')
+    .insert({
+      practice_test_id: test.id,
+      student_name: claimed.student_name,
+      responses: claimed.responses ?? {},
+      score_total: scoreTotal,
+      score_max: scoreMax,
+      category_breakdown: categoryBreakdown,
+      attempt_id: attemptId,
+      student_id: claimed.student_id,
+    })
+  if (insertError) {
+    console.error('Error inserting practice test submission:', insertError)
+    // Reopen it so the next submit (or sweep) can try again
+    await supabase
+      .from('practice_test_attempts')
+      .update({ submitted_at: null, auto_submitted: false })
+      .eq('id', attemptId)
+    return null
+  }
+
+  return { scoreTotal, scoreMax, categoryBreakdown, taxonomy, autoSubmitted }
+}
+
+/**
+ * Submits every attempt on the test whose time ran out without the student
+ * submitting — a closed laptop shouldn't leave a mock exam open forever.
+ * Called whenever results are read.
+ */
+export async function finalizeExpiredAttempts(testId: string): Promise<void> {
+  const supabase = createAdminClient()
+  const cutoff = new Date(Date.now() - DEADLINE_GRACE_MS).toISOString()
+  const { data: expired } = await supabase
+    .from('practice_test_attempts')
+    .select('id, deadline_at')
+    .eq('practice_test_id', testId)
+    .is('submitted_at', null)
+    .lt('deadline_at', cutoff)
+
+  for (const attempt of expired ?? []) {
+    if (isPastDeadline(attempt.deadline_at, new Date())) await finalizeAttempt(attempt.id)
+  }
+}
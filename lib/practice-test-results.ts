@@ -1,5 +1,6 @@
 import { createAdminClient } from './supabase-server'
-import { aggregateBigIdeas } from './practice-test-scoring'
+import { aggregateCategories, resolveTaxonomy } from './practice-test-scoring'
+import { finalizeExpiredAttempts } from './practice-test-attempts'
 import { PracticeTestResultsPayload } from './types/practice-test'
 
 export async function buildResultsPayload(testId: string): Promise<PracticeTestResultsPayload | null> {
@@ -7,19 +8,38 @@ export async function buildResultsPayload(testId: string): Promise<PracticeTestR
 
   const { data: test } = await supabase
     .from('practice_tests')
-    .select('id, title, description, answer_key')
+    .select('id, title, description, answer_key, taxonomy')
     .eq('id', testId)
     .single()
   if (!test) return null
 
+  // Anyone whose time ran out is submitted before we count
+  await finalizeExpiredAttempts(testId)
+
   const { data: subs } = await supabase
     .from('practice_test_submissions')
-    .select('id, student_name, score_total, score_max, big_idea_breakdown, submitted_at')
+    .select('id, student_name, score_total, score_max, category_breakdown, attempt_id, submitted_at')
     .eq('practice_test_id', testId)
     .order('submitted_at', { ascending: false })
 
+  const { count: inProgress } = await supabase
+    .from('practice_test_attempts')
+    .select('id', { count: 'exact', head: true })
+    .eq('practice_test_id', testId)
+    .is('submitted_at', null)
+
   const submissions = subs ?? []
-  const aggregateBigIdea = aggregateBigIdeas(submissions)
+
+  const attemptIds = submissions.map(s => s.attempt_id).filter((id): id is string => !!id)
+  const { data: attempts } = attemptIds.length > 0
+    ? await supabase
+      .from('practice_test_attempts')
+      .select('id, started_at, auto_submitted')
+      .in('id', attemptIds)
+    : { data: [] }
+  const attemptById = new Map((attempts ?? []).map(a => [a.id, a]))
+  const taxonomy = resolveTaxonomy(test.taxonomy)
+  const aggregate = aggregateCategories(submissions, taxonomy)
   const avgPct = submissions.length > 0
     ? submissions.reduce((acc, s) => acc + (s.score_max > 0 ? (s.score_total / s.score_max) * 100 : 0), 0) / submissions.length
     : null
@@ -34,18 +54,23 @@ export async function buildResultsPayload(testId: string): Promise<PracticeTestR
       title: test.title,
       description: test.description,
       question_count: questionCount,
+      taxonomy,
     },
     aggregate: {
       submissions: submissions.length,
       avg_score_pct: avgPct,
-      big_idea: aggregateBigIdea,
+      categories: aggregate,
+      in_progress: inProgress ?? 0,
     },
     submissions: submissions.map(s => ({
       id: s.id,
       student_name: s.student_name,
       score_total: s.score_total,
       score_max: s.score_max,
-      big_idea_breakdown: s.big_idea_breakdown,
+      category_breakdown: s.category_breakdown,
+      attempt_id: s.attempt_id,
+      started_at: s.attempt_id ? attemptById.get(s.attempt_id)?.started_at ?? null : null,
+      auto_submitted: s.attempt_id ? attemptById.get(s.attempt_id)?.auto_submitted ?? false : false,
       submitted_at: s.submitted_at,
     })),
   }
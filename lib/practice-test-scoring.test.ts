@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest'
+import {
+  aggregateCategories,
+  normalizeAnswerKey,
+  pickCountedSubmission,
+  resolveTaxonomy,
+  sanitizeResponses,
+  sanitizeTaxonomy,
+  scoreSubmission,
+} from './practice-test-scoring'
+import { AP_CHEM_BIG_IDEAS, type Taxonomy } from './types/practice-test'
+
+const marine: Taxonomy = {
+  name: 'Marine Science',
+  categories: [
+    { id: 'ocean', label: 'Ocean chemistry' },
+    { id: 'reef', label: 'Reef ecology' },
+  ],
+}
+
+describe('scoreSubmission', () => {
+  it('breaks the score down by the test taxonomy', () => {
+    const result = scoreSubmission(
+      {
+        '1': { answer: 'A', category: 'ocean' },
+        '2': { answer: 'E', category: 'reef' },
+        '3': { answer: 'C', category: 'reef' },
+      },
+      { '1': 'A', '2': 'E', '3': 'B' },
+      { taxonomy: marine }
+    )
+    expect(result.scoreTotal).toBe(2)
+    expect(result.scoreMax).toBe(3)
+    expect(result.categoryBreakdown).toEqual({
+      ocean: { correct: 1, total: 1 },
+      reef: { correct: 1, total: 2 },
+    })
+  })
+
+  it('weights questions by points', () => {
+    const result = scoreSubmission(
+      {
+        '1': { answer: 'A', category: 'ocean', points: 3 },
+        '2': { answer: 'B', category: 'reef' },
+      },
+      { '1': 'A', '2': 'C' },
+      { taxonomy: marine }
+    )
+    expect(result.scoreTotal).toBe(3)
+    expect(result.scoreMax).toBe(4)
+  })
+
+  it('takes the penalty off wrong answers but not blanks', () => {
+    const answerKey = {
+      '1': { answer: 'A' as const, category: 'ocean' },
+      '2': { answer: 'B' as const, category: 'ocean', points: 2 },
+      '3': { answer: 'C' as const, category: 'reef' },
+    }
+    const result = scoreSubmission(answerKey, { '1': 'A', '2': 'D' }, { taxonomy: marine, wrongAnswerPenalty: 0.25 })
+    expect(result.scoreTotal).toBe(0.5)
+    expect(result.scoreMax).toBe(4)
+  })
+
+  it('never reports a negative score', () => {
+    const result = scoreSubmission(
+      { '1': { answer: 'A', category: 'ocean' } },
+      { '1': 'B' },
+      { taxonomy: marine, wrongAnswerPenalty: 1 }
+    )
+    expect(result.scoreTotal).toBe(0)
+  })
+
+  it('still scores answer keys saved with a Big Idea number', () => {
+    const legacyKey = { '1': { answer: 'A', bigIdea: 5 } } as never
+    const result = scoreSubmission(legacyKey, { '1': 'A' }, { taxonomy: AP_CHEM_BIG_IDEAS })
+    expect(result.categoryBreakdown['5']).toEqual({ correct: 1, total: 1 })
+    expect(result.categoryBreakdown['1']).toEqual({ correct: 0, total: 0 })
+  })
+})
+
+describe('normalizeAnswerKey', () => {
+  it('drops invalid entries and default weights', () => {
+    expect(
+      normalizeAnswerKey({
+        '1': { answer: 'E', category: 'reef', points: 1 },
+        '2': { answer: 'F', category: 'reef' },
+        '3': { answer: 'A' },
+        '4': { answer: 'B', category: 'ocean', points: -2 },
+        x: { answer: 'A', category: 'reef' },
+      })
+    ).toEqual({
+      '1': { answer: 'E', category: 'reef' },
+      '4': { answer: 'B', category: 'ocean' },
+    })
+  })
+})
+
+describe('sanitizeResponses', () => {
+  it('accepts A through E', () => {
+    expect(sanitizeResponses({ '1': 'E', '2': 'F', '3': 'a' })).toEqual({ '1': 'E' })
+  })
+})
+
+describe('taxonomies', () => {
+  it('falls back to the AP Chem Big Ideas for tests without one', () => {
+    expect(resolveTaxonomy(null)).toBe(AP_CHEM_BIG_IDEAS)
+  })
+
+  it('trims labels and drops duplicate or blank categories', () => {
+    expect(
+      sanitizeTaxonomy({
+        name: ' NGSS ',
+        categories: [
+          { id: 'HS-LS1', label: ' Molecules to Organisms ' },
+          { id: 'HS-LS1', label: 'Duplicate' },
+          { id: 'HS-LS2', label: '' },
+        ],
+      })
+    ).toEqual({ name: 'NGSS', categories: [{ id: 'HS-LS1', label: 'Molecules to Organisms' }] })
+    expect(sanitizeTaxonomy({ categories: [] })).toBeNull()
+  })
+
+  it('aggregates breakdowns across submissions', () => {
+    const agg = aggregateCategories(
+      [
+        { category_breakdown: { ocean: { correct: 1, total: 2 } } },
+        { category_breakdown: { ocean: { correct: 2, total: 2 }, reef: { correct: 0, total: 1 } } },
+      ],
+      marine
+    )
+    expect(agg).toEqual({ ocean: { correct: 3, total: 4 }, reef: { correct: 0, total: 1 } })
+  })
+})
+
+describe('pickCountedSubmission', () => {
+  const subs = [
+    { id: 'b', score_total: 40, score_max: 50, submitted_at: '2026-10-02T09:00:00Z' },
+    { id: 'a', score_total: 30, score_max: 50, submitted_at: '2026-10-01T09:00:00Z' },
+    { id: 'c', score_total: 8, score_max: 10, submitted_at: '2026-10-03T09:00:00Z' },
+  ]
+
+  it('applies the duplicate policy', () => {
+    expect(pickCountedSubmission(subs, 'first')?.id).toBe('a')
+    expect(pickCountedSubmission(subs, 'latest')?.id).toBe('c')
+  })
+
+  it('takes the best percentage, keeping the earlier one on a tie', () => {
+    expect(pickCountedSubmission(subs, 'best')?.id).toBe('b')
+    expect(pickCountedSubmission([], 'best')).toBeNull()
+  })
+})
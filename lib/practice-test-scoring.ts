@@ -1,54 +1,151 @@
 import {
+  ANSWER_LETTERS,
+  AP_CHEM_BIG_IDEAS,
   AnswerKey,
   AnswerLetter,
-  BIG_IDEAS,
-  BigIdea,
-  BigIdeaBreakdown,
+  CategoryBreakdown,
+  DUPLICATE_POLICIES,
+  DuplicatePolicy,
+  MAX_CHOICES,
+  MIN_CHOICES,
   ResponseMap,
+  Taxonomy,
+  TaxonomyCategory,
 } from './types/practice-test'
 
+const MAX_CATEGORIES = 50
+const MAX_CATEGORY_LABEL_LEN = 120
+const MAX_CATEGORY_ID_LEN = 40
+const MAX_TAXONOMY_NAME_LEN = 120
+export const MAX_POINTS = 100
+
+export interface ScoringOptions {
+  taxonomy: Taxonomy
+  // Fraction (0–1) of a question's points taken off for a wrong answer
+  wrongAnswerPenalty?: number
+}
+
 export interface ScoredSubmission {
   scoreTotal: number
   scoreMax: number
-  bigIdeaBreakdown: BigIdeaBreakdown
+  categoryBreakdown: CategoryBreakdown
+}
+
+// Two decimals is plenty for quarter-point penalties and fractional weights
+function round2(n: number): number {
+  return Math.round(n * 100) / 100
+}
+
+function emptyBreakdown(taxonomy: Taxonomy): CategoryBreakdown {
+  const breakdown: CategoryBreakdown = {}
+  for (const c of taxonomy.categories) {
+    breakdown[c.id] = { correct: 0, total: 0 }
+  }
+  return breakdown
 }
 
 export function scoreSubmission(
   answerKey: AnswerKey,
-  responses: ResponseMap
+  responses: ResponseMap,
+  { taxonomy, wrongAnswerPenalty = 0 }: ScoringOptions
 ): ScoredSubmission {
-  const breakdown: BigIdeaBreakdown = {}
-  for (const bi of BIG_IDEAS) {
-    breakdown[String(bi)] = { correct: 0, total: 0 }
-  }
+  const breakdown = emptyBreakdown(taxonomy)
+  const penalty = Math.min(1, Math.max(0, wrongAnswerPenalty))
 
   let scoreTotal = 0
   let scoreMax = 0
 
-  for (const [qNum, entry] of Object.entries(answerKey)) {
-    if (!entry || !entry.answer || !entry.bigIdea) continue
-    const biKey = String(entry.bigIdea)
-    if (!breakdown[biKey]) breakdown[biKey] = { correct: 0, total: 0 }
+  for (const [qNum, entry] of Object.entries(normalizeAnswerKey(answerKey))) {
+    const points = entry.points ?? 1
+    if (!breakdown[entry.category]) breakdown[entry.category] = { correct: 0, total: 0 }
 
-    breakdown[biKey].total += 1
-    scoreMax += 1
+    breakdown[entry.category].total += 1
+    scoreMax += points
 
     const studentAnswer = responses[qNum]
-    if (studentAnswer && studentAnswer === entry.answer) {
-      breakdown[biKey].correct += 1
-      scoreTotal += 1
+    if (!studentAnswer) continue
+    if (studentAnswer === entry.answer) {
+      breakdown[entry.category].correct += 1
+      scoreTotal += points
+    } else {
+      scoreTotal -= points * penalty
     }
   }
 
-  return { scoreTotal, scoreMax, bigIdeaBreakdown: breakdown }
+  // Penalties can push a guess-heavy attempt below zero; don't report that
+  return { scoreTotal: Math.max(0, round2(scoreTotal)), scoreMax: round2(scoreMax), categoryBreakdown: breakdown }
 }
 
 export function isAnswerLetter(v: unknown): v is AnswerLetter {
-  return v === 'A' || v === 'B' || v === 'C' || v === 'D'
+  return typeof v === 'string' && (ANSWER_LETTERS as string[]).includes(v)
+}
+
+export function isValidPoints(v: unknown): v is number {
+  return typeof v === 'number' && Number.isFinite(v) && v > 0 && v <= MAX_POINTS
+}
+
+/** The taxonomy a test reports by; tests from before taxonomies use the AP Chem Big Ideas. */
+export function resolveTaxonomy(raw: unknown): Taxonomy {
+  return sanitizeTaxonomy(raw) ?? AP_CHEM_BIG_IDEAS
 }
 
-export function isBigIdea(v: unknown): v is BigIdea {
-  return v === 1 || v === 2 || v === 3 || v === 4 || v === 5 || v === 6
+export function sanitizeTaxonomy(input: unknown): Taxonomy | null {
+  if (!input || typeof input !== 'object') return null
+  const raw = input as Record<string, unknown>
+  const name = typeof raw.name === 'string' ? raw.name.trim().slice(0, MAX_TAXONOMY_NAME_LEN) : ''
+  if (!name || !Array.isArray(raw.categories)) return null
+
+  const seen = new Set<string>()
+  const categories: TaxonomyCategory[] = []
+  for (const c of raw.categories.slice(0, MAX_CATEGORIES)) {
+    if (!c || typeof c !== 'object') continue
+    const { id, label } = c as Record<string, unknown>
+    if (typeof id !== 'string' || typeof label !== 'string') continue
+    const cleanId = id.trim().slice(0, MAX_CATEGORY_ID_LEN)
+    const cleanLabel = label.trim().slice(0, MAX_CATEGORY_LABEL_LEN)
+    if (!cleanId || !cleanLabel || seen.has(cleanId)) continue
+    seen.add(cleanId)
+    categories.push({ id: cleanId, label: cleanLabel })
+  }
+  return { name, categories }
+}
+
+export function isValidChoiceCount(v: unknown): v is number {
+  return typeof v === 'number' && Number.isInteger(v) && v >= MIN_CHOICES && v <= MAX_CHOICES
+}
+
+export function isDuplicatePolicy(v: unknown): v is DuplicatePolicy {
+  return typeof v === 'string' && Object.prototype.hasOwnProperty.call(DUPLICATE_POLICIES, v)
+}
+
+/**
+ * Answer key entries as scoring sees them. Keys written before taxonomies
+ * carry a numeric `bigIdea` instead of `category`; entries without a valid
+ * answer or category are dropped.
+ */
+export function normalizeAnswerKey(input: unknown): AnswerKey {
+  if (!input || typeof input !== 'object') return {}
+  const out: AnswerKey = {}
+  for (const [k, v] of Object.entries(input as Record<string, unknown>)) {
+    const qNum = Number(k)
+    if (!Number.isInteger(qNum) || qNum < 1) continue
+    if (!v || typeof v !== 'object') continue
+    const entry = v as Record<string, unknown>
+    if (!isAnswerLetter(entry.answer)) continue
+    const category =
+      typeof entry.category === 'string' && entry.category
+        ? entry.category
+        : typeof entry.bigIdea === 'number'
+          ? String(entry.bigIdea)
+          : null
+    if (!category) continue
+    out[String(qNum)] = {
+      answer: entry.answer,
+      category,
+      ...(isValidPoints(entry.points) && entry.points !== 1 ? { points: entry.points } : {}),
+    }
+  }
+  return out
 }
 
 export function sanitizeResponses(input: unknown): ResponseMap {
@@ -63,19 +160,35 @@ export function sanitizeResponses(input: unknown): ResponseMap {
   return out
 }
 
-export function aggregateBigIdeas(
-  submissions: Array<{ big_idea_breakdown: BigIdeaBreakdown }>
-): BigIdeaBreakdown {
-  const agg: BigIdeaBreakdown = {}
-  for (const bi of BIG_IDEAS) {
-    agg[String(bi)] = { correct: 0, total: 0 }
-  }
+export function aggregateCategories(
+  submissions: Array<{ category_breakdown: CategoryBreakdown }>,
+  taxonomy: Taxonomy
+): CategoryBreakdown {
+  const agg = emptyBreakdown(taxonomy)
   for (const s of submissions) {
-    for (const [biKey, entry] of Object.entries(s.big_idea_breakdown ?? {})) {
-      if (!agg[biKey]) agg[biKey] = { correct: 0, total: 0 }
-      agg[biKey].correct += entry?.correct ?? 0
-      agg[biKey].total += entry?.total ?? 0
+    for (const [key, entry] of Object.entries(s.category_breakdown ?? {})) {
+      if (!agg[key]) agg[key] = { correct: 0, total: 0 }
+      agg[key].correct += entry?.correct ?? 0
+      agg[key].total += entry?.total ?? 0
     }
   }
   return agg
 }
+
+/**
+ * The one submission that counts for a student on a class-linked test, by the
+ * test's duplicate policy. `best` compares percentages (the answer key may have
+ * changed between attempts) and breaks ties by the earlier submission.
+ */
+export function pickCountedSubmission<
+  T extends { score_total: number; score_max: number; submitted_at: string },
+>(submissions: T[], policy: DuplicatePolicy): T | null {
+  if (submissions.length === 0) return null
+  const byTime = [...submissions].sort(
+    (a, b) => new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime()
+  )
+  if (policy === 'first') return byTime[0]
+  if (policy === 'latest') return byTime[byTime.length - 1]
+  const pct = (s: T) => (s.score_max > 0 ? Number(s.score_total) / Number(s.score_max) : 0)
+  return byTime.reduce((best, s) => (pct(s) > pct(best) ? s : best))
+}
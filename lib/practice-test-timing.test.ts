@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEADLINE_GRACE_MS,
+  applyChanges,
+  buildAnswerTimeline,
+  deadlineFor,
+  formatDuration,
+  isPastDeadline,
+  sanitizeChanges,
+} from './practice-test-timing'
+
+const startedAt = '2026-10-01T09:00:00.000Z'
+const at = (minutes: number) => new Date(Date.parse(startedAt) + minutes * 60_000)
+
+describe('deadlines', () => {
+  it('adds the time limit to the start, or none when untimed', () => {
+    expect(deadlineFor(new Date(startedAt), 90)?.toISOString()).toBe('2026-10-01T10:30:00.000Z')
+    expect(deadlineFor(new Date(startedAt), null)).toBeNull()
+  })
+
+  it('allows a grace period past the deadline', () => {
+    const deadline = at(90).toISOString()
+    expect(isPastDeadline(deadline, new Date(at(90).getTime() + DEADLINE_GRACE_MS - 1))).toBe(false)
+    expect(isPastDeadline(deadline, new Date(at(90).getTime() + DEADLINE_GRACE_MS + 1))).toBe(true)
+    expect(isPastDeadline(null, at(10_000))).toBe(false)
+  })
+})
+
+describe('applyChanges', () => {
+  it('plays changes in order and logs only real changes', () => {
+    const clock = at(10).getTime()
+    const result = applyChanges(
+      { '1': 'A' },
+      [
+        { q: 2, answer: 'C', at: clock - 2000 },
+        { q: 1, answer: 'A', at: clock - 3000 },
+        { q: 2, answer: null, at: clock - 1000 },
+        { q: 3, answer: 'E', at: clock },
+      ],
+      { clientNow: clock, serverNow: at(10), startedAt, deadlineAt: null }
+    )
+    expect(result.responses).toEqual({ '1': 'A', '3': 'E' })
+    expect(result.events.map(e => [e.question_number, e.answer])).toEqual([
+      [2, 'C'],
+      [2, null],
+      [3, 'E'],
+    ])
+  })
+
+  it('shifts change times onto the server clock', () => {
+    // The student's clock runs twenty seconds slow
+    const skew = 20_000
+    const result = applyChanges(
+      {},
+      [{ q: 1, answer: 'B', at: at(20).getTime() - skew }],
+      { clientNow: at(21).getTime() - skew, serverNow: at(21), startedAt, deadlineAt: null }
+    )
+    expect(result.events[0].changed_at).toBe(at(20).toISOString())
+  })
+
+  it('shifts by no more than the grace period', () => {
+    // The student's clock runs five minutes slow
+    const skew = 5 * 60_000
+    const result = applyChanges(
+      {},
+      [{ q: 1, answer: 'B', at: at(20).getTime() - skew }],
+      { clientNow: at(21).getTime() - skew, serverNow: at(21), startedAt, deadlineAt: null }
+    )
+    expect(result.events[0].changed_at).toBe(new Date(at(20).getTime() - skew + DEADLINE_GRACE_MS).toISOString())
+  })
+
+  it('keeps the real times of changes queued while offline', () => {
+    const result = applyChanges(
+      {},
+      [{ q: 4, answer: 'D', at: at(30).getTime() }],
+      { clientNow: at(45).getTime(), serverNow: at(45), startedAt, deadlineAt: at(90).toISOString() }
+    )
+    expect(result.events[0].changed_at).toBe(at(30).toISOString())
+  })
+
+  it('drops changes made after the deadline', () => {
+    const result = applyChanges(
+      { '1': 'A' },
+      [
+        { q: 1, answer: 'B', at: at(59).getTime() },
+        { q: 2, answer: 'C', at: at(60).getTime() + 10_000 },
+      ],
+      // Sent within the grace period
+      { clientNow: at(60).getTime() + 20_000, serverNow: new Date(at(60).getTime() + 20_000), startedAt, deadlineAt: at(60).toISOString() }
+    )
+    expect(result.responses).toEqual({ '1': 'B' })
+    expect(result.dropped).toBe(1)
+  })
+
+  it('drops a save that arrives after the grace period, whatever its clock says', () => {
+    // Sent hours late, claiming the student's clock still read minute 59
+    const result = applyChanges(
+      { '1': 'A' },
+      [{ q: 1, answer: 'B', at: at(59).getTime() }],
+      { clientNow: at(59).getTime(), serverNow: at(240), startedAt, deadlineAt: at(60).toISOString() }
+    )
+    expect(result.responses).toEqual({ '1': 'A' })
+    expect(result.events).toEqual([])
+    expect(result.dropped).toBe(1)
+  })
+})
+
+describe('sanitizeChanges', () => {
+  it('keeps well-formed changes only', () => {
+    expect(
+      sanitizeChanges([
+        { q: 1, answer: 'A', at: 1 },
+        { q: 2, answer: null, at: 2 },
+        { q: 0, answer: 'A', at: 3 },
+        { q: 3, answer: 'Z', at: 4 },
+        { q: 4, answer: 'B' },
+      ])
+    ).toEqual([
+      { q: 1, answer: 'A', at: 1 },
+      { q: 2, answer: null, at: 2 },
+    ])
+    expect(sanitizeChanges('nope')).toEqual([])
+  })
+})
+
+describe('buildAnswerTimeline', () => {
+  it('orders changes and records what each replaced', () => {
+    const timeline = buildAnswerTimeline(
+      [
+        { question_number: 5, answer: 'B', changed_at: at(12).toISOString() },
+        { question_number: 5, answer: 'A', changed_at: at(3).toISOString() },
+        { question_number: 2, answer: 'C', changed_at: at(1).toISOString() },
+      ],
+      startedAt
+    )
+    expect(timeline.map(e => [e.question_number, e.previous, e.answer, e.elapsed_ms / 60_000])).toEqual([
+      [2, null, 'C', 1],
+      [5, null, 'A', 3],
+      [5, 'A', 'B', 12],
+    ])
+  })
+})
+
+describe('formatDuration', () => {
+  it('formats minutes and hours', () => {
+    expect(formatDuration(65_000)).toBe('1:05')
+    expect(formatDuration(3_725_000)).toBe('1:02:05')
+    expect(formatDuration(-10)).toBe('0:00')
+  })
+})
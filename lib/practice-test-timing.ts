@@ -0,0 +1,154 @@
+// Timing for practice-test attempts: deadlines, autosaved answer changes and
+// the teacher's per-student timeline. Pure functions; the take routes and
+// lib/practice-test-attempts do the I/O.
+
+import { AnswerLetter, ResponseMap } from './types/practice-test'
+import { isAnswerLetter } from './practice-test-scoring'
+
+export const MAX_TIME_LIMIT_MINUTES = 600
+
+// Slack for the request that carries the last answers to arrive after the
+// clock runs out
+export const DEADLINE_GRACE_MS = 30_000
+
+const MAX_CHANGES_PER_SAVE = 500
+
+/** One answer change as the take page queues it; `at` is the student's clock. */
+export interface AnswerChange {
+  q: number
+  // null: the student cleared the answer
+  answer: AnswerLetter | null
+  at: number
+}
+
+export interface AnswerEventInput {
+  question_number: number
+  answer: AnswerLetter | null
+  changed_at: string
+}
+
+export function sanitizeChanges(input: unknown): AnswerChange[] {
+  if (!Array.isArray(input)) return []
+  const out: AnswerChange[] = []
+  for (const c of input.slice(0, MAX_CHANGES_PER_SAVE)) {
+    if (!c || typeof c !== 'object') continue
+    const { q, answer, at } = c as Record<string, unknown>
+    if (typeof q !== 'number' || !Number.isInteger(q) || q < 1) continue
+    if (answer !== null && !isAnswerLetter(answer)) continue
+    if (typeof at !== 'number' || !Number.isFinite(at)) continue
+    out.push({ q, answer, at })
+  }
+  return out
+}
+
+export function deadlineFor(startedAt: Date, timeLimitMinutes: number | null): Date | null {
+  if (!timeLimitMinutes) return null
+  return new Date(startedAt.getTime() + timeLimitMinutes * 60_000)
+}
+
+/** Past the deadline and the grace period: no more answers, submit what was saved. */
+export function isPastDeadline(deadlineAt: string | null, now: Date): boolean {
+  if (!deadlineAt) return false
+  return now.getTime() > new Date(deadlineAt).getTime() + DEADLINE_GRACE_MS
+}
+
+export interface ApplyChangesOptions {
+  // The student's clock when the batch was sent; aligns `at` to the server
+  clientNow: number
+  serverNow: Date
+  startedAt: string
+  deadlineAt: string | null
+}
+
+export interface AppliedChanges {
+  responses: ResponseMap
+  events: AnswerEventInput[]
+  // Changes made after the deadline
+  dropped: number
+}
+
+/**
+ * Plays a batch of changes onto the saved draft, in the order they were made.
+ * Change times are shifted by the difference between the two clocks, so a
+ * batch queued while offline keeps its real timings; changes that land after
+ * the deadline are dropped, and ones that don't change anything aren't logged.
+ *
+ * Both clocks in the batch are the student's, so neither is trusted past the
+ * grace period: the shift is capped at DEADLINE_GRACE_MS, and a batch that
+ * arrives after the grace period is dropped whole.
+ */
+export function applyChanges(
+  responses: ResponseMap,
+  changes: AnswerChange[],
+  { clientNow, serverNow, startedAt, deadlineAt }: ApplyChangesOptions
+): AppliedChanges {
+  if (isPastDeadline(deadlineAt, serverNow)) {
+    return { responses: { ...responses }, events: [], dropped: changes.length }
+  }
+
+  const offset = Math.min(DEADLINE_GRACE_MS, Math.max(-DEADLINE_GRACE_MS, serverNow.getTime() - clientNow))
+  const floor = new Date(startedAt).getTime()
+  const ceiling = serverNow.getTime()
+  const deadline = deadlineAt ? new Date(deadlineAt).getTime() : null
+
+  const next: ResponseMap = { ...responses }
+  const events: AnswerEventInput[] = []
+  let dropped = 0
+
+  const ordered = [...changes].sort((a, b) => a.at - b.at)
+  for (const change of ordered) {
+    const at = Math.min(ceiling, Math.max(floor, change.at + offset))
+    if (deadline !== null && at > deadline) {
+      dropped += 1
+      continue
+    }
+    const key = String(change.q)
+    if ((next[key] ?? null) === change.answer) continue
+    if (change.answer === null) delete next[key]
+    else next[key] = change.answer
+    events.push({ question_number: change.q, answer: change.answer, changed_at: new Date(at).toISOString() })
+  }
+
+  return { responses: next, events, dropped }
+}
+
+export interface TimelineEntry {
+  question_number: number
+  answer: AnswerLetter | null
+  // The answer this change replaced
+  previous: AnswerLetter | null
+  changed_at: string
+  // Since the attempt started
+  elapsed_ms: number
+}
+
+export function buildAnswerTimeline(
+  events: Array<{ question_number: number; answer: AnswerLetter | null; changed_at: string }>,
+  startedAt: string
+): TimelineEntry[] {
+  const start = new Date(startedAt).getTime()
+  const current = new Map<number, AnswerLetter | null>()
+  return [...events]
+    .sort((a, b) => a.changed_at.localeCompare(b.changed_at))
+    .map(e => {
+      const previous = current.get(e.question_number) ?? null
+      current.set(e.question_number, e.answer)
+      return {
+        question_number: e.question_number,
+        answer: e.answer,
+        previous,
+        changed_at: e.changed_at,
+        elapsed_ms: Math.max(0, new Date(e.changed_at).getTime() - start),
+      }
+    })
+}
+
+/** "4:05" or "1:02:05". */
+export function formatDuration(ms: number): string {
+  const total = Math.max(0, Math.floor(ms / 1000))
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = total % 60
+  const ss = String(s).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${ss}` : `${m}:${ss}`
+}
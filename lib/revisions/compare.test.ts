@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import type { CustomSection } from '@/lib/types/custom-guide'
+import type { EditorBlock } from '@/lib/types/editor-blocks'
+import { blockText, diffRevisions, summarizeDiff, type RevisionSnapshot } from './compare'
+
+function text(id: string, markdown = id, title?: string): CustomSection {
+  return { id, type: 'text', title, content: { type: 'text', markdown } }
+}
+
+function section(id: string, title: string, children: CustomSection[]): CustomSection {
+  return { id, type: 'section', title, content: { type: 'text', markdown: '' }, children }
+}
+
+function snapshot(sections: CustomSection[], title = 'Cells'): RevisionSnapshot {
+  return {
+    title,
+    subject: 'science',
+    gradeLevel: '9th',
+    className: null,
+    customContent: { version: '1.0', sections },
+  }
+}
+
+const kinds = (snapshotBefore: RevisionSnapshot, snapshotAfter: RevisionSnapshot) =>
+  diffRevisions(snapshotBefore, snapshotAfter).blocks.map(b => [b.id, b.kind, b.moved])
+
+describe('diffRevisions', () => {
+  it('matches blocks by id and reports what happened to each', () => {
+    const before = snapshot([text('a'), text('b'), text('c')])
+    const after = snapshot([text('a', 'a, reworded'), text('c'), text('d')])
+    expect(kinds(before, after)).toEqual([
+      ['a', 'changed', false],
+      ['b', 'removed', false],
+      ['c', 'unchanged', false],
+      ['d', 'added', false],
+    ])
+    const changed = diffRevisions(before, after).blocks[0]
+    expect(changed).toMatchObject({ before: 'a', after: 'a, reworded' })
+  })
+
+  it('marks only the blocks that left their place as moved', () => {
+    const before = snapshot([text('a'), text('b'), text('c'), text('d')])
+    const after = snapshot([text('b'), text('c'), text('d'), text('a')])
+    expect(kinds(before, after).filter(([, , moved]) => moved)).toEqual([['a', 'unchanged', true]])
+  })
+
+  it('follows blocks into and out of sections', () => {
+    const before = snapshot([section('s', 'Cells', [text('x'), text('y')]), text('z')])
+    const after = snapshot([section('s', 'Cell Parts', [text('y'), text('z')]), text('x')])
+    const diff = diffRevisions(before, after)
+    expect(diff.blocks.map(b => [b.id, b.kind, b.moved, b.section])).toEqual([
+      ['s', 'changed', false, null],
+      ['y', 'unchanged', false, 'Cell Parts'],
+      ['z', 'unchanged', true, 'Cell Parts'],
+      ['x', 'unchanged', true, null],
+    ])
+  })
+
+  it('compares the guide details', () => {
+    const diff = diffRevisions(snapshot([text('a')]), snapshot([text('a')], 'Cell Biology'))
+    expect(diff.details).toEqual([{ label: 'Title', before: 'Cells', after: 'Cell Biology' }])
+    expect(summarizeDiff(diff)).toBe('details changed')
+  })
+
+  it('ignores key order in stored content', () => {
+    const reordered = { content: { markdown: 'a', type: 'text' }, type: 'text', id: 'a' } as CustomSection
+    expect(summarizeDiff(diffRevisions(snapshot([text('a')]), snapshot([reordered])))).toBe('No changes')
+  })
+})
+
+describe('summarizeDiff', () => {
+  it('counts each kind of change', () => {
+    const diff = diffRevisions(
+      snapshot([text('a'), text('b'), text('c')]),
+      snapshot([text('c'), text('a', 'edited'), text('new')])
+    )
+    expect(summarizeDiff(diff)).toBe('1 changed, 1 added, 1 removed, 1 moved')
+  })
+})
+
+describe('blockText', () => {
+  it('writes out quizzes with their options and answers', () => {
+    const quiz: EditorBlock = {
+      id: 'q',
+      type: 'quiz',
+      data: {
+        type: 'quiz',
+        questions: [{ id: '1', questionType: 'multiple-choice', question: 'Powerhouse?', options: ['Nucleus', 'Mitochondria'], correctAnswer: 'B' }],
+      },
+    }
+    expect(blockText(quiz)).toBe('1. Powerhouse?\n   A. Nucleus\n   B. Mitochondria\n   Answer: B')
+  })
+
+  it('writes out video timestamps', () => {
+    const video: EditorBlock = {
+      id: 'v',
+      type: 'video',
+      data: { type: 'video', url: 'https://youtu.be/dQw4w9WgXcQ', timestamps: [{ id: 't', seconds: 95, label: 'Low tide' }] },
+    }
+    expect(blockText(video)).toBe('https://youtu.be/dQw4w9WgXcQ\n1:35 Low tide')
+  })
+})
@@ -0,0 +1,216 @@
+import type { CustomGuideContent } from '@/lib/types/custom-guide'
+import { customContentToBlocks, type EditorBlock } from '@/lib/types/editor-blocks'
+import { unmoved } from '@/lib/collab/operations'
+import { formatTimestamp } from '@/lib/video-embed'
+
+// Comparing two revisions of a custom guide, block by block. Blocks are
+// matched by their EditorBlock ids, which survive saving and reopening the
+// guide, so a block that was edited, moved into another section or deleted
+// shows as that block rather than as one removed and another added.
+// Pure functions; the history dialog fetches the revisions.
+
+/** What a revision keeps of the guide: its details and content. */
+export interface RevisionSnapshot {
+  title: string
+  subject: string
+  gradeLevel: string
+  className: string | null
+  customContent: CustomGuideContent
+}
+
+export interface FieldChange {
+  label: string
+  before: string
+  after: string
+}
+
+export type BlockChangeKind = 'added' | 'removed' | 'changed' | 'unchanged'
+
+export interface BlockChange {
+  id: string
+  kind: BlockChangeKind
+  // Now in another section, or in another place among its neighbours
+  moved: boolean
+  type: string
+  label: string
+  // The section holding the block (in the older revision for removed blocks), null at the top level
+  section: string | null
+  // The block as text; null on the side it doesn't exist
+  before: string | null
+  after: string | null
+}
+
+export interface RevisionDiff {
+  details: FieldChange[]
+  // In reading order, with removed blocks where they used to be
+  blocks: BlockChange[]
+}
+
+interface FlatBlock {
+  block: EditorBlock
+  parentId: string | null
+  section: string | null
+}
+
+function flatten(blocks: EditorBlock[], parent: EditorBlock | null = null): FlatBlock[] {
+  return blocks.flatMap(block => [
+    { block, parentId: parent?.id ?? null, section: parent ? parent.title?.trim() || 'Untitled section' : null },
+    ...flatten(block.children ?? [], block),
+  ])
+}
+
+// Stable key order, so equal content compares equal whatever order JSONB kept it in
+function canonical(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonical).join(',')}]`
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value)
+      .sort()
+      .filter(k => (value as Record<string, unknown>)[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${canonical((value as Record<string, unknown>)[k])}`)
+      .join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+// A section's children are compared on their own, so only its own fields count
+function sameBlock(a: EditorBlock, b: EditorBlock): boolean {
+  return a.type === b.type && (a.title ?? '') === (b.title ?? '') && canonical(a.data) === canonical(b.data)
+}
+
+function blockLabel(block: EditorBlock): string {
+  if (block.title?.trim()) return block.title.trim()
+  if (block.data.type === 'definition' && block.data.term.trim()) return block.data.term.trim()
+  const type = block.type.replace(/-/g, ' ')
+  return `${type.charAt(0).toUpperCase()}${type.slice(1)} block`
+}
+
+/** A block's content as plain text, for showing two versions of it side by side. */
+export function blockText(block: EditorBlock): string {
+  const data = block.data
+  switch (data.type) {
+    case 'text':
+      return data.markdown
+    case 'section':
+      return block.title ?? ''
+    case 'alert':
+      return [data.title, data.message].filter(Boolean).join('\n')
+    case 'table':
+      return [data.headers, ...data.rows].map(row => row.join(' | ')).join('\n')
+    case 'quiz':
+      return data.questions
+        .map((q, i) => {
+          const options = (q.options ?? []).map((o, j) => `   ${String.fromCharCode(65 + j)}. ${o}`)
+          return [`${i + 1}. ${q.question}`, ...options, `   Answer: ${q.correctAnswer}`].join('\n')
+        })
+        .join('\n')
+    case 'checklist':
+      return data.items.map(item => `- ${item.label}`).join('\n')
+    case 'definition':
+      return [`${data.term}: ${data.definition}`, ...(data.examples ?? []).map(e => `e.g. ${e}`)].join('\n')
+    case 'flashcards':
+      return data.cards.map(card => `${card.front} — ${card.back}`).join('\n')
+    case 'math':
+      return [data.latex, data.caption].filter(Boolean).join('\n')
+    case 'chemical-equation':
+      return [data.equation, data.caption, data.practice ? '(students balance it)' : ''].filter(Boolean).join('\n')
+    case 'image':
+      return [data.url, data.alt && `Alt text: ${data.alt}`, data.caption].filter(Boolean).join('\n')
+    case 'diagram':
+      return [
+        data.imageUrl,
+        ...data.hotspots.map((spot, i) => `${i + 1}. ${spot.label}${spot.description ? `: ${spot.description}` : ''}`),
+      ].filter(Boolean).join('\n')
+    case 'video':
+      return [
+        data.url,
+        data.caption,
+        ...data.timestamps.map(stamp => `${formatTimestamp(stamp.seconds)} ${stamp.label}`),
+      ].filter(Boolean).join('\n')
+    default:
+      return ''
+  }
+}
+
+// Blocks under each parent (null: the top level) that kept their place among the blocks that stayed there
+function keptInOrder(before: FlatBlock[], after: FlatBlock[]): Set<string> {
+  const parentBefore = new Map(before.map(f => [f.block.id, f.parentId]))
+  const stayed = (f: FlatBlock) => parentBefore.has(f.block.id) && parentBefore.get(f.block.id) === f.parentId
+  const afterParent = new Map(after.map(f => [f.block.id, f.parentId]))
+  const stayedBefore = (f: FlatBlock) => afterParent.has(f.block.id) && afterParent.get(f.block.id) === f.parentId
+
+  const kept = new Set<string>()
+  const parents = new Set(after.filter(stayed).map(f => f.parentId))
+  for (const parent of parents) {
+    const ids = (list: FlatBlock[], keep: (f: FlatBlock) => boolean) =>
+      list.filter(f => f.parentId === parent && keep(f)).map(f => f.block.id)
+    for (const id of unmoved(ids(before, stayedBefore), ids(after, stayed))) kept.add(id)
+  }
+  return kept
+}
+
+/** What changed from `before` to `after`: the guide's details, then every block. */
+export function diffRevisions(before: RevisionSnapshot, after: RevisionSnapshot): RevisionDiff {
+  const details: FieldChange[] = []
+  const field = (label: string, a: string | null, b: string | null) => {
+    if ((a ?? '') !== (b ?? '')) details.push({ label, before: a ?? '', after: b ?? '' })
+  }
+  field('Title', before.title, after.title)
+  field('Subject', before.subject, after.subject)
+  field('Grade level', before.gradeLevel, after.gradeLevel)
+  field('Class', before.className, after.className)
+
+  const older = flatten(customContentToBlocks(before.customContent))
+  const newer = flatten(customContentToBlocks(after.customContent))
+  const olderById = new Map(older.map(f => [f.block.id, f]))
+  const newerIds = new Set(newer.map(f => f.block.id))
+  const kept = keptInOrder(older, newer)
+
+  const blocks: BlockChange[] = newer.map(({ block, section }) => {
+    const old = olderById.get(block.id)?.block
+    const kind: BlockChangeKind = !old ? 'added' : sameBlock(old, block) ? 'unchanged' : 'changed'
+    return {
+      id: block.id,
+      kind,
+      moved: !!old && !kept.has(block.id),
+      type: block.type,
+      label: blockLabel(block),
+      section,
+      before: old ? blockText(old) : null,
+      after: blockText(block),
+    }
+  })
+
+  // Put each removed block after the block that came before it, or first
+  older.forEach(({ block, section }, i) => {
+    if (newerIds.has(block.id)) return
+    const removed: BlockChange = {
+      id: block.id,
+      kind: 'removed',
+      moved: false,
+      type: block.type,
+      label: blockLabel(block),
+      section,
+      before: blockText(block),
+      after: null,
+    }
+    const previous = older.slice(0, i).reverse().find(f => blocks.some(b => b.id === f.block.id))
+    const at = previous ? blocks.findIndex(b => b.id === previous.block.id) + 1 : 0
+    blocks.splice(at, 0, removed)
+  })
+
+  return { details, blocks }
+}
+
+/** e.g. "3 changed, 1 added, 2 moved", or "No changes". */
+export function summarizeDiff(diff: RevisionDiff): string {
+  const count = (kind: BlockChangeKind) => diff.blocks.filter(b => b.kind === kind).length
+  const moved = diff.blocks.filter(b => b.moved).length
+  const parts = [
+    diff.details.length > 0 ? 'details changed' : '',
+    count('changed') ? `${count('changed')} changed` : '',
+    count('added') ? `${count('added')} added` : '',
+    count('removed') ? `${count('removed')} removed` : '',
+    moved ? `${moved} moved` : '',
+  ].filter(Boolean)
+  return parts.length > 0 ? parts.join(', ') : 'No changes'
+}
@@ -0,0 +1,116 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { RevisionSnapshot } from '@/lib/revisions/compare'
+
+// Reading and writing study_guide_revisions. Every save of a custom guide
+// records one; assignments point at the one their class sees.
+
+export interface GuideRevisionRecord {
+  id: string
+  study_guide_id: string
+  number: number
+  name: string | null
+  title: string
+  subject: string
+  grade_level: string
+  class_name: string | null
+  custom_content: RevisionSnapshot['customContent']
+  created_by: string | null
+  created_at: string
+}
+
+// Two editors saving at once can both pick the same next number; the loser tries again
+const MAX_ATTEMPTS = 3
+
+/** Record a save of the guide as its next revision. */
+export async function recordRevision(
+  supabase: SupabaseClient,
+  guideId: string,
+  userId: string,
+  snapshot: RevisionSnapshot
+): Promise<GuideRevisionRecord> {
+  for (let attempt = 1; ; attempt++) {
+    const { data: latest } = await supabase
+      .from('study_guide_revisions')
+      .select('number')
+      .eq('study_guide_id', guideId)
+      .order('number', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    const { data, error } = await supabase
+      .from('study_guide_revisions')
+      .insert({
+        study_guide_id: guideId,
+        number: (latest?.number ?? 0) + 1,
+        title: snapshot.title,
+        subject: snapshot.subject,
+        grade_level: snapshot.gradeLevel,
+        class_name: snapshot.className,
+        custom_content: snapshot.customContent,
+        created_by: userId,
+      })
+      .select()
+      .single()
+
+    if (!error) return data as GuideRevisionRecord
+    if (error.code !== '23505' || attempt >= MAX_ATTEMPTS) throw error
+  }
+}
+
+/** The guide's newest revision id, or null when it has none (it isn't a custom guide). */
+export async function latestRevisionId(supabase: SupabaseClient, guideId: string): Promise<string | null> {
+  const { data } = await supabase
+    .from('study_guide_revisions')
+    .select('id')
+    .eq('study_guide_id', guideId)
+    .order('number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return data?.id ?? null
+}
+
+/**
+ * The revision a student was assigned, or null when they should see the
+ * guide as it is now: it isn't assigned to any of their classes, or one of
+ * those assignments follows the live guide. A student in two classes pinned
+ * to different revisions sees the newer.
+ */
+export async function assignedRevision(
+  supabase: SupabaseClient,
+  guideId: string,
+  studentId: string
+): Promise<GuideRevisionRecord | null> {
+  const { data: enrollments } = await supabase
+    .from('class_enrollments')
+    .select('class_id')
+    .eq('student_id', studentId)
+    .eq('status', 'active')
+  const classIds = (enrollments ?? []).map(e => e.class_id)
+  if (classIds.length === 0) return null
+
+  const { data: assignments } = await supabase
+    .from('study_guide_assignments')
+    .select('revision_id')
+    .eq('study_guide_id', guideId)
+    .in('class_id', classIds)
+  if (!assignments || assignments.length === 0 || assignments.some(a => !a.revision_id)) return null
+
+  const { data: revision } = await supabase
+    .from('study_guide_revisions')
+    .select('*')
+    .in('id', assignments.map(a => a.revision_id))
+    .order('number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return (revision as GuideRevisionRecord | null) ?? null
+}
+
+export function revisionSnapshot(revision: GuideRevisionRecord): RevisionSnapshot {
+  return {
+    title: revision.title,
+    subject: revision.subject,
+    gradeLevel: revision.grade_level,
+    className: revision.class_name,
+    customContent: revision.custom_content,
+  }
+}
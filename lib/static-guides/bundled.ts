@@ -0,0 +1,12 @@
+import type { StaticGuide } from './convert'
+import earthProcesses from './guides/exam2-earthprocesses.json'
+import ecosystems from './guides/exam3-ecosystems.json'
+import classification from './guides/exam4-classificationandbiodiversity.json'
+
+// The converted guides ship with the app, so the old pages still render
+// before scripts/import-static-guides.ts has been run against a database.
+const BUNDLED_GUIDES = [earthProcesses, ecosystems, classification] as StaticGuide[]
+
+export function bundledStaticGuide(route: string): StaticGuide | undefined {
+  return BUNDLED_GUIDES.find(guide => guide.route === route)
+}
@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest'
+import { convertStaticGuidePage } from './convert'
+
+// A cut-down page in the shape of the old app/marinescience/exam*/page.tsx
+function page(cards: string, questions = '[]') {
+  return `
+"use client"
+const practiceQuestions: PracticeQuestion[] = ${questions}
+
+export default function Page() {
+  const saveToMyGuides = async () => {
+    await fetch('/api/study-guides/save-static', {
+      method: 'POST',
+      body: JSON.stringify({
+        guideId: "marinescience-exam9-tides",
+        title: "AICE Marine Science - Chapter 9: Tides",
+        subject: "science",
+        gradeLevel: "high-school",
+        staticRoute: "/marinescience/exam9-tides",
+        userId: user.id
+      })
+    })
+  }
+
+  return (
+    <div>
+      <Card><CardContent><Progress value={progressPercentage} /></CardContent></Card>
+      ${cards}
+    </div>
+  )
+}
+`
+}
+
+describe('convertStaticGuidePage', () => {
+  it('reads the guide details and turns collapsible cards into sections', () => {
+    const guide = convertStaticGuidePage(page(`
+      <Card>
+        <CardHeader onClick={() => toggleSection('tides')}>
+          <CardTitle>🌊 Tides <Button onClick={() => toggleStudyItem('tides')}>Mark</Button></CardTitle>
+        </CardHeader>
+        {expandedSections.includes('tides') && (
+          <CardContent>
+            <h4 className="font-semibold">Spring &amp; Neap:</h4>
+            <ul>
+              <li>&bull; <strong>Spring</strong> tides: CO<sub>2</sub> has nothing to do with it</li>
+              <li>✓ Range = high &minus; low</li>
+            </ul>
+          </CardContent>
+        )}
+      </Card>
+    `))
+
+    expect(guide).toMatchObject({
+      route: '/marinescience/exam9-tides',
+      title: 'AICE Marine Science - Chapter 9: Tides',
+      subject: 'science',
+      gradeLevel: 'high-school',
+    })
+    expect(guide.content.sections).toEqual([
+      {
+        id: 'tides',
+        type: 'section',
+        title: '🌊 Tides',
+        content: { type: 'text', markdown: '' },
+        children: [{
+          id: 'tides-text-1',
+          type: 'text',
+          content: {
+            type: 'text',
+            markdown: '#### Spring & Neap:\n\n- **Spring** tides: CO₂ has nothing to do with it\n- Range = high − low',
+          },
+        }],
+      },
+    ])
+  })
+
+  it('gives tables, callouts and definitions their own blocks', () => {
+    const guide = convertStaticGuidePage(page(`
+      <Card>
+        <CardHeader onClick={() => toggleSection('zones')}><CardTitle>Zones</CardTitle></CardHeader>
+        {expandedSections.includes('zones') && (
+          <CardContent>
+            <table>
+              <thead><tr><th>Zone</th><th>Depth</th></tr></thead>
+              <tbody><tr><td><strong>Photic</strong></td><td>0-200 m</td></tr></tbody>
+            </table>
+            <Alert className="border-yellow-200 bg-yellow-50">
+              <Star className="h-4 w-4" />
+              <AlertDescription>
+                <strong>💡 EXAM TIP:</strong> Light runs out <em>fast</em>.
+                <ul><li>• Blue goes deepest</li></ul>
+              </AlertDescription>
+            </Alert>
+            <div className="border-l-4 border-emerald-600 pl-4">
+              <strong>Littoral zone:</strong> Between the tide marks
+            </div>
+          </CardContent>
+        )}
+      </Card>
+    `))
+
+    expect(guide.content.sections[0].children).toEqual([
+      {
+        id: 'zones-table-1',
+        type: 'table',
+        content: { type: 'table', headers: ['Zone', 'Depth'], rows: [['Photic', '0-200 m']], headerStyle: 'default' },
+      },
+      {
+        id: 'zones-alert-1',
+        type: 'alert',
+        content: { type: 'alert', variant: 'exam-tip', title: '💡 EXAM TIP', message: 'Light runs out fast.\n• Blue goes deepest' },
+      },
+      {
+        id: 'zones-definition-1',
+        type: 'definition',
+        content: { type: 'definition', term: 'Littoral zone', definition: 'Between the tide marks', colorVariant: 'green' },
+      },
+    ])
+  })
+
+  it('turns the practice card into a quiz and the checklist card into a checklist', () => {
+    const guide = convertStaticGuidePage(page(`
+      <Card>
+        <CardHeader><CardTitle>📝 Interactive Exam Practice</CardTitle></CardHeader>
+        <CardContent><p>{practiceQuestions[currentQuestion].question}</p></CardContent>
+      </Card>
+      <Card>
+        <CardHeader><CardTitle>📋 Final Study Checklist</CardTitle></CardHeader>
+        <CardContent>
+          <div onClick={() => toggleChecklistItem('range')}>
+            <CheckCircle /><span>Calculate tidal range</span>
+          </div>
+        </CardContent>
+      </Card>
+    `, `[
+      {
+        id: 'q1',
+        type: 'multiple-choice',
+        question: 'Spring tides happen at:',
+        options: ['Full moon', 'Quarter moon'],
+        correctAnswer: 'Full moon',
+        explanation: 'Sun, Moon and Earth line up.'
+      }
+    ]`))
+
+    expect(guide.content.sections).toEqual([
+      {
+        id: 'interactive-exam-practice',
+        type: 'quiz',
+        title: '📝 Interactive Exam Practice',
+        content: {
+          type: 'quiz',
+          questions: [{
+            id: 'q1',
+            questionType: 'multiple-choice',
+            question: 'Spring tides happen at:',
+            options: ['Full moon', 'Quarter moon'],
+            correctAnswer: 'Full moon',
+            explanation: 'Sun, Moon and Earth line up.',
+          }],
+        },
+      },
+      {
+        id: 'final-study-checklist',
+        type: 'checklist',
+        title: '📋 Final Study Checklist',
+        content: { type: 'checklist', items: [{ id: 'range', label: 'Calculate tidal range' }] },
+      },
+    ])
+  })
+
+  it('refuses a page that is not a static guide', () => {
+    expect(() => convertStaticGuidePage('export default function Page() { return <div /> }', 'other.tsx'))
+      .toThrow('other.tsx: no static guide details')
+  })
+})
@@ -0,0 +1,521 @@
+import ts from 'typescript'
+import type {
+  AlertContent,
+  CustomGuideContent,
+  CustomSection,
+  DefinitionColorVariant,
+  QuizQuestion,
+} from '@/lib/types/custom-guide'
+
+// Turning a hand-written static study guide page (as app/marinescience/ had) into
+// custom guide content, so it can live in study_guides and be edited in the
+// block editor. The page's JSX is read, not run: each collapsible Card becomes
+// a section, tables, callouts and "Term: definition" rows become their own
+// blocks, the rest becomes markdown text, and the practice questions and
+// final checklist become quiz and checklist blocks. Block ids are derived from
+// the page, so importing the same page again lines up with the last import.
+// Used by scripts/import-static-guides.ts.
+
+export interface StaticGuide {
+  // The page's URL, which redirects to the imported guide
+  route: string
+  title: string
+  subject: string
+  gradeLevel: string
+  content: CustomGuideContent
+}
+
+type Mode = 'markdown' | 'plain'
+
+// Text pieces of a section, before neighbouring pieces are merged into one text block
+type Piece = { text: string } | { section: CustomSection }
+
+const ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', bull: '•', rarr: '→', larr: '←',
+  harr: '↔', times: '×', divide: '÷', deg: '°', plusmn: '±', micro: 'µ', sup2: '²', sup3: '³',
+  Sigma: 'Σ', Delta: 'Δ', delta: 'δ', mu: 'μ', ndash: '–', mdash: '—', le: '≤', ge: '≥', asymp: '≈',
+  ne: '≠', minus: '−', middot: '·', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', check: '✓',
+}
+const SUBSCRIPTS: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+  '+': '₊', '-': '₋', a: 'ₐ', e: 'ₑ', o: 'ₒ', x: 'ₓ', h: 'ₕ', k: 'ₖ', l: 'ₗ', m: 'ₘ', n: 'ₙ', p: 'ₚ', s: 'ₛ', t: 'ₜ',
+}
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '-': '⁻', n: 'ⁿ',
+}
+const INLINE_TAGS = new Set(['strong', 'b', 'em', 'i', 'u', 'sub', 'sup', 'span', 'code', 'br', 'a', 'Badge', 'label'])
+const SKIPPED_TAGS = new Set(['Button', 'button', 'input', 'textarea', 'Progress', 'svg'])
+const LIST_MARKER = /^\s*(?:[•✓✔→-]|\d+[.)])\s*/
+const DEFINITION_COLORS: DefinitionColorVariant[] = ['purple', 'blue', 'teal', 'green', 'pink', 'orange']
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-fA-F]+|\w+);/g, (match, name: string) => {
+    if (name.startsWith('#x')) return String.fromCodePoint(parseInt(name.slice(2), 16))
+    if (name.startsWith('#')) return String.fromCodePoint(Number(name.slice(1)))
+    return ENTITIES[name] ?? match
+  })
+}
+
+// JSX's whitespace rules: lines are trimmed and joined with a space, blank lines dropped
+function jsxText(node: ts.JsxText): string {
+  const lines = node.text.split(/\r?\n/)
+  const kept = lines
+    .map((line, i) => {
+      let out = line
+      if (i > 0) out = out.trimStart()
+      if (i < lines.length - 1) out = out.trimEnd()
+      return out
+    })
+    .filter(line => line !== '')
+  return decodeEntities(kept.join(' ').replace(/\t/g, ' '))
+}
+
+function tagOf(node: ts.Node): string | null {
+  if (ts.isJsxElement(node)) return node.openingElement.tagName.getText()
+  if (ts.isJsxSelfClosingElement(node)) return node.tagName.getText()
+  return null
+}
+
+function attribute(node: ts.Node, name: string): ts.JsxAttributeValue | undefined {
+  const attrs = ts.isJsxElement(node)
+    ? node.openingElement.attributes
+    : ts.isJsxSelfClosingElement(node)
+      ? node.attributes
+      : null
+  const attr = attrs?.properties.find(p => ts.isJsxAttribute(p) && p.name.getText() === name)
+  return attr && ts.isJsxAttribute(attr) ? attr.initializer : undefined
+}
+
+function stringAttribute(node: ts.Node, name: string): string {
+  const value = attribute(node, name)
+  if (!value) return ''
+  if (ts.isStringLiteral(value)) return value.text
+  if (ts.isJsxExpression(value) && value.expression && ts.isStringLiteralLike(value.expression)) {
+    return value.expression.text
+  }
+  return ''
+}
+
+// The first string argument to `fn(...)` in an onClick handler, e.g. toggleSection('tides')
+function handlerArgument(node: ts.Node, fn: string): string | null {
+  const value = attribute(node, 'onClick')
+  if (!value) return null
+  let found: string | null = null
+  const visit = (n: ts.Node) => {
+    if (found) return
+    if (ts.isCallExpression(n) && n.expression.getText() === fn && n.arguments[0] && ts.isStringLiteralLike(n.arguments[0])) {
+      found = n.arguments[0].text
+      return
+    }
+    ts.forEachChild(n, visit)
+  }
+  visit(value)
+  return found
+}
+
+// The JSX children that render: text, elements, and the element side of `cond && <X/>`
+function childrenOf(node: ts.Node): ts.Node[] {
+  if (!ts.isJsxElement(node) && !ts.isJsxFragment(node)) return []
+  const out: ts.Node[] = []
+  for (const child of node.children) {
+    if (ts.isJsxExpression(child)) {
+      let expr = child.expression
+      while (expr && ts.isParenthesizedExpression(expr)) expr = expr.expression
+      if (!expr) continue
+      if (ts.isStringLiteralLike(expr)) out.push(expr)
+      else if (ts.isBinaryExpression(expr) && expr.operatorToken.kind === ts.SyntaxKind.AmpersandAmpersandToken) {
+        let right = expr.right
+        while (ts.isParenthesizedExpression(right)) right = right.expression
+        if (ts.isJsxElement(right) || ts.isJsxSelfClosingElement(right) || ts.isJsxFragment(right)) out.push(right)
+      }
+    } else {
+      out.push(child)
+    }
+  }
+  return out
+}
+
+function elementsOf(node: ts.Node): ts.Node[] {
+  return childrenOf(node).filter(c => tagOf(c) !== null || ts.isJsxFragment(c))
+}
+
+function isIcon(tag: string): boolean {
+  return /^[A-Z]/.test(tag) && !['Badge', 'Alert', 'AlertDescription', 'Card', 'CardHeader', 'CardTitle', 'CardContent', 'Image'].includes(tag)
+}
+
+function mapChars(text: string, table: Record<string, string>, fallback: string): string {
+  return [...text].every(c => table[c]) ? [...text].map(c => table[c]).join('') : `${fallback}${text}`
+}
+
+function inline(node: ts.Node, mode: Mode): string {
+  if (ts.isJsxText(node)) return jsxText(node)
+  if (ts.isStringLiteralLike(node)) return node.text
+  const tag = tagOf(node)
+  if (tag === null && !ts.isJsxFragment(node)) return ''
+  if (tag && (SKIPPED_TAGS.has(tag) || (isIcon(tag) && tag !== 'Badge'))) return ''
+  if (tag === 'br') return '\n'
+
+  const inner = childrenOf(node).map(c => inline(c, mode)).join('')
+  switch (tag) {
+    case 'strong':
+    case 'b':
+      return mode === 'markdown' && inner.trim() ? `**${inner}**` : inner
+    case 'em':
+    case 'i':
+    case 'u':
+      return mode === 'markdown' && inner.trim() ? `*${inner}*` : inner
+    case 'sub':
+      return mapChars(inner, SUBSCRIPTS, '_')
+    case 'sup':
+      return mapChars(inner, SUPERSCRIPTS, '^')
+    case 'Badge':
+      return ` (${inner.trim()})`
+    default:
+      // Block elements written inside a line still start on their own line
+      return tag && !INLINE_TAGS.has(tag) ? `\n${inner}\n` : inner
+  }
+}
+
+function clean(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/[  ]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+}
+
+function plainText(node: ts.Node): string {
+  return clean(inline(node, 'plain'))
+}
+
+function isInlineOnly(node: ts.Node): boolean {
+  return childrenOf(node).every(c => {
+    const tag = tagOf(c)
+    return tag === null ? !ts.isJsxFragment(c) : INLINE_TAGS.has(tag) || isIcon(tag) || SKIPPED_TAGS.has(tag)
+  })
+}
+
+// Tailwind colours folded into the few the guide blocks come in
+const COLOR_FAMILIES: Record<string, string> = {
+  red: 'red', rose: 'red', orange: 'orange', amber: 'yellow', yellow: 'yellow', lime: 'green', green: 'green',
+  emerald: 'green', teal: 'teal', cyan: 'blue', sky: 'blue', blue: 'blue', indigo: 'blue', violet: 'purple',
+  purple: 'purple', fuchsia: 'pink', pink: 'pink',
+}
+
+function colorOf(className: string): string | null {
+  for (const [, color] of className.matchAll(/\b(?:border|bg)-([a-z]+)-\d+/g)) {
+    if (COLOR_FAMILIES[color]) return COLOR_FAMILIES[color]
+  }
+  return null
+}
+
+class Converter {
+  private counters = new Map<string, number>()
+
+  constructor(private sectionId: string) {}
+
+  private nextId(kind: string): string {
+    const n = (this.counters.get(kind) ?? 0) + 1
+    this.counters.set(kind, n)
+    return `${this.sectionId}-${kind}-${n}`
+  }
+
+  /** The blocks for a node's children, neighbouring text merged into one text block. */
+  sections(node: ts.Node): CustomSection[] {
+    const out: CustomSection[] = []
+    let text: string[] = []
+    const flush = () => {
+      const markdown = text.join('\n\n').trim()
+      if (markdown) out.push({ id: this.nextId('text'), type: 'text', content: { type: 'text', markdown } })
+      text = []
+    }
+    for (const piece of childrenOf(node).flatMap(c => this.pieces(c, 'markdown'))) {
+      if ('text' in piece) text.push(piece.text)
+      else {
+        flush()
+        out.push(piece.section)
+      }
+    }
+    flush()
+    return out
+  }
+
+  private pieces(node: ts.Node, mode: Mode): Piece[] {
+    if (ts.isJsxText(node) || ts.isStringLiteralLike(node)) {
+      const text = clean(inline(node, mode))
+      return text ? [{ text }] : []
+    }
+    const tag = tagOf(node)
+    if (tag && (SKIPPED_TAGS.has(tag) || isIcon(tag))) return []
+
+    switch (tag) {
+      case 'table':
+        return [{ section: this.table(node) }]
+      case 'Alert':
+        return this.alert(node)
+      case 'Image':
+      case 'img':
+        return [{
+          section: {
+            id: this.nextId('image'),
+            type: 'image',
+            content: { type: 'image', url: stringAttribute(node, 'src'), alt: stringAttribute(node, 'alt') },
+          },
+        }]
+      case 'ul':
+      case 'ol': {
+        // Lists don't nest in guide text, so an item's own sub-points follow it on its line
+        const items = elementsOf(node).map(li => {
+          const [first = '', ...rest] = clean(inline(li, mode)).split('\n').map(line => line.replace(LIST_MARKER, ''))
+          return rest.length > 0 ? `${first} — ${rest.join('; ')}` : first
+        })
+        const marker = mode === 'markdown' ? '- ' : '• '
+        return [{ text: items.filter(Boolean).map(item => `${marker}${item}`).join('\n') }]
+      }
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6': {
+        const heading = plainText(node)
+        if (!heading) return []
+        return [{ text: mode === 'markdown' ? `${tag === 'h3' ? '###' : '####'} ${heading}` : heading }]
+      }
+    }
+
+    const definition = this.definition(node)
+    if (definition) return [{ section: definition }]
+
+    if (tag && isInlineOnly(node)) {
+      const text = clean(inline(node, mode))
+      return text ? [{ text }] : []
+    }
+    return childrenOf(node).flatMap(c => this.pieces(c, mode))
+  }
+
+  private table(node: ts.Node): CustomSection {
+    const rows: string[][] = []
+    let headers: string[] = []
+    const visit = (n: ts.Node, inHead: boolean) => {
+      const tag = tagOf(n)
+      if (tag === 'tr') {
+        const cells = elementsOf(n).map(cell => plainText(cell).replace(/\n/g, ' '))
+        if (inHead || elementsOf(n).every(cell => tagOf(cell) === 'th')) headers = cells
+        else rows.push(cells)
+        return
+      }
+      for (const c of childrenOf(n)) visit(c, inHead || tag === 'thead')
+    }
+    visit(node, false)
+    if (headers.length === 0 && rows.length > 0) headers = rows.shift()!
+    const color = colorOf(elementsOf(node).map(c => stringAttribute(elementsOf(c)[0] ?? c, 'className')).join(' '))
+    const headerStyle = color === 'blue' || color === 'green' || color === 'purple' ? color : 'default'
+    return { id: this.nextId('table'), type: 'table', content: { type: 'table', headers, rows, headerStyle } }
+  }
+
+  // A callout becomes an alert; a heading or leading "Label:" inside it becomes
+  // its title, and any table in it follows as its own block
+  private alert(node: ts.Node): Piece[] {
+    const body = elementsOf(node).find(c => tagOf(c) === 'AlertDescription') ?? node
+    const children = childrenOf(body).filter(c => !(ts.isJsxText(c) && !jsxText(c).trim()))
+    let title: string | undefined
+    const first = children[0]
+    if (first && /^h[1-6]$/.test(tagOf(first) ?? '')) {
+      title = plainText(first)
+      children.shift()
+    } else if (first && ['strong', 'b'].includes(tagOf(first) ?? '') && plainText(first).endsWith(':')) {
+      title = plainText(first)
+      children.shift()
+    }
+    title = title?.replace(/:$/, '').trim() || undefined
+
+    const lines: string[] = []
+    const after: Piece[] = []
+    let run = ''
+    const flush = () => {
+      const text = clean(run)
+      if (text) lines.push(text)
+      run = ''
+    }
+    for (const child of children) {
+      const tag = tagOf(child)
+      if (!tag || INLINE_TAGS.has(tag)) {
+        run += inline(child, 'plain')
+        continue
+      }
+      flush()
+      for (const piece of this.pieces(child, 'plain')) {
+        if ('text' in piece) lines.push(piece.text)
+        else after.push(piece)
+      }
+    }
+    flush()
+
+    const className = stringAttribute(node, 'className')
+    const color = colorOf(className)
+    const variant: AlertContent['variant'] = /EXAM TIP/i.test(title ?? '')
+      ? 'exam-tip'
+      : color === 'red' || color === 'orange'
+        ? 'warning'
+        : color === 'green'
+          ? 'success'
+          : color === 'yellow' || color === 'amber'
+            ? 'exam-tip'
+            : 'info'
+    const message = lines.join('\n').trim()
+    const alert: Piece[] = message || title
+      ? [{ section: { id: this.nextId('alert'), type: 'alert', content: { type: 'alert', variant, title, message } } }]
+      : []
+    return [...alert, ...after]
+  }
+
+  // <div className="border-l-4 border-blue-600 ..."><strong>Term:</strong> What it means</div>
+  private definition(node: ts.Node): CustomSection | null {
+    const className = stringAttribute(node, 'className')
+    if (!/\bborder-l-4\b/.test(className)) return null
+    const children = childrenOf(node).filter(c => !(ts.isJsxText(c) && !jsxText(c).trim()))
+    const term = children[0] && ['strong', 'b'].includes(tagOf(children[0]) ?? '') ? plainText(children[0]) : ''
+    if (!term.endsWith(':')) return null
+    const definition = clean(children.slice(1).map(c => inline(c, 'plain')).join('')).replace(/\n/g, ' ')
+    const color = colorOf(className)
+    const colorVariant = DEFINITION_COLORS.find(c => c === color) ??
+      (color === 'red' ? 'pink' : color === 'yellow' ? 'orange' : 'purple')
+    return {
+      id: this.nextId('definition'),
+      type: 'definition',
+      content: { type: 'definition', term: term.replace(/:$/, '').trim(), definition, colorVariant },
+    }
+  }
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'section'
+}
+
+function literalValue(node: ts.Expression): unknown {
+  if (ts.isStringLiteralLike(node)) return node.text
+  if (ts.isNumericLiteral(node)) return Number(node.text)
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false
+  if (ts.isArrayLiteralExpression(node)) return node.elements.map(literalValue)
+  if (ts.isObjectLiteralExpression(node)) {
+    const out: Record<string, unknown> = {}
+    for (const p of node.properties) {
+      if (ts.isPropertyAssignment(p)) out[p.name.getText().replace(/^['"]|['"]$/g, '')] = literalValue(p.initializer)
+    }
+    return out
+  }
+  return undefined
+}
+
+function findAll<T extends ts.Node>(root: ts.Node, test: (n: ts.Node) => n is T): T[] {
+  const out: T[] = []
+  const visit = (n: ts.Node) => {
+    if (test(n)) out.push(n)
+    ts.forEachChild(n, visit)
+  }
+  visit(root)
+  return out
+}
+
+function mentions(node: ts.Node, identifier: string): boolean {
+  return findAll(node, (n): n is ts.Identifier => ts.isIdentifier(n) && n.text === identifier).length > 0
+}
+
+// Cards not inside another card, in page order
+function topLevelCards(root: ts.Node): ts.Node[] {
+  const out: ts.Node[] = []
+  const visit = (n: ts.Node) => {
+    if (tagOf(n) === 'Card') {
+      out.push(n)
+      return
+    }
+    ts.forEachChild(n, visit)
+  }
+  visit(root)
+  return out
+}
+
+function practiceQuestions(file: ts.SourceFile): QuizQuestion[] {
+  const declaration = findAll(file, ts.isVariableDeclaration).find(d => d.name.getText() === 'practiceQuestions')
+  const value = declaration?.initializer ? literalValue(declaration.initializer) : undefined
+  if (!Array.isArray(value)) return []
+  return value.map((q: Record<string, unknown>, i) => ({
+    id: typeof q.id === 'string' ? q.id : `q${i + 1}`,
+    questionType: q.type === 'multiple-choice' || q.type === 'calculation' || q.type === 'true-false' ? q.type : 'short-answer',
+    question: decodeEntities(String(q.question ?? '')),
+    options: Array.isArray(q.options) ? q.options.map(o => decodeEntities(String(o))) : undefined,
+    correctAnswer: decodeEntities(String(q.correctAnswer ?? '')),
+    explanation: typeof q.explanation === 'string' ? decodeEntities(q.explanation) : undefined,
+  }))
+}
+
+function cardTitle(card: ts.Node): string {
+  const title = findAll(card, (n): n is ts.JsxElement => ts.isJsxElement(n) && tagOf(n) === 'CardTitle')[0]
+  return title ? plainText(title).replace(/\n/g, ' ') : ''
+}
+
+function cardSection(card: ts.Node, questions: QuizQuestion[], usedIds: Set<string>): CustomSection | null {
+  const header = elementsOf(card).find(c => tagOf(c) === 'CardHeader')
+  const content = findAll(card, (n): n is ts.JsxElement => ts.isJsxElement(n) && tagOf(n) === 'CardContent')[0]
+  const title = cardTitle(card)
+  // The page's own progress bar; the guide viewer has one
+  if (!content || mentions(card, 'progressPercentage')) return null
+
+  const toggled = header ? handlerArgument(header, 'toggleSection') : null
+  let id = toggled ?? slug(title)
+  while (usedIds.has(id)) id = `${id}-2`
+  usedIds.add(id)
+
+  if (mentions(card, 'currentQuestion')) {
+    if (questions.length === 0) return null
+    return { id, type: 'quiz', title, content: { type: 'quiz', questions } }
+  }
+
+  const checklist = findAll(content, (n): n is ts.JsxElement => ts.isJsxElement(n) && handlerArgument(n, 'toggleChecklistItem') !== null)
+  if (checklist.length > 0) {
+    return {
+      id,
+      type: 'checklist',
+      title,
+      content: {
+        type: 'checklist',
+        items: checklist.map(item => ({ id: handlerArgument(item, 'toggleChecklistItem')!, label: plainText(item).replace(/\n/g, ' ') })),
+      },
+    }
+  }
+
+  return {
+    id,
+    type: 'section',
+    title,
+    content: { type: 'text', markdown: '' },
+    children: new Converter(id).sections(content),
+  }
+}
+
+/** The guide in a static page's source; throws when it isn't one of those pages. */
+export function convertStaticGuidePage(source: string, fileName = 'page.tsx'): StaticGuide {
+  const file = ts.createSourceFile(fileName, source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX)
+
+  // The details the page's "Save to My Guides" button sends
+  const details = findAll(file, ts.isObjectLiteralExpression)
+    .map(o => literalValue(o) as Record<string, unknown>)
+    .find(o => typeof o.staticRoute === 'string' && typeof o.title === 'string')
+  if (!details) throw new Error(`${fileName}: no static guide details (staticRoute, title) found`)
+
+  const questions = practiceQuestions(file)
+  const usedIds = new Set<string>()
+  const sections = topLevelCards(file).flatMap(card => cardSection(card, questions, usedIds) ?? [])
+  if (sections.length === 0) throw new Error(`${fileName}: no sections found`)
+
+  return {
+    route: String(details.staticRoute),
+    title: String(details.title),
+    subject: String(details.subject ?? 'science'),
+    gradeLevel: String(details.gradeLevel ?? 'high-school'),
+    content: { version: '1.0', sections },
+  }
+}
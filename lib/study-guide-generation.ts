@@ -0,0 +1,108 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ClaudeService } from './claude-api'
+import { FileProcessor } from './file-processing'
+import type { StudyGuideRequest } from '@/types'
+
+export type StudyGuideProgress = { type: 'progress'; message: string } | { type: 'content'; chunk: string }
+
+export interface GeneratedStudyGuide {
+  id: string
+  title: string
+  format: string
+}
+
+/** The request is complete enough to generate from; null when it is, else why not. */
+export function studyGuideRequestError(body: StudyGuideRequest): string | null {
+  const hasFiles = !!(body.cloudinaryFiles?.length || body.directContent?.length || body.files?.length)
+  if (!hasFiles) return 'No files provided'
+  if (!body.studyGuideName || !body.subject || !body.gradeLevel || !body.format) return 'Missing required fields'
+  return null
+}
+
+/**
+ * Generate and save a study guide, reporting progress messages and the
+ * streamed text as it arrives. Run by the generate_study_guide job.
+ */
+export async function generateStudyGuide(
+  supabase: SupabaseClient,
+  body: StudyGuideRequest,
+  userId: string | null,
+  onProgress: (p: StudyGuideProgress) => void
+): Promise<GeneratedStudyGuide> {
+  onProgress({ type: 'progress', message: 'Processing your materials...' })
+
+  // Process files from multiple sources
+  const allContent: Array<{ name: string; content: string }> = []
+
+  // 1. Process Cloudinary files (fetched and text-extracted server-side)
+  if (body.cloudinaryFiles && body.cloudinaryFiles.length > 0) {
+    onProgress({ type: 'progress', message: 'Loading your files...' })
+    const processedFiles = await Promise.all(
+      body.cloudinaryFiles.map(cloudinaryFile => FileProcessor.processFileFromUrl(cloudinaryFile.url, cloudinaryFile.filename))
+    )
+    allContent.push(...processedFiles.map(f => ({ name: f.name, content: f.content })))
+  }
+
+  // 2. Add directly processed content (already extracted client-side, bypassed Cloudinary)
+  if (body.directContent && body.directContent.length > 0) {
+    allContent.push(...body.directContent)
+  }
+
+  // 3. Handle legacy files format (if any)
+  if (allContent.length === 0 && body.files && body.files.length > 0) {
+    allContent.push(...body.files.map(f => ({ name: f.name, content: f.content })))
+  }
+
+  const combinedContent = allContent
+    .map(file => `--- ${file.name} ---\n${file.content}`)
+    .join('\n\n')
+
+  onProgress({ type: 'progress', message: 'Creating your study guide...' })
+
+  const claudeService = new ClaudeService()
+  let fullContent = ''
+  let usage: unknown = null
+
+  const streamGenerator = claudeService.generateStudyGuideStream({
+    content: combinedContent,
+    subject: body.subject,
+    gradeLevel: body.gradeLevel,
+    format: body.format,
+    topicFocus: body.topicFocus,
+    difficultyLevel: body.difficultyLevel,
+    additionalInstructions: body.additionalInstructions,
+  })
+
+  // The text is yielded chunk by chunk; the usage comes back as the return value
+  for (let step = await streamGenerator.next(); ; step = await streamGenerator.next()) {
+    if (step.done) {
+      usage = step.value.usage
+      break
+    }
+    fullContent += step.value
+    onProgress({ type: 'content', chunk: step.value })
+  }
+
+  onProgress({ type: 'progress', message: 'Saving to database...' })
+
+  const { data: savedGuide, error } = await supabase
+    .from('study_guides')
+    .insert({
+      title: body.studyGuideName,
+      subject: body.subject,
+      grade_level: body.gradeLevel,
+      format: body.format,
+      content: fullContent,
+      topic_focus: body.topicFocus,
+      difficulty_level: body.difficultyLevel,
+      additional_instructions: body.additionalInstructions,
+      file_count: (body.cloudinaryFiles?.length || 0) + (body.directContent?.length || 0) + (body.files?.length || 0),
+      token_usage: usage,
+      user_id: userId,
+    })
+    .select('id, title, format')
+    .single()
+
+  if (error || !savedGuide) throw new Error(`Failed to save: ${error?.message ?? 'no data returned'}`)
+  return savedGuide
+}
@@ -1,5 +1,11 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createAdminClient } from './supabase-server'
-import { runGradingPipeline } from './grade-exam-pipeline'
+import { runGradingPipeline, type GradingPipelineInput } from './grade-exam-pipeline'
+import { gradeSchemeFor } from './grading/apply-grade-scheme'
+import { queueLowConfidenceQuestions } from './grading/review-queue'
+import { sanitizeRubric, type Rubric } from './grading/rubric'
+import { loadAnchors, loadExemplars } from './grading/anchors'
+import { PermanentJobError } from './jobs/retry'
 
 interface FileMeta {
   url: string
@@ -38,7 +44,7 @@ function sniffMime(buf: Buffer): string | null {
   return null
 }
 
-async function fetchAsBuffer(
+export async function fetchAsBuffer(
   url: string,
   fallbackName: string,
   storedType?: string | null
@@ -65,62 +71,132 @@ async function fetchAsBuffer(
   return { buffer: buf, name, type }
 }
 
+interface SubmissionRow {
+  id: string
+  assignment_id: string
+  student_id: string
+  class_id: string | null
+  file_urls: unknown
+}
+
+interface AssignmentRow {
+  id: string
+  teacher_id: string
+  title: string
+  mark_scheme_url: string | null
+  grading_instructions: string | null
+  rubric: unknown
+}
+
 /**
- * Grades a submission using the shared grading pipeline — the same logic path
- * the teacher's manual grade-exam page uses, with no internal HTTP hop.
- *
- * After grading, enriches the grading_results row with real student and class
- * metadata so the teacher's My Reports page shows meaningful info.
- *
- * Throws on any failure; caller should mark the submission as 'failed'.
+ * Load a submission and its assignment and check they can be graded. Failures
+ * no retry can fix throw PermanentJobError.
  */
-export async function gradeSubmission(submissionId: string): Promise<{ gradingResultId: string }> {
-  const supabase = createAdminClient()
-
+async function loadGradable(
+  supabase: SupabaseClient,
+  submissionId: string
+): Promise<{ submission: SubmissionRow; assignment: AssignmentRow; rubric: Rubric | null; fileUrls: FileMeta[] }> {
   const { data: submission, error: subError } = await supabase
     .from('assignment_submissions')
     .select('id, assignment_id, student_id, class_id, file_urls')
     .eq('id', submissionId)
     .single()
 
-  if (subError || !submission) throw new Error('Submission not found')
+  if (subError || !submission) throw new PermanentJobError('Submission not found')
 
   const { data: assignment, error: aErr } = await supabase
     .from('assignments')
-    .select('id, teacher_id, title, mark_scheme_url, grading_instructions')
+    .select('id, teacher_id, title, mark_scheme_url, grading_instructions, rubric')
     .eq('id', submission.assignment_id)
     .single()
 
-  if (aErr || !assignment) throw new Error('Assignment not found')
-  if (!assignment.mark_scheme_url) {
-    throw new Error('Assignment has no mark scheme — add one before grading')
+  if (aErr || !assignment) throw new PermanentJobError('Assignment not found')
+  const rubric = sanitizeRubric(assignment.rubric)
+  if (!assignment.mark_scheme_url && !rubric) {
+    throw new PermanentJobError('Assignment has no mark scheme or rubric — add one before grading')
   }
 
   const fileUrls = (submission.file_urls as FileMeta[]) ?? []
-  if (fileUrls.length === 0) throw new Error('Submission has no files')
+  if (fileUrls.length === 0) throw new PermanentJobError('Submission has no files')
 
-  // Mark as grading so the UI can reflect progress
-  await supabase
-    .from('assignment_submissions')
-    .update({ status: 'grading', grading_error: null })
-    .eq('id', submissionId)
+  return { submission, assignment, rubric, fileUrls }
+}
 
-  // Fetch all files from Cloudinary into buffers
-  const markScheme = await fetchAsBuffer(assignment.mark_scheme_url, 'mark-scheme')
+/**
+ * Everything the grading pipeline needs for a submission: its files and the
+ * assignment's mark scheme, rubric, instructions, pinned anchors and marked
+ * exemplar scripts. Shared by gradeSubmission and calibration re-grades so
+ * both grade the same way.
+ */
+export async function submissionPipelineInput(
+  supabase: SupabaseClient,
+  submissionId: string
+): Promise<Omit<GradingPipelineInput, 'gradeScheme'>> {
+  const { assignment, rubric, fileUrls } = await loadGradable(supabase, submissionId)
+  return pipelineInput(supabase, assignment, rubric, fileUrls)
+}
 
-  const studentFiles = await Promise.all(
-    fileUrls.map((f, i) => fetchAsBuffer(f.url, f.name ?? `page-${i + 1}`, f.type))
-  )
+async function pipelineInput(
+  supabase: SupabaseClient,
+  assignment: AssignmentRow,
+  rubric: Rubric | null,
+  fileUrls: FileMeta[]
+): Promise<Omit<GradingPipelineInput, 'gradeScheme'>> {
+  // Fetch all files from Cloudinary into buffers
+  const [markScheme, studentFiles, anchors, storedExemplars] = await Promise.all([
+    assignment.mark_scheme_url ? fetchAsBuffer(assignment.mark_scheme_url, 'mark-scheme') : Promise.resolve(undefined),
+    Promise.all(fileUrls.map((f, i) => fetchAsBuffer(f.url, f.name ?? `page-${i + 1}`, f.type))),
+    loadAnchors(supabase, assignment.id),
+    loadExemplars(supabase, assignment.id),
+  ])
+  const exemplars = await Promise.all(storedExemplars.map(async e => ({
+    label: e.label,
+    marks: e.marks,
+    files: await Promise.all(e.files.map((f, i) => fetchAsBuffer(f.url, f.name ?? `${e.label} page ${i + 1}`, f.type))),
+  })))
 
-  // Run the same pipeline the teacher's manual grade-exam page uses.
   // The teacher is the "user" for this grading session (they own the assignment).
-  const result = await runGradingPipeline({
+  return {
     userId: assignment.teacher_id,
     userType: 'teacher',
     markSchemeFile: markScheme,
     studentFiles,
     additionalComments: assignment.grading_instructions ?? undefined,
-  })
+    rubric,
+    anchors,
+    exemplars,
+  }
+}
+
+/**
+ * Grades a submission using the shared grading pipeline — the same logic path
+ * the teacher's manual grade-exam page uses, with no internal HTTP hop.
+ *
+ * After grading, enriches the grading_results row with real student and class
+ * metadata so the teacher's My Reports page shows meaningful info.
+ *
+ * The submission lands in 'pending_review' with its low-confidence questions
+ * queued for the teacher; students see nothing until the teacher releases it.
+ *
+ * Throws on any failure; runs in the grade_submission job, which retries and
+ * marks the submission 'failed' once it gives up. Failures no retry can fix
+ * throw PermanentJobError.
+ */
+export async function gradeSubmission(submissionId: string): Promise<{ gradingResultId: string }> {
+  const supabase = createAdminClient()
+  const { submission, assignment, rubric, fileUrls } = await loadGradable(supabase, submissionId)
+
+  // Mark as grading so the UI can reflect progress
+  await supabase
+    .from('assignment_submissions')
+    .update({ status: 'grading', grading_error: null })
+    .eq('id', submissionId)
+
+  const input = await pipelineInput(supabase, assignment, rubric, fileUrls)
+  const gradeScheme = await gradeSchemeFor(supabase, assignment.id, submission.class_id)
+
+  // Run the same pipeline the teacher's manual grade-exam page uses.
+  const result = await runGradingPipeline({ ...input, gradeScheme })
 
   // Fetch student profile and class info to enrich the grading_results row
   const [profileRes, classRes] = await Promise.all([
@@ -144,6 +220,8 @@ export async function gradeSubmission(submissionId: string): Promise<{ gradingRe
 
   // Link the grading result to the submission (both directions) and populate
   // the metadata fields so the teacher's My Reports page shows the right info.
+  // student_user_id stays unset until the teacher releases the marks
+  // (linkResultsToStudents) — it's what lets the student read the row.
   await Promise.all([
     supabase
       .from('assignment_submissions')
@@ -153,7 +231,6 @@ export async function gradeSubmission(submissionId: string): Promise<{ gradingRe
       .from('grading_results')
       .update({
         assignment_submission_id: submissionId,
-        student_user_id: submission.student_id,
         student_first_name: profile?.first_name ?? null,
         student_last_name: profile?.last_name ?? null,
         student_name: studentName ?? 'Unknown student',
@@ -164,5 +241,12 @@ export async function gradeSubmission(submissionId: string): Promise<{ gradingRe
       .eq('id', result.id),
   ])
 
+  await queueLowConfidenceQuestions(supabase, {
+    gradingResultId: result.id,
+    submissionId,
+    assignmentId: assignment.id,
+    breakdown: result.gradeBreakdown,
+  })
+
   return { gradingResultId: result.id }
 }
@@ -120,9 +120,22 @@ export interface GradingResultRecord {
     marksAwarded: number
     marksPossible: number
     explanation: string
+    criteriaMet?: string[]
+    criteriaMissed?: string[]
+    evidence?: string[]
+    confidence?: number
+    level?: string
   }>
+  // Set for results graded in a class batch
+  class_id?: string | null
+  // The rubric it was graded against; NULL when graded per question
+  rubric?: Record<string, unknown> | null
+  // Validated grader output; NULL on results graded before it existed
+  structured_output?: Record<string, unknown> | null
+  confidence?: number | null
   additional_comments?: string
   pdf_url?: string
+  pdf_key?: string | null
   token_usage?: {
     input_tokens: number
     output_tokens: number
@@ -28,7 +28,9 @@ export interface GuideControls {
 
 export interface CustomSection {
   id: string
-  type: 'section' | 'definition' | 'alert' | 'quiz' | 'checklist' | 'table' | 'text' | 'flashcards'
+  type:
+    | 'section' | 'definition' | 'alert' | 'quiz' | 'checklist' | 'table' | 'text' | 'flashcards'
+    | 'math' | 'chemical-equation' | 'image' | 'diagram' | 'video'
   title?: string
   collapsed?: boolean
   content: SectionContent
@@ -43,6 +45,11 @@ export type SectionContent =
   | ChecklistContent
   | TableContent
   | FlashcardsContent
+  | MathContent
+  | ChemicalEquationContent
+  | ImageContent
+  | DiagramContent
+  | VideoContent
 
 export interface TextContent {
   type: 'text'
@@ -108,6 +115,54 @@ export interface FlashcardsContent {
   cards: FlashCard[]
 }
 
+export interface MathContent {
+  type: 'math'
+  latex: string // KaTeX, rendered as a display equation
+  caption?: string
+}
+
+export interface ChemicalEquationContent {
+  type: 'chemical-equation'
+  equation: string // mhchem syntax, e.g. "2H2 + O2 -> 2H2O" (see lib/chemistry/equations.ts)
+  caption?: string
+  practice?: boolean // students fill in the coefficients and check their balance
+}
+
+export interface ImageContent {
+  type: 'image'
+  url: string
+  alt: string
+  caption?: string
+}
+
+export interface DiagramHotspot {
+  id: string
+  x: number // percent of the image width, from the left
+  y: number // percent of the image height, from the top
+  label: string
+  description?: string
+}
+
+export interface DiagramContent {
+  type: 'diagram'
+  imageUrl: string
+  alt: string
+  hotspots: DiagramHotspot[]
+}
+
+export interface VideoTimestamp {
+  id: string
+  seconds: number
+  label: string
+}
+
+export interface VideoContent {
+  type: 'video'
+  url: string
+  caption?: string
+  timestamps: VideoTimestamp[]
+}
+
 // Helper type guard functions
 export function isTextContent(content: SectionContent): content is TextContent {
   return content.type === 'text'
@@ -136,3 +191,23 @@ export function isTableContent(content: SectionContent): content is TableContent
 export function isFlashcardsContent(content: SectionContent): content is FlashcardsContent {
   return content.type === 'flashcards'
 }
+
+export function isMathContent(content: SectionContent): content is MathContent {
+  return content.type === 'math'
+}
+
+export function isChemicalEquationContent(content: SectionContent): content is ChemicalEquationContent {
+  return content.type === 'chemical-equation'
+}
+
+export function isImageContent(content: SectionContent): content is ImageContent {
+  return content.type === 'image'
+}
+
+export function isDiagramContent(content: SectionContent): content is DiagramContent {
+  return content.type === 'diagram'
+}
+
+export function isVideoContent(content: SectionContent): content is VideoContent {
+  return content.type === 'video'
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { blocksToCustomContent, createEmptyBlock, customContentToBlocks, sectionToBlock, type EditorBlock } from './editor-blocks'
+
+const blocks: EditorBlock[] = [
+  { id: 'm', type: 'math', data: { type: 'math', latex: 'E = mc^2', caption: 'Mass-energy' } },
+  { id: 'c', type: 'chemical-equation', data: { type: 'chemical-equation', equation: '2H2 + O2 -> 2H2O', practice: true } },
+  { id: 'i', type: 'image', data: { type: 'image', url: 'https://img.example/reef.png', alt: 'A reef', caption: 'Figure 1' } },
+  {
+    id: 'd',
+    type: 'diagram',
+    title: 'Fish anatomy',
+    data: { type: 'diagram', imageUrl: 'https://img.example/fish.png', alt: 'A fish', hotspots: [{ id: 's1', x: 40, y: 55.5, label: 'Gills' }] },
+  },
+  {
+    id: 'v',
+    type: 'video',
+    data: { type: 'video', url: 'https://youtu.be/dQw4w9WgXcQ', timestamps: [{ id: 't1', seconds: 65, label: 'Tides' }] },
+  },
+]
+
+describe('media and science blocks', () => {
+  it('survive saving and reopening the guide', () => {
+    const reopened = customContentToBlocks(blocksToCustomContent(blocks))
+    expect(reopened).toEqual(blocks)
+  })
+
+  it('get fresh hotspot and timestamp ids when copied in', () => {
+    const [, , , diagram, video] = blocksToCustomContent(blocks).sections
+    const copy = sectionToBlock(diagram, true)
+    expect(copy.data).toMatchObject({ type: 'diagram', hotspots: [{ x: 40, y: 55.5, label: 'Gills' }] })
+    expect(copy.data.type === 'diagram' && copy.data.hotspots[0].id).not.toBe('s1')
+    const videoCopy = sectionToBlock(video, true)
+    expect(videoCopy.data.type === 'video' && videoCopy.data.timestamps[0].id).not.toBe('t1')
+  })
+
+  it('start out empty', () => {
+    expect(createEmptyBlock('chemical-equation').data).toEqual({ type: 'chemical-equation', equation: '', practice: false })
+    expect(createEmptyBlock('diagram').data).toEqual({ type: 'diagram', imageUrl: '', alt: '', hotspots: [] })
+  })
+})
@@ -1,9 +1,18 @@
 // Editor-specific types for the custom guide block editor
 
-import { CustomGuideContent, CustomSection, SectionContent, DefinitionColorVariant } from './custom-guide'
+import {
+  CustomGuideContent,
+  CustomSection,
+  SectionContent,
+  DefinitionColorVariant,
+  DiagramHotspot,
+  VideoTimestamp
+} from './custom-guide'
 
 // Block types that can be created in the editor
-export type BlockType = 'text' | 'section' | 'alert' | 'table' | 'quiz' | 'checklist' | 'definition' | 'flashcards'
+export type BlockType =
+  | 'text' | 'section' | 'alert' | 'table' | 'quiz' | 'checklist' | 'definition' | 'flashcards'
+  | 'math' | 'chemical-equation' | 'image' | 'diagram' | 'video'
 
 // Editor block structure
 export interface EditorBlock {
@@ -24,6 +33,11 @@ export type EditorBlockData =
   | ChecklistBlockData
   | DefinitionBlockData
   | FlashcardsBlockData
+  | MathBlockData
+  | ChemicalEquationBlockData
+  | ImageBlockData
+  | DiagramBlockData
+  | VideoBlockData
 
 // Text block
 export interface TextBlockData {
@@ -100,6 +114,45 @@ export interface EditorFlashCard {
   back: string
 }
 
+// Math block (a KaTeX display equation)
+export interface MathBlockData {
+  type: 'math'
+  latex: string
+  caption?: string
+}
+
+// Chemical equation block (mhchem syntax, checked for balance as it's typed)
+export interface ChemicalEquationBlockData {
+  type: 'chemical-equation'
+  equation: string
+  caption?: string
+  practice?: boolean
+}
+
+// Image block (uploaded to Cloudinary or linked)
+export interface ImageBlockData {
+  type: 'image'
+  url: string
+  alt: string
+  caption?: string
+}
+
+// Labeled diagram block (an image with numbered hotspots)
+export interface DiagramBlockData {
+  type: 'diagram'
+  imageUrl: string
+  alt: string
+  hotspots: DiagramHotspot[]
+}
+
+// Video block (YouTube/Vimeo embed with jump-to timestamps)
+export interface VideoBlockData {
+  type: 'video'
+  url: string
+  caption?: string
+  timestamps: VideoTimestamp[]
+}
+
 // Guide metadata for the editor
 export interface EditorGuideMetadata {
   title: string
@@ -131,6 +184,16 @@ export function generateFlashcardId(): string {
   return `card-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
 }
 
+// Generate a unique diagram hotspot ID
+export function generateHotspotId(): string {
+  return `spot-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
+// Generate a unique video timestamp ID
+export function generateTimestampId(): string {
+  return `time-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+}
+
 // Create a new empty block of a specific type
 export function createEmptyBlock(type: BlockType): EditorBlock {
   const id = generateBlockId()
@@ -222,6 +285,42 @@ export function createEmptyBlock(type: BlockType): EditorBlock {
         }
       }
 
+    case 'math':
+      return {
+        id,
+        type: 'math',
+        data: { type: 'math', latex: '' }
+      }
+
+    case 'chemical-equation':
+      return {
+        id,
+        type: 'chemical-equation',
+        data: { type: 'chemical-equation', equation: '', practice: false }
+      }
+
+    case 'image':
+      return {
+        id,
+        type: 'image',
+        data: { type: 'image', url: '', alt: '' }
+      }
+
+    case 'diagram':
+      return {
+        id,
+        type: 'diagram',
+        title: 'Diagram',
+        data: { type: 'diagram', imageUrl: '', alt: '', hotspots: [] }
+      }
+
+    case 'video':
+      return {
+        id,
+        type: 'video',
+        data: { type: 'video', url: '', timestamps: [] }
+      }
+
     default:
       return {
         id,
@@ -357,6 +456,36 @@ function blockDataToSectionContent(data: EditorBlockData): SectionContent {
         }))
       }
 
+    case 'math':
+      return { type: 'math', latex: data.latex, caption: data.caption }
+
+    case 'chemical-equation':
+      return {
+        type: 'chemical-equation',
+        equation: data.equation,
+        caption: data.caption,
+        practice: data.practice
+      }
+
+    case 'image':
+      return { type: 'image', url: data.url, alt: data.alt, caption: data.caption }
+
+    case 'diagram':
+      return {
+        type: 'diagram',
+        imageUrl: data.imageUrl,
+        alt: data.alt,
+        hotspots: data.hotspots.map(spot => ({ ...spot }))
+      }
+
+    case 'video':
+      return {
+        type: 'video',
+        url: data.url,
+        caption: data.caption,
+        timestamps: data.timestamps.map(stamp => ({ ...stamp }))
+      }
+
     default:
       return { type: 'text', markdown: '' }
   }
@@ -476,6 +605,57 @@ function sectionContentToBlockData(type: string, content: SectionContent, regene
         }
       }
       break
+
+    case 'math':
+      if (content.type === 'math') {
+        return { type: 'math', latex: content.latex, caption: content.caption }
+      }
+      break
+
+    case 'chemical-equation':
+      if (content.type === 'chemical-equation') {
+        return {
+          type: 'chemical-equation',
+          equation: content.equation,
+          caption: content.caption,
+          practice: content.practice ?? false
+        }
+      }
+      break
+
+    case 'image':
+      if (content.type === 'image') {
+        return { type: 'image', url: content.url, alt: content.alt, caption: content.caption }
+      }
+      break
+
+    case 'diagram':
+      if (content.type === 'diagram') {
+        return {
+          type: 'diagram',
+          imageUrl: content.imageUrl,
+          alt: content.alt,
+          hotspots: content.hotspots.map(spot => ({
+            ...spot,
+            id: regenerateIds ? generateHotspotId() : spot.id
+          }))
+        }
+      }
+      break
+
+    case 'video':
+      if (content.type === 'video') {
+        return {
+          type: 'video',
+          url: content.url,
+          caption: content.caption,
+          timestamps: content.timestamps.map(stamp => ({
+            ...stamp,
+            id: regenerateIds ? generateTimestampId() : stamp.id
+          }))
+        }
+      }
+      break
   }
 
   // Default fallback
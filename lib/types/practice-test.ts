@@ -1,32 +1,130 @@
-export type AnswerLetter = 'A' | 'B' | 'C' | 'D'
-export type BigIdea = 1 | 2 | 3 | 4 | 5 | 6
+export type AnswerLetter = 'A' | 'B' | 'C' | 'D' | 'E'
 
-export const BIG_IDEAS: BigIdea[] = [1, 2, 3, 4, 5, 6]
+export const ANSWER_LETTERS: AnswerLetter[] = ['A', 'B', 'C', 'D', 'E']
 
-export const BIG_IDEA_LABELS: Record<BigIdea, string> = {
-  1: 'Big Idea 1 — Atoms, Elements, & Compounds',
-  2: 'Big Idea 2 — Bonding & IMFs',
-  3: 'Big Idea 3 — Chemical Reactions',
-  4: 'Big Idea 4 — Kinetics',
-  5: 'Big Idea 5 — Thermodynamics',
-  6: 'Big Idea 6 — Equilibrium, Acids/Bases & Electrochem',
+// Choices per question. Tests default to four (A–D).
+export const MIN_CHOICES = 2
+export const MAX_CHOICES = 5
+export const DEFAULT_CHOICE_COUNT = 4
+
+// A category is whatever the teacher reports by: an AP unit, an NGSS
+// performance expectation, a custom tag. `id` is what answer keys and
+// breakdowns reference, so it stays stable when the label is edited.
+export interface TaxonomyCategory {
+  id: string
+  label: string
+}
+
+export interface Taxonomy {
+  name: string
+  categories: TaxonomyCategory[]
 }
 
+// Tests created before taxonomies existed (taxonomy IS NULL) report by these.
+export const AP_CHEM_BIG_IDEAS: Taxonomy = {
+  name: 'AP Chemistry Big Ideas',
+  categories: [
+    { id: '1', label: 'Big Idea 1 — Atoms, Elements, & Compounds' },
+    { id: '2', label: 'Big Idea 2 — Bonding & IMFs' },
+    { id: '3', label: 'Big Idea 3 — Chemical Reactions' },
+    { id: '4', label: 'Big Idea 4 — Kinetics' },
+    { id: '5', label: 'Big Idea 5 — Thermodynamics' },
+    { id: '6', label: 'Big Idea 6 — Equilibrium, Acids/Bases & Electrochem' },
+  ],
+}
+
+export const TAXONOMY_PRESETS = {
+  ap_chem_big_ideas: AP_CHEM_BIG_IDEAS,
+  ap_chem_units: {
+    name: 'AP Chemistry Units',
+    categories: [
+      { id: 'U1', label: 'Unit 1 — Atomic Structure and Properties' },
+      { id: 'U2', label: 'Unit 2 — Compound Structure and Properties' },
+      { id: 'U3', label: 'Unit 3 — Properties of Substances and Mixtures' },
+      { id: 'U4', label: 'Unit 4 — Chemical Reactions' },
+      { id: 'U5', label: 'Unit 5 — Kinetics' },
+      { id: 'U6', label: 'Unit 6 — Thermochemistry' },
+      { id: 'U7', label: 'Unit 7 — Equilibrium' },
+      { id: 'U8', label: 'Unit 8 — Acids and Bases' },
+      { id: 'U9', label: 'Unit 9 — Thermodynamics and Electrochemistry' },
+    ],
+  },
+  ap_bio_units: {
+    name: 'AP Biology Units',
+    categories: [
+      { id: 'U1', label: 'Unit 1 — Chemistry of Life' },
+      { id: 'U2', label: 'Unit 2 — Cell Structure and Function' },
+      { id: 'U3', label: 'Unit 3 — Cellular Energetics' },
+      { id: 'U4', label: 'Unit 4 — Cell Communication and Cell Cycle' },
+      { id: 'U5', label: 'Unit 5 — Heredity' },
+      { id: 'U6', label: 'Unit 6 — Gene Expression and Regulation' },
+      { id: 'U7', label: 'Unit 7 — Natural Selection' },
+      { id: 'U8', label: 'Unit 8 — Ecology' },
+    ],
+  },
+  ap_physics_1_units: {
+    name: 'AP Physics 1 Units',
+    categories: [
+      { id: 'U1', label: 'Unit 1 — Kinematics' },
+      { id: 'U2', label: 'Unit 2 — Force and Translational Dynamics' },
+      { id: 'U3', label: 'Unit 3 — Work, Energy, and Power' },
+      { id: 'U4', label: 'Unit 4 — Linear Momentum' },
+      { id: 'U5', label: 'Unit 5 — Torque and Rotational Dynamics' },
+      { id: 'U6', label: 'Unit 6 — Energy and Momentum of Rotating Systems' },
+      { id: 'U7', label: 'Unit 7 — Oscillations' },
+      { id: 'U8', label: 'Unit 8 — Fluids' },
+    ],
+  },
+  ngss_hs_life: {
+    name: 'NGSS High School Life Science',
+    categories: [
+      { id: 'HS-LS1', label: 'HS-LS1 — From Molecules to Organisms' },
+      { id: 'HS-LS2', label: 'HS-LS2 — Ecosystems: Interactions, Energy, and Dynamics' },
+      { id: 'HS-LS3', label: 'HS-LS3 — Heredity: Inheritance and Variation of Traits' },
+      { id: 'HS-LS4', label: 'HS-LS4 — Biological Evolution: Unity and Diversity' },
+    ],
+  },
+  ngss_hs_physical: {
+    name: 'NGSS High School Physical Science',
+    categories: [
+      { id: 'HS-PS1', label: 'HS-PS1 — Matter and Its Interactions' },
+      { id: 'HS-PS2', label: 'HS-PS2 — Motion and Stability: Forces and Interactions' },
+      { id: 'HS-PS3', label: 'HS-PS3 — Energy' },
+      { id: 'HS-PS4', label: 'HS-PS4 — Waves and Their Applications' },
+    ],
+  },
+  custom: { name: 'Custom categories', categories: [] },
+} satisfies Record<string, Taxonomy>
+
+export type TaxonomyPreset = keyof typeof TAXONOMY_PRESETS
+
 export interface AnswerKeyEntry {
   answer: AnswerLetter
-  bigIdea: BigIdea
+  category: string
+  // Weight of the question; 1 when omitted
+  points?: number
 }
 
 export type AnswerKey = Record<string, AnswerKeyEntry>
 
 export type ResponseMap = Record<string, AnswerLetter>
 
-export interface BigIdeaBreakdownEntry {
+// Which of a student's submissions counts on a class-linked test
+export type DuplicatePolicy = 'first' | 'best' | 'latest'
+
+export const DUPLICATE_POLICIES: Record<DuplicatePolicy, string> = {
+  first: 'First attempt only',
+  best: 'Best attempt',
+  latest: 'Latest attempt',
+}
+
+export interface CategoryBreakdownEntry {
   correct: number
   total: number
 }
 
-export type BigIdeaBreakdown = Record<string, BigIdeaBreakdownEntry>
+// Keyed by TaxonomyCategory.id; counts questions, not points
+export type CategoryBreakdown = Record<string, CategoryBreakdownEntry>
 
 export interface QuestionContentItem {
   n: number
@@ -54,6 +152,16 @@ export interface PracticeTestRecord {
   description: string | null
   answer_key: AnswerKey
   questions_content: QuestionsContent | null
+  // NULL on tests created before taxonomies: read as AP_CHEM_BIG_IDEAS
+  taxonomy: Taxonomy | null
+  choice_count: number
+  // Fraction of a question's points deducted for a wrong (not blank) answer
+  wrong_answer_penalty: number
+  // NULL: untimed
+  time_limit_minutes: number | null
+  // Set: only signed-in students enrolled in this class can take it
+  class_id: string | null
+  duplicate_policy: DuplicatePolicy
   share_token: string
   results_share_token: string
   is_active: boolean
@@ -68,10 +176,36 @@ export interface PracticeTestSubmissionRecord {
   responses: ResponseMap
   score_total: number
   score_max: number
-  big_idea_breakdown: BigIdeaBreakdown
+  category_breakdown: CategoryBreakdown
+  attempt_id: string | null
+  // Class-linked tests only
+  student_id: string | null
   submitted_at: string
 }
 
+export interface PracticeTestAttemptRecord {
+  id: string
+  practice_test_id: string
+  student_name: string
+  resume_token: string
+  responses: ResponseMap
+  started_at: string
+  deadline_at: string | null
+  last_saved_at: string | null
+  submitted_at: string | null
+  auto_submitted: boolean
+  student_id: string | null
+}
+
+export interface AnswerEventRecord {
+  id: string
+  attempt_id: string
+  question_number: number
+  answer: AnswerLetter | null
+  changed_at: string
+  recorded_at: string
+}
+
 export interface PracticeTestPublicMeta {
   id: string
   title: string
@@ -79,6 +213,28 @@ export interface PracticeTestPublicMeta {
   questions_content: QuestionsContent | null
   is_active: boolean
   question_count: number
+  time_limit_minutes: number | null
+  // Students must sign in as an enrolled student to take it
+  class_linked: boolean
+}
+
+// What the take page needs to start or resume an attempt
+export interface AttemptSession {
+  resumeToken: string
+  studentName: string
+  startedAt: string
+  deadlineAt: string | null
+  // For correcting the countdown when the student's clock is off
+  serverNow: string
+  responses: ResponseMap
+}
+
+export interface SubmittedResult {
+  scoreTotal: number
+  scoreMax: number
+  categoryBreakdown: CategoryBreakdown
+  taxonomy: Taxonomy
+  autoSubmitted: boolean
 }
 
 export interface PracticeTestResultsPayload {
@@ -87,18 +243,24 @@ export interface PracticeTestResultsPayload {
     title: string
     description: string | null
     question_count: number
+    taxonomy: Taxonomy
   }
   aggregate: {
     submissions: number
     avg_score_pct: number | null
-    big_idea: BigIdeaBreakdown
+    categories: CategoryBreakdown
+    // Attempts started but not yet submitted
+    in_progress: number
   }
   submissions: Array<{
     id: string
     student_name: string
     score_total: number
     score_max: number
-    big_idea_breakdown: BigIdeaBreakdown
+    category_breakdown: CategoryBreakdown
+    attempt_id: string | null
+    started_at: string | null
+    auto_submitted: boolean
     submitted_at: string
   }>
 }
@@ -1,8 +1,32 @@
-export type QuestionType = 'multiple_choice' | 'true_false' | 'short_answer'
-export type QuestionSource = 'manual' | 'ai_suggested' | 'ai_extracted' | 'ai_runtime'
+export type QuestionType =
+  | 'multiple_choice'
+  | 'true_false'
+  | 'short_answer'
+  | 'numeric'
+  | 'multi_select'
+  | 'ordering'
+  | 'matching'
+  | 'multi_part'
+export type QuestionSource = 'manual' | 'ai_suggested' | 'ai_extracted' | 'ai_runtime' | 'imported'
 export type QuestionStatus = 'suggested' | 'approved' | 'declined' | 'archived'
 
-export const QUESTION_TYPES: QuestionType[] = ['multiple_choice', 'true_false', 'short_answer']
+export const QUESTION_TYPES: QuestionType[] = [
+  'multiple_choice',
+  'true_false',
+  'short_answer',
+  'numeric',
+  'multi_select',
+  'ordering',
+  'matching',
+  'multi_part',
+]
+
+/** Types that store their choices/items in the `options` column. */
+export const OPTION_TYPES: QuestionType[] = ['multiple_choice', 'multi_select', 'ordering', 'matching']
+
+/** Types a multi-part question's parts can use — auto-graded, one line each. */
+export type PartType = 'multiple_choice' | 'true_false' | 'numeric' | 'multi_select'
+export const PART_TYPES: PartType[] = ['multiple_choice', 'true_false', 'numeric', 'multi_select']
 
 export interface ConceptRecord {
   id: string
@@ -24,10 +48,36 @@ export interface ConceptWithCounts extends ConceptRecord {
 //   multiple_choice: { index: number }
 //   true_false:      { value: boolean }
 //   short_answer:    { sample_answer: string, rubric_notes?: string }
+//   numeric:         { value: number, tolerance?: number, tolerance_mode?: 'absolute' | 'percent',
+//                      sig_figs?: number, unit?: string }
+//   multi_select:    { indices: number[] }          — into options, partial credit
+//   ordering:        { order: number[] }            — option indices in the right sequence
+//   matching:        { matches: string[] }          — matches[i] pairs with options[i]
+//   multi_part:      { parts: QuestionPart[] }      — question_text is the shared stem
+export interface NumericAnswer {
+  value: number
+  tolerance?: number
+  tolerance_mode?: 'absolute' | 'percent'
+  sig_figs?: number
+  unit?: string
+}
+
+export interface QuestionPart {
+  type: PartType
+  prompt: string
+  options?: string[] | null
+  correct_answer: CorrectAnswer
+}
+
 export type CorrectAnswer =
   | { index: number }
   | { value: boolean }
   | { sample_answer: string; rubric_notes?: string }
+  | NumericAnswer
+  | { indices: number[] }
+  | { order: number[] }
+  | { matches: string[] }
+  | { parts: QuestionPart[] }
 
 export interface QuestionRecord {
   id: string
@@ -44,6 +94,14 @@ export interface QuestionRecord {
   source_material_url: string | null
   times_served: number
   times_correct: number
+  // Bumped on every content edit or restore; see question_review_events
+  version: number
+  // IRT calibration (null until the question has enough answered history)
+  irt_difficulty: number | null
+  irt_discrimination: number | null
+  irt_response_count: number
+  irt_flag: 'misrated' | 'low_discrimination' | null
+  irt_calibrated_at: string | null
   created_at: string
   updated_at: string
 }
@@ -58,27 +116,39 @@ export interface QuestionInput {
   difficulty?: number
 }
 
-/**
- * Validate a question payload's internal consistency (options/correct_answer
- * shape must match the question type). Returns an error message or null.
- */
-export function validateQuestionInput(input: QuestionInput): string | null {
-  if (!input.question_text?.trim()) return 'Question text is required'
-  if (!QUESTION_TYPES.includes(input.type)) return 'Invalid question type'
+function validateOptions(options: unknown, min: number, max: number, label: string): string | null {
+  if (!Array.isArray(options) || options.length < min || options.length > max) {
+    return `${label} requires ${min}-${max} options`
+  }
+  if (options.some(o => typeof o !== 'string' || !o.trim())) {
+    return 'All options must be non-empty text'
+  }
+  return null
+}
 
-  const answer = input.correct_answer as Record<string, unknown> | undefined
-  if (!answer || typeof answer !== 'object') return 'Correct answer is required'
+function isIndexList(value: unknown, length: number): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.every(i => typeof i === 'number' && Number.isInteger(i) && i >= 0 && i < length) &&
+    new Set(value).size === value.length
+  )
+}
 
-  switch (input.type) {
+/**
+ * Check that options/correct_answer have the shape the type needs. Shared by
+ * whole questions and the parts of a multi-part question.
+ */
+function validateAnswerShape(
+  type: QuestionType,
+  options: string[] | null | undefined,
+  answer: Record<string, unknown>
+): string | null {
+  switch (type) {
     case 'multiple_choice': {
-      if (!Array.isArray(input.options) || input.options.length < 2 || input.options.length > 6) {
-        return 'Multiple choice requires 2-6 options'
-      }
-      if (input.options.some(o => typeof o !== 'string' || !o.trim())) {
-        return 'All options must be non-empty text'
-      }
+      const optionsError = validateOptions(options, 2, 6, 'Multiple choice')
+      if (optionsError) return optionsError
       const index = answer.index
-      if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= input.options.length) {
+      if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= options!.length) {
         return 'Correct answer must reference a valid option'
       }
       return null
@@ -93,9 +163,87 @@ export function validateQuestionInput(input: QuestionInput): string | null {
       }
       return null
     }
+    case 'numeric': {
+      if (typeof answer.value !== 'number' || !Number.isFinite(answer.value)) {
+        return 'Numeric answer must be a number'
+      }
+      if (answer.tolerance !== undefined && (typeof answer.tolerance !== 'number' || answer.tolerance < 0)) {
+        return 'Tolerance must be zero or more'
+      }
+      if (answer.tolerance_mode !== undefined && !['absolute', 'percent'].includes(answer.tolerance_mode as string)) {
+        return 'Tolerance must be absolute or a percentage'
+      }
+      if (
+        answer.sig_figs !== undefined &&
+        (typeof answer.sig_figs !== 'number' || !Number.isInteger(answer.sig_figs) || answer.sig_figs < 1 || answer.sig_figs > 10)
+      ) {
+        return 'Significant figures must be between 1 and 10'
+      }
+      if (answer.unit !== undefined && typeof answer.unit !== 'string') return 'Unit must be text'
+      return null
+    }
+    case 'multi_select': {
+      const optionsError = validateOptions(options, 2, 8, 'Multi-select')
+      if (optionsError) return optionsError
+      if (!isIndexList(answer.indices, options!.length) || answer.indices.length === 0) {
+        return 'Mark at least one correct option'
+      }
+      return null
+    }
+    case 'ordering': {
+      const optionsError = validateOptions(options, 2, 8, 'Ordering')
+      if (optionsError) return optionsError
+      if (!isIndexList(answer.order, options!.length) || answer.order.length !== options!.length) {
+        return 'The correct order must include every item once'
+      }
+      return null
+    }
+    case 'matching': {
+      const optionsError = validateOptions(options, 2, 8, 'Matching')
+      if (optionsError) return optionsError
+      const matches = answer.matches
+      if (
+        !Array.isArray(matches) ||
+        matches.length !== options!.length ||
+        matches.some(m => typeof m !== 'string' || !m.trim())
+      ) {
+        return 'Every item needs a match'
+      }
+      return null
+    }
+    case 'multi_part': {
+      const parts = answer.parts
+      if (!Array.isArray(parts) || parts.length < 2 || parts.length > 6) {
+        return 'Multi-part questions need 2-6 parts'
+      }
+      for (const [i, part] of parts.entries()) {
+        const label = `Part ${String.fromCharCode(97 + i)}`
+        if (!part || typeof part !== 'object') return `${label} is invalid`
+        if (!PART_TYPES.includes(part.type)) return `${label} has an unsupported type`
+        if (typeof part.prompt !== 'string' || !part.prompt.trim()) return `${label} needs a prompt`
+        if (!part.correct_answer || typeof part.correct_answer !== 'object') return `${label} needs an answer`
+        const partError = validateAnswerShape(part.type, part.options, part.correct_answer)
+        if (partError) return `${label}: ${partError}`
+      }
+      return null
+    }
   }
 }
 
+/**
+ * Validate a question payload's internal consistency (options/correct_answer
+ * shape must match the question type). Returns an error message or null.
+ */
+export function validateQuestionInput(input: QuestionInput): string | null {
+  if (!input.question_text?.trim()) return 'Question text is required'
+  if (!QUESTION_TYPES.includes(input.type)) return 'Invalid question type'
+
+  const answer = input.correct_answer as Record<string, unknown> | undefined
+  if (!answer || typeof answer !== 'object') return 'Correct answer is required'
+
+  return validateAnswerShape(input.type, input.options, answer)
+}
+
 /** Strip fields a student must never see from a question row. */
 export function toStudentQuestion(q: Pick<QuestionRecord, 'id' | 'type' | 'question_text' | 'options'>) {
   return {
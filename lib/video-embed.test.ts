@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { embedUrl, formatTimestamp, parseTimestamp, videoSource, watchUrl } from './video-embed'
+
+describe('videoSource', () => {
+  it('recognizes the usual YouTube and Vimeo links', () => {
+    const youtube = { provider: 'youtube', id: 'dQw4w9WgXcQ' }
+    expect(videoSource('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=42s')).toEqual(youtube)
+    expect(videoSource('https://youtu.be/dQw4w9WgXcQ')).toEqual(youtube)
+    expect(videoSource('https://youtube.com/shorts/dQw4w9WgXcQ')).toEqual(youtube)
+    expect(videoSource('https://vimeo.com/channels/staffpicks/76979871')).toEqual({ provider: 'vimeo', id: '76979871' })
+  })
+
+  it('leaves other links to be shown as links', () => {
+    expect(videoSource('https://example.com/video.mp4')).toBeNull()
+    expect(videoSource('https://www.youtube.com/watch?v=short')).toBeNull()
+    expect(videoSource('not a url')).toBeNull()
+  })
+})
+
+describe('embedUrl', () => {
+  it('starts the player at a timestamp', () => {
+    expect(embedUrl({ provider: 'youtube', id: 'dQw4w9WgXcQ' }, 75, true))
+      .toBe('https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?rel=0&start=75&autoplay=1')
+    expect(embedUrl({ provider: 'vimeo', id: '76979871' }, 75)).toBe('https://player.vimeo.com/video/76979871#t=75s')
+    expect(watchUrl({ provider: 'youtube', id: 'dQw4w9WgXcQ' }, 75)).toBe('https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=75s')
+  })
+})
+
+describe('timestamps', () => {
+  it('reads and writes m:ss and h:mm:ss', () => {
+    expect(parseTimestamp('1:05')).toBe(65)
+    expect(parseTimestamp('1:02:03')).toBe(3723)
+    expect(parseTimestamp('90')).toBe(90)
+    expect(parseTimestamp('1:75')).toBeNull()
+    expect(formatTimestamp(65)).toBe('1:05')
+    expect(formatTimestamp(3723)).toBe('1:02:03')
+  })
+})
@@ -0,0 +1,70 @@
+// Embedding the videos teachers link in a guide's video block, and the
+// "m:ss" timestamps they mark in them. YouTube and Vimeo links play in the
+// page; anything else is shown as a plain link. Pure functions.
+
+export type VideoProvider = 'youtube' | 'vimeo'
+
+export interface VideoSource {
+  provider: VideoProvider
+  id: string
+}
+
+const YOUTUBE_ID = /^[\w-]{11}$/
+
+export function videoSource(url: string): VideoSource | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url.trim())
+  } catch {
+    return null
+  }
+  const host = parsed.hostname.replace(/^(www|m)\./, '')
+  const path = parsed.pathname.split('/').filter(Boolean)
+
+  if (host === 'youtu.be' && YOUTUBE_ID.test(path[0] ?? '')) return { provider: 'youtube', id: path[0] }
+  if (host === 'youtube.com' || host === 'youtube-nocookie.com') {
+    const id = path[0] === 'watch' ? parsed.searchParams.get('v') : ['embed', 'shorts', 'live'].includes(path[0]) ? path[1] : null
+    if (id && YOUTUBE_ID.test(id)) return { provider: 'youtube', id }
+  }
+  if (host === 'vimeo.com' || host === 'player.vimeo.com') {
+    const id = path.find(part => /^\d+$/.test(part))
+    if (id) return { provider: 'vimeo', id }
+  }
+  return null
+}
+
+/** The player URL, starting at `start` seconds (and playing, when a timestamp was picked). */
+export function embedUrl(source: VideoSource, start = 0, autoplay = false): string {
+  if (source.provider === 'youtube') {
+    const params = new URLSearchParams({ rel: '0' })
+    if (start > 0) params.set('start', String(Math.floor(start)))
+    if (autoplay) params.set('autoplay', '1')
+    return `https://www.youtube-nocookie.com/embed/${source.id}?${params}`
+  }
+  const query = autoplay ? '?autoplay=1' : ''
+  return `https://player.vimeo.com/video/${source.id}${query}${start > 0 ? `#t=${Math.floor(start)}s` : ''}`
+}
+
+/** The page to open the video at a timestamp, e.g. for printed guides. */
+export function watchUrl(source: VideoSource, start = 0): string {
+  const at = Math.floor(start)
+  if (source.provider === 'youtube') {
+    return `https://www.youtube.com/watch?v=${source.id}${at > 0 ? `&t=${at}s` : ''}`
+  }
+  return `https://vimeo.com/${source.id}${at > 0 ? `#t=${at}s` : ''}`
+}
+
+/** "1:05", "01:02:03" or "75" as seconds; null when it isn't a time. */
+export function parseTimestamp(text: string): number | null {
+  const trimmed = text.trim()
+  if (!/^\d+(:[0-5]?\d){0,2}$/.test(trimmed)) return null
+  return trimmed.split(':').reduce((total, part) => total * 60 + Number(part), 0)
+}
+
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds))
+  const h = Math.floor(whole / 3600)
+  const m = Math.floor((whole % 3600) / 60)
+  const s = String(whole % 60).padStart(2, '0')
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
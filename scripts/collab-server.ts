@@ -0,0 +1,49 @@
+/**
+ * Run the collaboration server for live co-editing of custom guides. Keep one
+ * running alongside the app; editors connect to it at NEXT_PUBLIC_COLLAB_URL
+ * (e.g. ws://localhost:4001) and fall back to editing alone without it.
+ *
+ * Usage: npm run collab   (or: npx tsx scripts/collab-server.ts)
+ *
+ * Reads .env.local for Supabase settings, plus optional COLLAB_PORT,
+ * COLLAB_HEARTBEAT_MS and COLLAB_MAX_MESSAGE_BYTES.
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+
+function loadEnvLocal() {
+  const envPath = path.join(__dirname, '..', '.env.local')
+  if (!fs.existsSync(envPath)) return
+  for (const line of fs.readFileSync(envPath, 'utf8').split('\n')) {
+    const match = line.match(/^([^=#]+)=(.*)$/)
+    if (match && !process.env[match[1].trim()]) process.env[match[1].trim()] = match[2].trim()
+  }
+}
+
+async function main() {
+  loadEnvLocal()
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY is required to check who can edit a guide')
+    process.exit(1)
+  }
+
+  // Imported after the env is loaded: these read it at module load
+  const { createAdminClient } = await import('../lib/supabase-server')
+  const { collabOptionsFromEnv, startCollabServer } = await import('../lib/collab/server')
+
+  const options = collabOptionsFromEnv()
+  const server = startCollabServer(createAdminClient(), options)
+  server.on('listening', () => console.log(`✅ Collaboration server listening on ws://localhost:${options.port}`))
+
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      for (const socket of server.clients) socket.close(1001, 'Server shutting down')
+      server.close(() => process.exit(0))
+    })
+  }
+}
+
+main().catch(err => {
+  console.error('❌ Collaboration server crashed:', err)
+  process.exit(1)
+})
@@ -0,0 +1,121 @@
+/**
+ * Move the hand-written static study guide pages into study_guides as custom
+ * guides — run after migration 056.
+ *
+ * Usage:
+ *   npx tsx scripts/import-static-guides.ts convert <page.tsx>...
+ *     Reads each page and writes its guide to lib/static-guides/guides/<name>.json,
+ *     for review before importing.
+ *   npx tsx scripts/import-static-guides.ts import --owner <email> [--publish]
+ *     Creates (or updates) one custom guide per JSON file, owned by <email>,
+ *     and records a revision for it. The old page URL then redirects there.
+ *
+ * Reads .env.local for Supabase settings.
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+import { convertStaticGuidePage, type StaticGuide } from '../lib/static-guides/convert'
+
+const GUIDES_DIR = path.join(__dirname, '..', 'lib', 'static-guides', 'guides')
+
+function loadEnvLocal() {
+  const envPath = path.join(__dirname, '..', '.env.local')
+  if (!fs.existsSync(envPath)) return
+  for (const line of fs.readFileSync(envPath, 'utf8').split('\n')) {
+    const match = line.match(/^([^=#]+)=(.*)$/)
+    if (match && !process.env[match[1].trim()]) process.env[match[1].trim()] = match[2].trim()
+  }
+}
+
+function convert(pages: string[]) {
+  if (pages.length === 0) throw new Error('Pass the page.tsx files to convert')
+  fs.mkdirSync(GUIDES_DIR, { recursive: true })
+  for (const page of pages) {
+    const guide = convertStaticGuidePage(fs.readFileSync(page, 'utf8'), page)
+    const name = path.basename(guide.route)
+    fs.writeFileSync(path.join(GUIDES_DIR, `${name}.json`), JSON.stringify(guide, null, 2) + '\n')
+    console.log(`✅ ${page} → lib/static-guides/guides/${name}.json (${guide.content.sections.length} sections)`)
+  }
+}
+
+async function importGuides(args: string[]) {
+  const ownerIndex = args.indexOf('--owner')
+  const owner = ownerIndex >= 0 ? args[ownerIndex + 1] : undefined
+  if (!owner) throw new Error('Pass --owner <email> for the account that will own the guides')
+  const publish = args.includes('--publish')
+
+  loadEnvLocal()
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY is required to write guides for another account')
+    process.exit(1)
+  }
+
+  // Imported after the env is loaded: these read it at module load
+  const { createAdminClient } = await import('../lib/supabase-server')
+  const { recordRevision } = await import('../lib/revisions/store')
+  const supabase = createAdminClient()
+
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('id')
+    .eq('email', owner)
+    .maybeSingle()
+  if (!profile) throw new Error(`No account found for ${owner}`)
+
+  const files = fs.readdirSync(GUIDES_DIR).filter(file => file.endsWith('.json')).sort()
+  for (const file of files) {
+    const guide = JSON.parse(fs.readFileSync(path.join(GUIDES_DIR, file), 'utf8')) as StaticGuide
+    console.log(`📝 Importing ${guide.title}...`)
+
+    const fields = {
+      title: guide.title,
+      subject: guide.subject,
+      grade_level: guide.gradeLevel,
+      format: 'custom',
+      content: `Custom study guide: ${guide.title}`,
+      custom_content: guide.content,
+      static_route: guide.route,
+      ...(publish ? { is_published: true } : {}),
+    }
+
+    // Importing again updates the guide in place, keeping its id and links
+    const { data: existing } = await supabase
+      .from('study_guides')
+      .select('id')
+      .eq('static_route', guide.route)
+      .maybeSingle()
+
+    const { data: saved, error } = existing
+      ? await supabase.from('study_guides').update(fields).eq('id', existing.id).select('id, class_name').single()
+      : await supabase
+          .from('study_guides')
+          .insert({ ...fields, user_id: profile.id, file_count: 0 })
+          .select('id, class_name')
+          .single()
+    if (error) throw error
+
+    await recordRevision(supabase, saved.id, profile.id, {
+      title: guide.title,
+      subject: guide.subject,
+      gradeLevel: guide.gradeLevel,
+      className: saved.class_name,
+      customContent: guide.content,
+    })
+    console.log(`✅ ${guide.route} → /study-guide/${saved.id}`)
+  }
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2)
+  if (command === 'convert') convert(args)
+  else if (command === 'import') await importGuides(args)
+  else {
+    console.error('❌ Usage: import-static-guides.ts convert <page.tsx>... | import --owner <email> [--publish]')
+    process.exit(1)
+  }
+}
+
+main().catch(err => {
+  console.error('❌ Import failed:', err)
+  process.exit(1)
+})
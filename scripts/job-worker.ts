@@ -0,0 +1,49 @@
+/**
+ * Run background jobs (AI grading, batch grading, study-guide generation)
+ * from the jobs table. Keep one running alongside the app; Ctrl-C or SIGTERM
+ * finishes the jobs in hand and exits.
+ *
+ * Usage: npm run worker   (or: npx tsx scripts/job-worker.ts)
+ *
+ * Reads .env.local for Supabase and Anthropic settings, plus optional
+ * JOB_WORKER_CONCURRENCY, JOB_PER_USER_CONCURRENCY, JOB_LEASE_SECONDS and
+ * JOB_POLL_MS.
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+
+function loadEnvLocal() {
+  const envPath = path.join(__dirname, '..', '.env.local')
+  if (!fs.existsSync(envPath)) return
+  for (const line of fs.readFileSync(envPath, 'utf8').split('\n')) {
+    const match = line.match(/^([^=#]+)=(.*)$/)
+    if (match && !process.env[match[1].trim()]) process.env[match[1].trim()] = match[2].trim()
+  }
+}
+
+async function main() {
+  loadEnvLocal()
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY is required to claim jobs')
+    process.exit(1)
+  }
+
+  // Imported after the env is loaded: these read it at module load
+  const { createAdminClient } = await import('../lib/supabase-server')
+  const { runWorker, workerOptionsFromEnv } = await import('../lib/jobs/worker')
+
+  const stop = new AbortController()
+  for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+    process.on(signal, () => {
+      if (stop.signal.aborted) process.exit(1)
+      stop.abort()
+    })
+  }
+
+  await runWorker(createAdminClient(), workerOptionsFromEnv(), stop.signal)
+}
+
+main().catch(err => {
+  console.error('❌ Job worker crashed:', err)
+  process.exit(1)
+})
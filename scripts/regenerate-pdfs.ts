@@ -0,0 +1,42 @@
+/**
+ * Rebuild graded-exam PDFs that are missing from PDF storage — run once after
+ * migration 046, for PDFs that only ever lived in server memory.
+ *
+ * Usage: npx tsx scripts/regenerate-pdfs.ts
+ *
+ * Reads .env.local for Supabase, PDF_RENDERER and PDF_STORAGE settings.
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+
+function loadEnvLocal() {
+  const envPath = path.join(__dirname, '..', '.env.local')
+  if (!fs.existsSync(envPath)) return
+  for (const line of fs.readFileSync(envPath, 'utf8').split('\n')) {
+    const match = line.match(/^([^=#]+)=(.*)$/)
+    if (match && !process.env[match[1].trim()]) process.env[match[1].trim()] = match[2].trim()
+  }
+}
+
+async function main() {
+  loadEnvLocal()
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    console.error('❌ SUPABASE_SERVICE_ROLE_KEY is required to read every grading result')
+    process.exit(1)
+  }
+
+  // Imported after the env is loaded: these read it at module load
+  const { createAdminClient } = await import('../lib/supabase-server')
+  const { getPdfStorage } = await import('../lib/pdf-storage/storage')
+  const { regenerateMissingPdfs } = await import('../lib/pdf-storage/access')
+
+  console.log('📝 Checking stored PDFs...')
+  const counts = await regenerateMissingPdfs(createAdminClient(), getPdfStorage())
+  console.log(`✅ Checked ${counts.checked}, regenerated ${counts.regenerated}, failed ${counts.failed}`)
+  if (counts.failed > 0) process.exit(1)
+}
+
+main().catch(err => {
+  console.error('❌ Regeneration failed:', err)
+  process.exit(1)
+})
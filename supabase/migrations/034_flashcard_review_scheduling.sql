@@ -0,0 +1,61 @@
+-- Spaced repetition for flashcards. flashcard_progress grows SM-2 scheduling
+-- state (ease, interval, repetitions, lapses, due date) alongside the legacy
+-- mastered/difficult flag, which is still written (derived from the rating)
+-- so existing readers keep working. flashcard_reviews is the append-only
+-- review history: one row per Again/Hard/Good/Easy grade.
+--
+-- Scheduling math lives in lib/flashcards/scheduler.ts.
+
+ALTER TABLE flashcard_progress
+  ADD COLUMN IF NOT EXISTS ease NUMERIC NOT NULL DEFAULT 2.5,
+  ADD COLUMN IF NOT EXISTS interval_days INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS repetitions INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS lapses INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Backfill binary-only rows: "still learning" cards are due now, "got it"
+-- cards are treated as one successful review (due 2 days after marking).
+UPDATE flashcard_progress
+SET
+  repetitions = CASE WHEN status = 'mastered' THEN 1 ELSE 0 END,
+  interval_days = CASE WHEN status = 'mastered' THEN 2 ELSE 0 END,
+  due_at = CASE
+    WHEN status = 'mastered' THEN COALESCE(updated_at, NOW()) + INTERVAL '2 days'
+    ELSE COALESCE(updated_at, NOW())
+  END,
+  last_reviewed_at = updated_at
+WHERE due_at IS NULL;
+
+-- The cross-guide "due today" queue reads by user + due date
+CREATE INDEX IF NOT EXISTS idx_flashcard_progress_user_due ON flashcard_progress(user_id, due_at);
+
+-- =============================================================================
+-- TABLE: flashcard_reviews
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS flashcard_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  study_guide_id UUID NOT NULL REFERENCES study_guides(id) ON DELETE CASCADE,
+  card_id TEXT NOT NULL,
+  rating TEXT NOT NULL CHECK (rating IN ('again', 'hard', 'good', 'easy')),
+  ease NUMERIC NOT NULL,
+  interval_days INTEGER NOT NULL,
+  previous_interval_days INTEGER NOT NULL DEFAULT 0,
+  reviewed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_flashcard_reviews_user_card
+  ON flashcard_reviews(user_id, study_guide_id, card_id, reviewed_at);
+
+ALTER TABLE flashcard_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own flashcard reviews" ON flashcard_reviews
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own flashcard reviews" ON flashcard_reviews
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Resetting a guide's progress clears its history too
+CREATE POLICY "Users can delete own flashcard reviews" ON flashcard_reviews
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,47 @@
+-- IRT (2PL) calibration for the question bank. The calibration job
+-- (POST /api/question-bank/calibrate → lib/mastery/calibration.ts) fits
+-- per-question difficulty/discrimination from answered mastery_responses and
+-- per-(student, concept) ability, then writes them here. The hand-set
+-- difficulty column stays authoritative for authoring; irt_* columns are
+-- NULL until a question has enough history to calibrate.
+
+ALTER TABLE question_bank_questions
+  ADD COLUMN IF NOT EXISTS irt_difficulty NUMERIC,
+  ADD COLUMN IF NOT EXISTS irt_discrimination NUMERIC,
+  ADD COLUMN IF NOT EXISTS irt_response_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS irt_flag TEXT
+    CHECK (irt_flag IN ('misrated', 'low_discrimination')),
+  ADD COLUMN IF NOT EXISTS irt_calibrated_at TIMESTAMP WITH TIME ZONE;
+
+-- =============================================================================
+-- TABLE: student_concept_abilities
+-- Latest ability estimate (theta, logits) per student per concept. The
+-- mastery engine uses it as the prior when picking a question whose
+-- difficulty best matches the student.
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS student_concept_abilities (
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  concept_id UUID NOT NULL REFERENCES concepts(id) ON DELETE CASCADE,
+  theta NUMERIC NOT NULL DEFAULT 0,
+  response_count INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (student_id, concept_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sca_concept ON student_concept_abilities(concept_id);
+
+-- RLS: teachers read abilities on their own concepts; students read their
+-- own. Writes go through the admin-client calibration job only.
+ALTER TABLE student_concept_abilities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view abilities on own concepts" ON student_concept_abilities
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM concepts c
+      WHERE c.id = student_concept_abilities.concept_id
+        AND c.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Students view own abilities" ON student_concept_abilities
+  FOR SELECT USING (auth.uid() = student_id);
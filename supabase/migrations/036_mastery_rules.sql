@@ -0,0 +1,22 @@
+-- Configurable mastery rules. The rolling-window rule from 032 stays the
+-- default; teachers can instead pick a correct-in-a-row streak, a Bayesian
+-- Knowledge Tracing cutoff, a difficulty-weighted window, or the window rule
+-- plus at least one correct short answer. Rule logic lives in
+-- lib/mastery/engine.ts; this migration only adds the settings and the extra
+-- rollup state the rules read.
+
+ALTER TABLE assignment_mastery_config
+  ADD COLUMN IF NOT EXISTS mastery_rule TEXT NOT NULL DEFAULT 'rolling_window'
+    CHECK (mastery_rule IN ('rolling_window', 'streak', 'bkt', 'difficulty_weighted', 'short_answer_required')),
+  ADD COLUMN IF NOT EXISTS streak_length INTEGER NOT NULL DEFAULT 5
+    CHECK (streak_length BETWEEN 2 AND 15),
+  ADD COLUMN IF NOT EXISTS bkt_threshold NUMERIC NOT NULL DEFAULT 0.95
+    CHECK (bkt_threshold BETWEEN 0.5 AND 0.99);
+
+-- Rollup state. Existing rows start with an empty difficulty window (treated
+-- as medium), no streak, and no BKT estimate (the prior applies).
+ALTER TABLE mastery_attempt_concepts
+  ADD COLUMN IF NOT EXISTS recent_difficulties INTEGER[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS current_streak INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS p_known NUMERIC,
+  ADD COLUMN IF NOT EXISTS short_answer_correct INTEGER NOT NULL DEFAULT 0;
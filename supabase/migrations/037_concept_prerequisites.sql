@@ -0,0 +1,36 @@
+-- Concept prerequisite graph. An edge says "concept_id needs prerequisite_id
+-- first" (stoichiometry needs mole conversions). Mastery rounds only serve a
+-- concept once its prerequisites in the same assignment are resolved, and
+-- struggling students get review questions from mastered prerequisites —
+-- see lib/mastery/prerequisites.ts.
+--
+-- Cycles can't be expressed as a simple constraint; the concepts API rejects
+-- edits that would create one. Self-edges are blocked here as well.
+
+-- =============================================================================
+-- TABLE: concept_prerequisites
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS concept_prerequisites (
+  concept_id UUID NOT NULL REFERENCES concepts(id) ON DELETE CASCADE,
+  prerequisite_id UUID NOT NULL REFERENCES concepts(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (concept_id, prerequisite_id),
+  CHECK (concept_id <> prerequisite_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_concept_prereqs_teacher ON concept_prerequisites(teacher_id);
+CREATE INDEX IF NOT EXISTS idx_concept_prereqs_prerequisite ON concept_prerequisites(prerequisite_id);
+
+-- RLS: teachers manage edges between their own concepts. Students never read
+-- the graph directly — round building goes through the admin client.
+ALTER TABLE concept_prerequisites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers manage own prerequisites (select)" ON concept_prerequisites
+  FOR SELECT USING (auth.uid() = teacher_id);
+
+CREATE POLICY "Teachers manage own prerequisites (insert)" ON concept_prerequisites
+  FOR INSERT WITH CHECK (auth.uid() = teacher_id);
+
+CREATE POLICY "Teachers manage own prerequisites (delete)" ON concept_prerequisites
+  FOR DELETE USING (auth.uid() = teacher_id);
@@ -0,0 +1,26 @@
+-- Structured question types: numeric (tolerance, sig figs, units),
+-- multi-select with partial credit, ordering, matching, and multi-part
+-- questions with a shared stem. All are auto-graded server-side — see
+-- lib/mastery/grading.ts.
+--
+-- correct_answer shapes for the new types:
+--   numeric:      { value, tolerance?, tolerance_mode?: 'absolute'|'percent', sig_figs?, unit? }
+--   multi_select: { indices: number[] }   — into options
+--   ordering:     { order: number[] }     — option indices in the correct sequence
+--   matching:     { matches: string[] }   — matches[i] pairs with options[i]
+--   multi_part:   { parts: [{ type, prompt, options?, correct_answer }] }
+--
+-- No new columns: partial credit lands in mastery_responses.score (0-100),
+-- the same column AI-graded short answers already use.
+
+-- =============================================================================
+-- question_bank_questions.type
+-- =============================================================================
+ALTER TABLE question_bank_questions
+  DROP CONSTRAINT IF EXISTS question_bank_questions_type_check;
+
+ALTER TABLE question_bank_questions
+  ADD CONSTRAINT question_bank_questions_type_check CHECK (type IN (
+    'multiple_choice', 'true_false', 'short_answer',
+    'numeric', 'multi_select', 'ordering', 'matching', 'multi_part'
+  ));
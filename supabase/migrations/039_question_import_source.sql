@@ -0,0 +1,14 @@
+-- Questions imported from QTI 2.1, GIFT or Moodle XML files. They go
+-- straight to 'approved' — the teacher reviewed them in the import preview —
+-- but keep their own source so they can be told apart from hand-written ones.
+
+-- =============================================================================
+-- question_bank_questions.source
+-- =============================================================================
+ALTER TABLE question_bank_questions
+  DROP CONSTRAINT IF EXISTS question_bank_questions_source_check;
+
+ALTER TABLE question_bank_questions
+  ADD CONSTRAINT question_bank_questions_source_check CHECK (source IN (
+    'manual', 'ai_suggested', 'ai_extracted', 'ai_runtime', 'imported'
+  ));
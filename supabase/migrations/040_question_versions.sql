@@ -0,0 +1,87 @@
+-- Question versioning. question_review_events has stored before/after
+-- snapshots since 031; this makes them a version history:
+--   * question_bank_questions.version — bumped on every content change
+--   * question_review_events.version  — the question's version after the event
+--   * 'restore' events                — one-click rollback to an earlier version
+--   * mastery_responses.question_snapshot.version — which version was served,
+--     so analytics can report each version separately
+--
+-- Existing rows are backfilled by counting past events that changed the
+-- content — going by the snapshots, not the action, since an approve could
+-- carry an edit too.
+
+-- =============================================================================
+-- Past content changes: events whose snapshots differ in a content field
+-- (the same fields as lib/mastery/versions.ts CONTENT_FIELDS, plus type)
+-- =============================================================================
+CREATE TEMP TABLE question_content_changes AS
+SELECT e.question_id, e.created_at
+FROM question_review_events e
+WHERE e.before_snapshot IS NOT NULL
+  AND e.after_snapshot IS NOT NULL
+  AND jsonb_build_object(
+        'type', e.before_snapshot->'type',
+        'question_text', e.before_snapshot->'question_text',
+        'options', e.before_snapshot->'options',
+        'correct_answer', e.before_snapshot->'correct_answer',
+        'explanation', e.before_snapshot->'explanation',
+        'difficulty', e.before_snapshot->'difficulty'
+      ) IS DISTINCT FROM jsonb_build_object(
+        'type', e.after_snapshot->'type',
+        'question_text', e.after_snapshot->'question_text',
+        'options', e.after_snapshot->'options',
+        'correct_answer', e.after_snapshot->'correct_answer',
+        'explanation', e.after_snapshot->'explanation',
+        'difficulty', e.after_snapshot->'difficulty'
+      );
+
+-- =============================================================================
+-- question_bank_questions.version
+-- =============================================================================
+ALTER TABLE question_bank_questions
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+UPDATE question_bank_questions q
+SET version = 1 + (
+  SELECT COUNT(*) FROM question_content_changes c
+  WHERE c.question_id = q.id
+);
+
+-- =============================================================================
+-- question_review_events: version + 'restore'
+-- =============================================================================
+ALTER TABLE question_review_events
+  ADD COLUMN IF NOT EXISTS version INTEGER;
+
+UPDATE question_review_events e
+SET version = 1 + (
+  SELECT COUNT(*) FROM question_content_changes prior
+  WHERE prior.question_id = e.question_id
+    AND prior.created_at <= e.created_at
+);
+
+ALTER TABLE question_review_events
+  DROP CONSTRAINT IF EXISTS question_review_events_action_check;
+
+ALTER TABLE question_review_events
+  ADD CONSTRAINT question_review_events_action_check
+  CHECK (action IN ('approve', 'edit', 'decline', 'restore'));
+
+CREATE INDEX IF NOT EXISTS idx_qre_question_created
+  ON question_review_events(question_id, created_at);
+
+-- =============================================================================
+-- mastery_responses.question_snapshot.version
+-- A response saw whatever version was current when it was served.
+-- =============================================================================
+UPDATE mastery_responses r
+SET question_snapshot = r.question_snapshot || jsonb_build_object(
+  'version', 1 + (
+    SELECT COUNT(*) FROM question_content_changes c
+    WHERE c.question_id = r.question_id
+      AND c.created_at <= r.served_at
+  )
+)
+WHERE NOT (r.question_snapshot ? 'version');
+
+DROP TABLE question_content_changes;
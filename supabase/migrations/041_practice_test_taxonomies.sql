@@ -0,0 +1,63 @@
+-- Practice tests beyond AP Chem. 029 hard-coded the six AP Chemistry Big
+-- Ideas and four answer choices; this makes both per-test:
+--   * practice_tests.taxonomy             — teacher-defined categories
+--                                           {"name": "...", "categories": [{"id","label"}]}
+--   * practice_tests.choice_count         — 2–5 choices (A–E)
+--   * practice_tests.wrong_answer_penalty — fraction of a question's points
+--                                           taken off for a wrong answer
+--   * answer_key entries                  — {"answer","category","points"?}
+--   * practice_test_submissions scores    — NUMERIC, for weights and penalties
+--
+-- Existing tests keep reporting by Big Idea: their taxonomy is set to the
+-- Big Ideas and their answer keys' "bigIdea" becomes "category".
+
+-- =============================================================================
+-- practice_tests
+-- =============================================================================
+ALTER TABLE practice_tests
+  ADD COLUMN IF NOT EXISTS taxonomy JSONB,
+  ADD COLUMN IF NOT EXISTS choice_count INTEGER NOT NULL DEFAULT 4
+    CHECK (choice_count BETWEEN 2 AND 5),
+  ADD COLUMN IF NOT EXISTS wrong_answer_penalty NUMERIC(4,3) NOT NULL DEFAULT 0
+    CHECK (wrong_answer_penalty >= 0 AND wrong_answer_penalty <= 1);
+
+UPDATE practice_tests
+SET taxonomy = '{
+  "name": "AP Chemistry Big Ideas",
+  "categories": [
+    {"id": "1", "label": "Big Idea 1 — Atoms, Elements, & Compounds"},
+    {"id": "2", "label": "Big Idea 2 — Bonding & IMFs"},
+    {"id": "3", "label": "Big Idea 3 — Chemical Reactions"},
+    {"id": "4", "label": "Big Idea 4 — Kinetics"},
+    {"id": "5", "label": "Big Idea 5 — Thermodynamics"},
+    {"id": "6", "label": "Big Idea 6 — Equilibrium, Acids/Bases & Electrochem"}
+  ]
+}'::jsonb
+WHERE taxonomy IS NULL;
+
+-- {"1":{"answer":"A","bigIdea":5}} -> {"1":{"answer":"A","category":"5"}}
+UPDATE practice_tests pt
+SET answer_key = (
+  SELECT COALESCE(jsonb_object_agg(
+    e.key,
+    CASE WHEN e.value ? 'bigIdea'
+      THEN (e.value - 'bigIdea') || jsonb_build_object('category', e.value->>'bigIdea')
+      ELSE e.value
+    END
+  ), '{}'::jsonb)
+  FROM jsonb_each(pt.answer_key) e
+)
+WHERE EXISTS (
+  SELECT 1 FROM jsonb_each(pt.answer_key) e WHERE e.value ? 'bigIdea'
+);
+
+-- =============================================================================
+-- practice_test_submissions
+-- =============================================================================
+ALTER TABLE practice_test_submissions
+  ALTER COLUMN score_total TYPE NUMERIC(8,2),
+  ALTER COLUMN score_max TYPE NUMERIC(8,2);
+
+-- Keys are the test's category ids (the Big Idea numbers, for older tests)
+ALTER TABLE practice_test_submissions
+  RENAME COLUMN big_idea_breakdown TO category_breakdown;
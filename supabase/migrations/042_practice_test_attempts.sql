@@ -0,0 +1,102 @@
+-- Timed, proctored practice tests. Until now a take was one POST of the final
+-- answers; now it is an attempt the server tracks from start to submit:
+--   * practice_tests.time_limit_minutes    — NULL for untimed tests
+--   * practice_test_attempts                — server start time and deadline,
+--                                             the autosaved draft, and a resume
+--                                             token the student's browser keeps
+--   * practice_test_answer_events           — every answer change, for the
+--                                             teacher's per-student timeline
+--   * practice_test_submissions.attempt_id  — which attempt it finalised
+--
+-- Attempts past their deadline are submitted by the server with whatever was
+-- saved, whether or not the student's browser is still there.
+
+-- =============================================================================
+-- practice_tests.time_limit_minutes
+-- =============================================================================
+ALTER TABLE practice_tests
+  ADD COLUMN IF NOT EXISTS time_limit_minutes INTEGER
+    CHECK (time_limit_minutes IS NULL OR time_limit_minutes BETWEEN 1 AND 600);
+
+-- =============================================================================
+-- TABLE: practice_test_attempts
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS practice_test_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  practice_test_id UUID NOT NULL REFERENCES practice_tests(id) ON DELETE CASCADE,
+  student_name TEXT NOT NULL,
+  -- Held by the student's browser; lets a dropped connection pick up where it left off
+  resume_token TEXT NOT NULL UNIQUE,
+  -- {"1":"A","2":"C", ...} as of the last autosave
+  responses JSONB NOT NULL DEFAULT '{}'::jsonb,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- started_at + the test's time limit at start; NULL when untimed
+  deadline_at TIMESTAMP WITH TIME ZONE,
+  last_saved_at TIMESTAMP WITH TIME ZONE,
+  submitted_at TIMESTAMP WITH TIME ZONE,
+  -- TRUE when the deadline, not the student, ended the attempt
+  auto_submitted BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_test_attempts_test
+  ON practice_test_attempts(practice_test_id);
+
+-- Sweeping expired attempts looks only at open ones
+CREATE INDEX IF NOT EXISTS idx_practice_test_attempts_open
+  ON practice_test_attempts(practice_test_id, deadline_at)
+  WHERE submitted_at IS NULL;
+
+-- =============================================================================
+-- TABLE: practice_test_answer_events
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS practice_test_answer_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  attempt_id UUID NOT NULL REFERENCES practice_test_attempts(id) ON DELETE CASCADE,
+  question_number INTEGER NOT NULL,
+  -- NULL when the student cleared their answer
+  answer TEXT,
+  -- When the student made the change (client time, shifted onto the server clock)
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_practice_test_answer_events_attempt
+  ON practice_test_answer_events(attempt_id, changed_at);
+
+-- =============================================================================
+-- practice_test_submissions.attempt_id
+-- =============================================================================
+ALTER TABLE practice_test_submissions
+  ADD COLUMN IF NOT EXISTS attempt_id UUID REFERENCES practice_test_attempts(id) ON DELETE SET NULL;
+
+-- One submission per attempt, however many times submit races the deadline
+CREATE UNIQUE INDEX IF NOT EXISTS idx_practice_test_submissions_attempt
+  ON practice_test_submissions(attempt_id)
+  WHERE attempt_id IS NOT NULL;
+
+-- =============================================================================
+-- RLS
+-- Owning teacher reads. Students never query these tables directly — the
+-- take routes validate the share and resume tokens and use the admin client.
+-- =============================================================================
+ALTER TABLE practice_test_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE practice_test_answer_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view attempts on own practice tests" ON practice_test_attempts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM practice_tests pt
+      WHERE pt.id = practice_test_attempts.practice_test_id
+        AND pt.teacher_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Teachers view answer events on own practice tests" ON practice_test_answer_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM practice_test_attempts a
+      JOIN practice_tests pt ON pt.id = a.practice_test_id
+      WHERE a.id = practice_test_answer_events.attempt_id
+        AND pt.teacher_id = auth.uid()
+    )
+  );
@@ -0,0 +1,49 @@
+-- Class-linked practice tests. A share link normally takes any name typed in;
+-- a test linked to a class instead requires a signed-in student enrolled in
+-- that class and records who they are:
+--   * practice_tests.class_id                  — NULL for open (anyone-with-the-link) tests
+--   * practice_tests.duplicate_policy          — which of a student's submissions
+--                                                counts in the gradebook
+--   * practice_test_attempts.student_id        — the signed-in student
+--   * practice_test_submissions.student_id     — joins scores to class_enrollments
+
+-- =============================================================================
+-- practice_tests.class_id / duplicate_policy
+-- =============================================================================
+ALTER TABLE practice_tests
+  ADD COLUMN IF NOT EXISTS class_id UUID REFERENCES classes(id) ON DELETE SET NULL,
+  -- first:  only one attempt is allowed; later starts see the first result
+  -- best:   the highest-scoring submission counts
+  -- latest: the most recent submission counts
+  ADD COLUMN IF NOT EXISTS duplicate_policy TEXT NOT NULL DEFAULT 'best'
+    CHECK (duplicate_policy IN ('first', 'best', 'latest'));
+
+CREATE INDEX IF NOT EXISTS idx_practice_tests_class
+  ON practice_tests(class_id)
+  WHERE class_id IS NOT NULL;
+
+-- =============================================================================
+-- student_id on attempts and submissions
+-- =============================================================================
+ALTER TABLE practice_test_attempts
+  ADD COLUMN IF NOT EXISTS student_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Resuming a class-linked attempt from another device looks up the student's open one
+CREATE INDEX IF NOT EXISTS idx_practice_test_attempts_student
+  ON practice_test_attempts(practice_test_id, student_id)
+  WHERE student_id IS NOT NULL;
+
+ALTER TABLE practice_test_submissions
+  ADD COLUMN IF NOT EXISTS student_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_practice_test_submissions_student
+  ON practice_test_submissions(practice_test_id, student_id)
+  WHERE student_id IS NOT NULL;
+
+-- =============================================================================
+-- RLS
+-- Students see their own submissions on class-linked tests. Taking a test
+-- still goes through the take routes and the admin client.
+-- =============================================================================
+CREATE POLICY "Students view own practice test submissions" ON practice_test_submissions
+  FOR SELECT USING (student_id IS NOT NULL AND auth.uid() = student_id);
@@ -0,0 +1,19 @@
+-- Structured grading output. Grading calls now return schema-validated JSON
+-- (per-question marks, mark-scheme criteria met and missed, evidence quotes
+-- and a confidence per question) instead of Markdown that was regex-parsed.
+--   * grading_results.structured_output — the validated grading, as returned
+--   * grading_results.confidence        — the lowest per-question confidence,
+--                                         so shaky gradings can be found
+-- grade_breakdown and the totals are derived from structured_output; content
+-- keeps a Markdown rendering of it for the existing report views.
+
+ALTER TABLE grading_results
+  ADD COLUMN IF NOT EXISTS structured_output JSONB;
+
+ALTER TABLE grading_results
+  ADD COLUMN IF NOT EXISTS confidence NUMERIC(4,3)
+    CHECK (confidence IS NULL OR confidence BETWEEN 0 AND 1);
+
+CREATE INDEX IF NOT EXISTS idx_grading_results_low_confidence
+  ON grading_results(user_id, confidence)
+  WHERE confidence IS NOT NULL;
@@ -0,0 +1,14 @@
+-- Grade-boundary schemes. grading_results.grade was always A–F at 90/80/70/60;
+-- now a class picks a scheme (US letter, US letter with +/-, Cambridge A*–U,
+-- IB 1–7, pass/fail, or a custom table) and an assignment can override it:
+--   * classes.grade_scheme      — NULL: US letter A–F
+--   * assignments.grade_scheme  — NULL: use the class's scheme
+-- Each holds the whole scheme, {"name": "...", "boundaries": [{"grade": "A*",
+-- "min": 90}, ...]} highest first, so a teacher's edits to one class's
+-- boundaries stay with that class. Changing either re-grades stored results.
+
+ALTER TABLE classes
+  ADD COLUMN IF NOT EXISTS grade_scheme JSONB;
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS grade_scheme JSONB;
@@ -0,0 +1,33 @@
+-- Persistent storage for generated PDFs. Graded-exam PDFs used to live in an
+-- in-process Map behind /api/pdf/<key>.pdf, so every pdf_url broke after a
+-- cold start or redeploy. They now go to a private Supabase Storage bucket
+-- (or local disk with PDF_STORAGE=local) under a key recorded on the result:
+--   * grading_results.pdf_key — object name without ".pdf"; the download
+--                               route looks the owner up by it
+-- pdf_url keeps its /api/pdf/<key>.pdf form, so existing links keep working.
+-- PDFs that were only ever in memory are rebuilt from the stored result the
+-- first time they're requested, or all at once with
+-- `npx tsx scripts/regenerate-pdfs.ts`.
+
+-- =============================================================================
+-- grading_results.pdf_key
+-- =============================================================================
+ALTER TABLE grading_results
+  ADD COLUMN IF NOT EXISTS pdf_key TEXT;
+
+UPDATE grading_results
+  SET pdf_key = substring(pdf_url FROM '^/api/pdf/([A-Za-z0-9_-]+)\.pdf$')
+  WHERE pdf_key IS NULL AND pdf_url IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_grading_results_pdf_key
+  ON grading_results(pdf_key)
+  WHERE pdf_key IS NOT NULL;
+
+-- =============================================================================
+-- Storage bucket
+-- Private: browsers never read it directly. Downloads go through /api/pdf,
+-- which checks access and streams the object with the service-role client.
+-- =============================================================================
+INSERT INTO storage.buckets (id, name, public)
+  VALUES ('pdfs', 'pdfs', false)
+  ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,88 @@
+-- Per-question teacher review of AI-graded submissions. Grading a submission
+-- leaves it in 'pending_review' (unchanged); what's new:
+--   * grading_question_reviews        — questions the grader was unsure of,
+--                                       queued for the teacher to accept or adjust
+--   * grading_overrides               — every teacher change to an AI mark or
+--                                       feedback, with before/after values
+--   * assignment_submissions.released_at — when the teacher returned the work;
+--                                       students see marks only once released
+--                                       (status 'graded')
+
+-- =============================================================================
+-- TABLE: grading_question_reviews
+-- One row per flagged question. Resolved rows stay as the record of who
+-- checked what.
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS grading_question_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  grading_result_id UUID NOT NULL REFERENCES grading_results(id) ON DELETE CASCADE,
+  submission_id UUID NOT NULL REFERENCES assignment_submissions(id) ON DELETE CASCADE,
+  assignment_id UUID NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+  -- Label as it appears in grading_results.grade_breakdown
+  question_number TEXT NOT NULL,
+  -- The grader's confidence in its mark when the question was queued
+  confidence NUMERIC(4,3),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'adjusted')),
+  reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (grading_result_id, question_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_grading_question_reviews_assignment
+  ON grading_question_reviews(assignment_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_grading_question_reviews_submission
+  ON grading_question_reviews(submission_id)
+  WHERE status = 'pending';
+
+-- =============================================================================
+-- TABLE: grading_overrides
+-- Write-only audit log: accept (marks unchanged), adjust (from the review
+-- queue) and edit (from the whole-report editor).
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS grading_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  grading_result_id UUID NOT NULL REFERENCES grading_results(id) ON DELETE CASCADE,
+  submission_id UUID REFERENCES assignment_submissions(id) ON DELETE SET NULL,
+  question_number TEXT NOT NULL,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('accept', 'adjust', 'edit')),
+  marks_before NUMERIC,
+  marks_after NUMERIC,
+  feedback_before TEXT,
+  feedback_after TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_grading_overrides_result
+  ON grading_overrides(grading_result_id, created_at);
+
+-- =============================================================================
+-- assignment_submissions.released_at
+-- =============================================================================
+ALTER TABLE assignment_submissions
+  ADD COLUMN IF NOT EXISTS released_at TIMESTAMP WITH TIME ZONE;
+
+-- Work already returned counts as released
+UPDATE assignment_submissions
+  SET released_at = updated_at
+  WHERE status = 'graded' AND released_at IS NULL;
+
+-- =============================================================================
+-- RLS
+-- Reads and writes go through the teacher routes and the admin client; these
+-- let a teacher read their own queue and log directly.
+-- =============================================================================
+ALTER TABLE grading_question_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view own grading reviews" ON grading_question_reviews
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM assignments a WHERE a.id = assignment_id AND a.teacher_id = auth.uid())
+  );
+
+ALTER TABLE grading_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view own grading overrides" ON grading_overrides
+  FOR SELECT USING (auth.uid() = teacher_id);
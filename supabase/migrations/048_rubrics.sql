@@ -0,0 +1,37 @@
+-- Structured rubrics for file-upload assignments:
+--   * assignments.rubric      — NULL: grade against the mark scheme per question
+--   * grading_results.rubric  — the rubric a result was graded against, copied
+--                               at grading time so the report's grid survives
+--                               later edits to the assignment
+--   * rubrics                 — a teacher's saved rubrics, for reuse across
+--                               assignments
+-- A rubric is {"criteria": [{"name": "...", "description": "...", "levels":
+-- [{"label": "Exemplary", "points": 4, "descriptor": "..."}, ...]}]}, levels
+-- most points first. Graded against a rubric, grade_breakdown has one item per
+-- criterion (questionNumber = criterion name) with the chosen "level".
+
+ALTER TABLE assignments
+  ADD COLUMN IF NOT EXISTS rubric JSONB;
+
+ALTER TABLE grading_results
+  ADD COLUMN IF NOT EXISTS rubric JSONB;
+
+-- =============================================================================
+-- TABLE: rubrics
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS rubrics (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rubric JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rubrics_teacher
+  ON rubrics(teacher_id, updated_at DESC);
+
+ALTER TABLE rubrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers manage own rubrics" ON rubrics
+  FOR ALL USING (auth.uid() = teacher_id) WITH CHECK (auth.uid() = teacher_id);
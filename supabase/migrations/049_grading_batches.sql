@@ -0,0 +1,95 @@
+-- Batch grading: a teacher uploads one scan of a whole class's papers, it is
+-- split into one paper per student, each paper is matched to an enrolled
+-- student by the name (or separator-sheet code) on it, then graded.
+--   * grading_batches          — one uploaded scan and how to split it
+--   * grading_batch_items      — one paper: its pages, who it belongs to and
+--                                where its grading has got to
+--   * grading_results.class_id — the class a result was graded for; set for
+--                                batch results, alongside class_name/period
+
+-- =============================================================================
+-- TABLE: grading_batches
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS grading_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  class_id UUID NOT NULL REFERENCES classes(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  -- fixed: every paper has pages_per_student pages
+  -- cover: each paper starts at a detected cover page
+  -- separator: papers are divided by printed per-student separator sheets
+  split_mode TEXT NOT NULL CHECK (split_mode IN ('fixed', 'cover', 'separator')),
+  pages_per_student INTEGER CHECK (pages_per_student IS NULL OR pages_per_student > 0),
+  scan_url TEXT NOT NULL,
+  scan_filename TEXT,
+  mark_scheme_url TEXT,
+  mark_scheme_filename TEXT,
+  additional_comments TEXT,
+  page_count INTEGER,
+  -- splitting → grading → done, or failed when the scan couldn't be split
+  status TEXT NOT NULL DEFAULT 'splitting'
+    CHECK (status IN ('splitting', 'grading', 'done', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_grading_batches_teacher
+  ON grading_batches(teacher_id, created_at DESC);
+
+-- =============================================================================
+-- TABLE: grading_batch_items
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS grading_batch_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  batch_id UUID NOT NULL REFERENCES grading_batches(id) ON DELETE CASCADE,
+  -- Order in the scan, from 1
+  position INTEGER NOT NULL,
+  start_page INTEGER NOT NULL,
+  end_page INTEGER NOT NULL,
+  -- As read off the paper
+  detected_name TEXT,
+  detected_code TEXT,
+  -- NULL until matched, automatically or by the teacher
+  student_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  match_method TEXT CHECK (match_method IN ('code', 'name', 'teacher')),
+  match_confidence NUMERIC(4,3),
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'grading', 'graded', 'failed')),
+  error TEXT,
+  grading_result_id UUID REFERENCES grading_results(id) ON DELETE SET NULL,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (batch_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_grading_batch_items_batch
+  ON grading_batch_items(batch_id, status);
+
+-- =============================================================================
+-- grading_results.class_id
+-- =============================================================================
+ALTER TABLE grading_results
+  ADD COLUMN IF NOT EXISTS class_id UUID REFERENCES classes(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_grading_results_class
+  ON grading_results(class_id)
+  WHERE class_id IS NOT NULL;
+
+-- =============================================================================
+-- RLS
+-- Everything goes through the teacher routes and the admin client; these let
+-- a teacher read their own batches directly.
+-- =============================================================================
+ALTER TABLE grading_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view own grading batches" ON grading_batches
+  FOR SELECT USING (auth.uid() = teacher_id);
+
+ALTER TABLE grading_batch_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view own grading batch items" ON grading_batch_items
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM grading_batches b WHERE b.id = batch_id AND b.teacher_id = auth.uid())
+  );
@@ -0,0 +1,129 @@
+-- Durable background jobs. Grading and study-guide generation used to run
+-- inside request handlers (or after() callbacks), so a timeout or crash left
+-- work stuck half-done. Now a request enqueues a row here and a worker
+-- process (scripts/job-worker.ts) claims and runs it:
+--   * retries with exponential backoff up to max_attempts
+--   * idempotency_key: at most one queued or running job per key, so a
+--     double-click or a re-sent request joins the job already in flight
+--   * a per-user limit on running jobs, enforced when a job is claimed
+--   * cancellation: queued jobs stop at once; running ones are asked to stop
+--     (cancel_requested) and the worker marks them cancelled
+--   * a lease: a running job whose worker stops heartbeating is taken back
+--     and retried (or failed, if it has used its attempts)
+
+-- =============================================================================
+-- TABLE: jobs
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Whose work this is; the concurrency limit and the jobs panel go by it
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  idempotency_key TEXT,
+  -- Human-readable, for the jobs panel ("Grade: Unit 3 test — Jordan Smith")
+  label TEXT,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+  -- Not claimed before this; pushed back by the retry backoff
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_by TEXT,
+  -- Last heartbeat from the worker running it
+  locked_at TIMESTAMP WITH TIME ZONE,
+  cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+  -- Handler-reported progress while running, e.g. streamed study-guide text
+  progress JSONB,
+  result JSONB,
+  last_error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_idempotency_active
+  ON jobs(idempotency_key)
+  WHERE idempotency_key IS NOT NULL AND status IN ('queued', 'running');
+
+CREATE INDEX IF NOT EXISTS idx_jobs_claimable
+  ON jobs(run_at, created_at)
+  WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_running_user
+  ON jobs(user_id)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS idx_jobs_user_recent
+  ON jobs(user_id, created_at DESC);
+
+-- =============================================================================
+-- FUNCTION: claim_job
+-- Takes expired leases back, then claims the next runnable job whose user is
+-- under p_user_limit running jobs. Claims are serialized with an advisory
+-- lock so two workers can't both see room under the limit and overshoot it.
+-- =============================================================================
+CREATE OR REPLACE FUNCTION claim_job(p_worker TEXT, p_user_limit INTEGER, p_lease_seconds INTEGER)
+RETURNS SETOF jobs AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_job'));
+
+  UPDATE jobs
+    SET status = CASE
+          WHEN cancel_requested THEN 'cancelled'
+          WHEN attempts >= max_attempts THEN 'failed'
+          ELSE 'queued'
+        END,
+        last_error = 'Worker stopped responding',
+        finished_at = CASE WHEN cancel_requested OR attempts >= max_attempts THEN NOW() ELSE NULL END,
+        locked_by = NULL,
+        locked_at = NULL,
+        updated_at = NOW()
+    WHERE status = 'running'
+      AND locked_at < NOW() - make_interval(secs => p_lease_seconds);
+
+  SELECT j.id INTO v_id
+    FROM jobs j
+    WHERE j.status = 'queued'
+      AND j.run_at <= NOW()
+      AND (
+        j.user_id IS NULL OR
+        (SELECT COUNT(*) FROM jobs r WHERE r.user_id = j.user_id AND r.status = 'running') < p_user_limit
+      )
+    ORDER BY j.run_at, j.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+  IF v_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    UPDATE jobs
+      SET status = 'running',
+          attempts = attempts + 1,
+          locked_by = p_worker,
+          locked_at = NOW(),
+          progress = NULL,
+          started_at = COALESCE(started_at, NOW()),
+          updated_at = NOW()
+      WHERE id = v_id
+      RETURNING *;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public, pg_temp;
+
+-- Only the worker (service role) claims jobs
+REVOKE EXECUTE ON FUNCTION claim_job(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- RLS
+-- Jobs are written by the API routes and the worker with the service role;
+-- users can read their own.
+-- =============================================================================
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own jobs" ON jobs
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,75 @@
+-- Grading calibration: re-grade a sample of an assignment's submissions (or
+-- one submission several times) and report how much each question's marks
+-- vary between runs. Questions that vary too much can be settled by pinning a
+-- moderated answer as an anchor, which goes into the assignment's grading
+-- prompts from then on.
+--   * grading_calibrations — one calibration run and its report; the work runs
+--                            in a calibrate_grading job (050_jobs.sql)
+--   * grading_anchors      — moderated answers pinned on an assignment
+
+-- =============================================================================
+-- TABLE: grading_calibrations
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS grading_calibrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id UUID NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- 'sample': several submissions re-graded; 'repeat': one submission N times
+  mode TEXT NOT NULL CHECK (mode IN ('sample', 'repeat')),
+  -- Chosen by the teacher, or filled in from sample_size when the run starts
+  submission_ids UUID[] NOT NULL DEFAULT '{}',
+  sample_size INTEGER NOT NULL DEFAULT 1 CHECK (sample_size BETWEEN 1 AND 20),
+  -- Fresh gradings per submission; the submission's existing grading counts too
+  runs_per_submission INTEGER NOT NULL CHECK (runs_per_submission BETWEEN 1 AND 10),
+  -- Flag questions whose marks range over more than this share of their marks
+  spread_threshold NUMERIC(4,3) NOT NULL DEFAULT 0.2,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'done', 'failed', 'cancelled')),
+  -- Every grading so far: [{ submissionId, source, questions: [...] }]
+  runs JSONB NOT NULL DEFAULT '[]',
+  total_runs INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_grading_calibrations_assignment
+  ON grading_calibrations(assignment_id, created_at DESC);
+
+-- =============================================================================
+-- TABLE: grading_anchors
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS grading_anchors (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id UUID NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Label as the grader reports it
+  question_number TEXT NOT NULL,
+  -- The student's answer (or the part that decides the mark)
+  answer TEXT NOT NULL,
+  marks_awarded NUMERIC NOT NULL CHECK (marks_awarded >= 0),
+  marks_possible NUMERIC NOT NULL CHECK (marks_possible > 0),
+  rationale TEXT,
+  source_submission_id UUID REFERENCES assignment_submissions(id) ON DELETE SET NULL,
+  calibration_id UUID REFERENCES grading_calibrations(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (marks_awarded <= marks_possible)
+);
+
+CREATE INDEX IF NOT EXISTS idx_grading_anchors_assignment
+  ON grading_anchors(assignment_id, created_at);
+
+-- =============================================================================
+-- RLS
+-- Written through the teacher routes with the service role; teachers can
+-- read their own.
+-- =============================================================================
+ALTER TABLE grading_calibrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view own calibrations" ON grading_calibrations
+  FOR SELECT USING (auth.uid() = teacher_id);
+
+ALTER TABLE grading_anchors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view own grading anchors" ON grading_anchors
+  FOR SELECT USING (auth.uid() = teacher_id);
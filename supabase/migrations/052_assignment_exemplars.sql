@@ -0,0 +1,37 @@
+-- Exemplar-anchored grading: a teacher attaches up to three student scripts
+-- they've already marked to an assignment, with their own mark for each
+-- question. Every grading of the assignment is shown the scripts and marks as
+-- worked examples, and each question in the result names the exemplar that
+-- most influenced its mark (grade_breakdown[].exemplar).
+--   * assignment_exemplars — the marked scripts
+
+-- =============================================================================
+-- TABLE: assignment_exemplars
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS assignment_exemplars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  assignment_id UUID NOT NULL REFERENCES assignments(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- How the grader and the report refer to it, e.g. "Script A"
+  label TEXT NOT NULL,
+  -- The uploaded script: [{ url, name, type }]
+  file_urls JSONB NOT NULL DEFAULT '[]',
+  -- The teacher's marks: [{ question, marksAwarded, marksPossible, comment }]
+  marks JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (assignment_id, label)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assignment_exemplars_assignment
+  ON assignment_exemplars(assignment_id, created_at);
+
+-- =============================================================================
+-- RLS
+-- Written through the teacher routes with the service role; teachers can
+-- read their own.
+-- =============================================================================
+ALTER TABLE assignment_exemplars ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers view own exemplars" ON assignment_exemplars
+  FOR SELECT USING (auth.uid() = teacher_id);
@@ -0,0 +1,26 @@
+-- Autosaved drafts for the custom guide editor. While a guide is being edited
+-- the editor saves its unsaved state here every so often; saving the guide
+-- clears it. Reopening the guide with a draft still here (the tab crashed or
+-- was closed) offers to restore it.
+--   * study_guide_drafts — at most one draft per guide
+
+-- =============================================================================
+-- TABLE: study_guide_drafts
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS study_guide_drafts (
+  study_guide_id UUID PRIMARY KEY REFERENCES study_guides(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- What the editor would have saved: { title, subject, gradeLevel, className, customContent }
+  content JSONB NOT NULL,
+  saved_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- =============================================================================
+-- RLS
+-- Written through /api/study-guides/[id]/custom-content with the service
+-- role; owners can read their own.
+-- =============================================================================
+ALTER TABLE study_guide_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own guide drafts" ON study_guide_drafts
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,49 @@
+-- Co-editors for custom guides. A guide's owner invites other teachers by
+-- email; they can open the guide in the editor, edit it live alongside the
+-- owner (scripts/collab-server.ts) and save it. Inviting, publishing and
+-- deleting stay with the owner.
+--   * study_guide_collaborators — who besides the owner can edit a guide
+--   * an UPDATE policy on study_guides letting them save it
+
+-- =============================================================================
+-- TABLE: study_guide_collaborators
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS study_guide_collaborators (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  study_guide_id UUID NOT NULL REFERENCES study_guides(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (study_guide_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_study_guide_collaborators_user
+  ON study_guide_collaborators(user_id);
+
+-- =============================================================================
+-- RLS
+-- Written through /api/study-guides/[id]/collaborators with the service
+-- role. Co-editors can see their own rows (the guides shared with them),
+-- owners the rows on their guides.
+-- =============================================================================
+ALTER TABLE study_guide_collaborators ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Co-editors view own shares" ON study_guide_collaborators
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Owners view their guides' co-editors" ON study_guide_collaborators
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM study_guides g
+      WHERE g.id = study_guide_collaborators.study_guide_id AND g.user_id = auth.uid()
+    )
+  );
+
+-- Saving goes through the custom-content route with the editor's own session
+CREATE POLICY "Co-editors can update shared guides" ON study_guides
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM study_guide_collaborators c
+      WHERE c.study_guide_id = study_guides.id AND c.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,76 @@
+-- Revision history for custom guides. Every save of a guide (creating it,
+-- updating it in the editor) keeps a copy of what was saved, numbered from 1.
+-- Teachers can name revisions ("Fall 2026 version"), compare them, and bring
+-- one back or fork it into a new guide. Class assignments are pinned to the
+-- revision that was current when the guide was assigned, so students keep
+-- seeing that version until the teacher pushes an update.
+--   * study_guide_revisions — one row per save
+--   * study_guide_assignments.revision_id — the revision the class sees
+
+-- =============================================================================
+-- TABLE: study_guide_revisions
+-- =============================================================================
+CREATE TABLE IF NOT EXISTS study_guide_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  study_guide_id UUID NOT NULL REFERENCES study_guides(id) ON DELETE CASCADE,
+  number INTEGER NOT NULL,
+  -- Set by a teacher to mark a snapshot worth keeping track of
+  name TEXT,
+  title TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  grade_level TEXT NOT NULL,
+  class_name TEXT,
+  custom_content JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (study_guide_id, number)
+);
+
+-- =============================================================================
+-- Assignments follow a revision. NULL follows the guide as it is now (guides
+-- assigned before they had any revisions, and non-custom guides).
+-- =============================================================================
+ALTER TABLE study_guide_assignments
+  ADD COLUMN IF NOT EXISTS revision_id UUID REFERENCES study_guide_revisions(id) ON DELETE SET NULL;
+
+-- =============================================================================
+-- BACKFILL
+-- Existing custom guides start at revision 1, and the classes they're already
+-- assigned to are pinned to it. Static guides only point at a hand-coded page.
+-- =============================================================================
+INSERT INTO study_guide_revisions (study_guide_id, number, title, subject, grade_level, class_name, custom_content, created_by, created_at)
+SELECT id, 1, title, subject, grade_level, class_name, custom_content, user_id, COALESCE(updated_at, created_at)
+FROM study_guides
+WHERE format = 'custom'
+  AND custom_content IS NOT NULL
+  AND COALESCE((custom_content->>'is_static')::boolean, false) = false
+ON CONFLICT (study_guide_id, number) DO NOTHING;
+
+UPDATE study_guide_assignments a
+SET revision_id = r.id
+FROM study_guide_revisions r
+WHERE r.study_guide_id = a.study_guide_id AND r.number = 1 AND a.revision_id IS NULL;
+
+-- =============================================================================
+-- RLS
+-- Written through /api/study-guides/[id]/custom-content and
+-- /api/study-guides/[id]/revisions with the service role. Owners and
+-- co-editors can read a guide's revisions.
+-- =============================================================================
+ALTER TABLE study_guide_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners view their guides' revisions" ON study_guide_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM study_guides g
+      WHERE g.id = study_guide_revisions.study_guide_id AND g.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Co-editors view shared guides' revisions" ON study_guide_revisions
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM study_guide_collaborators c
+      WHERE c.study_guide_id = study_guide_revisions.study_guide_id AND c.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,14 @@
+-- Custom guides imported from the hand-written static guide pages
+-- (/marinescience/exam2-earthprocesses and friends). The page's route is kept
+-- on the guide so the old URL can redirect to it and so importing again
+-- updates the guide instead of making another copy.
+--   * study_guides.static_route — the page the guide was imported from
+
+-- =============================================================================
+-- COLUMN: study_guides.static_route
+-- =============================================================================
+ALTER TABLE study_guides ADD COLUMN IF NOT EXISTS static_route TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_study_guides_static_route
+  ON study_guides(static_route)
+  WHERE static_route IS NOT NULL;
@@ -0,0 +1,29 @@
+-- Marks on an assignment submission stay with the teacher until they release
+-- them (migration 047). grading_results was readable by anyone (migration 004,
+-- results are shareable by link), which let a student read a grading still
+-- in review. Results of unreleased submissions are now only readable by the
+-- teacher who ran the grading; everything else stays shareable as before.
+-- grading_results.student_user_id is likewise only set on release.
+
+-- =============================================================================
+-- POLICY: grading_results public read
+-- =============================================================================
+DROP POLICY IF EXISTS "Allow public read access" ON grading_results;
+
+CREATE POLICY "Allow public read access" ON grading_results
+  FOR SELECT USING (
+    assignment_submission_id IS NULL
+    OR auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM assignment_submissions s
+      WHERE s.id = grading_results.assignment_submission_id
+        AND s.status = 'graded'
+    )
+  );
+
+-- Results graded before this change were linked to their student right away
+UPDATE grading_results r
+SET student_user_id = NULL
+FROM assignment_submissions s
+WHERE s.id = r.assignment_submission_id
+  AND s.status <> 'graded';
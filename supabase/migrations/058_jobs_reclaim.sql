@@ -0,0 +1,77 @@
+-- Taking back expired leases moves out of claim_job into its own function
+-- that returns the jobs it took back. A job whose worker died on its last
+-- attempt (or after a cancel request) went straight to failed/cancelled in
+-- SQL, so the handler's clean-up never ran and the submission or batch it
+-- was working on stayed "grading". The worker now calls reclaim_expired_jobs
+-- before each claim and runs that clean-up for the jobs it gave up on.
+
+-- =============================================================================
+-- FUNCTION: reclaim_expired_jobs
+-- Running jobs whose worker stopped heartbeating go back to the queue, or
+-- are failed/cancelled when they've used their attempts or were asked to
+-- stop. Each job is returned to exactly one caller (row locks on UPDATE).
+-- =============================================================================
+CREATE OR REPLACE FUNCTION reclaim_expired_jobs(p_lease_seconds INTEGER)
+RETURNS SETOF jobs AS $$
+BEGIN
+  RETURN QUERY
+    UPDATE jobs
+      SET status = CASE
+            WHEN cancel_requested THEN 'cancelled'
+            WHEN attempts >= max_attempts THEN 'failed'
+            ELSE 'queued'
+          END,
+          last_error = 'Worker stopped responding',
+          finished_at = CASE WHEN cancel_requested OR attempts >= max_attempts THEN NOW() ELSE NULL END,
+          locked_by = NULL,
+          locked_at = NULL,
+          updated_at = NOW()
+      WHERE status = 'running'
+        AND locked_at < NOW() - make_interval(secs => p_lease_seconds)
+      RETURNING *;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public, pg_temp;
+
+REVOKE EXECUTE ON FUNCTION reclaim_expired_jobs(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- =============================================================================
+-- FUNCTION: claim_job
+-- As in migration 050, without taking back expired leases (see above).
+-- p_lease_seconds is kept so existing callers don't change.
+-- =============================================================================
+CREATE OR REPLACE FUNCTION claim_job(p_worker TEXT, p_user_limit INTEGER, p_lease_seconds INTEGER)
+RETURNS SETOF jobs AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('claim_job'));
+
+  SELECT j.id INTO v_id
+    FROM jobs j
+    WHERE j.status = 'queued'
+      AND j.run_at <= NOW()
+      AND (
+        j.user_id IS NULL OR
+        (SELECT COUNT(*) FROM jobs r WHERE r.user_id = j.user_id AND r.status = 'running') < p_user_limit
+      )
+    ORDER BY j.run_at, j.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+  IF v_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+    UPDATE jobs
+      SET status = 'running',
+          attempts = attempts + 1,
+          locked_by = p_worker,
+          locked_at = NOW(),
+          progress = NULL,
+          started_at = COALESCE(started_at, NOW()),
+          updated_at = NOW()
+      WHERE id = v_id
+      RETURNING *;
+END;
+$$ LANGUAGE plpgsql VOLATILE SET search_path = public, pg_temp;
@@ -0,0 +1,10 @@
+-- Drafts were kept one per guide, so two people editing a shared guide
+-- overwrote each other's autosaves, and one could restore (or discard) what
+-- the other had typed. Each editor now has their own draft of the guide.
+
+-- =============================================================================
+-- TABLE: study_guide_drafts
+-- At most one draft per guide per editor
+-- =============================================================================
+ALTER TABLE study_guide_drafts DROP CONSTRAINT IF EXISTS study_guide_drafts_pkey;
+ALTER TABLE study_guide_drafts ADD PRIMARY KEY (study_guide_id, user_id);
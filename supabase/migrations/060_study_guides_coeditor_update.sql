@@ -0,0 +1,10 @@
+-- The co-editor UPDATE policy from 054 had no WITH CHECK and covered every
+-- column, so a co-editor could PATCH study_guides directly and hand the
+-- guide to themselves (user_id) or publish it. Co-editors' saves now go
+-- through /api/study-guides/[id]/custom-content, which checks their role
+-- and writes only the content fields with the service role.
+
+-- =============================================================================
+-- RLS: study_guides
+-- =============================================================================
+DROP POLICY IF EXISTS "Co-editors can update shared guides" ON study_guides;